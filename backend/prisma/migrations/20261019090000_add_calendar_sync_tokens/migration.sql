@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "calendar_accounts" ADD COLUMN     "syncToken" TEXT;
+
+-- AlterTable
+ALTER TABLE "meetings" ADD COLUMN     "googleEventId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meetings_contactId_googleEventId_key" ON "meetings"("contactId", "googleEventId");
+
+-- CreateIndex
+CREATE INDEX "meetings_googleEventId_idx" ON "meetings"("googleEventId");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "pods" ADD COLUMN     "strengthConfig" JSONB;
+
+-- AlterTable
+ALTER TABLE "meetings" ADD COLUMN     "attendeeCount" INTEGER,
+ADD COLUMN     "organizedByUser" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "relationships" ADD COLUMN     "strengthBreakdown" JSONB;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "intro_request_events" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "type" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT,
+    "payload" JSONB NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "intro_request_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "intro_request_events_requestId_createdAt_idx" ON "intro_request_events"("requestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "intro_request_events" ADD CONSTRAINT "intro_request_events_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "intro_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "intro_request_events" ADD CONSTRAINT "intro_request_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill a "created" event for existing requests so every timeline starts somewhere
+INSERT INTO "intro_request_events" ("id", "requestId", "actorId", "type", "fromStatus", "toStatus", "payload", "createdAt")
+SELECT 'evt_' || ir."id", ir."id", ir."requesterId", 'created', NULL, 'open', '{"backfilled":true}', ir."createdAt"
+FROM "intro_requests" ir;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "pods" ADD COLUMN     "staleReminderDays" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "staleEscalationDays" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "staleExpiryDays" INTEGER NOT NULL DEFAULT 14;
+
+-- AlterTable
+ALTER TABLE "intro_requests" ADD COLUMN     "remindersSent" INTEGER NOT NULL DEFAULT 0;
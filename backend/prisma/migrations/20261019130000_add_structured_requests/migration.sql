@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "intro_requests" ADD COLUMN     "targetName" TEXT,
+ADD COLUMN     "targetRole" TEXT,
+ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "context" TEXT,
+ADD COLUMN     "urgency" TEXT,
+ADD COLUMN     "deadline" TIMESTAMP(3),
+ADD COLUMN     "desiredOutcome" TEXT,
+ADD COLUMN     "forwardableBlurb" TEXT,
+ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "intro_request_templates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "podId" TEXT,
+    "name" TEXT NOT NULL,
+    "rawText" TEXT,
+    "targetRole" TEXT,
+    "reason" TEXT,
+    "context" TEXT,
+    "urgency" TEXT,
+    "desiredOutcome" TEXT,
+    "forwardableBlurb" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "intro_request_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "intro_request_templates_userId_idx" ON "intro_request_templates"("userId");
+
+-- CreateIndex
+CREATE INDEX "intro_request_templates_podId_idx" ON "intro_request_templates"("podId");
+
+-- AddForeignKey
+ALTER TABLE "intro_requests" ADD CONSTRAINT "intro_requests_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "intro_request_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "intro_request_templates" ADD CONSTRAINT "intro_request_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "intro_request_templates" ADD CONSTRAINT "intro_request_templates_podId_fkey" FOREIGN KEY ("podId") REFERENCES "pods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "intro_requests" ADD COLUMN     "contactAgreedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "intro_consents" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "introducerId" TEXT NOT NULL,
+    "contactId" TEXT,
+    "contactEmail" TEXT NOT NULL,
+    "contactName" TEXT,
+    "token" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "note" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "intro_consents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "intro_consents_token_key" ON "intro_consents"("token");
+
+-- CreateIndex
+CREATE INDEX "intro_consents_requestId_idx" ON "intro_consents"("requestId");
+
+-- CreateIndex
+CREATE INDEX "intro_consents_introducerId_idx" ON "intro_consents"("introducerId");
+
+-- AddForeignKey
+ALTER TABLE "intro_consents" ADD CONSTRAINT "intro_consents_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "intro_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "intro_consents" ADD CONSTRAINT "intro_consents_introducerId_fkey" FOREIGN KEY ("introducerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "intro_consents" ADD CONSTRAINT "intro_consents_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "contacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "notificationPreferences" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "digestPending" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "notifications_digestPending_idx" ON "notifications"("digestPending");
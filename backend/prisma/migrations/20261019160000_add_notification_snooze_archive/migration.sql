@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "snoozedUntil" TIMESTAMP(3),
+ADD COLUMN     "sortAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing notifications keep their place in the list
+UPDATE "notifications" SET "sortAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_sortAt_idx" ON "notifications"("userId", "sortAt");
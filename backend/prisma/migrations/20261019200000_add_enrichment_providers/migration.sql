@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "fieldSources" JSONB;
+
+-- AlterTable
+ALTER TABLE "contacts" ADD COLUMN "fieldSources" JSONB;
+
+-- CreateTable
+CREATE TABLE "enrichment_provider_usage" (
+    "provider" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "credits" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "enrichment_provider_usage_pkey" PRIMARY KEY ("provider","period")
+);
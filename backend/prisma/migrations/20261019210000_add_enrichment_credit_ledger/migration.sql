@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "enrichmentCreditLimit" INTEGER;
+
+-- CreateTable
+CREATE TABLE "enrichment_credits" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "userId" TEXT,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT,
+    "subject" TEXT NOT NULL,
+    "credits" INTEGER NOT NULL,
+    "matched" BOOLEAN,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "enrichment_credits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "enrichment_credits_createdAt_idx" ON "enrichment_credits"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "enrichment_credits_userId_createdAt_idx" ON "enrichment_credits"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "enrichment_credits_provider_createdAt_idx" ON "enrichment_credits"("provider", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "enrichment_credits" ADD CONSTRAINT "enrichment_credits_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Keep this month's provider usage as one unattributed row per provider, so
+-- provider budgets don't start over
+INSERT INTO "enrichment_credits" ("id", "provider", "entityType", "subject", "credits", "createdAt")
+SELECT md5(provider || period), provider, 'carryover', period, credits, to_timestamp(period || '-01', 'YYYY-MM-DD')
+FROM "enrichment_provider_usage"
+WHERE credits > 0;
+
+-- DropTable
+DROP TABLE "enrichment_provider_usage";
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "contact_overrides" (
+    "id" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "original" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "company_overrides" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "company_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_overrides_contactId_field_key" ON "contact_overrides"("contactId", "field");
+
+-- CreateIndex
+CREATE INDEX "company_overrides_companyId_idx" ON "company_overrides"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "company_overrides_userId_companyId_field_key" ON "company_overrides"("userId", "companyId", "field");
+
+-- AddForeignKey
+ALTER TABLE "contact_overrides" ADD CONSTRAINT "contact_overrides_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "company_overrides" ADD CONSTRAINT "company_overrides_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "company_overrides" ADD CONSTRAINT "company_overrides_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Contact embeddings for people search (1536 dimensions = OpenAI text-embedding-3-small)
+ALTER TABLE "contacts" ADD COLUMN "embedding" vector(1536);
+
+-- Track when embedding was last generated
+ALTER TABLE "contacts" ADD COLUMN "embeddedAt" TIMESTAMP(3);
+
+-- No vector index: people search only ever compares one user's contacts, which
+-- the userId index already narrows to a few thousand rows at most, and an
+-- approximate index would drop matches that fall outside its probed lists.
@@ -0,0 +1,3 @@
+-- Hash of the provider, model and text a company's embedding was made from,
+-- so re-embedding unchanged companies can be skipped
+ALTER TABLE "companies" ADD COLUMN "embeddingHash" TEXT;
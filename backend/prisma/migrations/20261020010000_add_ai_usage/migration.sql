@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ai_usage" (
+    "id" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "calls" INTEGER NOT NULL DEFAULT 0,
+    "cachedCalls" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_usage_date_provider_model_purpose_key" ON "ai_usage"("date", "provider", "model", "purpose");
@@ -6,11 +6,12 @@ import rateLimit from 'express-rate-limit';
 
 import { configurePassport } from './middleware/auth.js';
 import { securityHeaders, httpsRedirect } from './middleware/security.js';
-import { syncCalendarForUser, syncCalendarAccount, getTodayEvents, ensureContactsForBriefing } from './services/calendar.js';
+import { syncCalendarForUser, syncCalendarAccount, getTodayEvents, ensureContactsForBriefing, queueCalendarSync, isCalendarAuthError } from './services/calendar.js';
 import authRoutes from './routes/auth.js';
 import calendarRoutes from './routes/calendar.js';
 import usersRoutes from './routes/users.js';
 import requestsRoutes from './routes/requests.js';
+import requestTemplatesRoutes from './routes/requestTemplates.js';
 import offersRoutes from './routes/offers.js';
 import relationshipsRoutes from './routes/relationships.js';
 import spacesRoutes from './routes/spaces.js';
@@ -25,8 +26,18 @@ import viewsRoutes from './routes/views.js';
 import adminRoutes from './routes/admin.js';
 import embeddingsRoutes from './routes/embeddings.js';
 import historyRoutes from './routes/history.js';
+import consentRoutes from './routes/consent.js';
+import webhooksRoutes from './routes/webhooks.js';
+import apiTokensRoutes from './routes/apiTokens.js';
+import searchRoutes from './routes/search.js';
 import { sendWeeklyDigest, sendDailyBriefing, sendCalendarReminderEmail, sendConnectionReminderEmail, sendIntroNudgeEmail, sendInviteReminderEmail, sendSpaceInviteReminderEmail } from './services/email.js';
 import type { BriefingMeeting, BriefingAttendee } from './services/email.js';
+import { runWithSignalEvaluation } from './services/signals.js';
+import { ACTIVE_REQUEST_STATUSES } from './services/introRequestLifecycle.js';
+import { processStaleIntroRequests } from './services/staleRequests.js';
+import { closeAllStreams, sendNotificationDigests, releaseSnoozedNotifications, startStreamFanout, stopStreamFanout } from './services/notifications.js';
+import { retryWebhookDeliveries } from './services/webhooks.js';
+import { createRunStats, registerJobHandler, registerRecurringJob, startJobWorker, stopJobWorker } from './services/jobs.js';
 import prisma from './lib/prisma.js';
 
 const app = express();
@@ -72,6 +83,16 @@ const authLimiter = rateLimit({
   skip: () => !isProduction, // Skip rate limiting in development
 });
 
+// Public consent links are unauthenticated, so keep token guessing slow
+const consentLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: isProduction ? 50 : 1000,
+  message: { error: 'Too many requests, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: () => !isProduction, // Skip rate limiting in development
+});
+
 // Trust proxy — required for Railway (and any reverse-proxy deployment)
 // so that req.ip, req.secure, and rate limiting work correctly.
 app.set('trust proxy', 1);
@@ -132,6 +153,7 @@ app.use('/auth', authLimiter, authRoutes);
 app.use('/api/calendar', calendarRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/requests', requestsRoutes);
+app.use('/api/request-templates', requestTemplatesRoutes);
 app.use('/api/offers', offersRoutes);
 app.use('/api/relationships', relationshipsRoutes);
 app.use('/api/spaces', spacesRoutes);
@@ -145,7 +167,11 @@ app.use('/api/email', emailRoutes);
 app.use('/api/views', viewsRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/embeddings', embeddingsRoutes);
+app.use('/api/search', searchRoutes);
 app.use('/api/history', historyRoutes);
+app.use('/api/webhooks', webhooksRoutes);
+app.use('/api/tokens', apiTokensRoutes);
+app.use('/api/consent', consentLimiter, consentRoutes);
 
 // Debug endpoint - development only
 if (!isProduction) {
@@ -188,10 +214,16 @@ let server: ReturnType<typeof app.listen>;
 async function gracefulShutdown(signal: string) {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
   
+  // Open notification streams would otherwise hold the server open
+  closeAllStreams();
+  // Running jobs are handed back to the queue for the next instance
+  const workerStopped = stopJobWorker().catch(err => console.error('[jobs] Worker shutdown error:', err));
   server.close(async () => {
     console.log('HTTP server closed');
     
     try {
+      await workerStopped;
+      await stopStreamFanout();
       await prisma.$disconnect();
       console.log('Database connection closed');
       process.exit(0);
@@ -225,335 +257,349 @@ process.on('uncaughtException', (error) => {
 
 const SYNC_INTERVAL_MS = 4 * 60 * 60 * 1000; // 4 hours
 
-let syncRunning = false;
-
+// Fans out one calendar_sync_user job per connected user, then one enrichment
+// job per user with contacts (weekly cadence enforced by the 7-day cache).
+// Each user's sync is retried on its own and runs before their enrichment,
+// since a user runs one job at a time.
 async function backgroundCalendarSync() {
-  if (syncRunning) {
-    console.log('[cron] Skipping calendar sync — previous run still in progress');
-    return;
+  const calendarUsers = await prisma.user.findMany({
+    where: {
+      OR: [
+        { googleAccessToken: { not: null } },
+        { calendarAccounts: { some: { isActive: true } } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  let syncsQueued = 0;
+  for (const user of calendarUsers) {
+    if (await queueCalendarSync(user.id)) syncsQueued++;
   }
-  syncRunning = true;
-  console.log('[cron] Starting background calendar sync for all users...');
-  try {
-    // Get all users that have calendar connected (primary tokens)
-    const users = await prisma.user.findMany({
-      where: { googleAccessToken: { not: null } },
-      select: { id: true, email: true },
-    });
 
-    for (const user of users) {
-      try {
-        await syncCalendarForUser(user.id);
-        console.log(`[cron] Synced primary calendar for ${user.email}`);
-      } catch (err) {
-        console.error(`[cron] Failed to sync primary for ${user.email}:`, (err as Error).message);
-      }
-    }
+  const contactUsers = await prisma.user.findMany({
+    where: { contacts: { some: {} } },
+    select: { id: true },
+  });
 
-    // Sync all additional calendar accounts
-    const accounts = await prisma.calendarAccount.findMany({
-      where: { isActive: true },
-      select: { id: true, email: true, userId: true },
-    });
+  let enrichmentsQueued = 0;
+  for (const user of contactUsers) {
+    if (await runEnrichmentForUser(user.id)) enrichmentsQueued++;
+  }
 
-    for (const acct of accounts) {
-      try {
-        // Skip primary accounts (already synced above via syncCalendarForUser)
-        const owner = users.find(u => u.id === acct.userId);
-        if (owner && acct.email.toLowerCase() === owner.email.toLowerCase()) continue;
+  console.log(`[cron] Queued ${syncsQueued} calendar sync(s) and ${enrichmentsQueued} enrichment(s)`);
+  return { syncsQueued, enrichmentsQueued };
+}
 
-        await syncCalendarAccount(acct.userId, acct.id);
-        console.log(`[cron] Synced additional account ${acct.email}`);
-      } catch (err) {
-        console.error(`[cron] Failed to sync account ${acct.email}:`, (err as Error).message);
-      }
+// Primary Google calendar plus any additional calendar accounts of one user,
+// or only `accountId` when a user asked for that account to be synced
+async function syncUserCalendars(userId: string, accountId?: string) {
+  // Each account keeps a Google sync token, so after the first full sync these
+  // runs only fetch events that changed since the previous one
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { email: true, googleAccessToken: true },
+  });
+
+  const run = createRunStats();
+  let eventsProcessed = 0;
+  let authFailures = 0;
+
+  // A revoked token won't come back on retry; the user has to reconnect
+  const failed = async (label: string, email: string, err: unknown, account?: { id: string }) => {
+    console.error(`[cron] Failed to sync ${label} ${email}:`, (err as Error).message);
+    run.failed(email, err);
+    if (!isCalendarAuthError(err)) return;
+    authFailures++;
+    if (account) {
+      await prisma.calendarAccount.update({ where: { id: account.id }, data: { hasCalendarAccess: false } }).catch(() => {});
     }
+  };
 
-    console.log('[cron] Background calendar sync complete');
+  if (user.googleAccessToken && !accountId) {
+    run.processed();
+    try {
+      const result = await runWithSignalEvaluation(userId, () => syncCalendarForUser(userId));
+      eventsProcessed += result.eventsProcessed;
+      console.log(`[cron] Synced primary calendar for ${user.email} (${result.fullSync ? 'full' : 'incremental'}, ${result.eventsProcessed} events)`);
+    } catch (err) {
+      await failed('primary for', user.email, err);
+    }
+  }
 
-    // Run enrichment for all users with contacts (weekly cadence enforced by 7-day cache)
-    console.log('[cron] Starting background enrichment for all users...');
-    const allUsers = await prisma.user.findMany({
-      where: { contacts: { some: {} } },
-      select: { id: true, email: true },
-    });
+  const accounts = await prisma.calendarAccount.findMany({
+    where: { userId, isActive: true, ...(accountId && { id: accountId }) },
+    select: { id: true, email: true },
+  });
 
-    for (const u of allUsers) {
-      try {
-        await runEnrichmentForUser(u.id);
-        console.log(`[cron] Queued enrichment for ${u.email}`);
-      } catch (err) {
-        console.error(`[cron] Failed to queue enrichment for ${u.email}:`, (err as Error).message);
-      }
+  for (const acct of accounts) {
+    // Skip the primary account (already synced above via syncCalendarForUser)
+    if (!accountId && user.googleAccessToken && acct.email.toLowerCase() === user.email.toLowerCase()) continue;
+    run.processed();
+    try {
+      const result = await runWithSignalEvaluation(userId, () => syncCalendarAccount(userId, acct.id));
+      eventsProcessed += result.eventsProcessed;
+      console.log(`[cron] Synced additional account ${acct.email} (${result.fullSync ? 'full' : 'incremental'}, ${result.eventsProcessed} events)`);
+    } catch (err) {
+      await failed('account', acct.email, err, acct);
     }
-  } catch (err) {
-    console.error('[cron] Background sync error:', err);
-  } finally {
-    syncRunning = false;
   }
+
+  // Every account failing is worth a retry, unless they all need reconnecting;
+  // a single broken one is not
+  const summary = run.summary();
+  if (summary.failed > 0 && summary.failed === summary.processed && authFailures < summary.failed) {
+    throw new Error(summary.failures.map(f => `${f.subject}: ${f.error}`).join('; '));
+  }
+  return { ...summary, eventsProcessed, needsReauth: authFailures > 0 };
 }
 
 // ─── Weekly digest email (Wednesday 10 AM per user timezone) ─────────────────
 
 const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000; // check every 15 minutes
 
-let digestRunning = false;
-
 async function backgroundWeeklyDigest() {
-  if (digestRunning) return;
-  digestRunning = true;
-  try {
-    const now = Date.now();
-    const oneWeekAgo = new Date(now - 7 * 24 * 60 * 60 * 1000);
-    const twoWeeksAgo = new Date(now - 14 * 24 * 60 * 60 * 1000);
-
-    const users = await prisma.user.findMany({
-      where: { googleAccessToken: { not: null } },
-      select: { id: true, email: true, lastDigestDate: true, timezone: true },
-    });
+  const run = createRunStats();
+  const now = Date.now();
+  const oneWeekAgo = new Date(now - 7 * 24 * 60 * 60 * 1000);
+  const twoWeeksAgo = new Date(now - 14 * 24 * 60 * 60 * 1000);
+
+  const users = await prisma.user.findMany({
+    where: { googleAccessToken: { not: null } },
+    select: { id: true, email: true, lastDigestDate: true, timezone: true },
+  });
 
-    for (const user of users) {
-      try {
-        const tz = user.timezone || 'UTC';
-        const parts = new Intl.DateTimeFormat('en-US', {
-          timeZone: tz,
-          year: 'numeric', month: '2-digit', day: '2-digit',
-          hour: 'numeric', hour12: false, weekday: 'short',
-        }).formatToParts(new Date());
-        const get = (type: string) => parts.find(p => p.type === type)?.value || '';
-        const hour = parseInt(get('hour'), 10);
-        const dayName = get('weekday');
-        const todayStr = `${get('year')}-${get('month')}-${get('day')}`;
-        const dayOfWeek = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(dayName);
-
-        // Only send on Wednesday at 10:00–10:14 local time
-        if (dayOfWeek !== 3 || hour !== 10) continue;
-
-        if (user.lastDigestDate === todayStr) continue;
-
-        const [
-          newContacts, newMeetings, introsSent, introsReceived, introsDone,
-          prevContacts, prevMeetings, prevIntrosSent, prevIntrosReceived,
-          pendingRequestsForYou, pendingOffersForYou, unansweredConnectionRequests,
-          topCompanies,
-        ] = await Promise.all([
-          // This week
-          prisma.contact.count({ where: { userId: user.id, createdAt: { gte: oneWeekAgo } } }),
-          prisma.meeting.count({ where: { contact: { userId: user.id }, date: { gte: oneWeekAgo } } }),
-          prisma.introRequest.count({ where: { requesterId: user.id, createdAt: { gte: oneWeekAgo } } }),
-          prisma.introRequest.count({
-            where: {
-              createdAt: { gte: oneWeekAgo },
-              OR: [
-                { space: { members: { some: { userId: user.id, status: 'approved' } } } },
-                { requester: { sentConnections: { some: { toUserId: user.id, status: 'accepted' } } } },
-                { requester: { receivedConnections: { some: { fromUserId: user.id, status: 'accepted' } } } },
-              ],
-              requesterId: { not: user.id },
-            },
-          }),
-          prisma.introOffer.count({
-            where: {
-              status: 'done',
-              updatedAt: { gte: oneWeekAgo },
-              OR: [{ introducerId: user.id }, { request: { requesterId: user.id } }],
-            },
-          }),
-          // Previous week (for trend comparison)
-          prisma.contact.count({ where: { userId: user.id, createdAt: { gte: twoWeeksAgo, lt: oneWeekAgo } } }),
-          prisma.meeting.count({ where: { contact: { userId: user.id }, date: { gte: twoWeeksAgo, lt: oneWeekAgo } } }),
-          prisma.introRequest.count({ where: { requesterId: user.id, createdAt: { gte: twoWeeksAgo, lt: oneWeekAgo } } }),
-          prisma.introRequest.count({
-            where: {
-              createdAt: { gte: twoWeeksAgo, lt: oneWeekAgo },
-              OR: [
-                { space: { members: { some: { userId: user.id, status: 'approved' } } } },
-                { requester: { sentConnections: { some: { toUserId: user.id, status: 'accepted' } } } },
-                { requester: { receivedConnections: { some: { fromUserId: user.id, status: 'accepted' } } } },
-              ],
-              requesterId: { not: user.id },
-            },
-          }),
-          // Pending actions
-          prisma.introRequest.count({
-            where: {
-              status: 'open',
-              offers: { none: { introducerId: user.id } },
-              OR: [
-                { space: { members: { some: { userId: user.id, status: 'approved' } } } },
-                { requester: { sentConnections: { some: { toUserId: user.id, status: 'accepted' } } } },
-                { requester: { receivedConnections: { some: { fromUserId: user.id, status: 'accepted' } } } },
-              ],
-              requesterId: { not: user.id },
-            },
-          }),
-          prisma.introOffer.count({
-            where: { request: { requesterId: user.id }, status: 'pending' },
-          }),
-          prisma.directConnection.count({
-            where: { toUserId: user.id, status: 'pending' },
-          }),
-          // Top companies
-          prisma.contact.groupBy({
-            by: ['companyId'],
-            where: { userId: user.id, createdAt: { gte: oneWeekAgo }, companyId: { not: null } },
-            _count: { id: true },
-            orderBy: { _count: { id: 'desc' } },
-            take: 5,
-          }),
-        ]);
-
-        const totalActions = pendingRequestsForYou + pendingOffersForYou + unansweredConnectionRequests;
-        if (newContacts === 0 && newMeetings === 0 && introsSent === 0 && introsReceived === 0 && introsDone === 0 && totalActions === 0) {
-          continue;
-        }
+  for (const user of users) {
+    run.processed();
+    try {
+      const tz = user.timezone || 'UTC';
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: tz,
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: 'numeric', hour12: false, weekday: 'short',
+      }).formatToParts(new Date());
+      const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+      const hour = parseInt(get('hour'), 10);
+      const dayName = get('weekday');
+      const todayStr = `${get('year')}-${get('month')}-${get('day')}`;
+      const dayOfWeek = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(dayName);
+
+      // Only send on Wednesday at 10:00–10:14 local time
+      if (dayOfWeek !== 3 || hour !== 10) continue;
+
+      if (user.lastDigestDate === todayStr) continue;
+
+      const [
+        newContacts, newMeetings, introsSent, introsReceived, introsDone,
+        prevContacts, prevMeetings, prevIntrosSent, prevIntrosReceived,
+        pendingRequestsForYou, pendingOffersForYou, unansweredConnectionRequests,
+        topCompanies,
+      ] = await Promise.all([
+        // This week
+        prisma.contact.count({ where: { userId: user.id, createdAt: { gte: oneWeekAgo } } }),
+        prisma.meeting.count({ where: { contact: { userId: user.id }, date: { gte: oneWeekAgo, lte: new Date(now) } } }),
+        prisma.introRequest.count({ where: { requesterId: user.id, createdAt: { gte: oneWeekAgo } } }),
+        prisma.introRequest.count({
+          where: {
+            createdAt: { gte: oneWeekAgo },
+            OR: [
+              { space: { members: { some: { userId: user.id, status: 'approved' } } } },
+              { requester: { sentConnections: { some: { toUserId: user.id, status: 'accepted' } } } },
+              { requester: { receivedConnections: { some: { fromUserId: user.id, status: 'accepted' } } } },
+            ],
+            requesterId: { not: user.id },
+          },
+        }),
+        prisma.introOffer.count({
+          where: {
+            status: 'done',
+            updatedAt: { gte: oneWeekAgo },
+            OR: [{ introducerId: user.id }, { request: { requesterId: user.id } }],
+          },
+        }),
+        // Previous week (for trend comparison)
+        prisma.contact.count({ where: { userId: user.id, createdAt: { gte: twoWeeksAgo, lt: oneWeekAgo } } }),
+        prisma.meeting.count({ where: { contact: { userId: user.id }, date: { gte: twoWeeksAgo, lt: oneWeekAgo } } }),
+        prisma.introRequest.count({ where: { requesterId: user.id, createdAt: { gte: twoWeeksAgo, lt: oneWeekAgo } } }),
+        prisma.introRequest.count({
+          where: {
+            createdAt: { gte: twoWeeksAgo, lt: oneWeekAgo },
+            OR: [
+              { space: { members: { some: { userId: user.id, status: 'approved' } } } },
+              { requester: { sentConnections: { some: { toUserId: user.id, status: 'accepted' } } } },
+              { requester: { receivedConnections: { some: { fromUserId: user.id, status: 'accepted' } } } },
+            ],
+            requesterId: { not: user.id },
+          },
+        }),
+        // Pending actions
+        prisma.introRequest.count({
+          where: {
+            status: { in: ACTIVE_REQUEST_STATUSES },
+            offers: { none: { introducerId: user.id } },
+            OR: [
+              { space: { members: { some: { userId: user.id, status: 'approved' } } } },
+              { requester: { sentConnections: { some: { toUserId: user.id, status: 'accepted' } } } },
+              { requester: { receivedConnections: { some: { fromUserId: user.id, status: 'accepted' } } } },
+            ],
+            requesterId: { not: user.id },
+          },
+        }),
+        prisma.introOffer.count({
+          where: { request: { requesterId: user.id }, status: 'pending' },
+        }),
+        prisma.directConnection.count({
+          where: { toUserId: user.id, status: 'pending' },
+        }),
+        // Top companies
+        prisma.contact.groupBy({
+          by: ['companyId'],
+          where: { userId: user.id, createdAt: { gte: oneWeekAgo }, companyId: { not: null } },
+          _count: { id: true },
+          orderBy: { _count: { id: 'desc' } },
+          take: 5,
+        }),
+      ]);
+
+      const totalActions = pendingRequestsForYou + pendingOffersForYou + unansweredConnectionRequests;
+      if (newContacts === 0 && newMeetings === 0 && introsSent === 0 && introsReceived === 0 && introsDone === 0 && totalActions === 0) {
+        continue;
+      }
 
-        const companyIds = topCompanies.map(tc => tc.companyId).filter(Boolean) as string[];
-        const companies = companyIds.length > 0
-          ? await prisma.company.findMany({
-              where: { id: { in: companyIds } },
-              select: { id: true, name: true, logo: true },
-            })
-          : [];
-
-        const topCompanyList = topCompanies.map(tc => {
-          const company = companies.find(c => c.id === tc.companyId);
-          return { name: company?.name || 'Unknown', logo: company?.logo, contactCount: tc._count.id };
-        });
+      const companyIds = topCompanies.map(tc => tc.companyId).filter(Boolean) as string[];
+      const companies = companyIds.length > 0
+        ? await prisma.company.findMany({
+            where: { id: { in: companyIds } },
+            select: { id: true, name: true, logo: true },
+          })
+        : [];
+
+      const topCompanyList = topCompanies.map(tc => {
+        const company = companies.find(c => c.id === tc.companyId);
+        return { name: company?.name || 'Unknown', logo: company?.logo, contactCount: tc._count.id };
+      });
 
-        // Generate insight line based on the most interesting stat
-        let insight: string | undefined;
-        const topCompany = topCompanyList[0];
-        if (topCompany && topCompany.contactCount >= 3) {
-          insight = `Your <strong>${topCompany.name}</strong> network grew by ${topCompany.contactCount} contacts this week.`;
-        } else if (introsDone > 0) {
-          insight = `${introsDone} warm intro${introsDone !== 1 ? 's' : ''} made this week — connections that skip the cold outreach.`;
-        } else if (newContacts > prevContacts && prevContacts > 0) {
-          const pct = Math.round(((newContacts - prevContacts) / prevContacts) * 100);
-          if (pct >= 20) insight = `Your contact growth is up ${pct}% compared to last week. Keep it going.`;
-        }
+      // Generate insight line based on the most interesting stat
+      let insight: string | undefined;
+      const topCompany = topCompanyList[0];
+      if (topCompany && topCompany.contactCount >= 3) {
+        insight = `Your <strong>${topCompany.name}</strong> network grew by ${topCompany.contactCount} contacts this week.`;
+      } else if (introsDone > 0) {
+        insight = `${introsDone} warm intro${introsDone !== 1 ? 's' : ''} made this week — connections that skip the cold outreach.`;
+      } else if (newContacts > prevContacts && prevContacts > 0) {
+        const pct = Math.round(((newContacts - prevContacts) / prevContacts) * 100);
+        if (pct >= 20) insight = `Your contact growth is up ${pct}% compared to last week. Keep it going.`;
+      }
 
-        await sendWeeklyDigest(user.id, {
-          newContacts, newMeetings, introsSent, introsReceived, introsDone,
-          prevContacts, prevMeetings, prevIntrosSent: prevIntrosSent, prevIntrosReceived: prevIntrosReceived,
-          topCompanies: topCompanyList,
-          actionItems: { pendingRequestsForYou, pendingOffersForYou, unansweredConnectionRequests },
-          insight,
-        });
+      await sendWeeklyDigest(user.id, {
+        newContacts, newMeetings, introsSent, introsReceived, introsDone,
+        prevContacts, prevMeetings, prevIntrosSent: prevIntrosSent, prevIntrosReceived: prevIntrosReceived,
+        topCompanies: topCompanyList,
+        actionItems: { pendingRequestsForYou, pendingOffersForYou, unansweredConnectionRequests },
+        insight,
+      });
 
-        await prisma.user.update({
-          where: { id: user.id },
-          data: { lastDigestDate: todayStr },
-        });
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lastDigestDate: todayStr },
+      });
 
-        console.log(`[cron] Sent weekly digest to ${user.email}`);
-      } catch (err) {
-        console.error(`[cron] Failed to send digest to ${user.email}:`, (err as Error).message);
-      }
+      console.log(`[cron] Sent weekly digest to ${user.email}`);
+    } catch (err) {
+      console.error(`[cron] Failed to send digest to ${user.email}:`, (err as Error).message);
+      run.failed(user.email, err);
     }
-
-    console.log('[cron] Weekly digest check complete');
-  } catch (err) {
-    console.error('[cron] Weekly digest error:', err);
-  } finally {
-    digestRunning = false;
   }
+
+  console.log('[cron] Weekly digest check complete');
+  return run.summary();
 }
 
 // ─── Daily morning briefing (9 AM per user timezone) ─────────────────────────
 
 const BRIEFING_CHECK_INTERVAL_MS = 15 * 60 * 1000; // check every 15 minutes
 
-let briefingRunning = false;
-
 async function dailyMorningBriefing() {
-  if (briefingRunning) {
-    console.log('[cron] Skipping briefing check — previous run still in progress');
-    return;
-  }
-  briefingRunning = true;
+  const run = createRunStats();
   console.log('[cron] Checking daily briefing eligibility...');
-  try {
-    const users = await prisma.user.findMany({
-      where: { googleAccessToken: { not: null } },
-      select: { id: true, email: true, timezone: true, lastBriefingDate: true },
-    });
-
-    for (const user of users) {
-      try {
-        const tz = user.timezone || 'UTC';
-        const now = new Date();
-        const parts = new Intl.DateTimeFormat('en-US', {
-          timeZone: tz,
-          year: 'numeric', month: '2-digit', day: '2-digit',
-          hour: 'numeric', hour12: false, weekday: 'short',
-        }).formatToParts(now);
-        const get = (type: string) => parts.find(p => p.type === type)?.value || '';
-        const hour = parseInt(get('hour'), 10);
-        const dayName = get('weekday');
-        const todayStr = `${get('year')}-${get('month')}-${get('day')}`; // YYYY-MM-DD
-        const dayOfWeek = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(dayName);
-
-        // Skip weekends
-        if (dayOfWeek === 0 || dayOfWeek === 6) continue;
-
-        // Only send between 9:00–9:14 (within the 15-min check window)
-        if (hour !== 9) continue;
-
-        // Already sent today
-        if (user.lastBriefingDate === todayStr) continue;
-
-        console.log(`[cron] Generating briefing for ${user.email} (tz: ${tz})`);
-
-        const events = await getTodayEvents(user.id, tz);
-        if (events.length === 0) {
-          // No meetings — mark as sent so we don't re-check
-          await prisma.user.update({ where: { id: user.id }, data: { lastBriefingDate: todayStr } });
-          console.log(`[cron] No meetings today for ${user.email}, skipping email`);
-          continue;
-        }
+  const users = await prisma.user.findMany({
+    where: { googleAccessToken: { not: null } },
+    select: { id: true, email: true, timezone: true, lastBriefingDate: true },
+  });
 
-        // Ensure contacts exist for all attendees
-        const allEmails = events.flatMap(e => e.attendees.map(a => a.email));
-        const attendeeInfo = await ensureContactsForBriefing(user.id, allEmails);
-
-        // Build briefing meetings with enriched attendee data
-        const briefingMeetings: BriefingMeeting[] = events.map(e => ({
-          title: e.title,
-          startTime: e.startTime,
-          endTime: e.endTime,
-          duration: e.duration,
-          attendees: e.attendees.map(a => {
-            const info = attendeeInfo.get(a.email);
-            return {
-              name: info?.name || a.name || a.email.split('@')[0],
-              title: info?.title || null,
-              linkedinUrl: info?.linkedinUrl || null,
-              companyName: info?.companyName || null,
-              companyDomain: info?.companyDomain || null,
-              companyIndustry: info?.companyIndustry || null,
-              companyEmployees: info?.companyEmployees || null,
-              companyFunding: info?.companyFunding || null,
-              companyLinkedinUrl: info?.companyLinkedinUrl || null,
-              meetingsCount: info?.meetingsCount || 0,
-              strength: info?.strength || 'none',
-              isInternal: info?.isInternal || false,
-            } satisfies BriefingAttendee;
-          }),
-        }));
-
-        await sendDailyBriefing(user.id, briefingMeetings, tz);
+  for (const user of users) {
+    run.processed();
+    try {
+      const tz = user.timezone || 'UTC';
+      const now = new Date();
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: tz,
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: 'numeric', hour12: false, weekday: 'short',
+      }).formatToParts(now);
+      const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+      const hour = parseInt(get('hour'), 10);
+      const dayName = get('weekday');
+      const todayStr = `${get('year')}-${get('month')}-${get('day')}`; // YYYY-MM-DD
+      const dayOfWeek = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(dayName);
+
+      // Skip weekends
+      if (dayOfWeek === 0 || dayOfWeek === 6) continue;
+
+      // Only send between 9:00–9:14 (within the 15-min check window)
+      if (hour !== 9) continue;
+
+      // Already sent today
+      if (user.lastBriefingDate === todayStr) continue;
+
+      console.log(`[cron] Generating briefing for ${user.email} (tz: ${tz})`);
+
+      const events = await getTodayEvents(user.id, tz);
+      if (events.length === 0) {
+        // No meetings — mark as sent so we don't re-check
         await prisma.user.update({ where: { id: user.id }, data: { lastBriefingDate: todayStr } });
-        console.log(`[cron] Sent daily briefing to ${user.email} (${events.length} meetings)`);
-      } catch (err) {
-        console.error(`[cron] Failed briefing for ${user.email}:`, (err as Error).message);
+        console.log(`[cron] No meetings today for ${user.email}, skipping email`);
+        continue;
       }
+
+      // Ensure contacts exist for all attendees
+      const allEmails = events.flatMap(e => e.attendees.map(a => a.email));
+      const attendeeInfo = await ensureContactsForBriefing(user.id, allEmails);
+
+      // Build briefing meetings with enriched attendee data
+      const briefingMeetings: BriefingMeeting[] = events.map(e => ({
+        title: e.title,
+        startTime: e.startTime,
+        endTime: e.endTime,
+        duration: e.duration,
+        attendees: e.attendees.map(a => {
+          const info = attendeeInfo.get(a.email);
+          return {
+            name: info?.name || a.name || a.email.split('@')[0],
+            title: info?.title || null,
+            linkedinUrl: info?.linkedinUrl || null,
+            companyName: info?.companyName || null,
+            companyDomain: info?.companyDomain || null,
+            companyIndustry: info?.companyIndustry || null,
+            companyEmployees: info?.companyEmployees || null,
+            companyFunding: info?.companyFunding || null,
+            companyLinkedinUrl: info?.companyLinkedinUrl || null,
+            meetingsCount: info?.meetingsCount || 0,
+            strength: info?.strength || 'none',
+            isInternal: info?.isInternal || false,
+          } satisfies BriefingAttendee;
+        }),
+      }));
+
+      await sendDailyBriefing(user.id, briefingMeetings, tz);
+      await prisma.user.update({ where: { id: user.id }, data: { lastBriefingDate: todayStr } });
+      console.log(`[cron] Sent daily briefing to ${user.email} (${events.length} meetings)`);
+    } catch (err) {
+      console.error(`[cron] Failed briefing for ${user.email}:`, (err as Error).message);
+      run.failed(user.email, err);
     }
-  } catch (err) {
-    console.error('[cron] Daily briefing error:', err);
-  } finally {
-    briefingRunning = false;
   }
+  return run.summary();
 }
 
 // ─── Calendar connection reminders (30min, 1day, 3days after signup) ─────────
@@ -566,60 +612,54 @@ const REMINDER_THRESHOLDS: { ping: 1 | 2 | 3; minMs: number; maxMs: number }[] =
   { ping: 3, minMs: 3 * 24 * 60 * 60 * 1000, maxMs: 7 * 24 * 60 * 60 * 1000 }, // 3 days – 7 days
 ];
 
-let reminderRunning = false;
-
 async function backgroundCalendarReminders() {
-  if (reminderRunning) return;
-  reminderRunning = true;
-  try {
-    const users = await prisma.user.findMany({
-      where: {
-        googleAccessToken: null,
-        calendarRemindersSent: { lt: 3 },
-      },
-      select: { id: true, email: true, name: true, createdAt: true, calendarRemindersSent: true },
-    });
+  const run = createRunStats();
+  const users = await prisma.user.findMany({
+    where: {
+      googleAccessToken: null,
+      calendarRemindersSent: { lt: 3 },
+    },
+    select: { id: true, email: true, name: true, createdAt: true, calendarRemindersSent: true },
+  });
 
-    const now = Date.now();
-
-    for (const user of users) {
-      try {
-        const ageMs = now - new Date(user.createdAt).getTime();
-        let currentSent = user.calendarRemindersSent;
-
-        // Skip past any ping windows that have already closed
-        while (currentSent < 3) {
-          const nextPing = (currentSent + 1) as 1 | 2 | 3;
-          const threshold = REMINDER_THRESHOLDS.find(t => t.ping === nextPing);
-          if (!threshold) break;
-          if (ageMs < threshold.minMs) break; // too early for this ping
-          if (ageMs < threshold.maxMs) {
-            // Within window — send this ping
-            await sendCalendarReminderEmail({ id: user.id, email: user.email, name: user.name }, nextPing);
-            await prisma.user.update({
-              where: { id: user.id },
-              data: { calendarRemindersSent: nextPing },
-            });
-            console.log(`[cron] Sent calendar reminder #${nextPing} to ${user.email}`);
-            break;
-          }
-          // Window has passed — skip this ping silently
-          currentSent = nextPing;
+  const now = Date.now();
+
+  for (const user of users) {
+    run.processed();
+    try {
+      const ageMs = now - new Date(user.createdAt).getTime();
+      let currentSent = user.calendarRemindersSent;
+
+      // Skip past any ping windows that have already closed
+      while (currentSent < 3) {
+        const nextPing = (currentSent + 1) as 1 | 2 | 3;
+        const threshold = REMINDER_THRESHOLDS.find(t => t.ping === nextPing);
+        if (!threshold) break;
+        if (ageMs < threshold.minMs) break; // too early for this ping
+        if (ageMs < threshold.maxMs) {
+          // Within window — send this ping
+          await sendCalendarReminderEmail({ id: user.id, email: user.email, name: user.name }, nextPing);
           await prisma.user.update({
             where: { id: user.id },
             data: { calendarRemindersSent: nextPing },
           });
-          console.log(`[cron] Skipped calendar reminder #${nextPing} for ${user.email} (window passed)`);
+          console.log(`[cron] Sent calendar reminder #${nextPing} to ${user.email}`);
+          break;
         }
-      } catch (err) {
-        console.error(`[cron] Failed calendar reminder for ${user.email}:`, (err as Error).message);
+        // Window has passed — skip this ping silently
+        currentSent = nextPing;
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { calendarRemindersSent: nextPing },
+        });
+        console.log(`[cron] Skipped calendar reminder #${nextPing} for ${user.email} (window passed)`);
       }
+    } catch (err) {
+      console.error(`[cron] Failed calendar reminder for ${user.email}:`, (err as Error).message);
+      run.failed(user.email, err);
     }
-  } catch (err) {
-    console.error('[cron] Calendar reminders error:', err);
-  } finally {
-    reminderRunning = false;
   }
+  return run.summary();
 }
 
 // ─── Invite signup reminders (1d, 3d, 7d, 10d after invite) ─────────────────
@@ -633,104 +673,98 @@ const INVITE_REMINDER_THRESHOLDS: { ping: 1 | 2 | 3 | 4; minMs: number; maxMs: n
   { ping: 4, minMs: 10 * 24 * 60 * 60 * 1000, maxMs: 30 * 24 * 60 * 60 * 1000 },
 ];
 
-let inviteReminderRunning = false;
-
 async function backgroundInviteReminders() {
-  if (inviteReminderRunning) return;
-  inviteReminderRunning = true;
-  try {
-    const invites = await prisma.pendingInvite.findMany({
-      where: {
-        status: 'pending',
-        remindersSent: { lt: 4 },
-      },
-      select: {
-        id: true,
-        email: true,
-        createdAt: true,
-        remindersSent: true,
-        spaceId: true,
-        fromUser: { select: { name: true } },
-        space: { select: { name: true, emoji: true } },
-      },
+  const run = createRunStats();
+  const invites = await prisma.pendingInvite.findMany({
+    where: {
+      status: 'pending',
+      remindersSent: { lt: 4 },
+    },
+    select: {
+      id: true,
+      email: true,
+      createdAt: true,
+      remindersSent: true,
+      spaceId: true,
+      fromUser: { select: { name: true } },
+      space: { select: { name: true, emoji: true } },
+    },
+  });
+
+  const now = Date.now();
+
+  // Deduplicate: one active reminder track per email+type (1:1 vs each space)
+  // This ensures a space invite doesn't get starved by an older 1:1 invite
+  const seenKeys = new Set<string>();
+  const dedupedInvites = invites
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .filter(inv => {
+      const key = `${inv.email.toLowerCase()}:${inv.spaceId || '1:1'}`;
+      if (seenKeys.has(key)) return false;
+      seenKeys.add(key);
+      return true;
     });
 
-    const now = Date.now();
-
-    // Deduplicate: one active reminder track per email+type (1:1 vs each space)
-    // This ensures a space invite doesn't get starved by an older 1:1 invite
-    const seenKeys = new Set<string>();
-    const dedupedInvites = invites
-      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-      .filter(inv => {
-        const key = `${inv.email.toLowerCase()}:${inv.spaceId || '1:1'}`;
-        if (seenKeys.has(key)) return false;
-        seenKeys.add(key);
-        return true;
+  for (const invite of dedupedInvites) {
+    run.processed();
+    try {
+      // Skip if the user has since signed up
+      const existingUser = await prisma.user.findUnique({
+        where: { email: invite.email },
+        select: { id: true },
       });
-
-    for (const invite of dedupedInvites) {
-      try {
-        // Skip if the user has since signed up
-        const existingUser = await prisma.user.findUnique({
-          where: { email: invite.email },
-          select: { id: true },
-        });
-        if (existingUser) continue;
-
-        const ageMs = now - new Date(invite.createdAt).getTime();
-        let currentSent = invite.remindersSent;
-
-        // Skip past any ping windows that have already closed
-        while (currentSent < 4) {
-          const nextPing = (currentSent + 1) as 1 | 2 | 3 | 4;
-          const threshold = INVITE_REMINDER_THRESHOLDS.find(t => t.ping === nextPing);
-          if (!threshold) break;
-          if (ageMs < threshold.minMs) break; // too early for this ping
-          if (ageMs < threshold.maxMs) {
-            // Within window — send this ping
-            const senderName = invite.fromUser?.name || 'Someone';
-
-            if (invite.spaceId && invite.space) {
-              await sendSpaceInviteReminderEmail({
-                recipientEmail: invite.email,
-                senderName,
-                spaceName: invite.space.name,
-                spaceEmoji: invite.space.emoji || '',
-                ping: nextPing,
-              });
-            } else {
-              await sendInviteReminderEmail({
-                recipientEmail: invite.email,
-                senderName,
-                ping: nextPing,
-              });
-            }
-
-            await prisma.pendingInvite.update({
-              where: { id: invite.id },
-              data: { remindersSent: nextPing },
+      if (existingUser) continue;
+
+      const ageMs = now - new Date(invite.createdAt).getTime();
+      let currentSent = invite.remindersSent;
+
+      // Skip past any ping windows that have already closed
+      while (currentSent < 4) {
+        const nextPing = (currentSent + 1) as 1 | 2 | 3 | 4;
+        const threshold = INVITE_REMINDER_THRESHOLDS.find(t => t.ping === nextPing);
+        if (!threshold) break;
+        if (ageMs < threshold.minMs) break; // too early for this ping
+        if (ageMs < threshold.maxMs) {
+          // Within window — send this ping
+          const senderName = invite.fromUser?.name || 'Someone';
+
+          if (invite.spaceId && invite.space) {
+            await sendSpaceInviteReminderEmail({
+              recipientEmail: invite.email,
+              senderName,
+              spaceName: invite.space.name,
+              spaceEmoji: invite.space.emoji || '',
+              ping: nextPing,
+            });
+          } else {
+            await sendInviteReminderEmail({
+              recipientEmail: invite.email,
+              senderName,
+              ping: nextPing,
             });
-            console.log(`[cron] Sent invite reminder #${nextPing} to ${invite.email}`);
-            break;
           }
-          // Window has passed — skip this ping silently
-          currentSent = nextPing;
+
           await prisma.pendingInvite.update({
             where: { id: invite.id },
             data: { remindersSent: nextPing },
           });
-          console.log(`[cron] Skipped invite reminder #${nextPing} for ${invite.email} (window passed)`);
+          console.log(`[cron] Sent invite reminder #${nextPing} to ${invite.email}`);
+          break;
         }
-      } catch (err) {
-        console.error(`[cron] Failed invite reminder for ${invite.email}:`, (err as Error).message);
+        // Window has passed — skip this ping silently
+        currentSent = nextPing;
+        await prisma.pendingInvite.update({
+          where: { id: invite.id },
+          data: { remindersSent: nextPing },
+        });
+        console.log(`[cron] Skipped invite reminder #${nextPing} for ${invite.email} (window passed)`);
       }
+    } catch (err) {
+      console.error(`[cron] Failed invite reminder for ${invite.email}:`, (err as Error).message);
+      run.failed(invite.email, err);
     }
-  } catch (err) {
-    console.error('[cron] Invite reminders error:', err);
-  } finally {
-    inviteReminderRunning = false;
   }
+  return run.summary();
 }
 
 // ─── Connection acceptance reminders (1d, 3d, 7d — gated behind calendar) ────
@@ -743,104 +777,98 @@ const CONN_REMINDER_THRESHOLDS: { ping: 1 | 2 | 3; minMs: number; maxMs: number
   { ping: 3, minMs: 7 * 24 * 60 * 60 * 1000, maxMs: 14 * 24 * 60 * 60 * 1000 },
 ];
 
-let connReminderRunning = false;
-
 async function backgroundConnectionReminders() {
-  if (connReminderRunning) return;
-  connReminderRunning = true;
-  try {
-    const pendingConns = await prisma.directConnection.findMany({
-      where: {
-        status: 'pending',
-        remindersSent: { lt: 3 },
-      },
-      select: {
-        id: true,
-        createdAt: true,
-        remindersSent: true,
-        toUserId: true,
-        fromUser: { select: { name: true } },
-        toUser: { select: { id: true, name: true, email: true, googleAccessToken: true, calendarConnectedAt: true, emailPreferences: true } },
-      },
-      orderBy: { createdAt: 'asc' },
-    });
-
-    const now = Date.now();
+  const run = createRunStats();
+  const pendingConns = await prisma.directConnection.findMany({
+    where: {
+      status: 'pending',
+      remindersSent: { lt: 3 },
+    },
+    select: {
+      id: true,
+      createdAt: true,
+      remindersSent: true,
+      toUserId: true,
+      fromUser: { select: { name: true } },
+      toUser: { select: { id: true, name: true, email: true, googleAccessToken: true, calendarConnectedAt: true, emailPreferences: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
 
-    // Only process the FIRST pending connection per recipient
-    const seenRecipients = new Set<string>();
-    const firstConns = pendingConns.filter(conn => {
-      if (seenRecipients.has(conn.toUserId)) return false;
-      seenRecipients.add(conn.toUserId);
-      return true;
-    });
+  const now = Date.now();
 
-    for (const conn of firstConns) {
-      try {
-        const { toUser } = conn;
+  // Only process the FIRST pending connection per recipient
+  const seenRecipients = new Set<string>();
+  const firstConns = pendingConns.filter(conn => {
+    if (seenRecipients.has(conn.toUserId)) return false;
+    seenRecipients.add(conn.toUserId);
+    return true;
+  });
 
-        // Skip if there's an older pending connection for this user (only remind about the oldest pending one)
-        const hasEarlierPendingConnection = await prisma.directConnection.count({
-          where: {
-            toUserId: conn.toUserId,
-            status: 'pending',
-            createdAt: { lt: conn.createdAt },
-          },
-        });
-        if (hasEarlierPendingConnection > 0) continue;
+  for (const conn of firstConns) {
+    run.processed();
+    try {
+      const { toUser } = conn;
+
+      // Skip if there's an older pending connection for this user (only remind about the oldest pending one)
+      const hasEarlierPendingConnection = await prisma.directConnection.count({
+        where: {
+          toUserId: conn.toUserId,
+          status: 'pending',
+          createdAt: { lt: conn.createdAt },
+        },
+      });
+      if (hasEarlierPendingConnection > 0) continue;
 
-        // Gate: calendar must be connected
-        if (!toUser.googleAccessToken && !toUser.calendarConnectedAt) continue;
+      // Gate: calendar must be connected
+      if (!toUser.googleAccessToken && !toUser.calendarConnectedAt) continue;
 
-        // Respect email preferences
-        if (toUser.emailPreferences && typeof toUser.emailPreferences === 'object') {
-          const prefs = toUser.emailPreferences as Record<string, boolean>;
-          if (prefs.notifications === false) continue;
-        }
+      // Respect email preferences
+      if (toUser.emailPreferences && typeof toUser.emailPreferences === 'object') {
+        const prefs = toUser.emailPreferences as Record<string, boolean>;
+        if (prefs.notifications === false) continue;
+      }
 
-        // Sequence starts from whichever is later: invite creation or calendar connection
-        const calConnAt = toUser.calendarConnectedAt ? new Date(toUser.calendarConnectedAt).getTime() : 0;
-        const inviteAt = new Date(conn.createdAt).getTime();
-        const sequenceStart = Math.max(inviteAt, calConnAt);
-        const ageMs = now - sequenceStart;
-
-        let currentSent = conn.remindersSent;
-
-        while (currentSent < 3) {
-          const nextPing = (currentSent + 1) as 1 | 2 | 3;
-          const threshold = CONN_REMINDER_THRESHOLDS.find(t => t.ping === nextPing);
-          if (!threshold) break;
-          if (ageMs < threshold.minMs) break;
-          if (ageMs < threshold.maxMs) {
-            await sendConnectionReminderEmail({
-              recipientEmail: toUser.email,
-              recipientName: toUser.name,
-              senderName: conn.fromUser?.name || 'Someone',
-              ping: nextPing,
-            });
-            await prisma.directConnection.update({
-              where: { id: conn.id },
-              data: { remindersSent: nextPing },
-            });
-            console.log(`[cron] Sent connection reminder #${nextPing} to ${toUser.email} (from ${conn.fromUser?.name})`);
-            break;
-          }
-          currentSent = nextPing;
+      // Sequence starts from whichever is later: invite creation or calendar connection
+      const calConnAt = toUser.calendarConnectedAt ? new Date(toUser.calendarConnectedAt).getTime() : 0;
+      const inviteAt = new Date(conn.createdAt).getTime();
+      const sequenceStart = Math.max(inviteAt, calConnAt);
+      const ageMs = now - sequenceStart;
+
+      let currentSent = conn.remindersSent;
+
+      while (currentSent < 3) {
+        const nextPing = (currentSent + 1) as 1 | 2 | 3;
+        const threshold = CONN_REMINDER_THRESHOLDS.find(t => t.ping === nextPing);
+        if (!threshold) break;
+        if (ageMs < threshold.minMs) break;
+        if (ageMs < threshold.maxMs) {
+          await sendConnectionReminderEmail({
+            recipientEmail: toUser.email,
+            recipientName: toUser.name,
+            senderName: conn.fromUser?.name || 'Someone',
+            ping: nextPing,
+          });
           await prisma.directConnection.update({
             where: { id: conn.id },
             data: { remindersSent: nextPing },
           });
-          console.log(`[cron] Skipped connection reminder #${nextPing} for ${toUser.email} (window passed)`);
+          console.log(`[cron] Sent connection reminder #${nextPing} to ${toUser.email} (from ${conn.fromUser?.name})`);
+          break;
         }
-      } catch (err) {
-        console.error(`[cron] Failed connection reminder for conn ${conn.id}:`, (err as Error).message);
+        currentSent = nextPing;
+        await prisma.directConnection.update({
+          where: { id: conn.id },
+          data: { remindersSent: nextPing },
+        });
+        console.log(`[cron] Skipped connection reminder #${nextPing} for ${toUser.email} (window passed)`);
       }
+    } catch (err) {
+      console.error(`[cron] Failed connection reminder for conn ${conn.id}:`, (err as Error).message);
+      run.failed(`conn ${conn.id}`, err);
     }
-  } catch (err) {
-    console.error('[cron] Connection reminders error:', err);
-  } finally {
-    connReminderRunning = false;
   }
+  return run.summary();
 }
 
 // ─── Intro nudge reminders (1d, 3d, 7d — for connected users with 0 intro requests) ─
@@ -853,123 +881,181 @@ const INTRO_NUDGE_THRESHOLDS: { ping: 1 | 2 | 3; minMs: number; maxMs: number }[
   { ping: 3, minMs: 7 * 24 * 60 * 60 * 1000, maxMs: 14 * 24 * 60 * 60 * 1000 },
 ];
 
-let introNudgeRunning = false;
-
 async function backgroundIntroNudgeReminders() {
-  if (introNudgeRunning) return;
-  introNudgeRunning = true;
-  try {
-    // Users who have calendar connected, haven't maxed out nudges, and have 0 intro requests
-    const candidates = await prisma.user.findMany({
-      where: {
-        googleAccessToken: { not: null },
-        introRemindersSent: { lt: 3 },
-        introRequests: { none: {} },
+  const run = createRunStats();
+  // Users who have calendar connected, haven't maxed out nudges, and have 0 intro requests
+  const candidates = await prisma.user.findMany({
+    where: {
+      googleAccessToken: { not: null },
+      introRemindersSent: { lt: 3 },
+      introRequests: { none: {} },
+    },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      introRemindersSent: true,
+      introNudgeStartAt: true,
+      emailPreferences: true,
+      // First accepted 1:1 connection (as recipient)
+      receivedConnections: {
+        where: { status: 'accepted' },
+        orderBy: { updatedAt: 'asc' },
+        take: 1,
+        select: { updatedAt: true },
       },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        introRemindersSent: true,
-        introNudgeStartAt: true,
-        emailPreferences: true,
-        // First accepted 1:1 connection (as recipient)
-        receivedConnections: {
-          where: { status: 'accepted' },
-          orderBy: { updatedAt: 'asc' },
-          take: 1,
-          select: { updatedAt: true },
-        },
-        // First accepted 1:1 connection (as sender)
-        sentConnections: {
-          where: { status: 'accepted' },
-          orderBy: { updatedAt: 'asc' },
-          take: 1,
-          select: { updatedAt: true },
-        },
-        // First approved space membership
-        spaceMemberships: {
-          where: { status: 'approved' },
-          orderBy: { joinedAt: 'asc' },
-          take: 1,
-          select: { joinedAt: true },
-        },
-        // Check if this is their first-ever connection/space (for "first only" rule)
-        _count: {
-          select: {
-            receivedConnections: { where: { status: 'accepted' } },
-            sentConnections: { where: { status: 'accepted' } },
-            spaceMemberships: { where: { status: 'approved' } },
-          },
+      // First accepted 1:1 connection (as sender)
+      sentConnections: {
+        where: { status: 'accepted' },
+        orderBy: { updatedAt: 'asc' },
+        take: 1,
+        select: { updatedAt: true },
+      },
+      // First approved space membership
+      spaceMemberships: {
+        where: { status: 'approved' },
+        orderBy: { joinedAt: 'asc' },
+        take: 1,
+        select: { joinedAt: true },
+      },
+      // Check if this is their first-ever connection/space (for "first only" rule)
+      _count: {
+        select: {
+          receivedConnections: { where: { status: 'accepted' } },
+          sentConnections: { where: { status: 'accepted' } },
+          spaceMemberships: { where: { status: 'approved' } },
         },
       },
-    });
+    },
+  });
 
-    const now = Date.now();
-
-    for (const user of candidates) {
-      try {
-        // Must have at least one accepted connection (sent or received) or approved space
-        const firstReceivedAt = user.receivedConnections[0]?.updatedAt;
-        const firstSentAt = user.sentConnections[0]?.updatedAt;
-        const firstConnAt = firstReceivedAt && firstSentAt
-          ? (new Date(firstReceivedAt).getTime() < new Date(firstSentAt).getTime() ? firstReceivedAt : firstSentAt)
-          : firstReceivedAt || firstSentAt;
-        const firstSpaceAt = user.spaceMemberships[0]?.joinedAt;
-        if (!firstConnAt && !firstSpaceAt) continue;
-
-        // Only for the first connection/space: total count must be exactly 1
-        const totalConnections = user._count.receivedConnections + user._count.sentConnections + user._count.spaceMemberships;
-        // Stricter: only start the sequence if they have exactly 1 total
-        if (user.introRemindersSent === 0 && totalConnections > 1) continue;
-
-        // Respect email preferences
-        if (user.emailPreferences && typeof user.emailPreferences === 'object') {
-          const prefs = user.emailPreferences as Record<string, boolean>;
-          if (prefs.notifications === false) continue;
-        }
+  const now = Date.now();
 
-        // Sequence starts from the earliest accepted connection or approved space,
-        // but never earlier than introNudgeStartAt (backfill override for existing users)
-        const connTs = firstConnAt ? new Date(firstConnAt).getTime() : Infinity;
-        const spaceTs = firstSpaceAt ? new Date(firstSpaceAt).getTime() : Infinity;
-        const computedStart = Math.min(connTs, spaceTs);
-        const overrideStart = user.introNudgeStartAt ? new Date(user.introNudgeStartAt).getTime() : 0;
-        const sequenceStart = Math.max(computedStart, overrideStart);
-        const ageMs = now - sequenceStart;
-
-        let currentSent = user.introRemindersSent;
-
-        while (currentSent < 3) {
-          const nextPing = (currentSent + 1) as 1 | 2 | 3;
-          const threshold = INTRO_NUDGE_THRESHOLDS.find(t => t.ping === nextPing);
-          if (!threshold) break;
-          if (ageMs < threshold.minMs) break;
-          if (ageMs < threshold.maxMs) {
-            await sendIntroNudgeEmail({ email: user.email, name: user.name }, nextPing);
-            await prisma.user.update({
-              where: { id: user.id },
-              data: { introRemindersSent: nextPing },
-            });
-            console.log(`[cron] Sent intro nudge #${nextPing} to ${user.email}`);
-            break;
-          }
-          currentSent = nextPing;
+  for (const user of candidates) {
+    run.processed();
+    try {
+      // Must have at least one accepted connection (sent or received) or approved space
+      const firstReceivedAt = user.receivedConnections[0]?.updatedAt;
+      const firstSentAt = user.sentConnections[0]?.updatedAt;
+      const firstConnAt = firstReceivedAt && firstSentAt
+        ? (new Date(firstReceivedAt).getTime() < new Date(firstSentAt).getTime() ? firstReceivedAt : firstSentAt)
+        : firstReceivedAt || firstSentAt;
+      const firstSpaceAt = user.spaceMemberships[0]?.joinedAt;
+      if (!firstConnAt && !firstSpaceAt) continue;
+
+      // Only for the first connection/space: total count must be exactly 1
+      const totalConnections = user._count.receivedConnections + user._count.sentConnections + user._count.spaceMemberships;
+      // Stricter: only start the sequence if they have exactly 1 total
+      if (user.introRemindersSent === 0 && totalConnections > 1) continue;
+
+      // Respect email preferences
+      if (user.emailPreferences && typeof user.emailPreferences === 'object') {
+        const prefs = user.emailPreferences as Record<string, boolean>;
+        if (prefs.notifications === false) continue;
+      }
+
+      // Sequence starts from the earliest accepted connection or approved space,
+      // but never earlier than introNudgeStartAt (backfill override for existing users)
+      const connTs = firstConnAt ? new Date(firstConnAt).getTime() : Infinity;
+      const spaceTs = firstSpaceAt ? new Date(firstSpaceAt).getTime() : Infinity;
+      const computedStart = Math.min(connTs, spaceTs);
+      const overrideStart = user.introNudgeStartAt ? new Date(user.introNudgeStartAt).getTime() : 0;
+      const sequenceStart = Math.max(computedStart, overrideStart);
+      const ageMs = now - sequenceStart;
+
+      let currentSent = user.introRemindersSent;
+
+      while (currentSent < 3) {
+        const nextPing = (currentSent + 1) as 1 | 2 | 3;
+        const threshold = INTRO_NUDGE_THRESHOLDS.find(t => t.ping === nextPing);
+        if (!threshold) break;
+        if (ageMs < threshold.minMs) break;
+        if (ageMs < threshold.maxMs) {
+          await sendIntroNudgeEmail({ email: user.email, name: user.name }, nextPing);
           await prisma.user.update({
             where: { id: user.id },
             data: { introRemindersSent: nextPing },
           });
-          console.log(`[cron] Skipped intro nudge #${nextPing} for ${user.email} (window passed)`);
+          console.log(`[cron] Sent intro nudge #${nextPing} to ${user.email}`);
+          break;
         }
-      } catch (err) {
-        console.error(`[cron] Failed intro nudge for ${user.email}:`, (err as Error).message);
+        currentSent = nextPing;
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { introRemindersSent: nextPing },
+        });
+        console.log(`[cron] Skipped intro nudge #${nextPing} for ${user.email} (window passed)`);
       }
+    } catch (err) {
+      console.error(`[cron] Failed intro nudge for ${user.email}:`, (err as Error).message);
+      run.failed(user.email, err);
     }
-  } catch (err) {
-    console.error('[cron] Intro nudge reminders error:', err);
-  } finally {
-    introNudgeRunning = false;
   }
+  return run.summary();
+}
+
+// ─── Stale intro requests (remind connectors → escalate to owner → expire, per-space days) ─
+
+const STALE_REQUEST_CHECK_INTERVAL_MS = 60 * 60 * 1000; // check every hour
+
+async function backgroundStaleIntroRequests() {
+  const { reminded, escalated, expired } = await processStaleIntroRequests();
+  if (reminded || escalated || expired) {
+    console.log(`[cron] Stale intro requests: ${reminded} reminded, ${escalated} escalated, ${expired} expired`);
+  }
+  return { reminded, escalated, expired };
+}
+
+// ─── Notification digest (hourly email of notifications set to "digest") ─────
+
+const NOTIFICATION_DIGEST_INTERVAL_MS = 60 * 60 * 1000; // every hour
+
+async function backgroundNotificationDigest() {
+  const sent = await sendNotificationDigests();
+  if (sent > 0) console.log(`[cron] Sent ${sent} notification digest(s)`);
+  return { sent };
+}
+
+// ─── Snoozed notifications (back in the inbox once the snooze ends) ──────────
+
+const SNOOZE_CHECK_INTERVAL_MS = 60 * 1000; // check every minute
+
+async function backgroundSnoozeRelease() {
+  const released = await releaseSnoozedNotifications();
+  if (released > 0) console.log(`[cron] Released ${released} snoozed notification(s)`);
+  return { released };
+}
+
+// ─── Webhook retries (pending deliveries whose backoff has elapsed) ──────────
+
+const WEBHOOK_RETRY_INTERVAL_MS = 60 * 1000; // check every minute
+
+async function backgroundWebhookRetries() {
+  const attempted = await retryWebhookDeliveries();
+  if (attempted > 0) console.log(`[cron] Retried ${attempted} webhook deliver${attempted === 1 ? 'y' : 'ies'}`);
+  return { attempted };
+}
+
+// ─── Job registration ────────────────────────────────────────────────────────
+
+// The crons above run as recurring jobs on the Postgres queue (services/jobs.ts),
+// so only one instance runs each and a deploy doesn't lose them. Enrichment,
+// scraping and embedding jobs register themselves in their own modules.
+function registerBackgroundJobs() {
+  registerJobHandler('calendar_sync_user', job =>
+    syncUserCalendars(job.userId!, (job.payload as { accountId?: string }).accountId));
+
+  registerRecurringJob('calendar_sync', { everyMs: SYNC_INTERVAL_MS, initialDelayMs: 30 * 1000 }, backgroundCalendarSync);
+  registerRecurringJob('weekly_digest', { everyMs: DIGEST_CHECK_INTERVAL_MS, initialDelayMs: 5 * 60 * 1000 }, backgroundWeeklyDigest);
+  registerRecurringJob('daily_briefing', { everyMs: BRIEFING_CHECK_INTERVAL_MS, initialDelayMs: 60 * 1000 }, dailyMorningBriefing);
+  registerRecurringJob('calendar_reminders', { everyMs: REMINDER_CHECK_INTERVAL_MS, initialDelayMs: 2 * 60 * 1000 }, backgroundCalendarReminders);
+  registerRecurringJob('invite_reminders', { everyMs: INVITE_REMINDER_CHECK_INTERVAL_MS, initialDelayMs: 3 * 60 * 1000 }, backgroundInviteReminders);
+  registerRecurringJob('connection_reminders', { everyMs: CONN_REMINDER_CHECK_INTERVAL_MS, initialDelayMs: 4 * 60 * 1000 }, backgroundConnectionReminders);
+  registerRecurringJob('intro_nudge_reminders', { everyMs: INTRO_NUDGE_CHECK_INTERVAL_MS, initialDelayMs: 5 * 60 * 1000 }, backgroundIntroNudgeReminders);
+  registerRecurringJob('stale_intro_requests', { everyMs: STALE_REQUEST_CHECK_INTERVAL_MS, initialDelayMs: 6 * 60 * 1000 }, backgroundStaleIntroRequests);
+  registerRecurringJob('notification_digest', { everyMs: NOTIFICATION_DIGEST_INTERVAL_MS, initialDelayMs: 7 * 60 * 1000 }, backgroundNotificationDigest);
+  registerRecurringJob('snooze_release', { everyMs: SNOOZE_CHECK_INTERVAL_MS }, backgroundSnoozeRelease);
+  registerRecurringJob('webhook_retries', { everyMs: WEBHOOK_RETRY_INTERVAL_MS }, backgroundWebhookRetries);
 }
 
 // Ensure ADMIN_EMAILS users have admin role on startup
@@ -1076,33 +1162,8 @@ verifyDatabaseConnection().then(async () => {
   server = app.listen(Number(PORT), '0.0.0.0', () => {
     console.log(`Server running on port ${PORT}`);
 
-    // Run initial sync after a short delay to let the server stabilize
-    setTimeout(backgroundCalendarSync, 30 * 1000);
-    setInterval(backgroundCalendarSync, SYNC_INTERVAL_MS);
-    console.log(`[cron] Calendar background sync scheduled every ${SYNC_INTERVAL_MS / 3600000}h (initial run in 30s)`);
-
-    setTimeout(backgroundWeeklyDigest, 5 * 60 * 1000); // initial check 5 min after startup
-    setInterval(backgroundWeeklyDigest, DIGEST_CHECK_INTERVAL_MS);
-    console.log(`[cron] Weekly digest scheduled every 15 min (sends Wednesday 10 AM local)`);
-
-    setTimeout(dailyMorningBriefing, 60 * 1000); // initial check 1 min after startup
-    setInterval(dailyMorningBriefing, BRIEFING_CHECK_INTERVAL_MS);
-    console.log(`[cron] Daily briefing check scheduled every 15 minutes (initial run in 60s)`);
-
-    setTimeout(backgroundCalendarReminders, 2 * 60 * 1000); // initial check 2 min after startup
-    setInterval(backgroundCalendarReminders, REMINDER_CHECK_INTERVAL_MS);
-    console.log(`[cron] Calendar connection reminders scheduled every 10 minutes (initial run in 2m)`);
-
-    setTimeout(backgroundInviteReminders, 3 * 60 * 1000); // initial check 3 min after startup
-    setInterval(backgroundInviteReminders, INVITE_REMINDER_CHECK_INTERVAL_MS);
-    console.log(`[cron] Invite signup reminders scheduled every 1 hour (initial run in 3m)`);
-
-    setTimeout(backgroundConnectionReminders, 4 * 60 * 1000); // initial check 4 min after startup
-    setInterval(backgroundConnectionReminders, CONN_REMINDER_CHECK_INTERVAL_MS);
-    console.log(`[cron] Connection acceptance reminders scheduled every 1 hour (initial run in 4m)`);
-
-    setTimeout(backgroundIntroNudgeReminders, 5 * 60 * 1000); // initial check 5 min after startup
-    setInterval(backgroundIntroNudgeReminders, INTRO_NUDGE_CHECK_INTERVAL_MS);
-    console.log(`[cron] Intro nudge reminders scheduled every 1 hour (initial run in 5m)`);
+    registerBackgroundJobs();
+    startStreamFanout().catch(err => console.error('[notifications] Failed to start stream fan-out:', err));
+    startJobWorker().catch(err => console.error('[jobs] Failed to start worker:', err));
   });
 });
@@ -1,5 +1,9 @@
 import prisma from './prisma.js';
-import { sendNotificationEmail } from '../services/email.js';
+import { notifyMany } from '../services/notifications.js';
+import { rankIntroducers } from '../services/introducers.js';
+
+/** How many of the best-ranked connectors hear about a new request straight away */
+export const INITIAL_CONNECTOR_FANOUT = 3;
 
 interface NotifyConnectorsParams {
   requestId: string;
@@ -12,6 +16,16 @@ interface NotifyConnectorsParams {
   companyName: string;
   spaceName: string;
   spaceEmoji?: string | null;
+  /**
+   * Follow-up for a request nobody has picked up yet: connectors notified
+   * before get a reminder, and everyone left out of the first wave is
+   * notified now.
+   */
+  reminder?: boolean;
+  /** Members to leave out, e.g. those who already offered an intro */
+  excludeUserIds?: string[];
+  /** Only notify the best-ranked connectors (see services/introducers.ts) */
+  limit?: number;
 }
 
 /**
@@ -19,16 +33,16 @@ interface NotifyConnectorsParams {
  * and sends them intro_request notifications.
  */
 export async function notifyConnectors(params: NotifyConnectorsParams): Promise<Set<string>> {
-  const { requestId, spaceId, requesterId, requesterName, rawText, companyId, companyDomain, companyName, spaceName, spaceEmoji } = params;
+  const { requestId, spaceId, requesterId, requesterName, rawText, companyId, companyDomain, companyName, spaceName, spaceEmoji, reminder, excludeUserIds = [], limit } = params;
 
   const spaceMembers = await prisma.spaceMember.findMany({
-    where: { spaceId, status: 'approved', userId: { not: requesterId } },
+    where: { spaceId, status: 'approved', userId: { notIn: [requesterId, ...excludeUserIds] } },
     select: { userId: true },
   });
   const memberUserIds = spaceMembers.map(m => m.userId);
   if (memberUserIds.length === 0) return new Set();
 
-  const connectorIds = new Set<string>();
+  let connectorIds = new Set<string>();
 
   let resolvedCompanyId = companyId;
   if (!resolvedCompanyId && companyDomain) {
@@ -46,34 +60,54 @@ export async function notifyConnectors(params: NotifyConnectorsParams): Promise<
 
   if (connectorIds.size === 0) return connectorIds;
 
+  if (limit !== undefined && connectorIds.size > limit) {
+    const ranked = await rankIntroducers({
+      id: requestId,
+      requesterId,
+      spaceId,
+      normalizedQuery: { companyId: resolvedCompanyId },
+    });
+    connectorIds = new Set(ranked.filter(s => connectorIds.has(s.userId)).slice(0, limit).map(s => s.userId));
+  }
+
+  const alreadyNotified = new Set<string>();
+  if (reminder) {
+    const previous = await prisma.notification.findMany({
+      where: { type: 'intro_request', userId: { in: Array.from(connectorIds) }, data: { path: ['requestId'], equals: requestId } },
+      select: { userId: true },
+    });
+    previous.forEach(n => alreadyNotified.add(n.userId));
+  }
+
   const introNotif = {
-    type: 'intro_request',
     title: `Intro request: ${companyName}`,
     body: `${requesterName} is looking for an intro to ${companyName}. "${rawText}"`,
   };
+  const reminderNotif = {
+    title: `Reminder: intro request for ${companyName}`,
+    body: `${requesterName} is still looking for an intro to ${companyName}. "${rawText}"`,
+  };
+  const notifFor = (userId: string) => (alreadyNotified.has(userId) ? reminderNotif : introNotif);
 
-  await prisma.notification.createMany({
-    data: Array.from(connectorIds).map(connectorUserId => ({
-      userId: connectorUserId,
-      ...introNotif,
-      data: {
-        requestId,
-        spaceId,
-        spaceName,
-        spaceEmoji: spaceEmoji || null,
-        companyName,
-        companyDomain: companyDomain || null,
-        companyId: companyId || null,
-        requesterId,
-        requesterName,
-        rawText,
-      },
-    })),
-  });
-
-  for (const connectorUserId of connectorIds) {
-    sendNotificationEmail(connectorUserId, introNotif).catch(() => {});
-  }
+  // Delivered per each connector's preferences; intro requests default to the
+  // hourly digest so busy connectors don't get an email per request
+  await notifyMany(Array.from(connectorIds).map(connectorUserId => ({
+    userId: connectorUserId,
+    type: 'intro_request' as const,
+    ...notifFor(connectorUserId),
+    data: {
+      requestId,
+      spaceId,
+      spaceName,
+      spaceEmoji: spaceEmoji || null,
+      companyName,
+      companyDomain: companyDomain || null,
+      companyId: companyId || null,
+      requesterId,
+      requesterName,
+      rawText,
+    },
+  })));
 
   return connectorIds;
 }
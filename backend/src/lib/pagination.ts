@@ -44,3 +44,66 @@ export function createPaginatedResponse<T>(
     },
   };
 }
+
+// ─── Cursor pagination ──────────────────────────────────────────────────────
+// For lists that change while being paged (new rows arrive at the top), a
+// cursor marks the last row seen so later pages neither skip nor repeat rows.
+
+export interface CursorParams {
+  /** Decoded position of the last row on the previous page, or null for the first page */
+  cursor: { sortAt: Date; id: string } | null;
+  limit: number;
+}
+
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+export function encodeCursor(sortAt: Date, id: string): string {
+  return Buffer.from(`${sortAt.toISOString()}|${id}`).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { sortAt: Date; id: string } | null {
+  const [iso, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const sortAt = new Date(iso);
+  if (!id || isNaN(sortAt.getTime())) return null;
+  return { sortAt, id };
+}
+
+/** Returns null when the cursor is present but malformed */
+export function getCursorParams(req: Request, defaultLimit = 20, maxLimit = 100): CursorParams | null {
+  const requestedLimit = parseInt(req.query.limit as string) || defaultLimit;
+  const limit = Math.min(Math.max(1, requestedLimit), maxLimit);
+  const raw = req.query.cursor;
+  if (raw === undefined || raw === '') return { cursor: null, limit };
+  if (typeof raw !== 'string') return null;
+  const cursor = decodeCursor(raw);
+  return cursor ? { cursor, limit } : null;
+}
+
+/**
+ * Build a page from rows fetched with `take: limit + 1` — the extra row only
+ * tells us whether there is another page.
+ */
+export function createCursorResponse<T extends { sortAt: Date; id: string }>(
+  rows: T[],
+  params: CursorParams
+): CursorPaginatedResponse<T> {
+  const hasMore = rows.length > params.limit;
+  const data = hasMore ? rows.slice(0, params.limit) : rows;
+  const last = data[data.length - 1];
+
+  return {
+    data,
+    pagination: {
+      limit: params.limit,
+      nextCursor: hasMore && last ? encodeCursor(last.sortAt, last.id) : null,
+      hasMore,
+    },
+  };
+}
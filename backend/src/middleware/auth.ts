@@ -4,7 +4,8 @@ import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import prisma from '../lib/prisma.js';
-import { sendNotificationEmail } from '../services/email.js';
+import { notify } from '../services/notifications.js';
+import { isApiToken, findActiveApiToken, apiTokenAllows } from '../services/apiTokens.js';
 
 // Security: Require JWT_SECRET in production
 const JWT_SECRET = process.env.JWT_SECRET;
@@ -81,6 +82,8 @@ export interface AuthUser {
 
 export interface AuthenticatedRequest extends Request {
   user?: AuthUser;
+  /** Set when the request was made with a personal access token instead of a session */
+  apiToken?: { id: string; scopes: string[] };
 }
 
 export function configurePassport() {
@@ -206,19 +209,13 @@ export function configurePassport() {
                   await prisma.spaceMember.create({
                     data: { spaceId: invite.spaceId, userId: user.id, role: 'member', status: 'pending' },
                   });
-                  const spaceNotif = {
+                  await notify({
+                    userId: user.id,
                     type: 'space_invited',
                     title: `Invitation to ${invite.space.name}`,
                     body: `${invite.fromUser.name || 'Someone'} invited you to join ${invite.space.emoji || ''} ${invite.space.name}.`,
-                  };
-                  await prisma.notification.create({
-                    data: {
-                      userId: user.id,
-                      ...spaceNotif,
-                      data: { spaceId: invite.spaceId, spaceName: invite.space.name, spaceEmoji: invite.space.emoji, inviterId: invite.fromUserId },
-                    },
+                    data: { spaceId: invite.spaceId, spaceName: invite.space.name, spaceEmoji: invite.space.emoji, inviterId: invite.fromUserId },
                   });
-                  sendNotificationEmail(user.id, spaceNotif).catch(() => {});
                 }
               } else {
                 // 1:1 connection invite → create DirectConnection + notify
@@ -234,19 +231,13 @@ export function configurePassport() {
                   const conn = await prisma.directConnection.create({
                     data: { fromUserId: invite.fromUserId, toUserId: user.id },
                   });
-                  const connNotif = {
+                  await notify({
+                    userId: user.id,
                     type: 'connection_request',
                     title: `${invite.fromUser.name || 'Someone'} wants to connect`,
                     body: 'They invited you to join. Accept to share your networks with each other.',
-                  };
-                  await prisma.notification.create({
-                    data: {
-                      userId: user.id,
-                      ...connNotif,
-                      data: { connectionId: conn.id, fromUserId: invite.fromUserId, fromUserName: invite.fromUser.name },
-                    },
+                    data: { connectionId: conn.id, fromUserId: invite.fromUserId, fromUserName: invite.fromUser.name },
                   });
-                  sendNotificationEmail(user.id, connNotif).catch(() => {});
                 }
               }
               // Mark invite as converted
@@ -323,7 +314,31 @@ export const authMiddleware: RequestHandler = async (req, res, next) => {
     return;
   }
 
-  const payload = verifyToken(token);
+  // Personal access tokens only work as a bearer header, and only on the
+  // routes their scopes allow
+  const bearer = req.headers.authorization?.replace('Bearer ', '');
+  let payload: Pick<JwtPayload, 'userId'> | null;
+  if (bearer && isApiToken(bearer)) {
+    let apiToken: Awaited<ReturnType<typeof findActiveApiToken>>;
+    try {
+      apiToken = await findActiveApiToken(bearer);
+    } catch {
+      res.status(500).json({ error: 'Authentication error' });
+      return;
+    }
+    if (!apiToken) {
+      res.status(401).json({ error: 'Invalid, expired or revoked API token' });
+      return;
+    }
+    if (!apiTokenAllows(apiToken.scopes, req.method, req.originalUrl)) {
+      res.status(403).json({ error: 'This API token does not have a scope for this endpoint' });
+      return;
+    }
+    (req as AuthenticatedRequest).apiToken = { id: apiToken.id, scopes: apiToken.scopes };
+    payload = { userId: apiToken.userId };
+  } else {
+    payload = verifyToken(token);
+  }
   if (!payload) {
     res.status(401).json({ error: 'Invalid or expired token' });
     return;
@@ -1,5 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import {
+  EMPLOYEE_RANGES,
+  FUNDING_ROUNDS,
+  REVENUE_RANGES,
+  SOURCE_FILTERS,
+  STRENGTH_FILTERS,
+  SORT_FIELDS,
+  GROUP_FIELDS,
+} from '../services/search.js';
 
 type ZodSchema = z.ZodTypeAny;
 
@@ -25,6 +34,50 @@ export function validate(schema: ZodSchema) {
   };
 }
 
+const optionalText = (max: number) => z.string().trim().max(max, `Must be ${max} characters or less`).optional();
+
+const sortDir = z.enum(['asc', 'desc']);
+const yearOrMonth = z.array(z.union([z.string().regex(/^\d{1,4}$/), z.number().int()])).max(50).optional();
+const keywordList = z.array(z.string().trim().max(100)).max(50).optional();
+
+// Structured network filters; what /api/ai/parse-query returns as `filters`, empty values meaning "any"
+const searchFilters = z.object({
+  description: z.string().max(500).optional(),
+  employeeRanges: z.array(z.enum(EMPLOYEE_RANGES)).optional(),
+  country: z.string().max(100).optional(),
+  city: z.string().max(100).optional(),
+  fundingRounds: z.array(z.enum(FUNDING_ROUNDS)).optional(),
+  foundedFrom: z.union([z.string().regex(/^(\d{4})?$/, 'Must be a year'), z.number().int()]).optional(),
+  foundedTo: z.union([z.string().regex(/^(\d{4})?$/, 'Must be a year'), z.number().int()]).optional(),
+  revenueRanges: z.array(z.enum(REVENUE_RANGES)).optional(),
+  sourceFilter: z.enum(SOURCE_FILTERS).optional(),
+  strengthFilter: z.enum(STRENGTH_FILTERS).optional(),
+  fundingRecency: z.enum(['any', '6m', '1y']).optional(),
+  technologies: keywordList,
+  spaceId: z.string().min(1).optional(),
+  connectionId: z.string().min(1).optional(),
+  tagInclude: z.array(z.string().max(100)).max(50).optional(),
+  tagExclude: z.array(z.string().max(100)).max(50).optional(),
+  connectedYears: yearOrMonth,
+  connectedMonths: yearOrMonth,
+  lastContactYears: yearOrMonth,
+  lastContactMonths: yearOrMonth,
+});
+
+// A manual correction to one field; null reverts it to the provider/synced value
+const overrideText = (max: number) =>
+  z.string().trim().min(1, 'Use null to revert a field').max(max, `Must be ${max} characters or less`).nullable().optional();
+
+// Structured intro request fields, shared by requests and request templates
+const requestDetails = {
+  targetRole: optionalText(200),
+  reason: optionalText(2000),
+  context: optionalText(2000),
+  urgency: z.enum(['low', 'normal', 'high']).optional(),
+  desiredOutcome: optionalText(1000),
+  forwardableBlurb: optionalText(5000),
+};
+
 // Common schemas
 export const schemas = {
   // Request schemas
@@ -35,6 +88,24 @@ export const schemas = {
     currency: z.string().max(10).optional(),
     spaceId: z.string().optional(),
     connectionPeerId: z.string().optional(),
+    ...requestDetails,
+    targetName: optionalText(200),
+    deadline: z.string().refine(v => !isNaN(Date.parse(v)), 'Invalid deadline date').optional(),
+    templateId: z.string().optional(),
+  }),
+
+  // Request template schemas
+  createRequestTemplate: z.object({
+    name: z.string().trim().min(1, 'Template name is required').max(100, 'Name too long'),
+    spaceId: z.string().optional(),
+    rawText: optionalText(5000),
+    ...requestDetails,
+  }),
+
+  updateRequestTemplate: z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    rawText: optionalText(5000),
+    ...requestDetails,
   }),
 
   updateRequestStatus: z.object({
@@ -52,6 +123,27 @@ export const schemas = {
     status: z.enum(['pending', 'accepted', 'rejected', 'completed']),
   }),
 
+  // Answer to a double-opt-in consent link
+  respondToConsent: z.object({
+    decision: z.enum(['accept', 'decline']),
+    note: optionalText(1000),
+  }),
+
+  // Per-type notification delivery; unknown types are rejected by the route
+  updateNotificationPreferences: z.object({
+    preferences: z.record(z.string(), z.enum(['in_app', 'email', 'digest', 'muted'])),
+  }),
+
+  // Bulk read/archive/unsnooze on notifications the user owns
+  notificationIds: z.object({
+    ids: z.array(z.string().min(1)).min(1, 'No notifications given').max(200, 'Too many notifications'),
+  }),
+
+  snoozeNotifications: z.object({
+    ids: z.array(z.string().min(1)).min(1, 'No notifications given').max(200, 'Too many notifications'),
+    until: z.string().refine(v => !isNaN(Date.parse(v)), 'Invalid snooze date'),
+  }),
+
   // Space schemas
   createSpace: z.object({
     name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
@@ -79,6 +171,84 @@ export const schemas = {
     isActive: z.boolean().optional(),
   }),
 
+  // Webhook schemas; event names and the URL are checked by services/webhooks.ts
+  createWebhook: z.object({
+    url: z.string().min(1, 'URL is required').max(2000, 'URL too long'),
+    events: z.array(z.string()).min(1, 'Pick at least one event').max(20),
+    spaceId: z.string().optional(),
+    description: z.string().max(200).optional(),
+  }),
+
+  updateWebhook: z.object({
+    url: z.string().min(1).max(2000).optional(),
+    events: z.array(z.string()).min(1, 'Pick at least one event').max(20).optional(),
+    description: z.string().max(200).nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+
+  // Personal access tokens; scope names are checked by services/apiTokens.ts
+  createApiToken: z.object({
+    name: z.string().trim().min(1, 'Token name is required').max(100, 'Name too long'),
+    scopes: z.array(z.string()).min(1, 'Pick at least one scope'),
+    expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+  }),
+
+  // Admin: a user's monthly enrichment credits; null falls back to the default
+  updateEnrichmentBudget: z.object({
+    monthlyCredits: z.number().int().min(0).max(1_000_000).nullable(),
+  }),
+
+  // Manual corrections to a contact or company (see services/overrides.ts)
+  updateContact: z.object({
+    name: overrideText(200),
+    title: overrideText(200),
+    headline: overrideText(300),
+    city: overrideText(100),
+    state: overrideText(100),
+    country: overrideText(100),
+    companyDomain: z.string().trim().toLowerCase()
+      .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Invalid domain').nullable().optional(),
+  }),
+
+  updateCompany: z.object({
+    name: overrideText(200),
+    industry: overrideText(100),
+    description: overrideText(2000),
+    employeeCount: z.number().int().min(0).nullable().optional(),
+    websiteUrl: z.string().url('Invalid URL').max(500).nullable().optional(),
+    linkedinUrl: z.string().url('Invalid URL').max(500).nullable().optional(),
+    city: overrideText(100),
+    state: overrideText(100),
+    country: overrideText(100),
+  }),
+
+  // Network search (services/search.ts)
+  search: z.object({
+    filters: searchFilters.optional(),
+    keywords: keywordList,
+    excludeKeywords: keywordList,
+    query: optionalText(200),
+    sort: z.array(z.object({ field: z.enum(SORT_FIELDS), dir: sortDir })).max(10).optional(),
+    groupBy: z.object({ field: z.enum(GROUP_FIELDS), dir: sortDir }).nullable().optional(),
+  }),
+
+  // Free-text search ranked by keywords and meaning (services/hybridSearch.ts)
+  hybridSearch: z.object({
+    query: z.string().trim().min(3, 'Query must be at least 3 characters').max(500),
+    filters: searchFilters.optional(),
+    keywords: keywordList,
+    excludeKeywords: keywordList,
+    precision: z.number().int().min(1).max(3).optional(),
+    limit: z.number().int().min(1).max(500).optional(),
+  }),
+
+  // Free-text search for people (services/peopleSearch.ts)
+  peopleSearch: z.object({
+    query: z.string().trim().min(3, 'Query must be at least 3 characters').max(500),
+    precision: z.number().int().min(1).max(3).optional(),
+    limit: z.number().int().min(1).max(500).optional(),
+  }),
+
   // ID parameter validation
   idParam: z.object({
     id: z.string().min(1, 'Invalid ID format'),
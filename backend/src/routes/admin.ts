@@ -1,6 +1,14 @@
 import { Router } from 'express';
 import { authMiddleware, adminMiddleware, invalidateUserCache, decryptToken, AuthenticatedRequest } from '../middleware/auth.js';
 import prisma from '../lib/prisma.js';
+import { getPaginationParams, createPaginatedResponse } from '../lib/pagination.js';
+import { JOB_STATUSES, getRegisteredJobTypes, cancelJob, retryJob, runRecurringJobNow } from '../services/jobs.js';
+import { queueCalendarSync } from '../services/calendar.js';
+import { runEnrichmentForUser } from './enrichment.js';
+import { getProviderUsage } from '../services/enrichmentProviders.js';
+import { currentPeriod, isValidPeriod, getSpendReport, getCreditBudget } from '../services/enrichmentCredits.js';
+import { AI_USAGE_MAX_DAYS, getAiUsage } from '../services/aiProvider.js';
+import { validate, schemas } from '../middleware/validation.js';
 
 const router = Router();
 
@@ -491,4 +499,298 @@ router.get('/activity-chart', async (_req, res) => {
   }
 });
 
+// Latest run of a job, as read with DISTINCT ON
+interface JobRunRow {
+  id: string;
+  type: string;
+  status: string;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  result: unknown;
+  lastError: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/admin/jobs/summary  — per job type: counts by status, last and next run
+// ---------------------------------------------------------------------------
+router.get('/jobs/summary', async (_req, res) => {
+  try {
+    const registered = getRegisteredJobTypes();
+    const [counts, oldestQueued, lastRuns, nextRuns] = await Promise.all([
+      prisma.job.groupBy({ by: ['type', 'status'], _count: true }),
+      prisma.job.findFirst({
+        where: { status: 'queued', runAt: { lte: new Date() } },
+        orderBy: { runAt: 'asc' },
+        select: { runAt: true },
+      }),
+      prisma.$queryRaw<JobRunRow[]>`
+        SELECT DISTINCT ON (type) id, type, status, "startedAt", "finishedAt", result, "lastError"
+        FROM jobs
+        WHERE status IN ('succeeded', 'cancelled', 'dead') AND "finishedAt" IS NOT NULL
+        ORDER BY type, "finishedAt" DESC
+      `,
+      prisma.job.findMany({
+        where: { status: { in: ['queued', 'running'] }, dedupeKey: { startsWith: 'recurring:' } },
+        select: { type: true, status: true, runAt: true, startedAt: true },
+      }),
+    ]);
+
+    const types = registered.map(t => ({
+      ...t,
+      counts: Object.fromEntries(JOB_STATUSES.map(status => [
+        status,
+        counts.find(c => c.type === t.type && c.status === status)?._count ?? 0,
+      ])),
+      lastRun: lastRuns.find(r => r.type === t.type) || null,
+      nextRun: nextRuns.find(r => r.type === t.type) || null,
+    }));
+
+    res.json({
+      types,
+      // How long the oldest due job has been waiting for a worker
+      queueLagMs: oldestQueued ? Date.now() - oldestQueued.runAt.getTime() : 0,
+    });
+  } catch (error) {
+    console.error('[admin] jobs summary error:', error);
+    res.status(500).json({ error: 'Failed to fetch job summary' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/admin/jobs/run/:type  — run a recurring job (digest, reminders, ...) now
+// ---------------------------------------------------------------------------
+router.post('/jobs/run/:type', async (req, res) => {
+  try {
+    const { type } = req.params;
+    if (!getRegisteredJobTypes().some(t => t.type === type && t.recurring)) {
+      res.status(404).json({ error: 'Unknown recurring job' });
+      return;
+    }
+
+    const job = await runRecurringJobNow(type);
+    if (!job) {
+      res.status(409).json({ error: 'This job is already running' });
+      return;
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error('[admin] run job error:', error);
+    res.status(500).json({ error: 'Failed to run job' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/admin/jobs/users  — per-user last calendar sync and enrichment
+// ---------------------------------------------------------------------------
+router.get('/jobs/users', async (req, res) => {
+  try {
+    const params = getPaginationParams(req, 50, 200);
+    const search = (req.query.search as string || '').trim();
+    const where = search
+      ? { OR: [{ name: { contains: search, mode: 'insensitive' as const } }, { email: { contains: search, mode: 'insensitive' as const } }] }
+      : {};
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: { id: true, name: true, email: true, avatar: true, calendarSyncedAt: true, _count: { select: { contacts: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: params.skip,
+        take: params.limit,
+      }),
+      prisma.user.count({ where }),
+    ]);
+    const userIds = users.map(u => u.id);
+
+    const [jobs, enrichment] = await Promise.all([
+      userIds.length === 0 ? [] : prisma.$queryRaw<(JobRunRow & { userId: string; attempts: number; progress: unknown })[]>`
+        SELECT DISTINCT ON ("userId", type) id, "userId", type, status, attempts, "startedAt", "finishedAt", result, progress, "lastError"
+        FROM jobs
+        WHERE "userId" = ANY(${userIds}) AND type IN ('calendar_sync_user', 'enrich_contacts')
+        ORDER BY "userId", type, "createdAt" DESC
+      `,
+      prisma.contact.groupBy({
+        by: ['userId'],
+        where: { userId: { in: userIds } },
+        _max: { enrichedAt: true },
+        _count: { enrichedAt: true },
+      }),
+    ]);
+
+    const data = users.map(({ _count, ...user }) => {
+      const contacts = enrichment.find(e => e.userId === user.id);
+      return {
+        ...user,
+        contactsCount: _count.contacts,
+        enrichedContactCount: contacts?._count.enrichedAt ?? 0,
+        lastContactEnrichedAt: contacts?._max.enrichedAt ?? null,
+        lastSyncJob: jobs.find(j => j.userId === user.id && j.type === 'calendar_sync_user') || null,
+        lastEnrichmentJob: jobs.find(j => j.userId === user.id && j.type === 'enrich_contacts') || null,
+      };
+    });
+
+    res.json(createPaginatedResponse(data, total, params));
+  } catch (error) {
+    console.error('[admin] job users error:', error);
+    res.status(500).json({ error: 'Failed to fetch user job status' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/admin/jobs/users/:id/sync  — queue a calendar sync for one user
+// POST /api/admin/jobs/users/:id/enrich  — queue contact enrichment for one user
+// ---------------------------------------------------------------------------
+router.post('/jobs/users/:id/:kind(sync|enrich)', async (req, res) => {
+  try {
+    const { id, kind } = req.params;
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const job = kind === 'sync' ? await queueCalendarSync(id) : await runEnrichmentForUser(id);
+    if (!job) {
+      res.status(409).json({ error: kind === 'sync' ? 'A calendar sync is already queued' : 'Enrichment already in progress' });
+      return;
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error('[admin] queue user job error:', error);
+    res.status(500).json({ error: 'Failed to queue job' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/admin/jobs  — job list (?status=&type=&userId=), newest first
+// ---------------------------------------------------------------------------
+router.get('/jobs', async (req, res) => {
+  try {
+    const params = getPaginationParams(req, 50, 200);
+    const where: Record<string, unknown> = {};
+    if (typeof req.query.status === 'string' && (JOB_STATUSES as readonly string[]).includes(req.query.status)) {
+      where.status = req.query.status;
+    }
+    if (typeof req.query.type === 'string' && req.query.type) where.type = req.query.type;
+    if (typeof req.query.userId === 'string' && req.query.userId) where.userId = req.query.userId;
+
+    const [jobs, total] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: params.skip,
+        take: params.limit,
+      }),
+      prisma.job.count({ where }),
+    ]);
+
+    res.json(createPaginatedResponse(jobs, total, params));
+  } catch (error) {
+    console.error('[admin] jobs error:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/admin/jobs/:id/retry  — requeue a dead or cancelled job
+// ---------------------------------------------------------------------------
+router.post('/jobs/:id/retry', async (req, res) => {
+  try {
+    const job = await retryJob(req.params.id);
+    if (!job) {
+      res.status(409).json({ error: 'Only dead or cancelled jobs can be retried, and not while another run of it is queued' });
+      return;
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error('[admin] retry job error:', error);
+    res.status(500).json({ error: 'Failed to retry job' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/admin/jobs/:id/cancel  — cancel a queued or running job
+// ---------------------------------------------------------------------------
+router.post('/jobs/:id/cancel', async (req, res) => {
+  try {
+    const job = await cancelJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error('[admin] cancel job error:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/admin/enrichment/providers  — provider chain and this month's credits
+// ---------------------------------------------------------------------------
+router.get('/enrichment/providers', async (_req, res) => {
+  try {
+    res.json({ providers: await getProviderUsage() });
+  } catch (error) {
+    console.error('[admin] enrichment providers error:', error);
+    res.status(500).json({ error: 'Failed to fetch enrichment providers' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/admin/enrichment/spend  — credits per provider and top users (?period=YYYY-MM)
+// ---------------------------------------------------------------------------
+router.get('/enrichment/spend', async (req, res) => {
+  try {
+    const period = typeof req.query.period === 'string' ? req.query.period : currentPeriod();
+    if (!isValidPeriod(period)) {
+      res.status(400).json({ error: 'period must be YYYY-MM' });
+      return;
+    }
+    const [report, providers] = await Promise.all([getSpendReport(period), getProviderUsage(period)]);
+    res.json({ ...report, chain: providers });
+  } catch (error) {
+    console.error('[admin] enrichment spend error:', error);
+    res.status(500).json({ error: 'Failed to fetch enrichment spend' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/admin/ai/usage  — AI calls, tokens and estimated cost per provider, model and purpose (?days=30)
+// ---------------------------------------------------------------------------
+router.get('/ai/usage', async (req, res) => {
+  try {
+    const days = req.query.days === undefined ? undefined : Number(req.query.days);
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > AI_USAGE_MAX_DAYS)) {
+      res.status(400).json({ error: `days must be between 1 and ${AI_USAGE_MAX_DAYS}` });
+      return;
+    }
+    res.json(await getAiUsage(days));
+  } catch (error) {
+    console.error('[admin] AI usage error:', error);
+    res.status(500).json({ error: 'Failed to fetch AI usage' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// PATCH /api/admin/users/:id/enrichment-budget  — set or clear a user's monthly credits
+// ---------------------------------------------------------------------------
+router.patch('/users/:id/enrichment-budget', validate(schemas.updateEnrichmentBudget), async (req, res) => {
+  try {
+    const { monthlyCredits } = req.body as { monthlyCredits: number | null };
+    const user = await prisma.user.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    await prisma.user.update({ where: { id: user.id }, data: { enrichmentCreditLimit: monthlyCredits } });
+    res.json({ userId: user.id, budget: (await getCreditBudget(user.id)).user });
+  } catch (error) {
+    console.error('[admin] enrichment budget error:', error);
+    res.status(500).json({ error: 'Failed to update enrichment budget' });
+  }
+});
+
 export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import rateLimit from 'express-rate-limit';
 import { authMiddleware } from '../middleware/auth.js';
-import OpenAI from 'openai';
+import { chatJson, isAiConfigured } from '../services/aiProvider.js';
 
 const router = Router();
 router.use(authMiddleware);
@@ -16,15 +16,6 @@ const aiLimiter = rateLimit({
 });
 router.use(aiLimiter);
 
-// Lazy-init OpenAI client so env var is read at request time
-let _openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!_openai) {
-    _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return _openai;
-}
-
 const FILTER_SCHEMA = {
   type: 'object' as const,
   properties: {
@@ -128,9 +119,9 @@ router.post('/parse-query', async (req, res) => {
       return;
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('OPENAI_API_KEY not set in environment');
-      res.status(500).json({ error: 'OpenAI API key not configured' });
+    if (!isAiConfigured()) {
+      console.error('AI provider not configured, check AI_PROVIDER and OPENAI_API_KEY');
+      res.status(500).json({ error: 'AI provider not configured' });
       return;
     }
 
@@ -149,31 +140,21 @@ router.post('/parse-query', async (req, res) => {
       ? `Context:\n${contextHints.join('\n')}\n\nSearch query: "${query}"`
       : `Search query: "${query}"`;
 
-    const completion = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
+    const parsed = await chatJson({
+      purpose: 'parse-query',
       messages: [
         { role: 'system', content: SYSTEM_PROMPT },
         { role: 'user', content: userMessage },
       ],
-      response_format: {
-        type: 'json_schema',
-        json_schema: {
-          name: 'search_filters',
-          strict: true,
-          schema: FILTER_SCHEMA,
-        },
-      },
+      jsonSchema: { name: 'search_filters', schema: FILTER_SCHEMA },
       temperature: 0.1,
-      max_tokens: 500,
+      maxTokens: 500,
     });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
+    if (!parsed) {
       res.status(500).json({ error: 'Empty response from AI' });
       return;
     }
 
-    const parsed = JSON.parse(content);
     console.log(`[AI] Parsed in ${Date.now() - startTime}ms:`, JSON.stringify(parsed, null, 2));
     res.json(parsed);
   } catch (error: unknown) {
@@ -228,39 +209,29 @@ router.post('/expand-keywords', async (req, res) => {
       return;
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      res.status(500).json({ error: 'OpenAI API key not configured' });
+    if (!isAiConfigured()) {
+      res.status(500).json({ error: 'AI provider not configured' });
       return;
     }
 
     console.log(`[AI] Expanding keywords for: "${text}"`);
     const startTime = Date.now();
 
-    const completion = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
+    const parsed = await chatJson<{ keywords: string[] }>({
+      purpose: 'expand-keywords',
       messages: [
         { role: 'system', content: EXPAND_SYSTEM_PROMPT },
         { role: 'user', content: `Expand into search keywords: "${text.trim()}"` },
       ],
-      response_format: {
-        type: 'json_schema',
-        json_schema: {
-          name: 'expanded_keywords',
-          strict: true,
-          schema: EXPAND_KEYWORDS_SCHEMA,
-        },
-      },
+      jsonSchema: { name: 'expanded_keywords', schema: EXPAND_KEYWORDS_SCHEMA },
       temperature: 0.3,
-      max_tokens: 400,
+      maxTokens: 400,
     });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
+    if (!parsed) {
       res.status(500).json({ error: 'Empty response from AI' });
       return;
     }
 
-    const parsed = JSON.parse(content);
     console.log(`[AI] Expanded "${text}" into ${parsed.keywords.length} keywords in ${Date.now() - startTime}ms`);
     res.json(parsed);
   } catch (error: unknown) {
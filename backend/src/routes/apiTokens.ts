@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { validate, schemas } from '../middleware/validation.js';
+import prisma from '../lib/prisma.js';
+import {
+  API_TOKEN_SCOPES,
+  MAX_API_TOKENS,
+  generateApiToken,
+  validateApiTokenScopes,
+} from '../services/apiTokens.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const router = Router();
+
+// All routes require authentication (a session: tokens have no scope for these)
+router.use(authMiddleware);
+
+const tokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+// Scopes a token can be given
+router.get('/scopes', (_req, res) => {
+  res.json({ scopes: API_TOKEN_SCOPES });
+});
+
+// List the current user's tokens, newest first (never the token values)
+router.get('/', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId },
+      select: tokenSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(tokens);
+  } catch (error: unknown) {
+    console.error('Error fetching API tokens:', error);
+    res.status(500).json({ error: 'Failed to fetch API tokens' });
+  }
+});
+
+// Create a token; the value is returned once and can't be shown again
+router.post('/', validate(schemas.createApiToken), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { name, scopes, expiresInDays } = req.body as { name: string; scopes: string[]; expiresInDays?: number | null };
+
+    const scopesError = validateApiTokenScopes(scopes);
+    if (scopesError) {
+      res.status(400).json({ error: scopesError });
+      return;
+    }
+
+    const now = new Date();
+    const activeCount = await prisma.apiToken.count({
+      where: { userId, revokedAt: null, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    });
+    if (activeCount >= MAX_API_TOKENS) {
+      res.status(400).json({ error: `You can have at most ${MAX_API_TOKENS} active tokens. Revoke one first.` });
+      return;
+    }
+
+    const { token, tokenHash, prefix } = generateApiToken();
+    const created = await prisma.apiToken.create({
+      data: {
+        userId,
+        name,
+        tokenHash,
+        prefix,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: expiresInDays ? new Date(now.getTime() + expiresInDays * DAY_MS) : null,
+      },
+      select: tokenSelect,
+    });
+
+    res.status(201).json({ ...created, token });
+  } catch (error: unknown) {
+    console.error('Error creating API token:', error);
+    res.status(500).json({ error: 'Failed to create API token' });
+  }
+});
+
+// Revoke a token; it stops working immediately
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const existing = await prisma.apiToken.findFirst({
+      where: { id: req.params.id, userId },
+      select: { id: true, revokedAt: true },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'API token not found' });
+      return;
+    }
+
+    const revoked = existing.revokedAt
+      ? await prisma.apiToken.findUniqueOrThrow({ where: { id: existing.id }, select: tokenSelect })
+      : await prisma.apiToken.update({ where: { id: existing.id }, data: { revokedAt: new Date() }, select: tokenSelect });
+
+    res.json(revoked);
+  } catch (error: unknown) {
+    console.error('Error revoking API token:', error);
+    res.status(500).json({ error: 'Failed to revoke API token' });
+  }
+});
+
+export default router;
@@ -5,7 +5,7 @@ import { generateToken, verifyToken, authMiddleware, encryptToken, invalidateUse
 import { cookieConfig } from '../middleware/security.js';
 import { sendWelcomeEmail } from '../services/email.js';
 import prisma from '../lib/prisma.js';
-import { enrichUserProfile } from '../services/apollo.js';
+import { enrichUserProfile } from '../services/enrichment.js';
 
 const router = Router();
 
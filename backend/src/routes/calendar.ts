@@ -1,25 +1,21 @@
 import { Router } from 'express';
+import type { Job } from '@prisma/client';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
-import { syncCalendarForUser, getCalendarSyncStatus, syncCalendarAccount, getCalendarAccounts } from '../services/calendar.js';
+import { getCalendarSyncStatus, getCalendarAccounts, queueCalendarSync, calendarSyncKey } from '../services/calendar.js';
+import { findActiveJob } from '../services/jobs.js';
 import { runEnrichmentForUser } from './enrichment.js';
 import prisma from '../lib/prisma.js';
 
 const router = Router();
 
-function isCalendarAuthError(error: unknown): boolean {
-  const msg = error instanceof Error ? error.message : '';
-  const code = (error as { code?: number })?.code;
-  const status = (error as { status?: number })?.status;
-  const httpStatus = (error as { response?: { status?: number } })?.response?.status;
-
-  return msg.includes('invalid_grant') ||
-    msg.includes('Token has been expired') ||
-    msg.includes('Request had insufficient authentication scopes') ||
-    msg.includes('Insufficient Permission') ||
-    msg.includes('insufficient_scope') ||
-    code === 401 || code === 403 ||
-    status === 401 || status === 403 ||
-    httpStatus === 401 || httpStatus === 403;
+/** What the sync routes return: the queued (or already active) sync job */
+function syncJobView(job: Job) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    result: job.result,
+    lastError: job.lastError,
+  };
 }
 
 // All routes require authentication
@@ -72,39 +68,28 @@ router.delete('/accounts/:accountId', async (req, res) => {
   }
 });
 
-// Sync a specific calendar account
+// Sync a specific calendar account in the background; returns the sync job
 router.post('/accounts/:accountId/sync', async (req, res) => {
   const { accountId } = req.params;
   try {
     const userId = (req as AuthenticatedRequest).user!.id;
-    
-    console.log('Starting calendar sync for account:', accountId);
-    const result = await syncCalendarAccount(userId, accountId);
-    console.log('Calendar sync completed:', result);
+    const account = await prisma.calendarAccount.findFirst({ where: { id: accountId, userId }, select: { id: true } });
+    if (!account) {
+      res.status(404).json({ error: 'Calendar account not found' });
+      return;
+    }
 
-    runEnrichmentForUser(userId);
+    const job = (await queueCalendarSync(userId, accountId)) ?? (await findActiveJob(calendarSyncKey(userId, accountId)));
+    if (!job) throw new Error('Sync job finished before it could be returned');
 
-    res.json({
-      success: true,
-      ...result,
-    });
+    runEnrichmentForUser(userId).catch(err =>
+      console.error('[enrich] Failed to queue enrichment:', err.message),
+    );
+
+    res.status(202).json(syncJobView(job));
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('Calendar sync error:', errorMessage);
-    
-    if (isCalendarAuthError(error)) {
-      await prisma.calendarAccount.update({
-        where: { id: accountId },
-        data: { hasCalendarAccess: false },
-      }).catch(() => {});
-      res.status(401).json({
-        error: 'Calendar access expired',
-        message: 'Please reconnect this calendar account',
-        needsReauth: true,
-      });
-      return;
-    }
-    
     res.status(500).json({
       error: 'Failed to sync calendar',
       message: errorMessage,
@@ -112,34 +97,21 @@ router.post('/accounts/:accountId/sync', async (req, res) => {
   }
 });
 
-// Trigger calendar sync (syncs all accounts + legacy primary)
+// Trigger calendar sync (syncs all accounts + legacy primary) in the background; returns the sync job
 router.post('/sync', async (req, res) => {
   try {
     const userId = (req as AuthenticatedRequest).user!.id;
-    console.log('Starting calendar sync for user:', userId);
-    const result = await syncCalendarForUser(userId);
-    console.log('Calendar sync completed:', result);
+    const job = (await queueCalendarSync(userId)) ?? (await findActiveJob(calendarSyncKey(userId)));
+    if (!job) throw new Error('Sync job finished before it could be returned');
 
-    runEnrichmentForUser(userId);
+    runEnrichmentForUser(userId).catch(err =>
+      console.error('[enrich] Failed to queue enrichment:', err.message),
+    );
 
-    res.json({
-      success: true,
-      ...result,
-    });
+    res.status(202).json(syncJobView(job));
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('Calendar sync error:', errorMessage);
-    console.error('Full error:', error);
-    
-    if (isCalendarAuthError(error)) {
-      res.status(401).json({
-        error: 'Calendar access not granted',
-        message: 'Please sign out and sign in again, making sure to check the Google Calendar permission',
-        needsReauth: true,
-      });
-      return;
-    }
-    
     res.status(500).json({
       error: 'Failed to sync calendar',
       message: errorMessage,
@@ -147,6 +119,22 @@ router.post('/sync', async (req, res) => {
   }
 });
 
+// Poll a sync job started by one of the routes above
+router.get('/sync/:jobId', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const job = await prisma.job.findFirst({ where: { id: req.params.jobId, userId, type: 'calendar_sync_user' } });
+    if (!job) {
+      res.status(404).json({ error: 'Sync job not found' });
+      return;
+    }
+    res.json(syncJobView(job));
+  } catch (error: unknown) {
+    console.error('Calendar sync job error:', error);
+    res.status(500).json({ error: 'Failed to fetch sync job' });
+  }
+});
+
 // Get sync status
 router.get('/status', async (req, res) => {
   try {
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
-import { sendNotificationEmail, sendInviteEmail } from '../services/email.js';
+import { sendInviteEmail } from '../services/email.js';
+import { notify } from '../services/notifications.js';
+import { emitWebhookEvent } from '../services/webhooks.js';
 import prisma from '../lib/prisma.js';
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -191,15 +193,13 @@ router.post('/', async (req, res) => {
       });
 
       // Notify the target user about the new request
-      const reNotif = { type: 'connection_request', title: `${reSender?.name || 'Someone'} wants to connect`, body: 'Accept to share your networks with each other.' };
-      await prisma.notification.create({
-        data: {
-          userId: targetUser.id,
-          ...reNotif,
-          data: { connectionId: existing.id, fromUserId: userId, fromUserName: reSender?.name },
-        },
+      await notify({
+        userId: targetUser.id,
+        type: 'connection_request',
+        title: `${reSender?.name || 'Someone'} wants to connect`,
+        body: 'Accept to share your networks with each other.',
+        data: { connectionId: existing.id, fromUserId: userId, fromUserName: reSender?.name || null },
       });
-      sendNotificationEmail(targetUser.id, reNotif).catch(() => {});
 
       res.json({ id: existing.id, status: 'pending', peer: { id: targetUser.id, name: targetUser.name, email: targetUser.email, avatar: targetUser.avatar } });
       return;
@@ -215,15 +215,13 @@ router.post('/', async (req, res) => {
     });
 
     // Notify the target user
-    const connNotif = { type: 'connection_request', title: `${sender?.name || 'Someone'} wants to connect`, body: 'Accept to share your networks with each other.' };
-    await prisma.notification.create({
-      data: {
-        userId: targetUser.id,
-        ...connNotif,
-        data: { connectionId: connection.id, fromUserId: userId, fromUserName: sender?.name },
-      },
+    await notify({
+      userId: targetUser.id,
+      type: 'connection_request',
+      title: `${sender?.name || 'Someone'} wants to connect`,
+      body: 'Accept to share your networks with each other.',
+      data: { connectionId: connection.id, fromUserId: userId, fromUserName: sender?.name || null },
     });
-    sendNotificationEmail(targetUser.id, connNotif).catch(() => {});
 
     res.json({
       id: connection.id,
@@ -261,15 +259,20 @@ router.post('/:id/accept', async (req, res) => {
     });
 
     // Notify the original sender that their request was accepted
-    const acceptNotif = { type: 'connection_accepted', title: `${accepter?.name || 'Someone'} accepted your connection`, body: 'You are now connected.' };
-    await prisma.notification.create({
-      data: {
-        userId: connection.fromUserId,
-        ...acceptNotif,
-        data: { connectionId: connection.id, peerId: userId, peerName: accepter?.name },
-      },
+    await notify({
+      userId: connection.fromUserId,
+      type: 'connection_accepted',
+      title: `${accepter?.name || 'Someone'} accepted your connection`,
+      body: 'You are now connected.',
+      data: { connectionId: connection.id, peerId: userId, peerName: accepter?.name || null },
+    });
+    await emitWebhookEvent('connection.accepted', { userIds: [connection.fromUserId, userId] }, {
+      connectionId: connection.id,
+      fromUserId: connection.fromUserId,
+      fromUserName: updated.fromUser.name,
+      toUserId: userId,
+      toUserName: accepter?.name || null,
     });
-    sendNotificationEmail(connection.fromUserId, acceptNotif).catch(() => {});
 
     res.json({ id: updated.id, status: 'accepted', peer: updated.fromUser });
   } catch (error: any) {
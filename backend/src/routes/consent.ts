@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { validate, schemas } from '../middleware/validation.js';
+import { findConsentByToken, expireConsentIfDue, publicConsentView, applyConsentDecision } from '../services/introConsent.js';
+
+// Public: answered by the target contact from the emailed link, no account needed
+const router = Router();
+
+// What the link is asking
+router.get('/:token', async (req, res) => {
+  try {
+    const consent = await findConsentByToken(req.params.token);
+    if (!consent) {
+      res.status(404).json({ error: 'This link is not valid' });
+      return;
+    }
+    if (await expireConsentIfDue(consent)) consent.status = 'expired';
+
+    res.json(publicConsentView(consent));
+  } catch (error: unknown) {
+    console.error('Get consent error:', error);
+    res.status(500).json({ error: 'Failed to load this request' });
+  }
+});
+
+// Accept or decline the intro
+router.post('/:token', validate(schemas.respondToConsent), async (req, res) => {
+  try {
+    const consent = await findConsentByToken(req.params.token);
+    if (!consent) {
+      res.status(404).json({ error: 'This link is not valid' });
+      return;
+    }
+    if (await expireConsentIfDue(consent)) {
+      res.status(410).json({ error: 'This link has expired' });
+      return;
+    }
+    if (consent.status !== 'pending') {
+      res.status(409).json({ error: `You already ${consent.status === 'accepted' ? 'accepted' : consent.status === 'declined' ? 'declined' : 'answered'} this intro` });
+      return;
+    }
+
+    const note = typeof req.body.note === 'string' ? req.body.note.trim() || null : null;
+    const applied = await applyConsentDecision(consent, req.body.decision, note);
+    if (!applied) {
+      res.status(409).json({ error: 'This intro was already answered' });
+      return;
+    }
+
+    const updated = await findConsentByToken(req.params.token);
+    res.json(publicConsentView(updated!));
+  } catch (error: unknown) {
+    console.error('Respond to consent error:', error);
+    res.status(500).json({ error: 'Failed to save your answer' });
+  }
+});
+
+export default router;
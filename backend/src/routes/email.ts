@@ -4,8 +4,10 @@ import {
   sendIntroOfferEmail,
   sendDoubleIntroEmail,
   sendContactEmail,
-  sendNotificationEmail,
 } from '../services/email.js';
+import { transitionError, transitionIntroRequest } from '../services/introRequestLifecycle.js';
+import { sendIntroConsent } from '../services/introConsent.js';
+import { createNotification, notify } from '../services/notifications.js';
 import prisma from '../lib/prisma.js';
 
 const router = Router();
@@ -124,22 +126,20 @@ router.post('/contact', async (req, res) => {
       return;
     }
 
-    // Block actions on requests that are not open or still pending admin review
-    if (requestId && (action === 'ask-details' || action === 'ask-permission')) {
+    // Block actions on requests that are no longer active or still pending admin review
+    const lifecycleAction = action === 'ask-details' ? 'request_details' : action === 'ask-permission' ? 'check_with_contact' : null;
+    if (requestId && lifecycleAction) {
       const reqCheck = await prisma.introRequest.findUnique({
         where: { id: requestId },
-        select: { status: true, adminStatus: true, requesterId: true, spaceId: true, normalizedQuery: true },
+        select: { id: true, status: true, adminStatus: true, requesterId: true, spaceId: true, normalizedQuery: true },
       });
       if (!reqCheck) {
         res.status(404).json({ error: 'Request not found' });
         return;
       }
-      if (reqCheck.status !== 'open') {
-        res.status(400).json({ error: `Request is already ${reqCheck.status}` });
-        return;
-      }
-      if (reqCheck.adminStatus === 'pending_review') {
-        res.status(400).json({ error: 'Request is still pending admin review' });
+      const lifecycleErr = transitionError(reqCheck, lifecycleAction);
+      if (lifecycleErr) {
+        res.status(400).json({ error: lifecycleErr });
         return;
       }
       if (reqCheck.requesterId === user.id) {
@@ -168,14 +168,31 @@ router.post('/contact', async (req, res) => {
       }
     }
 
-    const result = await sendContactEmail({
-      senderName: user.name,
-      senderEmail: user.email,
-      recipientEmail,
-      recipientName: recipientName || recipientEmail.split('@')[0],
-      subject,
-      body,
-    });
+    // Asking the contact goes out as a double-opt-in link they can answer in one click
+    let consentId: string | null = null;
+    let result;
+    if (action === 'ask-permission' && requestId) {
+      const sent = await sendIntroConsent({
+        requestId,
+        introducer: { id: user.id, name: user.name, email: user.email },
+        contactEmail: recipientEmail,
+        contactName: req.body.contactName || recipientName || null,
+        contactId: typeof req.body.contactId === 'string' ? req.body.contactId : null,
+        subject,
+        body,
+      });
+      result = sent.result;
+      consentId = sent.consentId;
+    } else {
+      result = await sendContactEmail({
+        senderName: user.name,
+        senderEmail: user.email,
+        recipientEmail,
+        recipientName: recipientName || recipientEmail.split('@')[0],
+        subject,
+        body,
+      });
+    }
 
     if (!result.success) {
       res.status(500).json({ error: result.error || 'Failed to send email' });
@@ -185,10 +202,15 @@ router.post('/contact', async (req, res) => {
     // If this is a "details requested" email for an intro request, notify the requester
     if (action === 'ask-details' && requestId) {
       try {
-        await prisma.introRequest.update({
+        const current = await prisma.introRequest.findUniqueOrThrow({
           where: { id: requestId },
-          data: { detailsRequestedAt: new Date(), detailsRequestedById: user.id },
+          select: { id: true, status: true, adminStatus: true },
         });
+        await prisma.$transaction(tx => transitionIntroRequest(tx, current, 'request_details', {
+          actorId: user.id,
+          data: { detailsRequestedAt: new Date(), detailsRequestedById: user.id },
+          payload: { recipientEmail },
+        }));
         const introReq = await prisma.introRequest.findUnique({
           where: { id: requestId },
           select: { requesterId: true, normalizedQuery: true, spaceId: true, space: { select: { name: true, emoji: true } } },
@@ -196,28 +218,22 @@ router.post('/contact', async (req, res) => {
         if (introReq && introReq.requesterId !== user.id) {
           const nq = (introReq.normalizedQuery as Record<string, unknown>) || {};
           const companyName = (nq.companyName as string) || 'a company';
-          const detailsNotif = {
+          await notify({
+            userId: introReq.requesterId,
             type: 'details_requested',
             title: `Details requested: ${companyName}`,
             body: `${user.name} wants more details about your intro request to ${companyName}. Check your email and reply.`,
-          };
-          await prisma.notification.create({
             data: {
-              userId: introReq.requesterId,
-              ...detailsNotif,
-              data: {
-                requestId,
-                companyName,
-                companyDomain: (nq.companyDomain as string) || null,
-                spaceId: introReq.spaceId || null,
-                spaceName: introReq.space?.name || null,
-                spaceEmoji: introReq.space?.emoji || null,
-                connectorId: user.id,
-                connectorName: user.name,
-              },
+              requestId,
+              companyName,
+              companyDomain: (nq.companyDomain as string) || null,
+              spaceId: introReq.spaceId || null,
+              spaceName: introReq.space?.name || null,
+              spaceEmoji: introReq.space?.emoji || null,
+              connectorId: user.id,
+              connectorName: user.name,
             },
           });
-          sendNotificationEmail(introReq.requesterId, detailsNotif).catch(() => {});
         }
       } catch (err) {
         console.error('Failed to create details_requested notification:', err);
@@ -229,9 +245,9 @@ router.post('/contact', async (req, res) => {
         const { contactName } = req.body;
         const now = new Date();
         const name = contactName || recipientName || null;
-        const existing = await prisma.introRequest.findUnique({
+        const existing = await prisma.introRequest.findUniqueOrThrow({
           where: { id: requestId },
-          select: { checkedWithContacts: true, checkedWithContactAt: true, checkedWithContactName: true, checkedWithContactById: true },
+          select: { id: true, status: true, adminStatus: true, checkedWithContacts: true, checkedWithContactAt: true, checkedWithContactName: true, checkedWithContactById: true },
         });
         let prev: any[] = [];
         if (Array.isArray(existing?.checkedWithContacts) && (existing.checkedWithContacts as any[]).length > 0) {
@@ -239,33 +255,32 @@ router.post('/contact', async (req, res) => {
         } else if (existing?.checkedWithContactAt) {
           prev = [{ at: (existing.checkedWithContactAt as Date).toISOString(), name: existing.checkedWithContactName || null, byId: existing.checkedWithContactById || '' }];
         }
-        await prisma.introRequest.update({
-          where: { id: requestId },
+        await prisma.$transaction(tx => transitionIntroRequest(tx, existing, 'check_with_contact', {
+          actorId: user.id,
           data: {
             checkedWithContactAt: now,
             checkedWithContactName: name,
             checkedWithContactById: user.id,
             checkedWithContacts: [...prev, { at: now.toISOString(), name, byId: user.id }],
           },
-        });
+          payload: { contactName: name, consentId },
+        }));
       } catch (err) {
         console.error('Failed to update checkedWithContact:', err);
       }
     }
 
     // Track for rate limiting
-    await prisma.notification.create({
-      data: {
-        userId: user.id,
-        type: 'email_sent',
-        title: `Email to ${recipientEmail}`,
-        body: subject,
-        isRead: true,
-        data: { recipientEmail },
-      },
+    await createNotification({
+      userId: user.id,
+      type: 'email_sent',
+      title: `Email to ${recipientEmail}`,
+      body: subject,
+      isRead: true,
+      data: { recipientEmail },
     }).catch(() => {});
 
-    res.json({ success: true, emailId: result.id });
+    res.json({ success: true, emailId: result.id, consentId });
   } catch (error: any) {
     console.error('Contact email error:', error.message);
     res.status(500).json({ error: 'Failed to send email' });
@@ -1,19 +1,28 @@
+import crypto from 'crypto';
 import { Router } from 'express';
 import { authMiddleware, adminMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
-import OpenAI from 'openai';
 import prisma from '../lib/prisma.js';
+import { enqueueJob, registerJobHandler, registerRecurringJob, findActiveJob } from '../services/jobs.js';
+import { embedTexts, isAiConfigured, getAiModels, getAiProviderName } from '../services/aiProvider.js';
 
 const router = Router();
 router.use(authMiddleware);
 
-let _openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!_openai) _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  return _openai;
-}
-
-const EMBEDDING_MODEL = 'text-embedding-3-small';
 const BATCH_SIZE = 100;
+// Companies the hourly sweep re-checks at most per run
+const SWEEP_LIMIT = 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const BACKFILL_KEY = 'embedding_backfill';
+
+// Only companies with something to say about them get a vector
+const EMBEDDABLE = `((description IS NOT NULL AND description != '') OR ("websiteSummary" IS NOT NULL AND "websiteSummary" != ''))`;
+// Embeddable, and changed (or never embedded) since their vector was last checked
+const STALE = `${EMBEDDABLE} AND (embedding IS NULL OR "embeddedAt" IS NULL OR "embeddedAt" < "updatedAt")`;
+
+/** A vector as a pgvector literal */
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
 
 function buildEmbeddingText(company: {
   name: string;
@@ -34,75 +43,42 @@ function buildEmbeddingText(company: {
   ].filter(Boolean).join(' | ');
 }
 
-// ─── Generate embeddings for companies (admin only) ──────────────────────────
+/** Identifies the vector a text gets: a new provider or model changes it too */
+function embeddingHash(text: string): string {
+  return crypto.createHash('sha256').update(`${getAiProviderName()}/${getAiModels().embedding}\n${text}`).digest('hex');
+}
+
+// ─── Backfill embeddings for companies (admin only) ──────────────────────────
 
+// Queues a backfill job; progress shows in GET /stats. Without `force`, companies
+// whose embedding text hasn't changed keep their vector.
 router.post('/generate', adminMiddleware, async (req, res) => {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      res.status(500).json({ error: 'OPENAI_API_KEY not configured' });
+    if (!isAiConfigured()) {
+      res.status(500).json({ error: 'AI provider not configured' });
       return;
     }
 
     const force = req.body.force === true;
-
-    const whereClause = force
-      ? `WHERE (description IS NOT NULL AND description != '') OR ("websiteSummary" IS NOT NULL AND "websiteSummary" != '')`
-      : `WHERE ((description IS NOT NULL AND description != '') OR ("websiteSummary" IS NOT NULL AND "websiteSummary" != '')) AND "embeddedAt" IS NULL`;
-
-    const toEmbed = await prisma.$queryRawUnsafe<
-      { id: string; name: string; domain: string; description: string | null; industry: string | null; city: string | null; country: string | null; websiteSummary: string | null }[]
-    >(`SELECT id, name, domain, description, industry, city, country, "websiteSummary" FROM companies ${whereClause} ORDER BY name`);
-
-    console.log(`[embeddings] Found ${toEmbed.length} companies to embed (force=${force})`);
-
-    if (toEmbed.length === 0) {
-      res.json({ embedded: 0, total: 0, message: 'All companies already have embeddings' });
+    const job = await enqueueJob(BACKFILL_KEY, { force }, { dedupeKey: BACKFILL_KEY });
+    if (!job) {
+      res.status(409).json({ error: 'A backfill is already running', job: await findActiveJob(BACKFILL_KEY) });
       return;
     }
 
-    let embedded = 0;
-    let errors = 0;
-
-    for (let i = 0; i < toEmbed.length; i += BATCH_SIZE) {
-      const batch = toEmbed.slice(i, i + BATCH_SIZE);
-      const texts = batch.map(c => buildEmbeddingText(c));
-
-      try {
-        const response = await getOpenAI().embeddings.create({
-          model: EMBEDDING_MODEL,
-          input: texts,
-        });
-
-        for (let j = 0; j < batch.length; j++) {
-          const vector = response.data[j].embedding;
-          const vectorStr = `[${vector.join(',')}]`;
-          await prisma.$executeRawUnsafe(
-            `UPDATE companies SET embedding = $1::vector, "embeddedAt" = NOW() WHERE id = $2`,
-            vectorStr,
-            batch[j].id,
-          );
-        }
-
-        embedded += batch.length;
-        console.log(`[embeddings] Progress: ${embedded}/${toEmbed.length}`);
-      } catch (batchError) {
-        errors += batch.length;
-        console.error(`[embeddings] Batch error at offset ${i}:`, batchError);
-      }
-    }
-
-    console.log(`[embeddings] Done: embedded=${embedded} errors=${errors}`);
-    res.json({ embedded, errors, total: toEmbed.length });
+    console.log(`[embeddings] Queued backfill ${job.id} (force=${force})`);
+    res.status(202).json({ jobId: job.id, force });
   } catch (error: unknown) {
     console.error('Embedding generation error:', error);
-    const message = error instanceof Error ? error.message : 'Failed to generate embeddings';
+    const message = error instanceof Error ? error.message : 'Failed to queue embedding backfill';
     res.status(500).json({ error: message });
   }
 });
 
 // ─── Semantic search ─────────────────────────────────────────────────────────
 
-const THRESHOLD_PRESETS: Record<number, number> = {
+// Minimum cosine similarity per precision level (1 = wide, 3 = strict)
+export const THRESHOLD_PRESETS: Record<number, number> = {
   1: 0.20,
   2: 0.30,
   3: 0.42,
@@ -117,8 +93,8 @@ router.post('/search', async (req, res) => {
       return;
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      res.status(500).json({ error: 'OPENAI_API_KEY not configured' });
+    if (!isAiConfigured()) {
+      res.status(500).json({ error: 'AI provider not configured' });
       return;
     }
 
@@ -129,12 +105,7 @@ router.post('/search', async (req, res) => {
     console.log(`[embeddings] Semantic search: "${query.trim()}" precision=${level} threshold=${threshold}`);
     const startTime = Date.now();
 
-    const embResponse = await getOpenAI().embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: query.trim(),
-    });
-    const queryVector = embResponse.data[0].embedding;
-    const vectorStr = `[${queryVector.join(',')}]`;
+    const vectorStr = await embedQuery(query.trim());
 
     const results = await prisma.$queryRawUnsafe<
       { domain: string; name: string; similarity: number }[]
@@ -174,12 +145,36 @@ router.post('/search', async (req, res) => {
 
 router.get('/stats', async (_req, res) => {
   try {
-    const [total, withDescription, embedded] = await Promise.all([
+    const [total, withDescription, counts, queued, backfill] = await Promise.all([
       prisma.company.count(),
       prisma.company.count({ where: { description: { not: null } } }),
-      prisma.company.count({ where: { embeddedAt: { not: null } } }),
+      prisma.$queryRawUnsafe<{ embeddable: bigint; embedded: bigint; stale: bigint }[]>(
+        `SELECT COUNT(*) FILTER (WHERE ${EMBEDDABLE}) AS embeddable,
+                COUNT(*) FILTER (WHERE embedding IS NOT NULL) AS embedded,
+                COUNT(*) FILTER (WHERE ${STALE}) AS stale
+         FROM companies`,
+      ),
+      prisma.job.count({ where: { type: 'embed_company', status: 'queued' } }),
+      prisma.job.findFirst({ where: { type: BACKFILL_KEY }, orderBy: { createdAt: 'desc' } }),
     ]);
-    res.json({ total, withDescription, embedded, pending: withDescription - embedded });
+    res.json({
+      total,
+      withDescription,
+      embeddable: Number(counts[0].embeddable),
+      embedded: Number(counts[0].embedded),
+      // Embeddable companies that are new or changed since their vector was checked
+      pending: Number(counts[0].stale),
+      queued,
+      backfill: backfill && {
+        id: backfill.id,
+        status: backfill.status,
+        force: (backfill.payload as { force?: boolean }).force === true,
+        progress: backfill.result ?? backfill.progress,
+        lastError: backfill.lastError,
+        startedAt: backfill.startedAt,
+        finishedAt: backfill.finishedAt,
+      },
+    });
   } catch (error) {
     console.error('Embedding stats error:', error);
     res.status(500).json({ error: 'Failed to get stats' });
@@ -231,32 +226,235 @@ router.get('/debug/:domain', adminMiddleware, async (req, res) => {
   }
 });
 
-// ─── Embed a single company (used internally after enrichment) ───────────────
+// ─── Embed companies (used internally after enrichment) ──────────────────────
 
-export async function embedCompany(companyId: string, company: {
+interface CompanyEmbeddingRow {
+  id: string;
   name: string;
-  domain?: string | null;
-  description?: string | null;
-  industry?: string | null;
-  city?: string | null;
-  country?: string | null;
-  websiteSummary?: string | null;
-}): Promise<void> {
-  if ((!company.description && !company.websiteSummary) || !process.env.OPENAI_API_KEY) return;
-
-  const text = buildEmbeddingText(company);
-  const response = await getOpenAI().embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: text,
-  });
-
-  const vector = response.data[0].embedding;
-  const vectorStr = `[${vector.join(',')}]`;
-  await prisma.$executeRawUnsafe(
-    `UPDATE companies SET embedding = $1::vector, "embeddedAt" = NOW() WHERE id = $2`,
-    vectorStr,
-    companyId,
+  domain: string;
+  description: string | null;
+  industry: string | null;
+  city: string | null;
+  country: string | null;
+  websiteSummary: string | null;
+  embeddingHash: string | null;
+  hasEmbedding: boolean;
+}
+
+/**
+ * Embed companies from their current rows, in batches. Companies whose
+ * embedding text hashes the same as their current vector's are skipped (unless
+ * `force`) and only marked as checked. Companies with no description or
+ * website summary are left alone.
+ */
+export async function embedCompanies(
+  companyIds: string[],
+  options: { force?: boolean } = {},
+): Promise<{ embedded: number; unchanged: number }> {
+  if (companyIds.length === 0 || !isAiConfigured()) return { embedded: 0, unchanged: 0 };
+
+  // Stamped rather than NOW() at the end, so a change made while embedding still looks stale
+  const checkedAt = new Date();
+  const rows = await prisma.$queryRawUnsafe<CompanyEmbeddingRow[]>(
+    `SELECT id, name, domain, description, industry, city, country, "websiteSummary", "embeddingHash",
+            embedding IS NOT NULL AS "hasEmbedding"
+     FROM companies
+     WHERE id = ANY($1::text[]) AND ${EMBEDDABLE}`,
+    companyIds,
   );
+
+  const changed: { id: string; text: string; hash: string }[] = [];
+  const unchanged: string[] = [];
+  for (const row of rows) {
+    const text = buildEmbeddingText(row);
+    const hash = embeddingHash(text);
+    if (!options.force && row.hasEmbedding && row.embeddingHash === hash) unchanged.push(row.id);
+    else changed.push({ id: row.id, text, hash });
+  }
+
+  if (unchanged.length > 0) {
+    await prisma.$executeRawUnsafe(
+      `UPDATE companies SET "embeddedAt" = $1 WHERE id = ANY($2::text[])`,
+      checkedAt,
+      unchanged,
+    );
+  }
+
+  for (let i = 0; i < changed.length; i += BATCH_SIZE) {
+    const batch = changed.slice(i, i + BATCH_SIZE);
+    const vectors = await embedTexts(batch.map(c => c.text), 'embed-companies');
+
+    for (let j = 0; j < batch.length; j++) {
+      await prisma.$executeRawUnsafe(
+        `UPDATE companies SET embedding = $1::vector, "embeddingHash" = $2, "embeddedAt" = $3 WHERE id = $4`,
+        toVectorLiteral(vectors[j]),
+        batch[j].hash,
+        checkedAt,
+        batch[j].id,
+      );
+    }
+  }
+
+  return { embedded: changed.length, unchanged: unchanged.length };
+}
+
+/** A search query's embedding, as a pgvector literal */
+export async function embedQuery(text: string): Promise<string> {
+  const [vector] = await embedTexts([text], 'search-query');
+  return toVectorLiteral(vector);
+}
+
+// ─── Embed contacts (used internally after enrichment) ───────────────────────
+
+// Recent meeting titles say what the user and the contact work on together
+const MEETING_TITLES_PER_CONTACT = 10;
+
+interface ContactEmbeddingRow {
+  id: string;
+  title: string | null;
+  headline: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  companyName: string | null;
+  companyIndustry: string | null;
+  meetingTitles: string[];
+}
+
+function buildContactEmbeddingText(contact: ContactEmbeddingRow): string {
+  return [
+    contact.title,
+    contact.headline,
+    [contact.companyName, contact.companyIndustry].filter(Boolean).join(', '),
+    [contact.city, contact.state, contact.country].filter(Boolean).join(', '),
+    contact.meetingTitles.join('; '),
+  ].filter(Boolean).join(' | ');
+}
+
+/**
+ * Embed contacts from their current rows, in batches. Contacts with nothing
+ * to say about them (no title, headline or company) are skipped. Returns how
+ * many were embedded.
+ */
+export async function embedContacts(contactIds: string[]): Promise<number> {
+  if (contactIds.length === 0 || !isAiConfigured()) return 0;
+
+  const rows = await prisma.$queryRawUnsafe<ContactEmbeddingRow[]>(
+    `SELECT c.id, c.title, c.headline, c.city, c.state, c.country,
+            co.name AS "companyName", co.industry AS "companyIndustry",
+            ARRAY(
+              SELECT m.title FROM meetings m
+              WHERE m."contactId" = c.id AND m.title <> ''
+              GROUP BY m.title
+              ORDER BY MAX(m.date) DESC
+              LIMIT ${MEETING_TITLES_PER_CONTACT}
+            ) AS "meetingTitles"
+     FROM contacts c
+     LEFT JOIN companies co ON co.id = c."companyId"
+     WHERE c.id = ANY($1::text[])
+       AND (c.title IS NOT NULL OR c.headline IS NOT NULL OR c."companyId" IS NOT NULL)`,
+    contactIds,
+  );
+
+  let embedded = 0;
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const vectors = await embedTexts(batch.map(buildContactEmbeddingText), 'embed-contacts');
+
+    for (let j = 0; j < batch.length; j++) {
+      await prisma.$executeRawUnsafe(
+        `UPDATE contacts SET embedding = $1::vector, "embeddedAt" = NOW() WHERE id = $2`,
+        toVectorLiteral(vectors[j]),
+        batch[j].id,
+      );
+    }
+    embedded += batch.length;
+  }
+  return embedded;
+}
+
+// ─── Embedding jobs ──────────────────────────────────────────────────────────
+
+registerJobHandler('embed_company', async (job) => {
+  const { companyId } = job.payload as { companyId: string };
+  const { embedded, unchanged } = await embedCompanies([companyId]);
+  if (unchanged > 0) return { skipped: 'Embedding text unchanged' };
+  if (embedded === 0) return { skipped: 'Nothing to embed' };
+});
+
+/**
+ * Re-embed a company from its current row, in the background. Call after
+ * writing any field buildEmbeddingText reads; unchanged text is skipped.
+ */
+export function queueCompanyEmbedding(companyId: string) {
+  return enqueueJob('embed_company', { companyId }, { dedupeKey: `embed_company:${companyId}` });
+}
+
+interface BackfillProgress {
+  /** Companies are walked in id order; the last id done */
+  cursor: string;
+  total: number;
+  processed: number;
+  embedded: number;
+  unchanged: number;
+}
+
+// Walks every embeddable company in batches. Progress is saved after each batch, so a
+// run that is interrupted, fails or is retried from the admin dashboard carries on from
+// its cursor instead of starting over.
+registerJobHandler(BACKFILL_KEY, async (job, ctx) => {
+  const { force = false } = job.payload as { force?: boolean };
+  const resumed = job.progress as BackfillProgress | null;
+  const progress: BackfillProgress = resumed ?? { cursor: '', total: 0, processed: 0, embedded: 0, unchanged: 0 };
+
+  const [{ remaining }] = await prisma.$queryRawUnsafe<{ remaining: bigint }[]>(
+    `SELECT COUNT(*) AS remaining FROM companies WHERE ${EMBEDDABLE} AND id > $1`,
+    progress.cursor,
+  );
+  progress.total = progress.processed + Number(remaining);
+  if (resumed) console.log(`[embeddings] Resuming backfill ${job.id} at ${progress.processed}/${progress.total}`);
+  ctx.reportProgress({ ...progress });
+
+  while (!ctx.signal.aborted) {
+    const batch = await prisma.$queryRawUnsafe<{ id: string }[]>(
+      `SELECT id FROM companies WHERE ${EMBEDDABLE} AND id > $1 ORDER BY id LIMIT ${BATCH_SIZE}`,
+      progress.cursor,
+    );
+    if (batch.length === 0) break;
+
+    const result = await embedCompanies(batch.map(c => c.id), { force });
+    progress.cursor = batch[batch.length - 1].id;
+    progress.processed += batch.length;
+    progress.embedded += result.embedded;
+    progress.unchanged += result.unchanged;
+    ctx.reportProgress({ ...progress });
+  }
+
+  console.log(`[embeddings] Backfill ${job.id}: embedded=${progress.embedded} unchanged=${progress.unchanged} of ${progress.total}`);
+  return { ...progress };
+}, { maxAttempts: 5 });
+
+// Safety net for companies changed without queueing an embedding, or whose embed job
+// died: re-checks anything updated since its vector was last checked.
+registerRecurringJob('embedding_sweep', { everyMs: SWEEP_INTERVAL_MS, initialDelayMs: 8 * 60 * 1000 }, async () => {
+  if (!isAiConfigured()) return { skipped: 'AI provider not configured' };
+  const stale = await prisma.$queryRawUnsafe<{ id: string }[]>(
+    `SELECT id FROM companies WHERE ${STALE} ORDER BY "updatedAt" LIMIT ${SWEEP_LIMIT}`,
+  );
+  const result = await embedCompanies(stale.map(c => c.id));
+  if (result.embedded > 0) console.log(`[cron] Re-embedded ${result.embedded} changed companies`);
+  return { checked: stale.length, ...result };
+});
+
+registerJobHandler('embed_contact', async (job) => {
+  const { contactId } = job.payload as { contactId: string };
+  const embedded = await embedContacts([contactId]);
+  if (embedded === 0) return { skipped: 'Nothing to embed' };
+});
+
+/** Re-embed a contact from its current row, in the background */
+export function queueContactEmbedding(contactId: string) {
+  return enqueueJob('embed_contact', { contactId });
 }
 
 export default router;
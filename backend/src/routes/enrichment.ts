@@ -2,15 +2,18 @@ import { Router } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import {
   enrichContactsFree,
-  enrichOrganizationFree,
-  matchPersonByEmail,
-  enrichOrganization,
+  enrichCompanyByDomain,
+  lookupPerson,
   getEnrichmentStats,
   type BatchResult,
-} from '../services/apollo.js';
+} from '../services/enrichment.js';
 import prisma from '../lib/prisma.js';
-import { embedCompany } from './embeddings.js';
-import { scrapeAndSummarizeCompany } from '../services/scraper.js';
+import { queueCompanyScrape } from '../services/scraper.js';
+import { runWithSignalEvaluation } from '../services/signals.js';
+import { publishToUser } from '../services/notifications.js';
+import { getCreditBudget } from '../services/enrichmentCredits.js';
+import { ACTIVE_JOB_STATUSES, enqueueJob, findActiveJob, cancelJob, registerJobHandler } from '../services/jobs.js';
+import type { Job } from '@prisma/client';
 
 const router = Router();
 router.use(authMiddleware);
@@ -39,125 +42,156 @@ router.get('/status', async (req, res) => {
   }
 });
 
-// ─── In-memory progress tracking ─────────────────────────────────────────────
+// What the user can still spend on paid lookups this month
+router.get('/budget', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    res.json(await getCreditBudget(userId));
+  } catch (error: any) {
+    console.error('Enrichment budget error:', error.message);
+    res.status(500).json({ error: 'Failed to fetch enrichment budget' });
+  }
+});
 
-const PROGRESS_CLEANUP_MS = 5 * 60 * 1000; // keep completed progress for 5 min
+// ─── Enrichment jobs ─────────────────────────────────────────────────────────
 
-const batchProgress = new Map<string, { type: string; result: BatchResult; done: boolean; error?: string }>();
-const cleanupTimers = new Map<string, ReturnType<typeof setTimeout>>();
-const cancelSignals = new Map<string, { cancelled: boolean }>();
+// Finished runs still show in GET /progress for this long
+const PROGRESS_VISIBLE_MS = 5 * 60 * 1000;
+const EMPTY_RESULT: BatchResult = { total: 0, enriched: 0, skipped: 0, errors: 0 };
 
-function progressKey(userId: string) { return `contacts:${userId}`; }
+function enrichmentKey(userId: string) { return `enrich_contacts:${userId}`; }
 
-function scheduleCleanup(key: string) {
-  const existing = cleanupTimers.get(key);
-  if (existing) clearTimeout(existing);
-  const timer = setTimeout(() => {
-    batchProgress.delete(key);
-    cleanupTimers.delete(key);
-  }, PROGRESS_CLEANUP_MS);
-  cleanupTimers.set(key, timer);
+// Same shape as GET /progress
+function progressView(job: Job | null) {
+  if (!job) return { contacts: null, companies: null, contactsFree: null };
+  const done = !(ACTIVE_JOB_STATUSES as string[]).includes(job.status);
+  const result = ((job.status === 'succeeded' || job.status === 'cancelled') && job.result ? job.result : job.progress) as BatchResult | null;
+  const error = job.status === 'dead' ? job.lastError || 'Enrichment failed' : null;
+  return {
+    contacts: null,
+    companies: null,
+    contactsFree: { ...EMPTY_RESULT, ...result, ...(error ? { errorMessage: error } : {}), done, error },
+  };
 }
 
-// ─── Start enrichment ────────────────────────────────────────────────────────
+/** The user's current enrichment job, or the last one if it finished recently */
+async function latestEnrichmentJob(userId: string): Promise<Job | null> {
+  return prisma.job.findFirst({
+    where: {
+      type: 'enrich_contacts',
+      userId,
+      OR: [
+        { status: { in: ACTIVE_JOB_STATUSES } },
+        { finishedAt: { gte: new Date(Date.now() - PROGRESS_VISIBLE_MS) } },
+      ],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
 
-export function runEnrichmentForUser(userId: string, options?: { force?: boolean }): void {
-  const key = progressKey(userId);
+// Pushed to the user's notification stream on every change
+function publishProgress(userId: string, job: Job | null) {
+  publishToUser(userId, 'enrichment_progress', progressView(job));
+}
 
-  // Skip if already running
-  const existing = batchProgress.get(key);
-  if (existing && !existing.done) return;
+registerJobHandler('enrich_contacts', async (job, ctx) => {
+  const userId = job.userId!;
+  const { force } = job.payload as { force?: boolean };
+  // enrichContactsFree checks this flag between contacts
+  const signal = { cancelled: false };
+  ctx.signal.addEventListener('abort', () => { signal.cancelled = true; });
+
+  let result: BatchResult;
+  try {
+    result = await runWithSignalEvaluation(userId, () => enrichContactsFree(userId, (progress) => {
+      ctx.reportProgress({ ...progress });
+      publishProgress(userId, { ...job, status: 'running', progress: { ...progress } } as Job);
+    }, { force, signal }));
+  } catch (err) {
+    // Earlier attempts are retried quietly; tell the user once it gives up
+    if (job.attempts >= job.maxAttempts) {
+      publishProgress(userId, { ...job, status: 'dead', lastError: (err as Error).message || 'Enrichment failed' } as Job);
+    }
+    throw err;
+  }
 
-  // Cancel any pending cleanup timer from a previous run
-  const oldTimer = cleanupTimers.get(key);
-  if (oldTimer) { clearTimeout(oldTimer); cleanupTimers.delete(key); }
+  // An interrupted run goes back in the queue, so it isn't done yet
+  if (ctx.signal.reason !== 'shutdown') {
+    publishProgress(userId, { ...job, status: ctx.signal.aborted ? 'cancelled' : 'succeeded', result: { ...result } } as Job);
+  }
+  return { ...result };
+});
 
-  batchProgress.set(key, {
-    type: 'contacts',
-    result: { total: 0, enriched: 0, skipped: 0, errors: 0 },
-    done: false,
+/**
+ * Queue contact enrichment for a user. Returns null if one is already queued
+ * or running; the job survives restarts and resumes where the cache left off.
+ */
+export async function runEnrichmentForUser(userId: string, options?: { force?: boolean }): Promise<Job | null> {
+  const job = await enqueueJob('enrich_contacts', { force: !!options?.force }, {
+    userId,
+    dedupeKey: enrichmentKey(userId),
   });
-
-  const signal = { cancelled: false };
-  cancelSignals.set(userId, signal);
-
-  enrichContactsFree(userId, (result) => {
-    const entry = batchProgress.get(key);
-    if (entry) entry.result = result;
-  }, { ...options, signal })
-    .then((finalResult) => {
-      cancelSignals.delete(userId);
-      const entry = batchProgress.get(key);
-      if (entry) { entry.result = finalResult; entry.done = true; }
-      scheduleCleanup(key);
-    })
-    .catch((err) => {
-      cancelSignals.delete(userId);
-      console.error('Enrichment failed:', err);
-      const entry = batchProgress.get(key);
-      if (entry) {
-        entry.done = true;
-        entry.error = (err as Error).message || 'Enrichment failed';
-        entry.result.errorMessage = entry.error;
-      }
-      scheduleCleanup(key);
-    });
+  if (job) publishProgress(userId, job);
+  return job;
 }
 
+// ─── Start enrichment ────────────────────────────────────────────────────────
+
 router.post('/contacts-free', async (req, res) => {
-  const userId = (req as AuthenticatedRequest).user!.id;
-  const force = req.body?.force === true;
-  console.log(`[enrich] POST /contacts-free userId=${userId} force=${force}`);
-
-  const key = progressKey(userId);
-  const existing = batchProgress.get(key);
-  if (existing && !existing.done) {
-    res.status(409).json({ error: 'Enrichment already in progress', progress: existing.result });
-    return;
-  }
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const force = req.body?.force === true;
+    console.log(`[enrich] POST /contacts-free userId=${userId} force=${force}`);
 
-  runEnrichmentForUser(userId, { force });
-  res.json({ message: 'Enrichment started', key });
+    const job = await runEnrichmentForUser(userId, { force });
+    if (!job) {
+      const existing = await findActiveJob(enrichmentKey(userId));
+      res.status(409).json({ error: 'Enrichment already in progress', progress: progressView(existing).contactsFree });
+      return;
+    }
+
+    res.json({ message: 'Enrichment started', key: enrichmentKey(userId), jobId: job.id });
+  } catch (error: any) {
+    console.error('Enrichment start error:', error.message);
+    res.status(500).json({ error: 'Failed to start enrichment' });
+  }
 });
 
 // ─── Stop enrichment ─────────────────────────────────────────────────────────
 
 router.post('/stop', async (req, res) => {
-  const userId = (req as AuthenticatedRequest).user!.id;
-  const key = progressKey(userId);
-
-  const signal = cancelSignals.get(userId);
-  const entry = batchProgress.get(key);
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
 
-  if (!entry || entry.done) {
-    res.json({ message: 'No enrichment running', stopped: false });
-    return;
-  }
+    const existing = await findActiveJob(enrichmentKey(userId));
+    if (!existing) {
+      res.json({ message: 'No enrichment running', stopped: false });
+      return;
+    }
 
-  if (signal) {
-    signal.cancelled = true;
+    const job = await cancelJob(existing.id);
     console.log(`[enrich] ⛔ Stop requested by user ${userId}`);
-  }
+    // A running job reports its final counts once the handler notices the cancel
+    const view = progressView(job && { ...job, status: 'cancelled' });
+    publishToUser(userId, 'enrichment_progress', view);
 
-  entry.done = true;
-  cancelSignals.delete(userId);
-
-  res.json({ message: 'Enrichment stopped', stopped: true, progress: entry.result });
+    res.json({ message: 'Enrichment stopped', stopped: true, progress: view.contactsFree });
+  } catch (error: any) {
+    console.error('Enrichment stop error:', error.message);
+    res.status(500).json({ error: 'Failed to stop enrichment' });
+  }
 });
 
 // ─── Progress polling ────────────────────────────────────────────────────────
 
 router.get('/progress', async (req, res) => {
-  const userId = (req as AuthenticatedRequest).user!.id;
-  const entry = batchProgress.get(progressKey(userId));
-
-  res.json({
-    contacts: null,
-    companies: null,
-    contactsFree: entry
-      ? { ...entry.result, done: entry.done, error: entry.error || null }
-      : null,
-  });
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    res.json(progressView(await latestEnrichmentJob(userId)));
+  } catch (error: any) {
+    console.error('Enrichment progress error:', error.message);
+    res.status(500).json({ error: 'Failed to fetch enrichment progress' });
+  }
 });
 
 // ─── Single company lookup ───────────────────────────────────────────────────
@@ -166,54 +200,28 @@ router.get('/company/:domain', async (req, res) => {
   try {
     const domain = req.params.domain.toLowerCase().replace(/^www\./, '');
 
-    let company = await prisma.company.findUnique({ where: { domain } });
+    const company = await prisma.company.findUnique({ where: { domain } });
     if (company) {
       res.json({ company, source: 'db' });
       return;
     }
 
-    const org = await enrichOrganizationFree(domain);
-    if (org && org.name) {
-      const enrichData = {
-        name: org.name,
-        industry: org.industry || null,
-        employeeCount: org.estimated_num_employees || null,
-        foundedYear: org.founded_year || null,
-        linkedinUrl: org.linkedin_url || null,
-        websiteUrl: org.website_url || null,
-        logo: org.logo_url || null,
-        city: org.city || null,
-        state: org.state || null,
-        country: org.country || null,
-        description: org.short_description || null,
-        apolloId: org.id || null,
-        annualRevenue: org.annual_revenue ? String(org.annual_revenue) : null,
-        totalFunding: org.total_funding ? String(org.total_funding) : null,
-        lastFundingRound: org.latest_funding_stage || null,
-        lastFundingDate: org.latest_funding_round_date ? new Date(org.latest_funding_round_date) : null,
-        enrichedAt: new Date(),
-      };
-      company = await prisma.company.upsert({
-        where: { domain },
-        create: { domain, ...enrichData },
-        update: enrichData,
-      });
-      embedCompany(company.id, company).catch(err =>
-        console.error(`[embeddings] Auto-embed failed for ${domain}:`, err.message),
-      );
-      res.json({ company, source: 'apollo' });
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const enriched = await enrichCompanyByDomain(domain, userId).catch(() => null);
+    if (enriched) {
+      res.json({ company: enriched.company, source: 'provider', provider: enriched.provider });
       return;
     }
 
-    // Apollo has no data -- fallback to website scraping
+    // No provider has data -- fallback to website scraping
     if (process.env.APIFY_API_TOKEN) {
       const bareCompany = await prisma.company.upsert({
         where: { domain },
         create: { domain, name: domain },
         update: {},
       });
-      scrapeAndSummarizeCompany(bareCompany).catch(err =>
-        console.error(`[scraper] Fallback scrape failed for ${domain}:`, err.message),
+      queueCompanyScrape(bareCompany.id).catch(err =>
+        console.error(`[scraper] Failed to queue fallback scrape for ${domain}:`, err.message),
       );
     }
     res.json({ company: { domain, name: domain }, source: 'none' });
@@ -223,67 +231,12 @@ router.get('/company/:domain', async (req, res) => {
   }
 });
 
-// ─── Helper: enrich an un-enriched company via Apollo ─────────────────────────
+// ─── Helper: enrich an un-enriched company via the provider chain ───────────
 
-async function enrichCompanyIfNeeded(company: any, domain: string): Promise<any> {
+async function enrichCompanyIfNeeded(company: any, domain: string, userId: string): Promise<any> {
   if (company.enrichedAt) return company;
-  const org = await enrichOrganization(domain).catch(() => null);
-  if (!org || !org.name) return company;
-  const update: Record<string, any> = { enrichedAt: new Date() };
-  if (org.name) update.name = org.name;
-  if (org.estimated_num_employees) update.employeeCount = org.estimated_num_employees;
-  if (org.industry) update.industry = org.industry;
-  if (org.founded_year) update.foundedYear = org.founded_year;
-  if (org.linkedin_url) update.linkedinUrl = org.linkedin_url;
-  if (org.website_url) update.websiteUrl = org.website_url;
-  if (org.logo_url) update.logo = org.logo_url;
-  if (org.city) update.city = org.city;
-  if (org.state) update.state = org.state;
-  if (org.country) update.country = org.country;
-  if (org.short_description) update.description = org.short_description;
-  if (org.id) update.apolloId = org.id;
-  if (org.annual_revenue) update.annualRevenue = String(org.annual_revenue);
-  if (org.total_funding) update.totalFunding = String(org.total_funding);
-  if (org.latest_funding_stage) update.lastFundingRound = org.latest_funding_stage;
-  if (org.latest_funding_round_date) update.lastFundingDate = new Date(org.latest_funding_round_date);
-  const updated = await prisma.company.update({ where: { domain }, data: update });
-  embedCompany(updated.id, updated).catch(err =>
-    console.error(`[embeddings] Auto-embed failed for ${domain}:`, err.message),
-  );
-  return updated;
-}
-
-async function createEnrichedCompany(domain: string): Promise<any | null> {
-  const org = await enrichOrganization(domain).catch(() => null);
-  if (!org || !org.name) return null;
-  const enrichData = {
-    name: org.name,
-    industry: org.industry || null,
-    employeeCount: org.estimated_num_employees || null,
-    foundedYear: org.founded_year || null,
-    linkedinUrl: org.linkedin_url || null,
-    websiteUrl: org.website_url || null,
-    logo: org.logo_url || null,
-    city: org.city || null,
-    state: org.state || null,
-    country: org.country || null,
-    description: org.short_description || null,
-    apolloId: org.id || null,
-    annualRevenue: org.annual_revenue ? String(org.annual_revenue) : null,
-    totalFunding: org.total_funding ? String(org.total_funding) : null,
-    lastFundingRound: org.latest_funding_stage || null,
-    lastFundingDate: org.latest_funding_round_date ? new Date(org.latest_funding_round_date) : null,
-    enrichedAt: new Date(),
-  };
-  const company = await prisma.company.upsert({
-    where: { domain },
-    create: { domain, ...enrichData },
-    update: enrichData,
-  });
-  embedCompany(company.id, company).catch(err =>
-    console.error(`[embeddings] Auto-embed failed for ${domain}:`, err.message),
-  );
-  return company;
+  const enriched = await enrichCompanyByDomain(domain, userId, company).catch(() => null);
+  return enriched?.company ?? company;
 }
 
 // ─── Lookup contact by email (for manual add) ────────────────────────────────
@@ -311,10 +264,11 @@ router.post('/lookup-contact', async (req, res) => {
       return;
     }
 
-    // Enrich person via Apollo
-    const person = await matchPersonByEmail(normalizedEmail).catch(() => null);
+    // Enrich person via the provider chain
+    const match = await lookupPerson(normalizedEmail, userId, { type: 'contact' }).catch(() => null);
+    const person = match?.profile;
 
-    // Enrich company via Apollo (or find in DB)
+    // Enrich company via the provider chain (or find in DB)
     let companyData: Record<string, any> | null = null;
     const genericDomains = ['gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'icloud.com', 'mail.ru', 'yandex.ru', 'protonmail.com', 'live.com', 'aol.com'];
     const isGenericDomain = genericDomains.includes(domain);
@@ -323,11 +277,11 @@ router.post('/lookup-contact', async (req, res) => {
       let dbCompany = await prisma.company.findUnique({ where: { domain } });
 
       if (dbCompany) {
-        dbCompany = await enrichCompanyIfNeeded(dbCompany, domain);
+        dbCompany = await enrichCompanyIfNeeded(dbCompany, domain, userId);
         companyData = dbCompany;
       } else {
-        const created = await createEnrichedCompany(domain);
-        if (created) companyData = created;
+        const created = await enrichCompanyByDomain(domain, userId).catch(() => null);
+        if (created) companyData = created.company;
       }
     }
 
@@ -335,12 +289,12 @@ router.post('/lookup-contact', async (req, res) => {
       name: person.name || null,
       title: person.title || null,
       headline: person.headline || null,
-      linkedinUrl: person.linkedin_url || null,
-      photoUrl: person.photo_url || null,
+      linkedinUrl: person.linkedinUrl || null,
+      photoUrl: person.photoUrl || null,
       city: person.city || null,
       country: person.country || null,
-      company: person.organization?.name || null,
-      companyDomain: person.organization?.primary_domain || domain,
+      company: person.companyName || null,
+      companyDomain: person.companyDomain || domain,
     } : null;
 
     res.json({
@@ -348,7 +302,8 @@ router.post('/lookup-contact', async (req, res) => {
       company: companyData,
       email: normalizedEmail,
       domain: isGenericDomain ? null : domain,
-      source: person ? 'apollo' : (companyData ? 'partial' : 'none'),
+      source: person ? 'provider' : (companyData ? 'partial' : 'none'),
+      provider: match?.provider ?? null,
     });
   } catch (error: any) {
     console.error('Lookup contact error:', error.message);
@@ -386,20 +341,20 @@ router.post('/add-contact', async (req, res) => {
       return;
     }
 
-    // Find or create company — Company table is Apollo-only (shared data).
-    // User edits are stored on the Contact record, never on Company.
+    // Find or create company — Company table holds provider data only (shared).
+    // User corrections to a company are kept per user (services/overrides.ts), never on Company.
     let companyId: string | null = null;
     const domain = companyDomain?.trim().toLowerCase();
     if (domain) {
       const existing = await prisma.company.findUnique({ where: { domain } });
       if (existing) {
-        const enriched = await enrichCompanyIfNeeded(existing, domain);
+        const enriched = await enrichCompanyIfNeeded(existing, domain, userId);
         companyId = enriched.id;
       } else {
-        // Try to enrich from Apollo; fall back to bare record
-        const enriched = await createEnrichedCompany(domain);
+        // Try the provider chain; fall back to bare record
+        const enriched = await enrichCompanyByDomain(domain, userId).catch(() => null);
         if (enriched) {
-          companyId = enriched.id;
+          companyId = enriched.company.id;
         } else {
           const created = await prisma.company.upsert({
             where: { domain },
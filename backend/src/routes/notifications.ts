@@ -1,43 +1,178 @@
 import { Router } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { Prisma } from '@prisma/client';
+import { validate, schemas } from '../middleware/validation.js';
 import prisma from '../lib/prisma.js';
+import { getCursorParams, createCursorResponse } from '../lib/pagination.js';
+import {
+  NOTIFICATION_VIEWS,
+  openStream,
+  formatStreamEvent,
+  publishUnreadCount,
+  inboxWhere,
+  notificationListWhere,
+  groupNotifications,
+  type NotificationView,
+} from '../services/notifications.js';
+import {
+  NOTIFICATION_TYPES,
+  defaultDelivery,
+  resolveDelivery,
+  validateNotificationPreferences,
+  type NotificationType,
+} from '../services/notificationTypes.js';
+
+// Browsers reconnect after this long when the stream drops
+const STREAM_RETRY_MS = 5000;
+// Comment lines keep proxies from closing an idle stream
+const STREAM_HEARTBEAT_MS = 25000;
+// Snoozing further out than this is what archive is for
+const MAX_SNOOZE_MS = 90 * 24 * 60 * 60 * 1000;
 
 const router = Router();
 
 // All routes require authentication
 router.use(authMiddleware);
 
-// Get notifications for current user
+// Get a page of notifications for current user, newest first.
+// ?view=inbox|snoozed|archived, ?type=a,b, ?spaceId=, ?unreadOnly=true,
+// ?group=false for a flat list, and ?cursor= from the previous page.
 router.get('/', async (req, res) => {
   try {
     const userId = (req as AuthenticatedRequest).user!.id;
-    const { unreadOnly } = req.query;
+    const { view = 'inbox', type, spaceId, unreadOnly, group } = req.query;
+
+    if (typeof view !== 'string' || !NOTIFICATION_VIEWS.includes(view as NotificationView)) {
+      res.status(400).json({ error: `view must be one of ${NOTIFICATION_VIEWS.join(', ')}` });
+      return;
+    }
+    const params = getCursorParams(req, 30, 100);
+    if (!params) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
 
-    const where: Record<string, unknown> = { userId };
-    if (unreadOnly === 'true') {
-      where.isRead = false;
+    const where = notificationListWhere(userId, {
+      view: view as NotificationView,
+      types: typeof type === 'string' && type ? type.split(',') : undefined,
+      spaceId: typeof spaceId === 'string' && spaceId ? spaceId : undefined,
+      unreadOnly: unreadOnly === 'true',
+    });
+    if (params.cursor) {
+      const { sortAt, id } = params.cursor;
+      where.OR = [{ sortAt: { lt: sortAt } }, { sortAt, id: { lt: id } }];
     }
 
-    const notifications = await prisma.notification.findMany({
+    const rows = await prisma.notification.findMany({
       where,
-      orderBy: { createdAt: 'desc' },
-      take: 50,
+      orderBy: [{ sortAt: 'desc' }, { id: 'desc' }],
+      take: params.limit + 1,
     });
+    const page = createCursorResponse(rows, params);
 
-    res.json(notifications);
+    res.json({
+      items: group === 'false'
+        ? page.data.map(notification => ({ kind: 'single' as const, notification }))
+        : groupNotifications(page.data),
+      pagination: page.pagination,
+    });
   } catch (error: unknown) {
     console.error('Error fetching notifications:', error);
     res.status(500).json({ error: 'Failed to fetch notifications' });
   }
 });
 
+// Live notifications and events over Server-Sent Events. Reconnecting
+// clients send Last-Event-ID (EventSource does this itself) to resume; a
+// client opening a fresh connection can pass it as ?lastEventId instead.
+router.get('/stream', (req, res) => {
+  const userId = (req as AuthenticatedRequest).user!.id;
+  const lastEventId = req.get('Last-Event-ID')
+    || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+  const unsubscribe = openStream(userId, lastEventId, {
+    send: event => res.write(formatStreamEvent(event)),
+    close: () => res.end(),
+  });
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Every notification type with the user's delivery choice for it
+async function preferencesResponse(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { notificationPreferences: true },
+  });
+  return (Object.keys(NOTIFICATION_TYPES) as NotificationType[]).map(type => ({
+    type,
+    category: NOTIFICATION_TYPES[type].category,
+    label: NOTIFICATION_TYPES[type].label,
+    urgent: NOTIFICATION_TYPES[type].urgent,
+    defaultDelivery: defaultDelivery(type),
+    delivery: resolveDelivery(user?.notificationPreferences, type),
+  }));
+}
+
+router.get('/preferences', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    res.json(await preferencesResponse(userId));
+  } catch (error: unknown) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// Change delivery for some types; the rest keep their current setting
+router.patch('/preferences', validate(schemas.updateNotificationPreferences), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { preferences } = req.body as { preferences: Record<string, string> };
+
+    const preferencesError = validateNotificationPreferences(preferences);
+    if (preferencesError) {
+      res.status(400).json({ error: preferencesError });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { notificationPreferences: true },
+    });
+    const current = (user?.notificationPreferences as Record<string, string>) || {};
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { notificationPreferences: { ...current, ...preferences } as Prisma.InputJsonObject },
+    });
+
+    res.json(await preferencesResponse(userId));
+  } catch (error: unknown) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
 // Get unread count
 router.get('/unread-count', async (req, res) => {
   try {
     const userId = (req as AuthenticatedRequest).user!.id;
 
     const count = await prisma.notification.count({
-      where: { userId, isRead: false },
+      where: { ...inboxWhere(userId), isRead: false },
     });
 
     res.json({ count });
@@ -66,6 +201,7 @@ router.patch('/:id/read', async (req, res) => {
       data: { isRead: true },
     });
 
+    publishUnreadCount(userId).catch(() => {});
     res.json(updated);
   } catch (error: unknown) {
     console.error('Error marking notification as read:', error);
@@ -73,16 +209,103 @@ router.patch('/:id/read', async (req, res) => {
   }
 });
 
+// Bulk actions take { ids }; ids the user doesn't own are ignored
+function updateOwned(userId: string, ids: string[], data: Prisma.NotificationUpdateManyMutationInput) {
+  return prisma.notification.updateMany({ where: { id: { in: ids }, userId }, data });
+}
+
+router.post('/read', validate(schemas.notificationIds), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { count } = await updateOwned(userId, req.body.ids, { isRead: true });
+    publishUnreadCount(userId).catch(() => {});
+    res.json({ updated: count });
+  } catch (error: unknown) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+// Archiving also ends any snooze
+router.post('/archive', validate(schemas.notificationIds), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { count } = await updateOwned(userId, req.body.ids, { archivedAt: new Date(), snoozedUntil: null });
+    publishUnreadCount(userId).catch(() => {});
+    res.json({ updated: count });
+  } catch (error: unknown) {
+    console.error('Error archiving notifications:', error);
+    res.status(500).json({ error: 'Failed to archive notifications' });
+  }
+});
+
+router.post('/unarchive', validate(schemas.notificationIds), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { count } = await updateOwned(userId, req.body.ids, { archivedAt: null });
+    publishUnreadCount(userId).catch(() => {});
+    res.json({ updated: count });
+  } catch (error: unknown) {
+    console.error('Error unarchiving notifications:', error);
+    res.status(500).json({ error: 'Failed to unarchive notifications' });
+  }
+});
+
+// Hide until `until`, then come back at the top of the inbox
+router.post('/snooze', validate(schemas.snoozeNotifications), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const until = new Date(req.body.until);
+    const ahead = until.getTime() - Date.now();
+
+    if (ahead <= 0) {
+      res.status(400).json({ error: 'Snooze time must be in the future' });
+      return;
+    }
+    if (ahead > MAX_SNOOZE_MS) {
+      res.status(400).json({ error: 'Notifications can be snoozed for at most 90 days' });
+      return;
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: { id: { in: req.body.ids }, userId, archivedAt: null },
+      data: { snoozedUntil: until, sortAt: until },
+    });
+    publishUnreadCount(userId).catch(() => {});
+    res.json({ updated: count });
+  } catch (error: unknown) {
+    console.error('Error snoozing notifications:', error);
+    res.status(500).json({ error: 'Failed to snooze notifications' });
+  }
+});
+
+// Bring snoozed notifications back now
+router.post('/unsnooze', validate(schemas.notificationIds), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { count } = await prisma.notification.updateMany({
+      where: { id: { in: req.body.ids }, userId, snoozedUntil: { not: null } },
+      data: { snoozedUntil: null, sortAt: new Date() },
+    });
+    publishUnreadCount(userId).catch(() => {});
+    res.json({ updated: count });
+  } catch (error: unknown) {
+    console.error('Error unsnoozing notifications:', error);
+    res.status(500).json({ error: 'Failed to unsnooze notifications' });
+  }
+});
+
 // Mark all notifications as read
 router.post('/mark-all-read', async (req, res) => {
   try {
     const userId = (req as AuthenticatedRequest).user!.id;
 
     await prisma.notification.updateMany({
-      where: { userId, isRead: false },
+      where: { ...inboxWhere(userId), isRead: false },
       data: { isRead: true },
     });
 
+    publishUnreadCount(userId).catch(() => {});
     res.json({ success: true });
   } catch (error: unknown) {
     console.error('Error marking all notifications as read:', error);
@@ -105,6 +328,7 @@ router.delete('/:id', async (req, res) => {
     }
 
     await prisma.notification.delete({ where: { id: req.params.id } });
+    publishUnreadCount(userId).catch(() => {});
     res.json({ success: true });
   } catch (error: unknown) {
     console.error('Error deleting notification:', error);
@@ -118,6 +342,7 @@ router.delete('/', async (req, res) => {
     const userId = (req as AuthenticatedRequest).user!.id;
 
     await prisma.notification.deleteMany({ where: { userId } });
+    publishUnreadCount(userId).catch(() => {});
     res.json({ success: true });
   } catch (error: unknown) {
     console.error('Error clearing notifications:', error);
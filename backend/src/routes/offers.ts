@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { validate, schemas } from '../middleware/validation.js';
-import { sendNotificationEmail } from '../services/email.js';
+import { notify } from '../services/notifications.js';
+import { isActiveStatus, transitionError, transitionIntroRequest } from '../services/introRequestLifecycle.js';
 import prisma from '../lib/prisma.js';
 
 const router = Router();
@@ -48,7 +49,7 @@ router.post('/', authMiddleware, validate(schemas.createOffer), async (req, res)
       return;
     }
 
-    if (request.status !== 'open') {
+    if (!isActiveStatus(request.status)) {
       res.status(400).json({ error: 'Request is no longer open' });
       return;
     }
@@ -128,27 +129,25 @@ router.post('/', authMiddleware, validate(schemas.createOffer), async (req, res)
         connPeerName = peer?.name || null;
       }
 
-      const offerNotif = { type: 'intro_offered', title: `Intro offered: ${companyName}`, body: `${introducerName} offered to introduce you to someone at ${companyName}.` };
-      await prisma.notification.create({
+      await notify({
+        userId: request.requesterId,
+        type: 'intro_offered',
+        title: `Intro offered: ${companyName}`,
+        body: `${introducerName} offered to introduce you to someone at ${companyName}.`,
         data: {
-          userId: request.requesterId,
-          ...offerNotif,
-          data: {
-            requestId,
-            offerId: offer.id,
-            spaceId: spaceId || null,
-            spaceName,
-            spaceEmoji,
-            companyName,
-            companyDomain: (nq?.companyDomain as string) || null,
-            introducerId: userId,
-            introducerName,
-            connectionPeerId: connPeerId,
-            connectionPeerName: connPeerName,
-          },
+          requestId,
+          offerId: offer.id,
+          spaceId: spaceId || null,
+          spaceName,
+          spaceEmoji,
+          companyName,
+          companyDomain: (nq?.companyDomain as string) || null,
+          introducerId: userId,
+          introducerName,
+          connectionPeerId: connPeerId,
+          connectionPeerName: connPeerName,
         },
       });
-      sendNotificationEmail(request.requesterId, offerNotif).catch(() => {});
     } catch (notifError) {
       console.error('Failed to create intro_offered notification:', notifError);
     }
@@ -185,7 +184,21 @@ router.patch('/:id/status', authMiddleware, validate(schemas.updateOfferStatus),
 
     // If accepting, use a transaction to update all related records atomically
     if (status === 'accepted') {
+      const acceptErr = transitionError(offer.request, 'accept', 'requester');
+      if (acceptErr) {
+        res.status(400).json({ error: acceptErr });
+        return;
+      }
+
       const result = await prisma.$transaction(async (tx) => {
+        // Update request status
+        const moved = await transitionIntroRequest(tx, offer.request, 'accept', {
+          actorId: userId,
+          actor: 'requester',
+          payload: { offerId: offer.id, introducerId: offer.introducerId },
+        });
+        if (!moved) return null;
+
         // Update the offer
         const updatedOffer = await tx.introOffer.update({
           where: { id: req.params.id },
@@ -197,12 +210,6 @@ router.patch('/:id/status', authMiddleware, validate(schemas.updateOfferStatus),
           },
         });
 
-        // Update request status
-        await tx.introRequest.update({
-          where: { id: offer.requestId },
-          data: { status: 'accepted' },
-        });
-
         // Reject other pending offers
         await tx.introOffer.updateMany({
           where: {
@@ -216,6 +223,11 @@ router.patch('/:id/status', authMiddleware, validate(schemas.updateOfferStatus),
         return updatedOffer;
       });
 
+      if (!result) {
+        res.status(409).json({ error: 'Request was updated by someone else. Refresh and try again.' });
+        return;
+      }
+
       res.json(result);
       return;
     }
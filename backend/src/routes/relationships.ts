@@ -1,10 +1,60 @@
 import { Router } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { validate, schemas } from '../middleware/validation.js';
 import { getPaginationParams, createPaginatedResponse } from '../lib/pagination.js';
+import { getMeetingTimeline } from '../services/relationships.js';
+import { findWarmPaths } from '../services/paths.js';
+import {
+  computeCompanyStrength,
+  computeStrength,
+  getSpaceStrengthConfig,
+  recomputeRelationships,
+  strengthLabel,
+  toStrengthBreakdown,
+} from '../services/strength.js';
+import {
+  setContactOverrides,
+  setCompanyOverrides,
+  applyCompanyOverrides,
+  contactOverrideInfo,
+  type OverrideChanges,
+  type ContactOverrideField,
+  type CompanyOverrideField,
+} from '../services/overrides.js';
+import { normalizeCompanyName } from '../services/calendar.js';
+import { queueContactEmbedding } from './embeddings.js';
 import prisma from '../lib/prisma.js';
 
 const router = Router();
 
+type ContactWithOverrides = {
+  company: { id: string } | null;
+  overrides: { field: string; original: unknown; updatedAt: Date }[];
+};
+
+// The user's company corrections applied, and override rows turned into the `overrides` map
+async function withOverrides<T extends ContactWithOverrides>(userId: string, contacts: T[]) {
+  const companies = await applyCompanyOverrides(userId, contacts.flatMap(c => (c.company ? [c.company] : [])));
+  const companyById = new Map(companies.map(c => [c.id, c]));
+  return contacts.map(c => ({
+    ...c,
+    company: c.company ? companyById.get(c.company.id)! : null,
+    overrides: contactOverrideInfo(c.overrides),
+  }));
+}
+
+// Recompute strength for companies a contact moved between, dropping any left without contacts
+async function refreshRelationships(userId: string, companyIds: (string | null)[]): Promise<void> {
+  const ids = companyIds.filter((id): id is string => !!id);
+  await recomputeRelationships(userId, ids);
+  for (const companyId of ids) {
+    const remaining = await prisma.contact.count({ where: { userId, companyId, isApproved: true } });
+    if (remaining === 0) {
+      await prisma.relationship.deleteMany({ where: { userId, companyId } });
+    }
+  }
+}
+
 // Get all relationships (community-wide for matching)
 router.get('/', authMiddleware, async (req, res) => {
   try {
@@ -20,7 +70,8 @@ router.get('/', authMiddleware, async (req, res) => {
       orderBy: { strengthScore: 'desc' },
     });
 
-    res.json(relationships);
+    // The breakdown explains someone else's meetings; only the owner sees it (/mine)
+    res.json(relationships.map(({ strengthBreakdown: _breakdown, ...r }) => r));
   } catch (error: unknown) {
     res.status(500).json({ error: 'Failed to fetch relationships' });
   }
@@ -39,7 +90,8 @@ router.get('/mine', authMiddleware, async (req, res) => {
       orderBy: { strengthScore: 'desc' },
     });
 
-    res.json(relationships);
+    const companies = await applyCompanyOverrides(userId, relationships.map(r => r.company));
+    res.json(relationships.map((r, i) => ({ ...r, company: companies[i] })));
   } catch (error: unknown) {
     res.status(500).json({ error: 'Failed to fetch relationships' });
   }
@@ -48,6 +100,7 @@ router.get('/mine', authMiddleware, async (req, res) => {
 // Get companies (for the reach view) - with pagination
 router.get('/companies', authMiddleware, async (req, res) => {
   try {
+    const userId = (req as AuthenticatedRequest).user!.id;
     const pagination = getPaginationParams(req, 50);
     const { search, industry } = req.query;
     
@@ -77,7 +130,7 @@ router.get('/companies', authMiddleware, async (req, res) => {
       prisma.company.count({ where }),
     ]);
 
-    res.json(createPaginatedResponse(companies, total, pagination));
+    res.json(createPaginatedResponse(await applyCompanyOverrides(userId, companies), total, pagination));
   } catch (error: unknown) {
     res.status(500).json({ error: 'Failed to fetch companies' });
   }
@@ -112,12 +165,16 @@ router.get('/contacts', authMiddleware, async (req, res) => {
         include: {
           company: true,
           meetings: {
+            where: { date: { lte: new Date() } },
             orderBy: { date: 'desc' },
             take: 5,
           },
           sourceAccounts: {
             select: { id: true, email: true },
           },
+          overrides: {
+            select: { field: true, original: true, updatedAt: true },
+          },
         },
         orderBy: { lastSeenAt: 'desc' },
         skip: pagination.skip,
@@ -137,11 +194,42 @@ router.get('/contacts', authMiddleware, async (req, res) => {
       : [];
     const firstSeenMap = new Map(firstMeetings.map(fm => [fm.contactId, fm._min.date]));
 
-    const enrichedContacts = contacts.map(c => ({
-      ...c,
-      firstSeenAt: firstSeenMap.get(c.id) || c.lastSeenAt,
-      sourceAccountEmails: c.sourceAccounts.map(sa => sa.email),
-    }));
+    // Strength of each contact, and of the user's relationship with each company
+    // (stored by recomputeRelationships), so the client never scores on its own
+    const companyIds = Array.from(new Set(contacts.flatMap(c => (c.companyId ? [c.companyId] : []))));
+    const [pastMeetings, relationships] = contactIds.length > 0
+      ? await Promise.all([
+          prisma.meeting.findMany({
+            where: { contactId: { in: contactIds }, date: { lte: new Date() } },
+            select: { contactId: true, googleEventId: true, date: true, duration: true, attendeeCount: true, organizedByUser: true },
+          }),
+          prisma.relationship.findMany({
+            where: { userId, companyId: { in: companyIds } },
+            select: { companyId: true, strengthScore: true },
+          }),
+        ])
+      : [[], []];
+    const meetingsByContact = new Map<string, typeof pastMeetings>();
+    for (const m of pastMeetings) {
+      const list = meetingsByContact.get(m.contactId) || [];
+      list.push(m);
+      meetingsByContact.set(m.contactId, list);
+    }
+    const relationshipScores = new Map(relationships.map(r => [r.companyId, r.strengthScore]));
+
+    const enrichedContacts = (await withOverrides(userId, contacts)).map(c => {
+      const strength = computeStrength(meetingsByContact.get(c.id) || []);
+      const companyScore = c.company ? relationshipScores.get(c.company.id) ?? null : null;
+      return {
+        ...c,
+        company: c.company && { ...c.company, strengthScore: companyScore, strength: strengthLabel(companyScore) },
+        firstSeenAt: firstSeenMap.get(c.id) || c.lastSeenAt,
+        sourceAccountEmails: c.sourceAccounts.map(sa => sa.email),
+        strengthScore: strength.score,
+        strength: strength.label,
+        strengthBreakdown: toStrengthBreakdown(strength),
+      };
+    });
 
     res.json(createPaginatedResponse(enrichedContacts, total, pagination));
   } catch (error: unknown) {
@@ -149,6 +237,230 @@ router.get('/contacts', authMiddleware, async (req, res) => {
   }
 });
 
+// Correct fields of your contact; null reverts a field to the provider/synced value
+router.patch('/contacts/:contactId', authMiddleware, validate(schemas.updateContact), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { contactId } = req.params;
+    const { companyDomain, ...fields } = req.body as Partial<Record<ContactOverrideField | 'companyDomain', string | null>>;
+
+    const contact = await prisma.contact.findUnique({
+      where: { id: contactId },
+      select: { id: true, userId: true, companyId: true },
+    });
+
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+    if (contact.userId !== userId) {
+      res.status(403).json({ error: 'Not your contact' });
+      return;
+    }
+
+    const changes: OverrideChanges<ContactOverrideField> = {};
+    for (const field of ['name', 'title', 'headline', 'city', 'state', 'country'] as const) {
+      const value = fields[field];
+      if (value !== undefined) changes[field] = value === null ? null : value.trim();
+    }
+    if (companyDomain === null) {
+      changes.companyId = null;
+    } else if (companyDomain !== undefined) {
+      const domain = companyDomain.trim().toLowerCase();
+      const company = await prisma.company.upsert({
+        where: { domain },
+        create: { domain, name: normalizeCompanyName(domain) },
+        update: {},
+        select: { id: true },
+      });
+      changes.companyId = company.id;
+    }
+
+    await setContactOverrides(contactId, changes);
+    queueContactEmbedding(contactId).catch(err =>
+      console.error(`[embeddings] Failed to queue embedding for contact ${contactId}:`, err.message),
+    );
+
+    const updated = await prisma.contact.findUniqueOrThrow({
+      where: { id: contactId },
+      include: {
+        company: true,
+        overrides: { select: { field: true, original: true, updatedAt: true } },
+      },
+    });
+    if (updated.companyId !== contact.companyId) {
+      await refreshRelationships(userId, [contact.companyId, updated.companyId]);
+    }
+
+    const [result] = await withOverrides(userId, [updated]);
+    res.json({ contact: result });
+  } catch (error: unknown) {
+    console.error('Error updating contact:', error);
+    res.status(500).json({ error: 'Failed to update contact' });
+  }
+});
+
+// Correct fields of a company for yourself only (companies are shared); null reverts a field
+router.patch('/companies/:domain', authMiddleware, validate(schemas.updateCompany), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const domain = req.params.domain.toLowerCase();
+    const body = req.body as OverrideChanges<CompanyOverrideField>;
+
+    const company = await prisma.company.findUnique({ where: { domain } });
+    if (!company) {
+      res.status(404).json({ error: 'Company not found' });
+      return;
+    }
+
+    const changes: OverrideChanges<CompanyOverrideField> = {};
+    for (const [field, value] of Object.entries(body) as [CompanyOverrideField, string | number | null | undefined][]) {
+      if (value !== undefined) changes[field] = typeof value === 'string' ? value.trim() : value;
+    }
+    await setCompanyOverrides(userId, company.id, changes);
+
+    const [result] = await applyCompanyOverrides(userId, [company]);
+    res.json({ company: result });
+  } catch (error: unknown) {
+    console.error('Error updating company:', error);
+    res.status(500).json({ error: 'Failed to update company' });
+  }
+});
+
+// Full meeting history with a contact - with pagination
+router.get('/contacts/:contactId/meetings', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { contactId } = req.params;
+    const pagination = getPaginationParams(req, 20, 100);
+
+    const contact = await prisma.contact.findUnique({
+      where: { id: contactId },
+      select: { id: true, userId: true },
+    });
+
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+    if (contact.userId !== userId) {
+      res.status(403).json({ error: 'Not your contact' });
+      return;
+    }
+
+    const { entries, total } = await getMeetingTimeline(userId, { contactId }, pagination);
+
+    // Attendees here are the *other* contacts who were in the same meeting
+    const meetings = entries.map(e => ({
+      ...e,
+      attendees: e.attendees.filter(a => a.contactId !== contactId),
+    }));
+
+    res.json(createPaginatedResponse(meetings, total, pagination));
+  } catch (error: unknown) {
+    console.error('Error fetching contact meetings:', error);
+    res.status(500).json({ error: 'Failed to fetch meetings' });
+  }
+});
+
+// Full meeting history with anyone at a company (by domain) - with pagination
+router.get('/companies/:domain/meetings', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const domain = req.params.domain.toLowerCase();
+    const pagination = getPaginationParams(req, 20, 100);
+
+    const company = await prisma.company.findUnique({
+      where: { domain },
+      select: { id: true },
+    });
+
+    if (!company) {
+      res.json(createPaginatedResponse([], 0, pagination));
+      return;
+    }
+
+    const { entries, total } = await getMeetingTimeline(userId, { companyId: company.id }, pagination);
+    res.json(createPaginatedResponse(entries, total, pagination));
+  } catch (error: unknown) {
+    console.error('Error fetching company meetings:', error);
+    res.status(500).json({ error: 'Failed to fetch meetings' });
+  }
+});
+
+// Explain the user's relationship strength with a company. With ?spaceId the
+// score is recomputed using that space's strength model.
+router.get('/companies/:domain/strength', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const domain = req.params.domain.toLowerCase();
+    const spaceId = typeof req.query.spaceId === 'string' ? req.query.spaceId : undefined;
+
+    const company = await prisma.company.findUnique({
+      where: { domain },
+      select: { id: true, name: true, domain: true },
+    });
+
+    if (!company) {
+      res.status(404).json({ error: 'Company not found' });
+      return;
+    }
+
+    if (spaceId) {
+      const space = await prisma.space.findFirst({
+        where: {
+          id: spaceId,
+          OR: [
+            { ownerId: userId },
+            { members: { some: { userId, status: 'approved' } } },
+          ],
+        },
+        select: { id: true },
+      });
+      if (!space) {
+        res.status(404).json({ error: 'Space not found' });
+        return;
+      }
+    }
+
+    const config = spaceId ? await getSpaceStrengthConfig(spaceId) : undefined;
+    const result = await computeCompanyStrength(userId, company.id, config);
+
+    res.json({
+      company,
+      spaceId: spaceId || null,
+      strengthScore: result.score,
+      strength: result.label,
+      breakdown: toStrengthBreakdown(result),
+    });
+  } catch (error: unknown) {
+    console.error('Error explaining relationship strength:', error);
+    res.status(500).json({ error: 'Failed to compute relationship strength' });
+  }
+});
+
+// Warm paths to a company (?domain) or person (?email): the user's own contacts
+// first, then contacts of their connections and space co-members
+router.get('/paths', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const domain = typeof req.query.domain === 'string' ? req.query.domain : undefined;
+    const email = typeof req.query.email === 'string' ? req.query.email : undefined;
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    if (!domain && !email) {
+      res.status(400).json({ error: 'domain or email is required' });
+      return;
+    }
+
+    const paths = await findWarmPaths(userId, { domain, email });
+    res.json({ total: paths.length, paths: paths.slice(0, limit) });
+  } catch (error: unknown) {
+    console.error('Error finding warm paths:', error);
+    res.status(500).json({ error: 'Failed to find paths' });
+  }
+});
+
 // Approve contacts (add to network)
 router.post('/contacts/approve', authMiddleware, async (req, res) => {
   try {
@@ -169,7 +481,7 @@ router.post('/contacts/approve', authMiddleware, async (req, res) => {
       data: { isApproved: true },
     });
 
-    // Get approved contacts with companies
+    // Recompute strength for every company the approved contacts work at
     const approvedContacts = await prisma.contact.findMany({
       where: {
         id: { in: contactIds },
@@ -177,59 +489,11 @@ router.post('/contacts/approve', authMiddleware, async (req, res) => {
         isApproved: true,
         companyId: { not: null },
       },
-      select: {
-        companyId: true,
-        meetingsCount: true,
-        lastSeenAt: true,
-      },
+      select: { companyId: true },
     });
+    const relationshipsCreated = await recomputeRelationships(userId, approvedContacts.map(c => c.companyId!));
 
-    // Aggregate by company and create/update relationships
-    const companyData = new Map<string, { meetingsCount: number; lastSeenAt: Date }>();
-    for (const contact of approvedContacts) {
-      if (!contact.companyId) continue;
-      const existing = companyData.get(contact.companyId);
-      if (existing) {
-        existing.meetingsCount += contact.meetingsCount;
-        if (contact.lastSeenAt > existing.lastSeenAt) {
-          existing.lastSeenAt = contact.lastSeenAt;
-        }
-      } else {
-        companyData.set(contact.companyId, {
-          meetingsCount: contact.meetingsCount,
-          lastSeenAt: contact.lastSeenAt,
-        });
-      }
-    }
-
-    // Upsert relationships
-    const now = new Date();
-    for (const [companyId, data] of companyData) {
-      const daysSinceLast = Math.max(0, (now.getTime() - data.lastSeenAt.getTime()) / (1000 * 60 * 60 * 24));
-      const recencyScore = Math.max(0, 1 - daysSinceLast / 365);
-      const frequencyScore = Math.min(1, data.meetingsCount / 20);
-      const strengthScore = (recencyScore * 0.6 + frequencyScore * 0.4) * 100;
-
-      await prisma.relationship.upsert({
-        where: {
-          userId_companyId: { userId, companyId },
-        },
-        update: {
-          meetingsCount: data.meetingsCount,
-          lastSeenAt: data.lastSeenAt,
-          strengthScore,
-        },
-        create: {
-          userId,
-          companyId,
-          meetingsCount: data.meetingsCount,
-          lastSeenAt: data.lastSeenAt,
-          strengthScore,
-        },
-      });
-    }
-
-    res.json({ approved: contactIds.length, relationshipsCreated: companyData.size });
+    res.json({ approved: contactIds.length, relationshipsCreated });
   } catch (error: unknown) {
     console.error('Error approving contacts:', error);
     res.status(500).json({ error: 'Failed to approve contacts' });
@@ -260,66 +524,17 @@ router.post('/contacts/approve-all', authMiddleware, async (req, res) => {
       data: { isApproved: true },
     });
 
-    // Get approved contacts with companies
     const approvedContacts = await prisma.contact.findMany({
       where: {
         id: { in: contactIds },
         userId,
         companyId: { not: null },
       },
-      select: {
-        companyId: true,
-        meetingsCount: true,
-        lastSeenAt: true,
-      },
+      select: { companyId: true },
     });
+    const relationshipsCreated = await recomputeRelationships(userId, approvedContacts.map(c => c.companyId!));
 
-    // Aggregate by company
-    const companyData = new Map<string, { meetingsCount: number; lastSeenAt: Date }>();
-    for (const contact of approvedContacts) {
-      if (!contact.companyId) continue;
-      const existing = companyData.get(contact.companyId);
-      if (existing) {
-        existing.meetingsCount += contact.meetingsCount;
-        if (contact.lastSeenAt > existing.lastSeenAt) {
-          existing.lastSeenAt = contact.lastSeenAt;
-        }
-      } else {
-        companyData.set(contact.companyId, {
-          meetingsCount: contact.meetingsCount,
-          lastSeenAt: contact.lastSeenAt,
-        });
-      }
-    }
-
-    // Upsert relationships
-    const now = new Date();
-    for (const [companyId, data] of companyData) {
-      const daysSinceLast = Math.max(0, (now.getTime() - data.lastSeenAt.getTime()) / (1000 * 60 * 60 * 24));
-      const recencyScore = Math.max(0, 1 - daysSinceLast / 365);
-      const frequencyScore = Math.min(1, data.meetingsCount / 20);
-      const strengthScore = (recencyScore * 0.6 + frequencyScore * 0.4) * 100;
-
-      await prisma.relationship.upsert({
-        where: {
-          userId_companyId: { userId, companyId },
-        },
-        update: {
-          meetingsCount: data.meetingsCount,
-          lastSeenAt: data.lastSeenAt,
-          strengthScore,
-        },
-        create: {
-          userId,
-          companyId,
-          meetingsCount: data.meetingsCount,
-          lastSeenAt: data.lastSeenAt,
-          strengthScore,
-        },
-      });
-    }
-
-    res.json({ approved: contactIds.length, relationshipsCreated: companyData.size });
+    res.json({ approved: contactIds.length, relationshipsCreated });
   } catch (error: unknown) {
     console.error('Error approving all contacts:', error);
     res.status(500).json({ error: 'Failed to approve contacts' });
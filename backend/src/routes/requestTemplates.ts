@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { validate, schemas } from '../middleware/validation.js';
+import { TEMPLATE_FIELDS, listUsableTemplates, canManageTemplate } from '../services/requestTemplates.js';
+import prisma from '../lib/prisma.js';
+
+const router = Router();
+
+// Only the template fields present in the body; empty strings clear a field
+function pickTemplateFields(body: Record<string, unknown>): Record<string, string | null> {
+  const data: Record<string, string | null> = {};
+  for (const key of TEMPLATE_FIELDS) {
+    if (body[key] === undefined) continue;
+    const value = typeof body[key] === 'string' ? (body[key] as string).trim() : '';
+    data[key] = value || null;
+  }
+  return data;
+}
+
+// List templates the user can apply (personal + their spaces'). ?spaceId narrows shared ones to that space.
+router.get('/', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const spaceId = typeof req.query.spaceId === 'string' ? req.query.spaceId : undefined;
+
+    const templates = await listUsableTemplates(userId, spaceId);
+
+    res.json(await Promise.all(templates.map(async t => ({
+      ...t,
+      canEdit: await canManageTemplate(userId, t),
+    }))));
+  } catch (error: unknown) {
+    console.error('Get request templates error:', error);
+    res.status(500).json({ error: 'Failed to get request templates' });
+  }
+});
+
+// Create a personal template, or a space template (space owner only)
+router.post('/', authMiddleware, validate(schemas.createRequestTemplate), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { name, spaceId } = req.body;
+
+    if (spaceId) {
+      const space = await prisma.space.findFirst({ where: { id: spaceId, ownerId: userId }, select: { id: true } });
+      if (!space) {
+        res.status(403).json({ error: 'Only the space owner can add space templates' });
+        return;
+      }
+    }
+
+    const template = await prisma.introRequestTemplate.create({
+      data: {
+        userId,
+        spaceId: spaceId || null,
+        name: name.trim(),
+        ...pickTemplateFields(req.body),
+      },
+      include: { space: { select: { id: true, name: true, emoji: true } } },
+    });
+
+    res.status(201).json({ ...template, canEdit: true });
+  } catch (error: unknown) {
+    console.error('Create request template error:', error);
+    res.status(500).json({ error: 'Failed to create request template' });
+  }
+});
+
+// Update a template
+router.patch('/:id', authMiddleware, validate(schemas.updateRequestTemplate), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const existing = await prisma.introRequestTemplate.findUnique({ where: { id: req.params.id } });
+    if (!existing || !(await canManageTemplate(userId, existing))) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const template = await prisma.introRequestTemplate.update({
+      where: { id: existing.id },
+      data: {
+        ...(req.body.name !== undefined ? { name: req.body.name.trim() } : {}),
+        ...pickTemplateFields(req.body),
+      },
+      include: { space: { select: { id: true, name: true, emoji: true } } },
+    });
+
+    res.json({ ...template, canEdit: true });
+  } catch (error: unknown) {
+    console.error('Update request template error:', error);
+    res.status(500).json({ error: 'Failed to update request template' });
+  }
+});
+
+// Delete a template (requests created from it keep their copied fields)
+router.delete('/:id', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const existing = await prisma.introRequestTemplate.findUnique({ where: { id: req.params.id } });
+    if (!existing || !(await canManageTemplate(userId, existing))) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    await prisma.introRequestTemplate.delete({ where: { id: existing.id } });
+
+    res.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Delete request template error:', error);
+    res.status(500).json({ error: 'Failed to delete request template' });
+  }
+});
+
+export default router;
@@ -2,12 +2,46 @@ import { Router } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { validate, schemas } from '../middleware/validation.js';
 import { getPaginationParams, createPaginatedResponse } from '../lib/pagination.js';
-import { sendNotificationEmail } from '../services/email.js';
-import { notifyConnectors } from '../lib/notifyConnectors.js';
+import { notify } from '../services/notifications.js';
+import { emitWebhookEvent, requestWebhookData } from '../services/webhooks.js';
+import { notifyConnectors, INITIAL_CONNECTOR_FANOUT } from '../lib/notifyConnectors.js';
+import {
+  transitionIntroRequest,
+  transitionError,
+  recordIntroRequestEvent,
+  type IntroRequestAction,
+} from '../services/introRequestLifecycle.js';
+import { rankIntroducers } from '../services/introducers.js';
+import { composeForwardableBlurb, findUsableTemplate, type RequestDetails } from '../services/requestTemplates.js';
 import prisma from '../lib/prisma.js';
 
 const router = Router();
 
+function abbreviateName(fullName: string): string {
+  const parts = fullName.trim().split(/\s+/);
+  if (parts.length <= 1) return fullName;
+  return `${parts[0]} ${parts[parts.length - 1][0]}.`;
+}
+
+// Requester, approved member of the request's space, or the targeted connection peer
+async function canViewRequest(
+  request: { requesterId: string; spaceId: string | null; normalizedQuery: unknown },
+  userId: string,
+): Promise<boolean> {
+  if (request.requesterId === userId) return true;
+
+  const nq = (request.normalizedQuery as Record<string, unknown>) || {};
+  if (nq.connectionPeerId === userId) return true;
+
+  if (request.spaceId) {
+    const membership = await prisma.spaceMember.findUnique({
+      where: { spaceId_userId: { spaceId: request.spaceId, userId } },
+    });
+    return !!membership && membership.status === 'approved';
+  }
+  return false;
+}
+
 // Get requests targeted at current user (1:1 connections + space requests they were notified about)
 router.get('/user/incoming', authMiddleware, async (req, res) => {
   try {
@@ -230,26 +264,103 @@ router.get('/:id', authMiddleware, async (req, res) => {
 
     // Authorization: must be the requester, or a member of the request's space,
     // or the targeted connection peer
-    const isRequester = request.requesterId === userId;
-    const nq = (request.normalizedQuery as Record<string, unknown>) || {};
-    const isConnectionPeer = nq.connectionPeerId === userId;
+    if (!(await canViewRequest(request, userId))) {
+      res.status(403).json({ error: 'Not authorized to view this request' });
+      return;
+    }
 
-    let isSpaceMember = false;
-    if (request.spaceId) {
-      const membership = await prisma.spaceMember.findUnique({
-        where: { spaceId_userId: { spaceId: request.spaceId, userId } },
-      });
-      isSpaceMember = !!membership && membership.status === 'approved';
+    res.json(request);
+  } catch (error: unknown) {
+    res.status(500).json({ error: 'Failed to fetch request' });
+  }
+});
+
+// Get a request's history (who did what, and when)
+router.get('/:id/timeline', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const request = await prisma.introRequest.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, requesterId: true, spaceId: true, normalizedQuery: true, status: true, adminStatus: true },
+    });
+
+    if (!request) {
+      res.status(404).json({ error: 'Request not found' });
+      return;
     }
 
-    if (!isRequester && !isSpaceMember && !isConnectionPeer) {
+    if (!(await canViewRequest(request, userId))) {
       res.status(403).json({ error: 'Not authorized to view this request' });
       return;
     }
 
-    res.json(request);
+    const events = await prisma.introRequestEvent.findMany({
+      where: { requestId: request.id },
+      include: {
+        actor: { select: { id: true, name: true, avatar: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Space declines stay anonymous to the requester, same as everywhere else
+    const hideDecliner = !!request.spaceId && request.requesterId === userId;
+    const timeline = events.map(e => ({
+      id: e.id,
+      type: e.type,
+      fromStatus: e.fromStatus,
+      toStatus: e.toStatus,
+      payload: e.payload,
+      createdAt: e.createdAt,
+      actor: hideDecliner && e.type === 'declined' && e.actorId !== userId ? null : e.actor,
+    }));
+
+    res.json({ requestId: request.id, status: request.status, adminStatus: request.adminStatus, events: timeline });
   } catch (error: unknown) {
-    res.status(500).json({ error: 'Failed to fetch request' });
+    console.error('Error fetching request timeline:', error);
+    res.status(500).json({ error: 'Failed to fetch request timeline' });
+  }
+});
+
+// Members best placed to make the intro, best first, with the reasons behind each score
+router.get('/:id/suggested-introducers', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 10));
+
+    const request = await prisma.introRequest.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, requesterId: true, spaceId: true, normalizedQuery: true, declinedById: true },
+    });
+
+    if (!request) {
+      res.status(404).json({ error: 'Request not found' });
+      return;
+    }
+
+    if (!(await canViewRequest(request, userId))) {
+      res.status(403).json({ error: 'Not authorized to view this request' });
+      return;
+    }
+
+    const suggestions = await rankIntroducers(request);
+
+    // Other members' contacts are abbreviated, as in space reach
+    res.json({
+      requestId: request.id,
+      introducers: suggestions.slice(0, limit).map(s => ({
+        ...s,
+        contacts: s.contacts.map(c => ({
+          id: c.id,
+          name: c.name && c.userId !== userId ? abbreviateName(c.name) : c.name,
+          title: c.title,
+          lastSeenAt: c.lastSeenAt,
+        })),
+      })),
+    });
+  } catch (error: unknown) {
+    console.error('Error ranking introducers:', error);
+    res.status(500).json({ error: 'Failed to fetch suggested introducers' });
   }
 });
 
@@ -257,7 +368,29 @@ router.get('/:id', authMiddleware, async (req, res) => {
 router.post('/', authMiddleware, validate(schemas.createRequest), async (req, res) => {
   try {
     const userId = (req as AuthenticatedRequest).user!.id;
-    const { rawText, normalizedQuery, bidAmount, currency, spaceId, connectionPeerId } = req.body;
+    const { rawText, normalizedQuery, bidAmount, currency, spaceId, connectionPeerId, templateId } = req.body;
+
+    // A template fills in whatever structured fields the request leaves out
+    let template: Awaited<ReturnType<typeof findUsableTemplate>> = null;
+    if (templateId) {
+      template = await findUsableTemplate(userId, templateId);
+      if (!template) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+    }
+    const field = (key: 'targetRole' | 'reason' | 'context' | 'urgency' | 'desiredOutcome' | 'forwardableBlurb') =>
+      (typeof req.body[key] === 'string' && req.body[key].trim()) || template?.[key] || null;
+    const details: RequestDetails = {
+      targetName: (typeof req.body.targetName === 'string' && req.body.targetName.trim()) || null,
+      targetRole: field('targetRole'),
+      reason: field('reason'),
+      context: field('context'),
+      urgency: field('urgency') as RequestDetails['urgency'],
+      deadline: req.body.deadline ? new Date(req.body.deadline) : null,
+      desiredOutcome: field('desiredOutcome'),
+      forwardableBlurb: field('forwardableBlurb'),
+    };
 
     // If spaceId is provided, verify user is an approved member of the space
     let spaceData: { introReviewMode: string; ownerId: string } | null = null;
@@ -282,26 +415,54 @@ router.post('/', authMiddleware, validate(schemas.createRequest), async (req, re
     // Merge connectionPeerId into normalizedQuery so we can query it later
     const mergedQuery = { ...(normalizedQuery || {}), ...(connectionPeerId ? { connectionPeerId } : {}) };
 
-    const request = await prisma.introRequest.create({
-      data: {
-        requesterId: userId,
-        rawText,
-        normalizedQuery: mergedQuery,
-        bidAmount: bidAmount || 0,
-        currency: currency || 'USD',
-        status: 'open',
-        spaceId: spaceId || null,
-        adminStatus: isAdminReview ? (isOwnerRequest ? 'approved' : 'pending_review') : null,
-        ...(isAdminReview && isOwnerRequest ? { adminReviewedById: userId, adminReviewedAt: new Date() } : {}),
-      },
-      include: {
-        requester: {
-          select: { id: true, name: true, avatar: true },
+    if (!details.forwardableBlurb) {
+      const requester = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+      details.forwardableBlurb = composeForwardableBlurb(details, {
+        requesterName: requester?.name || 'Someone',
+        companyName: (mergedQuery as Record<string, unknown>).companyName as string || 'the company',
+      });
+    }
+
+    const request = await prisma.$transaction(async (tx) => {
+      const created = await tx.introRequest.create({
+        data: {
+          requesterId: userId,
+          rawText,
+          ...details,
+          templateId: template?.id || null,
+          normalizedQuery: mergedQuery,
+          bidAmount: bidAmount || 0,
+          currency: currency || 'USD',
+          status: 'open',
+          spaceId: spaceId || null,
+          adminStatus: isAdminReview ? (isOwnerRequest ? 'approved' : 'pending_review') : null,
+          ...(isAdminReview && isOwnerRequest ? { adminReviewedById: userId, adminReviewedAt: new Date() } : {}),
         },
-        space: {
-          select: { id: true, name: true, emoji: true },
+        include: {
+          requester: {
+            select: { id: true, name: true, avatar: true },
+          },
+          space: {
+            select: { id: true, name: true, emoji: true },
+          },
         },
-      },
+      });
+
+      await recordIntroRequestEvent(tx, {
+        requestId: created.id,
+        actorId: userId,
+        type: 'created',
+        fromStatus: null,
+        toStatus: created.status,
+        payload: {
+          spaceId: created.spaceId,
+          connectionPeerId: connectionPeerId || null,
+          templateId: template?.id || null,
+          adminStatus: created.adminStatus,
+        },
+      });
+
+      return created;
     });
 
     // For admin_review spaces, notify only the space owner (unless owner created the request)
@@ -310,24 +471,22 @@ router.post('/', authMiddleware, validate(schemas.createRequest), async (req, re
         const companyName = (normalizedQuery as Record<string, unknown>)?.companyName as string || 'a company';
         const requesterName = request.requester.name || 'Someone';
         const spaceName = request.space?.name || 'your space';
-        const reviewNotif = { type: 'intro_review', title: `Review request: ${companyName}`, body: `${requesterName} requested an intro to ${companyName} in ${spaceName}. This request needs your approval.` };
-        await prisma.notification.create({
+        await notify({
+          userId: spaceData.ownerId,
+          type: 'intro_review',
+          title: `Review request: ${companyName}`,
+          body: `${requesterName} requested an intro to ${companyName} in ${spaceName}. This request needs your approval.`,
           data: {
-            userId: spaceData.ownerId,
-            ...reviewNotif,
-            data: {
-              requestId: request.id,
-              spaceId,
-              spaceName,
-              spaceEmoji: request.space?.emoji || null,
-              companyName,
-              requesterId: userId,
-              requesterName,
-              rawText,
-            },
+            requestId: request.id,
+            spaceId,
+            spaceName,
+            spaceEmoji: request.space?.emoji || null,
+            companyName,
+            requesterId: userId,
+            requesterName,
+            rawText,
           },
         });
-        sendNotificationEmail(spaceData.ownerId, reviewNotif).catch(() => {});
       } catch (notifError) {
         console.error('Failed to create admin review notification:', notifError);
       }
@@ -349,6 +508,7 @@ router.post('/', authMiddleware, validate(schemas.createRequest), async (req, re
           companyName: (nq.companyName as string) || 'a company',
           spaceName: request.space?.name || 'your space',
           spaceEmoji: request.space?.emoji,
+          limit: INITIAL_CONNECTOR_FANOUT,
         });
       } catch (notifError) {
         console.error('Failed to create notifications:', notifError);
@@ -360,29 +520,32 @@ router.post('/', authMiddleware, validate(schemas.createRequest), async (req, re
       try {
         const companyName = (normalizedQuery as Record<string, unknown>)?.companyName as string || 'a company';
         const requesterName = request.requester.name || 'Someone';
-        const peerNotif = { type: 'intro_request', title: `Intro request: ${companyName}`, body: `${requesterName} is looking for an intro to ${companyName}. "${rawText}"` };
-        await prisma.notification.create({
+        await notify({
+          userId: connectionPeerId,
+          type: 'intro_request',
+          title: `Intro request: ${companyName}`,
+          body: `${requesterName} is looking for an intro to ${companyName}. "${rawText}"`,
           data: {
-            userId: connectionPeerId,
-            ...peerNotif,
-            data: {
-              requestId: request.id,
-              companyName,
-              companyDomain: (normalizedQuery as Record<string, unknown>)?.companyDomain || null,
-              companyId: (normalizedQuery as Record<string, unknown>)?.companyId || null,
-              requesterId: userId,
-              requesterName,
-              connectionPeerId,
-              rawText,
-            },
+            requestId: request.id,
+            companyName,
+            companyDomain: ((normalizedQuery as Record<string, unknown>)?.companyDomain as string) || null,
+            companyId: ((normalizedQuery as Record<string, unknown>)?.companyId as string) || null,
+            requesterId: userId,
+            requesterName,
+            connectionPeerId,
+            rawText,
           },
         });
-        sendNotificationEmail(connectionPeerId, peerNotif).catch(() => {});
       } catch (notifError) {
         console.error('Failed to create 1-1 notification:', notifError);
       }
     }
 
+    await emitWebhookEvent('request.created', { userIds: [userId, connectionPeerId], spaceId }, {
+      request: requestWebhookData(request),
+      templateId: template?.id || null,
+    });
+
     res.status(201).json(request);
   } catch (error: unknown) {
     console.error('Create request error:', error);
@@ -411,23 +574,29 @@ router.patch('/:id/status', authMiddleware, validate(schemas.updateRequestStatus
       return;
     }
 
-    // Enforce valid status transitions
-    const validTransitions: Record<string, string[]> = {
-      open: ['accepted', 'completed'],
-      accepted: ['completed'],
-      completed: [],
-      declined: [],
-    };
-    const allowed = validTransitions[existing.status] || [];
-    if (!allowed.includes(status)) {
+    // The requester can only move their request forward to accepted / completed
+    const actions: Record<string, IntroRequestAction> = { accepted: 'accept', completed: 'complete' };
+    const action = actions[status];
+    if (!action) {
       res.status(400).json({ error: `Cannot transition from "${existing.status}" to "${status}"` });
       return;
     }
 
-    const request = await prisma.introRequest.update({
-      where: { id: req.params.id },
-      data: { status },
-    });
+    const transitionErr = transitionError(existing, action, 'requester');
+    if (transitionErr) {
+      res.status(400).json({ error: transitionErr });
+      return;
+    }
+
+    const moved = await prisma.$transaction(tx =>
+      transitionIntroRequest(tx, existing, action, { actorId: userId, actor: 'requester' }),
+    );
+    if (!moved) {
+      res.status(409).json({ error: 'Request was updated by someone else. Refresh and try again.' });
+      return;
+    }
+
+    const request = await prisma.introRequest.findUnique({ where: { id: req.params.id } });
 
     res.json(request);
   } catch (error: unknown) {
@@ -459,13 +628,9 @@ router.patch('/:id/decline', authMiddleware, async (req, res) => {
       return;
     }
 
-    if (existing.status !== 'open') {
-      res.status(400).json({ error: `Request is already ${existing.status}` });
-      return;
-    }
-
-    if (existing.adminStatus === 'pending_review') {
-      res.status(400).json({ error: 'Request is still pending admin review' });
+    const declineErr = transitionError(existing, 'decline');
+    if (declineErr) {
+      res.status(400).json({ error: declineErr });
       return;
     }
 
@@ -491,14 +656,16 @@ router.patch('/:id/decline', authMiddleware, async (req, res) => {
     }
 
     // Update request status to declined
-    const updated = await prisma.introRequest.update({
-      where: { id: req.params.id },
-      data: {
-        status: 'declined',
-        declineReason: reason || null,
-        declinedById: userId,
-      },
-    });
+    const moved = await prisma.$transaction(tx => transitionIntroRequest(tx, existing, 'decline', {
+      actorId: userId,
+      data: { declineReason: reason || null, declinedById: userId },
+      payload: { reason: reason || null },
+    }));
+    if (!moved) {
+      res.status(409).json({ error: 'Request was updated by someone else. Refresh and try again.' });
+      return;
+    }
+    const updated = await prisma.introRequest.findUnique({ where: { id: req.params.id } });
 
     // Create anonymous notification for the requester
     const nq = existing.normalizedQuery as Record<string, unknown> || {};
@@ -521,25 +688,29 @@ router.patch('/:id/decline', authMiddleware, async (req, res) => {
       notifBody += ` Reason: "${reason}"`;
     }
 
-    const declineNotif = { type: 'intro_declined', title: `Declined: ${companyName}`, body: notifBody };
-    await prisma.notification.create({
+    await notify({
+      userId: existing.requesterId,
+      type: 'intro_declined',
+      title: `Declined: ${companyName}`,
+      body: notifBody,
       data: {
-        userId: existing.requesterId,
-        ...declineNotif,
-        data: {
-          requestId: existing.id,
-          companyName,
-          companyDomain,
-          spaceId: spaceId || null,
-          spaceName: spaceName || null,
-          spaceEmoji: spaceEmoji || null,
-          reason: reason || null,
-          connectionPeerId: connPeerId,
-          connectionPeerName: connPeerName,
-        },
+        requestId: existing.id,
+        companyName,
+        companyDomain,
+        spaceId: spaceId || null,
+        spaceName: spaceName || null,
+        spaceEmoji: spaceEmoji || null,
+        reason: reason || null,
+        connectionPeerId: connPeerId,
+        connectionPeerName: connPeerName,
       },
     });
-    sendNotificationEmail(existing.requesterId, declineNotif).catch(() => {});
+
+    // Like the notification, the payload doesn't say who declined
+    await emitWebhookEvent('request.declined', { userIds: [existing.requesterId], spaceId }, {
+      request: requestWebhookData(updated || existing),
+      reason: reason || null,
+    });
 
     res.json(updated);
   } catch (error: unknown) {
@@ -571,13 +742,9 @@ router.patch('/:id/done', authMiddleware, async (req, res) => {
       return;
     }
 
-    if (existing.status !== 'open') {
-      res.status(400).json({ error: `Request is already ${existing.status}` });
-      return;
-    }
-
-    if (existing.adminStatus === 'pending_review') {
-      res.status(400).json({ error: 'Request is still pending admin review' });
+    const doneErr = transitionError(existing, 'accept');
+    if (doneErr) {
+      res.status(400).json({ error: doneErr });
       return;
     }
 
@@ -603,6 +770,12 @@ router.patch('/:id/done', authMiddleware, async (req, res) => {
     }
 
     const result = await prisma.$transaction(async (tx) => {
+      const moved = await transitionIntroRequest(tx, existing, 'accept', {
+        actorId: userId,
+        payload: { via: 'done' },
+      });
+      if (!moved) return null;
+
       const offer = await tx.introOffer.create({
         data: {
           requestId: req.params.id,
@@ -612,9 +785,8 @@ router.patch('/:id/done', authMiddleware, async (req, res) => {
         },
       });
 
-      const updated = await tx.introRequest.update({
+      const updated = await tx.introRequest.findUniqueOrThrow({
         where: { id: req.params.id },
-        data: { status: 'accepted' },
       });
 
       await tx.introOffer.updateMany({
@@ -629,6 +801,11 @@ router.patch('/:id/done', authMiddleware, async (req, res) => {
       return { updated, offer };
     });
 
+    if (!result) {
+      res.status(409).json({ error: 'Request was updated by someone else. Refresh and try again.' });
+      return;
+    }
+
     const withOffers = await prisma.introRequest.findUnique({
       where: { id: req.params.id },
       include: {
@@ -647,28 +824,32 @@ router.patch('/:id/done', authMiddleware, async (req, res) => {
       const introducer = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
       const introducerName = introducer?.name || 'Someone';
 
-      const doneNotif = { type: 'intro_offered', title: `Intro done: ${companyName}`, body: `${introducerName} made an introduction for you to ${companyName}.` };
-      await prisma.notification.create({
+      await notify({
+        userId: existing.requesterId,
+        type: 'intro_offered',
+        title: `Intro done: ${companyName}`,
+        body: `${introducerName} made an introduction for you to ${companyName}.`,
         data: {
-          userId: existing.requesterId,
-          ...doneNotif,
-          data: {
-            requestId: req.params.id,
-            companyName,
-            companyDomain: (nq.companyDomain as string) || null,
-            spaceId: existing.spaceId || null,
-            spaceName: existing.space?.name || null,
-            spaceEmoji: (existing.space as any)?.emoji || null,
-            introducerId: userId,
-            introducerName,
-          },
+          requestId: req.params.id,
+          companyName,
+          companyDomain: (nq.companyDomain as string) || null,
+          spaceId: existing.spaceId || null,
+          spaceName: existing.space?.name || null,
+          spaceEmoji: (existing.space as any)?.emoji || null,
+          introducerId: userId,
+          introducerName,
         },
       });
-      sendNotificationEmail(existing.requesterId, doneNotif).catch(() => {});
     } catch (notifErr) {
       console.error('Failed to create intro_done notification:', notifErr);
     }
 
+    await emitWebhookEvent('request.done', { userIds: [existing.requesterId, userId], spaceId: existing.spaceId }, {
+      request: requestWebhookData(result.updated),
+      introducerId: userId,
+      offerId: result.offer.id,
+    });
+
     res.json(withOffers || result.updated);
   } catch (error: unknown) {
     console.error('Mark done error:', error);
@@ -710,25 +891,48 @@ router.patch('/:id/admin-review', authMiddleware, async (req, res) => {
       return;
     }
 
-    if (existing.adminStatus !== 'pending_review') {
-      res.status(400).json({ error: `Request is not pending review (current: ${existing.adminStatus || 'none'})` });
+    const reviewAction: IntroRequestAction = action === 'approve' ? 'admin_approve' : 'admin_reject';
+    const reviewErr = transitionError(existing, reviewAction);
+    if (reviewErr) {
+      res.status(400).json({ error: reviewErr });
+      return;
+    }
+
+    const moved = await prisma.$transaction(tx => transitionIntroRequest(tx, existing, reviewAction, {
+      actorId: userId,
+      // Connectors only hear about it now, so stale-request follow-ups start over
+      data: action === 'approve'
+        ? { adminReviewedById: userId, adminReviewedAt: new Date(), remindersSent: 0 }
+        : {
+            adminReviewedById: userId,
+            adminReviewedAt: new Date(),
+            adminRejectReason: reason || null,
+            declinedById: userId,
+            declineReason: reason || 'Declined by space admin',
+          },
+      payload: action === 'reject' ? { reason: reason || null } : {},
+    }));
+    if (!moved) {
+      res.status(409).json({ error: 'Request was updated by someone else. Refresh and try again.' });
       return;
     }
 
+    const updated = await prisma.introRequest.findUniqueOrThrow({
+      where: { id: req.params.id },
+      include: {
+        requester: { select: { id: true, name: true, avatar: true, email: true } },
+        space: { select: { id: true, name: true, emoji: true } },
+        offers: { include: { introducer: { select: { id: true, name: true, avatar: true } } } },
+      },
+    });
+
+    await emitWebhookEvent('request.review_decided', { userIds: [existing.requesterId], spaceId: existing.spaceId }, {
+      request: requestWebhookData(updated),
+      decision: action === 'approve' ? 'approved' : 'rejected',
+      reason: action === 'reject' ? reason || null : null,
+    });
+
     if (action === 'approve') {
-      const updated = await prisma.introRequest.update({
-        where: { id: req.params.id },
-        data: {
-          adminStatus: 'approved',
-          adminReviewedById: userId,
-          adminReviewedAt: new Date(),
-        },
-        include: {
-          requester: { select: { id: true, name: true, avatar: true, email: true } },
-          space: { select: { id: true, name: true, emoji: true } },
-          offers: { include: { introducer: { select: { id: true, name: true, avatar: true } } } },
-        },
-      });
 
       const nq = (existing.normalizedQuery as Record<string, unknown>) || {};
       const companyName = (nq.companyName as string) || 'a company';
@@ -736,22 +940,20 @@ router.patch('/:id/admin-review', authMiddleware, async (req, res) => {
 
       // Notify the requester that their request was approved
       try {
-        const approvedNotif = { type: 'intro_approved', title: `Approved: ${companyName}`, body: `Your intro request to ${companyName} in ${spaceName} was approved. Space members are now reviewing it.` };
-        await prisma.notification.create({
+        await notify({
+          userId: existing.requesterId,
+          type: 'intro_approved',
+          title: `Approved: ${companyName}`,
+          body: `Your intro request to ${companyName} in ${spaceName} was approved. Space members are now reviewing it.`,
           data: {
-            userId: existing.requesterId,
-            ...approvedNotif,
-            data: {
-              requestId: existing.id,
-              companyName,
-              companyDomain: (nq.companyDomain as string) || null,
-              spaceId: existing.spaceId,
-              spaceName,
-              spaceEmoji: existing.space.emoji || null,
-            },
+            requestId: existing.id,
+            companyName,
+            companyDomain: (nq.companyDomain as string) || null,
+            spaceId: existing.spaceId,
+            spaceName,
+            spaceEmoji: existing.space.emoji || null,
           },
         });
-        sendNotificationEmail(existing.requesterId, approvedNotif).catch(() => {});
       } catch (notifErr) {
         console.error('Failed to notify requester after admin approval:', notifErr);
       }
@@ -769,6 +971,7 @@ router.patch('/:id/admin-review', authMiddleware, async (req, res) => {
           companyName,
           spaceName,
           spaceEmoji: existing.space.emoji,
+          limit: INITIAL_CONNECTOR_FANOUT,
         });
       } catch (notifError) {
         console.error('Failed to notify connectors after admin approval:', notifError);
@@ -776,48 +979,27 @@ router.patch('/:id/admin-review', authMiddleware, async (req, res) => {
 
       res.json(updated);
     } else {
-      // Reject
-      const updated = await prisma.introRequest.update({
-        where: { id: req.params.id },
-        data: {
-          adminStatus: 'rejected',
-          status: 'declined',
-          adminReviewedById: userId,
-          adminReviewedAt: new Date(),
-          adminRejectReason: reason || null,
-          declinedById: userId,
-          declineReason: reason || 'Declined by space admin',
-        },
-        include: {
-          requester: { select: { id: true, name: true, avatar: true, email: true } },
-          space: { select: { id: true, name: true, emoji: true } },
-          offers: { include: { introducer: { select: { id: true, name: true, avatar: true } } } },
-        },
-      });
-
       // Notify requester
       try {
         const nq = (existing.normalizedQuery as Record<string, unknown>) || {};
         const companyName = (nq.companyName as string) || 'a company';
         let notifBody = `Your intro request to ${companyName} was not approved by the space admin.`;
         if (reason) notifBody += ` Reason: "${reason}"`;
-        const rejectNotif = { type: 'intro_declined', title: `Not approved: ${companyName}`, body: notifBody };
-        await prisma.notification.create({
+        await notify({
+          userId: existing.requesterId,
+          type: 'intro_declined',
+          title: `Not approved: ${companyName}`,
+          body: notifBody,
           data: {
-            userId: existing.requesterId,
-            ...rejectNotif,
-            data: {
-              requestId: existing.id,
-              companyName,
-              companyDomain: (nq.companyDomain as string) || null,
-              spaceId: existing.spaceId,
-              spaceName: existing.space.name || null,
-              spaceEmoji: existing.space.emoji || null,
-              reason: reason || null,
-            },
+            requestId: existing.id,
+            companyName,
+            companyDomain: (nq.companyDomain as string) || null,
+            spaceId: existing.spaceId,
+            spaceName: existing.space.name || null,
+            spaceEmoji: existing.space.emoji || null,
+            reason: reason || null,
           },
         });
-        sendNotificationEmail(existing.requesterId, rejectNotif).catch(() => {});
       } catch (notifErr) {
         console.error('Failed to notify requester after admin rejection:', notifErr);
       }
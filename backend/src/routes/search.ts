@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { validate, schemas } from '../middleware/validation.js';
+import { getPaginationParams, createPaginatedResponse } from '../lib/pagination.js';
+import { searchCompanies, type SearchQuery } from '../services/search.js';
+import { hybridSearch, type HybridSearchQuery } from '../services/hybridSearch.js';
+import { searchPeople, type PeopleSearchQuery } from '../services/peopleSearch.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// Search the companies in your network: filters, keywords, sort rules and groupBy in the body,
+// ?page and ?limit for paging. Returns one page plus the total, group sizes and facet counts.
+router.post('/', validate(schemas.search), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const pagination = getPaginationParams(req, 50, 200);
+    const search = req.body as SearchQuery;
+
+    const startTime = Date.now();
+    const result = await searchCompanies(userId, search, pagination);
+    console.log(`[search] ${result.total} companies in ${Date.now() - startTime}ms`);
+
+    res.json({
+      ...createPaginatedResponse(result.companies, result.total, pagination),
+      groups: result.groups,
+      facets: result.facets,
+    });
+  } catch (error: unknown) {
+    console.error('Search error:', error);
+    res.status(500).json({ error: 'Failed to search network' });
+  }
+});
+
+// Free-text search ranked by keyword matches and meaning together, each result with why it matched.
+// Takes the structured filters from /api/ai/parse-query alongside the query text.
+router.post('/hybrid', validate(schemas.hybridSearch), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const search = req.body as HybridSearchQuery;
+    const query = search.query.trim();
+
+    const startTime = Date.now();
+    const { results, threshold, semantic } = await hybridSearch(userId, { ...search, query });
+    const ms = Date.now() - startTime;
+    console.log(`[search] Hybrid search: "${query}" → ${results.length} results in ${ms}ms (semantic=${semantic})`);
+
+    res.json({ results, query, precision: search.precision ?? 2, threshold, semantic, ms });
+  } catch (error: unknown) {
+    console.error('Hybrid search error:', error);
+    res.status(500).json({ error: 'Search failed' });
+  }
+});
+
+// Free-text search for people: your contacts and those your spaces and connections share,
+// ranked by keyword matches and meaning together. Meaning only ranks your own contacts.
+router.post('/people', validate(schemas.peopleSearch), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const search = req.body as PeopleSearchQuery;
+    const query = search.query.trim();
+
+    const startTime = Date.now();
+    const { results, threshold, semantic } = await searchPeople(userId, { ...search, query });
+    const ms = Date.now() - startTime;
+    console.log(`[search] People search: "${query}" → ${results.length} results in ${ms}ms (semantic=${semantic})`);
+
+    res.json({ results, query, precision: search.precision ?? 2, threshold, semantic, ms });
+  } catch (error: unknown) {
+    console.error('People search error:', error);
+    res.status(500).json({ error: 'Search failed' });
+  }
+});
+
+export default router;
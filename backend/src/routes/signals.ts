@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { validate, schemas } from '../middleware/validation.js';
+import { resolveSignalField } from '../services/signals.js';
 import prisma from '../lib/prisma.js';
 
 const router = Router();
@@ -8,6 +9,17 @@ const router = Router();
 // All routes require authentication
 router.use(authMiddleware);
 
+// The evaluator in services/signals.ts can only act on configs it understands
+function validateSignalConfig(triggerType: string, config: Record<string, unknown>): string | null {
+  if (triggerType === 'field_change' && !resolveSignalField(config.field)) {
+    return 'field_change signals need config.field: title, company, employeeCount or lastFundingRound';
+  }
+  if (triggerType === 'prompt_based' && (typeof config.prompt !== 'string' || !config.prompt.trim())) {
+    return 'prompt_based signals need a config.prompt';
+  }
+  return null;
+}
+
 // Get all signals for current user
 router.get('/', async (req, res) => {
   try {
@@ -134,6 +146,12 @@ router.post('/', async (req, res) => {
       return;
     }
 
+    const configError = validateSignalConfig(triggerType, config || {});
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
+
     const signal = await prisma.signal.create({
       data: {
         userId,
@@ -169,6 +187,14 @@ router.patch('/:id', async (req, res) => {
       return;
     }
 
+    if (config) {
+      const configError = validateSignalConfig(existing.triggerType, config);
+      if (configError) {
+        res.status(400).json({ error: configError });
+        return;
+      }
+    }
+
     const updated = await prisma.signal.update({
       where: { id },
       data: {
@@ -1,7 +1,13 @@
 import { Router } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
-import { sendNotificationEmail, sendSpaceInviteEmail } from '../services/email.js';
-import { notifyConnectors } from '../lib/notifyConnectors.js';
+import { sendSpaceInviteEmail } from '../services/email.js';
+import { notify } from '../services/notifications.js';
+import { emitWebhookEvent } from '../services/webhooks.js';
+import { notifyConnectors, INITIAL_CONNECTOR_FANOUT } from '../lib/notifyConnectors.js';
+import { Prisma } from '@prisma/client';
+import { computeStrength, resolveStrengthConfig, toStrengthBreakdown, validateStrengthConfig } from '../services/strength.js';
+import { ACTIVE_REQUEST_STATUSES, transitionIntroRequest } from '../services/introRequestLifecycle.js';
+import { validateStaleThresholds } from '../services/staleRequests.js';
 import prisma from '../lib/prisma.js';
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -48,7 +54,7 @@ router.get('/', async (req, res) => {
         _count: {
           select: {
             members: { where: { status: 'approved' } },
-            requests: { where: { status: 'open' } },
+            requests: { where: { status: { in: ACTIVE_REQUEST_STATUSES } } },
           },
         },
       },
@@ -321,7 +327,7 @@ router.patch('/:id', async (req, res) => {
   try {
     const userId = (req as AuthenticatedRequest).user!.id;
     const { id } = req.params;
-    const { name, description, emoji, isPrivate, introReviewMode } = req.body;
+    const { name, description, emoji, isPrivate, introReviewMode, strengthConfig, staleReminderDays, staleEscalationDays, staleExpiryDays } = req.body;
 
     // Check ownership
     const space = await prisma.space.findFirst({
@@ -345,6 +351,24 @@ router.patch('/:id', async (req, res) => {
       res.status(400).json({ error: 'Invalid intro review mode' });
       return;
     }
+    if (strengthConfig !== undefined) {
+      const configError = validateStrengthConfig(strengthConfig);
+      if (configError) {
+        res.status(400).json({ error: configError });
+        return;
+      }
+    }
+    // Thresholds are checked together, so a partial update must still fit the saved ones
+    const staleThresholds = {
+      reminderDays: staleReminderDays ?? space.staleReminderDays,
+      escalationDays: staleEscalationDays ?? space.staleEscalationDays,
+      expiryDays: staleExpiryDays ?? space.staleExpiryDays,
+    };
+    const thresholdsError = validateStaleThresholds(staleThresholds);
+    if (thresholdsError) {
+      res.status(400).json({ error: thresholdsError });
+      return;
+    }
 
     const updated = await prisma.space.update({
       where: { id },
@@ -354,6 +378,13 @@ router.patch('/:id', async (req, res) => {
         emoji: emoji || space.emoji,
         isPrivate: isPrivate ?? space.isPrivate,
         introReviewMode: introReviewMode ?? space.introReviewMode,
+        staleReminderDays: staleThresholds.reminderDays,
+        staleEscalationDays: staleThresholds.escalationDays,
+        staleExpiryDays: staleThresholds.expiryDays,
+        // null resets the space to the default strength model
+        ...(strengthConfig !== undefined
+          ? { strengthConfig: strengthConfig === null ? Prisma.DbNull : strengthConfig }
+          : {}),
       },
       include: {
         owner: {
@@ -381,34 +412,34 @@ router.patch('/:id', async (req, res) => {
       });
 
       if (pendingRequests.length > 0) {
-        await prisma.introRequest.updateMany({
-          where: { spaceId: id, adminStatus: 'pending_review', status: 'open' },
-          data: { adminStatus: 'approved', adminReviewedById: userId, adminReviewedAt: new Date() },
-        });
-
         for (const pr of pendingRequests) {
+          const moved = await prisma.$transaction(tx => transitionIntroRequest(tx, pr, 'admin_approve', {
+            actorId: userId,
+            data: { adminReviewedById: userId, adminReviewedAt: new Date(), remindersSent: 0 },
+            payload: { reason: 'review_mode_disabled' },
+          }));
+          if (!moved) continue;
+
           const nq = (pr.normalizedQuery as Record<string, unknown>) || {};
           const companyName = (nq.companyName as string) || 'a company';
           const spaceName = pr.space?.name || 'your space';
 
           // Notify requester that their request was approved
           try {
-            const approvedNotif = { type: 'intro_approved', title: `Approved: ${companyName}`, body: `Your intro request to ${companyName} in ${spaceName} was approved. Space members are now reviewing it.` };
-            await prisma.notification.create({
+            await notify({
+              userId: pr.requesterId,
+              type: 'intro_approved',
+              title: `Approved: ${companyName}`,
+              body: `Your intro request to ${companyName} in ${spaceName} was approved. Space members are now reviewing it.`,
               data: {
-                userId: pr.requesterId,
-                ...approvedNotif,
-                data: {
-                  requestId: pr.id,
-                  companyName,
-                  companyDomain: (nq.companyDomain as string) || null,
-                  spaceId: id,
-                  spaceName,
-                  spaceEmoji: pr.space?.emoji || null,
-                },
+                requestId: pr.id,
+                companyName,
+                companyDomain: (nq.companyDomain as string) || null,
+                spaceId: id,
+                spaceName,
+                spaceEmoji: pr.space?.emoji || null,
               },
             });
-            sendNotificationEmail(pr.requesterId, approvedNotif).catch(() => {});
           } catch (err) {
             console.error('Failed to notify requester for auto-approved request:', err);
           }
@@ -426,6 +457,7 @@ router.patch('/:id', async (req, res) => {
               companyName,
               spaceName,
               spaceEmoji: pr.space?.emoji,
+              limit: INITIAL_CONNECTOR_FANOUT,
             });
           } catch (err) {
             console.error('Failed to notify connectors for auto-approved request:', err);
@@ -540,29 +572,32 @@ router.post('/join/:inviteCode', async (req, res) => {
 
     if (status === 'pending') {
       // Notify space owner about pending join request
-      const joinReqNotif = { type: 'space_join_request', title: `Join request: ${space.name}`, body: `${joinerUser?.name || 'Someone'} wants to join ${space.emoji || ''} ${space.name}.` };
-      await prisma.notification.create({
-        data: {
-          userId: space.ownerId,
-          ...joinReqNotif,
-          data: { spaceId: space.id, spaceName: space.name, spaceEmoji: space.emoji, requesterId: userId },
-        },
+      await notify({
+        userId: space.ownerId,
+        type: 'space_join_request',
+        title: `Join request: ${space.name}`,
+        body: `${joinerUser?.name || 'Someone'} wants to join ${space.emoji || ''} ${space.name}.`,
+        data: { spaceId: space.id, spaceName: space.name, spaceEmoji: space.emoji, requesterId: userId },
       }).catch(() => {});
-      sendNotificationEmail(space.ownerId, joinReqNotif).catch(() => {});
       res.json({ message: 'Your request to join has been submitted and is pending approval', pending: true });
       return;
     }
 
     // Notify space owner that someone joined
-    const joinedNotif = { type: 'space_member_joined', title: `New member: ${space.name}`, body: `${joinerUser?.name || 'Someone'} joined ${space.emoji || ''} ${space.name}.` };
-    await prisma.notification.create({
-      data: {
-        userId: space.ownerId,
-        ...joinedNotif,
-        data: { spaceId: space.id, spaceName: space.name, spaceEmoji: space.emoji, memberId: userId },
-      },
+    await notify({
+      userId: space.ownerId,
+      type: 'space_member_joined',
+      title: `New member: ${space.name}`,
+      body: `${joinerUser?.name || 'Someone'} joined ${space.emoji || ''} ${space.name}.`,
+      data: { spaceId: space.id, spaceName: space.name, spaceEmoji: space.emoji, memberId: userId },
     }).catch(() => {});
-    sendNotificationEmail(space.ownerId, joinedNotif).catch(() => {});
+    await emitWebhookEvent('space.member_joined', { userIds: [userId], spaceId: space.id }, {
+      spaceId: space.id,
+      spaceName: space.name,
+      memberId: userId,
+      memberName: joinerUser?.name || null,
+      via: 'invite_code',
+    });
 
     const updatedSpace = await prisma.space.findUnique({
       where: { id: space.id },
@@ -699,15 +734,21 @@ router.post('/:id/members/:memberId/approve', async (req, res) => {
     });
 
     // Notify the approved member
-    const approveNotif = { type: 'space_approved', title: `Welcome to ${space.name}!`, body: `Your request to join ${space.emoji || ''} ${space.name} was approved.` };
-    await prisma.notification.create({
-      data: {
-        userId: memberId,
-        ...approveNotif,
-        data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji },
-      },
+    await notify({
+      userId: memberId,
+      type: 'space_approved',
+      title: `Welcome to ${space.name}!`,
+      body: `Your request to join ${space.emoji || ''} ${space.name} was approved.`,
+      data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji },
     }).catch(() => {});
-    sendNotificationEmail(memberId, approveNotif).catch(() => {});
+    const approvedUser = await prisma.user.findUnique({ where: { id: memberId }, select: { name: true } });
+    await emitWebhookEvent('space.member_joined', { userIds: [memberId], spaceId: id }, {
+      spaceId: id,
+      spaceName: space.name,
+      memberId,
+      memberName: approvedUser?.name || null,
+      via: 'join_request',
+    });
 
     res.json({ success: true, message: 'Member approved' });
   } catch (error: unknown) {
@@ -885,15 +926,13 @@ router.post('/:id/members', async (req, res) => {
 
     // Notify the invited user
     const inviter = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
-    const inviteNotif = { type: 'space_invited', title: `Invitation to ${space.name}`, body: `${inviter?.name || 'Someone'} invited you to join ${space.emoji || ''} ${space.name}.` };
-    await prisma.notification.create({
-      data: {
-        userId: userToAdd.id,
-        ...inviteNotif,
-        data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji, inviterId: userId },
-      },
+    await notify({
+      userId: userToAdd.id,
+      type: 'space_invited',
+      title: `Invitation to ${space.name}`,
+      body: `${inviter?.name || 'Someone'} invited you to join ${space.emoji || ''} ${space.name}.`,
+      data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji, inviterId: userId },
     }).catch(() => {});
-    sendNotificationEmail(userToAdd.id, inviteNotif).catch(() => {});
 
     res.json({ success: true, message: 'Invitation sent', pending: true });
   } catch (error: unknown) {
@@ -955,26 +994,22 @@ router.delete('/:id/members/:memberId', async (req, res) => {
     if (isRemovingSelf) {
       // User left voluntarily — notify space owner
       const leaverUser = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
-      const leftNotif = { type: 'space_member_left', title: `Member left: ${space.name}`, body: `${leaverUser?.name || 'Someone'} left ${space.emoji || ''} ${space.name}.` };
-      await prisma.notification.create({
-        data: {
-          userId: space.ownerId,
-          ...leftNotif,
-          data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji, memberId: userId },
-        },
+      await notify({
+        userId: space.ownerId,
+        type: 'space_member_left',
+        title: `Member left: ${space.name}`,
+        body: `${leaverUser?.name || 'Someone'} left ${space.emoji || ''} ${space.name}.`,
+        data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji, memberId: userId },
       }).catch(() => {});
-      sendNotificationEmail(space.ownerId, leftNotif).catch(() => {});
     } else {
       // Removed by owner/admin — notify the removed member
-      const removedNotif = { type: 'space_removed', title: `Removed from ${space.name}`, body: `You were removed from ${space.emoji || ''} ${space.name}.` };
-      await prisma.notification.create({
-        data: {
-          userId: memberId,
-          ...removedNotif,
-          data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji },
-        },
+      await notify({
+        userId: memberId,
+        type: 'space_removed',
+        title: `Removed from ${space.name}`,
+        body: `You were removed from ${space.emoji || ''} ${space.name}.`,
+        data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji },
       }).catch(() => {});
-      sendNotificationEmail(memberId, removedNotif).catch(() => {});
     }
 
     res.json({ success: true });
@@ -1010,15 +1045,13 @@ router.post('/:id/leave', async (req, res) => {
 
     // Notify space owner
     const leaverUser = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
-    const leaveNotif = { type: 'space_member_left', title: `Member left: ${space.name}`, body: `${leaverUser?.name || 'Someone'} left ${space.emoji || ''} ${space.name}.` };
-    await prisma.notification.create({
-      data: {
-        userId: space.ownerId,
-        ...leaveNotif,
-        data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji, memberId: userId },
-      },
+    await notify({
+      userId: space.ownerId,
+      type: 'space_member_left',
+      title: `Member left: ${space.name}`,
+      body: `${leaverUser?.name || 'Someone'} left ${space.emoji || ''} ${space.name}.`,
+      data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji, memberId: userId },
     }).catch(() => {});
-    sendNotificationEmail(space.ownerId, leaveNotif).catch(() => {});
 
     res.json({ success: true });
   } catch (error: unknown) {
@@ -1052,15 +1085,20 @@ router.post('/:id/accept-invite', async (req, res) => {
 
     // Notify space owner
     if (space) {
-      const acceptInvNotif = { type: 'space_member_joined', title: `New member: ${space.name}`, body: `${accepter?.name || 'Someone'} accepted the invitation to ${space.emoji || ''} ${space.name}.` };
-      await prisma.notification.create({
-        data: {
-          userId: space.ownerId,
-          ...acceptInvNotif,
-          data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji, memberId: userId },
-        },
+      await notify({
+        userId: space.ownerId,
+        type: 'space_member_joined',
+        title: `New member: ${space.name}`,
+        body: `${accepter?.name || 'Someone'} accepted the invitation to ${space.emoji || ''} ${space.name}.`,
+        data: { spaceId: id, spaceName: space.name, spaceEmoji: space.emoji, memberId: userId },
       }).catch(() => {});
-      sendNotificationEmail(space.ownerId, acceptInvNotif).catch(() => {});
+      await emitWebhookEvent('space.member_joined', { userIds: [userId], spaceId: id }, {
+        spaceId: id,
+        spaceName: space.name,
+        memberId: userId,
+        memberName: accepter?.name || null,
+        via: 'invitation',
+      });
     }
 
     res.json({ success: true, message: 'Invitation accepted' });
@@ -1145,6 +1183,22 @@ router.get('/:id/reach', async (req, res) => {
       },
     });
 
+    // Strength of the user's own contacts, scored with this space's model
+    const strengthConfig = resolveStrengthConfig(space.strengthConfig);
+    const ownContactIds = contacts.filter(c => c.userId === userId).map(c => c.id);
+    const ownMeetings = ownContactIds.length > 0
+      ? await prisma.meeting.findMany({
+          where: { contactId: { in: ownContactIds }, date: { lte: new Date() } },
+          select: { contactId: true, googleEventId: true, date: true, duration: true, attendeeCount: true, organizedByUser: true },
+        })
+      : [];
+    const meetingsByContact = new Map<string, typeof ownMeetings>();
+    for (const m of ownMeetings) {
+      const list = meetingsByContact.get(m.contactId) || [];
+      list.push(m);
+      meetingsByContact.set(m.contactId, list);
+    }
+
     // Aggregate by company
     const companyMap = new Map<string, {
       id: string;
@@ -1178,6 +1232,8 @@ router.get('/:id/reach', async (req, res) => {
         country: string | null;
         meetingsCount: number;
         lastSeenAt: Date | null;
+        strengthScore: number | null;
+        strengthBreakdown: ReturnType<typeof toStrengthBreakdown> | null;
       }[];
     }>();
 
@@ -1187,6 +1243,9 @@ router.get('/:id/reach', async (req, res) => {
       const existing = companyMap.get(contact.company.id);
       const isOwnContact = contact.userId === userId;
       const rawName = contact.name || contact.email.split('@')[0];
+      const strength = isOwnContact
+        ? computeStrength(meetingsByContact.get(contact.id) || [], strengthConfig)
+        : null;
       const contactInfo = {
         id: contact.id,
         name: isOwnContact ? rawName : abbreviateName(rawName),
@@ -1200,6 +1259,8 @@ router.get('/:id/reach', async (req, res) => {
         country: contact.country,
         meetingsCount: isOwnContact ? contact.meetingsCount : 0,
         lastSeenAt: isOwnContact ? contact.lastSeenAt : null,
+        strengthScore: strength ? strength.score : null,
+        strengthBreakdown: strength ? toStrengthBreakdown(strength) : null,
       };
 
       if (existing) {
@@ -0,0 +1,271 @@
+import { Router } from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { validate, schemas } from '../middleware/validation.js';
+import { getPaginationParams, createPaginatedResponse } from '../lib/pagination.js';
+import prisma from '../lib/prisma.js';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  encryptWebhookSecret,
+  validateWebhookEvents,
+  validateWebhookUrl,
+  sendWebhookPing,
+  redeliverWebhook,
+} from '../services/webhooks.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// What the API returns for an endpoint; the secret is only shown on create/rotate
+const endpointSelect = {
+  id: true,
+  spaceId: true,
+  url: true,
+  description: true,
+  events: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  space: { select: { id: true, name: true, emoji: true } },
+} as const;
+
+function findOwnEndpoint(userId: string, id: string) {
+  return prisma.webhookEndpoint.findFirst({ where: { id, userId }, select: endpointSelect });
+}
+
+// Event names an endpoint can subscribe to
+router.get('/events', (_req, res) => {
+  res.json({ events: WEBHOOK_EVENTS });
+});
+
+// List the current user's endpoints, with the latest delivery of each
+router.get('/', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { userId },
+      select: {
+        ...endpointSelect,
+        deliveries: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { id: true, event: true, status: true, responseStatus: true, createdAt: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(endpoints.map(({ deliveries, ...endpoint }) => ({ ...endpoint, lastDelivery: deliveries[0] || null })));
+  } catch (error: unknown) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+// Register an endpoint. Scoping it to a space (owner only) sends it that
+// space's events instead of the user's own.
+router.post('/', validate(schemas.createWebhook), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { url, events, spaceId, description } = req.body as {
+      url: string;
+      events: string[];
+      spaceId?: string;
+      description?: string;
+    };
+
+    const inputError = validateWebhookUrl(url) || validateWebhookEvents(events);
+    if (inputError) {
+      res.status(400).json({ error: inputError });
+      return;
+    }
+
+    if (spaceId) {
+      const space = await prisma.space.findFirst({ where: { id: spaceId, ownerId: userId }, select: { id: true } });
+      if (!space) {
+        res.status(403).json({ error: 'Only the space owner can add a webhook for a space' });
+        return;
+      }
+    }
+
+    const secret = generateWebhookSecret();
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        userId,
+        spaceId: spaceId || null,
+        url,
+        events: Array.from(new Set(events)),
+        description: description || null,
+        secret: encryptWebhookSecret(secret),
+      },
+      select: endpointSelect,
+    });
+
+    res.status(201).json({ ...endpoint, secret });
+  } catch (error: unknown) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// Update an endpoint's URL, events, description or active flag
+router.patch('/:id', validate(schemas.updateWebhook), async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+    const { url, events, description, isActive } = req.body as {
+      url?: string;
+      events?: string[];
+      description?: string | null;
+      isActive?: boolean;
+    };
+
+    const existing = await findOwnEndpoint(userId, req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const inputError = (url !== undefined && validateWebhookUrl(url)) || (events && validateWebhookEvents(events));
+    if (inputError) {
+      res.status(400).json({ error: inputError });
+      return;
+    }
+
+    const updated = await prisma.webhookEndpoint.update({
+      where: { id: existing.id },
+      data: {
+        url: url ?? existing.url,
+        events: events ? Array.from(new Set(events)) : existing.events,
+        description: description !== undefined ? description : existing.description,
+        isActive: isActive ?? existing.isActive,
+      },
+      select: endpointSelect,
+    });
+
+    res.json(updated);
+  } catch (error: unknown) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+// Delete an endpoint and its delivery log
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const existing = await findOwnEndpoint(userId, req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    await prisma.webhookEndpoint.delete({ where: { id: existing.id } });
+    res.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// Replace the signing secret; the new one is returned once
+router.post('/:id/rotate-secret', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const existing = await findOwnEndpoint(userId, req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const secret = generateWebhookSecret();
+    await prisma.webhookEndpoint.update({
+      where: { id: existing.id },
+      data: { secret: encryptWebhookSecret(secret) },
+    });
+
+    res.json({ id: existing.id, secret });
+  } catch (error: unknown) {
+    console.error('Error rotating webhook secret:', error);
+    res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+// Send a signed `ping` now and return the delivery outcome
+router.post('/:id/test', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const existing = await findOwnEndpoint(userId, req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    res.json(await sendWebhookPing(existing.id));
+  } catch (error: unknown) {
+    console.error('Error testing webhook:', error);
+    res.status(500).json({ error: 'Failed to test webhook' });
+  }
+});
+
+// Delivery log, newest first (?status=pending|succeeded|failed)
+router.get('/:id/deliveries', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const existing = await findOwnEndpoint(userId, req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const params = getPaginationParams(req, 20, 100);
+    const where: Record<string, unknown> = { endpointId: existing.id };
+    if (typeof req.query.status === 'string' && ['pending', 'succeeded', 'failed'].includes(req.query.status)) {
+      where.status = req.query.status;
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: params.skip,
+        take: params.limit,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    res.json(createPaginatedResponse(deliveries, total, params));
+  } catch (error: unknown) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// Send a delivery again, e.g. after fixing the receiver
+router.post('/:id/deliveries/:deliveryId/redeliver', async (req, res) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.id;
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: req.params.deliveryId, endpointId: req.params.id, endpoint: { userId } },
+      select: { id: true },
+    });
+    if (!delivery) {
+      res.status(404).json({ error: 'Delivery not found' });
+      return;
+    }
+
+    res.json(await redeliverWebhook(delivery.id));
+  } catch (error: unknown) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({ error: 'Failed to redeliver webhook' });
+  }
+});
+
+export default router;
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createFakePrisma, type FakePrisma } from '../test/fakePrisma.js';
+
+const db = vi.hoisted(() => ({ current: null as FakePrisma | null }));
+
+vi.mock('../lib/prisma.js', () => ({
+  default: new Proxy({}, { get: (_target, prop) => db.current!.client[prop] }),
+}));
+
+import { chat, chatJson, embedTexts, getAiUsage, registerAiProvider, type AiProvider } from './aiProvider.js';
+import { fakeAiProvider } from './fakeAi.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function today(offsetDays = 0): string {
+  return new Date(Date.now() + offsetDays * DAY).toISOString().slice(0, 10);
+}
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+/** The fake provider behind spies, under its own name so the test can count and fail calls */
+function spyProvider(name: string) {
+  const provider = {
+    name,
+    isConfigured: () => true,
+    chat: vi.fn(fakeAiProvider.chat),
+    embed: vi.fn(fakeAiProvider.embed),
+  } satisfies AiProvider;
+  registerAiProvider(provider);
+  vi.stubEnv('AI_PROVIDER', name);
+  return provider;
+}
+
+function usageRows() {
+  return db.current!.tables.aiUsage ?? [];
+}
+
+beforeEach(() => {
+  db.current = createFakePrisma({}, { aiUsage: { calls: 0, cachedCalls: 0, errors: 0, inputTokens: 0, outputTokens: 0 } });
+  vi.stubEnv('AI_PROVIDER', 'fake');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('fake provider', () => {
+  it('fills a JSON schema from the quoted query', async () => {
+    const reply = await chatJson<{ keywords: string[]; intent: string; location: string; remote: boolean; limit: number }>({
+      purpose: 'parse-query',
+      messages: [
+        { role: 'system', content: 'Parse the search query.' },
+        { role: 'user', content: 'Query: "Fintech founders in Berlin"' },
+      ],
+      jsonSchema: {
+        name: 'query',
+        schema: {
+          type: 'object',
+          properties: {
+            keywords: { type: 'array', items: { type: 'string' } },
+            intent: { type: 'string', enum: ['people', 'companies'] },
+            location: { type: 'string' },
+            remote: { type: 'boolean' },
+            limit: { type: 'integer' },
+          },
+        },
+      },
+    });
+
+    expect(reply).toEqual({ keywords: ['fintech', 'founders', 'in', 'berlin'], intent: 'people', location: '', remote: false, limit: 0 });
+  });
+
+  it('echoes the start of the last user message in plain chat', async () => {
+    const reply = await chat({
+      purpose: 'echo',
+      messages: [
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: 'ok' },
+        { role: 'user', content: '  Summarise   this\nwebsite  ' },
+      ],
+    });
+
+    expect(reply).toBe('Summarise this website');
+  });
+
+  it('embeds texts that share words closer together', async () => {
+    const [fintech, payments, bakery] = await embedTexts(
+      ['fintech payments startup in berlin', 'payments startup berlin', 'family bakery in lyon'],
+      'similarity',
+    );
+
+    expect(fintech).toHaveLength(1536);
+    expect(cosine(fintech, fintech)).toBeCloseTo(1);
+    expect(cosine(fintech, payments)).toBeGreaterThan(0.7);
+    expect(cosine(fintech, bakery)).toBeLessThan(0.3);
+    expect((await embedTexts(['payments startup berlin'], 'similarity'))[0]).toEqual(payments);
+  });
+});
+
+describe('caching and usage', () => {
+  it('answers a repeated chat request from the cache and counts it', async () => {
+    const provider = spyProvider('cached-chat');
+    const request = { purpose: 'summary', messages: [{ role: 'user' as const, content: 'Describe "acme.com"' }] };
+
+    const first = await chat(request);
+    const second = await chat(request);
+
+    expect(second).toBe(first);
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+    expect(usageRows()).toEqual([
+      expect.objectContaining({
+        date: today(), provider: 'cached-chat', model: 'gpt-4o-mini', purpose: 'summary',
+        calls: 1, cachedCalls: 1, errors: 0, inputTokens: 5, outputTokens: 5,
+      }),
+    ]);
+  });
+
+  it('shares one request between concurrent identical calls', async () => {
+    const provider = spyProvider('shared-chat');
+    const request = { purpose: 'summary', messages: [{ role: 'user' as const, content: 'Describe "globex.com"' }] };
+
+    const replies = await Promise.all([chat(request), chat(request), chat(request)]);
+
+    expect(new Set(replies).size).toBe(1);
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+    expect(usageRows()[0]).toMatchObject({ calls: 1, cachedCalls: 2 });
+  });
+
+  it('does not cache failures', async () => {
+    const provider = spyProvider('flaky-chat');
+    provider.chat.mockRejectedValueOnce(new Error('rate limited'));
+    const request = { purpose: 'summary', messages: [{ role: 'user' as const, content: 'Describe "initech.com"' }] };
+
+    await expect(chat(request)).rejects.toThrow('rate limited');
+    expect(await chat(request)).toBe('Describe "initech.com"');
+
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+    expect(usageRows()[0]).toMatchObject({ calls: 1, cachedCalls: 0, errors: 1 });
+  });
+
+  it('sends only uncached texts for embedding, in one request', async () => {
+    const provider = spyProvider('cached-embed');
+
+    await embedTexts(['alpha', 'beta'], 'embed-company');
+    const vectors = await embedTexts(['beta', 'gamma', 'alpha', 'delta'], 'embed-company');
+
+    expect(vectors).toHaveLength(4);
+    expect(provider.embed.mock.calls.map(([, texts]) => texts)).toEqual([['alpha', 'beta'], ['gamma', 'delta']]);
+    expect(usageRows()[0]).toMatchObject({ calls: 2, cachedCalls: 2, errors: 0, outputTokens: 0 });
+  });
+
+  it('still answers when the usage write fails', async () => {
+    db.current!.client.aiUsage.upsert = () => Promise.reject(new Error('database is down'));
+
+    expect(await chat({ purpose: 'echo', messages: [{ role: 'user', content: 'still answers' }] })).toBe('still answers');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(console.error).toHaveBeenCalledWith('[ai] Failed to record usage:', 'database is down');
+  });
+});
+
+describe('getAiUsage', () => {
+  it('sums the days in range and estimates cost from the tokens', async () => {
+    db.current!.seed('aiUsage', [
+      { date: today(), provider: 'openai', model: 'gpt-4o-mini', purpose: 'parse-query', calls: 10, cachedCalls: 4, errors: 1, inputTokens: 600_000, outputTokens: 200_000 },
+      { date: today(-6), provider: 'openai', model: 'gpt-4o-mini', purpose: 'parse-query', calls: 5, cachedCalls: 0, errors: 0, inputTokens: 400_000, outputTokens: 300_000 },
+      { date: today(-7), provider: 'openai', model: 'gpt-4o-mini', purpose: 'parse-query', calls: 99, cachedCalls: 0, errors: 0, inputTokens: 9_000_000, outputTokens: 0 },
+      { date: today(-1), provider: 'openai', model: 'custom-model', purpose: 'summary', calls: 2, cachedCalls: 0, errors: 0, inputTokens: 100, outputTokens: 100 },
+      { date: today(-2), provider: 'fake', model: 'gpt-4o-mini', purpose: 'summary', calls: 1, cachedCalls: 0, errors: 0, inputTokens: 100, outputTokens: 100 },
+    ]);
+
+    const report = await getAiUsage(7);
+
+    expect(report).toMatchObject({ since: today(-6), days: 7, provider: 'fake', configured: true, totalCostUsd: 0.45 });
+    expect(report.rows).toEqual([
+      { provider: 'openai', model: 'gpt-4o-mini', purpose: 'parse-query', calls: 15, cachedCalls: 4, errors: 1, inputTokens: 1_000_000, outputTokens: 500_000, costUsd: 0.45 },
+      { provider: 'openai', model: 'custom-model', purpose: 'summary', calls: 2, cachedCalls: 0, errors: 0, inputTokens: 100, outputTokens: 100, costUsd: null },
+      { provider: 'fake', model: 'gpt-4o-mini', purpose: 'summary', calls: 1, cachedCalls: 0, errors: 0, inputTokens: 100, outputTokens: 100, costUsd: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,353 @@
+import crypto from 'crypto';
+import OpenAI from 'openai';
+import prisma from '../lib/prisma.js';
+import { fakeAiProvider } from './fakeAi.js';
+
+/**
+ * Chat, structured output and embeddings behind one interface, used by the
+ * AI routes, embeddings and the website summariser.
+ *
+ * - `AI_PROVIDER` picks the provider. Without it, OpenAI is used when
+ *   OPENAI_API_KEY is set, and outside production the offline `fake` provider
+ *   otherwise (see fakeAi.ts).
+ * - Models come from `AI_CHAT_MODEL` and `AI_EMBEDDING_MODEL`. Stored vectors
+ *   are vector(1536), so the embedding model must produce 1536 dimensions.
+ * - Every call is logged with its tokens and estimated cost, and counted per
+ *   day, provider, model and purpose in `ai_usage` (`getAiUsage`).
+ * - Identical prompts and texts are answered from an in-memory cache for an
+ *   hour, including calls still in flight.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  /** What the call is for (e.g. 'parse-query'); usage is counted per purpose */
+  purpose: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for JSON that strictly matches this schema */
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AiProvider {
+  name: string;
+  /** Whether the provider has what it needs to run (API key etc.) */
+  isConfigured: () => boolean;
+  chat: (model: string, request: ChatRequest) => Promise<{ content: string | null; usage: TokenUsage }>;
+  /** One vector per text, in order */
+  embed: (model: string, texts: string[]) => Promise<{ vectors: number[][]; usage: TokenUsage }>;
+}
+
+export interface AiUsageRow {
+  provider: string;
+  model: string;
+  purpose: string;
+  calls: number;
+  cachedCalls: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from list prices; null for models without a known price */
+  costUsd: number | null;
+}
+
+// USD per million tokens
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+};
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const AI_USAGE_MAX_DAYS = 365;
+const CHAT_CACHE_SIZE = 500;
+const EMBEDDING_CACHE_SIZE = 1000;
+
+// ─── Providers ───────────────────────────────────────────────────────────────
+
+// Lazy-init so the key is read when first used
+let _openai: OpenAI | null = null;
+function getOpenAI(): OpenAI {
+  if (!_openai) _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return _openai;
+}
+
+const openAIProvider: AiProvider = {
+  name: 'openai',
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+
+  async chat(model, request) {
+    const completion = await getOpenAI().chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.jsonSchema && {
+        response_format: {
+          type: 'json_schema' as const,
+          json_schema: { name: request.jsonSchema.name, strict: true, schema: request.jsonSchema.schema },
+        },
+      }),
+    });
+    return {
+      content: completion.choices[0]?.message?.content ?? null,
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      },
+    };
+  },
+
+  async embed(model, texts) {
+    const response = await getOpenAI().embeddings.create({ model, input: texts });
+    return {
+      vectors: response.data.map(d => d.embedding),
+      usage: { inputTokens: response.usage?.prompt_tokens ?? 0, outputTokens: 0 },
+    };
+  },
+};
+
+const providers = new Map<string, AiProvider>([
+  [openAIProvider.name, openAIProvider],
+  [fakeAiProvider.name, fakeAiProvider],
+]);
+
+export function registerAiProvider(provider: AiProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/** The provider `AI_PROVIDER` (or its absence) selects, configured or not */
+export function getAiProviderName(): string {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  if (configured) return configured;
+  if (openAIProvider.isConfigured() || process.env.NODE_ENV === 'production') return openAIProvider.name;
+  return fakeAiProvider.name;
+}
+
+/** The provider in use, or null if it is unknown or not configured */
+function getProvider(): AiProvider | null {
+  const provider = providers.get(getAiProviderName());
+  return provider?.isConfigured() ? provider : null;
+}
+
+function requireProvider(): AiProvider {
+  const provider = getProvider();
+  if (!provider) throw new Error(`AI provider "${getAiProviderName()}" is not configured`);
+  return provider;
+}
+
+/** Whether chat and embeddings can run; callers skip AI features when not */
+export function isAiConfigured(): boolean {
+  return getProvider() !== null;
+}
+
+export function getAiModels() {
+  return {
+    chat: process.env.AI_CHAT_MODEL || 'gpt-4o-mini',
+    embedding: process.env.AI_EMBEDDING_MODEL || 'text-embedding-3-small',
+  };
+}
+
+// ─── Usage accounting ────────────────────────────────────────────────────────
+
+type UsageCounts = Partial<Pick<AiUsageRow, 'calls' | 'cachedCalls' | 'errors' | 'inputTokens' | 'outputTokens'>>;
+
+/** Add to today's counters (fire-and-forget; a failed write only loses the count) */
+function countUsage(provider: string, model: string, purpose: string, counts: UsageCounts): void {
+  const date = new Date().toISOString().slice(0, 10);
+  prisma.aiUsage.upsert({
+    where: { date_provider_model_purpose: { date, provider, model, purpose } },
+    update: Object.fromEntries(Object.entries(counts).map(([field, n]) => [field, { increment: n }])),
+    create: { date, provider, model, purpose, ...counts },
+  }).catch(err => console.error('[ai] Failed to record usage:', err.message));
+}
+
+function estimateCost(provider: string, model: string, tokens: TokenUsage): number | null {
+  if (provider === fakeAiProvider.name) return 0;
+  const price = MODEL_PRICES[model];
+  if (!price) return null;
+  return (tokens.inputTokens * price.input + tokens.outputTokens * price.output) / 1_000_000;
+}
+
+function roundUsd(usd: number): number {
+  return Math.round(usd * 1_000_000) / 1_000_000;
+}
+
+function recordCall(provider: string, model: string, purpose: string, tokens: TokenUsage, startedAt: number): void {
+  countUsage(provider, model, purpose, { calls: 1, ...tokens });
+
+  const cost = estimateCost(provider, model, tokens);
+  const costText = cost === null ? 'unknown cost' : `$${cost.toFixed(6)}`;
+  console.log(`[ai] ${purpose} ${provider}/${model}: ${tokens.inputTokens}+${tokens.outputTokens} tokens, ${costText}, ${Date.now() - startedAt}ms`);
+}
+
+/**
+ * Calls, tokens and estimated cost per provider, model and purpose over the
+ * last `days` days (UTC), today included. Cost is worked out from the summed
+ * tokens at today's list prices.
+ */
+export async function getAiUsage(days = 30) {
+  const since = new Date(Date.now() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+  const groups = await prisma.aiUsage.groupBy({
+    by: ['provider', 'model', 'purpose'],
+    where: { date: { gte: since } },
+    _sum: { calls: true, cachedCalls: true, errors: true, inputTokens: true, outputTokens: true },
+  });
+
+  const rows: AiUsageRow[] = groups
+    .map(({ provider, model, purpose, _sum }) => {
+      const tokens = { inputTokens: _sum.inputTokens ?? 0, outputTokens: _sum.outputTokens ?? 0 };
+      const cost = estimateCost(provider, model, tokens);
+      return {
+        provider,
+        model,
+        purpose,
+        calls: _sum.calls ?? 0,
+        cachedCalls: _sum.cachedCalls ?? 0,
+        errors: _sum.errors ?? 0,
+        ...tokens,
+        costUsd: cost === null ? null : roundUsd(cost),
+      };
+    })
+    .sort((a, b) => b.calls + b.cachedCalls - (a.calls + a.cachedCalls));
+
+  return {
+    since,
+    days,
+    provider: getAiProviderName(),
+    configured: isAiConfigured(),
+    models: getAiModels(),
+    totalCostUsd: roundUsd(rows.reduce((sum, r) => sum + (r.costUsd ?? 0), 0)),
+    rows,
+  };
+}
+
+// ─── Cache ───────────────────────────────────────────────────────────────────
+
+/** Least-recently-used cache of promises, so concurrent identical calls share one request */
+function createCache<T>(maxEntries: number) {
+  const entries = new Map<string, { value: Promise<T>; expiresAt: number }>();
+  return {
+    get(key: string): Promise<T> | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt < Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key: string, value: Promise<T>): void {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+      // Failures aren't worth remembering
+      value.catch(() => { if (entries.get(key)?.value === value) entries.delete(key); });
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+  };
+}
+
+const chatCache = createCache<string | null>(CHAT_CACHE_SIZE);
+const embeddingCache = createCache<number[]>(EMBEDDING_CACHE_SIZE);
+
+function cacheKey(...parts: unknown[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+// ─── Calls ───────────────────────────────────────────────────────────────────
+
+/** The reply to `request`, or null if the model returned nothing */
+export async function chat(request: ChatRequest): Promise<string | null> {
+  const provider = requireProvider();
+  const model = getAiModels().chat;
+  const key = cacheKey(provider.name, model, request.messages, request.jsonSchema, request.temperature, request.maxTokens);
+
+  const cached = chatCache.get(key);
+  if (cached) {
+    countUsage(provider.name, model, request.purpose, { cachedCalls: 1 });
+    return cached;
+  }
+
+  const startedAt = Date.now();
+  const pending = provider.chat(model, request).then(
+    ({ content, usage: tokens }) => {
+      recordCall(provider.name, model, request.purpose, tokens, startedAt);
+      return content;
+    },
+    err => {
+      countUsage(provider.name, model, request.purpose, { errors: 1 });
+      throw err;
+    },
+  );
+  chatCache.set(key, pending);
+  return pending;
+}
+
+/** The reply to `request` parsed as JSON matching `request.jsonSchema`, or null if empty */
+export async function chatJson<T>(request: ChatRequest & { jsonSchema: NonNullable<ChatRequest['jsonSchema']> }): Promise<T | null> {
+  const content = await chat(request);
+  return content ? (JSON.parse(content) as T) : null;
+}
+
+/** One embedding per text, in order. Texts embedded recently come from the cache. */
+export async function embedTexts(texts: string[], purpose: string): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  const provider = requireProvider();
+  const model = getAiModels().embedding;
+
+  // Texts not in the cache go out in one request; each gets a promise for its own vector
+  let resolveBatch!: (vectors: number[][]) => void;
+  let rejectBatch!: (err: unknown) => void;
+  const batch = new Promise<number[][]>((resolve, reject) => {
+    resolveBatch = resolve;
+    rejectBatch = reject;
+  });
+  batch.catch(() => {});
+
+  const vectors: Promise<number[]>[] = [];
+  const missing: string[] = [];
+  for (const text of texts) {
+    const key = cacheKey(provider.name, model, text);
+    const cached = embeddingCache.get(key);
+    if (cached) {
+      vectors.push(cached);
+      continue;
+    }
+    const index = missing.push(text) - 1;
+    const vector = batch.then(result => result[index]);
+    embeddingCache.set(key, vector);
+    vectors.push(vector);
+  }
+
+  if (texts.length > missing.length) countUsage(provider.name, model, purpose, { cachedCalls: texts.length - missing.length });
+
+  if (missing.length > 0) {
+    const startedAt = Date.now();
+    provider.embed(model, missing).then(
+      ({ vectors: result, usage: tokens }) => {
+        recordCall(provider.name, model, purpose, tokens, startedAt);
+        resolveBatch(result);
+      },
+      err => {
+        countUsage(provider.name, model, purpose, { errors: 1 });
+        rejectBatch(err);
+      },
+    );
+  }
+
+  return Promise.all(vectors);
+}
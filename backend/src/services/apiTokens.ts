@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import prisma from '../lib/prisma.js';
+
+/**
+ * Personal access tokens. A token is sent as `Authorization: Bearer <token>`
+ * and only reaches the routes its scopes list below — everything else,
+ * including managing tokens and webhooks, needs a signed-in session.
+ */
+
+// ─── Scopes ──────────────────────────────────────────────────────────────────
+
+export const API_TOKEN_SCOPES = ['network:read', 'requests:write', 'spaces:manage'] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+interface RouteRule {
+  methods: string[];
+  path: RegExp;
+}
+
+const under = (base: string) => new RegExp(`^${base.replace(/\//g, '\\/')}(\\/|$)`);
+
+const SCOPE_ROUTES: Record<ApiTokenScope, RouteRule[]> = {
+  // Own contacts and companies, warm paths, and reach through connections and spaces
+  'network:read': [
+    { methods: ['GET'], path: under('/api/relationships') },
+    { methods: ['GET'], path: under('/api/connections') },
+    { methods: ['GET'], path: under('/api/spaces') },
+    { methods: ['POST'], path: under('/api/search') },
+  ],
+  // File and follow intro requests
+  'requests:write': [
+    { methods: ['GET', 'POST', 'PATCH'], path: under('/api/requests') },
+    { methods: ['GET'], path: under('/api/request-templates') },
+  ],
+  'spaces:manage': [
+    { methods: ['GET', 'POST', 'PATCH', 'DELETE'], path: under('/api/spaces') },
+  ],
+};
+
+// Any token may ask who it belongs to
+const ALWAYS_ALLOWED: RouteRule[] = [{ methods: ['GET'], path: /^\/auth\/me$/ }];
+
+export function apiTokenAllows(scopes: string[], method: string, url: string): boolean {
+  const path = url.split('?')[0];
+  const rules = [
+    ...ALWAYS_ALLOWED,
+    ...scopes.flatMap(scope => SCOPE_ROUTES[scope as ApiTokenScope] || []),
+  ];
+  return rules.some(rule => rule.methods.includes(method) && rule.path.test(path));
+}
+
+export function validateApiTokenScopes(scopes: string[]): string | null {
+  for (const scope of scopes) {
+    if (!(API_TOKEN_SCOPES as readonly string[]).includes(scope)) {
+      return `Unknown scope: ${scope}. Use ${API_TOKEN_SCOPES.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+// ─── Tokens ──────────────────────────────────────────────────────────────────
+
+const TOKEN_PREFIX = 'intro_pat_';
+/** Tokens a user can have at once (revoked and expired ones don't count) */
+export const MAX_API_TOKENS = 20;
+// lastUsedAt is written at most this often per token
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX);
+}
+
+function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+/** The token's row if it exists, isn't revoked and hasn't expired; records the use */
+export async function findActiveApiToken(token: string) {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    select: { id: true, userId: true, scopes: true, expiresAt: true, revokedAt: true, lastUsedAt: true },
+  });
+  const now = new Date();
+  if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= now)) return null;
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    prisma.apiToken.update({ where: { id: apiToken.id }, data: { lastUsedAt: now } }).catch(() => {});
+  }
+  return apiToken;
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { calendar_v3 } from 'googleapis';
+import { createFakePrisma, type FakePrisma } from '../test/fakePrisma.js';
+
+const db = vi.hoisted(() => ({ current: null as FakePrisma | null }));
+
+vi.mock('../lib/prisma.js', () => ({
+  default: new Proxy({}, { get: (_target, prop) => db.current!.client[prop] }),
+}));
+
+import { syncCalendarAccount, type CalendarClient, type CalendarEventsPage } from './calendar.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const USER_ID = 'user_1';
+const ACCOUNT_ID = 'account_1';
+
+function event(id: string, daysFromNow: number, attendees: string[], extra: calendar_v3.Schema$Event = {}): calendar_v3.Schema$Event {
+  return {
+    id,
+    status: 'confirmed',
+    summary: `Meeting ${id}`,
+    start: { dateTime: new Date(Date.now() + daysFromNow * DAY).toISOString() },
+    end: { dateTime: new Date(Date.now() + daysFromNow * DAY + 30 * 60 * 1000).toISOString() },
+    organizer: { email: 'me@home.io', self: true },
+    attendees: [{ email: 'me@home.io', self: true }, ...attendees.map(email => ({ email }))],
+    ...extra,
+  };
+}
+
+/** Serves `full` to requests without a sync token and `incremental` (or its error) to the rest */
+function fakeClient(pages: { full?: CalendarEventsPage; incremental?: CalendarEventsPage | Error }) {
+  const calls: { syncToken?: string; timeMin?: string; pageToken?: string }[] = [];
+  const client: CalendarClient = {
+    async listEvents(params) {
+      calls.push(params);
+      const page = params.syncToken ? pages.incremental : pages.full;
+      if (!page) throw new Error('unexpected listEvents call');
+      if (page instanceof Error) throw page;
+      return page;
+    },
+  };
+  return { client, calls };
+}
+
+function seedAccount(syncToken: string | null) {
+  db.current!.seed('user', [{ id: USER_ID, email: 'me@home.io' }]);
+  db.current!.seed('calendarAccount', [{
+    id: ACCOUNT_ID, userId: USER_ID, email: 'me@home.io', googleAccessToken: 'token',
+    syncToken, lastSyncedAt: syncToken ? new Date(Date.now() - DAY) : null, isActive: true,
+  }]);
+}
+
+function meetings() {
+  return db.current!.tables.meeting ?? [];
+}
+
+function contactByEmail(email: string) {
+  return db.current!.tables.contact.find(c => c.email === email)!;
+}
+
+beforeEach(() => {
+  db.current = createFakePrisma({
+    meeting: { contact: { model: 'contact', foreignKey: 'contactId' } },
+    contact: {
+      meetings: { model: 'meeting', many: true, foreignKey: 'contactId' },
+      sourceAccounts: { model: 'calendarAccount', many: true },
+    },
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('syncCalendarAccount', () => {
+  it('runs a full sync on the first run and stores the sync token', async () => {
+    seedAccount(null);
+    const { client, calls } = fakeClient({
+      full: {
+        items: [
+          event('e1', -10, ['ana@acme.com', 'bo@acme.com']),
+          event('e2', -3, ['ana@acme.com']),
+          event('e3', 5, ['cy@globex.com']),
+        ],
+        nextSyncToken: 'token-1',
+      },
+    });
+
+    const result = await syncCalendarAccount(USER_ID, ACCOUNT_ID, { client });
+
+    expect(result).toMatchObject({ fullSync: true, eventsProcessed: 3, contactsFound: 3, companiesFound: 2 });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].syncToken).toBeUndefined();
+    expect(calls[0].timeMin).toBeDefined();
+    expect(db.current!.tables.calendarAccount[0].syncToken).toBe('token-1');
+
+    expect(meetings()).toHaveLength(4);
+    const ana = contactByEmail('ana@acme.com');
+    expect(ana.meetingsCount).toBe(2);
+    expect(ana.lastEventTitle).toBe('Meeting e2');
+    expect(ana.sourceAccounts).toEqual([ACCOUNT_ID]);
+  });
+
+  it('does not date a new contact by a meeting that has not happened yet', async () => {
+    seedAccount(null);
+    const { client } = fakeClient({
+      full: { items: [event('e1', 7, ['cy@globex.com'])], nextSyncToken: 'token-1' },
+    });
+
+    await syncCalendarAccount(USER_ID, ACCOUNT_ID, { client });
+
+    const cy = contactByEmail('cy@globex.com');
+    expect(cy.meetingsCount).toBe(0);
+    expect(cy.lastEventTitle ?? null).toBeNull();
+    // Left to the column default rather than next week's date
+    expect(cy.lastSeenAt?.getTime() ?? 0).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('applies changed and cancelled events from the sync token', async () => {
+    seedAccount(null);
+    await syncCalendarAccount(USER_ID, ACCOUNT_ID, {
+      client: fakeClient({
+        full: {
+          items: [event('e1', -10, ['ana@acme.com']), event('e2', -3, ['ana@acme.com', 'bo@acme.com'])],
+          nextSyncToken: 'token-1',
+        },
+      }).client,
+    });
+
+    const { client, calls } = fakeClient({
+      incremental: {
+        items: [
+          event('e1', -10, ['ana@acme.com'], { summary: 'Renamed' }),
+          { id: 'e2', status: 'cancelled' },
+        ],
+        nextSyncToken: 'token-2',
+      },
+    });
+    const result = await syncCalendarAccount(USER_ID, ACCOUNT_ID, { client });
+
+    expect(result.fullSync).toBe(false);
+    expect(calls).toEqual([{ syncToken: 'token-1', pageToken: undefined }]);
+    expect(meetings().map(m => [m.googleEventId, m.title])).toEqual([['e1', 'Renamed']]);
+    expect(contactByEmail('ana@acme.com')).toMatchObject({ meetingsCount: 1, lastEventTitle: 'Renamed' });
+    expect(contactByEmail('bo@acme.com').meetingsCount).toBe(0);
+    expect(db.current!.tables.calendarAccount[0].syncToken).toBe('token-2');
+  });
+
+  it('follows page tokens', async () => {
+    seedAccount('token-1');
+    const pages: Record<string, CalendarEventsPage> = {
+      first: { items: [event('e1', -2, ['ana@acme.com'])], nextPageToken: 'p2' },
+      p2: { items: [event('e2', -1, ['ana@acme.com'])], nextSyncToken: 'token-2' },
+    };
+    const client: CalendarClient = { listEvents: async ({ pageToken }) => pages[pageToken ?? 'first'] };
+
+    const result = await syncCalendarAccount(USER_ID, ACCOUNT_ID, { client });
+
+    expect(result.eventsProcessed).toBe(2);
+    expect(contactByEmail('ana@acme.com').meetingsCount).toBe(2);
+    expect(db.current!.tables.calendarAccount[0].syncToken).toBe('token-2');
+  });
+
+  it('falls back to a full sync when the token has expired and drops events deleted meanwhile', async () => {
+    seedAccount(null);
+    await syncCalendarAccount(USER_ID, ACCOUNT_ID, {
+      client: fakeClient({
+        full: {
+          items: [event('e1', -10, ['ana@acme.com']), event('e2', -3, ['ana@acme.com']), event('e3', -2, ['bo@acme.com'])],
+          nextSyncToken: 'token-1',
+        },
+      }).client,
+    });
+    expect(meetings()).toHaveLength(3);
+
+    // e2 and e3 were deleted while the token was expired, so the full listing no longer has them
+    const { client, calls } = fakeClient({
+      incremental: Object.assign(new Error('Sync token is no longer valid'), { code: 410 }),
+      full: { items: [event('e1', -10, ['ana@acme.com'])], nextSyncToken: 'token-2' },
+    });
+    const result = await syncCalendarAccount(USER_ID, ACCOUNT_ID, { client });
+
+    expect(result.fullSync).toBe(true);
+    expect(calls.map(c => (c.syncToken ? 'incremental' : 'full'))).toEqual(['incremental', 'full']);
+    expect(meetings().map(m => m.googleEventId)).toEqual(['e1']);
+    expect(contactByEmail('ana@acme.com')).toMatchObject({ meetingsCount: 1, lastEventTitle: 'Meeting e1' });
+    expect(contactByEmail('bo@acme.com').meetingsCount).toBe(0);
+    expect(db.current!.tables.calendarAccount[0].syncToken).toBe('token-2');
+  });
+
+  it('keeps meetings of contacts shared with another calendar account on a full resync', async () => {
+    seedAccount(null);
+    db.current!.seed('calendarAccount', [{ id: 'account_2', userId: USER_ID, email: 'me@work.io', isActive: true }]);
+    const [shared] = db.current!.seed('contact', [{
+      userId: USER_ID, email: 'dee@initech.com', meetingsCount: 1, lastSeenAt: new Date(),
+      isApproved: true, sourceAccounts: [ACCOUNT_ID, 'account_2'],
+    }]);
+    db.current!.seed('meeting', [{ contactId: shared.id, googleEventId: 'other', title: 'From work', date: new Date(Date.now() - DAY) }]);
+
+    await syncCalendarAccount(USER_ID, ACCOUNT_ID, {
+      client: fakeClient({ full: { items: [event('e1', -1, ['ana@acme.com'])], nextSyncToken: 'token-1' } }).client,
+    });
+
+    expect(meetings().map(m => m.googleEventId).sort()).toEqual(['e1', 'other']);
+  });
+
+  it('rethrows errors other than an expired token', async () => {
+    seedAccount('token-1');
+    const { client } = fakeClient({ incremental: Object.assign(new Error('Forbidden'), { code: 403 }) });
+
+    await expect(syncCalendarAccount(USER_ID, ACCOUNT_ID, { client })).rejects.toThrow('Forbidden');
+    expect(db.current!.tables.calendarAccount[0].syncToken).toBe('token-1');
+  });
+});
@@ -1,20 +1,27 @@
-import { google } from 'googleapis';
+import { google, calendar_v3 } from 'googleapis';
+import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma.js';
 import { decryptToken, encryptToken } from '../middleware/auth.js';
+import { recomputeRelationships, strengthLabel } from './strength.js';
+import { enqueueJob } from './jobs.js';
+import { getOverriddenFieldsByEmail, splitContactUpdate } from './overrides.js';
 
 interface MeetingInfo {
+  eventId: string;
   title: string;
   date: Date;
   duration?: number;
   description?: string;
+  attendeeCount?: number;
+  organizedByUser?: boolean;
 }
 
 interface CalendarContact {
   email: string;
   name?: string;
   domain: string;
-  meetingsCount: number;
-  lastSeenAt: Date;
+  // From meetings that have already happened; unset if all of them are upcoming
+  lastSeenAt?: Date;
   lastEventTitle?: string;
   meetings: MeetingInfo[];
 }
@@ -54,7 +61,7 @@ function isBusinessEmail(email: string): boolean {
   return true;
 }
 
-function normalizeCompanyName(domain: string): string {
+export function normalizeCompanyName(domain: string): string {
   // Remove everything after the last dot (any TLD)
   const withoutTld = domain.replace(/\.[^.]+$/, '');
   // If there's still a dot (e.g. "co.uk" → remove secondary TLD too)
@@ -66,204 +73,202 @@ function normalizeCompanyName(domain: string): string {
   return name;
 }
 
-export async function syncCalendarForUser(userId: string): Promise<{
-  contactsFound: number;
-  companiesFound: number;
-  relationshipsCreated: number;
-}> {
-  // Get user basic info
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { id: true, email: true, googleAccessToken: true, googleRefreshToken: true },
-  });
+// ─── Incremental event sync ──────────────────────────────────────────────────
 
-  if (!user) {
-    throw new Error('User not found');
-  }
+/** One page of `events.list` output, in the shape the sync consumes. */
+export interface CalendarEventsPage {
+  items: calendar_v3.Schema$Event[];
+  nextPageToken?: string | null;
+  nextSyncToken?: string | null;
+}
 
-  // Try to read tokens from CalendarAccount first (single source of truth)
-  const existingAccount = await prisma.calendarAccount.findUnique({
-    where: { userId_email: { userId, email: user.email } },
-    select: { id: true, googleAccessToken: true, googleRefreshToken: true },
-  });
+/**
+ * The slice of the Google Calendar API the sync depends on. Production code
+ * wraps googleapis via createGoogleCalendarClient; tests can pass a fake that
+ * serves canned pages (and throws `{ code: 410 }` to simulate an expired token).
+ */
+export interface CalendarClient {
+  listEvents(params: { syncToken?: string; timeMin?: string; pageToken?: string }): Promise<CalendarEventsPage>;
+}
 
-  const encryptedAccessToken = existingAccount?.googleAccessToken || user.googleAccessToken;
-  const encryptedRefreshToken = existingAccount?.googleRefreshToken || user.googleRefreshToken;
+export interface CalendarSyncOptions {
+  client?: CalendarClient;
+}
 
-  if (!encryptedAccessToken) {
-    throw new Error('User has no Google access token');
-  }
+interface SyncTarget {
+  userId: string;
+  accountId: string;
+  accountEmail: string;
+  syncToken: string | null;
+  lastSyncedAt: Date | null;
+  contactSource?: { source: string; sourceAccountId: string };
+}
 
-  const accessToken = decryptToken(encryptedAccessToken);
-  const refreshToken = encryptedRefreshToken ? decryptToken(encryptedRefreshToken) : null;
+// How far back the initial full sync reaches
+const FULL_SYNC_LOOKBACK_MS = 5 * 365 * 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 50;
 
-  if (!accessToken) {
-    // Token decryption failed — clear both sources and force re-auth
-    await prisma.$transaction([
-      prisma.user.update({
-        where: { id: userId },
-        data: { googleAccessToken: null, googleRefreshToken: null },
-      }),
-      ...(existingAccount
-        ? [prisma.calendarAccount.update({
-            where: { id: existingAccount.id },
-            data: { googleAccessToken: '', googleRefreshToken: null },
-          })]
-        : []),
-    ]);
-    const error = new Error('Calendar access expired. Please sign out and sign in again.');
-    (error as any).code = 401;
-    throw error;
-  }
+export function createGoogleCalendarClient(calendar: calendar_v3.Calendar): CalendarClient {
+  return {
+    async listEvents({ syncToken, timeMin, pageToken }) {
+      // orderBy/timeMax are not allowed alongside sync tokens, so neither is used
+      const response = await calendar.events.list({
+        calendarId: 'primary',
+        maxResults: 250,
+        singleEvents: true,
+        ...(syncToken ? { syncToken } : { timeMin }),
+        pageToken,
+      });
+      return {
+        items: response.data.items || [],
+        nextPageToken: response.data.nextPageToken,
+        nextSyncToken: response.data.nextSyncToken,
+      };
+    },
+  };
+}
 
-  // Set up OAuth2 client
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET
-  );
+function isSyncTokenExpired(error: unknown): boolean {
+  const code = (error as { code?: number })?.code;
+  const status = (error as { status?: number })?.status;
+  const httpStatus = (error as { response?: { status?: number } })?.response?.status;
+  return code === 410 || status === 410 || httpStatus === 410;
+}
 
-  oauth2Client.setCredentials({
-    access_token: accessToken,
-    refresh_token: refreshToken,
-  });
+async function listAllEvents(client: CalendarClient, params: { syncToken?: string; timeMin?: string }) {
+  const events: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | null = null;
 
-  // Handle token refresh — write to CalendarAccount as the canonical source
-  oauth2Client.on('tokens', async (tokens) => {
-    if (tokens.access_token) {
-      const encryptedAccess = encryptToken(tokens.access_token);
-      const encryptedRefresh = tokens.refresh_token
-        ? encryptToken(tokens.refresh_token)
-        : encryptedRefreshToken;
+  do {
+    const page = await client.listEvents({ ...params, pageToken });
+    events.push(...page.items);
+    pageToken = page.nextPageToken || undefined;
+    nextSyncToken = page.nextSyncToken || nextSyncToken;
+  } while (pageToken);
 
-      // Update CalendarAccount (primary source)
-      if (existingAccount) {
-        await prisma.calendarAccount.update({
-          where: { id: existingAccount.id },
-          data: { googleAccessToken: encryptedAccess, googleRefreshToken: encryptedRefresh },
-        });
-      }
-      // Also update User for backward compat (will be removed in future)
-      await prisma.user.update({
-        where: { id: userId },
-        data: { googleAccessToken: encryptedAccess, googleRefreshToken: encryptedRefresh },
-      });
+  return { events, nextSyncToken };
+}
+
+/**
+ * Fetch events changed since the stored sync token, or every event in the
+ * lookback window when there is no token yet (or Google expired it).
+ */
+async function fetchChangedEvents(client: CalendarClient, syncToken: string | null, now: Date) {
+  if (syncToken) {
+    try {
+      const result = await listAllEvents(client, { syncToken });
+      return { ...result, fullSync: false, timeMin: null };
+    } catch (err) {
+      if (!isSyncTokenExpired(err)) throw err;
+      console.log('[calendar] Sync token expired, falling back to full sync');
     }
-  });
+  }
 
-  const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+  const timeMin = new Date(now.getTime() - FULL_SYNC_LOOKBACK_MS);
+  const result = await listAllEvents(client, { timeMin: timeMin.toISOString() });
+  return { ...result, fullSync: true, timeMin };
+}
 
-  // Auto-detect user timezone from Google Calendar settings
-  try {
-    const tzSetting = await calendar.settings.get({ setting: 'timezone' });
-    const tz = tzSetting.data.value;
-    if (tz) {
-      await prisma.user.update({ where: { id: userId }, data: { timezone: tz } });
-    }
-  } catch {
-    // Non-critical — timezone detection failure shouldn't block sync
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
   }
+  return chunks;
+}
 
-  // Fetch events from the past 5 years
-  const now = new Date();
-  const fiveYearsAgo = new Date(now.getTime() - 5 * 365 * 24 * 60 * 60 * 1000);
+/**
+ * Apply one sync run for a calendar account: upsert contacts and companies for
+ * the attendees of changed events, patch Meeting rows keyed by Google event ID,
+ * drop meetings for cancelled events, then recompute the per-contact meeting
+ * stats for every contact that was touched. The new sync token is stored last,
+ * so a failed run is simply retried from the previous token.
+ */
+async function syncAccountEvents(client: CalendarClient, target: SyncTarget, now: Date): Promise<{
+  contactsFound: number;
+  companiesFound: number;
+  eventsProcessed: number;
+  fullSync: boolean;
+}> {
+  const { userId, accountId, accountEmail } = target;
+  const { events, nextSyncToken, fullSync, timeMin } = await fetchChangedEvents(client, target.syncToken, now);
 
   const contactsMap = new Map<string, CalendarContact>();
-  let pageToken: string | undefined;
+  const cancelledEventIds: string[] = [];
+  const activeEventIds: string[] = [];
 
-  do {
-    const response = await calendar.events.list({
-      calendarId: 'primary',
-      timeMin: fiveYearsAgo.toISOString(),
-      timeMax: now.toISOString(),
-      maxResults: 250,
-      singleEvents: true,
-      orderBy: 'startTime',
-      pageToken,
-    });
+  for (const event of events) {
+    if (!event.id) continue;
+    if (event.status === 'cancelled') {
+      cancelledEventIds.push(event.id);
+      continue;
+    }
+    activeEventIds.push(event.id);
 
-    const events = response.data.items || [];
-
-    for (const event of events) {
-      const attendees = event.attendees || [];
-      const eventDate = new Date(event.start?.dateTime || event.start?.date || now);
-      const eventTitle = event.summary || 'Untitled meeting';
-      const eventDescription = event.description || undefined;
-      
-      // Calculate duration in minutes
-      let duration: number | undefined;
-      if (event.start?.dateTime && event.end?.dateTime) {
-        const start = new Date(event.start.dateTime);
-        const end = new Date(event.end.dateTime);
-        duration = Math.round((end.getTime() - start.getTime()) / 60000);
-      }
+    const attendees = event.attendees || [];
+    const eventDate = new Date(event.start?.dateTime || event.start?.date || now);
+    const eventTitle = event.summary || 'Untitled meeting';
+    const isPast = eventDate <= now;
+    const eventDescription = event.description || undefined;
 
-      for (const attendee of attendees) {
-        const email = attendee.email?.toLowerCase();
-        if (!email || email === user.email.toLowerCase() || !isBusinessEmail(email)) {
-          continue;
-        }
+    // Calculate duration in minutes
+    let duration: number | undefined;
+    if (event.start?.dateTime && event.end?.dateTime) {
+      const start = new Date(event.start.dateTime);
+      const end = new Date(event.end.dateTime);
+      duration = Math.round((end.getTime() - start.getTime()) / 60000);
+    }
 
-        const domain = extractDomain(email);
-        const existing = contactsMap.get(email);
-        
-        const meetingInfo: MeetingInfo = {
-          title: eventTitle,
-          date: eventDate,
-          duration,
-          description: eventDescription,
-        };
-
-        if (existing) {
-          existing.meetingsCount++;
-          existing.meetings.push(meetingInfo);
-          if (eventDate > existing.lastSeenAt) {
-            existing.lastSeenAt = eventDate;
-            existing.lastEventTitle = eventTitle;
-            existing.name = attendee.displayName || existing.name;
-          }
-        } else {
-          contactsMap.set(email, {
-            email,
-            name: attendee.displayName || undefined,
-            domain,
-            meetingsCount: 1,
-            lastSeenAt: eventDate,
-            lastEventTitle: eventTitle,
-            meetings: [meetingInfo],
-          });
+    // Feed the strength model: 1:1 vs group, and who asked for the meeting
+    const attendeeCount = attendees.length > 0 ? attendees.length : undefined;
+    const organizerEmail = event.organizer?.email?.toLowerCase();
+    const organizedByUser = event.organizer
+      ? Boolean(event.organizer.self) || organizerEmail === accountEmail.toLowerCase()
+      : undefined;
+
+    for (const attendee of attendees) {
+      const email = attendee.email?.toLowerCase();
+      if (!email || email === accountEmail.toLowerCase() || !isBusinessEmail(email)) {
+        continue;
+      }
+
+      const meetingInfo: MeetingInfo = {
+        eventId: event.id,
+        title: eventTitle,
+        date: eventDate,
+        duration,
+        description: eventDescription,
+        attendeeCount,
+        organizedByUser,
+      };
+
+      const existing = contactsMap.get(email);
+      if (existing) {
+        existing.meetings.push(meetingInfo);
+        if (isPast && (!existing.lastSeenAt || eventDate > existing.lastSeenAt)) {
+          existing.lastSeenAt = eventDate;
+          existing.lastEventTitle = eventTitle;
+          existing.name = attendee.displayName || existing.name;
         }
+      } else {
+        contactsMap.set(email, {
+          email,
+          name: attendee.displayName || undefined,
+          domain: extractDomain(email),
+          lastSeenAt: isPast ? eventDate : undefined,
+          lastEventTitle: isPast ? eventTitle : undefined,
+          meetings: [meetingInfo],
+        });
       }
     }
+  }
 
-    pageToken = response.data.nextPageToken || undefined;
-  } while (pageToken);
-
-  // Process contacts and create/update database records
   const contacts = Array.from(contactsMap.values());
-  const domainsSet = new Set(contacts.map(c => c.domain));
-
-  // Ensure a CalendarAccount exists for the primary email (source tracking + single token source)
-  const primaryAccount = await prisma.calendarAccount.upsert({
-    where: { userId_email: { userId, email: user.email } },
-    update: {
-      googleAccessToken: encryptedAccessToken,
-      googleRefreshToken: encryptedRefreshToken ?? undefined,
-    },
-    create: {
-      userId,
-      email: user.email,
-      googleAccessToken: encryptedAccessToken,
-      googleRefreshToken: encryptedRefreshToken ?? undefined,
-    },
-  });
+  const domains = Array.from(new Set(contacts.map(c => c.domain)));
 
   // Batch upsert companies
-  const companyMap = new Map<string, string>();
-  const domainBatches = Array.from(domainsSet);
-  const BATCH_SIZE = 50;
-
-  for (let i = 0; i < domainBatches.length; i += BATCH_SIZE) {
-    const batch = domainBatches.slice(i, i + BATCH_SIZE);
+  for (const batch of chunk(domains, BATCH_SIZE)) {
     await prisma.$transaction(
       batch.map(domain =>
         prisma.company.upsert({
@@ -275,98 +280,414 @@ export async function syncCalendarForUser(userId: string): Promise<{
     );
   }
 
-  // Fetch all company IDs in one query
-  const allCompanies = await prisma.company.findMany({
-    where: { domain: { in: domainBatches } },
-    select: { id: true, domain: true },
-  });
+  const companyMap = new Map<string, string>();
+  const allCompanies = domains.length > 0
+    ? await prisma.company.findMany({
+        where: { domain: { in: domains } },
+        select: { id: true, domain: true },
+      })
+    : [];
   allCompanies.forEach(c => companyMap.set(c.domain, c.id));
 
-  // Batch upsert contacts in transactions
-  for (let i = 0; i < contacts.length; i += BATCH_SIZE) {
-    const batch = contacts.slice(i, i + BATCH_SIZE);
+  // Contacts whose meeting stats need recomputing at the end of the run
+  const affectedContactIds = new Set<string>();
+  // Every (contact, event) pair the changed events still justify
+  const liveMeetingKeys = new Set<string>();
+
+  for (const batch of chunk(contacts, BATCH_SIZE)) {
+    // The user's own name/company corrections win over what the invite says
+    const overridden = await getOverriddenFieldsByEmail(userId, batch.map(c => c.email));
+    const shadowed: Prisma.PrismaPromise<unknown>[] = [];
 
+    // Stats are placeholders on create; recomputeContactMeetingStats fills them in.
+    // A contact only met in upcoming meetings keeps the default lastSeenAt (when
+    // it was first synced) until one of them has happened.
     const dbContacts = await prisma.$transaction(
       batch.map(contact => {
         const companyId = companyMap.get(contact.domain);
+        const synced = splitContactUpdate({ name: contact.name, companyId }, overridden.get(contact.email));
+        shadowed.push(...synced.shadowed);
         return prisma.contact.upsert({
           where: { userId_email: { userId, email: contact.email } },
           update: {
-            name: contact.name,
-            meetingsCount: contact.meetingsCount,
-            lastSeenAt: contact.lastSeenAt,
-            lastEventTitle: contact.lastEventTitle,
-            companyId,
+            ...synced.data,
             isApproved: true,
+            ...target.contactSource,
           },
           create: {
             userId,
             email: contact.email,
             name: contact.name,
             companyId,
-            meetingsCount: contact.meetingsCount,
-            lastSeenAt: contact.lastSeenAt,
-            lastEventTitle: contact.lastEventTitle,
+            meetingsCount: 0,
+            ...(contact.lastSeenAt && { lastSeenAt: contact.lastSeenAt, lastEventTitle: contact.lastEventTitle }),
             isApproved: true,
+            ...target.contactSource,
           },
         });
       })
     );
+    if (shadowed.length > 0) await prisma.$transaction(shadowed);
 
     // Connect source accounts in batch
     await prisma.$transaction(
       dbContacts.map(c =>
         prisma.contact.update({
           where: { id: c.id },
-          data: { sourceAccounts: { connect: { id: primaryAccount.id } } },
+          data: { sourceAccounts: { connect: { id: accountId } } },
         })
       )
     );
 
-    // Delete old meetings in batch
-    await prisma.meeting.deleteMany({
-      where: { contactId: { in: dbContacts.map(c => c.id) } },
+    const contactIds = dbContacts.map(c => c.id);
+    contactIds.forEach(id => affectedContactIds.add(id));
+
+    // Rows written before meetings were keyed by event ID can't be patched; a
+    // full sync rebuilds them from scratch
+    if (fullSync) {
+      await prisma.meeting.deleteMany({
+        where: { contactId: { in: contactIds }, googleEventId: null },
+      });
+    }
+
+    const incoming = batch.flatMap((contact, idx) =>
+      contact.meetings.map(m => ({ contactId: dbContacts[idx].id, ...m }))
+    );
+    incoming.forEach(m => liveMeetingKeys.add(`${m.contactId}:${m.eventId}`));
+
+    const existingMeetings = await prisma.meeting.findMany({
+      where: {
+        contactId: { in: contactIds },
+        googleEventId: { in: Array.from(new Set(incoming.map(m => m.eventId))) },
+      },
+      select: {
+        id: true, contactId: true, googleEventId: true, title: true, date: true,
+        duration: true, description: true, attendeeCount: true, organizedByUser: true,
+      },
     });
+    const existingByKey = new Map(existingMeetings.map(m => [`${m.contactId}:${m.googleEventId}`, m]));
+
+    const toCreate: typeof incoming = [];
+    const toUpdate: {
+      id: string;
+      title: string;
+      date: Date;
+      duration: number | null;
+      description: string | null;
+      attendeeCount: number | null;
+      organizedByUser: boolean | null;
+    }[] = [];
+    for (const m of incoming) {
+      const existing = existingByKey.get(`${m.contactId}:${m.eventId}`);
+      if (!existing) {
+        toCreate.push(m);
+        continue;
+      }
+      const duration = m.duration ?? null;
+      const description = m.description ?? null;
+      const attendeeCount = m.attendeeCount ?? null;
+      const organizedByUser = m.organizedByUser ?? null;
+      if (
+        existing.title !== m.title ||
+        existing.date.getTime() !== m.date.getTime() ||
+        existing.duration !== duration ||
+        existing.description !== description ||
+        existing.attendeeCount !== attendeeCount ||
+        existing.organizedByUser !== organizedByUser
+      ) {
+        toUpdate.push({ id: existing.id, title: m.title, date: m.date, duration, description, attendeeCount, organizedByUser });
+      }
+    }
 
-    // Bulk insert meetings with createMany
-    const meetingRows: { contactId: string; title: string; date: Date; duration?: number; description?: string }[] = [];
-    batch.forEach((contact, idx) => {
-      const dbContact = dbContacts[idx];
-      const recentMeetings = contact.meetings
-        .sort((a, b) => b.date.getTime() - a.date.getTime())
-        .slice(0, 10);
-      recentMeetings.forEach(m => {
-        meetingRows.push({
-          contactId: dbContact.id,
+    if (toCreate.length > 0) {
+      await prisma.meeting.createMany({
+        data: toCreate.map(m => ({
+          contactId: m.contactId,
+          googleEventId: m.eventId,
           title: m.title,
           date: m.date,
           duration: m.duration,
           description: m.description,
-        });
+          attendeeCount: m.attendeeCount,
+          organizedByUser: m.organizedByUser,
+        })),
+        skipDuplicates: true,
       });
+    }
+
+    for (const updates of chunk(toUpdate, BATCH_SIZE)) {
+      await prisma.$transaction(
+        updates.map(({ id, ...data }) => prisma.meeting.update({ where: { id }, data }))
+      );
+    }
+  }
+
+  // Changed events that lost attendees, plus cancelled events, leave stale rows behind
+  for (const eventIds of chunk(activeEventIds, 500)) {
+    const rows = await prisma.meeting.findMany({
+      where: { googleEventId: { in: eventIds }, contact: { userId } },
+      select: { id: true, contactId: true, googleEventId: true },
+    });
+    const stale = rows.filter(r => !liveMeetingKeys.has(`${r.contactId}:${r.googleEventId}`));
+    if (stale.length > 0) {
+      stale.forEach(r => affectedContactIds.add(r.contactId));
+      await prisma.meeting.deleteMany({ where: { id: { in: stale.map(r => r.id) } } });
+    }
+  }
+
+  for (const eventIds of chunk(cancelledEventIds, 500)) {
+    const rows = await prisma.meeting.findMany({
+      where: { googleEventId: { in: eventIds }, contact: { userId } },
+      select: { id: true, contactId: true },
+    });
+    if (rows.length > 0) {
+      rows.forEach(r => affectedContactIds.add(r.contactId));
+      await prisma.meeting.deleteMany({ where: { id: { in: rows.map(r => r.id) } } });
+    }
+  }
+
+  // A full sync sees every event in its window, so stored meetings in that window
+  // that Google no longer returns were deleted while the sync token was expired.
+  // Contacts shared with another calendar account are left alone: their meetings
+  // may come from that account's events.
+  if (fullSync && timeMin) {
+    const fetchedEventIds = new Set(activeEventIds);
+    const rows = await prisma.meeting.findMany({
+      where: {
+        googleEventId: { not: null },
+        date: { gte: timeMin },
+        contact: { userId, sourceAccounts: { some: { id: accountId }, every: { id: accountId } } },
+      },
+      select: { id: true, contactId: true, googleEventId: true },
+    });
+    const missing = rows.filter(r => !fetchedEventIds.has(r.googleEventId!));
+    for (const batch of chunk(missing, 500)) {
+      batch.forEach(r => affectedContactIds.add(r.contactId));
+      await prisma.meeting.deleteMany({ where: { id: { in: batch.map(r => r.id) } } });
+    }
+  }
+
+  // Upcoming meetings are stored as soon as they're scheduled but only count once
+  // they've happened, and Google won't report them again when that moment passes
+  if (target.lastSyncedAt && !fullSync) {
+    const elapsed = await prisma.meeting.findMany({
+      where: { contact: { userId }, date: { gt: target.lastSyncedAt, lte: now } },
+      select: { contactId: true },
+      distinct: ['contactId'],
+    });
+    elapsed.forEach(m => affectedContactIds.add(m.contactId));
+  }
+
+  await recomputeContactMeetingStats(Array.from(affectedContactIds), now);
+
+  // Company-level strength is built from the same meetings, so refresh it too
+  const touchedCompanyIds = new Set<string>();
+  for (const ids of chunk(Array.from(affectedContactIds), 500)) {
+    const rows = await prisma.contact.findMany({
+      where: { id: { in: ids }, companyId: { not: null } },
+      select: { companyId: true },
+      distinct: ['companyId'],
+    });
+    rows.forEach(r => touchedCompanyIds.add(r.companyId!));
+  }
+  await recomputeRelationships(userId, Array.from(touchedCompanyIds), now);
+
+  await prisma.calendarAccount.update({
+    where: { id: accountId },
+    data: {
+      lastSyncedAt: now,
+      // Keep the previous token if Google didn't hand out a new one
+      ...(nextSyncToken ? { syncToken: nextSyncToken } : {}),
+    },
+  });
+
+  return {
+    contactsFound: contacts.length,
+    companiesFound: domains.length,
+    eventsProcessed: events.length,
+    fullSync,
+  };
+}
+
+/**
+ * Derive meetingsCount, lastSeenAt and lastEventTitle from the stored meetings
+ * that have already taken place.
+ */
+async function recomputeContactMeetingStats(contactIds: string[], now: Date) {
+  for (const ids of chunk(contactIds, 500)) {
+    const [counts, latest] = await Promise.all([
+      prisma.meeting.groupBy({
+        by: ['contactId'],
+        where: { contactId: { in: ids }, date: { lte: now } },
+        _count: { _all: true },
+      }),
+      prisma.meeting.findMany({
+        where: { contactId: { in: ids }, date: { lte: now } },
+        orderBy: { date: 'desc' },
+        distinct: ['contactId'],
+        select: { contactId: true, title: true, date: true },
+      }),
+    ]);
+    const countMap = new Map(counts.map(c => [c.contactId, c._count._all]));
+    const latestMap = new Map(latest.map(m => [m.contactId, m]));
+
+    for (const batch of chunk(ids, BATCH_SIZE)) {
+      await prisma.$transaction(
+        batch.map(id => {
+          const last = latestMap.get(id);
+          return prisma.contact.update({
+            where: { id },
+            data: {
+              meetingsCount: countMap.get(id) ?? 0,
+              ...(last ? { lastSeenAt: last.date, lastEventTitle: last.title } : {}),
+            },
+          });
+        })
+      );
+    }
+  }
+}
+
+export async function syncCalendarForUser(userId: string, options: CalendarSyncOptions = {}): Promise<{
+  contactsFound: number;
+  companiesFound: number;
+  relationshipsCreated: number;
+  eventsProcessed: number;
+  fullSync: boolean;
+}> {
+  // Get user basic info
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, googleAccessToken: true, googleRefreshToken: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  // Try to read tokens from CalendarAccount first (single source of truth)
+  const existingAccount = await prisma.calendarAccount.findUnique({
+    where: { userId_email: { userId, email: user.email } },
+    select: { id: true, googleAccessToken: true, googleRefreshToken: true },
+  });
+
+  const encryptedAccessToken = existingAccount?.googleAccessToken || user.googleAccessToken;
+  const encryptedRefreshToken = existingAccount?.googleRefreshToken || user.googleRefreshToken;
+
+  if (!encryptedAccessToken) {
+    throw new Error('User has no Google access token');
+  }
+
+  let client = options.client;
+
+  if (!client) {
+    const accessToken = decryptToken(encryptedAccessToken);
+    const refreshToken = encryptedRefreshToken ? decryptToken(encryptedRefreshToken) : null;
+
+    if (!accessToken) {
+      // Token decryption failed — clear both sources and force re-auth
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: userId },
+          data: { googleAccessToken: null, googleRefreshToken: null },
+        }),
+        ...(existingAccount
+          ? [prisma.calendarAccount.update({
+              where: { id: existingAccount.id },
+              data: { googleAccessToken: '', googleRefreshToken: null },
+            })]
+          : []),
+      ]);
+      const error = new Error('Calendar access expired. Please sign out and sign in again.');
+      (error as any).code = 401;
+      throw error;
+    }
+
+    // Set up OAuth2 client
+    const oauth2Client = new google.auth.OAuth2(
+      process.env.GOOGLE_CLIENT_ID,
+      process.env.GOOGLE_CLIENT_SECRET
+    );
+
+    oauth2Client.setCredentials({
+      access_token: accessToken,
+      refresh_token: refreshToken,
+    });
+
+    // Handle token refresh — write to CalendarAccount as the canonical source
+    oauth2Client.on('tokens', async (tokens) => {
+      if (tokens.access_token) {
+        const encryptedAccess = encryptToken(tokens.access_token);
+        const encryptedRefresh = tokens.refresh_token
+          ? encryptToken(tokens.refresh_token)
+          : encryptedRefreshToken;
+
+        // Update CalendarAccount (primary source)
+        if (existingAccount) {
+          await prisma.calendarAccount.update({
+            where: { id: existingAccount.id },
+            data: { googleAccessToken: encryptedAccess, googleRefreshToken: encryptedRefresh },
+          });
+        }
+        // Also update User for backward compat (will be removed in future)
+        await prisma.user.update({
+          where: { id: userId },
+          data: { googleAccessToken: encryptedAccess, googleRefreshToken: encryptedRefresh },
+        });
+      }
     });
 
-    if (meetingRows.length > 0) {
-      await prisma.meeting.createMany({ data: meetingRows });
+    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+
+    // Auto-detect user timezone from Google Calendar settings
+    try {
+      const tzSetting = await calendar.settings.get({ setting: 'timezone' });
+      const tz = tzSetting.data.value;
+      if (tz) {
+        await prisma.user.update({ where: { id: userId }, data: { timezone: tz } });
+      }
+    } catch {
+      // Non-critical — timezone detection failure shouldn't block sync
     }
+
+    client = createGoogleCalendarClient(calendar);
   }
 
+  // Ensure a CalendarAccount exists for the primary email (source tracking + single token source)
+  const primaryAccount = await prisma.calendarAccount.upsert({
+    where: { userId_email: { userId, email: user.email } },
+    update: {
+      googleAccessToken: encryptedAccessToken,
+      googleRefreshToken: encryptedRefreshToken ?? undefined,
+    },
+    create: {
+      userId,
+      email: user.email,
+      googleAccessToken: encryptedAccessToken,
+      googleRefreshToken: encryptedRefreshToken ?? undefined,
+    },
+  });
+
+  const now = new Date();
+  const result = await syncAccountEvents(client, {
+    userId,
+    accountId: primaryAccount.id,
+    accountEmail: user.email,
+    syncToken: primaryAccount.syncToken,
+    lastSyncedAt: primaryAccount.lastSyncedAt,
+  }, now);
+
   // Count unique companies (for stats)
   const relationshipsCreated = 0; // Now handled in approve flow
 
-  // Update user's sync timestamp and primary account sync timestamp
+  // Update user's sync timestamp (the account timestamp is stored with its sync token)
   await prisma.user.update({
     where: { id: userId },
     data: { calendarSyncedAt: now },
   });
-  await prisma.calendarAccount.update({
-    where: { id: primaryAccount.id },
-    data: { lastSyncedAt: now },
-  });
 
   return {
-    contactsFound: contacts.length,
-    companiesFound: domainsSet.size,
+    ...result,
     relationshipsCreated,
   };
 }
@@ -420,9 +741,11 @@ export async function getCalendarAccounts(userId: string) {
 }
 
 // Sync a specific calendar account
-export async function syncCalendarAccount(userId: string, accountId: string): Promise<{
+export async function syncCalendarAccount(userId: string, accountId: string, options: CalendarSyncOptions = {}): Promise<{
   contactsFound: number;
   companiesFound: number;
+  eventsProcessed: number;
+  fullSync: boolean;
 }> {
   const account = await prisma.calendarAccount.findFirst({
     where: { id: accountId, userId },
@@ -432,229 +755,91 @@ export async function syncCalendarAccount(userId: string, accountId: string): Pr
     throw new Error('Calendar account not found');
   }
 
-  // Decrypt tokens
-  const accessToken = decryptToken(account.googleAccessToken);
-  const refreshToken = account.googleRefreshToken ? decryptToken(account.googleRefreshToken) : null;
-
-  if (!accessToken) {
-    throw new Error('Calendar access expired. Please reconnect this account.');
-  }
-
-  // Set up OAuth2 client
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET
-  );
+  let client = options.client;
 
-  oauth2Client.setCredentials({
-    access_token: accessToken,
-    refresh_token: refreshToken,
-  });
+  if (!client) {
+    // Decrypt tokens
+    const accessToken = decryptToken(account.googleAccessToken);
+    const refreshToken = account.googleRefreshToken ? decryptToken(account.googleRefreshToken) : null;
 
-  // Handle token refresh
-  oauth2Client.on('tokens', async (tokens) => {
-    if (tokens.access_token) {
-      const encryptedAccess = encryptToken(tokens.access_token);
-      const encryptedRefresh = tokens.refresh_token 
-        ? encryptToken(tokens.refresh_token) 
-        : account.googleRefreshToken;
-      
-      await prisma.calendarAccount.update({
-        where: { id: accountId },
-        data: {
-          googleAccessToken: encryptedAccess,
-          googleRefreshToken: encryptedRefresh,
-        },
-      });
+    if (!accessToken) {
+      throw new Error('Calendar access expired. Please reconnect this account.');
     }
-  });
-
-  const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
-
-  // Fetch events from the past 5 years
-  const now = new Date();
-  const fiveYearsAgo = new Date(now.getTime() - 5 * 365 * 24 * 60 * 60 * 1000);
 
-  const contactsMap = new Map<string, CalendarContact>();
-  let pageToken: string | undefined;
+    // Set up OAuth2 client
+    const oauth2Client = new google.auth.OAuth2(
+      process.env.GOOGLE_CLIENT_ID,
+      process.env.GOOGLE_CLIENT_SECRET
+    );
 
-  do {
-    const response = await calendar.events.list({
-      calendarId: 'primary',
-      timeMin: fiveYearsAgo.toISOString(),
-      timeMax: now.toISOString(),
-      maxResults: 250,
-      singleEvents: true,
-      orderBy: 'startTime',
-      pageToken,
+    oauth2Client.setCredentials({
+      access_token: accessToken,
+      refresh_token: refreshToken,
     });
 
-    const events = response.data.items || [];
-
-    for (const event of events) {
-      const attendees = event.attendees || [];
-      const eventDate = new Date(event.start?.dateTime || event.start?.date || now);
-      const eventTitle = event.summary || 'Untitled meeting';
-      const eventDescription = event.description || undefined;
-      
-      let duration: number | undefined;
-      if (event.start?.dateTime && event.end?.dateTime) {
-        const start = new Date(event.start.dateTime);
-        const end = new Date(event.end.dateTime);
-        duration = Math.round((end.getTime() - start.getTime()) / 60000);
-      }
-
-      for (const attendee of attendees) {
-        const email = attendee.email?.toLowerCase();
-        if (!email || email === account.email.toLowerCase() || !isBusinessEmail(email)) {
-          continue;
-        }
-
-        const domain = extractDomain(email);
-        const existing = contactsMap.get(email);
+    // Handle token refresh
+    oauth2Client.on('tokens', async (tokens) => {
+      if (tokens.access_token) {
+        const encryptedAccess = encryptToken(tokens.access_token);
+        const encryptedRefresh = tokens.refresh_token 
+          ? encryptToken(tokens.refresh_token) 
+          : account.googleRefreshToken;
         
-        const meetingInfo: MeetingInfo = {
-          title: eventTitle,
-          date: eventDate,
-          duration,
-          description: eventDescription,
-        };
-
-        if (existing) {
-          existing.meetingsCount++;
-          existing.meetings.push(meetingInfo);
-          if (eventDate > existing.lastSeenAt) {
-            existing.lastSeenAt = eventDate;
-            existing.lastEventTitle = eventTitle;
-            existing.name = attendee.displayName || existing.name;
-          }
-        } else {
-          contactsMap.set(email, {
-            email,
-            name: attendee.displayName || undefined,
-            domain,
-            meetingsCount: 1,
-            lastSeenAt: eventDate,
-            lastEventTitle: eventTitle,
-            meetings: [meetingInfo],
-          });
-        }
-      }
-    }
-
-    pageToken = response.data.nextPageToken || undefined;
-  } while (pageToken);
-
-  const contacts = Array.from(contactsMap.values());
-  const domainsSet = new Set(contacts.map(c => c.domain));
-
-  // Batch upsert companies
-  const companyMap = new Map<string, string>();
-  const domainBatches = Array.from(domainsSet);
-  const BATCH_SIZE = 50;
-
-  for (let i = 0; i < domainBatches.length; i += BATCH_SIZE) {
-    const batch = domainBatches.slice(i, i + BATCH_SIZE);
-    await prisma.$transaction(
-      batch.map(domain =>
-        prisma.company.upsert({
-          where: { domain },
-          update: {},
-          create: { domain, name: normalizeCompanyName(domain) },
-        })
-      )
-    );
-  }
-
-  const allCompanies = await prisma.company.findMany({
-    where: { domain: { in: domainBatches } },
-    select: { id: true, domain: true },
-  });
-  allCompanies.forEach(c => companyMap.set(c.domain, c.id));
-
-  // Batch upsert contacts with source tracking
-  for (let i = 0; i < contacts.length; i += BATCH_SIZE) {
-    const batch = contacts.slice(i, i + BATCH_SIZE);
-
-    const dbContacts = await prisma.$transaction(
-      batch.map(contact => {
-        const companyId = companyMap.get(contact.domain);
-        return prisma.contact.upsert({
-          where: { userId_email: { userId, email: contact.email } },
-          update: {
-            name: contact.name,
-            meetingsCount: contact.meetingsCount,
-            lastSeenAt: contact.lastSeenAt,
-            lastEventTitle: contact.lastEventTitle,
-            companyId,
-            isApproved: true,
-            source: 'google_calendar',
-            sourceAccountId: accountId,
-          },
-          create: {
-            userId,
-            email: contact.email,
-            name: contact.name,
-            companyId,
-            meetingsCount: contact.meetingsCount,
-            lastSeenAt: contact.lastSeenAt,
-            lastEventTitle: contact.lastEventTitle,
-            isApproved: true,
-            source: 'google_calendar',
-            sourceAccountId: accountId,
+        await prisma.calendarAccount.update({
+          where: { id: accountId },
+          data: {
+            googleAccessToken: encryptedAccess,
+            googleRefreshToken: encryptedRefresh,
           },
         });
-      })
-    );
+      }
+    });
 
-    // Connect source accounts in batch
-    await prisma.$transaction(
-      dbContacts.map(c =>
-        prisma.contact.update({
-          where: { id: c.id },
-          data: { sourceAccounts: { connect: { id: accountId } } },
-        })
-      )
-    );
+    client = createGoogleCalendarClient(google.calendar({ version: 'v3', auth: oauth2Client }));
+  }
 
-    // Delete old meetings in batch
-    await prisma.meeting.deleteMany({
-      where: { contactId: { in: dbContacts.map(c => c.id) } },
-    });
+  return syncAccountEvents(client, {
+    userId,
+    accountId,
+    accountEmail: account.email,
+    syncToken: account.syncToken,
+    lastSyncedAt: account.lastSyncedAt,
+    contactSource: { source: 'google_calendar', sourceAccountId: accountId },
+  }, new Date());
+}
 
-    // Bulk insert meetings with createMany
-    const meetingRows: { contactId: string; title: string; date: Date; duration?: number; description?: string }[] = [];
-    batch.forEach((contact, idx) => {
-      const dbContact = dbContacts[idx];
-      const recentMeetings = contact.meetings
-        .sort((a, b) => b.date.getTime() - a.date.getTime())
-        .slice(0, 10);
-      recentMeetings.forEach(m => {
-        meetingRows.push({
-          contactId: dbContact.id,
-          title: m.title,
-          date: m.date,
-          duration: m.duration,
-          description: m.description,
-        });
-      });
-    });
+/** Whether a Google error means the account's token or calendar scope is gone */
+export function isCalendarAuthError(error: unknown): boolean {
+  const msg = error instanceof Error ? error.message : '';
+  const code = (error as { code?: number })?.code;
+  const status = (error as { status?: number })?.status;
+  const httpStatus = (error as { response?: { status?: number } })?.response?.status;
+
+  return msg.includes('invalid_grant') ||
+    msg.includes('Token has been expired') ||
+    msg.includes('Request had insufficient authentication scopes') ||
+    msg.includes('Insufficient Permission') ||
+    msg.includes('insufficient_scope') ||
+    code === 401 || code === 403 ||
+    status === 401 || status === 403 ||
+    httpStatus === 401 || httpStatus === 403;
+}
 
-    if (meetingRows.length > 0) {
-      await prisma.meeting.createMany({ data: meetingRows });
-    }
-  }
+export function calendarSyncKey(userId: string, accountId?: string): string {
+  return accountId ? `calendar_sync:${userId}:${accountId}` : `calendar_sync:${userId}`;
+}
 
-  // Update account sync timestamp
-  await prisma.calendarAccount.update({
-    where: { id: accountId },
-    data: { lastSyncedAt: now },
+/**
+ * Queue a background sync of all of a user's calendars, or of one account (the
+ * calendar_sync_user job in index.ts). Returns null if the same sync is
+ * already queued or running. Syncs of one user run one at a time, like the
+ * rest of their jobs.
+ */
+export function queueCalendarSync(userId: string, accountId?: string) {
+  return enqueueJob('calendar_sync_user', accountId ? { accountId } : {}, {
+    userId,
+    dedupeKey: calendarSyncKey(userId, accountId),
   });
-
-  return {
-    contactsFound: contacts.length,
-    companiesFound: domainsSet.size,
-  };
 }
 
 // ─── Daily Briefing helpers ──────────────────────────────────────────────────
@@ -691,13 +876,6 @@ function formatEmailAsName(email: string): string {
     .trim();
 }
 
-function strengthFromScore(score: number | null | undefined): 'strong' | 'medium' | 'weak' | 'none' {
-  if (!score || score <= 0) return 'none';
-  if (score >= 70) return 'strong';
-  if (score >= 30) return 'medium';
-  return 'weak';
-}
-
 /**
  * Fetch today's upcoming calendar events for a user directly from Google Calendar.
  * Returns events with attendees, sorted by start time.
@@ -863,7 +1041,7 @@ export async function ensureContactsForBriefing(
         companyFunding: existing.company?.totalFunding || existing.company?.lastFundingRound || null,
         companyLinkedinUrl: existing.company?.linkedinUrl || null,
         meetingsCount: existing.meetingsCount || 0,
-        strength: strengthFromScore(score),
+        strength: strengthLabel(score),
         isInternal,
       });
       continue;
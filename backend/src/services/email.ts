@@ -811,6 +811,52 @@ export async function sendDoubleIntroEmail(params: {
   });
 }
 
+/** Consent email — asks a contact whether they'd take an intro, with one-click answer links */
+export async function sendIntroConsentEmail(params: {
+  senderName: string;
+  senderEmail: string;
+  contactEmail: string;
+  contactName: string;
+  subject: string;
+  body: string;
+  requesterName: string;
+  targetCompany: string;
+  blurb?: string | null;
+  consentUrl: string;
+}): Promise<EmailResult> {
+  const { senderName, senderEmail, contactEmail, subject, body, requesterName, targetCompany, blurb, consentUrl } = params;
+  const safeSenderName = escapeHtml(senderName);
+  const senderFirst = escapeHtml(senderName.split(' ')[0]);
+  const safeRequesterName = escapeHtml(requesterName);
+  const safeBody = escapeHtml(body).replace(/\n/g, '<br/>');
+  const safeBlurb = blurb ? escapeHtml(blurb).replace(/\n/g, '<br/>') : null;
+
+  const html = baseLayout(`
+    <p><strong>${safeSenderName}</strong> sent you a message:</p>
+    <p>${safeBody}</p>
+
+    ${safeBlurb ? `<div class="callout"><p>${safeBlurb}</p></div>` : ''}
+
+    <p>Would you like ${senderFirst} to introduce you to <span class="highlight">${safeRequesterName}</span>?</p>
+    <div style="margin-top: 20px;">
+      <a href="${consentUrl}?answer=accept" class="btn">Yes, introduce us</a>
+      &nbsp;
+      <a href="${consentUrl}?answer=decline" class="btn-outline">Not right now</a>
+    </div>
+
+    <hr class="divider" />
+    <p class="muted">No account needed &mdash; your answer goes straight to ${senderFirst}. ${safeRequesterName} is only told whether you said yes. Sent from <a href="${FRONTEND_URL}" style="color: #6366f1; text-decoration: none; font-weight: 600;">${APP_NAME}</a>.</p>
+  `, { preheader: `${safeSenderName} is asking if you'd be open to an intro (${escapeHtml(targetCompany)}).` });
+
+  return send({
+    to: contactEmail,
+    cc: senderEmail,
+    subject,
+    html,
+    replyTo: senderEmail,
+  });
+}
+
 /** Direct contact email — a message from one user to a contact (2-way thread) */
 export async function sendContactEmail(params: {
   senderName: string;
@@ -875,6 +921,44 @@ export async function sendNotificationEmail(
   });
 }
 
+/** Notification digest — the unread notifications batched over the last hour */
+export async function sendNotificationDigestEmail(
+  userId: string,
+  notifications: { title: string; body?: string | null }[]
+): Promise<EmailResult> {
+  const prefs = await getUserEmailPrefs(userId);
+  if (prefs.notifications === false) {
+    return { success: true, id: 'skipped-prefs' };
+  }
+
+  const email = await getUserEmail(userId);
+  if (!email) return { success: false, error: 'User email not found' };
+
+  const count = notifications.length;
+  const rows = notifications.map(n => `
+      <div style="padding: 12px 0; border-bottom: 1px solid #f4f4f5;">
+        <div style="font-size: 14px; font-weight: 600; color: #18181b;">${escapeHtml(n.title)}</div>
+        ${n.body ? `<div style="font-size: 13px; color: #71717a; margin-top: 2px;">${escapeHtml(n.body)}</div>` : ''}
+      </div>`).join('');
+
+  const html = baseLayout(`
+    <h2>${count === 1 ? 'You have 1 update' : `You have ${count} updates`}</h2>
+    ${rows}
+
+    <div style="margin-top: 20px;">
+      <a href="${FRONTEND_URL}/home" class="btn">View in ${APP_NAME}</a>
+    </div>
+
+    <p class="muted">These notifications are set to arrive as an hourly digest. You can change this for each type in <a href="${FRONTEND_URL}/home?panel=settings" style="color: #71717a;">Settings</a>.</p>
+  `, { preheader: notifications[0]?.title });
+
+  return send({
+    to: email,
+    subject: count === 1 ? notifications[0].title : `${count} updates on ${APP_NAME}`,
+    html,
+  });
+}
+
 /** Weekly digest email — growth + action hybrid */
 export interface DigestStats {
   newContacts: number;
@@ -0,0 +1,678 @@
+import type { Company } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { embedCompanies, embedContacts, queueCompanyEmbedding } from '../routes/embeddings.js';
+import { isAiConfigured } from './aiProvider.js';
+import { scrapeAndSummarizeCompany, queueCompanyScrape } from './scraper.js';
+import {
+  createProviderChain,
+  contactUpdateFromMatch,
+  companyUpdateFromMatch,
+  NO_PROVIDER_CREDITS,
+  BUDGET_EXHAUSTED,
+  type FieldSources,
+  type ProviderMatch,
+  type PersonProfile,
+  type CompanyProfile,
+} from './enrichmentProviders.js';
+import { getCreditBudget, type CreditEntity } from './enrichmentCredits.js';
+import { updateContactUnderOverrides } from './overrides.js';
+import './apollo.js';
+import './fakeEnrichment.js';
+
+// ─── Config ──────────────────────────────────────────────────────────────────
+
+const ENRICHMENT_CACHE_DAYS = 7;
+const IS_DEV = process.env.NODE_ENV !== 'production';
+const DEV_LIMIT_COMPANIES = 5;
+const DEV_LIMIT_PEOPLE = 5;
+const API_THROTTLE_MS = 200;
+const FORCE_RETRY_COOLDOWN_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isStale(enrichedAt: Date | null): boolean {
+  if (!enrichedAt) return true;
+  return Date.now() - enrichedAt.getTime() > ENRICHMENT_CACHE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+// ─── Generic email detection ─────────────────────────────────────────────────
+
+const GENERIC_PREFIXES = new Set([
+  'info', 'team', 'hello', 'contact', 'support', 'admin', 'office',
+  'sales', 'marketing', 'hr', 'jobs', 'careers', 'press', 'media',
+  'help', 'billing', 'noreply', 'no-reply', 'notifications', 'alerts',
+  'feedback', 'general', 'service', 'enquiry', 'inquiry',
+]);
+
+function isGenericEmail(email: string): boolean {
+  const local = email.split('@')[0]?.toLowerCase() || '';
+  if (GENERIC_PREFIXES.has(local)) return true;
+  const firstPart = local.split(/[._\-+]/)[0];
+  return !!(firstPart && GENERIC_PREFIXES.has(firstPart));
+}
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BatchResult {
+  total: number;
+  enriched: number;
+  skipped: number;
+  errors: number;
+  errorMessage?: string;
+}
+
+const CACHED_FIELDS = ['name', 'title', 'headline', 'linkedinUrl', 'photoUrl', 'city', 'state', 'country'] as const;
+
+type CachedContact = {
+  email: string;
+  apolloId: string | null;
+  enrichedAt: Date | null;
+  fieldSources: unknown;
+} & Record<typeof CACHED_FIELDS[number], string | null>;
+
+// ─── Helpers: apply cached provider data to a contact ────────────────────────
+
+// Copy another user's match for the same email, keeping where each field came from
+function buildContactUpdate(cached: CachedContact, previousSources: unknown): Record<string, any> {
+  const now = new Date();
+  const cachedSources = (cached.fieldSources as FieldSources | null) || {};
+  const sources: FieldSources = { ...((previousSources as FieldSources | null) || {}) };
+  const data: Record<string, any> = { apolloId: cached.apolloId, enrichedAt: now };
+  for (const field of CACHED_FIELDS) {
+    if (!cached[field]) continue;
+    data[field] = cached[field];
+    // Matches from before provenance was recorded all came from Apollo
+    sources[field] = cachedSources[field] || { provider: 'apollo', at: (cached.enrichedAt ?? now).toISOString() };
+  }
+  data.fieldSources = sources;
+  return data;
+}
+
+async function stampEnrichedAt(contactId: string): Promise<void> {
+  try {
+    await prisma.contact.update({ where: { id: contactId }, data: { enrichedAt: new Date() } });
+  } catch { /* ignore — contact may have been deleted */ }
+}
+
+// ─── Batch enrichment ────────────────────────────────────────────────────────
+
+interface EnrichOptions {
+  force?: boolean;
+  signal?: { cancelled: boolean };
+}
+
+/**
+ * Enrich contacts and companies through the provider chain
+ * (see enrichmentProviders.ts); with Apollo that costs:
+ * - organizations/enrich: 1 credit per unique domain
+ * - people/match: 1 credit per contact
+ *
+ * Default mode: only processes never-attempted contacts (enrichedAt is null).
+ * Force mode: retries failed contacts after 24h cooldown + re-enriches stale data.
+ * DEV mode: limits to 5 companies + 5 people.
+ */
+export async function enrichContactsFree(
+  userId: string,
+  onProgress?: (result: BatchResult) => void,
+  options?: EnrichOptions,
+): Promise<BatchResult> {
+  const isCancelled = () => !!options?.signal?.cancelled;
+
+  // ── 1. Load all contacts ───────────────────────────────────────────────
+  const contacts = await prisma.contact.findMany({
+    where: { userId },
+    select: {
+      id: true, email: true, name: true, enrichedAt: true, apolloId: true, fieldSources: true, meetingsCount: true,
+      companyId: true,
+      company: { select: { id: true, domain: true, name: true, enrichedAt: true, apolloId: true, industry: true, fieldSources: true } },
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+
+  const result: BatchResult = { total: contacts.length, enriched: 0, skipped: 0, errors: 0 };
+
+  // ── 2. Filter to contacts that need enrichment ─────────────────────────
+  const toEnrich = options?.force
+    ? contacts.filter(c => {
+        if (c.apolloId && !isStale(c.enrichedAt)) return false;
+        if (!c.apolloId && c.enrichedAt) {
+          return Date.now() - c.enrichedAt.getTime() > FORCE_RETRY_COOLDOWN_MS;
+        }
+        return true;
+      })
+    : contacts.filter(c => !c.enrichedAt);
+
+  result.skipped = contacts.length - toEnrich.length;
+
+  if (IS_DEV) {
+    console.log(`[enrich] ⚠️  DEV MODE: limiting to ${DEV_LIMIT_COMPANIES} companies + ${DEV_LIMIT_PEOPLE} people`);
+  }
+  console.log(`[enrich] userId=${userId} force=${!!options?.force} total=${contacts.length} toEnrich=${toEnrich.length} skipped=${result.skipped}`);
+
+  if (toEnrich.length === 0) {
+    console.log(`[enrich] Nothing to enrich, all contacts are fresh`);
+    onProgress?.(result);
+
+    // Still run website scraping for companies no provider had data for
+    await scrapeUnscrapedForUser(userId, isCancelled);
+
+    return result;
+  }
+
+  const chain = createProviderChain({ userId });
+  if (!chain.canMatchPeople) {
+    console.error(`[enrich] No enrichment provider configured, check ENRICHMENT_PROVIDERS and API keys`);
+    result.skipped += toEnrich.length;
+    result.errorMessage = 'No enrichment provider is configured';
+    onProgress?.(result);
+    await scrapeUnscrapedForUser(userId, isCancelled);
+    return result;
+  }
+
+  // When the monthly budget may not cover every lookup (one per contact plus
+  // one per company), spend it on the people the user meets most and the
+  // companies they're closest to first.
+  const budget = await getCreditBudget(userId);
+  const lookupsNeeded = toEnrich.length + new Set(toEnrich.map(c => c.company?.domain).filter(Boolean)).size;
+  if (budget.remaining !== null && budget.remaining < lookupsNeeded) {
+    const relationships = await prisma.relationship.findMany({ where: { userId }, select: { companyId: true, strengthScore: true } });
+    const strength = new Map(relationships.map(r => [r.companyId, r.strengthScore ?? 0]));
+    const strengthOf = (c: typeof toEnrich[0]) => (c.companyId && strength.get(c.companyId)) || 0;
+    toEnrich.sort((a, b) => b.meetingsCount - a.meetingsCount || strengthOf(b) - strengthOf(a));
+    console.log(`[enrich] Budget tight: ${budget.remaining} credits for ~${lookupsNeeded} lookups, prioritising by meetings and strength`);
+  }
+
+  // ── 3. Group by domain ─────────────────────────────────────────────────
+  const byDomain = new Map<string, typeof toEnrich>();
+  const noDomain: typeof toEnrich = [];
+  for (const c of toEnrich) {
+    const domain = c.company?.domain;
+    if (domain) {
+      const arr = byDomain.get(domain) || [];
+      arr.push(c);
+      byDomain.set(domain, arr);
+    } else {
+      noDomain.push(c);
+    }
+  }
+  console.log(`[enrich] Grouped: ${byDomain.size} domains, ${noDomain.length} without domain`);
+
+  // ── 4. Batch cache lookup ──────────────────────────────────────────────
+  // Look up ALL previously attempted contacts (not just those with a provider match).
+  // Contacts with apolloId (any provider's id) → cache hit (copy data, 0 credits).
+  // Contacts with enrichedAt but no apolloId → known no-match (skip, 0 credits).
+  const allEmails = toEnrich.map(c => c.email);
+  const cachedContacts = await prisma.contact.findMany({
+    where: { email: { in: allEmails }, enrichedAt: { not: null } },
+    select: {
+      email: true, apolloId: true, enrichedAt: true, fieldSources: true, name: true, title: true, headline: true,
+      linkedinUrl: true, photoUrl: true, city: true, state: true, country: true,
+      overrides: { select: { field: true, original: true } },
+    },
+  });
+
+  const cacheMap = new Map<string, CachedContact>();       // contacts WITH provider data
+  const knownNoMatch = new Set<string>();                   // emails that were tried and found nothing
+  for (const { overrides, ...c } of cachedContacts) {
+    // Another user's manual corrections aren't provider data; share what's underneath
+    for (const o of overrides) {
+      if ((CACHED_FIELDS as readonly string[]).includes(o.field)) {
+        c[o.field as typeof CACHED_FIELDS[number]] = (o.original as string | null) ?? null;
+      }
+    }
+    if (c.apolloId) {
+      const existing = cacheMap.get(c.email);
+      if (!existing || (c.linkedinUrl && !existing.linkedinUrl) || (c.photoUrl && !existing.photoUrl)) {
+        cacheMap.set(c.email, c);
+      }
+    } else {
+      // Previously attempted, no provider had data — skip without spending credits
+      if (!cacheMap.has(c.email)) {
+        knownNoMatch.add(c.email);
+      }
+    }
+  }
+  console.log(`[enrich] Internal cache: ${cacheMap.size} with data, ${knownNoMatch.size} known no-match`);
+
+  // ── 5. Enrichment state ────────────────────────────────────────────────
+  const enrichedCompanyIds = new Set<string>();
+  let companiesEnrichedCount = 0;
+  let peopleEnrichedCount = 0;
+  let cacheHits = 0;
+  let genericSkipped = 0;
+  let outOfCredits = false;
+  // Unlike running out of provider credits, a spent budget leaves contacts
+  // unstamped so next month's run picks them up
+  let budgetExhausted = false;
+
+  function onBudgetExhausted() {
+    budgetExhausted = true;
+    result.errorMessage = 'Monthly enrichment budget reached';
+  }
+
+  /**
+   * Enrich a single contact. Shared by both domain and noDomain loops.
+   */
+  async function enrichContact(
+    contact: typeof toEnrich[0],
+  ): Promise<void> {
+    // Generic email — skip
+    if (isGenericEmail(contact.email)) {
+      console.log(`[enrich] ⏭️ Generic email: "${contact.email}" (0 credits)`);
+      await stampEnrichedAt(contact.id);
+      result.skipped++;
+      genericSkipped++;
+      return;
+    }
+
+    // Cache hit — contact has provider data from another user
+    const cached = cacheMap.get(contact.email);
+    if (cached) {
+      if (cached.apolloId === contact.apolloId) {
+        await stampEnrichedAt(contact.id);
+      } else {
+        console.log(`[enrich] ♻️ Cache hit: "${contact.name || contact.email}" → title="${cached.title}" (0 credits)`);
+        await updateContactUnderOverrides(contact.id, buildContactUpdate(cached, contact.fieldSources));
+      }
+      result.enriched++;
+      cacheHits++;
+      return;
+    }
+
+    // Known no-match — previously tried, no provider had data. Skip without spending credits.
+    if (knownNoMatch.has(contact.email)) {
+      console.log(`[enrich] ⏭️ Known no-match: "${contact.name || contact.email}" (0 credits)`);
+      await stampEnrichedAt(contact.id);
+      result.skipped++;
+      cacheHits++;
+      return;
+    }
+
+    if (budgetExhausted) {
+      result.skipped++;
+      return;
+    }
+
+    // Provider chain (1 credit per provider asked, with Apollo)
+    let match;
+    try {
+      match = await chain.matchPerson(contact.email, { type: 'contact', id: contact.id });
+    } catch (err: any) {
+      if (err.message !== BUDGET_EXHAUSTED) throw err;
+      onBudgetExhausted();
+      result.skipped++;
+      return;
+    }
+    if (match) {
+      const person = match.profile;
+      console.log(`[enrich] ✓ Person "${contact.name || contact.email}" → title="${person.title}", linkedin=${person.linkedinUrl ? 'yes' : 'no'} (${match.provider})`);
+      await updateContactUnderOverrides(contact.id, contactUpdateFromMatch(match, contact.fieldSources));
+      result.enriched++;
+    } else {
+      console.log(`[enrich] ✗ No data: "${contact.name || contact.email}" (credits spent)`);
+      await stampEnrichedAt(contact.id);
+      result.skipped++;
+    }
+    peopleEnrichedCount++;
+    await sleep(API_THROTTLE_MS);
+  }
+
+  // ── 6. Process contacts with domains ───────────────────────────────────
+  const domains = Array.from(byDomain.keys());
+  for (let i = 0; i < domains.length; i++) {
+    if (isCancelled()) {
+      console.log(`[enrich] ⛔ Cancelled by user — skipping remaining domains`);
+      for (let j = i; j < domains.length; j++) {
+        result.skipped += byDomain.get(domains[j])!.length;
+      }
+      break;
+    }
+
+    const domain = domains[i];
+    const domainContacts = byDomain.get(domain)!;
+
+    // Out of credits — stamp remaining and skip
+    if (outOfCredits) {
+      for (const c of domainContacts) { await stampEnrichedAt(c.id); }
+      // Also stamp the company so it's not re-tried
+      if (domainContacts[0]?.companyId && !enrichedCompanyIds.has(domainContacts[0].companyId)) {
+        try { await prisma.company.update({ where: { id: domainContacts[0].companyId }, data: { enrichedAt: new Date() } }); } catch {}
+        enrichedCompanyIds.add(domainContacts[0].companyId);
+      }
+      result.skipped += domainContacts.length;
+      onProgress?.(result);
+      continue;
+    }
+
+    try {
+      // ── Step 1: Enrich company (1 lookup per unique domain) ──────────
+      const companyId = domainContacts[0]?.companyId;
+      const company = domainContacts[0]?.company;
+      const companyAlreadyHasData = !!(company?.apolloId || company?.industry);
+      const companyNeedsEnrich = companyId
+        && chain.canEnrichCompanies
+        && !enrichedCompanyIds.has(companyId)
+        && !companyAlreadyHasData
+        && isStale(company?.enrichedAt ?? null);
+
+      if (companyNeedsEnrich) {
+        if (IS_DEV && companiesEnrichedCount >= DEV_LIMIT_COMPANIES) {
+          enrichedCompanyIds.add(companyId!);
+          // Stamp enrichedAt to prevent re-trying this company on subsequent runs
+          try { await prisma.company.update({ where: { id: companyId! }, data: { enrichedAt: new Date() } }); } catch {}
+          console.log(`[enrich] ⏭️ DEV LIMIT: skipping company "${domain}" (stamped)`);
+        } else {
+          try {
+            const match = await chain.enrichCompany(domain, { type: 'company', id: companyId });
+            if (match) {
+              const org = match.profile;
+              const updatedCompany = await prisma.company.update({
+                where: { id: companyId },
+                data: companyUpdateFromMatch(match, company?.fieldSources),
+              });
+              companiesEnrichedCount++;
+              queueCompanyEmbedding(updatedCompany.id).catch(err =>
+                console.error(`[embeddings] Failed to queue embedding for ${domain}:`, err.message),
+              );
+              console.log(`[enrich] ✓ Company "${domain}": ${org.employeeCount || '?'} employees, industry="${org.industry || '?'}" (${match.provider})`);
+            } else {
+              await prisma.company.update({ where: { id: companyId! }, data: { enrichedAt: new Date() } });
+              console.log(`[enrich] ✗ Company "${domain}": no provider had data`);
+              // Fallback: scrape website when no provider has data
+              if (!isCancelled() && process.env.APIFY_API_TOKEN) {
+                queueCompanyScrape(companyId!).catch(err =>
+                  console.error(`[scraper] Failed to queue fallback scrape for ${domain}:`, err.message),
+                );
+              }
+            }
+            enrichedCompanyIds.add(companyId!);
+            await sleep(API_THROTTLE_MS);
+          } catch (err: any) {
+            // People may still have a provider with credits; the person loop finds out
+            if (err.message === BUDGET_EXHAUSTED) {
+              onBudgetExhausted();
+            } else if (err.message === NO_PROVIDER_CREDITS) {
+              console.error(`[enrich] ⛔ Company credits exhausted at "${domain}"`);
+            }
+          }
+        }
+      }
+
+      // ── Step 2: Enrich each contact ──────────────────────────────────
+      for (const contact of domainContacts) {
+        if (isCancelled()) { result.skipped++; continue; }
+        if (outOfCredits) { await stampEnrichedAt(contact.id); result.skipped++; continue; }
+        if (IS_DEV && peopleEnrichedCount >= DEV_LIMIT_PEOPLE) { await stampEnrichedAt(contact.id); result.skipped++; continue; }
+
+        try {
+          await enrichContact(contact);
+        } catch (err: any) {
+          if (err.message === NO_PROVIDER_CREDITS) {
+            outOfCredits = true;
+            result.errorMessage = 'Enrichment credits exhausted';
+            console.error(`[enrich] ⛔ Credits exhausted at person "${contact.email}"`);
+            await stampEnrichedAt(contact.id);
+            result.skipped++;
+          } else {
+            result.errors++;
+          }
+        }
+      }
+    } catch (apiErr: any) {
+      if (apiErr.message !== NO_PROVIDER_CREDITS) {
+        console.error(`[enrich] ✗ API error for domain ${domain}:`, apiErr.message);
+        result.errors++;
+      }
+    }
+
+    onProgress?.(result);
+    if (i + 1 < domains.length) await sleep(API_THROTTLE_MS);
+  }
+
+  // ── 7. Process contacts without a domain ───────────────────────────────
+  for (let ni = 0; ni < noDomain.length; ni++) {
+    const contact = noDomain[ni];
+    if (isCancelled()) {
+      console.log(`[enrich] ⛔ Cancelled by user — skipping remaining no-domain contacts`);
+      result.skipped += noDomain.length - ni;
+      break;
+    }
+    if (outOfCredits || (IS_DEV && peopleEnrichedCount >= DEV_LIMIT_PEOPLE)) {
+      await stampEnrichedAt(contact.id);
+      result.skipped++;
+      onProgress?.(result);
+      continue;
+    }
+
+    try {
+      await enrichContact(contact);
+    } catch (err: any) {
+      if (err.message === NO_PROVIDER_CREDITS) {
+        outOfCredits = true;
+        result.errorMessage = 'Enrichment credits exhausted';
+      }
+      await stampEnrichedAt(contact.id);
+      result.skipped++;
+    }
+    onProgress?.(result);
+  }
+
+  // ── 8. Summary ─────────────────────────────────────────────────────────
+  onProgress?.(result);
+  const creditsByProvider = Object.entries(chain.creditsUsed()).map(([name, credits]) => `${name}=${credits}`).join(', ') || 'none';
+  console.log(`[enrich] DONE: enriched=${result.enriched}, skipped=${result.skipped}, errors=${result.errors}, total=${result.total}`);
+  console.log(`[enrich] Credits: ${creditsByProvider} (${companiesEnrichedCount} companies + ${peopleEnrichedCount} people), cache hits: ${cacheHits}, generic skipped: ${genericSkipped}${IS_DEV ? ' [DEV]' : ''}`);
+  if (outOfCredits) {
+    console.error(`[enrich] ⛔ Enrichment stopped early — every provider is out of credits`);
+  }
+
+  // ── 9. Scrape websites for companies no provider enriched ───────────────
+  await scrapeUnscrapedForUser(userId, isCancelled);
+
+  return result;
+}
+
+async function scrapeUnscrapedForUser(
+  userId: string,
+  isCancelled: () => boolean,
+): Promise<void> {
+  // Embed companies that have data but no embedding yet
+  if (isAiConfigured() && !isCancelled()) {
+    const unembedded = await prisma.$queryRawUnsafe<{ id: string }[]>(
+      `SELECT DISTINCT c.id
+       FROM companies c
+       JOIN contacts ct ON ct."companyId" = c.id AND ct."userId" = $1
+       WHERE c.embedding IS NULL
+         AND (c.description IS NOT NULL OR c."websiteSummary" IS NOT NULL)
+       LIMIT 200`,
+      userId,
+    );
+
+    if (unembedded.length > 0) {
+      console.log(`[enrich] Embedding ${unembedded.length} companies missing embeddings...`);
+      await embedCompanies(unembedded.map(c => c.id)).catch(err =>
+        console.error(`[embeddings] Auto-embed failed for user ${userId}:`, err.message),
+      );
+    }
+  }
+
+  // Embed contacts that are new or were enriched since their last embedding
+  if (isAiConfigured() && !isCancelled()) {
+    const stale = await prisma.$queryRawUnsafe<{ id: string }[]>(
+      `SELECT id FROM contacts
+       WHERE "userId" = $1 AND "isApproved"
+         AND ("embeddedAt" IS NULL OR "embeddedAt" < "enrichedAt")
+       ORDER BY "lastSeenAt" DESC
+       LIMIT 1000`,
+      userId,
+    );
+
+    if (stale.length > 0) {
+      console.log(`[enrich] Embedding ${stale.length} contacts...`);
+      await embedContacts(stale.map(c => c.id)).catch(err =>
+        console.error(`[embeddings] Contact embedding failed for user ${userId}:`, err.message),
+      );
+    }
+  }
+
+  // Scrape websites for companies no provider had data for
+  if (!process.env.APIFY_API_TOKEN || isCancelled() || IS_DEV) return;
+
+  const unscrapedCompanies = await prisma.company.findMany({
+    where: {
+      scrapedAt: null,
+      apolloId: null,
+      description: null,
+      contacts: { some: { userId } },
+    },
+    select: { id: true, domain: true, name: true, websiteUrl: true, description: true, industry: true, city: true, country: true },
+    take: 500,
+  });
+
+  if (unscrapedCompanies.length === 0) return;
+
+  console.log(`[enrich] Scraping ${unscrapedCompanies.length} unscraped company websites...`);
+  for (const company of unscrapedCompanies) {
+    if (isCancelled()) break;
+    try {
+      await scrapeAndSummarizeCompany(company);
+    } catch (err: any) {
+      if (err.retryable === false) {
+        console.error(`[scraper] Stopping batch — ${err.message}`);
+        break;
+      }
+      console.error(`[scraper] Failed for ${company.domain}:`, err.message);
+    }
+  }
+}
+
+// ─── User Profile Enrichment (1 lookup) ──────────────────────────────────────
+
+export async function enrichUserProfile(userId: string): Promise<void> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, title: true, company: true, companyDomain: true, linkedinUrl: true, headline: true, city: true, country: true },
+    });
+    if (!user) return;
+
+    if (user.title && user.linkedinUrl && user.headline && user.city && user.country) {
+      console.log(`[enrich-profile] User ${user.email} already has full profile, skipping`);
+      return;
+    }
+
+    const match = await lookupPerson(user.email, userId, { type: 'user', id: userId });
+    if (!match) {
+      console.log(`[enrich-profile] No provider match for ${user.email}`);
+      return;
+    }
+    const person = match.profile;
+
+    const updateData: Record<string, any> = {};
+    if (!user.title && person.title) updateData.title = person.title;
+    if (!user.linkedinUrl && person.linkedinUrl) updateData.linkedinUrl = person.linkedinUrl;
+    if (!user.headline && person.headline) updateData.headline = person.headline;
+    if (!user.city && person.city) updateData.city = person.city;
+    if (!user.country && person.country) updateData.country = person.country;
+
+    if ((!user.company || !user.companyDomain) && person.companyName) {
+      if (!user.company) updateData.company = person.companyName;
+      if (!user.companyDomain) {
+        const emailDomain = user.email.split('@')[1]?.toLowerCase();
+        const genericDomains = ['gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'icloud.com', 'mail.ru', 'yandex.ru', 'protonmail.com'];
+        if (emailDomain && !genericDomains.includes(emailDomain)) {
+          updateData.companyDomain = emailDomain;
+        }
+      }
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      await prisma.user.update({ where: { id: userId }, data: updateData });
+      console.log(`[enrich-profile] Updated ${user.email}: ${Object.keys(updateData).join(', ')} (${match.provider})`);
+    }
+  } catch (err: any) {
+    console.error(`[enrich-profile] Error:`, err.message);
+  }
+}
+
+// ─── Single lookups (paid) ───────────────────────────────────────────────────
+
+function isOutOfCredits(err: any): boolean {
+  return err.message === NO_PROVIDER_CREDITS || err.message === BUDGET_EXHAUSTED;
+}
+
+/** Ask the chain about one person for a user; null if nobody matched or credits ran out */
+export async function lookupPerson(
+  email: string,
+  userId: string,
+  entity: CreditEntity,
+): Promise<ProviderMatch<PersonProfile> | null> {
+  try {
+    return await createProviderChain({ userId }).matchPerson(email, entity);
+  } catch (err: any) {
+    if (isOutOfCredits(err)) return null;
+    throw err;
+  }
+}
+
+/**
+ * Ask the chain about a company and save what it found, creating the row if
+ * there isn't one. Returns null (and leaves the row alone) if nobody matched.
+ */
+export async function enrichCompanyByDomain(
+  domain: string,
+  userId: string,
+  existing?: { id: string; fieldSources: unknown } | null,
+): Promise<{ company: Company; provider: string } | null> {
+  let match: ProviderMatch<CompanyProfile> | null;
+  try {
+    match = await createProviderChain({ userId }).enrichCompany(domain, { type: 'company', id: existing?.id });
+  } catch (err: any) {
+    if (isOutOfCredits(err)) return null;
+    throw err;
+  }
+  if (!match) return null;
+
+  const data = companyUpdateFromMatch(match, existing?.fieldSources);
+  const company = await prisma.company.upsert({
+    where: { domain },
+    create: { domain, name: match.profile.name || domain, ...data },
+    update: data,
+  });
+  queueCompanyEmbedding(company.id).catch(err =>
+    console.error(`[embeddings] Failed to queue embedding for ${domain}:`, err.message),
+  );
+  return { company, provider: match.provider };
+}
+
+// ─── Stats ───────────────────────────────────────────────────────────────────
+
+export async function getEnrichmentStats(userId: string) {
+  const [totalContacts, contactsMatched, contactsProcessed, neverAttempted, totalCompanies, enrichedCompanies, lastEnrichedContact] = await Promise.all([
+    prisma.contact.count({ where: { userId } }),
+    prisma.contact.count({ where: { userId, apolloId: { not: null } } }),
+    prisma.contact.count({ where: { userId, enrichedAt: { not: null } } }),
+    prisma.contact.count({ where: { userId, enrichedAt: null } }),
+    prisma.company.count({ where: { contacts: { some: { userId } } } }),
+    prisma.company.count({ where: { contacts: { some: { userId } }, enrichedAt: { not: null } } }),
+    prisma.contact.findFirst({
+      where: { userId, enrichedAt: { not: null } },
+      orderBy: { enrichedAt: 'desc' },
+      select: { enrichedAt: true },
+    }),
+  ]);
+
+  return {
+    contacts: {
+      total: totalContacts,
+      enriched: contactsProcessed,
+      identified: contactsMatched,
+      notFound: contactsProcessed - contactsMatched,
+      pending: neverAttempted,
+    },
+    companies: { total: totalCompanies, enriched: enrichedCompanies },
+    lastEnrichedAt: lastEnrichedContact?.enrichedAt || null,
+  };
+}
@@ -0,0 +1,235 @@
+import prisma from '../lib/prisma.js';
+
+/**
+ * Enrichment credit ledger and monthly budgets. Every paid provider lookup
+ * writes a row to `enrichment_credits` before it is made, and is refunded
+ * (the row kept at 0 credits) if it finds nothing or the provider refuses it.
+ * Three budgets are checked against the ledger first:
+ *
+ * - per provider: ENRICHMENT_BUDGET_<NAME>
+ * - per user:     User.enrichmentCreditLimit, else ENRICHMENT_USER_MONTHLY_CREDITS
+ * - overall:      ENRICHMENT_MONTHLY_CREDITS
+ *
+ * Budgets run per calendar month (UTC); an unset budget means no limit.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface CreditEntity {
+  type: 'contact' | 'company' | 'user';
+  id?: string | null;
+}
+
+export type CreditReservation =
+  | { ok: true; entryId: string | null }
+  | { ok: false; blockedBy: 'provider' | 'user' | 'global' };
+
+export interface BudgetStatus {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+// ─── Periods ─────────────────────────────────────────────────────────────────
+
+export function currentPeriod(now = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+export function isValidPeriod(period: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(period);
+}
+
+/** [start, end) of a YYYY-MM month in UTC */
+export function periodRange(period: string): { start: Date; end: Date } {
+  const [year, month] = period.split('-').map(Number);
+  return { start: new Date(Date.UTC(year, month - 1, 1)), end: new Date(Date.UTC(year, month, 1)) };
+}
+
+// ─── Budgets ─────────────────────────────────────────────────────────────────
+
+function parseBudget(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const budget = parseInt(raw, 10);
+  return Number.isFinite(budget) && budget >= 0 ? budget : null;
+}
+
+export function getProviderBudget(provider: string): number | null {
+  return parseBudget(process.env[`ENRICHMENT_BUDGET_${provider.toUpperCase()}`]);
+}
+
+export function getGlobalBudget(): number | null {
+  return parseBudget(process.env.ENRICHMENT_MONTHLY_CREDITS);
+}
+
+export function getDefaultUserBudget(): number | null {
+  return parseBudget(process.env.ENRICHMENT_USER_MONTHLY_CREDITS);
+}
+
+async function getUserBudget(userId: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { enrichmentCreditLimit: true } });
+  return user?.enrichmentCreditLimit ?? getDefaultUserBudget();
+}
+
+async function creditsSpent(where: { provider?: string; userId?: string }, period = currentPeriod()): Promise<number> {
+  const { start, end } = periodRange(period);
+  const sum = await prisma.enrichmentCredit.aggregate({
+    where: { ...where, createdAt: { gte: start, lt: end } },
+    _sum: { credits: true },
+  });
+  return sum._sum.credits ?? 0;
+}
+
+function budgetStatus(limit: number | null, used: number): BudgetStatus {
+  return { limit, used, remaining: limit === null ? null : Math.max(0, limit - used) };
+}
+
+/** What a user and the whole deployment have left this month */
+export async function getCreditBudget(userId: string) {
+  const period = currentPeriod();
+  const [userLimit, userUsed, globalUsed] = await Promise.all([
+    getUserBudget(userId),
+    creditsSpent({ userId }, period),
+    creditsSpent({}, period),
+  ]);
+  const user = budgetStatus(userLimit, userUsed);
+  const global = budgetStatus(getGlobalBudget(), globalUsed);
+  const remaining = [user.remaining, global.remaining].filter((r): r is number => r !== null);
+
+  return {
+    period,
+    resetsAt: periodRange(period).end,
+    user,
+    global,
+    /** The smaller of the two; null when neither has a limit */
+    remaining: remaining.length > 0 ? Math.min(...remaining) : null,
+  };
+}
+
+// ─── Ledger ──────────────────────────────────────────────────────────────────
+
+/**
+ * Check the provider, user and global budgets and write the ledger row, all
+ * under one advisory lock so parallel runs can't overshoot between the check
+ * and the insert. Free lookups (0 credits) are let through without a row.
+ */
+export async function reserveCredits(
+  provider: { name: string; creditsPerCall: number },
+  userId: string | null,
+  subject: string,
+  entity: CreditEntity,
+): Promise<CreditReservation> {
+  const cost = provider.creditsPerCall;
+  if (cost <= 0) return { ok: true, entryId: null };
+
+  const providerBudget = getProviderBudget(provider.name);
+  const globalBudget = getGlobalBudget();
+  const userBudget = userId ? await getUserBudget(userId) : null;
+  const { start } = periodRange(currentPeriod());
+
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('enrichment_credits'))`;
+
+    const spent = async (where: { provider?: string; userId?: string }) => {
+      const sum = await tx.enrichmentCredit.aggregate({ where: { ...where, createdAt: { gte: start } }, _sum: { credits: true } });
+      return sum._sum.credits ?? 0;
+    };
+    if (userBudget !== null && (await spent({ userId: userId! })) + cost > userBudget) {
+      return { ok: false, blockedBy: 'user' } as const;
+    }
+    if (globalBudget !== null && (await spent({})) + cost > globalBudget) {
+      return { ok: false, blockedBy: 'global' } as const;
+    }
+    if (providerBudget !== null && (await spent({ provider: provider.name })) + cost > providerBudget) {
+      return { ok: false, blockedBy: 'provider' } as const;
+    }
+
+    const entry = await tx.enrichmentCredit.create({
+      data: { provider: provider.name, userId, entityType: entity.type, entityId: entity.id ?? null, subject, credits: cost },
+      select: { id: true },
+    });
+    return { ok: true, entryId: entry.id } as const;
+  });
+}
+
+/**
+ * Record whether the lookup a ledger row paid for found anything. A lookup
+ * that found nothing is refunded, so users only pay for data they got.
+ */
+export async function recordLookupOutcome(entryId: string | null, matched: boolean): Promise<void> {
+  if (!entryId) return;
+  await prisma.enrichmentCredit.update({ where: { id: entryId }, data: matched ? { matched } : { matched, credits: 0 } });
+}
+
+/** Refund a lookup the provider refused, e.g. because its account is out of credits */
+export async function refundLookup(entryId: string | null): Promise<void> {
+  if (!entryId) return;
+  await prisma.enrichmentCredit.update({ where: { id: entryId }, data: { credits: 0 } });
+}
+
+// ─── Reports ─────────────────────────────────────────────────────────────────
+
+/** Credits, lookups and match rate per provider and for the top users in a month */
+export async function getSpendReport(period = currentPeriod()) {
+  const { start, end } = periodRange(period);
+  const inPeriod = { createdAt: { gte: start, lt: end } };
+
+  const [byProvider, matchedByProvider, byUser, total] = await Promise.all([
+    prisma.enrichmentCredit.groupBy({ by: ['provider'], where: inPeriod, _sum: { credits: true }, _count: { _all: true } }),
+    prisma.enrichmentCredit.groupBy({ by: ['provider'], where: { ...inPeriod, matched: true }, _count: { _all: true } }),
+    prisma.enrichmentCredit.groupBy({
+      by: ['userId'],
+      where: { ...inPeriod, userId: { not: null } },
+      _sum: { credits: true },
+      _count: { _all: true },
+      orderBy: { _sum: { credits: 'desc' } },
+      take: 50,
+    }),
+    creditsSpent({}, period),
+  ]);
+
+  const matched = new Map(matchedByProvider.map(row => [row.provider, row._count._all]));
+  const users = await prisma.user.findMany({
+    where: { id: { in: byUser.map(row => row.userId!) } },
+    select: { id: true, name: true, email: true, enrichmentCreditLimit: true },
+  });
+  const userById = new Map(users.map(u => [u.id, u]));
+  const defaultUserBudget = getDefaultUserBudget();
+
+  return {
+    period,
+    total,
+    globalBudget: getGlobalBudget(),
+    defaultUserBudget,
+    providers: byProvider.map(row => ({
+      provider: row.provider,
+      credits: row._sum.credits ?? 0,
+      lookups: row._count._all,
+      matched: matched.get(row.provider) ?? 0,
+      budget: getProviderBudget(row.provider),
+    })),
+    users: byUser.map(row => {
+      const user = userById.get(row.userId!);
+      return {
+        userId: row.userId!,
+        name: user?.name ?? null,
+        email: user?.email ?? null,
+        credits: row._sum.credits ?? 0,
+        lookups: row._count._all,
+        limit: user?.enrichmentCreditLimit ?? defaultUserBudget,
+        customLimit: user?.enrichmentCreditLimit ?? null,
+      };
+    }),
+  };
+}
+
+/** Credits per provider in a month, for the provider chain overview */
+export async function getProviderSpend(period = currentPeriod()): Promise<Map<string, number>> {
+  const { start, end } = periodRange(period);
+  const rows = await prisma.enrichmentCredit.groupBy({
+    by: ['provider'],
+    where: { createdAt: { gte: start, lt: end } },
+    _sum: { credits: true },
+  });
+  return new Map(rows.map(row => [row.provider, row._sum.credits ?? 0]));
+}
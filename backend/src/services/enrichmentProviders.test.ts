@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createFakePrisma, type FakePrisma } from '../test/fakePrisma.js';
+
+const db = vi.hoisted(() => ({ current: null as FakePrisma | null }));
+
+vi.mock('../lib/prisma.js', () => ({
+  default: new Proxy({}, { get: (_target, prop) => db.current!.client[prop] }),
+}));
+
+import {
+  BUDGET_EXHAUSTED,
+  NO_PROVIDER_CREDITS,
+  createProviderChain,
+  getProviderChain,
+  providerOutOfCredits,
+  registerEnrichmentProvider,
+  type CompanyProfile,
+  type PersonProfile,
+} from './enrichmentProviders.js';
+import { getCreditBudget } from './enrichmentCredits.js';
+
+const USER_ID = 'user_1';
+const CONTACT = { type: 'contact', id: 'contact_1' } as const;
+
+function person(externalId: string): PersonProfile {
+  return { externalId, name: 'Ana Lima', title: 'CTO' };
+}
+
+/** A provider whose lookups the test controls, recording every email it is asked about */
+function fakeProvider(
+  name: string,
+  matchPerson: (email: string) => Promise<PersonProfile | null>,
+  extra: { creditsPerCall?: number; enrichCompany?: (domain: string) => Promise<CompanyProfile | null> } = {},
+) {
+  const asked: string[] = [];
+  registerEnrichmentProvider({
+    name,
+    creditsPerCall: extra.creditsPerCall ?? 1,
+    isConfigured: () => true,
+    matchPerson: email => {
+      asked.push(email);
+      return matchPerson(email);
+    },
+    ...(extra.enrichCompany && { enrichCompany: extra.enrichCompany }),
+  });
+  return asked;
+}
+
+function ledger() {
+  return db.current!.tables.enrichmentCredit ?? [];
+}
+
+beforeEach(() => {
+  db.current = createFakePrisma();
+  // reserveCredits serialises on a Postgres advisory lock; in memory there is nothing to wait for
+  db.current.client.$executeRaw = async () => 0;
+  db.current.seed('user', [{ id: USER_ID, email: 'me@home.io', enrichmentCreditLimit: null }]);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('provider chain', () => {
+  it('follows ENRICHMENT_PROVIDERS and leaves out unknown and unconfigured providers', () => {
+    fakeProvider('alpha', async () => null);
+    fakeProvider('beta', async () => null);
+    registerEnrichmentProvider({ name: 'gamma', creditsPerCall: 1, isConfigured: () => false });
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'beta, nope,gamma,ALPHA');
+
+    expect(getProviderChain().map(p => p.name)).toEqual(['beta', 'alpha']);
+  });
+
+  it('falls through to the next provider until one has a real match', async () => {
+    const alphaAsked = fakeProvider('alpha', async () => null);
+    // A profile with an id but nothing useful doesn't count as a match
+    const betaAsked = fakeProvider('beta', async () => ({ externalId: 'b_1', name: 'Ana' }));
+    const gammaAsked = fakeProvider('gamma', async () => person('g_1'));
+    const deltaAsked = fakeProvider('delta', async () => person('d_1'));
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha,beta,gamma,delta');
+
+    const chain = createProviderChain({ userId: USER_ID });
+    const match = await chain.matchPerson('ana@acme.com', CONTACT);
+
+    expect(match).toEqual({ provider: 'gamma', profile: person('g_1') });
+    expect([alphaAsked, betaAsked, gammaAsked, deltaAsked]).toEqual([['ana@acme.com'], ['ana@acme.com'], ['ana@acme.com'], []]);
+    // Only the match is paid for; the misses stay on the ledger at 0 credits
+    expect(chain.creditsUsed()).toEqual({ gamma: 1 });
+    expect(ledger().map(r => [r.provider, r.matched, r.credits])).toEqual([['alpha', false, 0], ['beta', false, 0], ['gamma', true, 1]]);
+    expect(ledger()[2]).toMatchObject({
+      userId: USER_ID, entityType: 'contact', entityId: 'contact_1', subject: 'ana@acme.com',
+    });
+  });
+
+  it('skips a provider for the rest of the run once it is out of credits', async () => {
+    const alphaAsked = fakeProvider('alpha', async () => { throw providerOutOfCredits('alpha'); });
+    fakeProvider('beta', async email => person(`b_${email}`));
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha,beta');
+
+    const chain = createProviderChain({ userId: USER_ID });
+    expect((await chain.matchPerson('ana@acme.com', CONTACT))?.provider).toBe('beta');
+    expect((await chain.matchPerson('bo@acme.com', CONTACT))?.provider).toBe('beta');
+
+    expect(alphaAsked).toEqual(['ana@acme.com']);
+    // The refused call was written down before it was made, then refunded
+    expect(ledger().map(r => [r.provider, r.credits])).toEqual([['alpha', 0], ['beta', 1], ['beta', 1]]);
+    expect(chain.creditsUsed()).toEqual({ beta: 2 });
+  });
+
+  it('reports NO_PROVIDER_CREDITS when every provider able to answer is out', async () => {
+    fakeProvider('alpha', async () => { throw providerOutOfCredits('alpha'); });
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha');
+
+    const chain = createProviderChain({ userId: USER_ID });
+
+    await expect(chain.matchPerson('ana@acme.com', CONTACT)).rejects.toThrow(NO_PROVIDER_CREDITS);
+    expect(chain.canMatchPeople).toBe(false);
+    expect(ledger().map(r => r.credits)).toEqual([0]);
+    expect(chain.creditsUsed()).toEqual({});
+  });
+
+  it('rethrows provider errors other than running out of credits', async () => {
+    fakeProvider('alpha', async () => { throw new Error('timeout'); });
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha');
+
+    await expect(createProviderChain({ userId: USER_ID }).matchPerson('ana@acme.com', CONTACT)).rejects.toThrow('timeout');
+  });
+
+  it('only asks providers that support the lookup', async () => {
+    fakeProvider('alpha', async () => person('a_1'));
+    fakeProvider('beta', async () => null, { enrichCompany: async domain => ({ name: domain }) });
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha,beta');
+
+    const chain = createProviderChain({ userId: USER_ID });
+    const match = await chain.enrichCompany('acme.com', { type: 'company', id: 'company_1' });
+
+    expect(match).toEqual({ provider: 'beta', profile: { name: 'acme.com' } });
+    expect(ledger().map(r => [r.provider, r.entityType, r.subject])).toEqual([['beta', 'company', 'acme.com']]);
+  });
+});
+
+describe('credit ledger', () => {
+  it('moves on to the next provider when one has spent its monthly budget', async () => {
+    const alphaAsked = fakeProvider('alpha', async () => person('a_1'));
+    fakeProvider('beta', async () => person('b_1'));
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha,beta');
+    vi.stubEnv('ENRICHMENT_BUDGET_ALPHA', '2');
+    db.current!.seed('enrichmentCredit', [
+      { provider: 'alpha', userId: 'someone_else', entityType: 'contact', subject: 'x@y.com', credits: 2 },
+    ]);
+
+    const chain = createProviderChain({ userId: USER_ID });
+    const match = await chain.matchPerson('ana@acme.com', CONTACT);
+
+    expect(match?.provider).toBe('beta');
+    expect(alphaAsked).toEqual([]);
+    expect(chain.creditsUsed()).toEqual({ beta: 1 });
+  });
+
+  it('counts only this month against the budget', async () => {
+    fakeProvider('alpha', async () => person('a_1'));
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha');
+    vi.stubEnv('ENRICHMENT_BUDGET_ALPHA', '2');
+    const lastMonth = new Date();
+    lastMonth.setUTCDate(0);
+    db.current!.seed('enrichmentCredit', [
+      { provider: 'alpha', entityType: 'contact', subject: 'x@y.com', credits: 2, createdAt: lastMonth },
+    ]);
+
+    expect((await createProviderChain({ userId: USER_ID }).matchPerson('ana@acme.com', CONTACT))?.provider).toBe('alpha');
+  });
+
+  it('stops the run without asking anyone once the user budget is spent', async () => {
+    const alphaAsked = fakeProvider('alpha', async email => person(`a_${email}`));
+    const betaAsked = fakeProvider('beta', async () => null);
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha,beta');
+    db.current!.tables.user[0].enrichmentCreditLimit = 2;
+
+    const chain = createProviderChain({ userId: USER_ID });
+    expect((await chain.matchPerson('ana@acme.com', CONTACT))?.provider).toBe('alpha');
+    expect((await chain.matchPerson('bo@acme.com', CONTACT))?.provider).toBe('alpha');
+    await expect(chain.matchPerson('cy@acme.com', CONTACT)).rejects.toThrow(BUDGET_EXHAUSTED);
+    await expect(chain.matchPerson('dee@acme.com', CONTACT)).rejects.toThrow(BUDGET_EXHAUSTED);
+
+    expect(alphaAsked).toEqual(['ana@acme.com', 'bo@acme.com']);
+    expect(betaAsked).toEqual([]);
+    expect(chain.canMatchPeople).toBe(false);
+    expect(await getCreditBudget(USER_ID)).toMatchObject({
+      user: { limit: 2, used: 2, remaining: 0 },
+      global: { limit: null, used: 2, remaining: null },
+      remaining: 0,
+    });
+  });
+
+  it('does not charge lookups that find nothing against the budget', async () => {
+    const alphaAsked = fakeProvider('alpha', async () => null);
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha');
+    db.current!.tables.user[0].enrichmentCreditLimit = 1;
+
+    const chain = createProviderChain({ userId: USER_ID });
+    for (const email of ['ana@acme.com', 'bo@acme.com', 'cy@acme.com']) {
+      expect(await chain.matchPerson(email, CONTACT)).toBeNull();
+    }
+
+    expect(alphaAsked).toHaveLength(3);
+    expect(ledger().map(r => [r.matched, r.credits])).toEqual([[false, 0], [false, 0], [false, 0]]);
+    expect((await getCreditBudget(USER_ID)).user).toEqual({ limit: 1, used: 0, remaining: 1 });
+  });
+
+  it('falls back to the default user budget and checks the overall one', async () => {
+    fakeProvider('alpha', async () => null);
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha');
+    vi.stubEnv('ENRICHMENT_USER_MONTHLY_CREDITS', '10');
+    vi.stubEnv('ENRICHMENT_MONTHLY_CREDITS', '5');
+    db.current!.seed('enrichmentCredit', [
+      { provider: 'alpha', userId: 'someone_else', entityType: 'contact', subject: 'x@y.com', credits: 5 },
+    ]);
+
+    await expect(createProviderChain({ userId: USER_ID }).matchPerson('ana@acme.com', CONTACT)).rejects.toThrow(BUDGET_EXHAUSTED);
+    expect(await getCreditBudget(USER_ID)).toMatchObject({
+      user: { limit: 10, used: 0, remaining: 10 },
+      global: { limit: 5, used: 5, remaining: 0 },
+      remaining: 0,
+    });
+  });
+
+  it('lets free lookups through without a ledger row', async () => {
+    fakeProvider('alpha', async () => person('a_1'), { creditsPerCall: 0 });
+    vi.stubEnv('ENRICHMENT_PROVIDERS', 'alpha');
+    vi.stubEnv('ENRICHMENT_MONTHLY_CREDITS', '0');
+
+    const chain = createProviderChain({ userId: USER_ID });
+
+    expect((await chain.matchPerson('ana@acme.com', CONTACT))?.provider).toBe('alpha');
+    expect(ledger()).toEqual([]);
+    expect(chain.creditsUsed()).toEqual({ alpha: 0 });
+  });
+});
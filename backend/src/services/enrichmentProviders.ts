@@ -0,0 +1,289 @@
+import {
+  reserveCredits,
+  recordLookupOutcome,
+  refundLookup,
+  currentPeriod,
+  getProviderBudget,
+  getProviderSpend,
+  type CreditEntity,
+} from './enrichmentCredits.js';
+
+/**
+ * Enrichment data sources behind one interface. Each provider can look up
+ * people by email and/or companies by domain; the pipeline asks them in the
+ * order of ENRICHMENT_PROVIDERS and takes the first real match.
+ *
+ * - Each paid lookup is written to the credit ledger first, and checked
+ *   against the provider's, the user's and the overall monthly budget
+ *   (see enrichmentCredits.ts). Lookups that find nothing or are refused for
+ *   lack of credits are refunded.
+ * - A provider over its budget, or one that reports it is out of credits, is
+ *   skipped for the rest of the run; the next one in the chain takes over.
+ *   When the user's or the overall budget is spent, nobody is asked.
+ * - Every value written from a provider is recorded in the row's
+ *   `fieldSources` as `{ provider, at }`, field by field.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A person as a provider describes them; keys match `Contact` columns */
+export interface PersonProfile {
+  externalId: string;
+  name?: string;
+  title?: string;
+  headline?: string;
+  linkedinUrl?: string;
+  photoUrl?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  // Not stored on the contact, but used to fill in the company
+  companyName?: string;
+  companyDomain?: string;
+}
+
+/** A company as a provider describes it; keys match `Company` columns */
+export interface CompanyProfile {
+  externalId?: string;
+  name?: string;
+  employeeCount?: number;
+  industry?: string;
+  foundedYear?: number;
+  linkedinUrl?: string;
+  websiteUrl?: string;
+  logo?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  description?: string;
+  annualRevenue?: string;
+  totalFunding?: string;
+  lastFundingRound?: string;
+  lastFundingDate?: Date;
+  technologies?: string[];
+}
+
+export interface EnrichmentProvider {
+  name: string;
+  /** Credits reserved per lookup; refunded when it finds nothing */
+  creditsPerCall: number;
+  /** Whether the provider has what it needs to run (API key etc.) */
+  isConfigured: () => boolean;
+  matchPerson?: (email: string) => Promise<PersonProfile | null>;
+  enrichCompany?: (domain: string) => Promise<CompanyProfile | null>;
+}
+
+export interface ProviderMatch<T> {
+  provider: string;
+  profile: T;
+}
+
+export type FieldSources = Record<string, { provider: string; at: string }>;
+
+const PERSON_FIELDS = ['name', 'title', 'headline', 'linkedinUrl', 'photoUrl', 'city', 'state', 'country'] as const;
+
+const COMPANY_FIELDS = [
+  'name', 'employeeCount', 'industry', 'foundedYear', 'linkedinUrl', 'websiteUrl', 'logo', 'city', 'state',
+  'country', 'description', 'annualRevenue', 'totalFunding', 'lastFundingRound', 'lastFundingDate', 'technologies',
+] as const;
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+/** Thrown by a provider when its account has no credits left */
+export function providerOutOfCredits(provider: string): Error {
+  const err = new Error(`${provider} credits exhausted`);
+  (err as any).outOfCredits = true;
+  return err;
+}
+
+export const NO_PROVIDER_CREDITS = 'NO_PROVIDER_CREDITS';
+/** The user's or the overall monthly credit budget is spent */
+export const BUDGET_EXHAUSTED = 'ENRICHMENT_BUDGET_EXHAUSTED';
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+const providers = new Map<string, EnrichmentProvider>();
+
+export function registerEnrichmentProvider(provider: EnrichmentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+function getProviderOrder(): string[] {
+  return (process.env.ENRICHMENT_PROVIDERS || 'apollo')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Configured providers, in the order they are asked */
+export function getProviderChain(): EnrichmentProvider[] {
+  const chain: EnrichmentProvider[] = [];
+  for (const name of getProviderOrder()) {
+    const provider = providers.get(name);
+    if (!provider) {
+      console.warn(`[enrich] Unknown provider "${name}" in ENRICHMENT_PROVIDERS`);
+      continue;
+    }
+    if (provider.isConfigured()) chain.push(provider);
+  }
+  return chain;
+}
+
+// ─── Usage ───────────────────────────────────────────────────────────────────
+
+/** Every registered provider with its place in the chain and this month's usage */
+export async function getProviderUsage(period = currentPeriod()) {
+  const order = getProviderOrder();
+  const used = await getProviderSpend(period);
+
+  return Array.from(providers.values()).map(provider => ({
+    name: provider.name,
+    position: order.includes(provider.name) ? order.indexOf(provider.name) + 1 : null,
+    configured: provider.isConfigured(),
+    creditsUsed: used.get(provider.name) ?? 0,
+    budget: getProviderBudget(provider.name),
+  }));
+}
+
+// ─── Chain ───────────────────────────────────────────────────────────────────
+
+/** A match worth keeping: a provider id plus at least one useful field */
+function hasPersonData(profile: PersonProfile | null): profile is PersonProfile {
+  return !!(profile?.externalId && (profile.title || profile.linkedinUrl || profile.photoUrl || profile.headline));
+}
+
+function hasCompanyData(profile: CompanyProfile | null): profile is CompanyProfile {
+  return !!profile?.name;
+}
+
+/**
+ * The provider chain for one run on behalf of `userId`. Remembers which
+ * providers ran out of credits or budget so they aren't asked again, and
+ * what each one cost. Lookups throw BUDGET_EXHAUSTED once the user's or the
+ * overall budget is spent, and NO_PROVIDER_CREDITS once no provider able to
+ * answer them has credits left.
+ */
+export function createProviderChain(options: { userId: string | null }) {
+  const chain = getProviderChain();
+  const exhausted = new Set<string>();
+  const creditsUsed: Record<string, number> = {};
+  let budgetExhausted = false;
+
+  async function lookup<T>(
+    subject: string,
+    entity: CreditEntity,
+    supports: (provider: EnrichmentProvider) => boolean,
+    call: (provider: EnrichmentProvider) => Promise<T | null>,
+    isMatch: (profile: T | null) => profile is T,
+  ): Promise<ProviderMatch<T> | null> {
+    if (budgetExhausted) throw new Error(BUDGET_EXHAUSTED);
+
+    let asked = false;
+    for (const provider of chain) {
+      if (!supports(provider) || exhausted.has(provider.name)) continue;
+
+      const reservation = await reserveCredits(provider, options.userId, subject, entity);
+      if (!reservation.ok) {
+        if (reservation.blockedBy !== 'provider') {
+          console.log(`[enrich] ${reservation.blockedBy === 'user' ? 'User' : 'Overall'} monthly credit budget reached`);
+          budgetExhausted = true;
+          throw new Error(BUDGET_EXHAUSTED);
+        }
+        console.log(`[enrich] ${provider.name} monthly budget reached, skipping`);
+        exhausted.add(provider.name);
+        continue;
+      }
+
+      let profile: T | null;
+      try {
+        profile = await call(provider);
+      } catch (err: any) {
+        if (!err.outOfCredits) throw err;
+        console.error(`[enrich] ⛔ ${provider.name} is out of credits`);
+        exhausted.add(provider.name);
+        await refundLookup(reservation.entryId).catch(refundErr =>
+          console.error(`[enrich] Failed to refund ${provider.name} lookup:`, refundErr.message));
+        continue;
+      }
+      asked = true;
+      const matched = isMatch(profile);
+      await recordLookupOutcome(reservation.entryId, matched).catch(outcomeErr =>
+        console.error(`[enrich] Failed to record ${provider.name} lookup:`, outcomeErr.message));
+      if (matched) {
+        creditsUsed[provider.name] = (creditsUsed[provider.name] || 0) + provider.creditsPerCall;
+        return { provider: provider.name, profile: profile as T };
+      }
+    }
+    if (!asked && chain.some(supports)) throw new Error(NO_PROVIDER_CREDITS);
+    return null;
+  }
+
+  return {
+    /** Whether any provider in the chain can look up people */
+    get canMatchPeople() { return !budgetExhausted && chain.some(p => !!p.matchPerson && !exhausted.has(p.name)); },
+    get canEnrichCompanies() { return !budgetExhausted && chain.some(p => !!p.enrichCompany && !exhausted.has(p.name)); },
+    matchPerson: (email: string, entity: CreditEntity) =>
+      lookup<PersonProfile>(email, entity, p => !!p.matchPerson, p => p.matchPerson!(email), hasPersonData),
+    enrichCompany: (domain: string, entity: CreditEntity) =>
+      lookup<CompanyProfile>(domain, entity, p => !!p.enrichCompany, p => p.enrichCompany!(domain), hasCompanyData),
+    creditsUsed: () => ({ ...creditsUsed }),
+  };
+}
+
+export type ProviderChain = ReturnType<typeof createProviderChain>;
+
+// ─── Provenance ──────────────────────────────────────────────────────────────
+
+function fieldUpdate(
+  fields: readonly string[],
+  profile: Record<string, unknown>,
+  provider: string,
+  previous: unknown,
+  at: Date,
+) {
+  const data: Record<string, any> = {};
+  const sources: FieldSources = { ...((previous as FieldSources | null) || {}) };
+  for (const field of fields) {
+    const value = profile[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    data[field] = value;
+    sources[field] = { provider, at: at.toISOString() };
+  }
+  data.fieldSources = sources;
+  return data;
+}
+
+/**
+ * Contact columns to write for a person match: the fields the provider
+ * filled in, the provider's id, and their provenance merged into the
+ * contact's existing `fieldSources`.
+ */
+export function contactUpdateFromMatch(
+  match: ProviderMatch<PersonProfile>,
+  previousSources: unknown,
+  at = new Date(),
+): Record<string, any> {
+  return {
+    ...fieldUpdate(PERSON_FIELDS, match.profile as unknown as Record<string, unknown>, match.provider, previousSources, at),
+    apolloId: match.profile.externalId,
+    enrichedAt: at,
+  };
+}
+
+/** Company columns to write for a company match, like `contactUpdateFromMatch` */
+export function companyUpdateFromMatch(
+  match: ProviderMatch<CompanyProfile>,
+  previousSources: unknown,
+  at = new Date(),
+): Record<string, any> {
+  const data = fieldUpdate(COMPANY_FIELDS, match.profile as unknown as Record<string, unknown>, match.provider, previousSources, at);
+  if (match.profile.externalId) data.apolloId = match.profile.externalId;
+  data.enrichedAt = at;
+  return data;
+}
+
+/** Record a value written outside the chain, e.g. the website summary */
+export function withFieldSource(previous: unknown, field: string, provider: string, at = new Date()): FieldSources {
+  return { ...((previous as FieldSources | null) || {}), [field]: { provider, at: at.toISOString() } };
+}
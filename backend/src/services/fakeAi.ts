@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import type { AiProvider, ChatRequest } from './aiProvider.js';
+
+/**
+ * Offline AI provider for tests and local development (`AI_PROVIDER=fake`,
+ * and the default outside production when OPENAI_API_KEY isn't set). Every
+ * answer is derived from the input alone, so the same prompt always gets the
+ * same reply:
+ *
+ * - structured output fills the schema: enums get their first value, string
+ *   arrays get the words of the quoted query (or the whole message), other
+ *   fields are empty.
+ * - plain chat replies with the start of the last user message.
+ * - embeddings hash each word into one of 1536 dimensions, so texts that
+ *   share words come out similar.
+ *
+ * Tokens are estimated at four characters each and cost nothing.
+ */
+
+const DIMENSIONS = 1536;
+const MAX_REPLY_CHARS = 600;
+const MAX_LIST_WORDS = 15;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function words(text: string): string[] {
+  return [...new Set(text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}&+.-]*/gu) ?? [])];
+}
+
+function lastUserMessage(request: ChatRequest): string {
+  return [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+}
+
+/** The last "quoted" part of the message: the query or text the prompt wraps */
+function subject(message: string): string {
+  const quoted = message.match(/"([^"]+)"/g);
+  return quoted ? quoted[quoted.length - 1].slice(1, -1) : message;
+}
+
+function fillSchema(schema: any, keywords: string[]): unknown {
+  if (Array.isArray(schema?.enum)) return schema.enum[0];
+  switch (schema?.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, fillSchema(value, keywords)]),
+      );
+    case 'array':
+      return schema.items?.type === 'string' && !schema.items.enum ? keywords.slice(0, MAX_LIST_WORDS) : [];
+    case 'boolean':
+      return false;
+    case 'number':
+    case 'integer':
+      return 0;
+    default:
+      return '';
+  }
+}
+
+function embedText(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  for (const word of words(text)) {
+    const hash = crypto.createHash('sha256').update(word).digest();
+    const sign = hash[4] & 1 ? 1 : -1;
+    vector[hash.readUInt32BE(0) % DIMENSIONS] += sign;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  // An empty text still needs a unit vector for cosine distance
+  if (norm === 0) vector[0] = 1;
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+export const fakeAiProvider: AiProvider = {
+  name: 'fake',
+  isConfigured: () => true,
+
+  async chat(_model, request) {
+    const message = lastUserMessage(request);
+    const content = request.jsonSchema
+      ? JSON.stringify(fillSchema(request.jsonSchema.schema, words(subject(message))))
+      : message.replace(/\s+/g, ' ').trim().slice(0, MAX_REPLY_CHARS) || null;
+    return {
+      content,
+      usage: {
+        inputTokens: estimateTokens(request.messages.map(m => m.content).join('\n')),
+        outputTokens: estimateTokens(content ?? ''),
+      },
+    };
+  },
+
+  async embed(_model, texts) {
+    return {
+      vectors: texts.map(embedText),
+      usage: { inputTokens: estimateTokens(texts.join('\n')), outputTokens: 0 },
+    };
+  },
+};
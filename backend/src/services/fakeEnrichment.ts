@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { registerEnrichmentProvider } from './enrichmentProviders.js';
+
+/**
+ * Offline enrichment provider for tests and local development
+ * (`ENRICHMENT_PROVIDERS=fake`). Answers are derived from a hash of the
+ * email or domain, so the same input always gets the same profile, and about
+ * one lookup in four finds nothing so no-match paths get exercised too.
+ * Costs 1 credit per call so budgets behave as they do with a paid provider.
+ */
+
+const TITLES = ['Founder & CEO', 'CTO', 'VP Engineering', 'Head of Product', 'Product Manager', 'Software Engineer', 'Head of Sales', 'Partner'];
+const INDUSTRIES = ['software', 'financial services', 'marketing & advertising', 'health care', 'venture capital & private equity', 'e-commerce'];
+const PLACES = [
+  { city: 'Berlin', state: 'Berlin', country: 'Germany' },
+  { city: 'London', state: 'England', country: 'United Kingdom' },
+  { city: 'San Francisco', state: 'California', country: 'United States' },
+  { city: 'New York', state: 'New York', country: 'United States' },
+  { city: 'Paris', state: 'Île-de-France', country: 'France' },
+];
+const EMPLOYEE_COUNTS = [8, 25, 60, 140, 450, 1200, 5000];
+const FUNDING_ROUNDS = ['Seed', 'Series A', 'Series B', 'Series C'];
+
+function digest(input: string): Buffer {
+  return crypto.createHash('sha256').update(input.trim().toLowerCase()).digest();
+}
+
+function pick<T>(list: T[], byte: number): T {
+  return list[byte % list.length];
+}
+
+function titleCase(words: string): string {
+  return words
+    .split(/[._\-+\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+registerEnrichmentProvider({
+  name: 'fake',
+  creditsPerCall: 1,
+  isConfigured: () => true,
+
+  async matchPerson(email) {
+    const hash = digest(email);
+    if (hash[0] % 4 === 0) return null;
+
+    const [local, domain = ''] = email.toLowerCase().split('@');
+    const title = pick(TITLES, hash[1]);
+    const company = titleCase(domain.split('.')[0] || 'Acme');
+    const place = pick(PLACES, hash[2]);
+    return {
+      externalId: `fake_${hash.toString('hex').slice(0, 16)}`,
+      name: titleCase(local),
+      title,
+      headline: `${title} at ${company}`,
+      linkedinUrl: `https://www.linkedin.com/in/${local.replace(/[^a-z0-9]+/g, '-')}-${hash.toString('hex').slice(0, 6)}`,
+      ...place,
+      companyName: company,
+      companyDomain: domain || undefined,
+    };
+  },
+
+  async enrichCompany(domain) {
+    const hash = digest(domain);
+    if (hash[0] % 4 === 0) return null;
+
+    const name = titleCase(domain.split('.')[0]);
+    const industry = pick(INDUSTRIES, hash[1]);
+    const employeeCount = pick(EMPLOYEE_COUNTS, hash[2]);
+    const fundingRound = pick(FUNDING_ROUNDS, hash[3]);
+    return {
+      externalId: `fake_${hash.toString('hex').slice(0, 16)}`,
+      name,
+      industry,
+      employeeCount,
+      foundedYear: 1990 + (hash[4] % 35),
+      websiteUrl: `https://${domain}`,
+      linkedinUrl: `https://www.linkedin.com/company/${domain.split('.')[0]}`,
+      ...pick(PLACES, hash[5]),
+      description: `${name} is a ${employeeCount}-person ${industry} company.`,
+      totalFunding: String((hash[6] + 1) * 250_000),
+      lastFundingRound: fundingRound,
+      lastFundingDate: new Date(Date.UTC(2020 + (hash[7] % 6), hash[8] % 12, 1)),
+    };
+  },
+});
@@ -0,0 +1,253 @@
+import prisma from '../lib/prisma.js';
+import { embedQuery, THRESHOLD_PRESETS } from '../routes/embeddings.js';
+import { isAiConfigured } from './aiProvider.js';
+import { buildFilteredCte, and, type SearchFilters } from './search.js';
+
+/**
+ * Free-text company search over the user's network that combines two
+ * rankings with reciprocal-rank fusion (RRF):
+ *
+ * - lexical: Postgres full-text search over the company's name (weighted
+ *   highest), industry, description and website summary, and the titles of
+ *   the contacts the user reaches there. Any query word can match; more
+ *   matches rank higher.
+ * - semantic: cosine similarity between the query's embedding and the
+ *   company's, above the precision level's threshold.
+ *
+ * Each company scores Σ 1 / (RRF_K + rank) over the rankings it appears in,
+ * so one that does well in both beats one that tops only one. Structured
+ * filters (as `/api/ai/parse-query` returns them) narrow the candidates
+ * first, using the same conditions as services/search.ts. Each result says
+ * why it matched.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface HybridSearchQuery {
+  query: string;
+  filters?: SearchFilters;
+  /** Extra terms for the lexical ranking, e.g. the AI's semantic keywords */
+  keywords?: string[];
+  excludeKeywords?: string[];
+  /** 1 (wide) to 3 (strict); sets the minimum similarity */
+  precision?: number;
+  limit?: number;
+}
+
+export type LexicalField = 'name' | 'industry' | 'description' | 'websiteSummary' | 'titles';
+
+export interface MatchExplanation {
+  lexical: { rank: number; score: number; fields: LexicalField[]; titles: string[] } | null;
+  semantic: { rank: number; similarity: number } | null;
+  /** Structured filters the company passed */
+  filters: string[];
+  /** The above as short sentences, for display */
+  reasons: string[];
+}
+
+export interface HybridSearchResult {
+  id: string;
+  domain: string;
+  name: string;
+  score: number;
+  explanation: MatchExplanation;
+}
+
+// The usual RRF constant: damps the difference between the very top ranks
+export const RRF_K = 60;
+// How deep each ranking goes before fusing
+export const CANDIDATES_PER_RANKING = 500;
+
+const FIELD_LABELS: Record<LexicalField, string> = {
+  name: 'name',
+  industry: 'industry',
+  description: 'description',
+  websiteSummary: 'website',
+  titles: 'contact titles',
+};
+
+// ─── Explanations ────────────────────────────────────────────────────────────
+
+const SOURCE_LABELS: Record<string, string> = {
+  mine: 'You know people there',
+  spaces: 'Reached through your spaces or connections',
+  both: 'You and your network both know people there',
+};
+
+/** The structured filters in force, in words */
+export function describeFilters(filters: SearchFilters = {}): string[] {
+  const out: string[] = [];
+  const list = (values?: string[]) => (values ?? []).filter(Boolean).join(', ');
+
+  if (filters.employeeRanges?.length) out.push(`${list(filters.employeeRanges)} employees`);
+  if (filters.city?.trim()) out.push(`City matches "${filters.city.trim()}"`);
+  if (filters.country?.trim()) out.push(`In ${filters.country.trim()}`);
+  if (filters.fundingRounds?.length) out.push(`Funding: ${list(filters.fundingRounds)}`);
+  if (filters.fundingRecency && filters.fundingRecency !== 'any') {
+    out.push(filters.fundingRecency === '6m' ? 'Raised in the last 6 months' : 'Raised in the last year');
+  }
+  if (filters.revenueRanges?.length) out.push(`Revenue ${list(filters.revenueRanges)}`);
+  const from = String(filters.foundedFrom ?? '').trim();
+  const to = String(filters.foundedTo ?? '').trim();
+  if (from && to) out.push(`Founded ${from}–${to}`);
+  else if (from) out.push(`Founded in or after ${from}`);
+  else if (to) out.push(`Founded in or before ${to}`);
+  if (filters.sourceFilter && filters.sourceFilter !== 'all') out.push(SOURCE_LABELS[filters.sourceFilter]);
+  if (filters.strengthFilter && filters.strengthFilter !== 'all') out.push(`${filters.strengthFilter[0].toUpperCase()}${filters.strengthFilter.slice(1)} relationship`);
+  if (filters.technologies?.length) out.push(`Uses ${list(filters.technologies)}`);
+  if (filters.spaceId) out.push('In the selected space');
+  if (filters.connectionId) out.push('Through the selected connection');
+  if (filters.tagInclude?.length) out.push(`Tagged ${list(filters.tagInclude)}`);
+  if (filters.tagExclude?.length) out.push(`Not tagged ${list(filters.tagExclude)}`);
+  return out;
+}
+
+function reasonsFor(explanation: Omit<MatchExplanation, 'reasons'>): string[] {
+  const reasons: string[] = [];
+  const { lexical, semantic } = explanation;
+  const fields = lexical?.fields.filter(f => f !== 'titles') ?? [];
+  if (fields.length > 0) reasons.push(`Keyword match in ${fields.map(f => FIELD_LABELS[f]).join(', ')}`);
+  if (lexical && lexical.titles.length > 0) reasons.push(`Contacts there: ${lexical.titles.join(', ')}`);
+  if (semantic) reasons.push(`Similar in meaning (${Math.round(semantic.similarity * 100)}%)`);
+  return [...reasons, ...explanation.filters];
+}
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+interface FusedRow {
+  id: string;
+  domain: string;
+  name: string;
+  score: number;
+  lexicalRank: bigint | null;
+  lexicalScore: number | null;
+  semanticRank: bigint | null;
+  similarity: number | null;
+  inName: boolean;
+  inIndustry: boolean;
+  inDescription: boolean;
+  inWebsiteSummary: boolean;
+  matchedTitles: string[];
+}
+
+/**
+ * Companies `userId` reaches that match `search`, best first. The semantic
+ * ranking is skipped (lexical only) when embeddings aren't configured.
+ */
+export async function hybridSearch(
+  userId: string,
+  search: HybridSearchQuery,
+): Promise<{ results: HybridSearchResult[]; threshold: number; semantic: boolean }> {
+  const precision = Math.min(3, Math.max(1, Math.round(search.precision ?? 2)));
+  const threshold = THRESHOLD_PRESETS[precision];
+  const limit = Math.min(Math.max(1, search.limit ?? 100), 500);
+  const filters = search.filters ?? {};
+
+  // The description and keywords rank rather than filter here
+  const { params, facets, sql } = buildFilteredCte(userId, {
+    filters: { ...filters, description: undefined },
+    excludeKeywords: search.excludeKeywords,
+  });
+  const terms = [search.query, filters.description, ...(search.keywords ?? [])].filter(Boolean).join(' ');
+  const tsQuery = params.add(terms);
+
+  let semanticSql = `SELECT NULL::text AS id, NULL::float8 AS similarity, NULL::bigint AS rank WHERE FALSE`;
+  let semantic = false;
+  if (isAiConfigured()) {
+    try {
+      const vector = params.add(await embedQuery(search.query));
+      semanticSql = `
+        SELECT m.id, 1 - (co.embedding <=> ${vector}::vector) AS similarity,
+               ROW_NUMBER() OVER (ORDER BY co.embedding <=> ${vector}::vector, m.id) AS rank
+        FROM matched m
+        JOIN companies co ON co.id = m.id
+        WHERE co.embedding IS NOT NULL AND 1 - (co.embedding <=> ${vector}::vector) >= ${params.add(threshold)}
+        ORDER BY rank
+        LIMIT ${CANDIDATES_PER_RANKING}`;
+      semantic = true;
+    } catch (err: any) {
+      console.error('[search] Query embedding failed, using keywords only:', err.message);
+    }
+  }
+
+  // Any query word may match: plainto_tsquery's AND turned into OR
+  const rows = await prisma.$queryRawUnsafe<FusedRow[]>(
+    `${sql},
+    matched AS (SELECT * FROM filtered WHERE ${and(Object.values(facets))}),
+    q AS (SELECT NULLIF(replace(plainto_tsquery('english', ${tsQuery})::text, ' & ', ' | '), '')::tsquery AS query),
+    docs AS (
+      SELECT m.id,
+             setweight(to_tsvector('english', COALESCE(m.name, '')), 'A') ||
+             setweight(to_tsvector('english', concat_ws(' ', m.industry, m.description, m."websiteSummary")), 'B') ||
+             setweight(to_tsvector('english', COALESCE(m.titles, '')), 'C') AS doc
+      FROM matched m
+    ),
+    lexical AS (
+      SELECT d.id, ts_rank_cd(d.doc, q.query) AS score,
+             ROW_NUMBER() OVER (ORDER BY ts_rank_cd(d.doc, q.query) DESC, d.id) AS rank
+      FROM docs d, q
+      WHERE d.doc @@ q.query
+      ORDER BY rank
+      LIMIT ${CANDIDATES_PER_RANKING}
+    ),
+    semantic AS (${semanticSql}),
+    fused AS (
+      SELECT COALESCE(l.id, s.id) AS id,
+             COALESCE(1.0 / (${RRF_K} + l.rank), 0) + COALESCE(1.0 / (${RRF_K} + s.rank), 0) AS score,
+             l.rank AS "lexicalRank", l.score AS "lexicalScore", s.rank AS "semanticRank", s.similarity
+      FROM lexical l
+      FULL OUTER JOIN semantic s ON s.id = l.id
+      ORDER BY score DESC, id
+      LIMIT ${params.add(limit)}
+    )
+    SELECT f.id, m.domain, m.name, f.score::float8 AS score,
+           f."lexicalRank", f."lexicalScore"::float8 AS "lexicalScore", f."semanticRank", f.similarity::float8 AS similarity,
+           COALESCE(to_tsvector('english', COALESCE(m.name, '')) @@ q.query, FALSE) AS "inName",
+           COALESCE(to_tsvector('english', COALESCE(m.industry, '')) @@ q.query, FALSE) AS "inIndustry",
+           COALESCE(to_tsvector('english', COALESCE(m.description, '')) @@ q.query, FALSE) AS "inDescription",
+           COALESCE(to_tsvector('english', COALESCE(m."websiteSummary", '')) @@ q.query, FALSE) AS "inWebsiteSummary",
+           ARRAY(
+             SELECT DISTINCT r.title FROM reach r
+             WHERE r."companyId" = f.id AND r.title IS NOT NULL AND to_tsvector('english', r.title) @@ q.query
+             LIMIT 3
+           ) AS "matchedTitles"
+    FROM fused f
+    JOIN matched m ON m.id = f.id
+    CROSS JOIN q
+    ORDER BY f.score DESC, m.name`,
+    ...params.values,
+  );
+
+  const applied = describeFilters(filters);
+  const results = rows.map(row => {
+    const fields: LexicalField[] = [];
+    if (row.inName) fields.push('name');
+    if (row.inIndustry) fields.push('industry');
+    if (row.inDescription) fields.push('description');
+    if (row.inWebsiteSummary) fields.push('websiteSummary');
+    if (row.matchedTitles.length > 0) fields.push('titles');
+
+    const explanation = {
+      lexical: row.lexicalRank === null ? null : {
+        rank: Number(row.lexicalRank),
+        score: Math.round(Number(row.lexicalScore) * 1000) / 1000,
+        fields,
+        titles: row.matchedTitles,
+      },
+      semantic: row.semanticRank === null ? null : {
+        rank: Number(row.semanticRank),
+        similarity: Math.round(Number(row.similarity) * 1000) / 1000,
+      },
+      filters: applied,
+    };
+    return {
+      id: row.id,
+      domain: row.domain,
+      name: row.name,
+      score: Math.round(row.score * 10000) / 10000,
+      explanation: { ...explanation, reasons: reasonsFor(explanation) },
+    };
+  });
+
+  return { results, threshold, semantic };
+}
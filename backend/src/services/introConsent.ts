@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import prisma from '../lib/prisma.js';
+import { sendIntroConsentEmail, type EmailResult } from './email.js';
+import { transitionIntroRequest, recordIntroRequestEvent } from './introRequestLifecycle.js';
+import { notifyMany } from './notifications.js';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+/** How long a consent link stays answerable */
+export const CONSENT_TTL_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ConsentDecision = 'accept' | 'decline';
+
+function firstName(name: string): string {
+  return name.split(' ')[0];
+}
+
+// ─── Asking ──────────────────────────────────────────────────────────────────
+
+/**
+ * Email the target contact a tokenized link to accept or decline an intro.
+ * The link works without an account; the consent row is dropped again if the
+ * email can't be sent.
+ */
+export async function sendIntroConsent(params: {
+  requestId: string;
+  introducer: { id: string; name: string; email: string };
+  contactEmail: string;
+  contactName: string | null;
+  contactId?: string | null;
+  subject: string;
+  body: string;
+}, now = new Date()): Promise<{ result: EmailResult; consentId: string | null }> {
+  const { requestId, introducer, contactEmail, contactName, subject, body } = params;
+
+  const request = await prisma.introRequest.findUniqueOrThrow({
+    where: { id: requestId },
+    select: { normalizedQuery: true, forwardableBlurb: true, requester: { select: { name: true } } },
+  });
+  const nq = (request.normalizedQuery as Record<string, unknown>) || {};
+
+  // Only link the introducer's own contact record
+  const contact = params.contactId
+    ? await prisma.contact.findFirst({ where: { id: params.contactId, userId: introducer.id }, select: { id: true } })
+    : null;
+
+  const token = crypto.randomBytes(24).toString('base64url');
+  const consent = await prisma.introConsent.create({
+    data: {
+      requestId,
+      introducerId: introducer.id,
+      contactId: contact?.id || null,
+      contactEmail: contactEmail.toLowerCase(),
+      contactName,
+      token,
+      expiresAt: new Date(now.getTime() + CONSENT_TTL_DAYS * DAY_MS),
+    },
+  });
+
+  const result = await sendIntroConsentEmail({
+    senderName: introducer.name,
+    senderEmail: introducer.email,
+    contactEmail,
+    contactName: contactName || contactEmail.split('@')[0],
+    subject,
+    body,
+    requesterName: request.requester.name,
+    targetCompany: (nq.companyName as string) || 'their company',
+    blurb: request.forwardableBlurb,
+    consentUrl: `${FRONTEND_URL}/consent/${token}`,
+  });
+  if (!result.success) {
+    await prisma.introConsent.delete({ where: { id: consent.id } }).catch(() => {});
+    return { result, consentId: null };
+  }
+  return { result, consentId: consent.id };
+}
+
+// ─── Answering ───────────────────────────────────────────────────────────────
+
+export async function findConsentByToken(token: string) {
+  return prisma.introConsent.findUnique({
+    where: { token },
+    include: {
+      introducer: { select: { id: true, name: true } },
+      request: {
+        select: {
+          id: true, status: true, adminStatus: true, requesterId: true, normalizedQuery: true,
+          forwardableBlurb: true, spaceId: true,
+          requester: { select: { name: true } },
+          space: { select: { name: true, emoji: true } },
+        },
+      },
+    },
+  });
+}
+
+type ConsentWithRequest = NonNullable<Awaited<ReturnType<typeof findConsentByToken>>>;
+
+/** Pending links past their expiry are marked expired; returns true if it just expired */
+export async function expireConsentIfDue(consent: { id: string; status: string; expiresAt: Date }, now = new Date()): Promise<boolean> {
+  if (consent.status !== 'pending' || consent.expiresAt > now) return false;
+  await prisma.introConsent.updateMany({ where: { id: consent.id, status: 'pending' }, data: { status: 'expired' } });
+  return true;
+}
+
+/** What the contact sees on the consent page — no emails, and only the requester's name */
+export function publicConsentView(consent: ConsentWithRequest) {
+  const nq = (consent.request.normalizedQuery as Record<string, unknown>) || {};
+  return {
+    status: consent.status,
+    contactName: consent.contactName,
+    introducerName: consent.introducer.name,
+    requesterName: consent.request.requester.name,
+    companyName: (nq.companyName as string) || null,
+    blurb: consent.request.forwardableBlurb,
+    expiresAt: consent.expiresAt,
+    respondedAt: consent.respondedAt,
+  };
+}
+
+/**
+ * Record the contact's answer. Accepting moves the request to contact_agreed;
+ * declining leaves it where it is (another contact or introducer can still
+ * help) and is only noted on the timeline. The introducer and the requester
+ * are notified either way, but on space requests the requester isn't told who
+ * passed. Returns false when the link was answered in between.
+ */
+export async function applyConsentDecision(
+  consent: ConsentWithRequest,
+  decision: ConsentDecision,
+  note: string | null,
+  now = new Date(),
+): Promise<boolean> {
+  const status = decision === 'accept' ? 'accepted' : 'declined';
+  const { count } = await prisma.introConsent.updateMany({
+    where: { id: consent.id, status: 'pending' },
+    data: { status, note, respondedAt: now },
+  });
+  if (count === 0) return false;
+
+  const { request, introducer } = consent;
+  const contactName = consent.contactName || consent.contactEmail.split('@')[0];
+  const payload = { consentId: consent.id, contactName, introducerId: introducer.id };
+
+  if (decision === 'accept') {
+    // No-op if the request already finished (the consent itself is still kept)
+    await prisma.$transaction(tx => transitionIntroRequest(tx, request, 'record_consent', {
+      actorId: null,
+      data: { contactAgreedAt: now },
+      payload,
+    }));
+  } else {
+    await recordIntroRequestEvent(prisma, {
+      requestId: request.id,
+      actorId: null,
+      type: 'contact_declined',
+      fromStatus: request.status,
+      toStatus: request.status,
+      payload,
+    });
+  }
+
+  const nq = (request.normalizedQuery as Record<string, unknown>) || {};
+  const companyName = (nq.companyName as string) || 'a company';
+  const data = {
+    requestId: request.id,
+    consentId: consent.id,
+    companyName,
+    companyDomain: (nq.companyDomain as string) || null,
+    spaceId: request.spaceId || null,
+    spaceName: request.space?.name || null,
+    spaceEmoji: request.space?.emoji || null,
+    requesterId: request.requesterId,
+    connectionPeerId: (nq.connectionPeerId as string) || null,
+    introducerId: introducer.id,
+    introducerName: introducer.name,
+    contactName,
+  };
+
+  const introducerNotif = decision === 'accept'
+    ? {
+        type: 'intro_contact_agreed' as const,
+        title: `${contactName} said yes`,
+        body: `${contactName} is happy to be introduced to ${request.requester.name} (${companyName}). You can make the intro now.${note ? ` They added: "${note}"` : ''}`,
+      }
+    : {
+        type: 'intro_contact_declined' as const,
+        title: `${contactName} passed`,
+        body: `${contactName} isn't available for an intro to ${request.requester.name} (${companyName}).${note ? ` They added: "${note}"` : ''}`,
+      };
+  const requesterNotif = decision === 'accept'
+    ? {
+        type: 'intro_contact_agreed' as const,
+        title: `Intro agreed: ${companyName}`,
+        body: `${firstName(contactName)} at ${companyName} agreed to an intro. ${introducer.name} will connect you shortly.`,
+      }
+    : {
+        type: 'intro_contact_declined' as const,
+        title: `Intro update: ${companyName}`,
+        body: request.spaceId
+          ? `A contact at ${companyName} isn't available right now. Your request stays open for others to help.`
+          : `${introducer.name}'s contact at ${companyName} isn't available right now.`,
+      };
+
+  await notifyMany([
+    { userId: introducer.id, ...introducerNotif, data },
+    {
+      userId: request.requesterId,
+      ...requesterNotif,
+      data: decision === 'accept' || !request.spaceId ? data : { ...data, introducerId: null, introducerName: null, contactName: null },
+    },
+  ]);
+
+  return true;
+}
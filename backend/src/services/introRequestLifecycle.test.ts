@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createFakePrisma, type FakePrisma } from '../test/fakePrisma.js';
+
+vi.mock('../lib/prisma.js', () => ({ default: {} }));
+
+import {
+  TRANSITIONS,
+  nextStatus,
+  transitionError,
+  transitionIntroRequest,
+  type IntroRequestAction,
+  type IntroRequestStatus,
+} from './introRequestLifecycle.js';
+
+const STATUSES: IntroRequestStatus[] = [
+  'open', 'details_requested', 'checked_with_contact', 'contact_agreed', 'accepted', 'completed', 'declined', 'expired',
+];
+const ACTIONS = Object.keys(TRANSITIONS) as IntroRequestAction[];
+const ADMIN_ACTIONS: IntroRequestAction[] = ['admin_approve', 'admin_reject'];
+
+let db: FakePrisma;
+
+function seedRequest(status: string, adminStatus: string | null = null) {
+  const [request] = db.seed('introRequest', [{ status, adminStatus, requesterId: 'requester_1' }]);
+  return { id: request.id as string, status, adminStatus };
+}
+
+function events() {
+  return db.tables.introRequestEvent ?? [];
+}
+
+beforeEach(() => {
+  db = createFakePrisma();
+});
+
+describe('state machine', () => {
+  const cases = ACTIONS.flatMap(action => STATUSES.map(from => {
+    // Admin actions only apply to requests waiting for review
+    const adminStatus = ADMIN_ACTIONS.includes(action) ? 'pending_review' : null;
+    return { action, from, adminStatus, to: TRANSITIONS[action][from] ?? null };
+  }));
+
+  it.each(cases.filter(c => c.to))('$action moves $from to $to and writes an event', async ({ action, from, adminStatus, to }) => {
+    const request = seedRequest(from, adminStatus);
+
+    expect(await transitionIntroRequest(db.client, request, action, { actorId: 'user_1', payload: { reason: 'test' } })).toBe(true);
+
+    expect(db.tables.introRequest[0].status).toBe(to);
+    expect(events()).toEqual([expect.objectContaining({
+      requestId: request.id, actorId: 'user_1', fromStatus: from, toStatus: to,
+      payload: expect.objectContaining({ reason: 'test' }),
+    })]);
+  });
+
+  it.each(cases.filter(c => !c.to))('$action is refused from $from', async ({ action, from, adminStatus }) => {
+    const request = seedRequest(from, adminStatus);
+
+    expect(transitionError(request, action)).not.toBeNull();
+    expect(await transitionIntroRequest(db.client, request, action, { actorId: 'user_1' })).toBe(false);
+
+    expect(db.tables.introRequest[0].status).toBe(from);
+    expect(events()).toEqual([]);
+  });
+
+  it('never moves a request backwards or out of a finished status', () => {
+    expect(nextStatus({ id: 'r', status: 'contact_agreed', adminStatus: null }, 'request_details')).toBe('contact_agreed');
+    expect(nextStatus({ id: 'r', status: 'checked_with_contact', adminStatus: null }, 'request_details')).toBe('checked_with_contact');
+    for (const status of ['completed', 'declined', 'expired'] as const) {
+      for (const action of ACTIONS) expect(nextStatus({ id: 'r', status, adminStatus: 'pending_review' }, action)).toBeNull();
+    }
+    expect(transitionError({ id: 'r', status: 'declined', adminStatus: null }, 'accept')).toBe('Request is already declined');
+  });
+
+  it('names the event after the action', async () => {
+    const request = seedRequest('open');
+    await transitionIntroRequest(db.client, request, 'record_consent', { actorId: null });
+    expect(events()[0].type).toBe('contact_agreed');
+  });
+});
+
+describe('admin review', () => {
+  it('holds connector actions while the request is pending review', async () => {
+    const request = seedRequest('open', 'pending_review');
+
+    for (const action of ['request_details', 'check_with_contact', 'record_consent', 'accept', 'decline'] as const) {
+      expect(transitionError(request, action), action).toBe('Request is still pending admin review');
+    }
+    expect(await transitionIntroRequest(db.client, request, 'accept', { actorId: 'connector_1' })).toBe(false);
+    expect(db.tables.introRequest[0].status).toBe('open');
+  });
+
+  it('lets the requester accept their own request while it is pending review', async () => {
+    const request = seedRequest('open', 'pending_review');
+
+    expect(transitionError(request, 'accept', 'requester')).toBeNull();
+    expect(await transitionIntroRequest(db.client, request, 'accept', { actorId: 'requester_1', actor: 'requester' })).toBe(true);
+    expect(db.tables.introRequest[0]).toMatchObject({ status: 'accepted', adminStatus: 'pending_review' });
+  });
+
+  it('records the review outcome; a rejection also declines', async () => {
+    const approved = seedRequest('open', 'pending_review');
+    await transitionIntroRequest(db.client, approved, 'admin_approve', { actorId: 'owner_1' });
+    expect(db.tables.introRequest[0]).toMatchObject({ status: 'open', adminStatus: 'approved' });
+    expect(events()[0]).toMatchObject({ type: 'admin_approved', payload: { adminStatus: 'approved' } });
+
+    const rejected = seedRequest('open', 'pending_review');
+    await transitionIntroRequest(db.client, rejected, 'admin_reject', { actorId: 'owner_1' });
+    expect(db.tables.introRequest[1]).toMatchObject({ status: 'declined', adminStatus: 'rejected' });
+
+    expect(transitionError({ ...approved, adminStatus: 'approved' }, 'admin_reject')).toBe('Request is not pending review (current: approved)');
+  });
+});
+
+describe('concurrent transitions', () => {
+  it('lets only the first of two actions on the same read win', async () => {
+    const request = seedRequest('open');
+
+    const results = await Promise.all([
+      transitionIntroRequest(db.client, request, 'decline', { actorId: 'connector_1' }),
+      transitionIntroRequest(db.client, request, 'accept', { actorId: 'connector_2' }),
+    ]);
+
+    expect(results).toEqual([true, false]);
+    expect(db.tables.introRequest[0].status).toBe('declined');
+    expect(events()).toHaveLength(1);
+    expect(events()[0]).toMatchObject({ actorId: 'connector_1', type: 'declined' });
+  });
+
+  it('loses when the request was moved since it was read', async () => {
+    const stale = seedRequest('open');
+    db.tables.introRequest[0].status = 'details_requested';
+
+    expect(await transitionIntroRequest(db.client, stale, 'check_with_contact', { actorId: 'connector_1' })).toBe(false);
+    expect(db.tables.introRequest[0].status).toBe('details_requested');
+    expect(events()).toEqual([]);
+  });
+
+  it('writes extra columns with the status', async () => {
+    const request = seedRequest('open');
+
+    await transitionIntroRequest(db.client, request, 'decline', { actorId: 'connector_1', data: { declineReason: 'Not a fit' } });
+
+    expect(db.tables.introRequest[0]).toMatchObject({ status: 'declined', declineReason: 'Not a fit' });
+  });
+});
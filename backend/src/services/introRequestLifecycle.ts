@@ -0,0 +1,251 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+
+// ─── States ──────────────────────────────────────────────────────────────────
+
+/**
+ * Lifecycle of an intro request:
+ *
+ *   open → details_requested → checked_with_contact → contact_agreed → accepted → completed
+ *     └────────────┴──────────────────┴─────────────────┴──────→ declined | expired
+ *
+ * contact_agreed is reached when the target contact accepts a double-opt-in
+ * consent link (see services/introConsent.ts).
+ *
+ * Admin review runs alongside it on `adminStatus` (pending_review → approved |
+ * rejected); while a request is pending review connectors can't act on it (the
+ * requester still can), and an admin rejection also declines it.
+ */
+export type IntroRequestStatus =
+  | 'open'
+  | 'details_requested'
+  | 'checked_with_contact'
+  | 'contact_agreed'
+  | 'accepted'
+  | 'completed'
+  | 'declined'
+  | 'expired';
+
+export type AdminReviewStatus = 'pending_review' | 'approved' | 'rejected';
+
+export type IntroRequestAction =
+  | 'request_details'
+  | 'check_with_contact'
+  | 'record_consent'
+  | 'accept'
+  | 'complete'
+  | 'decline'
+  | 'expire'
+  | 'admin_approve'
+  | 'admin_reject';
+
+/** Who is acting: connectors wait for admin review, the requester doesn't */
+export type IntroRequestActor = 'requester' | 'connector';
+
+/** Statuses in which a request is still waiting for an intro */
+export const ACTIVE_REQUEST_STATUSES: IntroRequestStatus[] = ['open', 'details_requested', 'checked_with_contact', 'contact_agreed'];
+
+export function isActiveStatus(status: string): boolean {
+  return (ACTIVE_REQUEST_STATUSES as string[]).includes(status);
+}
+
+// For every action, the status it moves each allowed starting status to.
+// Asking for details again after checking with the contact keeps the later
+// state, so progress never goes backwards.
+export const TRANSITIONS: Record<IntroRequestAction, Partial<Record<IntroRequestStatus, IntroRequestStatus>>> = {
+  request_details: {
+    open: 'details_requested',
+    details_requested: 'details_requested',
+    checked_with_contact: 'checked_with_contact',
+    contact_agreed: 'contact_agreed',
+  },
+  check_with_contact: {
+    open: 'checked_with_contact',
+    details_requested: 'checked_with_contact',
+    checked_with_contact: 'checked_with_contact',
+    contact_agreed: 'contact_agreed',
+  },
+  record_consent: {
+    open: 'contact_agreed',
+    details_requested: 'contact_agreed',
+    checked_with_contact: 'contact_agreed',
+    contact_agreed: 'contact_agreed',
+  },
+  accept: {
+    open: 'accepted',
+    details_requested: 'accepted',
+    checked_with_contact: 'accepted',
+    contact_agreed: 'accepted',
+  },
+  complete: {
+    open: 'completed',
+    details_requested: 'completed',
+    checked_with_contact: 'completed',
+    contact_agreed: 'completed',
+    accepted: 'completed',
+  },
+  decline: {
+    open: 'declined',
+    details_requested: 'declined',
+    checked_with_contact: 'declined',
+    contact_agreed: 'declined',
+  },
+  expire: {
+    open: 'expired',
+    details_requested: 'expired',
+    checked_with_contact: 'expired',
+    contact_agreed: 'expired',
+  },
+  admin_approve: {
+    open: 'open',
+  },
+  admin_reject: {
+    open: 'declined',
+  },
+};
+
+const ADMIN_TRANSITIONS: Partial<Record<IntroRequestAction, AdminReviewStatus>> = {
+  admin_approve: 'approved',
+  admin_reject: 'rejected',
+};
+
+// Connector-side actions wait for the space admin to approve the request
+const NEEDS_ADMIN_APPROVAL: IntroRequestAction[] = ['request_details', 'check_with_contact', 'record_consent', 'accept', 'decline'];
+
+// Event types written to the timeline, one per action (plus creation)
+const EVENT_TYPES: Record<IntroRequestAction, string> = {
+  request_details: 'details_requested',
+  check_with_contact: 'checked_with_contact',
+  record_consent: 'contact_agreed',
+  accept: 'accepted',
+  complete: 'completed',
+  decline: 'declined',
+  expire: 'expired',
+  admin_approve: 'admin_approved',
+  admin_reject: 'admin_rejected',
+};
+
+interface TransitionSubject {
+  id: string;
+  status: string;
+  adminStatus: string | null;
+}
+
+function awaitsAdminReview(request: TransitionSubject, action: IntroRequestAction, actor: IntroRequestActor): boolean {
+  return actor === 'connector' && NEEDS_ADMIN_APPROVAL.includes(action) && request.adminStatus === 'pending_review';
+}
+
+/** The status `action` would move the request to, or null if it isn't allowed */
+export function nextStatus(
+  request: TransitionSubject,
+  action: IntroRequestAction,
+  actor: IntroRequestActor = 'connector',
+): IntroRequestStatus | null {
+  const to = TRANSITIONS[action][request.status as IntroRequestStatus];
+  if (!to) return null;
+  if (ADMIN_TRANSITIONS[action] && request.adminStatus !== 'pending_review') return null;
+  if (awaitsAdminReview(request, action, actor)) return null;
+  return to;
+}
+
+/**
+ * Explain why `action` can't be applied, in the wording the API returns, or
+ * null when the transition is valid.
+ */
+export function transitionError(
+  request: TransitionSubject,
+  action: IntroRequestAction,
+  actor: IntroRequestActor = 'connector',
+): string | null {
+  if (nextStatus(request, action, actor)) return null;
+  if (ADMIN_TRANSITIONS[action]) {
+    return `Request is not pending review (current: ${request.adminStatus || 'none'})`;
+  }
+  if (awaitsAdminReview(request, action, actor) && TRANSITIONS[action][request.status as IntroRequestStatus]) {
+    return 'Request is still pending admin review';
+  }
+  if (!isActiveStatus(request.status)) {
+    return `Request is already ${request.status}`;
+  }
+  return `Cannot ${action.replace(/_/g, ' ')} a request that is ${request.status.replace(/_/g, ' ')}`;
+}
+
+// ─── Transitions ─────────────────────────────────────────────────────────────
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+interface TransitionOptions {
+  actorId: string | null;
+  /** Defaults to connector; pass requester for the requester's own actions */
+  actor?: IntroRequestActor;
+  /** Extra columns to write alongside the new status (decline reason, etc.) */
+  data?: Prisma.IntroRequestUncheckedUpdateManyInput;
+  /** Recorded on the timeline event */
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Apply `action` to a request and append it to the request's timeline. The
+ * update is conditional on the status the caller read, so two people acting
+ * at once can't both win; returns false when the request moved in between
+ * (or the transition isn't allowed). Call it with a transaction client
+ * (`prisma.$transaction(tx => transitionIntroRequest(tx, ...))`) so the status
+ * and its timeline event are written together, along with anything else the
+ * caller writes in that transaction.
+ */
+export async function transitionIntroRequest(
+  client: Client,
+  request: TransitionSubject,
+  action: IntroRequestAction,
+  options: TransitionOptions,
+): Promise<boolean> {
+  const to = nextStatus(request, action, options.actor);
+  if (!to) return false;
+
+  const adminStatus = ADMIN_TRANSITIONS[action];
+  const { count } = await client.introRequest.updateMany({
+    where: { id: request.id, status: request.status, adminStatus: request.adminStatus },
+    data: {
+      ...options.data,
+      status: to,
+      ...(adminStatus ? { adminStatus } : {}),
+    },
+  });
+  if (count === 0) return false;
+
+  await recordIntroRequestEvent(client, {
+    requestId: request.id,
+    actorId: options.actorId,
+    type: EVENT_TYPES[action],
+    fromStatus: request.status,
+    toStatus: to,
+    payload: {
+      ...(adminStatus ? { adminStatus } : {}),
+      ...options.payload,
+    },
+  });
+  return true;
+}
+
+export async function recordIntroRequestEvent(
+  client: Client,
+  event: {
+    requestId: string;
+    actorId: string | null;
+    type: string;
+    fromStatus: string | null;
+    toStatus: string | null;
+    payload?: Record<string, unknown>;
+  },
+) {
+  await client.introRequestEvent.create({
+    data: {
+      requestId: event.requestId,
+      actorId: event.actorId,
+      type: event.type,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      payload: (event.payload || {}) as Prisma.InputJsonObject,
+    },
+  });
+}
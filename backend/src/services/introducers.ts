@@ -0,0 +1,239 @@
+import prisma from '../lib/prisma.js';
+import { ACTIVE_REQUEST_STATUSES } from './introRequestLifecycle.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type IntroducerFactorKey = 'strength' | 'recency' | 'seniority' | 'acceptance' | 'load';
+
+export interface IntroducerContact {
+  id: string;
+  userId: string;
+  name: string | null;
+  title: string | null;
+  lastSeenAt: Date;
+}
+
+export interface IntroducerSuggestion {
+  userId: string;
+  userName: string;
+  userAvatar: string | null;
+  /** 0–100 */
+  score: number;
+  /** Each factor normalised to 0–1 before weighting */
+  factors: Record<IntroducerFactorKey, number>;
+  /** Human-readable, strongest first */
+  reasons: string[];
+  /** The member's contacts at the company, most senior first */
+  contacts: IntroducerContact[];
+}
+
+interface RankableRequest {
+  id: string;
+  requesterId: string;
+  spaceId: string | null;
+  normalizedQuery: unknown;
+  declinedById?: string | null;
+}
+
+// ─── Model ───────────────────────────────────────────────────────────────────
+
+const INTRODUCER_WEIGHTS: Record<IntroducerFactorKey, number> = {
+  strength: 0.35,
+  recency: 0.2,
+  seniority: 0.15,
+  acceptance: 0.2,
+  load: 0.1,
+};
+
+// Days since the member last met anyone at the company for recency to halve
+const RECENCY_HALF_LIFE_DAYS = 90;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Checked in order; the first match wins
+const SENIORITY_LEVELS: { pattern: RegExp; score: number; label: string }[] = [
+  { pattern: /\b(founder|co-?founder|owner|ceo|cto|cfo|coo|cmo|cpo|chief|president|partner)\b/i, score: 1, label: 'executive' },
+  { pattern: /\b(vp|svp|evp|vice president|head of|gm|general manager)\b/i, score: 0.8, label: 'VP / head' },
+  { pattern: /\b(director)\b/i, score: 0.6, label: 'director' },
+  { pattern: /\b(manager|lead|principal|staff)\b/i, score: 0.4, label: 'manager / lead' },
+];
+const DEFAULT_SENIORITY = 0.2;
+
+export function seniorityScore(title: string | null | undefined): number {
+  if (!title) return DEFAULT_SENIORITY;
+  return SENIORITY_LEVELS.find(l => l.pattern.test(title))?.score ?? DEFAULT_SENIORITY;
+}
+
+function seniorityLabel(title: string | null | undefined): string | null {
+  if (!title) return null;
+  return SENIORITY_LEVELS.find(l => l.pattern.test(title))?.label ?? null;
+}
+
+// Offers vs declines, smoothed towards 50% so one answer doesn't decide it
+function acceptanceRate(offers: number, declines: number): number {
+  return (offers + 1) / (offers + declines + 2);
+}
+
+function pluralize(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+// ─── Ranking ─────────────────────────────────────────────────────────────────
+
+/**
+ * Rank the members who could make the intro a request asks for: approved
+ * space members (or the 1:1 peer) with approved contacts at the target
+ * company. The requester and anyone who already declined it are left out.
+ * Returns best first; an empty list when the company can't be resolved.
+ */
+export async function rankIntroducers(request: RankableRequest, now = new Date()): Promise<IntroducerSuggestion[]> {
+  const nq = (request.normalizedQuery as Record<string, unknown>) || {};
+
+  let companyId = (nq.companyId as string) || null;
+  if (!companyId && nq.companyDomain) {
+    const company = await prisma.company.findUnique({ where: { domain: nq.companyDomain as string }, select: { id: true } });
+    companyId = company?.id || null;
+  }
+  if (!companyId) return [];
+
+  let candidateIds: string[];
+  if (request.spaceId) {
+    const members = await prisma.spaceMember.findMany({
+      where: { spaceId: request.spaceId, status: 'approved', userId: { not: request.requesterId } },
+      select: { userId: true },
+    });
+    candidateIds = members.map(m => m.userId);
+  } else {
+    const peerId = nq.connectionPeerId as string | undefined;
+    candidateIds = peerId && peerId !== request.requesterId ? [peerId] : [];
+  }
+  if (request.declinedById) candidateIds = candidateIds.filter(id => id !== request.declinedById);
+  if (candidateIds.length === 0) return [];
+
+  const contacts = await prisma.contact.findMany({
+    where: { userId: { in: candidateIds }, companyId, isApproved: true },
+    select: { id: true, userId: true, name: true, title: true, lastSeenAt: true },
+  });
+  const contactsByUser = new Map<string, IntroducerContact[]>();
+  for (const c of contacts) {
+    const list = contactsByUser.get(c.userId) || [];
+    list.push(c);
+    contactsByUser.set(c.userId, list);
+  }
+  const introducerIds = Array.from(contactsByUser.keys());
+  if (introducerIds.length === 0) return [];
+
+  const [users, relationships, offers, declines, openOffers, inProgress] = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: introducerIds } },
+      select: { id: true, name: true, avatar: true },
+    }),
+    prisma.relationship.findMany({
+      where: { userId: { in: introducerIds }, companyId },
+      select: { userId: true, strengthScore: true },
+    }),
+    prisma.introOffer.groupBy({
+      by: ['introducerId'],
+      where: { introducerId: { in: introducerIds } },
+      _count: { _all: true },
+    }),
+    prisma.introRequest.groupBy({
+      by: ['declinedById'],
+      where: { declinedById: { in: introducerIds } },
+      _count: { _all: true },
+    }),
+    // Intros the member has offered that are still waiting on the requester
+    prisma.introOffer.findMany({
+      where: {
+        introducerId: { in: introducerIds },
+        status: 'pending',
+        request: { status: { in: ACTIVE_REQUEST_STATUSES }, id: { not: request.id } },
+      },
+      select: { introducerId: true, requestId: true },
+    }),
+    // Requests the member has started working on (asked for details, checked with the contact)
+    prisma.introRequest.findMany({
+      where: {
+        id: { not: request.id },
+        status: { in: ACTIVE_REQUEST_STATUSES },
+        OR: [
+          { detailsRequestedById: { in: introducerIds } },
+          { checkedWithContactById: { in: introducerIds } },
+        ],
+      },
+      select: { id: true, detailsRequestedById: true, checkedWithContactById: true },
+    }),
+  ]);
+
+  const strengthByUser = new Map(relationships.map(r => [r.userId, r.strengthScore || 0]));
+  const offersByUser = new Map(offers.map(o => [o.introducerId, o._count._all]));
+  const declinesByUser = new Map(declines.map(d => [d.declinedById as string, d._count._all]));
+  const openByUser = new Map<string, Set<string>>();
+  const addOpen = (userId: string | null, requestId: string) => {
+    if (!userId || !contactsByUser.has(userId)) return;
+    const set = openByUser.get(userId) || new Set<string>();
+    set.add(requestId);
+    openByUser.set(userId, set);
+  };
+  openOffers.forEach(o => addOpen(o.introducerId, o.requestId));
+  inProgress.forEach(r => {
+    addOpen(r.detailsRequestedById, r.id);
+    addOpen(r.checkedWithContactById, r.id);
+  });
+
+  const suggestions = users.map((user): IntroducerSuggestion => {
+    const userContacts = (contactsByUser.get(user.id) || [])
+      .sort((a, b) => seniorityScore(b.title) - seniorityScore(a.title) || b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+    const top = userContacts[0];
+    const lastSeen = Math.max(...userContacts.map(c => c.lastSeenAt.getTime()));
+    const daysSince = Math.max(0, (now.getTime() - lastSeen) / DAY_MS);
+    const strengthScore = strengthByUser.get(user.id) || 0;
+    const offered = offersByUser.get(user.id) || 0;
+    const declined = declinesByUser.get(user.id) || 0;
+    const openLoad = openByUser.get(user.id)?.size || 0;
+
+    const factors: Record<IntroducerFactorKey, number> = {
+      strength: strengthScore / 100,
+      recency: Math.pow(0.5, daysSince / RECENCY_HALF_LIFE_DAYS),
+      seniority: seniorityScore(top.title),
+      acceptance: acceptanceRate(offered, declined),
+      load: 1 / (1 + openLoad),
+    };
+    const score = Math.round(
+      (Object.keys(INTRODUCER_WEIGHTS) as IntroducerFactorKey[])
+        .reduce((sum, key) => sum + factors[key] * INTRODUCER_WEIGHTS[key], 0) * 100,
+    );
+
+    // Reasons in order of how much each factor contributed
+    const reasonFor: Record<IntroducerFactorKey, string> = {
+      strength: strengthScore > 0
+        ? `Relationship strength ${Math.round(strengthScore)}/100 with the company`
+        : 'No scored relationship with the company yet',
+      recency: daysSince < 1
+        ? 'Met someone there today'
+        : `Last met someone there ${pluralize(Math.floor(daysSince), 'day')} ago`,
+      seniority: seniorityLabel(top.title)
+        ? `Knows a ${seniorityLabel(top.title)} (${top.title})`
+        : `Knows ${pluralize(userContacts.length, 'person')} there`,
+      acceptance: offered + declined > 0
+        ? `Offered ${offered} of ${pluralize(offered + declined, 'intro')} asked of them`
+        : 'No intro history yet',
+      load: openLoad === 0 ? 'No other intros in progress' : `${pluralize(openLoad, 'other intro')} in progress`,
+    };
+    const reasons = (Object.keys(INTRODUCER_WEIGHTS) as IntroducerFactorKey[])
+      .sort((a, b) => factors[b] * INTRODUCER_WEIGHTS[b] - factors[a] * INTRODUCER_WEIGHTS[a])
+      .map(key => reasonFor[key]);
+
+    return {
+      userId: user.id,
+      userName: user.name,
+      userAvatar: user.avatar,
+      score,
+      factors,
+      reasons,
+      contacts: userContacts,
+    };
+  });
+
+  return suggestions.sort((a, b) => b.score - a.score);
+}
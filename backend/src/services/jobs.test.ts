@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createFakePrisma, type FakePrisma } from '../test/fakePrisma.js';
+
+const db = vi.hoisted(() => ({ current: null as FakePrisma | null }));
+
+vi.mock('../lib/prisma.js', () => ({
+  default: new Proxy({}, { get: (_target, prop) => db.current!.client[prop] }),
+}));
+
+import { enqueueJob, registerJobHandler, retryJob, startJobWorker, stopJobWorker } from './jobs.js';
+
+const POLL_MS = 2000;
+
+function jobs() {
+  return db.current!.tables.job ?? [];
+}
+
+function job(id: string) {
+  return jobs().find(j => j.id === id)!;
+}
+
+/**
+ * claimNextJob's SQL, run against the in-memory jobs table. Statements are
+ * told apart by their text; the template's parameters are the values.
+ */
+function emulateClaimSql(fake: FakePrisma) {
+  const runningFor = (userId: string) => jobs().filter(j => j.userId === userId && j.status === 'running').length;
+  const text = (strings: TemplateStringsArray) => strings.join('?');
+
+  fake.client.$queryRaw = async (strings: TemplateStringsArray, ...values: any[]) => {
+    const sql = text(strings);
+    if (sql.includes('SKIP LOCKED')) {
+      const [types, userLimit] = values;
+      const due = jobs()
+        .filter(j => j.status === 'queued' && j.runAt <= new Date() && types.includes(j.type))
+        .filter(j => !j.userId || runningFor(j.userId) < userLimit)
+        .sort((a, b) => a.runAt - b.runAt || a.createdAt - b.createdAt);
+      return due.slice(0, 1).map(j => ({ id: j.id, userId: j.userId }));
+    }
+    if (sql.includes('COUNT(*)::int')) return [{ count: runningFor(values[0]) }];
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  fake.client.$executeRaw = async (strings: TemplateStringsArray, ...values: any[]) => {
+    const sql = text(strings);
+    if (sql.includes('pg_advisory_xact_lock')) return 0;
+    if (sql.includes('UPDATE jobs')) {
+      const [workerId, lease, id] = values;
+      Object.assign(job(id), {
+        status: 'running',
+        attempts: job(id).attempts + 1,
+        lockedBy: workerId,
+        lockedUntil: new Date(Date.now() + parseInt(lease, 10)),
+        startedAt: new Date(),
+      });
+      return 1;
+    }
+    throw new Error(`Unexpected statement: ${sql}`);
+  };
+}
+
+/** Let the worker's pending database calls and handlers run to their next wait */
+function settle() {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+async function advance(ms: number) {
+  await vi.advanceTimersByTimeAsync(ms);
+  await settle();
+}
+
+/** A handler that records the jobs it starts and finishes each when the test says so */
+function gatedHandler(type: string) {
+  const started: string[] = [];
+  const gates = new Map<string, () => void>();
+  registerJobHandler(type, async j => {
+    started.push(j.id);
+    await new Promise<void>(resolve => gates.set(j.id, resolve));
+  });
+  return { started, finish: (id: string) => gates.get(id)!() };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+  db.current = createFakePrisma({}, {
+    job: {
+      payload: {}, status: 'queued', attempts: 0, maxAttempts: 3, lockedBy: null, lockedUntil: null,
+      cancelRequested: false, lastError: null, startedAt: null, finishedAt: null,
+    },
+  });
+  emulateClaimSql(db.current);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  // Handlers still running are aborted; give them the shutdown grace period
+  const stopped = stopJobWorker();
+  await vi.advanceTimersByTimeAsync(10_000);
+  await stopped;
+  vi.useRealTimers();
+});
+
+describe('claiming', () => {
+  it('runs due jobs and records the result', async () => {
+    registerJobHandler('claim_ok', async j => ({ echoed: j.payload }));
+    const queued = await enqueueJob('claim_ok', { contactId: 'c_1' });
+    const later = await enqueueJob('claim_ok', {}, { runAt: new Date(Date.now() + 60_000) });
+
+    await startJobWorker();
+    await settle();
+
+    expect(job(queued!.id)).toMatchObject({
+      status: 'succeeded', attempts: 1, result: { echoed: { contactId: 'c_1' } }, lockedBy: null, lockedUntil: null,
+    });
+    expect(job(queued!.id).finishedAt).toBeInstanceOf(Date);
+    expect(job(later!.id)).toMatchObject({ status: 'queued', attempts: 0 });
+  });
+
+  it("runs one job per user at a time and doesn't hold up other users", async () => {
+    const { started, finish } = gatedHandler('claim_per_user');
+    const first = await enqueueJob('claim_per_user', {}, { userId: 'user_a' });
+    const second = await enqueueJob('claim_per_user', {}, { userId: 'user_a' });
+    const other = await enqueueJob('claim_per_user', {}, { userId: 'user_b' });
+    const system = await enqueueJob('claim_per_user', {});
+
+    await startJobWorker();
+    await settle();
+
+    expect(started).toEqual([first!.id, other!.id, system!.id]);
+    expect(job(second!.id).status).toBe('queued');
+
+    finish(first!.id);
+    await settle();
+    await advance(POLL_MS);
+
+    expect(job(first!.id).status).toBe('succeeded');
+    expect(started).toEqual([first!.id, other!.id, system!.id, second!.id]);
+    expect(job(second!.id).status).toBe('running');
+
+    for (const id of [other!.id, system!.id, second!.id]) finish(id);
+    await settle();
+  });
+
+  it("backs off when another worker claimed the user's job while it waited for the lock", async () => {
+    const { started } = gatedHandler('claim_race');
+    const theirs = await enqueueJob('claim_race', {}, { userId: 'user_a' });
+    const ours = await enqueueJob('claim_race', {}, { userId: 'user_a' });
+    const executeRaw = db.current!.client.$executeRaw;
+    db.current!.client.$executeRaw = async (strings: TemplateStringsArray, ...values: any[]) => {
+      // Our candidate was picked before the other worker's claim committed
+      if (strings.join('?').includes('pg_advisory_xact_lock')) Object.assign(job(theirs!.id), { status: 'running', lockedBy: 'other' });
+      return executeRaw(strings, ...values);
+    };
+
+    await startJobWorker();
+    await settle();
+
+    expect(started).toEqual([]);
+    expect(job(ours!.id)).toMatchObject({ status: 'queued', attempts: 0 });
+  });
+});
+
+describe('failures', () => {
+  it('retries a failed job after a growing delay', async () => {
+    let calls = 0;
+    registerJobHandler('flaky', async () => {
+      if (++calls < 3) throw new Error(`failure ${calls}`);
+      return { ok: true };
+    });
+    const { id } = (await enqueueJob('flaky'))!;
+
+    await startJobWorker();
+    await settle();
+    const failedAt = Date.now();
+
+    expect(job(id)).toMatchObject({ status: 'queued', attempts: 1, lastError: 'failure 1', lockedBy: null });
+    expect(job(id).runAt.getTime()).toBe(failedAt + 30_000);
+
+    await advance(30_000);
+    expect(job(id)).toMatchObject({ status: 'queued', attempts: 2, lastError: 'failure 2' });
+    expect(job(id).runAt.getTime() - Date.now()).toBe(60_000);
+
+    await advance(58_000);
+    expect(job(id).status).toBe('queued');
+    await advance(POLL_MS);
+    expect(job(id)).toMatchObject({ status: 'succeeded', attempts: 3, lastError: null, result: { ok: true } });
+  });
+
+  it('dead-letters a job once it is out of attempts, until an admin retries it', async () => {
+    registerJobHandler('doomed', async () => { throw new Error('always fails'); }, { maxAttempts: 2 });
+    const { id } = (await enqueueJob('doomed'))!;
+
+    await startJobWorker();
+    await settle();
+    await advance(30_000);
+
+    expect(job(id)).toMatchObject({ status: 'dead', attempts: 2, maxAttempts: 2, lastError: 'always fails' });
+    expect(job(id).finishedAt).toBeInstanceOf(Date);
+
+    await advance(60 * 60 * 1000);
+    expect(job(id)).toMatchObject({ status: 'dead', attempts: 2 });
+
+    expect(await retryJob(id)).toMatchObject({ status: 'queued', attempts: 0, lastError: null, finishedAt: null });
+  });
+
+  it('requeues jobs whose lease ran out, or dead-letters them when out of attempts', async () => {
+    registerJobHandler('abandoned', async () => {});
+    const expired = new Date(Date.now() - 1000);
+    const [requeued, dead, leased] = db.current!.seed('job', [
+      { type: 'abandoned', status: 'running', attempts: 1, maxAttempts: 3, lockedBy: 'gone', lockedUntil: expired, runAt: expired },
+      { type: 'abandoned', status: 'running', attempts: 3, maxAttempts: 3, lockedBy: 'gone', lockedUntil: expired, runAt: expired },
+      { type: 'abandoned', status: 'running', attempts: 1, maxAttempts: 3, lockedBy: 'alive', lockedUntil: new Date(Date.now() + 30_000), runAt: expired },
+    ]);
+    // Only look at what maintenance did, not at the jobs being run again
+    db.current!.client.$queryRaw = async () => [];
+
+    await startJobWorker();
+
+    expect(job(requeued.id)).toMatchObject({ status: 'queued', lockedBy: null, lastError: 'Lease expired before the job finished' });
+    expect(job(dead.id)).toMatchObject({ status: 'dead', lockedBy: null });
+    expect(job(leased.id)).toMatchObject({ status: 'running', lockedBy: 'alive' });
+  });
+
+  it('hands running jobs back on shutdown without using up an attempt', async () => {
+    registerJobHandler('interrupted', (_job, ctx) => new Promise((_resolve, reject) => {
+      ctx.signal.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    const { id } = (await enqueueJob('interrupted'))!;
+
+    await startJobWorker();
+    await settle();
+    expect(job(id)).toMatchObject({ status: 'running', attempts: 1 });
+
+    await stopJobWorker();
+
+    expect(job(id)).toMatchObject({ status: 'queued', attempts: 0, lockedBy: null });
+  });
+});
@@ -0,0 +1,481 @@
+import crypto from 'crypto';
+import os from 'os';
+import { Prisma, type Job } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+
+/**
+ * Postgres-backed job queue. Work is a row in `jobs`; any instance's worker
+ * claims due rows with FOR UPDATE SKIP LOCKED and holds a lease on them
+ * (lockedUntil) that it renews while the handler runs. If an instance dies,
+ * the lease runs out and another worker picks the job up again.
+ *
+ * - Failures are retried with exponential backoff; after maxAttempts the job
+ *   is dead-lettered (status `dead`) and stays for an admin to retry.
+ * - Jobs with a userId count against a per-user concurrency limit.
+ * - A dedupeKey allows one queued or running job per key.
+ * - Recurring jobs replace the old setInterval crons: each run queues the next.
+ * - On shutdown running handlers are aborted and their jobs go back in the
+ *   queue without using up an attempt.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'cancelled', 'dead'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running'];
+
+export interface JobContext {
+  /** Aborted when the job is cancelled or the worker shuts down */
+  signal: AbortSignal;
+  /** Store progress on the job (written at most every couple of seconds) */
+  reportProgress: (progress: Record<string, unknown>) => void;
+}
+
+export type JobHandler = (job: Job, ctx: JobContext) => Promise<Record<string, unknown> | void>;
+
+interface JobDefinition {
+  handler: JobHandler;
+  maxAttempts: number;
+  recurring?: { everyMs: number; initialDelayMs: number };
+}
+
+export interface EnqueueOptions {
+  userId?: string | null;
+  dedupeKey?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+const definitions = new Map<string, JobDefinition>();
+
+export function registerJobHandler(type: string, handler: JobHandler, options?: { maxAttempts?: number }): void {
+  definitions.set(type, { handler, maxAttempts: options?.maxAttempts ?? 3 });
+}
+
+/**
+ * A job that runs every `everyMs`, measured from the start of the previous
+ * run. The first run after a deploy waits at least `initialDelayMs`.
+ */
+export function registerRecurringJob(
+  type: string,
+  schedule: { everyMs: number; initialDelayMs?: number },
+  handler: JobHandler,
+): void {
+  definitions.set(type, {
+    handler,
+    maxAttempts: 1,
+    recurring: { everyMs: schedule.everyMs, initialDelayMs: schedule.initialDelayMs ?? schedule.everyMs },
+  });
+}
+
+export function getRegisteredJobTypes(): { type: string; recurring: boolean; everyMs: number | null }[] {
+  return Array.from(definitions.entries()).map(([type, def]) => ({
+    type,
+    recurring: !!def.recurring,
+    everyMs: def.recurring?.everyMs ?? null,
+  }));
+}
+
+// ─── Enqueueing ──────────────────────────────────────────────────────────────
+
+/**
+ * Queue a job. Returns null when a job with the same dedupeKey is already
+ * queued or running.
+ */
+export async function enqueueJob(type: string, payload: Record<string, unknown> = {}, options: EnqueueOptions = {}): Promise<Job | null> {
+  try {
+    return await prisma.job.create({
+      data: {
+        type,
+        payload: payload as Prisma.InputJsonObject,
+        userId: options.userId ?? null,
+        dedupeKey: options.dedupeKey ?? null,
+        runAt: options.runAt ?? new Date(),
+        maxAttempts: options.maxAttempts ?? definitions.get(type)?.maxAttempts ?? 3,
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return null;
+    throw err;
+  }
+}
+
+/** The queued or running job for a dedupe key, if any */
+export function findActiveJob(dedupeKey: string): Promise<Job | null> {
+  return prisma.job.findFirst({ where: { dedupeKey, status: { in: ACTIVE_JOB_STATUSES } } });
+}
+
+/**
+ * Cancel a job. A queued job is cancelled straight away; a running one is
+ * flagged and its handler aborted (here, or by its worker's next heartbeat).
+ */
+export async function cancelJob(jobId: string): Promise<Job | null> {
+  const queued = await prisma.job.updateMany({
+    where: { id: jobId, status: 'queued' },
+    data: { status: 'cancelled', finishedAt: new Date() },
+  });
+  if (queued.count === 0) {
+    await prisma.job.updateMany({ where: { id: jobId, status: 'running' }, data: { cancelRequested: true } });
+    running.get(jobId)?.abort('cancelled');
+  }
+  return prisma.job.findUnique({ where: { id: jobId } });
+}
+
+/**
+ * Put a dead or cancelled job back in the queue with a fresh set of attempts.
+ * Returns null if it isn't dead or cancelled, or another job with its
+ * dedupeKey is already queued or running.
+ */
+export async function retryJob(jobId: string): Promise<Job | null> {
+  try {
+    const updated = await prisma.job.updateMany({
+      where: { id: jobId, status: { in: ['dead', 'cancelled'] } },
+      data: {
+        status: 'queued', attempts: 0, runAt: new Date(), cancelRequested: false,
+        lastError: null, finishedAt: null, lockedBy: null, lockedUntil: null,
+      },
+    });
+    if (updated.count === 0) return null;
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return null;
+    throw err;
+  }
+  return prisma.job.findUnique({ where: { id: jobId } });
+}
+
+/**
+ * Run a recurring job as soon as a worker is free: its queued next run is
+ * moved up, or a run is queued if there is none. Returns null while a run
+ * is already in progress.
+ */
+export async function runRecurringJobNow(type: string): Promise<Job | null> {
+  const dedupeKey = `recurring:${type}`;
+  const active = await findActiveJob(dedupeKey);
+  if (active?.status === 'running') return null;
+  if (active) return prisma.job.update({ where: { id: active.id }, data: { runAt: new Date() } });
+  return enqueueJob(type, {}, { dedupeKey });
+}
+
+// ─── Run stats ───────────────────────────────────────────────────────────────
+
+export interface RunFailure {
+  subject: string;
+  error: string;
+}
+
+// Failures beyond this are counted but not listed in the result
+const MAX_LISTED_FAILURES = 50;
+
+/**
+ * Counters a batch job returns as its result, so the admin run history shows
+ * how many users (or invites, accounts, ...) it went through and which failed.
+ */
+export function createRunStats() {
+  let processed = 0;
+  const failures: RunFailure[] = [];
+  return {
+    processed: () => { processed++; },
+    failed: (subject: string, err: unknown) => {
+      failures.push({ subject, error: ((err as Error)?.message || String(err)).slice(0, 500) });
+    },
+    summary: () => ({ processed, failed: failures.length, failures: failures.slice(0, MAX_LISTED_FAILURES) }),
+  };
+}
+
+// ─── Worker ──────────────────────────────────────────────────────────────────
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+const POLL_INTERVAL_MS = 2000;
+const MAINTENANCE_INTERVAL_MS = 60 * 1000;
+const LEASE_MS = 60 * 1000;
+const HEARTBEAT_MS = 10 * 1000;
+const PROGRESS_WRITE_MS = 2000;
+const SHUTDOWN_GRACE_MS = 7000;
+// Wait before the next attempt: 30s, 1m, 2m, ... capped at an hour
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+/** Finished jobs are kept this long; dead-lettered ones for DEAD_JOB_RETENTION_DAYS */
+const JOB_RETENTION_DAYS = 7;
+const DEAD_JOB_RETENTION_DAYS = 30;
+
+const WORKER_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '4', 10);
+const USER_CONCURRENCY = parseInt(process.env.JOB_USER_CONCURRENCY || '1', 10);
+
+// Abort controllers of the jobs this process is running
+const running = new Map<string, AbortController>();
+const settled = new Map<string, Promise<void>>();
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let maintenanceTimer: ReturnType<typeof setInterval> | null = null;
+let stopping = false;
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+function toJson(value: Record<string, unknown> | void | null | undefined): Prisma.InputJsonObject | undefined {
+  return value ? JSON.parse(JSON.stringify(value)) : undefined;
+}
+
+/**
+ * Claim the next due job this worker can handle, respecting per-user limits.
+ * Two workers can pick different jobs of the same user at once, and neither
+ * sees the other's claim in its own count, so a user's jobs are claimed one at
+ * a time: under a per-user advisory lock the running count is taken again (a
+ * new statement, so it sees claims committed while waiting) before the job is
+ * marked running. The lock is released when the transaction commits.
+ */
+async function claimNextJob(): Promise<Job | null> {
+  const types = Array.from(definitions.keys());
+  if (types.length === 0) return null;
+
+  const claimedId = await prisma.$transaction(async tx => {
+    const [candidate] = await tx.$queryRaw<{ id: string; userId: string | null }[]>`
+      SELECT j.id, j."userId" FROM jobs j
+      WHERE j.status = 'queued'
+        AND j."runAt" <= NOW()
+        AND j.type = ANY(${types})
+        AND (j."userId" IS NULL OR (
+          SELECT COUNT(*) FROM jobs r WHERE r."userId" = j."userId" AND r.status = 'running'
+        ) < ${USER_CONCURRENCY})
+      ORDER BY j."runAt", j."createdAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    `;
+    if (!candidate) return null;
+
+    if (candidate.userId) {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${candidate.userId}))`;
+      const [{ count }] = await tx.$queryRaw<{ count: number }[]>`
+        SELECT COUNT(*)::int AS count FROM jobs WHERE "userId" = ${candidate.userId} AND status = 'running'
+      `;
+      // Another worker got there first; the next poll picks something else
+      if (count >= USER_CONCURRENCY) return null;
+    }
+
+    await tx.$executeRaw`
+      UPDATE jobs SET
+        status = 'running',
+        attempts = attempts + 1,
+        "lockedBy" = ${WORKER_ID},
+        "lockedUntil" = NOW() + ${`${LEASE_MS} milliseconds`}::interval,
+        "startedAt" = NOW(),
+        "updatedAt" = NOW()
+      WHERE id = ${candidate.id}
+    `;
+    return candidate.id;
+  });
+  if (!claimedId) return null;
+  return prisma.job.findUnique({ where: { id: claimedId } });
+}
+
+async function runJob(job: Job): Promise<void> {
+  const def = definitions.get(job.type)!;
+  const controller = new AbortController();
+  running.set(job.id, controller);
+
+  // Only touch the row while this worker still holds it
+  const owned = (data: Prisma.JobUpdateManyMutationInput) => prisma.job
+    .updateMany({ where: { id: job.id, status: 'running', lockedBy: WORKER_ID }, data })
+    .then(r => r.count);
+
+  let pendingProgress: Prisma.InputJsonObject | undefined;
+  let lastProgressWrite = 0;
+  const writeProgress = async () => {
+    if (!pendingProgress) return;
+    const progress = pendingProgress;
+    pendingProgress = undefined;
+    lastProgressWrite = Date.now();
+    await owned({ progress }).catch(() => {});
+  };
+
+  // Renew the lease and pick up cancellations made on other instances
+  const heartbeat = setInterval(async () => {
+    try {
+      const renewed = await owned({ lockedUntil: new Date(Date.now() + LEASE_MS) });
+      if (renewed === 0) {
+        // The lease ran out and the job was handed to another worker
+        controller.abort('lease_lost');
+        return;
+      }
+      const { cancelRequested } = await prisma.job.findUniqueOrThrow({ where: { id: job.id }, select: { cancelRequested: true } });
+      if (cancelRequested) controller.abort('cancelled');
+      await writeProgress();
+    } catch (err) {
+      console.error(`[jobs] Heartbeat failed for ${job.type} ${job.id}:`, (err as Error).message);
+    }
+  }, HEARTBEAT_MS);
+
+  const ctx: JobContext = {
+    signal: controller.signal,
+    reportProgress: (progress) => {
+      pendingProgress = toJson(progress);
+      if (Date.now() - lastProgressWrite >= PROGRESS_WRITE_MS) writeProgress();
+    },
+  };
+
+  let result: Record<string, unknown> | void = undefined;
+  let error: Error | null = null;
+  try {
+    result = await def.handler(job, ctx);
+  } catch (err) {
+    error = err as Error;
+  } finally {
+    clearInterval(heartbeat);
+    running.delete(job.id);
+  }
+
+  const now = new Date();
+  const lease = { lockedBy: null, lockedUntil: null };
+  const progress = pendingProgress ? { progress: pendingProgress } : {};
+
+  if (controller.signal.reason === 'lease_lost') return;
+
+  if (controller.signal.reason === 'shutdown') {
+    // Interrupted by a deploy: back in the queue, without using up an attempt
+    const released = await owned({ ...lease, ...progress, status: 'queued', attempts: { decrement: 1 }, runAt: now });
+    if (released) console.log(`[jobs] Released ${job.type} ${job.id} for another worker`);
+    return;
+  }
+
+  if (controller.signal.reason === 'cancelled') {
+    await owned({ ...lease, ...progress, status: 'cancelled', result: toJson(result), finishedAt: now });
+  } else if (!error) {
+    await owned({ ...lease, ...progress, status: 'succeeded', result: toJson(result), lastError: null, finishedAt: now });
+  } else {
+    const dead = job.attempts >= job.maxAttempts;
+    console.error(`[jobs] ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error.message);
+    await owned({
+      ...lease,
+      ...progress,
+      status: dead ? 'dead' : 'queued',
+      lastError: (error.message || 'Job failed').slice(0, 1000),
+      runAt: dead ? job.runAt : new Date(now.getTime() + retryDelayMs(job.attempts)),
+      finishedAt: dead ? now : null,
+    });
+  }
+
+  if (def.recurring) await scheduleRecurringJob(job.type);
+}
+
+function poll() {
+  pollTimer = null;
+  if (stopping) return;
+
+  (async () => {
+    while (!stopping && running.size < WORKER_CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+      const done = runJob(job)
+        .catch(err => console.error(`[jobs] Failed to record outcome of ${job.type} ${job.id}:`, err))
+        .finally(() => settled.delete(job.id));
+      settled.set(job.id, done);
+    }
+  })()
+    .catch(err => console.error('[jobs] Poll error:', err))
+    .finally(() => {
+      if (!stopping) pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+    });
+}
+
+// ─── Maintenance ─────────────────────────────────────────────────────────────
+
+/**
+ * Queue the next run of a recurring job, unless one is already queued or
+ * running. Due `everyMs` after the previous run started.
+ */
+async function scheduleRecurringJob(type: string): Promise<void> {
+  const recurring = definitions.get(type)?.recurring;
+  if (!recurring) return;
+
+  const last = await prisma.job.findFirst({
+    where: { type },
+    orderBy: { createdAt: 'desc' },
+    select: { status: true, startedAt: true, createdAt: true },
+  });
+  if (last && (ACTIVE_JOB_STATUSES as string[]).includes(last.status)) return;
+
+  const earliest = Date.now() + (last ? 0 : recurring.initialDelayMs);
+  const due = last ? (last.startedAt ?? last.createdAt).getTime() + recurring.everyMs : 0;
+  await enqueueJob(type, {}, { dedupeKey: `recurring:${type}`, runAt: new Date(Math.max(earliest, due)) });
+}
+
+/**
+ * Requeue (or dead-letter) jobs whose worker stopped renewing its lease,
+ * make sure every recurring job has a next run, and prune old jobs.
+ */
+async function runMaintenance(): Promise<void> {
+  const now = new Date();
+  const expired = { status: 'running', lockedUntil: { lt: now } };
+  const lease = { lockedBy: null, lockedUntil: null, lastError: 'Lease expired before the job finished' };
+
+  const [dead, requeued] = await prisma.$transaction([
+    prisma.job.updateMany({
+      where: { ...expired, attempts: { gte: prisma.job.fields.maxAttempts } },
+      data: { ...lease, status: 'dead', finishedAt: now },
+    }),
+    prisma.job.updateMany({
+      where: expired,
+      data: { ...lease, status: 'queued', runAt: now },
+    }),
+  ]);
+  if (dead.count || requeued.count) {
+    console.log(`[jobs] Expired leases: ${requeued.count} requeued, ${dead.count} dead-lettered`);
+  }
+
+  for (const [type, def] of definitions) {
+    if (def.recurring) await scheduleRecurringJob(type);
+  }
+
+  const day = 24 * 60 * 60 * 1000;
+  await prisma.job.deleteMany({
+    where: {
+      OR: [
+        { status: { in: ['succeeded', 'cancelled'] }, finishedAt: { lt: new Date(now.getTime() - JOB_RETENTION_DAYS * day) } },
+        { status: 'dead', finishedAt: { lt: new Date(now.getTime() - DEAD_JOB_RETENTION_DAYS * day) } },
+      ],
+    },
+  });
+}
+
+// ─── Lifecycle ───────────────────────────────────────────────────────────────
+
+/** Start claiming jobs. Call once handlers are registered. */
+export async function startJobWorker(): Promise<void> {
+  stopping = false;
+  await runMaintenance();
+  maintenanceTimer = setInterval(() => {
+    runMaintenance().catch(err => console.error('[jobs] Maintenance error:', err));
+  }, MAINTENANCE_INTERVAL_MS);
+  poll();
+  console.log(`[jobs] Worker ${WORKER_ID} started (${definitions.size} job types, concurrency ${WORKER_CONCURRENCY}, ${USER_CONCURRENCY} per user)`);
+}
+
+/**
+ * Stop claiming, abort running handlers and wait briefly for them to hand
+ * their jobs back. Anything still running after that is released here so
+ * another instance can take it straight away instead of waiting out the lease.
+ */
+export async function stopJobWorker(): Promise<void> {
+  stopping = true;
+  if (pollTimer) clearTimeout(pollTimer);
+  if (maintenanceTimer) clearInterval(maintenanceTimer);
+  if (running.size === 0) return;
+
+  const ids = Array.from(running.keys());
+  for (const controller of running.values()) controller.abort('shutdown');
+
+  await Promise.race([
+    Promise.allSettled(Array.from(settled.values())),
+    new Promise(resolve => setTimeout(resolve, SHUTDOWN_GRACE_MS)),
+  ]);
+
+  const released = await prisma.job.updateMany({
+    where: { id: { in: ids }, status: 'running', lockedBy: WORKER_ID },
+    data: { status: 'queued', attempts: { decrement: 1 }, runAt: new Date(), lockedBy: null, lockedUntil: null },
+  });
+  if (released.count > 0) console.log(`[jobs] Released ${released.count} job(s) still running at shutdown`);
+}
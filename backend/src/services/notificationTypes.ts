@@ -0,0 +1,152 @@
+// ─── Payloads ────────────────────────────────────────────────────────────────
+
+/** Fields every notification about an intro request carries */
+interface RequestPayload {
+  requestId: string;
+  companyName: string;
+  companyDomain?: string | null;
+  companyId?: string | null;
+  spaceId?: string | null;
+  spaceName?: string | null;
+  spaceEmoji?: string | null;
+  requesterId?: string;
+  requesterName?: string;
+  connectionPeerId?: string | null;
+  connectionPeerName?: string | null;
+  rawText?: string;
+}
+
+interface SpacePayload {
+  spaceId: string;
+  spaceName: string;
+  spaceEmoji: string | null;
+}
+
+interface ConsentPayload extends RequestPayload {
+  consentId: string;
+  /** Hidden (null) when a space requester is told a contact declined */
+  introducerId: string | null;
+  introducerName: string | null;
+  contactName: string | null;
+}
+
+/** The `data` stored with each notification type */
+export interface NotificationPayloads {
+  intro_request: RequestPayload & { requesterId: string; requesterName: string; rawText: string };
+  intro_review: RequestPayload & { spaceId: string; requesterId: string; requesterName: string; rawText: string };
+  intro_approved: RequestPayload;
+  intro_declined: RequestPayload & { reason: string | null };
+  intro_offered: RequestPayload & { offerId?: string; introducerId: string; introducerName: string };
+  details_requested: RequestPayload & { connectorId: string; connectorName: string };
+  intro_contact_agreed: ConsentPayload;
+  intro_contact_declined: ConsentPayload;
+  intro_escalated: RequestPayload;
+  intro_expired: RequestPayload;
+  connection_request: { connectionId: string; fromUserId: string; fromUserName: string | null };
+  connection_accepted: { connectionId: string; peerId: string; peerName: string | null };
+  space_invited: SpacePayload & { inviterId: string };
+  space_join_request: SpacePayload & { requesterId: string };
+  space_approved: SpacePayload;
+  space_member_joined: SpacePayload & { memberId: string };
+  space_member_left: SpacePayload & { memberId: string };
+  space_removed: SpacePayload;
+}
+
+export type NotificationType = keyof NotificationPayloads;
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/**
+ * Where a notification goes:
+ *   in_app — only the bell
+ *   email  — the bell and an email straight away
+ *   digest — the bell, and an email in the next hourly digest
+ *   muted  — nowhere
+ */
+export type NotificationDelivery = 'in_app' | 'email' | 'digest' | 'muted';
+
+export const NOTIFICATION_DELIVERIES: NotificationDelivery[] = ['in_app', 'email', 'digest', 'muted'];
+
+export type NotificationCategory = 'requests' | 'connections' | 'spaces';
+
+interface NotificationTypeInfo {
+  category: NotificationCategory;
+  label: string;
+  /** Urgent types are emailed straight away by default; the rest go in the digest */
+  urgent: boolean;
+  /** Set on types whose recent notifications collapse into one list entry per space */
+  groupTitle?: (count: number, spaceName: string | null) => string;
+}
+
+const inSpace = (spaceName: string | null) => (spaceName ? ` in ${spaceName}` : '');
+
+export const NOTIFICATION_TYPES: Record<NotificationType, NotificationTypeInfo> = {
+  intro_request: {
+    category: 'requests',
+    label: 'Someone needs an intro you could make',
+    urgent: false,
+    groupTitle: (count, spaceName) => `${count} new intro requests${inSpace(spaceName)}`,
+  },
+  intro_review: { category: 'requests', label: 'A request in your space needs review', urgent: true },
+  intro_approved: { category: 'requests', label: 'Your request was approved', urgent: false },
+  intro_declined: { category: 'requests', label: 'Your request was declined', urgent: false },
+  intro_offered: { category: 'requests', label: 'Someone offered or made your intro', urgent: true },
+  details_requested: { category: 'requests', label: 'A connector asked for more details', urgent: true },
+  intro_contact_agreed: { category: 'requests', label: 'A contact agreed to an intro', urgent: true },
+  intro_contact_declined: { category: 'requests', label: 'A contact passed on an intro', urgent: false },
+  intro_escalated: { category: 'requests', label: 'A request in your space went stale', urgent: false },
+  intro_expired: { category: 'requests', label: 'Your request expired', urgent: false },
+  connection_request: {
+    category: 'connections',
+    label: 'Connection requests',
+    urgent: true,
+    groupTitle: count => `${count} new connection requests`,
+  },
+  connection_accepted: { category: 'connections', label: 'Connection accepted', urgent: false },
+  space_invited: { category: 'spaces', label: 'Space invitations', urgent: true },
+  space_join_request: { category: 'spaces', label: 'Requests to join your space', urgent: true },
+  space_approved: { category: 'spaces', label: 'Your join request was approved', urgent: false },
+  space_member_joined: {
+    category: 'spaces',
+    label: 'New members in your space',
+    urgent: false,
+    groupTitle: (count, spaceName) => `${count} people joined${inSpace(spaceName)}`,
+  },
+  space_member_left: {
+    category: 'spaces',
+    label: 'Members leaving your space',
+    urgent: false,
+    groupTitle: (count, spaceName) => `${count} people left${inSpace(spaceName)}`,
+  },
+  space_removed: { category: 'spaces', label: 'You were removed from a space', urgent: false },
+};
+
+export type NotificationPreferences = Partial<Record<NotificationType, NotificationDelivery>>;
+
+export function isNotificationType(type: string): type is NotificationType {
+  return Object.prototype.hasOwnProperty.call(NOTIFICATION_TYPES, type);
+}
+
+export function defaultDelivery(type: NotificationType): NotificationDelivery {
+  return NOTIFICATION_TYPES[type].urgent ? 'email' : 'digest';
+}
+
+/** The user's choice for `type`, falling back to the type's default */
+export function resolveDelivery(preferences: unknown, type: NotificationType): NotificationDelivery {
+  const choice = preferences && typeof preferences === 'object'
+    ? (preferences as Record<string, unknown>)[type]
+    : undefined;
+  return NOTIFICATION_DELIVERIES.includes(choice as NotificationDelivery)
+    ? choice as NotificationDelivery
+    : defaultDelivery(type);
+}
+
+export function validateNotificationPreferences(preferences: Record<string, string>): string | null {
+  for (const [type, delivery] of Object.entries(preferences)) {
+    if (!isNotificationType(type)) return `Unknown notification type: ${type}`;
+    if (!NOTIFICATION_DELIVERIES.includes(delivery as NotificationDelivery)) {
+      return `${type} must be one of ${NOTIFICATION_DELIVERIES.join(', ')}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,571 @@
+import crypto from 'crypto';
+import pg from 'pg';
+import { Prisma, type Notification } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { sendNotificationEmail, sendNotificationDigestEmail } from './email.js';
+import {
+  NOTIFICATION_TYPES,
+  isNotificationType,
+  resolveDelivery,
+  type NotificationType,
+  type NotificationPayloads,
+  type NotificationDelivery,
+} from './notificationTypes.js';
+
+/**
+ * Notifications and other per-user live events, pushed to the browser over
+ * Server-Sent Events (GET /api/notifications/stream).
+ *
+ * Every open stream subscribes here. Events are published on a Postgres
+ * channel (LISTEN/NOTIFY, see startStreamFanout) so each backend instance
+ * writes them to the streams connected to it; without the channel they are
+ * delivered in-process only. Persistent events (notifications, signal
+ * matches) also go into a short per-user replay buffer so a client that
+ * reconnects with Last-Event-ID gets what it missed. If the gap can't be
+ * covered — the client reconnected to another instance, the server restarted
+ * or the buffer rolled over — the client is told to `resync` and refetch
+ * instead.
+ */
+
+export type StreamEventType =
+  | 'notification'
+  | 'unread_count'
+  | 'signal_match'
+  | 'enrichment_progress'
+  | 'resync';
+
+export interface StreamEvent {
+  /** Only set on replayable events */
+  id?: string;
+  type: StreamEventType;
+  data: unknown;
+}
+
+interface StreamSubscriber {
+  send: (event: StreamEvent) => void;
+  close: () => void;
+}
+
+const REPLAY_LIMIT = 100;
+const REPLAY_WINDOW_MS = 15 * 60 * 1000;
+const REPLAYABLE: StreamEventType[] = ['notification', 'signal_match'];
+const BUFFER_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const FANOUT_CHANNEL = 'user_stream_events';
+// NOTIFY payloads must stay under 8000 bytes
+const MAX_FANOUT_PAYLOAD_BYTES = 7900;
+const FANOUT_RECONNECT_MS = 5000;
+
+// Event ids are `${bootId}-${seq}`, numbered by the instance that writes them
+// to the stream; a different boot id means the buffer the client remembers is
+// gone.
+const bootId = crypto.randomBytes(4).toString('hex');
+let seq = 0;
+
+const subscribers = new Map<string, Set<StreamSubscriber>>();
+// Per user: recent replayable events, and the newest seq already evicted
+const replayBuffers = new Map<string, { events: { seq: number; at: number; event: StreamEvent }[]; evictedThrough: number }>();
+// Newest seq evicted from a buffer that has since been dropped altogether
+let prunedThrough = 0;
+
+interface FanoutMessage {
+  userId: string;
+  type: StreamEventType;
+  data: unknown;
+  /** bootId of the publisher, which has already delivered a `resync` stand-in itself */
+  origin?: string;
+}
+
+// Dedicated connection that both LISTENs and NOTIFYs, so this instance's
+// events reach the channel in the order they were published
+let fanout: pg.Client | null = null;
+let fanoutReconnect: ReturnType<typeof setTimeout> | null = null;
+let fanoutStopped = true;
+// Users who got events in-process only while the channel was down; other
+// instances' streams missed them
+const unsharedUsers = new Set<string>();
+
+// ─── Publishing ──────────────────────────────────────────────────────────────
+
+/** Write an event to the streams of `userId` connected to this instance */
+function deliver(userId: string, type: StreamEventType, data: unknown): void {
+  const event: StreamEvent = { type, data };
+
+  if (REPLAYABLE.includes(type)) {
+    seq += 1;
+    event.id = `${bootId}-${seq}`;
+    const now = Date.now();
+    const buffer = replayBuffers.get(userId) || { events: [], evictedThrough: 0 };
+    buffer.events.push({ seq, at: now, event });
+    while (buffer.events.length > REPLAY_LIMIT || now - buffer.events[0].at >= REPLAY_WINDOW_MS) {
+      buffer.evictedThrough = buffer.events.shift()!.seq;
+    }
+    replayBuffers.set(userId, buffer);
+  } else if (type === 'resync') {
+    // Something was lost, so no earlier position can be replayed from
+    seq += 1;
+    replayBuffers.set(userId, { events: [], evictedThrough: seq });
+  }
+
+  for (const subscriber of subscribers.get(userId) || []) {
+    try {
+      subscriber.send(event);
+    } catch (error) {
+      console.error('Notification stream write error:', error);
+    }
+  }
+}
+
+/** Push an event to every open stream of `userId`, on any instance */
+export function publishToUser(userId: string, type: Exclude<StreamEventType, 'resync'>, data: unknown): void {
+  const client = fanout;
+  if (!client) {
+    deliver(userId, type, data);
+    if (!fanoutStopped) unsharedUsers.add(userId);
+    return;
+  }
+
+  let payload = JSON.stringify({ userId, type, data } satisfies FanoutMessage);
+  if (Buffer.byteLength(payload) > MAX_FANOUT_PAYLOAD_BYTES) {
+    // Too big for NOTIFY: deliver it here, and have other instances' clients refetch
+    deliver(userId, type, data);
+    payload = JSON.stringify({ userId, type: 'resync', data: {}, origin: bootId } satisfies FanoutMessage);
+  }
+
+  client.query('SELECT pg_notify($1, $2)', [FANOUT_CHANNEL, payload]).catch(error => {
+    console.error('[notifications] Failed to publish stream event:', error);
+    deliver(userId, type, data);
+    unsharedUsers.add(userId);
+  });
+}
+
+function onFanoutMessage(message: pg.Notification): void {
+  if (message.channel !== FANOUT_CHANNEL || !message.payload) return;
+  try {
+    const { userId, type, data, origin } = JSON.parse(message.payload) as FanoutMessage;
+    if (origin === bootId) return;
+    deliver(userId, type, data);
+  } catch (error) {
+    console.error('[notifications] Bad stream event on the channel:', error);
+  }
+}
+
+/** Events published while the channel was down never arrived; every open stream must refetch */
+function resyncAll(): void {
+  seq += 1;
+  prunedThrough = seq;
+  replayBuffers.clear();
+  for (const userId of subscribers.keys()) deliver(userId, 'resync', {});
+}
+
+/**
+ * Connect to the stream channel so events published on any instance reach
+ * this instance's streams (and this instance's events reach theirs). A lost
+ * connection is retried every few seconds; publishing is in-process until it
+ * is back.
+ */
+export async function startStreamFanout(): Promise<void> {
+  fanoutStopped = false;
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+
+  const lost = (error?: Error) => {
+    if (fanout !== client) return;
+    fanout = null;
+    client.removeAllListeners('notification');
+    client.end().catch(() => {});
+    if (fanoutStopped) return;
+    console.error('[notifications] Stream channel connection lost, reconnecting:', error?.message ?? 'closed');
+    resyncAll();
+    fanoutReconnect = setTimeout(() => {
+      startStreamFanout().catch(() => {});
+    }, FANOUT_RECONNECT_MS);
+  };
+
+  try {
+    await client.connect();
+    client.on('notification', onFanoutMessage);
+    await client.query(`LISTEN ${FANOUT_CHANNEL}`);
+  } catch (error) {
+    client.end().catch(() => {});
+    console.error('[notifications] Could not listen on the stream channel:', error);
+    if (!fanoutStopped) {
+      fanoutReconnect = setTimeout(() => {
+        startStreamFanout().catch(() => {});
+      }, FANOUT_RECONNECT_MS);
+    }
+    return;
+  }
+
+  client.on('error', lost);
+  client.on('end', () => lost());
+  fanout = client;
+
+  for (const userId of unsharedUsers) {
+    const payload = JSON.stringify({ userId, type: 'resync', data: {}, origin: bootId } satisfies FanoutMessage);
+    client.query('SELECT pg_notify($1, $2)', [FANOUT_CHANNEL, payload]).catch(() => {});
+  }
+  unsharedUsers.clear();
+}
+
+/** Close the channel connection during shutdown */
+export async function stopStreamFanout(): Promise<void> {
+  fanoutStopped = true;
+  if (fanoutReconnect) clearTimeout(fanoutReconnect);
+  unsharedUsers.clear();
+  const client = fanout;
+  fanout = null;
+  await client?.end();
+}
+
+/**
+ * Drop replay events past the window, and the whole buffer of a user with no
+ * open stream once nothing in it can be replayed any more.
+ */
+export function pruneReplayBuffers(now: number = Date.now()): void {
+  for (const [userId, buffer] of replayBuffers) {
+    while (buffer.events.length > 0 && now - buffer.events[0].at >= REPLAY_WINDOW_MS) {
+      buffer.evictedThrough = buffer.events.shift()!.seq;
+    }
+    if (buffer.events.length === 0 && !subscribers.has(userId)) {
+      prunedThrough = Math.max(prunedThrough, buffer.evictedThrough);
+      replayBuffers.delete(userId);
+    }
+  }
+}
+
+setInterval(() => pruneReplayBuffers(), BUFFER_SWEEP_INTERVAL_MS).unref();
+
+/**
+ * Send the current unread count, e.g. after notifications were read or removed
+ * elsewhere. Always published, since the user's streams may be open on another
+ * instance.
+ */
+export async function publishUnreadCount(userId: string): Promise<void> {
+  const count = await prisma.notification.count({ where: { ...inboxWhere(userId), isRead: false } });
+  publishToUser(userId, 'unread_count', { count });
+}
+
+// ─── Creating ────────────────────────────────────────────────────────────────
+
+/**
+ * Store a notification and push it to the user's open streams, ignoring
+ * preferences. Registered types go through notify() instead; this is for
+ * internal records such as `email_sent`.
+ */
+export async function createNotification(data: Prisma.NotificationUncheckedCreateInput): Promise<Notification> {
+  const notification = await prisma.notification.create({ data });
+  if (!notification.isRead) publishToUser(notification.userId, 'notification', notification);
+  return notification;
+}
+
+export async function createNotifications(data: Prisma.NotificationCreateManyInput[]): Promise<Notification[]> {
+  if (data.length === 0) return [];
+  const notifications = await prisma.notification.createManyAndReturn({ data });
+  for (const notification of notifications) {
+    if (!notification.isRead) publishToUser(notification.userId, 'notification', notification);
+  }
+  return notifications;
+}
+
+// ─── Delivery ────────────────────────────────────────────────────────────────
+
+/** A notification of one registered type, with its typed payload */
+export type NotificationInput = {
+  [T in NotificationType]: {
+    userId: string;
+    type: T;
+    title: string;
+    body?: string | null;
+    data: NotificationPayloads[T];
+  };
+}[NotificationType];
+
+async function deliveriesFor(inputs: NotificationInput[]): Promise<NotificationDelivery[]> {
+  const userIds = [...new Set(inputs.map(n => n.userId))];
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, notificationPreferences: true },
+  });
+  const prefsByUser = new Map(users.map(u => [u.id, u.notificationPreferences]));
+  return inputs.map(n => resolveDelivery(prefsByUser.get(n.userId), n.type));
+}
+
+/**
+ * Send notifications the way each recipient asked for that type (see
+ * services/notificationTypes.ts): muted ones are dropped, the rest are stored
+ * and pushed live, then emailed right away or left for the hourly digest.
+ * Returns the stored notifications.
+ */
+export async function notifyMany(inputs: NotificationInput[]): Promise<Notification[]> {
+  if (inputs.length === 0) return [];
+  const deliveries = await deliveriesFor(inputs);
+
+  const rows: Prisma.NotificationCreateManyInput[] = [];
+  const emailNow: NotificationInput[] = [];
+  inputs.forEach((input, i) => {
+    const delivery = deliveries[i];
+    if (delivery === 'muted') return;
+    rows.push({
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      body: input.body ?? null,
+      data: input.data as unknown as Prisma.InputJsonObject,
+      digestPending: delivery === 'digest',
+    });
+    if (delivery === 'email') emailNow.push(input);
+  });
+
+  const created = await createNotifications(rows);
+  for (const input of emailNow) {
+    sendNotificationEmail(input.userId, input).catch(() => {});
+  }
+  return created;
+}
+
+export async function notify(input: NotificationInput): Promise<Notification | null> {
+  const [created] = await notifyMany([input]);
+  return created || null;
+}
+
+// ─── Digest ──────────────────────────────────────────────────────────────────
+
+const DIGEST_BATCH_SIZE = 2000;
+
+/**
+ * Email each user one digest of their notifications waiting for it. Anything
+ * they've already read in the app is left out. Returns how many digests went
+ * out.
+ */
+export async function sendNotificationDigests(): Promise<number> {
+  const pending = await prisma.notification.findMany({
+    where: { digestPending: true },
+    orderBy: { createdAt: 'asc' },
+    take: DIGEST_BATCH_SIZE,
+    select: { id: true, userId: true, title: true, body: true, isRead: true, archivedAt: true, snoozedUntil: true },
+  });
+  if (pending.length === 0) return 0;
+
+  const byUser = new Map<string, typeof pending>();
+  for (const n of pending) {
+    const list = byUser.get(n.userId) || [];
+    list.push(n);
+    byUser.set(n.userId, list);
+  }
+
+  let sent = 0;
+  for (const [userId, notifications] of byUser) {
+    // Cleared before sending so a failed email isn't retried every hour
+    await prisma.notification.updateMany({
+      where: { id: { in: notifications.map(n => n.id) } },
+      data: { digestPending: false },
+    });
+    // Archived or snoozed ones have been dealt with for now
+    const unread = notifications.filter(n => !n.isRead && !n.archivedAt && !n.snoozedUntil);
+    if (unread.length === 0) continue;
+
+    const result = await sendNotificationDigestEmail(userId, unread);
+    if (result.success) {
+      sent++;
+    } else {
+      console.error(`[cron] Failed to send notification digest to user ${userId}:`, result.error);
+    }
+  }
+  return sent;
+}
+
+// ─── Inbox ───────────────────────────────────────────────────────────────────
+
+/**
+ * inbox    — everything not archived or snoozed (what the bell counts)
+ * snoozed  — hidden until `snoozedUntil`, then back at the top of the inbox
+ * archived — dealt with, kept for reference
+ */
+export type NotificationView = 'inbox' | 'snoozed' | 'archived';
+
+export const NOTIFICATION_VIEWS: NotificationView[] = ['inbox', 'snoozed', 'archived'];
+
+export function inboxWhere(userId: string): Prisma.NotificationWhereInput {
+  return { userId, archivedAt: null, snoozedUntil: null };
+}
+
+export interface NotificationFilters {
+  view: NotificationView;
+  types?: string[];
+  spaceId?: string;
+  unreadOnly?: boolean;
+}
+
+export function notificationListWhere(userId: string, filters: NotificationFilters): Prisma.NotificationWhereInput {
+  const where: Prisma.NotificationWhereInput =
+    filters.view === 'archived' ? { userId, archivedAt: { not: null } }
+    : filters.view === 'snoozed' ? { userId, archivedAt: null, snoozedUntil: { not: null } }
+    : inboxWhere(userId);
+
+  if (filters.types?.length) where.type = { in: filters.types };
+  if (filters.spaceId) where.data = { path: ['spaceId'], equals: filters.spaceId };
+  if (filters.unreadOnly) where.isRead = false;
+  return where;
+}
+
+/** Related notifications this close together collapse into one entry */
+const GROUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type NotificationListItem =
+  | { kind: 'single'; notification: Notification }
+  | {
+      kind: 'group';
+      key: string;
+      type: NotificationType;
+      title: string;
+      count: number;
+      isRead: boolean;
+      sortAt: Date;
+      spaceId: string | null;
+      spaceName: string | null;
+      spaceEmoji: string | null;
+      notifications: Notification[];
+    };
+
+/**
+ * Collapse a page of notifications (newest first) into list entries. Types
+ * with a `groupTitle` are grouped per space: each group starts at its newest
+ * notification and takes in same-key ones from the following 24 hours. Groups
+ * don't reach across pages, so a burst split by a page boundary shows as two
+ * entries.
+ */
+export function groupNotifications(notifications: Notification[]): NotificationListItem[] {
+  const items: NotificationListItem[] = [];
+  const open = new Map<string, { members: Notification[]; index: number }>();
+
+  for (const notification of notifications) {
+    const info = isNotificationType(notification.type) ? NOTIFICATION_TYPES[notification.type] : null;
+    if (!info?.groupTitle) {
+      items.push({ kind: 'single', notification });
+      continue;
+    }
+
+    const data = (notification.data || {}) as { spaceId?: string | null };
+    const key = `${notification.type}:${data.spaceId || ''}`;
+    const group = open.get(key);
+    if (group && group.members[0].sortAt.getTime() - notification.sortAt.getTime() <= GROUP_WINDOW_MS) {
+      group.members.push(notification);
+      continue;
+    }
+
+    open.set(key, { members: [notification], index: items.length });
+    items.push({ kind: 'single', notification });
+  }
+
+  for (const [key, { members, index }] of open) {
+    if (members.length < 2) continue;
+    const newest = members[0];
+    const type = newest.type as NotificationType;
+    const data = (newest.data || {}) as { spaceId?: string | null; spaceName?: string | null; spaceEmoji?: string | null };
+    items[index] = {
+      kind: 'group',
+      key: `${key}:${newest.id}`,
+      type,
+      title: NOTIFICATION_TYPES[type].groupTitle!(members.length, data.spaceName || null),
+      count: members.length,
+      isRead: members.every(n => n.isRead),
+      sortAt: newest.sortAt,
+      spaceId: data.spaceId || null,
+      spaceName: data.spaceName || null,
+      spaceEmoji: data.spaceEmoji || null,
+      notifications: members,
+    };
+  }
+  return items;
+}
+
+/**
+ * Bring back notifications whose snooze has ended. They were given
+ * `sortAt = snoozedUntil` when snoozed, so they land at the top of the inbox.
+ * Returns how many came back.
+ */
+export async function releaseSnoozedNotifications(): Promise<number> {
+  const due = await prisma.notification.findMany({
+    where: { snoozedUntil: { lte: new Date() } },
+    select: { id: true, userId: true },
+  });
+  if (due.length === 0) return 0;
+
+  await prisma.notification.updateMany({
+    where: { id: { in: due.map(n => n.id) } },
+    data: { snoozedUntil: null },
+  });
+
+  const released = await prisma.notification.findMany({ where: { id: { in: due.map(n => n.id) } } });
+  for (const notification of released) {
+    if (!notification.isRead && !notification.archivedAt) {
+      publishToUser(notification.userId, 'notification', notification);
+    }
+  }
+  for (const userId of new Set(due.map(n => n.userId))) {
+    await publishUnreadCount(userId);
+  }
+  return due.length;
+}
+
+// ─── Streams ─────────────────────────────────────────────────────────────────
+
+function parseEventId(id: string | undefined): { boot: string; seq: number } | null {
+  const match = id?.match(/^([0-9a-f]+)-(\d+)$/);
+  return match ? { boot: match[1], seq: Number(match[2]) } : null;
+}
+
+/**
+ * Subscribe a stream for `userId`. When the client reconnects with the id of
+ * the last event it saw, buffered events after it are sent first; if they
+ * can't be recovered a single `resync` event is sent instead. Returns the
+ * unsubscribe function.
+ */
+export function openStream(userId: string, lastEventId: string | undefined, subscriber: StreamSubscriber): () => void {
+  if (lastEventId) {
+    const last = parseEventId(lastEventId);
+    const buffer = replayBuffers.get(userId);
+    // Nothing the client missed may have been evicted already, including from
+    // a buffer that was dropped while the user had no stream open
+    const covered = last !== null && last.boot === bootId && prunedThrough <= last.seq
+      && (!buffer || buffer.evictedThrough <= last.seq);
+
+    if (covered) {
+      for (const entry of buffer?.events || []) {
+        if (entry.seq > last.seq) subscriber.send(entry.event);
+      }
+    } else {
+      subscriber.send({ type: 'resync', data: {} });
+    }
+  }
+
+  let set = subscribers.get(userId);
+  if (!set) {
+    set = new Set();
+    subscribers.set(userId, set);
+  }
+  set.add(subscriber);
+
+  return () => {
+    const current = subscribers.get(userId);
+    if (!current) return;
+    current.delete(subscriber);
+    if (current.size === 0) subscribers.delete(userId);
+  };
+}
+
+/** Format an event for the SSE wire */
+export function formatStreamEvent(event: StreamEvent): string {
+  const lines = [`event: ${event.type}`];
+  if (event.id) lines.push(`id: ${event.id}`);
+  lines.push(`data: ${JSON.stringify(event.data)}`);
+  return `${lines.join('\n')}\n\n`;
+}
+
+/** End every open stream so the HTTP server can close during shutdown */
+export function closeAllStreams(): void {
+  for (const set of subscribers.values()) {
+    for (const subscriber of set) subscriber.close();
+  }
+  subscribers.clear();
+}
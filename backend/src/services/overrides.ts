@@ -0,0 +1,196 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+
+/**
+ * Manual corrections to contact and company fields, which win over anything
+ * an enrichment provider or calendar sync says.
+ *
+ * - Contacts belong to one user, so an override is written to the contact
+ *   itself. Providers and sync keep writing to the override's `original`
+ *   rather than the contact, and reverting restores that value.
+ * - Companies are shared, so an override is kept per user and applied when
+ *   that user reads the company; the company row keeps the provider data.
+ *
+ * API responses list what was edited as `overrides: { [field]: { original,
+ * updatedAt } }`, where `original` is the value the override hides.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const CONTACT_OVERRIDE_FIELDS = ['name', 'title', 'headline', 'city', 'state', 'country', 'companyId'] as const;
+
+export const COMPANY_OVERRIDE_FIELDS = [
+  'name', 'industry', 'description', 'employeeCount', 'websiteUrl', 'linkedinUrl', 'city', 'state', 'country',
+] as const;
+
+export type ContactOverrideField = typeof CONTACT_OVERRIDE_FIELDS[number];
+export type CompanyOverrideField = typeof COMPANY_OVERRIDE_FIELDS[number];
+
+/** New values per field; null reverts the field */
+export type OverrideChanges<F extends string> = Partial<Record<F, string | number | null>>;
+
+export interface OverrideInfo {
+  original: unknown;
+  updatedAt: Date;
+}
+
+/** Field → override id, for a contact that has overrides */
+export type OverriddenFields = Map<string, string>;
+
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === null || value === undefined ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+// ─── Contacts ────────────────────────────────────────────────────────────────
+
+/**
+ * Set or revert fields of a contact. Setting a field for the first time keeps
+ * the current value as `original`; reverting writes `original` back.
+ */
+export async function setContactOverrides(
+  contactId: string,
+  changes: OverrideChanges<ContactOverrideField>,
+): Promise<void> {
+  const contact = await prisma.contact.findUniqueOrThrow({
+    where: { id: contactId },
+    include: { overrides: true },
+  });
+  const existing = new Map(contact.overrides.map(o => [o.field, o]));
+
+  const data: Record<string, unknown> = {};
+  const writes: Prisma.PrismaPromise<unknown>[] = [];
+  for (const field of CONTACT_OVERRIDE_FIELDS) {
+    const value = changes[field];
+    if (value === undefined) continue;
+
+    const override = existing.get(field);
+    if (value === null) {
+      if (!override) continue;
+      data[field] = override.original ?? null;
+      writes.push(prisma.contactOverride.delete({ where: { id: override.id } }));
+    } else {
+      data[field] = value;
+      writes.push(prisma.contactOverride.upsert({
+        where: { contactId_field: { contactId, field } },
+        create: { contactId, field, value, original: toJson(contact[field]) },
+        update: { value },
+      }));
+    }
+  }
+  if (writes.length === 0) return;
+
+  await prisma.$transaction([...writes, prisma.contact.update({ where: { id: contactId }, data })]);
+}
+
+/** Overridden fields of one user's contacts, by contact email */
+export async function getOverriddenFieldsByEmail(userId: string, emails: string[]): Promise<Map<string, OverriddenFields>> {
+  const rows = emails.length > 0
+    ? await prisma.contactOverride.findMany({
+        where: { contact: { userId, email: { in: emails } } },
+        select: { id: true, field: true, contact: { select: { email: true } } },
+      })
+    : [];
+
+  const byEmail = new Map<string, OverriddenFields>();
+  for (const row of rows) {
+    const fields = byEmail.get(row.contact.email) ?? new Map<string, string>();
+    fields.set(row.field, row.id);
+    byEmail.set(row.contact.email, fields);
+  }
+  return byEmail;
+}
+
+/**
+ * Split a provider or sync update to a contact into the columns it may
+ * write and the override rows that take the rest as their new `original`.
+ */
+export function splitContactUpdate<T extends Record<string, unknown>>(
+  data: T,
+  overridden: OverriddenFields | undefined,
+): { data: T; shadowed: Prisma.PrismaPromise<unknown>[] } {
+  if (!overridden || overridden.size === 0) return { data, shadowed: [] };
+
+  const allowed: Record<string, unknown> = { ...data };
+  const shadowed: Prisma.PrismaPromise<unknown>[] = [];
+  for (const [field, overrideId] of overridden) {
+    if (!(field in allowed)) continue;
+    const value = allowed[field];
+    delete allowed[field];
+    if (value === undefined) continue;
+    shadowed.push(prisma.contactOverride.update({ where: { id: overrideId }, data: { original: toJson(value) } }));
+  }
+  return { data: allowed as T, shadowed };
+}
+
+/** Update a contact from a provider or sync without touching overridden fields */
+export async function updateContactUnderOverrides(contactId: string, data: Record<string, unknown>): Promise<void> {
+  const rows = await prisma.contactOverride.findMany({ where: { contactId }, select: { id: true, field: true } });
+  const split = splitContactUpdate(data, new Map(rows.map(r => [r.field, r.id])));
+  await prisma.$transaction([
+    prisma.contact.update({ where: { id: contactId }, data: split.data }),
+    ...split.shadowed,
+  ]);
+}
+
+/** The `overrides` map for API responses, from a contact's override rows */
+export function contactOverrideInfo(rows: { field: string; original: unknown; updatedAt: Date }[]): Record<string, OverrideInfo> {
+  return Object.fromEntries(rows.map(row => [row.field, { original: row.original, updatedAt: row.updatedAt }]));
+}
+
+// ─── Companies ───────────────────────────────────────────────────────────────
+
+/** Set or revert one user's corrections to a company */
+export async function setCompanyOverrides(
+  userId: string,
+  companyId: string,
+  changes: OverrideChanges<CompanyOverrideField>,
+): Promise<void> {
+  const writes: Prisma.PrismaPromise<unknown>[] = [];
+  for (const field of COMPANY_OVERRIDE_FIELDS) {
+    const value = changes[field];
+    if (value === undefined) continue;
+
+    if (value === null) {
+      writes.push(prisma.companyOverride.deleteMany({ where: { userId, companyId, field } }));
+    } else {
+      writes.push(prisma.companyOverride.upsert({
+        where: { userId_companyId_field: { userId, companyId, field } },
+        create: { userId, companyId, field, value },
+        update: { value },
+      }));
+    }
+  }
+  if (writes.length > 0) await prisma.$transaction(writes);
+}
+
+/**
+ * Companies as `userId` sees them: their overrides applied on top of the
+ * shared data, plus the `overrides` map saying what was edited.
+ */
+export async function applyCompanyOverrides<T extends { id: string }>(
+  userId: string,
+  companies: T[],
+): Promise<(T & { overrides: Record<string, OverrideInfo> })[]> {
+  const ids = Array.from(new Set(companies.map(c => c.id)));
+  const rows = ids.length > 0
+    ? await prisma.companyOverride.findMany({
+        where: { userId, companyId: { in: ids } },
+        select: { companyId: true, field: true, value: true, updatedAt: true },
+      })
+    : [];
+
+  const byCompany = new Map<string, typeof rows>();
+  for (const row of rows) {
+    byCompany.set(row.companyId, [...(byCompany.get(row.companyId) ?? []), row]);
+  }
+
+  return companies.map(company => {
+    const merged: Record<string, unknown> = { ...company };
+    const overrides: Record<string, OverrideInfo> = {};
+    for (const row of byCompany.get(company.id) ?? []) {
+      overrides[row.field] = { original: merged[row.field] ?? null, updatedAt: row.updatedAt };
+      merged[row.field] = row.value;
+    }
+    return { ...(merged as T), overrides };
+  });
+}
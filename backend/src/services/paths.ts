@@ -0,0 +1,256 @@
+import prisma from '../lib/prisma.js';
+import { computeStrength, strengthLabel, type StrengthLabel } from './strength.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface PathTarget {
+  domain?: string;
+  email?: string;
+}
+
+export interface PathPerson {
+  id: string;
+  name: string;
+  avatar: string | null;
+}
+
+export interface PathContact {
+  id: string;
+  /** Abbreviated unless it's the viewer's own contact */
+  name: string;
+  title: string | null;
+  companyName: string | null;
+  companyDomain: string | null;
+}
+
+export type HopKind = 'contact' | 'connection' | 'space';
+
+export interface PathHop {
+  kind: HopKind;
+  /** 0–1; a path's score is the product of its hops */
+  strength: number;
+  label: StrengthLabel;
+  evidence: string[];
+}
+
+export interface WarmPath {
+  /** 0–100 */
+  score: number;
+  /** null when the viewer knows the contact themselves */
+  intermediary: PathPerson | null;
+  contact: PathContact;
+  /** me → intermediary (if any), then → contact */
+  hops: PathHop[];
+  connectionId: string | null;
+  spaces: { id: string; name: string; emoji: string }[];
+}
+
+// ─── Tie strength ────────────────────────────────────────────────────────────
+
+// How much we trust an intro from someone we're only tied to through the app
+const CONNECTION_TIE = 0.9;
+const SPACE_TIE = 0.6;
+const EXTRA_SPACE_TIE = 0.1;
+const MAX_SPACE_TIE = 0.8;
+
+function abbreviateName(fullName: string): string {
+  const parts = fullName.trim().split(/\s+/);
+  if (parts.length <= 1) return fullName;
+  return `${parts[0]} ${parts[parts.length - 1][0]}.`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// Other members' meeting dates stay private, so their recency is bucketed
+function recencyBucket(lastSeenAt: Date, now: Date): string {
+  const days = (now.getTime() - lastSeenAt.getTime()) / (1000 * 60 * 60 * 24);
+  if (days <= 30) return 'Met in the last month';
+  if (days <= 90) return 'Met in the last 3 months';
+  if (days <= 365) return 'Met in the last year';
+  return 'Last met over a year ago';
+}
+
+function groupMeetings<T extends { contactId: string }>(meetings: T[]): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const m of meetings) {
+    const list = map.get(m.contactId) || [];
+    list.push(m);
+    map.set(m.contactId, list);
+  }
+  return map;
+}
+
+// ─── Path finding ────────────────────────────────────────────────────────────
+
+/**
+ * Warm paths from `userId` to a company (by domain) or a person (by email):
+ * their own contacts, and contacts of everyone they share an accepted 1:1
+ * connection or a space with. Only people the viewer is tied to are
+ * traversed, so nobody's network is exposed to strangers. Paths are ranked
+ * by the product of hop strengths, best first.
+ */
+export async function findWarmPaths(userId: string, target: PathTarget, now = new Date()): Promise<WarmPath[]> {
+  const email = target.email?.trim().toLowerCase() || null;
+  const company = target.domain
+    ? await prisma.company.findUnique({ where: { domain: target.domain.trim().toLowerCase() }, select: { id: true } })
+    : null;
+  if (!email && !company) return [];
+
+  // People the viewer can reach: accepted connections and co-members of their spaces
+  const [connections, memberships] = await Promise.all([
+    prisma.directConnection.findMany({
+      where: { status: 'accepted', OR: [{ fromUserId: userId }, { toUserId: userId }] },
+      select: { id: true, fromUserId: true, toUserId: true, updatedAt: true },
+    }),
+    prisma.spaceMember.findMany({
+      where: { userId, status: 'approved' },
+      select: {
+        space: {
+          select: {
+            id: true, name: true, emoji: true,
+            members: { where: { status: 'approved', userId: { not: userId } }, select: { userId: true } },
+          },
+        },
+      },
+    }),
+  ]);
+
+  const connectionByPeer = new Map<string, { id: string; since: Date }>();
+  for (const c of connections) {
+    connectionByPeer.set(c.fromUserId === userId ? c.toUserId : c.fromUserId, { id: c.id, since: c.updatedAt });
+  }
+  const spacesByPeer = new Map<string, { id: string; name: string; emoji: string }[]>();
+  for (const { space } of memberships) {
+    for (const m of space.members) {
+      const list = spacesByPeer.get(m.userId) || [];
+      list.push({ id: space.id, name: space.name, emoji: space.emoji });
+      spacesByPeer.set(m.userId, list);
+    }
+  }
+  const peerIds = Array.from(new Set([...connectionByPeer.keys(), ...spacesByPeer.keys()]));
+
+  const targetFilter = [
+    ...(company ? [{ companyId: company.id }] : []),
+    ...(email ? [{ email }] : []),
+  ];
+  const [contacts, peers] = await Promise.all([
+    prisma.contact.findMany({
+      where: {
+        OR: targetFilter,
+        AND: [{ OR: [{ userId }, { userId: { in: peerIds }, isApproved: true }] }],
+      },
+      select: {
+        id: true, userId: true, name: true, email: true, title: true, meetingsCount: true, lastSeenAt: true,
+        company: { select: { name: true, domain: true } },
+      },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: peerIds } },
+      select: { id: true, name: true, avatar: true, email: true },
+    }),
+  ]);
+  if (contacts.length === 0) return [];
+
+  const peerById = new Map(peers.map(p => [p.id, p]));
+
+  // The viewer's own history with each intermediary, if they've met
+  const intermediaryIds = new Set(contacts.filter(c => c.userId !== userId).map(c => c.userId));
+  const intermediaryEmails = peers.filter(p => intermediaryIds.has(p.id)).map(p => p.email.toLowerCase());
+  const myContactsWithPeers = intermediaryEmails.length > 0
+    ? await prisma.contact.findMany({
+        where: { userId, email: { in: intermediaryEmails } },
+        select: { id: true, email: true, meetingsCount: true, lastSeenAt: true },
+      })
+    : [];
+
+  const meetingSelect = { contactId: true, googleEventId: true, date: true, duration: true, attendeeCount: true, organizedByUser: true } as const;
+  const meetings = await prisma.meeting.findMany({
+    where: { contactId: { in: [...contacts.map(c => c.id), ...myContactsWithPeers.map(c => c.id)] }, date: { lte: now } },
+    select: meetingSelect,
+  });
+  const meetingsByContact = groupMeetings(meetings);
+  const scoreOf = (contactId: string) => computeStrength(meetingsByContact.get(contactId) || [], undefined, now).score;
+
+  const myTieByEmail = new Map(myContactsWithPeers.map(c => [c.email.toLowerCase(), c]));
+
+  const paths: WarmPath[] = [];
+  for (const contact of contacts) {
+    const isMine = contact.userId === userId;
+    const contactScore = scoreOf(contact.id);
+    const rawName = contact.name || contact.email.split('@')[0];
+
+    const contactHop: PathHop = {
+      kind: 'contact',
+      strength: contactScore / 100,
+      label: strengthLabel(contactScore),
+      evidence: isMine
+        ? [
+            `You've met ${contact.meetingsCount} time${contact.meetingsCount === 1 ? '' : 's'}, most recently ${formatDate(contact.lastSeenAt)}`,
+            `Strength ${contactScore}/100`,
+          ]
+        : [`${strengthLabel(contactScore)} relationship (${contactScore}/100)`, recencyBucket(contact.lastSeenAt, now)],
+    };
+    if (contact.title) contactHop.evidence.push(contact.title);
+
+    const pathContact: PathContact = {
+      id: contact.id,
+      name: isMine ? rawName : abbreviateName(rawName),
+      title: contact.title,
+      companyName: contact.company?.name || null,
+      companyDomain: contact.company?.domain || null,
+    };
+
+    if (isMine) {
+      paths.push({
+        score: contactScore,
+        intermediary: null,
+        contact: pathContact,
+        hops: [contactHop],
+        connectionId: null,
+        spaces: [],
+      });
+      continue;
+    }
+
+    const peer = peerById.get(contact.userId);
+    if (!peer) continue;
+    const connection = connectionByPeer.get(peer.id) || null;
+    const sharedSpaces = spacesByPeer.get(peer.id) || [];
+
+    let tie = 0;
+    const tieEvidence: string[] = [];
+    let tieKind: HopKind = 'space';
+    if (connection) {
+      tie = CONNECTION_TIE;
+      tieKind = 'connection';
+      tieEvidence.push(`Connected since ${formatDate(connection.since)}`);
+    }
+    if (sharedSpaces.length > 0) {
+      tie = Math.max(tie, Math.min(MAX_SPACE_TIE, SPACE_TIE + EXTRA_SPACE_TIE * (sharedSpaces.length - 1)));
+      tieEvidence.push(`Both in ${sharedSpaces.map(s => `${s.emoji} ${s.name}`).join(', ')}`);
+    }
+    const myTie = myTieByEmail.get(peer.email.toLowerCase());
+    if (myTie) {
+      const metScore = scoreOf(myTie.id);
+      tie = Math.max(tie, metScore / 100);
+      tieEvidence.push(`You've met ${myTie.meetingsCount} time${myTie.meetingsCount === 1 ? '' : 's'}, most recently ${formatDate(myTie.lastSeenAt)}`);
+    }
+
+    paths.push({
+      score: Math.round(tie * contactHop.strength * 100),
+      intermediary: { id: peer.id, name: peer.name, avatar: peer.avatar },
+      contact: pathContact,
+      hops: [
+        { kind: tieKind, strength: tie, label: strengthLabel(tie * 100), evidence: tieEvidence },
+        contactHop,
+      ],
+      connectionId: connection?.id || null,
+      spaces: sharedSpaces,
+    });
+  }
+
+  // Shorter paths win ties: knowing someone yourself beats asking a friend
+  return paths.sort((a, b) => b.score - a.score || a.hops.length - b.hops.length);
+}
@@ -0,0 +1,210 @@
+import prisma from '../lib/prisma.js';
+import { embedQuery, THRESHOLD_PRESETS } from '../routes/embeddings.js';
+import { isAiConfigured } from './aiProvider.js';
+import { createParams, NETWORK_CTE } from './search.js';
+import { RRF_K, CANDIDATES_PER_RANKING } from './hybridSearch.js';
+
+/**
+ * Free-text search for people in the user's network, ranked the same way as
+ * services/hybridSearch.ts ranks companies:
+ *
+ * - lexical: full-text search over the contact's title (weighted highest),
+ *   headline, and the name and industry of their company.
+ * - semantic: cosine similarity between the query's embedding and the
+ *   contact's, built from title, headline, company, location and the titles
+ *   of recent meetings (routes/embeddings.ts).
+ *
+ * Other users' contacts only take part through what they share: their title
+ * and company. Their headline, meetings and embedding are never read, so the
+ * semantic ranking covers the user's own contacts only.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface PeopleSearchQuery {
+  query: string;
+  /** 1 (wide) to 3 (strict); sets the minimum similarity */
+  precision?: number;
+  limit?: number;
+}
+
+export type PersonLexicalField = 'title' | 'headline' | 'company';
+
+export interface PersonMatchExplanation {
+  lexical: { rank: number; score: number; fields: PersonLexicalField[] } | null;
+  semantic: { rank: number; similarity: number } | null;
+  /** The above as short sentences, for display */
+  reasons: string[];
+}
+
+export interface PeopleSearchResult {
+  id: string;
+  /** Whether this is the user's own contact rather than one reached through their network */
+  mine: boolean;
+  title: string | null;
+  companyDomain: string;
+  companyName: string;
+  score: number;
+  explanation: PersonMatchExplanation;
+}
+
+const FIELD_LABELS: Record<PersonLexicalField, string> = {
+  title: 'title',
+  headline: 'headline',
+  company: 'company',
+};
+
+function reasonsFor(explanation: Omit<PersonMatchExplanation, 'reasons'>): string[] {
+  const reasons: string[] = [];
+  const { lexical, semantic } = explanation;
+  if (lexical && lexical.fields.length > 0) {
+    reasons.push(`Keyword match in ${lexical.fields.map(f => FIELD_LABELS[f]).join(', ')}`);
+  }
+  if (semantic) reasons.push(`Similar in meaning (${Math.round(semantic.similarity * 100)}%)`);
+  return reasons;
+}
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+interface FusedPersonRow {
+  id: string;
+  mine: boolean;
+  title: string | null;
+  companyDomain: string;
+  companyName: string;
+  score: number;
+  lexicalRank: bigint | null;
+  lexicalScore: number | null;
+  semanticRank: bigint | null;
+  similarity: number | null;
+  inTitle: boolean;
+  inHeadline: boolean;
+  inCompany: boolean;
+}
+
+/**
+ * People `userId` reaches that match `search`, best first. The semantic
+ * ranking is skipped (lexical only) when embeddings aren't configured.
+ */
+export async function searchPeople(
+  userId: string,
+  search: PeopleSearchQuery,
+): Promise<{ results: PeopleSearchResult[]; threshold: number; semantic: boolean }> {
+  const precision = Math.min(3, Math.max(1, Math.round(search.precision ?? 2)));
+  const threshold = THRESHOLD_PRESETS[precision];
+  const limit = Math.min(Math.max(1, search.limit ?? 100), 500);
+
+  const params = createParams();
+  params.add(userId);
+  const tsQuery = params.add(search.query);
+
+  let semanticSql = `SELECT NULL::text AS id, NULL::float8 AS similarity, NULL::bigint AS rank WHERE FALSE`;
+  let semantic = false;
+  if (isAiConfigured()) {
+    try {
+      const vector = params.add(await embedQuery(search.query));
+      semanticSql = `
+        SELECT c.id, 1 - (c.embedding <=> ${vector}::vector) AS similarity,
+               ROW_NUMBER() OVER (ORDER BY c.embedding <=> ${vector}::vector, c.id) AS rank
+        FROM contacts c
+        WHERE c."userId" = $1 AND c."isApproved" AND c."companyId" IS NOT NULL
+          AND c.embedding IS NOT NULL AND 1 - (c.embedding <=> ${vector}::vector) >= ${params.add(threshold)}
+        ORDER BY rank
+        LIMIT ${CANDIDATES_PER_RANKING}`;
+      semantic = true;
+    } catch (err: any) {
+      console.error('[search] Query embedding failed, using keywords only:', err.message);
+    }
+  }
+
+  // Own contacts first so DISTINCT ON keeps them when a space also reaches them
+  const rows = await prisma.$queryRawUnsafe<FusedPersonRow[]>(
+    `WITH ${NETWORK_CTE},
+    reach AS (
+      SELECT c.id, TRUE AS mine, c.title, c.headline, c."companyId"
+      FROM contacts c
+      WHERE c."userId" = $1 AND c."isApproved" AND c."companyId" IS NOT NULL
+      UNION ALL
+      SELECT c.id, FALSE, c.title, NULL, c."companyId"
+      FROM my_spaces s
+      JOIN pod_members pm ON pm."podId" = s."spaceId" AND pm.status = 'approved' AND pm."userId" <> $1
+      JOIN contacts c ON c."userId" = pm."userId" AND c."isApproved" AND c."companyId" IS NOT NULL
+      UNION ALL
+      SELECT c.id, FALSE, c.title, NULL, c."companyId"
+      FROM peers p
+      JOIN contacts c ON c."userId" = p."userId" AND c."isApproved" AND c."companyId" IS NOT NULL
+    ),
+    people AS (
+      SELECT DISTINCT ON (r.id) r.id, r.mine, r.title, r.headline, co.domain, co.name AS "companyName", co.industry
+      FROM reach r
+      JOIN companies co ON co.id = r."companyId"
+      ORDER BY r.id, r.mine DESC
+    ),
+    q AS (SELECT NULLIF(replace(plainto_tsquery('english', ${tsQuery})::text, ' & ', ' | '), '')::tsquery AS query),
+    docs AS (
+      SELECT p.id,
+             setweight(to_tsvector('english', COALESCE(p.title, '')), 'A') ||
+             setweight(to_tsvector('english', COALESCE(p.headline, '')), 'B') ||
+             setweight(to_tsvector('english', concat_ws(' ', p."companyName", p.industry)), 'C') AS doc
+      FROM people p
+    ),
+    lexical AS (
+      SELECT d.id, ts_rank_cd(d.doc, q.query) AS score,
+             ROW_NUMBER() OVER (ORDER BY ts_rank_cd(d.doc, q.query) DESC, d.id) AS rank
+      FROM docs d, q
+      WHERE d.doc @@ q.query
+      ORDER BY rank
+      LIMIT ${CANDIDATES_PER_RANKING}
+    ),
+    semantic AS (${semanticSql}),
+    fused AS (
+      SELECT COALESCE(l.id, s.id) AS id,
+             COALESCE(1.0 / (${RRF_K} + l.rank), 0) + COALESCE(1.0 / (${RRF_K} + s.rank), 0) AS score,
+             l.rank AS "lexicalRank", l.score AS "lexicalScore", s.rank AS "semanticRank", s.similarity
+      FROM lexical l
+      FULL OUTER JOIN semantic s ON s.id = l.id
+      ORDER BY score DESC, id
+      LIMIT ${params.add(limit)}
+    )
+    SELECT f.id, p.mine, p.title, p.domain AS "companyDomain", p."companyName", f.score::float8 AS score,
+           f."lexicalRank", f."lexicalScore"::float8 AS "lexicalScore", f."semanticRank", f.similarity::float8 AS similarity,
+           COALESCE(to_tsvector('english', COALESCE(p.title, '')) @@ q.query, FALSE) AS "inTitle",
+           COALESCE(to_tsvector('english', COALESCE(p.headline, '')) @@ q.query, FALSE) AS "inHeadline",
+           COALESCE(to_tsvector('english', concat_ws(' ', p."companyName", p.industry)) @@ q.query, FALSE) AS "inCompany"
+    FROM fused f
+    JOIN people p ON p.id = f.id
+    CROSS JOIN q
+    ORDER BY f.score DESC, p.id`,
+    ...params.values,
+  );
+
+  const results = rows.map(row => {
+    const fields: PersonLexicalField[] = [];
+    if (row.inTitle) fields.push('title');
+    if (row.inHeadline) fields.push('headline');
+    if (row.inCompany) fields.push('company');
+
+    const explanation = {
+      lexical: row.lexicalRank === null ? null : {
+        rank: Number(row.lexicalRank),
+        score: Math.round(Number(row.lexicalScore) * 1000) / 1000,
+        fields,
+      },
+      semantic: row.semanticRank === null ? null : {
+        rank: Number(row.semanticRank),
+        similarity: Math.round(Number(row.similarity) * 1000) / 1000,
+      },
+    };
+    return {
+      id: row.id,
+      mine: row.mine,
+      title: row.title,
+      companyDomain: row.companyDomain,
+      companyName: row.companyName,
+      score: Math.round(row.score * 10000) / 10000,
+      explanation: { ...explanation, reasons: reasonsFor(explanation) },
+    };
+  });
+
+  return { results, threshold, semantic };
+}
@@ -103,3 +103,107 @@ export async function getCommunityStats() {
     contacts: contactsCount,
   };
 }
+
+export interface MeetingAttendee {
+  contactId: string;
+  name: string | null;
+  email: string;
+  title: string | null;
+  companyName: string | null;
+  companyDomain: string | null;
+}
+
+export interface MeetingTimelineEntry {
+  id: string;
+  googleEventId: string | null;
+  title: string;
+  date: Date;
+  duration: number | null;
+  description: string | null;
+  attendees: MeetingAttendee[];
+}
+
+/**
+ * A user's past meetings with a contact (or with anyone at a company), one
+ * entry per calendar event, newest first. Each entry lists every contact of
+ * the user who attended that same event, so callers can show co-presence.
+ */
+export async function getMeetingTimeline(
+  userId: string,
+  scope: { contactId: string } | { companyId: string },
+  page: { skip: number; limit: number },
+): Promise<{ entries: MeetingTimelineEntry[]; total: number }> {
+  const scopeClause = 'contactId' in scope ? `c.id = $2` : `c."companyId" = $2`;
+  const scopeValue = 'contactId' in scope ? scope.contactId : scope.companyId;
+
+  // Meetings are stored once per attendee; an event is identified by its Google
+  // event ID (legacy rows without one stand alone)
+  const [keys, counted] = await Promise.all([
+    prisma.$queryRawUnsafe<{ eventKey: string; date: Date }[]>(
+      `SELECT COALESCE(m."googleEventId", m.id) AS "eventKey", MAX(m.date) AS date
+       FROM meetings m
+       JOIN contacts c ON c.id = m."contactId"
+       WHERE c."userId" = $1 AND ${scopeClause} AND m.date <= NOW()
+       GROUP BY 1
+       ORDER BY 2 DESC
+       LIMIT $3 OFFSET $4`,
+      userId, scopeValue, page.limit, page.skip,
+    ),
+    prisma.$queryRawUnsafe<{ total: bigint }[]>(
+      `SELECT COUNT(DISTINCT COALESCE(m."googleEventId", m.id)) AS total
+       FROM meetings m
+       JOIN contacts c ON c.id = m."contactId"
+       WHERE c."userId" = $1 AND ${scopeClause} AND m.date <= NOW()`,
+      userId, scopeValue,
+    ),
+  ]);
+
+  const eventKeys = keys.map(k => k.eventKey);
+  const rows = eventKeys.length > 0
+    ? await prisma.meeting.findMany({
+        where: {
+          contact: { userId },
+          OR: [{ googleEventId: { in: eventKeys } }, { id: { in: eventKeys } }],
+        },
+        include: {
+          contact: {
+            select: {
+              id: true, name: true, email: true, title: true,
+              company: { select: { name: true, domain: true } },
+            },
+          },
+        },
+      })
+    : [];
+
+  const byKey = new Map<string, MeetingTimelineEntry>();
+  for (const row of rows) {
+    const key = row.googleEventId || row.id;
+    let entry = byKey.get(key);
+    if (!entry) {
+      entry = {
+        id: row.id,
+        googleEventId: row.googleEventId,
+        title: row.title,
+        date: row.date,
+        duration: row.duration,
+        description: row.description,
+        attendees: [],
+      };
+      byKey.set(key, entry);
+    }
+    entry.attendees.push({
+      contactId: row.contact.id,
+      name: row.contact.name,
+      email: row.contact.email,
+      title: row.contact.title,
+      companyName: row.contact.company?.name ?? null,
+      companyDomain: row.contact.company?.domain ?? null,
+    });
+  }
+
+  return {
+    entries: eventKeys.map(k => byKey.get(k)).filter((e): e is MeetingTimelineEntry => !!e),
+    total: Number(counted[0]?.total ?? 0),
+  };
+}
@@ -0,0 +1,92 @@
+import prisma from '../lib/prisma.js';
+
+// ─── Structured fields ───────────────────────────────────────────────────────
+
+export const REQUEST_URGENCIES = ['low', 'normal', 'high'] as const;
+export type RequestUrgency = (typeof REQUEST_URGENCIES)[number];
+
+/** The structured parts of an ask, alongside the free-form rawText */
+export interface RequestDetails {
+  targetName?: string | null;
+  targetRole?: string | null;
+  reason?: string | null;
+  context?: string | null;
+  urgency?: RequestUrgency | null;
+  deadline?: Date | null;
+  desiredOutcome?: string | null;
+  forwardableBlurb?: string | null;
+}
+
+/** Fields a template can prefill (a template never names a specific person or date) */
+export const TEMPLATE_FIELDS = ['rawText', 'targetRole', 'reason', 'context', 'urgency', 'desiredOutcome', 'forwardableBlurb'] as const;
+
+function formatDeadline(deadline: Date): string {
+  return deadline.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * A short, self-contained note an introducer can forward to their contact as
+ * is. Returns null when there's nothing structured to build it from.
+ */
+export function composeForwardableBlurb(
+  details: RequestDetails,
+  meta: { requesterName: string; companyName: string },
+): string | null {
+  const { targetName, targetRole, reason, context, urgency, deadline, desiredOutcome } = details;
+  if (!targetName && !targetRole && !reason && !context && !desiredOutcome) return null;
+
+  const target = targetName
+    ? `${targetName}${targetRole ? ` (${targetRole})` : ''}`
+    : targetRole
+      ? `the ${targetRole}`
+      : 'the right person';
+  const lines = [`${meta.requesterName} would like an intro to ${target} at ${meta.companyName}.`];
+  if (context) lines.push(`About ${meta.requesterName}: ${context}`);
+  if (reason) lines.push(`Why: ${reason}`);
+  if (desiredOutcome) lines.push(`Hoping for: ${desiredOutcome}`);
+  if (deadline) lines.push(`Timing: ideally before ${formatDeadline(deadline)}.`);
+  else if (urgency === 'high') lines.push('Timing: this is time-sensitive.');
+  return lines.join('\n');
+}
+
+// ─── Templates ───────────────────────────────────────────────────────────────
+
+/**
+ * Templates the user can apply: their own personal ones plus those shared
+ * with spaces they're an approved member of. Pass spaceId to narrow the
+ * shared ones to a single space.
+ */
+export async function listUsableTemplates(userId: string, spaceId?: string) {
+  const memberships = await prisma.spaceMember.findMany({
+    where: { userId, status: 'approved', ...(spaceId ? { spaceId } : {}) },
+    select: { spaceId: true },
+  });
+  return prisma.introRequestTemplate.findMany({
+    where: {
+      OR: [
+        { userId, spaceId: null },
+        { spaceId: { in: memberships.map(m => m.spaceId) } },
+      ],
+    },
+    include: { space: { select: { id: true, name: true, emoji: true } } },
+    orderBy: [{ spaceId: 'asc' }, { name: 'asc' }],
+  });
+}
+
+/** The template if the user may apply it, otherwise null */
+export async function findUsableTemplate(userId: string, templateId: string) {
+  const template = await prisma.introRequestTemplate.findUnique({ where: { id: templateId } });
+  if (!template) return null;
+  if (!template.spaceId) return template.userId === userId ? template : null;
+  const membership = await prisma.spaceMember.findUnique({
+    where: { spaceId_userId: { spaceId: template.spaceId, userId } },
+  });
+  return membership?.status === 'approved' ? template : null;
+}
+
+/** Personal templates belong to their author; space templates to the space owner */
+export async function canManageTemplate(userId: string, template: { userId: string; spaceId: string | null }): Promise<boolean> {
+  if (!template.spaceId) return template.userId === userId;
+  const space = await prisma.space.findUnique({ where: { id: template.spaceId }, select: { ownerId: true } });
+  return space?.ownerId === userId;
+}
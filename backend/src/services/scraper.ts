@@ -1,6 +1,8 @@
-import OpenAI from 'openai';
 import prisma from '../lib/prisma.js';
-import { embedCompany } from '../routes/embeddings.js';
+import { queueCompanyEmbedding } from '../routes/embeddings.js';
+import { enqueueJob, registerJobHandler } from './jobs.js';
+import { withFieldSource } from './enrichmentProviders.js';
+import { chat, isAiConfigured } from './aiProvider.js';
 
 const APIFY_BASE = 'https://api.apify.com/v2';
 const ACTOR_ID = 'apify~website-content-crawler';
@@ -20,12 +22,6 @@ const EMAIL_PROVIDER_DOMAINS = new Set([
   't-online.de', 'qq.com', '163.com', '126.com',
 ]);
 
-let _openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!_openai) _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  return _openai;
-}
-
 function getApifyToken(): string {
   const token = process.env.APIFY_API_TOKEN;
   if (!token) throw new Error('APIFY_API_TOKEN is not configured');
@@ -75,17 +71,17 @@ export async function scrapeWebsite(url: string): Promise<string | null> {
   return runApifyCrawl(url, 'cheerio');
 }
 
-// Summarize scraped website content using GPT-4o-mini
+// Summarize scraped website content with the configured chat model
 export async function summarizeWebsite(
   content: string,
   companyName: string,
 ): Promise<string | null> {
-  if (!process.env.OPENAI_API_KEY) return null;
+  if (!isAiConfigured()) return null;
 
-  const response = await getOpenAI().chat.completions.create({
-    model: 'gpt-4o-mini',
+  const summary = await chat({
+    purpose: 'summarize-website',
     temperature: 0.3,
-    max_tokens: 600,
+    maxTokens: 600,
     messages: [
       {
         role: 'system',
@@ -99,7 +95,7 @@ export async function summarizeWebsite(
     ],
   });
 
-  return response.choices[0]?.message?.content?.trim() || null;
+  return summary?.trim() || null;
 }
 
 // Full pipeline: scrape -> summarize -> save -> re-embed
@@ -148,14 +144,19 @@ export async function scrapeAndSummarizeCompany(company: {
       return false;
     }
 
+    const current = await prisma.company.findUnique({ where: { id: company.id }, select: { fieldSources: true } });
     await prisma.company.update({
       where: { id: company.id },
-      data: { websiteSummary: summary, scrapedAt: new Date() },
+      data: {
+        websiteSummary: summary,
+        scrapedAt: new Date(),
+        fieldSources: withFieldSource(current?.fieldSources, 'websiteSummary', 'website'),
+      },
     });
 
     // Re-embed with the new summary data
-    embedCompany(company.id, { ...company, websiteSummary: summary }).catch(err =>
-      console.error(`[scraper] Re-embed failed for ${company.domain}:`, err.message),
+    queueCompanyEmbedding(company.id).catch(err =>
+      console.error(`[scraper] Failed to queue re-embed for ${company.domain}:`, err.message),
     );
 
     console.log(`[scraper] Done: ${company.domain} (${summary.length} char summary)`);
@@ -167,6 +168,23 @@ export async function scrapeAndSummarizeCompany(company: {
   }
 }
 
+// ─── Scrape jobs ─────────────────────────────────────────────────────────────
+
+registerJobHandler('scrape_company', async (job) => {
+  const { companyId } = job.payload as { companyId: string };
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { id: true, domain: true, name: true, websiteUrl: true, description: true, industry: true, city: true, country: true },
+  });
+  if (!company) return { skipped: 'Company no longer exists' };
+  return { summarized: await scrapeAndSummarizeCompany(company) };
+}, { maxAttempts: 2 });
+
+/** Scrape and summarize a company's website in the background */
+export function queueCompanyScrape(companyId: string) {
+  return enqueueJob('scrape_company', { companyId }, { dedupeKey: `scrape_company:${companyId}` });
+}
+
 // Batch-scrape all companies that haven't been scraped yet
 export async function scrapeUnscrapedCompanies(
   onProgress?: (scraped: number, total: number) => void,
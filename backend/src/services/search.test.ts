@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createFakePrisma, type FakePrisma } from '../test/fakePrisma.js';
+
+const db = vi.hoisted(() => ({ current: null as FakePrisma | null }));
+
+vi.mock('../lib/prisma.js', () => ({
+  default: new Proxy({}, { get: (_target, prop) => db.current!.client[prop] }),
+}));
+
+import { buildFilteredCte, searchCompanies, type SearchQuery } from './search.js';
+
+const USER_ID = 'user_1';
+
+interface RawCall {
+  sql: string;
+  values: unknown[];
+}
+
+let calls: RawCall[];
+let summary: { total: number; facets: { facet: string; value: string; count: number }[]; groups: unknown };
+let pageRows: Record<string, unknown>[];
+
+/** The one facet's SELECT out of the summary query */
+function facetSelect(sql: string, facet: string): string {
+  const start = sql.indexOf(`SELECT '${facet}' AS facet`);
+  return sql.slice(start, sql.indexOf('GROUP BY v', start));
+}
+
+/** The `$n` placeholder a value was bound to */
+function placeholder(values: unknown[], value: unknown): string {
+  return `$${values.findIndex(v => JSON.stringify(v) === JSON.stringify(value)) + 1}`;
+}
+
+async function search(query: SearchQuery, page = { skip: 0, limit: 50 }) {
+  const result = await searchCompanies(USER_ID, query, page);
+  const [pageCall, summaryCall] = calls;
+  return { result, pageCall, summaryCall };
+}
+
+beforeEach(() => {
+  db.current = createFakePrisma();
+  calls = [];
+  summary = { total: 0, facets: [], groups: null };
+  pageRows = [];
+  db.current.client.$queryRawUnsafe = async (sql: string, ...values: unknown[]) => {
+    calls.push({ sql, values });
+    return sql.includes('AS total') ? [summary] : pageRows;
+  };
+});
+
+describe('filter conditions', () => {
+  it('filters nothing when no filters are given or they are all blank', () => {
+    for (const query of [
+      {},
+      { filters: {}, keywords: [], excludeKeywords: [], query: '' },
+      {
+        filters: {
+          description: '  ', employeeRanges: [], fundingRounds: [' '], country: ' ', city: '',
+          sourceFilter: 'all', strengthFilter: 'all', fundingRecency: 'any', foundedFrom: '', connectedYears: ['x'],
+        },
+        keywords: ['', '  '],
+        query: '   ',
+      },
+    ] satisfies SearchQuery[]) {
+      const { params, facets, sql } = buildFilteredCte(USER_ID, query);
+
+      expect(params.values).toEqual([USER_ID]);
+      expect(facets).toEqual({});
+      expect(sql).toMatch(/filtered AS \(SELECT \* FROM seen WHERE TRUE\)$/);
+    }
+  });
+
+  it('binds every value as a parameter and escapes LIKE wildcards', () => {
+    const { params, sql } = buildFilteredCte(USER_ID, {
+      filters: { city: "St. John's", technologies: ['Node_JS'] },
+      keywords: ['100%', 'a\\b'],
+      query: "o'brien_%",
+    });
+
+    expect(params.values).toEqual([
+      USER_ID,
+      "%St. John's%",
+      ['%node\\_js%'],
+      ['%100\\%%', '%a\\\\b%'],
+      "%o'brien\\_\\%%",
+    ]);
+    expect(sql).toContain(`city ILIKE $2`);
+    expect(sql).toContain(`technologies ILIKE ANY($3::text[]) OR description ILIKE ANY($3::text[])`);
+    expect(sql).toContain(`ILIKE ANY($4::text[])`);
+    expect(sql).toContain(`(name ILIKE $5 OR domain ILIKE $5)`);
+    for (const text of ["John's", 'node', '100%', "o'brien"]) expect(sql).not.toContain(text);
+  });
+
+  it('trims, lowercases and dedupes list filters, and uses the description when there are no keywords', () => {
+    const { params } = buildFilteredCte(USER_ID, {
+      filters: { fundingRounds: ['Series-A', 'series-a ', ''], description: 'Fintech' },
+    });
+    expect(params.values).toEqual([USER_ID, ['series-a'], ['%fintech%']]);
+
+    expect(buildFilteredCte(USER_ID, { filters: { description: 'Fintech' }, keywords: ['payments'] }).params.values)
+      .toEqual([USER_ID, ['%payments%']]);
+  });
+
+  it('keeps filters that have a facet out of the shared WHERE', () => {
+    const { facets, sql } = buildFilteredCte(USER_ID, {
+      filters: { strengthFilter: 'strong', spaceId: 'space_1', tagInclude: ['vip'], tagExclude: ['churned'], foundedFrom: 2015 },
+    });
+
+    expect(Object.keys(facets).sort()).toEqual(['space', 'strength', 'tag']);
+    expect(facets.strength).toBe('strength = $2');
+    expect(facets.space).toBe('$3 = ANY("spaceIds")');
+    expect(facets.tag).toBe('tags && $4::text[] AND NOT (tags && $5::text[])');
+    expect(sql).toMatch(/filtered AS \(SELECT \* FROM seen WHERE \("foundedYear" >= \$6\)\)$/);
+  });
+});
+
+describe('searchCompanies', () => {
+  it('counts each facet with every filter but its own', async () => {
+    const { summaryCall } = await search({ filters: { strengthFilter: 'strong', employeeRanges: ['11-50'] } });
+    const { sql, values } = summaryCall;
+    const strength = placeholder(values, 'strong');
+    const employees = placeholder(values, ['11-50']);
+
+    expect(facetSelect(sql, 'strength')).not.toContain(`strength = ${strength}`);
+    expect(facetSelect(sql, 'strength')).toContain(`&& ${employees}::text[]`);
+    expect(facetSelect(sql, 'employees')).toContain(`strength = ${strength}`);
+    expect(facetSelect(sql, 'employees')).not.toContain(`${employees}::text[]`);
+    expect(facetSelect(sql, 'country')).toContain(`strength = ${strength}`);
+    expect(facetSelect(sql, 'country')).toContain(`&& ${employees}::text[]`);
+    // The total applies all of them
+    expect(sql).toMatch(new RegExp(`FROM filtered WHERE \\(.*strength = \\${strength}.*\\) AS total`, 's'));
+  });
+
+  it('pages with bound LIMIT and OFFSET values', async () => {
+    const { pageCall, summaryCall } = await search({}, { skip: 100, limit: 50 });
+
+    expect(pageCall.values).toEqual([USER_ID, 50, 100]);
+    expect(pageCall.sql).toContain('LIMIT $2 OFFSET $3');
+    // The totals don't depend on the page
+    expect(summaryCall.values).toEqual([USER_ID]);
+  });
+
+  it('puts exact name matches first by default, and follows sort rules otherwise', async () => {
+    const searched = await search({ query: 'Acme' });
+    expect(searched.pageCall.values).toEqual([USER_ID, '%Acme%', 'acme', 50, 0]);
+    expect(searched.pageCall.sql).toContain('(lower(name) = $3) DESC, "lastSeenAt" DESC NULLS LAST');
+
+    calls = [];
+    const sorted = await search({ query: 'Acme', sort: [{ field: 'employees', dir: 'desc' }] });
+    expect(sorted.pageCall.values).toEqual([USER_ID, '%Acme%', 50, 0]);
+    expect(sorted.pageCall.sql).toContain('COALESCE("employeeCount", 0) DESC NULLS LAST, lower(name) ASC, id ASC');
+  });
+
+  it('returns the page with reach, sorted facet counts and groups', async () => {
+    pageRows = [
+      { id: 'co_1', name: 'Acme', myCount: 2, spaceCount: 0, group: 'A' },
+      { id: 'co_2', name: 'Globex', myCount: 1, spaceCount: 3, group: 'G' },
+      { id: 'co_3', name: 'Initech', myCount: 0, spaceCount: 1, group: 'I' },
+    ];
+    summary = {
+      total: 3,
+      groups: [{ key: 'A', count: 1 }],
+      facets: [
+        { facet: 'strength', value: 'weak', count: 1 },
+        { facet: 'strength', value: 'strong', count: 2 },
+        { facet: 'source', value: 'mine', count: 2 },
+        ...Array.from({ length: 30 }, (_, i) => ({ facet: 'country', value: `country_${String(i).padStart(2, '0')}`, count: 1 })),
+      ],
+    };
+    db.current!.seed('companyOverride', [{ userId: USER_ID, companyId: 'co_1', field: 'name', value: 'Acme Corp' }]);
+
+    const { result } = await search({ groupBy: { field: 'name', dir: 'asc' } });
+
+    expect(result.total).toBe(3);
+    expect(result.groups).toEqual([{ key: 'A', count: 1 }]);
+    expect(result.companies.map(c => [c.name, c.source, c.totalCount, c.group])).toEqual([
+      ['Acme Corp', 'mine', 2, 'A'], ['Globex', 'both', 4, 'G'], ['Initech', 'space', 1, 'I'],
+    ]);
+    expect(result.companies[0].overrides.name).toMatchObject({ original: 'Acme' });
+    expect(result.facets.strength).toEqual([{ value: 'strong', count: 2 }, { value: 'weak', count: 1 }]);
+    expect(result.facets.country).toHaveLength(25);
+    expect(result.facets.tag).toEqual([]);
+  });
+});
@@ -0,0 +1,573 @@
+import prisma from '../lib/prisma.js';
+import { STRENGTH_THRESHOLDS, type StrengthLabel } from './strength.js';
+import { applyCompanyOverrides, type OverrideInfo } from './overrides.js';
+
+/**
+ * Company search for the network view, run in Postgres. It covers every
+ * company the user reaches through their own contacts, their spaces and their
+ * 1:1 connections. The filter model is the one `/api/ai/parse-query` returns,
+ * plus the sidebar's own filters. Results come back sorted, grouped and paged,
+ * with a count for each facet value.
+ *
+ * - Filters see the user's own company corrections (services/overrides.ts).
+ * - Strength is the user's relationship score, labelled like strengthLabel().
+ *   Companies the user only reaches through others are 'none'.
+ * - Keywords match company text, the titles of everyone's contacts there and
+ *   the names of the user's own contacts. Other people's contacts are shown
+ *   masked, so their names are not searchable.
+ * - A facet's counts apply every filter except its own, so the other options
+ *   still show what they would give.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const EMPLOYEE_RANGES = ['1-10', '11-50', '51-200', '201-1000', '1001-5000', '5000+'] as const;
+export const FUNDING_ROUNDS = ['no-funding', 'pre-seed', 'series-a', 'series-b', 'vc-backed'] as const;
+export const REVENUE_RANGES = ['0-1m', '1-10m', '10-50m', '50-100m', '100m+'] as const;
+export const SOURCE_FILTERS = ['all', 'mine', 'spaces', 'both'] as const;
+export const STRENGTH_FILTERS = ['all', 'strong', 'medium', 'weak'] as const;
+
+export const SORT_FIELDS = [
+  'name', 'contacts', 'strength', 'employees', 'location', 'industry', 'funding', 'tags', 'connectedSince', 'lastContactDate',
+] as const;
+// A company can carry several tags, so it can't be grouped by them
+export const GROUP_FIELDS = [
+  'name', 'contacts', 'strength', 'employees', 'location', 'industry', 'funding', 'connectedSince', 'lastContactDate',
+] as const;
+
+export const FACETS = ['strength', 'source', 'employees', 'funding', 'revenue', 'country', 'space', 'connection', 'tag'] as const;
+
+export type SortField = typeof SORT_FIELDS[number];
+export type GroupField = typeof GROUP_FIELDS[number];
+export type FacetKey = typeof FACETS[number];
+
+export interface SearchFilters {
+  description?: string;
+  employeeRanges?: string[];
+  country?: string;
+  city?: string;
+  fundingRounds?: string[];
+  foundedFrom?: string | number;
+  foundedTo?: string | number;
+  revenueRanges?: string[];
+  sourceFilter?: typeof SOURCE_FILTERS[number];
+  strengthFilter?: typeof STRENGTH_FILTERS[number];
+  // Sidebar filters the AI doesn't produce
+  fundingRecency?: 'any' | '6m' | '1y';
+  technologies?: string[];
+  spaceId?: string;
+  connectionId?: string;
+  tagInclude?: string[];
+  tagExclude?: string[];
+  /** Year or month (1–12) of the first meeting with any of the user's contacts there */
+  connectedYears?: (string | number)[];
+  connectedMonths?: (string | number)[];
+  /** Year or month (1–12) the user last met any of their contacts there */
+  lastContactYears?: (string | number)[];
+  lastContactMonths?: (string | number)[];
+}
+
+export interface SortRule<F extends string = SortField> {
+  field: F;
+  dir: 'asc' | 'desc';
+}
+
+export interface SearchQuery {
+  filters?: SearchFilters;
+  /** Match any of these; `filters.description` stands in when there are none */
+  keywords?: string[];
+  excludeKeywords?: string[];
+  /** Company name or domain, as typed in the search box */
+  query?: string;
+  sort?: SortRule[];
+  groupBy?: SortRule<GroupField> | null;
+}
+
+export interface SearchCompany {
+  id: string;
+  domain: string;
+  name: string;
+  logo: string | null;
+  industry: string | null;
+  description: string | null;
+  websiteSummary: string | null;
+  employeeCount: number | null;
+  foundedYear: number | null;
+  annualRevenue: string | null;
+  totalFunding: string | null;
+  lastFundingRound: string | null;
+  lastFundingDate: Date | null;
+  linkedinUrl: string | null;
+  websiteUrl: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  enrichedAt: Date | null;
+  myCount: number;
+  spaceCount: number;
+  totalCount: number;
+  source: 'mine' | 'space' | 'both';
+  strength: StrengthLabel;
+  strengthScore: number | null;
+  spaceIds: string[];
+  connectionIds: string[];
+  tags: string[];
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+  /** Key of the group the company falls in, when grouping */
+  group?: string | null;
+  overrides: Record<string, OverrideInfo>;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchGroup {
+  key: string | null;
+  count: number;
+}
+
+export interface SearchResult {
+  companies: SearchCompany[];
+  total: number;
+  groups: SearchGroup[] | null;
+  facets: Record<FacetKey, FacetCount[]>;
+}
+
+// Facets with open-ended values only list their most common ones
+const FACET_VALUE_LIMIT = 25;
+
+// ─── SQL pieces ──────────────────────────────────────────────────────────────
+
+/** Collects query parameters and hands out their `$n` placeholders */
+export function createParams() {
+  const values: unknown[] = [];
+  return {
+    values,
+    add(value: unknown): string {
+      values.push(value);
+      return `$${values.length}`;
+    },
+  };
+}
+
+type Params = ReturnType<typeof createParams>;
+
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, ch => `\\${ch}`)}%`;
+}
+
+function cleanList(values: string[] | undefined): string[] {
+  return Array.from(new Set((values ?? []).map(v => v.trim().toLowerCase()).filter(Boolean)));
+}
+
+function toInts(values: (string | number)[] | undefined): number[] {
+  return (values ?? []).map(v => parseInt(String(v), 10)).filter(Number.isFinite);
+}
+
+// The user's spaces and accepted connections. `$1` is the user.
+export const NETWORK_CTE = `
+  my_spaces AS (
+    SELECT "podId" AS "spaceId" FROM pod_members WHERE "userId" = $1 AND status = 'approved'
+  ),
+  peers AS (
+    SELECT id AS "connectionId", CASE WHEN "fromUserId" = $1 THEN "toUserId" ELSE "fromUserId" END AS "userId"
+    FROM direct_connections
+    WHERE status = 'accepted' AND $1 IN ("fromUserId", "toUserId")
+  )`;
+
+// Each company the user reaches, with counts, reach and dates. `$1` is the user.
+const COMPANIES_CTE = `${NETWORK_CTE},
+  reach AS (
+    SELECT c."companyId", c.id AS "contactId", TRUE AS mine, NULL::text AS "spaceId", NULL::text AS "connectionId",
+           c.title, c.name, c."lastSeenAt",
+           (SELECT MIN(m.date) FROM meetings m WHERE m."contactId" = c.id) AS "firstSeenAt"
+    FROM contacts c
+    WHERE c."userId" = $1 AND c."isApproved" AND c."companyId" IS NOT NULL
+    UNION ALL
+    SELECT c."companyId", c.id, FALSE, s."spaceId", NULL, c.title, NULL, NULL, NULL
+    FROM my_spaces s
+    JOIN pod_members pm ON pm."podId" = s."spaceId" AND pm.status = 'approved' AND pm."userId" <> $1
+    JOIN contacts c ON c."userId" = pm."userId" AND c."isApproved" AND c."companyId" IS NOT NULL
+    UNION ALL
+    SELECT c."companyId", c.id, FALSE, NULL, p."connectionId", c.title, NULL, NULL, NULL
+    FROM peers p
+    JOIN contacts c ON c."userId" = p."userId" AND c."isApproved" AND c."companyId" IS NOT NULL
+  ),
+  reached AS (
+    SELECT "companyId" AS id,
+           (COUNT(DISTINCT "contactId") FILTER (WHERE mine))::int AS "myCount",
+           (COUNT(DISTINCT "contactId") FILTER (WHERE NOT mine))::int AS "spaceCount",
+           COALESCE(ARRAY_AGG(DISTINCT "spaceId") FILTER (WHERE "spaceId" IS NOT NULL), '{}') AS "spaceIds",
+           COALESCE(ARRAY_AGG(DISTINCT "connectionId") FILTER (WHERE "connectionId" IS NOT NULL), '{}') AS "connectionIds",
+           MIN("firstSeenAt") AS "firstSeenAt",
+           MAX("lastSeenAt") AS "lastSeenAt",
+           string_agg(concat_ws(' ', title, name), ' ') AS people,
+           string_agg(title, ' ') AS titles
+    FROM reach
+    GROUP BY 1
+  ),
+  seen AS (
+    SELECT co.id, co.domain,
+           COALESCE(ov.v->>'name', co.name) AS name,
+           COALESCE(ov.v->>'industry', co.industry) AS industry,
+           COALESCE(ov.v->>'description', co.description) AS description,
+           COALESCE((ov.v->>'employeeCount')::int, co."employeeCount") AS "employeeCount",
+           COALESCE(ov.v->>'city', co.city) AS city,
+           COALESCE(ov.v->>'country', co.country) AS country,
+           co."websiteSummary", co."foundedYear", co."annualRevenue", co."totalFunding",
+           co."lastFundingRound", co."lastFundingDate", co.technologies::text AS technologies,
+           CASE
+             WHEN co."annualRevenue" ~* 'billion' THEN rev.n * 1000
+             WHEN co."annualRevenue" ~* 'million' THEN rev.n
+             WHEN rev.n >= 1000 THEN rev.n / 1000000
+             ELSE rev.n
+           END AS "revenueMillions",
+           r."myCount", r."spaceCount", r."spaceIds", r."connectionIds", r."firstSeenAt", r."lastSeenAt", r.people, r.titles,
+           rel."strengthScore",
+           CASE
+             WHEN r."myCount" = 0 OR COALESCE(rel."strengthScore", 0) <= 0 THEN 'none'
+             WHEN rel."strengthScore" >= ${STRENGTH_THRESHOLDS.strong} THEN 'strong'
+             WHEN rel."strengthScore" >= ${STRENGTH_THRESHOLDS.medium} THEN 'medium'
+             ELSE 'weak'
+           END AS strength,
+           COALESCE(tg.tags, '{}') AS tags
+    FROM reached r
+    JOIN companies co ON co.id = r.id
+    LEFT JOIN relationships rel ON rel."companyId" = co.id AND rel."userId" = $1
+    LEFT JOIN LATERAL (
+      SELECT jsonb_object_agg(o.field, o.value) AS v
+      FROM company_overrides o
+      WHERE o."userId" = $1 AND o."companyId" = co.id
+    ) ov ON TRUE
+    LEFT JOIN LATERAL (
+      SELECT ARRAY_AGG(t.name ORDER BY t.name) AS tags
+      FROM company_tags ct
+      JOIN tags t ON t.id = ct."tagId"
+      WHERE t."userId" = $1 AND ct."companyDomain" = co.domain
+    ) tg ON TRUE
+    -- Revenue is free text: "$12.5 million", "1 billion", or plain dollars as Apollo sends it
+    LEFT JOIN LATERAL (
+      SELECT NULLIF(substring(replace(replace(co."annualRevenue", ',', ''), '$', '') FROM '[0-9]+(?:\\.[0-9]+)?'), '')::numeric AS n
+    ) rev ON TRUE
+  )`;
+
+const EMPLOYEE_BUCKET = `CASE
+    WHEN COALESCE("employeeCount", 0) <= 0 THEN NULL
+    WHEN "employeeCount" <= 10 THEN '1-10'
+    WHEN "employeeCount" <= 50 THEN '11-50'
+    WHEN "employeeCount" <= 200 THEN '51-200'
+    WHEN "employeeCount" <= 1000 THEN '201-1000'
+    WHEN "employeeCount" <= 5000 THEN '1001-5000'
+    ELSE '5000+'
+  END`;
+
+const REVENUE_BUCKET = `CASE
+    WHEN "revenueMillions" IS NULL THEN NULL
+    WHEN "revenueMillions" < 1 THEN '0-1m'
+    WHEN "revenueMillions" < 10 THEN '1-10m'
+    WHEN "revenueMillions" < 50 THEN '10-50m'
+    WHEN "revenueMillions" < 100 THEN '50-100m'
+    ELSE '100m+'
+  END`;
+
+// Same rounds as the network view's funding filter; a company can match several
+const FUNDING_MATCHES = `ARRAY_REMOVE(ARRAY[
+    CASE WHEN COALESCE("lastFundingRound", '') = '' AND COALESCE("totalFunding", '') = '' THEN 'no-funding' END,
+    CASE WHEN "lastFundingRound" ~* 'pre.?seed|seed|angel|convertible.?note' THEN 'pre-seed' END,
+    CASE WHEN "lastFundingRound" ~* 'series.?a\\y' THEN 'series-a' END,
+    CASE WHEN "lastFundingRound" ~* 'series.?[b-z]\\y' THEN 'series-b' END,
+    CASE WHEN "lastFundingRound" ~* 'venture|private.?equity' THEN 'vc-backed' END
+  ], NULL)`;
+
+const SOURCE_MATCHES = `ARRAY_REMOVE(ARRAY[
+    CASE WHEN "myCount" > 0 THEN 'mine' END,
+    CASE WHEN "spaceCount" > 0 THEN 'spaces' END,
+    CASE WHEN "myCount" > 0 AND "spaceCount" > 0 THEN 'both' END
+  ], NULL)`;
+
+/** Values each company has per facet (text[]) */
+const FACET_VALUES: Record<FacetKey, string> = {
+  strength: 'ARRAY[strength]',
+  source: SOURCE_MATCHES,
+  employees: `ARRAY_REMOVE(ARRAY[${EMPLOYEE_BUCKET}], NULL)`,
+  funding: FUNDING_MATCHES,
+  revenue: `ARRAY_REMOVE(ARRAY[${REVENUE_BUCKET}], NULL)`,
+  country: 'ARRAY_REMOVE(ARRAY[country], NULL)',
+  space: '"spaceIds"',
+  connection: '"connectionIds"',
+  tag: 'tags',
+};
+
+const SORT_VALUES: Record<SortField, string> = {
+  name: 'lower(name)',
+  contacts: '("myCount" + "spaceCount")',
+  // Ascending puts the strongest first, as in the network view
+  strength: `CASE strength WHEN 'strong' THEN 0 WHEN 'medium' THEN 1 WHEN 'weak' THEN 2 ELSE 3 END`,
+  employees: 'COALESCE("employeeCount", 0)',
+  location: `lower(concat_ws(', ', city, country))`,
+  industry: `lower(COALESCE(industry, ''))`,
+  funding: `lower(COALESCE("lastFundingRound", ''))`,
+  tags: `lower(array_to_string(tags, ','))`,
+  connectedSince: '"firstSeenAt"',
+  lastContactDate: '"lastSeenAt"',
+};
+
+// Group keys follow the buckets the network view shows as group headers
+const GROUP_KEYS: Record<GroupField, string> = {
+  name: 'upper(left(name, 1))',
+  contacts: `CASE
+      WHEN "myCount" + "spaceCount" >= 10 THEN '10+'
+      WHEN "myCount" + "spaceCount" >= 5 THEN '5-9'
+      WHEN "myCount" + "spaceCount" >= 2 THEN '2-4'
+      ELSE '1'
+    END`,
+  strength: 'strength',
+  employees: `CASE
+      WHEN COALESCE("employeeCount", 0) <= 0 THEN NULL
+      WHEN "employeeCount" >= 1000 THEN '1000+'
+      WHEN "employeeCount" >= 100 THEN '100-999'
+      WHEN "employeeCount" >= 10 THEN '10-99'
+      ELSE '1-9'
+    END`,
+  location: `NULLIF(concat_ws(', ', city, country), '')`,
+  industry: 'industry',
+  funding: '"lastFundingRound"',
+  connectedSince: `to_char("firstSeenAt", 'YYYY-MM')`,
+  lastContactDate: `to_char("lastSeenAt", 'YYYY-MM')`,
+};
+
+function dateParts(column: string, years: number[], months: number[], params: Params): string | null {
+  if (years.length === 0 && months.length === 0) return null;
+  const parts = [`${column} IS NOT NULL`];
+  if (years.length > 0) parts.push(`EXTRACT(YEAR FROM ${column})::int = ANY(${params.add(years)}::int[])`);
+  if (months.length > 0) parts.push(`EXTRACT(MONTH FROM ${column})::int = ANY(${params.add(months)}::int[])`);
+  return parts.join(' AND ');
+}
+
+/**
+ * WHERE conditions for a query: `where` always applies, `facets` holds the
+ * conditions of filters that have a facet, which its own counts leave out.
+ */
+function buildConditions(search: SearchQuery, params: Params) {
+  const f = search.filters ?? {};
+  const where: string[] = [];
+  const facets: Partial<Record<FacetKey, string>> = {};
+
+  const employeeRanges = cleanList(f.employeeRanges);
+  if (employeeRanges.length > 0) {
+    facets.employees = `${FACET_VALUES.employees} && ${params.add(employeeRanges)}::text[]`;
+  }
+  const fundingRounds = cleanList(f.fundingRounds);
+  if (fundingRounds.length > 0) {
+    facets.funding = `${FACET_VALUES.funding} && ${params.add(fundingRounds)}::text[]`;
+  }
+  const revenueRanges = cleanList(f.revenueRanges);
+  if (revenueRanges.length > 0) {
+    facets.revenue = `${FACET_VALUES.revenue} && ${params.add(revenueRanges)}::text[]`;
+  }
+  if (f.country?.trim()) {
+    facets.country = `lower(country) = ${params.add(f.country.trim().toLowerCase())}`;
+  }
+  if (f.strengthFilter && f.strengthFilter !== 'all') {
+    facets.strength = `strength = ${params.add(f.strengthFilter)}`;
+  }
+  if (f.sourceFilter && f.sourceFilter !== 'all') {
+    facets.source = `${params.add(f.sourceFilter)} = ANY(${SOURCE_MATCHES})`;
+  }
+  if (f.spaceId) facets.space = `${params.add(f.spaceId)} = ANY("spaceIds")`;
+  if (f.connectionId) facets.connection = `${params.add(f.connectionId)} = ANY("connectionIds")`;
+
+  const tagInclude = (f.tagInclude ?? []).filter(Boolean);
+  const tagExclude = (f.tagExclude ?? []).filter(Boolean);
+  const tagParts: string[] = [];
+  if (tagInclude.length > 0) tagParts.push(`tags && ${params.add(tagInclude)}::text[]`);
+  if (tagExclude.length > 0) tagParts.push(`NOT (tags && ${params.add(tagExclude)}::text[])`);
+  if (tagParts.length > 0) facets.tag = tagParts.join(' AND ');
+
+  if (f.city?.trim()) {
+    where.push(`city ILIKE ${params.add(likePattern(f.city.trim()))}`);
+  }
+  const foundedFrom = parseInt(String(f.foundedFrom ?? ''), 10);
+  if (Number.isFinite(foundedFrom)) where.push(`"foundedYear" >= ${params.add(foundedFrom)}`);
+  const foundedTo = parseInt(String(f.foundedTo ?? ''), 10);
+  if (Number.isFinite(foundedTo)) where.push(`"foundedYear" <= ${params.add(foundedTo)}`);
+
+  if (f.fundingRecency && f.fundingRecency !== 'any') {
+    const days = f.fundingRecency === '6m' ? 180 : 365;
+    where.push(`"lastFundingDate" >= NOW() - ${params.add(days)} * INTERVAL '1 day'`);
+  }
+
+  const technologies = cleanList(f.technologies);
+  if (technologies.length > 0) {
+    const patterns = params.add(technologies.map(likePattern));
+    where.push(`(technologies ILIKE ANY(${patterns}::text[]) OR description ILIKE ANY(${patterns}::text[]))`);
+  }
+
+  const connected = dateParts('"firstSeenAt"', toInts(f.connectedYears), toInts(f.connectedMonths), params);
+  if (connected) where.push(connected);
+  const lastContact = dateParts('"lastSeenAt"', toInts(f.lastContactYears), toInts(f.lastContactMonths), params);
+  if (lastContact) where.push(lastContact);
+
+  const keywords = cleanList(search.keywords?.length ? search.keywords : [f.description ?? '']);
+  if (keywords.length > 0) {
+    where.push(`concat_ws(' ', name, domain, description, "websiteSummary", industry, city, country, people)
+      ILIKE ANY(${params.add(keywords.map(likePattern))}::text[])`);
+  }
+  const excluded = cleanList(search.excludeKeywords);
+  if (excluded.length > 0) {
+    where.push(`NOT (concat_ws(' ', description, "websiteSummary", industry, name)
+      ILIKE ANY(${params.add(excluded.map(likePattern))}::text[]))`);
+  }
+
+  const query = search.query?.trim();
+  if (query) {
+    const pattern = params.add(likePattern(query));
+    where.push(`(name ILIKE ${pattern} OR domain ILIKE ${pattern})`);
+  }
+
+  return { where, facets };
+}
+
+export function and(conditions: (string | undefined)[]): string {
+  const present = conditions.filter((c): c is string => !!c);
+  return present.length > 0 ? present.map(c => `(${c})`).join(' AND ') : 'TRUE';
+}
+
+function orderBy(search: SearchQuery, params: Params): string {
+  const terms: string[] = [];
+  if (search.groupBy) {
+    terms.push(`${SORT_VALUES[search.groupBy.field]} ${search.groupBy.dir === 'desc' ? 'DESC' : 'ASC'} NULLS LAST`);
+  }
+  for (const rule of search.sort ?? []) {
+    terms.push(`${SORT_VALUES[rule.field]} ${rule.dir === 'desc' ? 'DESC' : 'ASC'} NULLS LAST`);
+  }
+  if (terms.length === 0) {
+    // Exact name matches first when searching, then the most recently met
+    const query = search.query?.trim();
+    if (query) terms.push(`(lower(name) = ${params.add(query.toLowerCase())}) DESC`);
+    terms.push('"lastSeenAt" DESC NULLS LAST', '("myCount" + "spaceCount") DESC');
+  }
+  terms.push('lower(name) ASC', 'id ASC');
+  return terms.join(', ');
+}
+
+/**
+ * The user's companies with the filters that have no facet applied, as
+ * `filtered`. `facets` holds the rest; `reach` has one row per contact.
+ */
+export function buildFilteredCte(userId: string, search: SearchQuery) {
+  const params = createParams();
+  params.add(userId);
+  const { where, facets } = buildConditions(search, params);
+  return {
+    params,
+    facets,
+    sql: `WITH ${COMPANIES_CTE},
+    filtered AS (SELECT * FROM seen WHERE ${and(where)})`,
+  };
+}
+
+function pageQuery(userId: string, search: SearchQuery, page: { skip: number; limit: number }) {
+  const { params, facets, sql } = buildFilteredCte(userId, search);
+  const order = orderBy(search, params);
+  const groupKey = search.groupBy ? GROUP_KEYS[search.groupBy.field] : 'NULL::text';
+
+  return {
+    values: params.values,
+    sql: `${sql},
+    page AS (
+      SELECT f.*, ${groupKey} AS "group", ROW_NUMBER() OVER (ORDER BY ${order}) AS "position"
+      FROM filtered f
+      WHERE ${and(Object.values(facets))}
+      ORDER BY ${order}
+      LIMIT ${params.add(page.limit)} OFFSET ${params.add(page.skip)}
+    )
+    SELECT co.id, co.domain, co.name, co.logo, co.industry, co.description, co."websiteSummary",
+           co."employeeCount", co."foundedYear", co."annualRevenue", co."totalFunding", co."lastFundingRound",
+           co."lastFundingDate", co."linkedinUrl", co."websiteUrl", co.city, co.state, co.country, co."enrichedAt",
+           p."myCount", p."spaceCount", p.strength, p."strengthScore", p."spaceIds", p."connectionIds", p.tags,
+           p."firstSeenAt", p."lastSeenAt", p."group"
+    FROM page p
+    JOIN companies co ON co.id = p.id
+    ORDER BY p."position"`,
+  };
+}
+
+// Total, facet counts and groups in one round trip
+function summaryQuery(userId: string, search: SearchQuery) {
+  const { params, facets, sql } = buildFilteredCte(userId, search);
+
+  const facetSql = FACETS.map(facet => `
+      SELECT '${facet}' AS facet, v AS value, COUNT(*)::int AS count
+      FROM filtered, unnest(${FACET_VALUES[facet]}) AS v
+      WHERE ${and(FACETS.filter(other => other !== facet).map(other => facets[other]))}
+      GROUP BY v`).join('\n      UNION ALL');
+
+  let groupsSql = 'NULL';
+  if (search.groupBy) {
+    const sortValue = SORT_VALUES[search.groupBy.field];
+    groupsSql = `(SELECT COALESCE(json_agg(g), '[]') FROM (
+      SELECT ${GROUP_KEYS[search.groupBy.field]} AS key, COUNT(*)::int AS count
+      FROM filtered
+      WHERE ${and(Object.values(facets))}
+      GROUP BY 1
+      ORDER BY ${search.groupBy.dir === 'desc' ? `MAX(${sortValue}) DESC` : `MIN(${sortValue}) ASC`} NULLS LAST
+    ) g)`;
+  }
+
+  return {
+    values: params.values,
+    sql: `${sql}
+    SELECT
+      (SELECT COUNT(*)::int FROM filtered WHERE ${and(Object.values(facets))}) AS total,
+      (SELECT COALESCE(json_agg(f), '[]') FROM (${facetSql}) f) AS facets,
+      ${groupsSql} AS groups`,
+  };
+}
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+type PageRow = Omit<SearchCompany, 'totalCount' | 'source' | 'overrides'>;
+
+interface SummaryRow {
+  total: number;
+  facets: (FacetCount & { facet: FacetKey })[];
+  groups: SearchGroup[] | null;
+}
+
+/** One page of the companies `userId` reaches that match `search`, with facets */
+export async function searchCompanies(
+  userId: string,
+  search: SearchQuery,
+  page: { skip: number; limit: number },
+): Promise<SearchResult> {
+  const pageSql = pageQuery(userId, search, page);
+  const summarySql = summaryQuery(userId, search);
+  const [rows, [summary]] = await Promise.all([
+    prisma.$queryRawUnsafe<PageRow[]>(pageSql.sql, ...pageSql.values),
+    prisma.$queryRawUnsafe<SummaryRow[]>(summarySql.sql, ...summarySql.values),
+  ]);
+
+  const facetCounts = Object.fromEntries(FACETS.map(facet => [facet, [] as FacetCount[]])) as Record<FacetKey, FacetCount[]>;
+  for (const row of summary.facets) facetCounts[row.facet].push({ value: row.value, count: row.count });
+  for (const facet of FACETS) {
+    facetCounts[facet].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    if (facet === 'country' || facet === 'tag') facetCounts[facet] = facetCounts[facet].slice(0, FACET_VALUE_LIMIT);
+  }
+
+  const companies = await applyCompanyOverrides(userId, rows);
+  return {
+    companies: companies.map(c => ({
+      ...c,
+      group: search.groupBy ? c.group : undefined,
+      totalCount: c.myCount + c.spaceCount,
+      source: c.myCount > 0 && c.spaceCount > 0 ? 'both' : c.myCount > 0 ? 'mine' : 'space',
+    })),
+    total: summary.total,
+    groups: summary.groups,
+    facets: facetCounts,
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({ default: {} }));
+
+import { describeChange, diffSnapshots, matchesFieldChange, type FieldChange, type NetworkSnapshot } from './signals.js';
+
+type Company = { employeeCount: number | null; lastFundingRound: string | null };
+type Contact = { title: string | null; companyId?: string | null; companyName?: string | null };
+
+function snapshot(companies: Record<string, Company>, contacts: Record<string, Contact> = {}): NetworkSnapshot {
+  return {
+    companies: new Map(Object.entries(companies).map(([id, c]) => [id, { id, name: 'Acme', domain: 'acme.com', ...c }])),
+    contacts: new Map(Object.entries(contacts).map(([id, c]) => [id, {
+      id, userId: 'user_1', name: 'Ana Lima', email: 'ana@acme.com', companyId: null, companyName: null, ...c,
+    }])),
+  };
+}
+
+describe('diffSnapshots', () => {
+  it("reports a company's first funding round and headcount", () => {
+    const changes = diffSnapshots(
+      snapshot({ acme: { employeeCount: null, lastFundingRound: null } }),
+      snapshot({ acme: { employeeCount: 40, lastFundingRound: 'Series A' } }),
+    );
+
+    expect(changes).toEqual([
+      { entityType: 'company', entityId: 'acme', entityName: 'Acme', field: 'employeeCount', oldValue: null, newValue: 40 },
+      { entityType: 'company', entityId: 'acme', entityName: 'Acme', field: 'lastFundingRound', oldValue: null, newValue: 'Series A' },
+    ]);
+    expect(changes.map(describeChange)).toEqual(['Acme headcount is now 40', 'Acme raised a round: Series A']);
+  });
+
+  it('reports a new round and ignores the same one in different case or spacing', () => {
+    expect(diffSnapshots(
+      snapshot({ acme: { employeeCount: 40, lastFundingRound: 'Series A' } }),
+      snapshot({ acme: { employeeCount: 40, lastFundingRound: 'Series B' } }),
+    )).toEqual([expect.objectContaining({ field: 'lastFundingRound', oldValue: 'Series A', newValue: 'Series B' })]);
+
+    expect(diffSnapshots(
+      snapshot({ acme: { employeeCount: 40, lastFundingRound: 'Series A' } }),
+      snapshot({ acme: { employeeCount: 40, lastFundingRound: ' series a ' } }),
+    )).toEqual([]);
+  });
+
+  it('ignores values going back to empty', () => {
+    expect(diffSnapshots(
+      snapshot({ acme: { employeeCount: 40, lastFundingRound: 'Series A' } }),
+      snapshot({ acme: { employeeCount: null, lastFundingRound: '' } }),
+    )).toEqual([]);
+  });
+
+  it('ignores a contact title filled in for the first time, but not a changed one', () => {
+    expect(diffSnapshots(snapshot({}, { ana: { title: null } }), snapshot({}, { ana: { title: 'CTO' } }))).toEqual([]);
+    expect(diffSnapshots(snapshot({}, { ana: { title: 'VP Engineering' } }), snapshot({}, { ana: { title: 'CTO' } }))).toEqual([
+      { entityType: 'contact', entityId: 'ana', entityName: 'Ana Lima', field: 'title', oldValue: 'VP Engineering', newValue: 'CTO' },
+    ]);
+  });
+
+  it('only compares entities present in both snapshots', () => {
+    expect(diffSnapshots(
+      snapshot({}),
+      snapshot({ acme: { employeeCount: 40, lastFundingRound: 'Series A' } }),
+    )).toEqual([]);
+  });
+});
+
+describe('matchesFieldChange', () => {
+  const firstHeadcount: FieldChange = {
+    entityType: 'company', entityId: 'acme', entityName: 'Acme', field: 'employeeCount', oldValue: null, newValue: 40,
+  };
+  const firstRound: FieldChange = {
+    entityType: 'company', entityId: 'acme', entityName: 'Acme', field: 'lastFundingRound', oldValue: null, newValue: 'Series A',
+  };
+
+  it('matches a first funding round, including on its `to` value', () => {
+    expect(matchesFieldChange({ field: 'lastFundingRound' }, firstRound)).toBe(true);
+    expect(matchesFieldChange({ field: 'lastFundingRound', to: 'series a' }, firstRound)).toBe(true);
+    expect(matchesFieldChange({ field: 'lastFundingRound', from: 'seed' }, firstRound)).toBe(false);
+  });
+
+  it('matches a first headcount only without a direction or minimum change', () => {
+    expect(matchesFieldChange({ field: 'employeeCount' }, firstHeadcount)).toBe(true);
+    expect(matchesFieldChange({ field: 'employeeCount', direction: 'increase' }, firstHeadcount)).toBe(false);
+    expect(matchesFieldChange({ field: 'employeeCount', minChangePercent: 20 }, firstHeadcount)).toBe(false);
+  });
+
+  it('checks direction and size of a headcount change', () => {
+    const grew: FieldChange = { ...firstHeadcount, oldValue: 40, newValue: 50 };
+    expect(matchesFieldChange({ field: 'employeeCount', direction: 'increase', minChangePercent: 20 }, grew)).toBe(true);
+    expect(matchesFieldChange({ field: 'employeeCount', direction: 'decrease' }, grew)).toBe(false);
+    expect(matchesFieldChange({ field: 'employeeCount', minChangePercent: 30 }, grew)).toBe(false);
+  });
+});
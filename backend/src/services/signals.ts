@@ -0,0 +1,431 @@
+import prisma from '../lib/prisma.js';
+import { publishToUser } from './notifications.js';
+import { emitWebhookEvent } from './webhooks.js';
+import { chatJson, isAiConfigured } from './aiProvider.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type SignalField = 'title' | 'company' | 'employeeCount' | 'lastFundingRound';
+
+type SignalValue = string | number | null;
+
+interface ContactSnapshot {
+  id: string;
+  userId: string;
+  name: string | null;
+  email: string;
+  title: string | null;
+  companyId: string | null;
+  companyName: string | null;
+}
+
+interface CompanySnapshot {
+  id: string;
+  name: string;
+  domain: string;
+  employeeCount: number | null;
+  lastFundingRound: string | null;
+}
+
+export interface NetworkSnapshot {
+  contacts: Map<string, ContactSnapshot>;
+  companies: Map<string, CompanySnapshot>;
+}
+
+export interface FieldChange {
+  entityType: 'contact' | 'company';
+  entityId: string;
+  entityName: string;
+  field: SignalField;
+  oldValue: SignalValue;
+  newValue: SignalValue;
+}
+
+export interface SignalClassifierInput {
+  prompt: string;
+  entityType: 'contact' | 'company';
+  entity: Record<string, unknown>;
+  changes: FieldChange[];
+}
+
+export interface SignalClassification {
+  matched: boolean;
+  summary: string;
+}
+
+/** Decides whether a prompt_based signal fires for an entity's changes. */
+export type SignalClassifier = (input: SignalClassifierInput) => Promise<SignalClassification>;
+
+const CONTACT_FIELDS: SignalField[] = ['title', 'company'];
+const COMPANY_FIELDS: SignalField[] = ['employeeCount', 'lastFundingRound'];
+
+// Config spellings accepted for each field (the original /test endpoint used "headcount")
+const FIELD_ALIASES: Record<string, SignalField> = {
+  title: 'title',
+  role: 'title',
+  company: 'company',
+  employeeCount: 'employeeCount',
+  headcount: 'employeeCount',
+  lastFundingRound: 'lastFundingRound',
+  funding: 'lastFundingRound',
+  fundingRound: 'lastFundingRound',
+};
+
+export function resolveSignalField(field: unknown): SignalField | null {
+  return typeof field === 'string' ? FIELD_ALIASES[field] ?? null : null;
+}
+
+// ─── Snapshots ───────────────────────────────────────────────────────────────
+
+/** Capture the signal-relevant fields of a user's contacts and their companies. */
+export async function takeNetworkSnapshot(userId: string): Promise<NetworkSnapshot> {
+  const contacts = await prisma.contact.findMany({
+    where: { userId },
+    select: {
+      id: true, userId: true, name: true, email: true, title: true, companyId: true,
+      company: { select: { id: true, name: true, domain: true, employeeCount: true, lastFundingRound: true } },
+    },
+  });
+
+  const snapshot: NetworkSnapshot = { contacts: new Map(), companies: new Map() };
+  for (const c of contacts) {
+    snapshot.contacts.set(c.id, {
+      id: c.id,
+      userId: c.userId,
+      name: c.name,
+      email: c.email,
+      title: c.title,
+      companyId: c.companyId,
+      companyName: c.company?.name ?? null,
+    });
+    if (c.company) snapshot.companies.set(c.company.id, { ...c.company });
+  }
+  return snapshot;
+}
+
+function normalize(value: SignalValue): SignalValue {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  return value;
+}
+
+/**
+ * Compare two snapshots of the same network. Only entities present in both
+ * count. A contact field going from empty to populated is enrichment filling a
+ * gap, not the person moving, so it is skipped; a company's first funding
+ * round or headcount is news and counts. A value going back to empty never
+ * does.
+ */
+export function diffSnapshots(before: NetworkSnapshot, after: NetworkSnapshot): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  const push = (entityType: FieldChange['entityType'], entityId: string, entityName: string, field: SignalField, oldRaw: SignalValue, newRaw: SignalValue) => {
+    const oldValue = normalize(oldRaw);
+    const newValue = normalize(newRaw);
+    if (newValue === null || (oldValue === null && entityType === 'contact')) return;
+    const same = typeof oldValue === 'string' && typeof newValue === 'string'
+      ? oldValue.toLowerCase() === newValue.toLowerCase()
+      : oldValue === newValue;
+    if (!same) changes.push({ entityType, entityId, entityName, field, oldValue, newValue });
+  };
+
+  for (const [id, prev] of before.contacts) {
+    const next = after.contacts.get(id);
+    if (!next) continue;
+    const name = next.name || next.email;
+    push('contact', id, name, 'title', prev.title, next.title);
+    if (prev.companyId !== next.companyId) {
+      push('contact', id, name, 'company', prev.companyName, next.companyName);
+    }
+  }
+
+  for (const [id, prev] of before.companies) {
+    const next = after.companies.get(id);
+    if (!next) continue;
+    push('company', id, next.name, 'employeeCount', prev.employeeCount, next.employeeCount);
+    push('company', id, next.name, 'lastFundingRound', prev.lastFundingRound, next.lastFundingRound);
+  }
+
+  return changes;
+}
+
+// ─── field_change matching ───────────────────────────────────────────────────
+
+function textMatches(expected: unknown, actual: SignalValue): boolean {
+  if (typeof expected !== 'string' || expected.trim() === '') return true;
+  return String(actual ?? '').toLowerCase().includes(expected.trim().toLowerCase());
+}
+
+/**
+ * Check a field_change config against a change. Supported config keys:
+ * `field` (required), `from` / `to` (case-insensitive substring of the old / new
+ * value), and for employeeCount `direction` ("increase" | "decrease") and
+ * `minChangePercent`.
+ */
+export function matchesFieldChange(config: Record<string, unknown>, change: FieldChange): boolean {
+  if (resolveSignalField(config.field) !== change.field) return false;
+  if (!textMatches(config.from, change.oldValue)) return false;
+  if (!textMatches(config.to, change.newValue)) return false;
+
+  if (change.field === 'employeeCount') {
+    // A first headcount has no direction or size of change to check
+    if (change.oldValue === null) return !config.direction && !(Number(config.minChangePercent) > 0);
+    const oldCount = Number(change.oldValue);
+    const newCount = Number(change.newValue);
+    if (config.direction === 'increase' && newCount <= oldCount) return false;
+    if (config.direction === 'decrease' && newCount >= oldCount) return false;
+    const minPct = Number(config.minChangePercent);
+    if (minPct > 0 && oldCount > 0) {
+      const pct = Math.abs(newCount - oldCount) / oldCount * 100;
+      if (pct < minPct) return false;
+    }
+  }
+
+  return true;
+}
+
+export function describeChange(change: FieldChange): string {
+  const { entityName, oldValue, newValue } = change;
+  switch (change.field) {
+    case 'title':
+      return `${entityName} changed role from "${oldValue}" to "${newValue}"`;
+    case 'company':
+      return `${entityName} moved from ${oldValue} to ${newValue}`;
+    case 'employeeCount': {
+      if (oldValue === null) return `${entityName} headcount is now ${newValue}`;
+      const oldCount = Number(oldValue);
+      const newCount = Number(newValue);
+      const pct = oldCount > 0 ? Math.round((newCount - oldCount) / oldCount * 100) : 0;
+      const verb = newCount > oldCount ? 'grew' : 'shrank';
+      return `${entityName} headcount ${verb} from ${oldCount} to ${newCount} (${pct > 0 ? '+' : ''}${pct}%)`;
+    }
+    case 'lastFundingRound':
+      return oldValue === null
+        ? `${entityName} raised a round: ${newValue}`
+        : `${entityName} raised a new round: ${newValue} (previously ${oldValue})`;
+  }
+}
+
+// ─── prompt_based classification ─────────────────────────────────────────────
+
+const CLASSIFIER_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    matched: { type: 'boolean' as const, description: 'Whether the changes satisfy the alert description' },
+    summary: { type: 'string' as const, description: 'One sentence describing what happened, written for the user who set up the alert' },
+  },
+  required: ['matched', 'summary'] as string[],
+  additionalProperties: false,
+};
+
+const CLASSIFIER_SYSTEM_PROMPT = `You evaluate custom alerts for a professional networking app. The user describes in plain language what they want to be alerted about. You receive a person or company from their network and the fields that just changed on it.
+
+Set matched=true only if the changes clearly satisfy the alert description. Do not speculate beyond the data given. The summary should be one short sentence.`;
+
+const llmClassifier: SignalClassifier = async ({ prompt, entityType, entity, changes }) => {
+  if (!isAiConfigured()) return { matched: false, summary: '' };
+
+  const classification = await chatJson<SignalClassification>({
+    purpose: 'signal-classifier',
+    messages: [
+      { role: 'system', content: CLASSIFIER_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Alert: "${prompt}"\n\n${entityType === 'contact' ? 'Person' : 'Company'}: ${JSON.stringify(entity)}\n\nChanges:\n${changes.map(c => `- ${c.field}: "${c.oldValue}" → "${c.newValue}"`).join('\n')}`,
+      },
+    ],
+    jsonSchema: { name: 'signal_classification', schema: CLASSIFIER_SCHEMA },
+    temperature: 0,
+    maxTokens: 150,
+  });
+
+  return classification ?? { matched: false, summary: '' };
+};
+
+let classifier: SignalClassifier = llmClassifier;
+
+/** Swap the prompt_based classifier (e.g. a deterministic stub in tests). */
+export function setSignalClassifier(next: SignalClassifier | null): void {
+  classifier = next ?? llmClassifier;
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+function signalWatches(signalEntityType: string, change: FieldChange): boolean {
+  if (signalEntityType === 'company') return COMPANY_FIELDS.includes(change.field);
+  return CONTACT_FIELDS.includes(change.field);
+}
+
+/**
+ * Run every active signal against a set of changes and record a SignalMatch
+ * for each hit. Contact changes are checked against the contact owner's
+ * signals; company changes against the signals of every user who has a
+ * contact at that company. Returns the number of matches created.
+ */
+export async function evaluateSignals(changes: FieldChange[]): Promise<number> {
+  if (changes.length === 0) return 0;
+
+  const contactChanges = changes.filter(c => c.entityType === 'contact');
+  const companyChanges = changes.filter(c => c.entityType === 'company');
+
+  const contactOwners = contactChanges.length > 0
+    ? await prisma.contact.findMany({
+        where: { id: { in: contactChanges.map(c => c.entityId) } },
+        select: { id: true, userId: true },
+      })
+    : [];
+  const ownerByContact = new Map(contactOwners.map(c => [c.id, c.userId]));
+
+  const companyIds = [...new Set(companyChanges.map(c => c.entityId))];
+  const watchers = companyIds.length > 0
+    ? await prisma.contact.findMany({
+        where: { companyId: { in: companyIds } },
+        select: { userId: true, companyId: true },
+        distinct: ['userId', 'companyId'],
+      })
+    : [];
+  const watchersByCompany = new Map<string, Set<string>>();
+  for (const w of watchers) {
+    if (!w.companyId) continue;
+    const set = watchersByCompany.get(w.companyId) || new Set<string>();
+    set.add(w.userId);
+    watchersByCompany.set(w.companyId, set);
+  }
+
+  const userIds = new Set<string>([...ownerByContact.values(), ...watchers.map(w => w.userId)]);
+  if (userIds.size === 0) return 0;
+
+  const signals = await prisma.signal.findMany({
+    where: {
+      userId: { in: Array.from(userIds) },
+      isActive: true,
+      triggerType: { in: ['field_change', 'prompt_based'] },
+    },
+  });
+  if (signals.length === 0) return 0;
+
+  const changesFor = (userId: string, signalEntityType: string) => changes.filter(change => {
+    if (!signalWatches(signalEntityType, change)) return false;
+    if (change.entityType === 'contact') return ownerByContact.get(change.entityId) === userId;
+    return watchersByCompany.get(change.entityId)?.has(userId) ?? false;
+  });
+
+  let created = 0;
+
+  for (const signal of signals) {
+    const config = (signal.config || {}) as Record<string, unknown>;
+    const relevant = changesFor(signal.userId, signal.entityType);
+    if (relevant.length === 0) continue;
+
+    try {
+      if (signal.triggerType === 'field_change') {
+        for (const change of relevant) {
+          if (!matchesFieldChange(config, change)) continue;
+          if (await recordMatch(signal, change.entityType, change.entityId, describeChange(change), {
+            field: change.field,
+            oldValue: change.oldValue,
+            newValue: change.newValue,
+          })) created++;
+        }
+        continue;
+      }
+
+      const prompt = typeof config.prompt === 'string' ? config.prompt.trim() : '';
+      if (!prompt) continue;
+
+      // One classifier call per entity, with all of its changes together
+      const byEntity = new Map<string, FieldChange[]>();
+      for (const change of relevant) {
+        const list = byEntity.get(change.entityId) || [];
+        list.push(change);
+        byEntity.set(change.entityId, list);
+      }
+
+      for (const [entityId, entityChanges] of byEntity) {
+        const entityType = entityChanges[0].entityType;
+        const entity = entityType === 'contact'
+          ? await prisma.contact.findUnique({
+              where: { id: entityId },
+              select: { name: true, title: true, headline: true, city: true, country: true, company: { select: { name: true, industry: true } } },
+            })
+          : await prisma.company.findUnique({
+              where: { id: entityId },
+              select: { name: true, domain: true, industry: true, employeeCount: true, lastFundingRound: true, totalFunding: true, city: true, country: true },
+            });
+        if (!entity) continue;
+
+        const result = await classifier({ prompt, entityType, entity, changes: entityChanges });
+        if (!result.matched) continue;
+
+        if (await recordMatch(signal, entityType, entityId, result.summary || entityChanges.map(describeChange).join('; '), {
+          prompt,
+          changes: entityChanges.map(c => ({ field: c.field, oldValue: c.oldValue, newValue: c.newValue })),
+        })) created++;
+      }
+    } catch (err) {
+      console.error(`[signals] Failed to evaluate signal ${signal.id}:`, (err as Error).message);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Insert a match unless the same signal already reported this exact change,
+ * and push it to the signal owner's notification stream.
+ */
+async function recordMatch(
+  signal: { id: string; userId: string; name: string },
+  entityType: string,
+  entityId: string,
+  summary: string,
+  data: Record<string, unknown>,
+): Promise<boolean> {
+  const signalId = signal.id;
+  const duplicate = await prisma.signalMatch.findFirst({
+    where: { signalId, entityId, summary },
+    select: { id: true },
+  });
+  if (duplicate) return false;
+
+  const match = await prisma.signalMatch.create({
+    data: { signalId, entityType, entityId, summary, data: JSON.parse(JSON.stringify(data)) },
+  });
+  publishToUser(signal.userId, 'signal_match', { ...match, signalName: signal.name });
+  await emitWebhookEvent('signal.matched', { userIds: [signal.userId] }, {
+    matchId: match.id,
+    signalId,
+    signalName: signal.name,
+    entityType,
+    entityId,
+    summary,
+    data,
+  });
+  return true;
+}
+
+/**
+ * Snapshot a user's network, run a job that may change it (enrichment,
+ * calendar sync), then diff and evaluate signals in the background. Skips the
+ * snapshots entirely when nobody has an active signal.
+ */
+export async function runWithSignalEvaluation<T>(userId: string, job: () => Promise<T>): Promise<T> {
+  const activeSignals = await prisma.signal.count({
+    where: { isActive: true, triggerType: { in: ['field_change', 'prompt_based'] } },
+  }).catch(() => 0);
+  if (activeSignals === 0) return job();
+
+  const before = await takeNetworkSnapshot(userId);
+  const result = await job();
+
+  takeNetworkSnapshot(userId)
+    .then(after => evaluateSignals(diffSnapshots(before, after)))
+    .then(created => {
+      if (created > 0) console.log(`[signals] ${created} new match(es) for user ${userId}`);
+    })
+    .catch(err => console.error(`[signals] Evaluation failed for user ${userId}:`, (err as Error).message));
+
+  return result;
+}
@@ -0,0 +1,228 @@
+import prisma from '../lib/prisma.js';
+import { notifyConnectors } from '../lib/notifyConnectors.js';
+import { notify } from './notifications.js';
+import { ACTIVE_REQUEST_STATUSES, transitionIntroRequest, recordIntroRequestEvent } from './introRequestLifecycle.js';
+
+// ─── Thresholds ──────────────────────────────────────────────────────────────
+
+/**
+ * Days without progress before an active request is followed up on:
+ * connectors are reminded first, then the space owner is asked to step in,
+ * and finally the request is expired and the requester told.
+ */
+export interface StaleThresholds {
+  reminderDays: number;
+  escalationDays: number;
+  expiryDays: number;
+}
+
+/** Used for 1:1 requests, and the column defaults for spaces */
+export const DEFAULT_STALE_THRESHOLDS: StaleThresholds = {
+  reminderDays: 3,
+  escalationDays: 7,
+  expiryDays: 14,
+};
+
+const MAX_STALE_DAYS = 365;
+
+/** Returns an error message, or null when the thresholds are usable */
+export function validateStaleThresholds(thresholds: StaleThresholds): string | null {
+  for (const [key, value] of Object.entries(thresholds)) {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_STALE_DAYS) {
+      return `${key} must be a whole number of days between 1 and ${MAX_STALE_DAYS}`;
+    }
+  }
+  if (thresholds.reminderDays >= thresholds.escalationDays || thresholds.escalationDays >= thresholds.expiryDays) {
+    return 'Reminder, escalation and expiry days must be increasing';
+  }
+  return null;
+}
+
+// ─── Processing ──────────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// remindersSent values
+const REMINDED = 1;
+const ESCALATED = 2;
+
+export interface StaleRequestsResult {
+  reminded: number;
+  escalated: number;
+  expired: number;
+}
+
+/**
+ * Follow up on active intro requests that haven't moved. Age is measured from
+ * the last step anyone took (creation, admin review, asking for details,
+ * checking with the contact, the contact agreeing), so a request that's
+ * being worked on isn't nagged about. Stages whose window was missed (e.g.
+ * the server was down) are skipped rather than sent late.
+ */
+export async function processStaleIntroRequests(now = new Date()): Promise<StaleRequestsResult> {
+  const result: StaleRequestsResult = { reminded: 0, escalated: 0, expired: 0 };
+
+  const requests = await prisma.introRequest.findMany({
+    where: { status: { in: ACTIVE_REQUEST_STATUSES } },
+    include: {
+      requester: { select: { id: true, name: true } },
+      space: {
+        select: {
+          id: true, name: true, emoji: true, ownerId: true,
+          staleReminderDays: true, staleEscalationDays: true, staleExpiryDays: true,
+        },
+      },
+      offers: { select: { introducerId: true } },
+    },
+  });
+
+  for (const request of requests) {
+    try {
+      const thresholds: StaleThresholds = request.space
+        ? {
+            reminderDays: request.space.staleReminderDays,
+            escalationDays: request.space.staleEscalationDays,
+            expiryDays: request.space.staleExpiryDays,
+          }
+        : DEFAULT_STALE_THRESHOLDS;
+
+      const lastActivity = Math.max(
+        request.createdAt.getTime(),
+        request.adminReviewedAt?.getTime() ?? 0,
+        request.detailsRequestedAt?.getTime() ?? 0,
+        request.checkedWithContactAt?.getTime() ?? 0,
+        request.contactAgreedAt?.getTime() ?? 0,
+      );
+      const ageDays = (now.getTime() - lastActivity) / DAY_MS;
+
+      const nq = (request.normalizedQuery as Record<string, unknown>) || {};
+      const companyName = (nq.companyName as string) || 'a company';
+      const companyDomain = (nq.companyDomain as string) || null;
+      const companyId = (nq.companyId as string) || null;
+      const connPeerId = (nq.connectionPeerId as string) || null;
+      const requesterName = request.requester.name || 'Someone';
+      const details = {
+        requestId: request.id,
+        spaceId: request.space?.id || null,
+        spaceName: request.space?.name || null,
+        spaceEmoji: request.space?.emoji || null,
+        companyName,
+        companyDomain,
+        companyId,
+        requesterId: request.requesterId,
+        requesterName,
+        connectionPeerId: request.space ? null : connPeerId,
+        rawText: request.rawText,
+      };
+
+      if (ageDays >= thresholds.expiryDays) {
+        const moved = await prisma.$transaction(tx => transitionIntroRequest(tx, request, 'expire', {
+          actorId: null,
+          payload: { afterDays: thresholds.expiryDays },
+        }));
+        if (!moved) continue;
+
+        await notify({
+          userId: request.requesterId,
+          type: 'intro_expired',
+          title: `Expired: ${companyName}`,
+          body: `Your intro request to ${companyName} had no progress for ${thresholds.expiryDays} days, so it was closed. You can post it again anytime.`,
+          data: details,
+        });
+        result.expired++;
+        console.log(`[cron] Expired stale intro request ${request.id} (${Math.floor(ageDays)}d without progress)`);
+        continue;
+      }
+
+      if (ageDays >= thresholds.escalationDays && request.remindersSent < ESCALATED) {
+        if (!(await claimStage(request, ESCALATED))) continue;
+
+        // 1:1 requests have nobody above the peer to escalate to
+        const ownerId = request.space?.ownerId;
+        if (!ownerId || ownerId === request.requesterId) continue;
+
+        const pendingReview = request.adminStatus === 'pending_review';
+        await notify({
+          userId: ownerId,
+          type: 'intro_escalated',
+          title: `Stale intro request: ${companyName}`,
+          body: pendingReview
+            ? `${requesterName}'s request for an intro to ${companyName} has been waiting for your review for ${Math.floor(ageDays)} days.`
+            : `Nobody has picked up ${requesterName}'s request for an intro to ${companyName} in ${Math.floor(ageDays)} days. It expires after ${thresholds.expiryDays}.`,
+          data: details,
+        });
+        await recordIntroRequestEvent(prisma, {
+          requestId: request.id,
+          actorId: null,
+          type: 'escalated',
+          fromStatus: request.status,
+          toStatus: request.status,
+          payload: { ownerId, afterDays: thresholds.escalationDays },
+        });
+        result.escalated++;
+        console.log(`[cron] Escalated stale intro request ${request.id} to space owner`);
+        continue;
+      }
+
+      if (ageDays >= thresholds.reminderDays && request.remindersSent < REMINDED) {
+        // Connectors weren't told about it yet while it waits for review
+        if (request.adminStatus === 'pending_review') continue;
+        if (!(await claimStage(request, REMINDED))) continue;
+
+        let remindedIds: string[] = [];
+        if (request.space) {
+          const connectorIds = await notifyConnectors({
+            requestId: request.id,
+            spaceId: request.space.id,
+            requesterId: request.requesterId,
+            requesterName,
+            rawText: request.rawText,
+            companyId,
+            companyDomain,
+            companyName,
+            spaceName: request.space.name,
+            spaceEmoji: request.space.emoji,
+            reminder: true,
+            excludeUserIds: request.offers.map(o => o.introducerId),
+          });
+          remindedIds = Array.from(connectorIds);
+        } else if (connPeerId && connPeerId !== request.requesterId) {
+          await notify({
+            userId: connPeerId,
+            type: 'intro_request',
+            title: `Reminder: intro request for ${companyName}`,
+            body: `${requesterName} is still looking for an intro to ${companyName}. "${request.rawText}"`,
+            data: details,
+          });
+          remindedIds = [connPeerId];
+        }
+        if (remindedIds.length === 0) continue;
+
+        await recordIntroRequestEvent(prisma, {
+          requestId: request.id,
+          actorId: null,
+          type: 'connectors_reminded',
+          fromStatus: request.status,
+          toStatus: request.status,
+          payload: { count: remindedIds.length, afterDays: thresholds.reminderDays },
+        });
+        result.reminded++;
+        console.log(`[cron] Reminded ${remindedIds.length} connector(s) about intro request ${request.id}`);
+      }
+    } catch (err) {
+      console.error(`[cron] Failed stale request follow-up for ${request.id}:`, (err as Error).message);
+    }
+  }
+
+  return result;
+}
+
+// Move remindersSent forward only if nobody else did, so overlapping runs
+// never send the same follow-up twice
+async function claimStage(request: { id: string; remindersSent: number }, stage: number): Promise<boolean> {
+  const { count } = await prisma.introRequest.updateMany({
+    where: { id: request.id, remindersSent: request.remindersSent },
+    data: { remindersSent: stage },
+  });
+  return count === 1;
+}
@@ -0,0 +1,394 @@
+import prisma from '../lib/prisma.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StrengthLabel = 'strong' | 'medium' | 'weak' | 'none';
+
+export type StrengthFactorKey = 'recency' | 'frequency' | 'duration' | 'intimacy' | 'reciprocity';
+
+export type StrengthWeights = Record<StrengthFactorKey, number>;
+
+export type DecayCurve = 'exponential' | 'linear';
+
+// Plain object types (not interfaces) so breakdowns can be stored as Prisma JSON
+export type StrengthConfig = {
+  weights: StrengthWeights;
+  /** Age (in days) at which a meeting counts for half as much */
+  halfLifeDays: number;
+  decay: DecayCurve;
+};
+
+/** The per-meeting inputs the model reads; anything unknown is left null */
+export interface StrengthMeeting {
+  googleEventId?: string | null;
+  date: Date;
+  duration: number | null;
+  attendeeCount: number | null;
+  organizedByUser: boolean | null;
+}
+
+export type StrengthFactor = {
+  key: StrengthFactorKey;
+  /** 0–1, or null when no meeting carried the input this factor needs */
+  value: number | null;
+  /** Share of the final score this factor was allowed to contribute (0–1) */
+  weight: number;
+  /** Points this factor added to the 0–100 score */
+  points: number;
+  detail: string;
+};
+
+export interface StrengthResult {
+  score: number;
+  label: StrengthLabel;
+  meetingsCount: number;
+  lastSeenAt: Date | null;
+  factors: StrengthFactor[];
+  config: StrengthConfig;
+}
+
+// ─── Config ──────────────────────────────────────────────────────────────────
+
+const FACTOR_KEYS: StrengthFactorKey[] = ['recency', 'frequency', 'duration', 'intimacy', 'reciprocity'];
+
+export const DEFAULT_STRENGTH_CONFIG: StrengthConfig = {
+  weights: {
+    recency: 0.35,
+    frequency: 0.3,
+    duration: 0.1,
+    intimacy: 0.15,
+    reciprocity: 0.1,
+  },
+  halfLifeDays: 90,
+  decay: 'exponential',
+};
+
+// Decay-weighted meeting count at which the frequency factor reaches 0.5
+const FREQUENCY_MIDPOINT = 4;
+// Meetings this long (or longer) count as fully "deep"
+const FULL_DURATION_MINUTES = 60;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Check a (partial) strength config as sent by a space owner. Returns an error
+ * message, or null when the config is usable.
+ */
+export function validateStrengthConfig(raw: unknown): string | null {
+  if (raw === null) return null;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'strengthConfig must be an object';
+  }
+  const config = raw as Record<string, unknown>;
+
+  if (config.weights !== undefined) {
+    if (typeof config.weights !== 'object' || config.weights === null || Array.isArray(config.weights)) {
+      return 'strengthConfig.weights must be an object';
+    }
+    const weights = config.weights as Record<string, unknown>;
+    for (const [key, value] of Object.entries(weights)) {
+      if (!FACTOR_KEYS.includes(key as StrengthFactorKey)) {
+        return `Unknown strength factor: ${key} (expected ${FACTOR_KEYS.join(', ')})`;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        return `Weight for ${key} must be a non-negative number`;
+      }
+    }
+    const merged = { ...DEFAULT_STRENGTH_CONFIG.weights, ...weights } as StrengthWeights;
+    if (FACTOR_KEYS.every(k => merged[k] === 0)) {
+      return 'At least one strength weight must be above zero';
+    }
+  }
+
+  if (config.halfLifeDays !== undefined) {
+    const h = config.halfLifeDays;
+    if (typeof h !== 'number' || !Number.isFinite(h) || h < 1 || h > 3650) {
+      return 'strengthConfig.halfLifeDays must be between 1 and 3650';
+    }
+  }
+
+  if (config.decay !== undefined && config.decay !== 'exponential' && config.decay !== 'linear') {
+    return 'strengthConfig.decay must be "exponential" or "linear"';
+  }
+
+  return null;
+}
+
+/**
+ * Merge a stored (possibly partial or outdated) config over the defaults.
+ * Invalid values fall back to the default rather than failing the score.
+ */
+export function resolveStrengthConfig(raw: unknown): StrengthConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return DEFAULT_STRENGTH_CONFIG;
+  const config = raw as Record<string, unknown>;
+
+  const weights = { ...DEFAULT_STRENGTH_CONFIG.weights };
+  if (config.weights && typeof config.weights === 'object') {
+    for (const key of FACTOR_KEYS) {
+      const value = (config.weights as Record<string, unknown>)[key];
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) weights[key] = value;
+    }
+  }
+  if (FACTOR_KEYS.every(k => weights[k] === 0)) return DEFAULT_STRENGTH_CONFIG;
+
+  const halfLifeDays = typeof config.halfLifeDays === 'number' && config.halfLifeDays >= 1
+    ? config.halfLifeDays
+    : DEFAULT_STRENGTH_CONFIG.halfLifeDays;
+  const decay: DecayCurve = config.decay === 'linear' || config.decay === 'exponential'
+    ? config.decay
+    : DEFAULT_STRENGTH_CONFIG.decay;
+
+  return { weights, halfLifeDays, decay };
+}
+
+/** The strength config a space's owner has set, or the defaults */
+export async function getSpaceStrengthConfig(spaceId: string): Promise<StrengthConfig> {
+  const space = await prisma.space.findUnique({
+    where: { id: spaceId },
+    select: { strengthConfig: true },
+  });
+  return resolveStrengthConfig(space?.strengthConfig);
+}
+
+// ─── Scoring ─────────────────────────────────────────────────────────────────
+
+/** Lowest score that earns each label; anything above 0 is at least weak */
+export const STRENGTH_THRESHOLDS = { strong: 70, medium: 30 } as const;
+
+export function strengthLabel(score: number | null | undefined): StrengthLabel {
+  if (!score || score <= 0) return 'none';
+  if (score >= STRENGTH_THRESHOLDS.strong) return 'strong';
+  if (score >= STRENGTH_THRESHOLDS.medium) return 'medium';
+  return 'weak';
+}
+
+/** How much a meeting `ageDays` old still counts (1 → fresh, 0 → forgotten) */
+function decayFactor(ageDays: number, config: StrengthConfig): number {
+  const age = Math.max(0, ageDays);
+  if (config.decay === 'linear') {
+    // Reaches 0.5 at the half-life, like the exponential curve, and 0 at twice it
+    return Math.max(0, 1 - age / (2 * config.halfLifeDays));
+  }
+  return Math.pow(0.5, age / config.halfLifeDays);
+}
+
+function round(value: number, digits = 2): number {
+  const f = Math.pow(10, digits);
+  return Math.round(value * f) / f;
+}
+
+/** Collapse per-attendee rows of the same calendar event into one meeting */
+function dedupeMeetings(meetings: StrengthMeeting[]): StrengthMeeting[] {
+  const seen = new Set<string>();
+  const result: StrengthMeeting[] = [];
+  for (const m of meetings) {
+    if (m.googleEventId) {
+      if (seen.has(m.googleEventId)) continue;
+      seen.add(m.googleEventId);
+    }
+    result.push(m);
+  }
+  return result;
+}
+
+/**
+ * Score a relationship from the meetings it's made of. Each factor is 0–1 and
+ * the score is their weighted sum scaled to 0–100; factors with no usable
+ * inputs (e.g. no durations known) drop out and their weight is spread over
+ * the rest, so missing calendar data never drags a score down.
+ */
+export function computeStrength(
+  rawMeetings: StrengthMeeting[],
+  config: StrengthConfig = DEFAULT_STRENGTH_CONFIG,
+  now: Date = new Date(),
+): StrengthResult {
+  const meetings = dedupeMeetings(rawMeetings.filter(m => m.date.getTime() <= now.getTime()));
+
+  if (meetings.length === 0) {
+    return {
+      score: 0,
+      label: 'none',
+      meetingsCount: 0,
+      lastSeenAt: null,
+      factors: FACTOR_KEYS.map(key => ({ key, value: null, weight: 0, points: 0, detail: 'No past meetings' })),
+      config,
+    };
+  }
+
+  const ages = meetings.map(m => (now.getTime() - m.date.getTime()) / DAY_MS);
+  const lastSeenAt = new Date(Math.max(...meetings.map(m => m.date.getTime())));
+  const daysSinceLast = Math.min(...ages);
+
+  const values = {} as Record<StrengthFactorKey, { value: number | null; detail: string }>;
+
+  values.recency = {
+    value: decayFactor(daysSinceLast, config),
+    detail: `Last met ${Math.round(daysSinceLast)} day${Math.round(daysSinceLast) === 1 ? '' : 's'} ago`,
+  };
+
+  const weightedCount = ages.reduce((sum, age) => sum + decayFactor(age, config), 0);
+  values.frequency = {
+    value: weightedCount / (weightedCount + FREQUENCY_MIDPOINT),
+    detail: `${meetings.length} meeting${meetings.length === 1 ? '' : 's'} (${round(weightedCount, 1)} after decay)`,
+  };
+
+  const durations = meetings.map(m => m.duration).filter((d): d is number => d !== null && d > 0);
+  if (durations.length > 0) {
+    const avg = durations.reduce((a, b) => a + b, 0) / durations.length;
+    values.duration = {
+      value: Math.min(1, avg / FULL_DURATION_MINUTES),
+      detail: `Meetings average ${Math.round(avg)} min`,
+    };
+  } else {
+    values.duration = { value: null, detail: 'No meeting durations known' };
+  }
+
+  const sizes = meetings.map(m => m.attendeeCount).filter((n): n is number => n !== null && n > 0);
+  if (sizes.length > 0) {
+    // A 1:1 counts fully; in a group your share of the conversation shrinks
+    const intimacy = sizes.reduce((sum, n) => sum + (n <= 2 ? 1 : 2 / n), 0) / sizes.length;
+    const oneOnOnes = sizes.filter(n => n <= 2).length;
+    values.intimacy = {
+      value: intimacy,
+      detail: `${oneOnOnes} of ${sizes.length} meeting${sizes.length === 1 ? '' : 's'} were 1:1`,
+    };
+  } else {
+    values.intimacy = { value: null, detail: 'No attendee counts known' };
+  }
+
+  const organized = meetings.map(m => m.organizedByUser).filter((o): o is boolean => o !== null);
+  if (organized.length > 0) {
+    // Balanced is best: both sides keep asking to meet
+    const share = organized.filter(Boolean).length / organized.length;
+    values.reciprocity = {
+      value: 1 - Math.abs(share - 0.5) * 2,
+      detail: `You organised ${organized.filter(Boolean).length} of ${organized.length}`,
+    };
+  } else {
+    values.reciprocity = { value: null, detail: 'Organiser unknown' };
+  }
+
+  const totalWeight = FACTOR_KEYS
+    .filter(k => values[k].value !== null)
+    .reduce((sum, k) => sum + config.weights[k], 0);
+
+  const factors: StrengthFactor[] = FACTOR_KEYS.map(key => {
+    const { value, detail } = values[key];
+    const weight = value !== null && totalWeight > 0 ? config.weights[key] / totalWeight : 0;
+    return {
+      key,
+      value: value === null ? null : round(value),
+      weight: round(weight),
+      points: value === null ? 0 : round(value * weight * 100, 1),
+      detail,
+    };
+  });
+
+  const score = round(
+    FACTOR_KEYS.reduce((sum, k) => {
+      const { value } = values[k];
+      return value === null || totalWeight === 0 ? sum : sum + value * (config.weights[k] / totalWeight) * 100;
+    }, 0),
+    1,
+  );
+
+  return {
+    score,
+    label: strengthLabel(score),
+    meetingsCount: meetings.length,
+    lastSeenAt,
+    factors,
+    config,
+  };
+}
+
+/** The JSON-safe explanation stored on a Relationship and returned by the API */
+export function toStrengthBreakdown(result: StrengthResult) {
+  return {
+    score: result.score,
+    label: result.label,
+    meetingsCount: result.meetingsCount,
+    lastSeenAt: result.lastSeenAt?.toISOString() ?? null,
+    factors: result.factors,
+    config: result.config,
+  };
+}
+
+// ─── Persistence ─────────────────────────────────────────────────────────────
+
+const strengthMeetingSelect = {
+  googleEventId: true,
+  date: true,
+  duration: true,
+  attendeeCount: true,
+  organizedByUser: true,
+} as const;
+
+/**
+ * Load a user's past meetings with their approved contacts at a company and
+ * score them. Used for live, per-space explanations.
+ */
+export async function computeCompanyStrength(
+  userId: string,
+  companyId: string,
+  config: StrengthConfig = DEFAULT_STRENGTH_CONFIG,
+  now: Date = new Date(),
+): Promise<StrengthResult> {
+  const meetings = await prisma.meeting.findMany({
+    where: { contact: { userId, companyId, isApproved: true }, date: { lte: now } },
+    select: strengthMeetingSelect,
+  });
+  return computeStrength(meetings, config, now);
+}
+
+/**
+ * Rebuild the user's Relationship rows (meeting count, last seen, score and
+ * breakdown) for the given companies from their approved contacts' meetings.
+ * Companies where the user no longer has approved contacts are left alone —
+ * contact deletion cleans those up.
+ */
+export async function recomputeRelationships(userId: string, companyIds: string[], now: Date = new Date()): Promise<number> {
+  const ids = Array.from(new Set(companyIds));
+  if (ids.length === 0) return 0;
+
+  const contacts = await prisma.contact.findMany({
+    where: { userId, isApproved: true, companyId: { in: ids } },
+    select: {
+      companyId: true,
+      lastSeenAt: true,
+      meetings: {
+        where: { date: { lte: now } },
+        select: strengthMeetingSelect,
+      },
+    },
+  });
+
+  const byCompany = new Map<string, { lastSeenAt: Date; meetings: StrengthMeeting[] }>();
+  for (const contact of contacts) {
+    if (!contact.companyId) continue;
+    const existing = byCompany.get(contact.companyId);
+    if (existing) {
+      existing.meetings.push(...contact.meetings);
+      if (contact.lastSeenAt > existing.lastSeenAt) existing.lastSeenAt = contact.lastSeenAt;
+    } else {
+      byCompany.set(contact.companyId, { lastSeenAt: contact.lastSeenAt, meetings: [...contact.meetings] });
+    }
+  }
+
+  for (const [companyId, data] of byCompany) {
+    const result = computeStrength(data.meetings, DEFAULT_STRENGTH_CONFIG, now);
+    const fields = {
+      meetingsCount: result.meetingsCount,
+      lastSeenAt: result.lastSeenAt ?? data.lastSeenAt,
+      strengthScore: result.score,
+      strengthBreakdown: toStrengthBreakdown(result),
+    };
+    await prisma.relationship.upsert({
+      where: { userId_companyId: { userId, companyId } },
+      update: fields,
+      create: { userId, companyId, ...fields },
+    });
+  }
+
+  return byCompany.size;
+}
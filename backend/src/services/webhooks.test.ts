@@ -0,0 +1,199 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createFakePrisma, type FakePrisma } from '../test/fakePrisma.js';
+
+const db = vi.hoisted(() => ({ current: null as FakePrisma | null }));
+
+vi.mock('../lib/prisma.js', () => ({
+  default: new Proxy({}, { get: (_target, prop) => db.current!.client[prop] }),
+}));
+
+import { encryptToken } from '../middleware/auth.js';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  isPrivateAddress,
+  retryWebhookDeliveries,
+  sendWebhookPing,
+  signWebhookPayload,
+  validateWebhookUrl,
+} from './webhooks.js';
+
+const SECRET = 'whsec_test_secret';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A local receiver that answers with whatever status the test sets
+let server: http.Server;
+let receiverUrl: string;
+let received: Received[] = [];
+let responseStatus = 200;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = responseStatus;
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://localhost:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  db.current = createFakePrisma(
+    { webhookDelivery: { endpoint: { model: 'webhookEndpoint', foreignKey: 'endpointId' } } },
+    { webhookDelivery: { status: 'pending', attempts: 0 }, webhookEndpoint: { isActive: true } },
+  );
+  received = [];
+  responseStatus = 200;
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function seedEndpoint(url = receiverUrl) {
+  const [endpoint] = db.current!.seed('webhookEndpoint', [{
+    userId: 'user_1', url, events: ['*'], secret: encryptToken(SECRET), isActive: true,
+  }]);
+  return endpoint;
+}
+
+describe('webhook delivery', () => {
+  it('signs the body with the endpoint secret', async () => {
+    const endpoint = seedEndpoint();
+
+    const delivery = await sendWebhookPing(endpoint.id);
+
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 200, lastError: null });
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['x-introo-event']).toBe('ping');
+    expect(headers['x-introo-delivery']).toBe(delivery.id);
+    expect(headers['content-type']).toBe('application/json');
+
+    const timestamp = Number(/^t=(\d+),/.exec(headers['x-introo-signature'] as string)![1]);
+    expect(headers['x-introo-signature']).toBe(signWebhookPayload(SECRET, timestamp, body));
+    expect(Math.abs(Date.now() / 1000 - timestamp)).toBeLessThan(5);
+    expect(JSON.parse(body)).toMatchObject({ event: 'ping', data: { message: 'Webhook test from Introo' } });
+  });
+
+  it('keeps a failed delivery pending and retries it once due', async () => {
+    const endpoint = seedEndpoint();
+    responseStatus = 500;
+
+    const failed = await sendWebhookPing(endpoint.id);
+
+    expect(failed).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 500, lastError: 'HTTP 500' });
+    const delay = failed.nextAttemptAt!.getTime() - Date.now();
+    expect(delay).toBeGreaterThan(55_000);
+    expect(delay).toBeLessThanOrEqual(60_000);
+
+    // Not due yet: the cron leaves it alone
+    expect(await retryWebhookDeliveries()).toBe(0);
+
+    db.current!.tables.webhookDelivery[0].nextAttemptAt = new Date(Date.now() - 1000);
+    responseStatus = 204;
+    expect(await retryWebhookDeliveries()).toBe(1);
+
+    expect(db.current!.tables.webhookDelivery[0]).toMatchObject({ status: 'succeeded', attempts: 2, responseStatus: 204, nextAttemptAt: null });
+    expect(received).toHaveLength(2);
+    // The same event is re-sent, with a fresh signature
+    expect(received[1].body).toBe(received[0].body);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const endpoint = seedEndpoint();
+    responseStatus = 503;
+    db.current!.seed('webhookDelivery', [{
+      endpointId: endpoint.id, event: 'ping', payload: { event: 'ping' }, status: 'pending',
+      attempts: MAX_WEBHOOK_ATTEMPTS - 1, nextAttemptAt: new Date(Date.now() - 1000),
+    }]);
+
+    await retryWebhookDeliveries();
+
+    expect(db.current!.tables.webhookDelivery[0]).toMatchObject({
+      status: 'failed', attempts: MAX_WEBHOOK_ATTEMPTS, lastError: 'HTTP 503', nextAttemptAt: null,
+    });
+  });
+
+  it('does not follow redirects', async () => {
+    const endpoint = seedEndpoint();
+    responseStatus = 302;
+
+    const delivery = await sendWebhookPing(endpoint.id);
+
+    expect(delivery).toMatchObject({ status: 'pending', responseStatus: 302, lastError: 'HTTP 302' });
+    expect(received).toHaveLength(1);
+  });
+
+  it('refuses in production to deliver to a host that resolves to a private address', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    // localhost is a name, not a literal, so this goes through DNS like any public-looking host would
+    const endpoint = seedEndpoint();
+
+    const delivery = await sendWebhookPing(endpoint.id);
+
+    expect(delivery).toMatchObject({ status: 'pending', responseStatus: null, lastError: 'Webhook URL resolves to a private address' });
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe('validateWebhookUrl', () => {
+  it('allows local receivers outside production', () => {
+    expect(validateWebhookUrl('http://localhost:4000/hooks')).toBeNull();
+    expect(validateWebhookUrl('ftp://example.com/hooks')).toBe('Webhook URL must be http(s)');
+    expect(validateWebhookUrl('not a url')).toBe('Invalid webhook URL');
+  });
+
+  it('requires public https URLs in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(validateWebhookUrl('https://hooks.example.com/introo')).toBeNull();
+    expect(validateWebhookUrl('http://hooks.example.com/introo')).toBe('Webhook URL must use https');
+
+    for (const url of [
+      'https://localhost/hooks',
+      'https://api.localhost/hooks',
+      'https://10.1.2.3/hooks',
+      'https://127.0.0.1/hooks',
+      'https://169.254.169.254/latest/meta-data',
+      'https://2130706433/hooks', // decimal 127.0.0.1
+      'https://0x7f.0.0.1/hooks', // hex 127.0.0.1
+      'https://0xa9fea9fe/hooks', // hex 169.254.169.254
+      'https://[::1]/hooks',
+      'https://[::ffff:7f00:1]/hooks', // IPv4-mapped loopback
+      'https://[::ffff:169.254.169.254]/hooks',
+      'https://[fd00::1]/hooks',
+      'https://[fe80::1]/hooks',
+    ]) {
+      expect(validateWebhookUrl(url), url).toBe('Webhook URL must be publicly reachable');
+    }
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('flags private, loopback, link-local and embedded IPv4 addresses', () => {
+    for (const ip of ['10.0.0.1', '172.16.5.4', '172.31.255.255', '192.168.1.1', '127.0.0.1', '0.0.0.0',
+      '169.254.169.254', '100.64.0.1', '224.0.0.1', '::', '::1', 'fc00::1', 'fe80::abcd',
+      '::ffff:10.0.0.1', '::ffff:a00:1', '::7f00:1', '64:ff9b::a9fe:a9fe']) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+  });
+
+  it('passes public addresses', () => {
+    for (const ip of ['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(ip), ip).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,382 @@
+import crypto from 'crypto';
+import dns from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Prisma, type WebhookDelivery } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { encryptToken, decryptToken } from '../middleware/auth.js';
+
+/**
+ * Outbound webhooks. Routes call emitWebhookEvent() next to the notify()
+ * calls for the same change; every matching endpoint gets a delivery row,
+ * which is attempted right away and retried with exponential backoff by the
+ * webhook cron until it succeeds or runs out of attempts.
+ *
+ * Each request is signed:
+ *   X-Introo-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * In production the endpoint's host is resolved on every attempt and the
+ * request only goes out if no address is private, loopback or link-local; it
+ * is then sent to the address that was checked, so a second DNS answer can't
+ * point it somewhere else.
+ */
+
+// ─── Events ──────────────────────────────────────────────────────────────────
+
+export const WEBHOOK_EVENTS = [
+  'request.created',
+  'request.declined',
+  'request.done',
+  'request.review_decided',
+  'space.member_joined',
+  'connection.accepted',
+  'signal.matched',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+/** Sent by POST /api/webhooks/:id/test; never matched by an event filter */
+export const WEBHOOK_PING = 'ping';
+
+/** Who an event concerns: their own endpoints, plus endpoints scoped to the space */
+export interface WebhookAudience {
+  userIds: (string | null | undefined)[];
+  spaceId?: string | null;
+}
+
+export function validateWebhookEvents(events: string[]): string | null {
+  for (const event of events) {
+    if (event !== '*' && !(WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+      return `Unknown webhook event: ${event}`;
+    }
+  }
+  return null;
+}
+
+/** The request fields every request.* event carries */
+export function requestWebhookData(request: {
+  id: string;
+  status: string;
+  rawText: string;
+  spaceId: string | null;
+  requesterId: string;
+  adminStatus?: string | null;
+  normalizedQuery: unknown;
+  createdAt: Date;
+}) {
+  const nq = (request.normalizedQuery as Record<string, unknown>) || {};
+  return {
+    id: request.id,
+    status: request.status,
+    adminStatus: request.adminStatus ?? null,
+    rawText: request.rawText,
+    spaceId: request.spaceId,
+    requesterId: request.requesterId,
+    connectionPeerId: (nq.connectionPeerId as string) || null,
+    companyName: (nq.companyName as string) || null,
+    companyDomain: (nq.companyDomain as string) || null,
+    createdAt: request.createdAt.toISOString(),
+  };
+}
+
+// ─── Endpoints ───────────────────────────────────────────────────────────────
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+export function encryptWebhookSecret(secret: string): string {
+  return encryptToken(secret);
+}
+
+// Addresses a webhook must never reach: private, loopback, link-local
+// (cloud metadata), CGNAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+/** The eight 16-bit groups of an IPv6 address, with `::` and a dotted IPv4 tail expanded */
+function ipv6Groups(ip: string): number[] {
+  let text = ip.toLowerCase();
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail ? tail.split(':') : [];
+  const groups = tail === undefined ? left : [...left, ...Array(8 - left.length - right.length).fill('0'), ...right];
+  return groups.map(g => parseInt(g, 16));
+}
+
+/**
+ * The IPv4 address carried by an IPv4-mapped (::ffff:7f00:1), IPv4-compatible
+ * or NAT64 (64:ff9b::/96) IPv6 address, which reaches that IPv4 host
+ */
+function embeddedIPv4(ip: string): string | null {
+  const g = ipv6Groups(ip);
+  const zeroPrefix = g.slice(0, 5).every(x => x === 0) && (g[5] === 0 || g[5] === 0xffff);
+  const nat64 = g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every(x => x === 0);
+  if (!zeroPrefix && !nat64) return null;
+  return [g[6] >> 8, g[6] & 0xff, g[7] >> 8, g[7] & 0xff].join('.');
+}
+
+/** Whether a webhook request to this IP address would stay inside a private network */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '');
+  if (net.isIPv4(ip)) return BLOCKED_ADDRESSES.check(ip, 'ipv4');
+  if (!net.isIPv6(ip)) return false;
+  const v4 = embeddedIPv4(ip);
+  return v4 ? BLOCKED_ADDRESSES.check(v4, 'ipv4') : BLOCKED_ADDRESSES.check(ip, 'ipv6');
+}
+
+/**
+ * Endpoints must be http(s). In production they must be https and not name a
+ * private or loopback address; in development a local receiver is fine. Host
+ * names are checked again against what they resolve to on every delivery.
+ */
+export function validateWebhookUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return 'Invalid webhook URL';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Webhook URL must be http(s)';
+  if (process.env.NODE_ENV === 'production') {
+    if (url.protocol !== 'https:') return 'Webhook URL must use https';
+    const host = url.hostname.toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+      return 'Webhook URL must be publicly reachable';
+    }
+  }
+  return null;
+}
+
+// ─── Emitting ────────────────────────────────────────────────────────────────
+
+/**
+ * Queue `event` for every active endpoint that subscribes to it and belongs
+ * to one of the audience's users (unscoped endpoints) or to the audience's
+ * space. Never throws — a webhook problem must not fail the request that
+ * caused the event.
+ */
+export async function emitWebhookEvent(event: WebhookEvent, audience: WebhookAudience, data: Record<string, unknown>): Promise<void> {
+  try {
+    const userIds = Array.from(new Set(audience.userIds.filter((id): id is string => !!id)));
+    const scopes: Prisma.WebhookEndpointWhereInput[] = [];
+    if (userIds.length > 0) scopes.push({ userId: { in: userIds }, spaceId: null });
+    if (audience.spaceId) scopes.push({ spaceId: audience.spaceId });
+    if (scopes.length === 0) return;
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { isActive: true, OR: scopes, events: { hasSome: [event, '*'] } },
+      select: { id: true },
+    });
+    if (endpoints.length === 0) return;
+
+    const deliveries = await prisma.webhookDelivery.createManyAndReturn({
+      data: endpoints.map(endpoint => ({
+        endpointId: endpoint.id,
+        event,
+        payload: buildPayload(event, data),
+        nextAttemptAt: firstRetryAt(),
+      })),
+    });
+    for (const delivery of deliveries) {
+      attemptDelivery(delivery.id).catch(err => console.error('[webhooks] Delivery error:', err));
+    }
+  } catch (err) {
+    console.error(`[webhooks] Failed to emit ${event}:`, err);
+  }
+}
+
+/** Queue and attempt a ping to one endpoint, whatever its event filter */
+export async function sendWebhookPing(endpointId: string): Promise<WebhookDelivery> {
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      endpointId,
+      event: WEBHOOK_PING,
+      payload: buildPayload(WEBHOOK_PING, { message: 'Webhook test from Introo' }),
+      nextAttemptAt: firstRetryAt(),
+    },
+  });
+  await attemptDelivery(delivery.id);
+  return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: delivery.id } });
+}
+
+function buildPayload(event: string, data: Record<string, unknown>): Prisma.InputJsonObject {
+  return JSON.parse(JSON.stringify({
+    id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+    event,
+    createdAt: new Date().toISOString(),
+    data,
+  }));
+}
+
+// ─── Delivery ────────────────────────────────────────────────────────────────
+
+const DELIVERY_TIMEOUT_MS = 10000;
+// Wait before attempt n+1, after n failed attempts; the last entry is the final retry
+const RETRY_DELAYS_MS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 8 * 60 * 60, 24 * 60 * 60].map(s => s * 1000);
+export const MAX_WEBHOOK_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const RETRY_BATCH_SIZE = 100;
+/** Finished deliveries are kept in the log this long */
+const DELIVERY_LOG_DAYS = 30;
+
+// Deliveries are attempted right away when queued; until then the cron
+// treats them as not yet due so it can't send them a second time.
+function firstRetryAt(): Date {
+  return new Date(Date.now() + RETRY_DELAYS_MS[0]);
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * The address to send a delivery to. In production every address the host
+ * resolves to must be public, so a name pointing at 10.x, 127.0.0.1 or the
+ * metadata service is refused.
+ */
+async function resolveDeliveryAddress(url: URL): Promise<{ address: string; family: number }> {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [{ address: host, family: net.isIP(host) }]
+    : await dns.lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+  if (process.env.NODE_ENV === 'production' && addresses.some(a => isPrivateAddress(a.address))) {
+    throw new Error('Webhook URL resolves to a private address');
+  }
+  return addresses[0];
+}
+
+/** POST `body` to `url` at the already-checked `target` address; resolves with the HTTP status */
+function postToAddress(
+  url: URL,
+  target: { address: string; family: number },
+  headers: Record<string, string>,
+  body: string,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const transport = url.protocol === 'https:' ? https : http;
+    const req = transport.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      // TLS and the Host header still use the URL's host name; only the connection is pinned
+      lookup: (_hostname, options, callback) => {
+        if (options.all) callback(null, [target]);
+        else callback(null, target.address, target.family);
+      },
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, res => {
+      // Redirects aren't followed; the body isn't needed
+      res.resume();
+      res.on('end', () => resolve(res.statusCode ?? 0));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/** POST one pending delivery and record the outcome */
+async function attemptDelivery(deliveryId: string): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: { select: { url: true, secret: true, isActive: true } } },
+  });
+  if (!delivery || delivery.status !== 'pending') return;
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  const secret = decryptToken(delivery.endpoint.secret);
+  if (!delivery.endpoint.isActive) {
+    error = 'Endpoint disabled';
+  } else if (!secret) {
+    error = 'Signing secret could not be decrypted; rotate it';
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const url = new URL(delivery.endpoint.url);
+      const target = await resolveDeliveryAddress(url);
+      responseStatus = await postToAddress(url, target, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Introo-Webhooks/1.0',
+        'X-Introo-Event': delivery.event,
+        'X-Introo-Delivery': delivery.id,
+        'X-Introo-Signature': signWebhookPayload(secret, timestamp, body),
+      }, body);
+      if (responseStatus < 200 || responseStatus >= 300) error = `HTTP ${responseStatus}`;
+    } catch (err) {
+      error = (err as Error).message || 'Request failed';
+    }
+  }
+
+  if (!error) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'succeeded', attempts, responseStatus, lastError: null, nextAttemptAt: null, deliveredAt: new Date() },
+    });
+    return;
+  }
+
+  const giveUp = attempts >= MAX_WEBHOOK_ATTEMPTS || !delivery.endpoint.isActive;
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: giveUp ? 'failed' : 'pending',
+      attempts,
+      responseStatus,
+      lastError: error.slice(0, 500),
+      nextAttemptAt: giveUp ? null : new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]),
+    },
+  });
+}
+
+/** Put a delivery back in the queue with a fresh set of attempts, and try it now */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookDelivery> {
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: { status: 'pending', attempts: 0, nextAttemptAt: firstRetryAt(), deliveredAt: null },
+  });
+  await attemptDelivery(deliveryId);
+  return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: deliveryId } });
+}
+
+/**
+ * Attempt deliveries whose retry time has come, and drop finished ones older
+ * than the log window. Returns how many were attempted.
+ */
+export async function retryWebhookDeliveries(): Promise<number> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: RETRY_BATCH_SIZE,
+    select: { id: true },
+  });
+  for (const { id } of due) {
+    await attemptDelivery(id);
+  }
+
+  await prisma.webhookDelivery.deleteMany({
+    where: {
+      status: { not: 'pending' },
+      createdAt: { lt: new Date(Date.now() - DELIVERY_LOG_DAYS * 24 * 60 * 60 * 1000) },
+    },
+  });
+  return due.length;
+}
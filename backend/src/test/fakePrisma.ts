@@ -0,0 +1,323 @@
+/**
+ * In-memory stand-in for the Prisma client, for service tests that shouldn't
+ * need a database. It covers the query shapes the services use: scalar
+ * filters, `in`/`not`/range operators, compound unique keys, to-one relation
+ * filters and `some`/`every`/`none` on to-many relations, `select`,
+ * `orderBy`, `distinct`, `aggregate` and `groupBy` with `_count`/`_sum`,
+ * column references (`prisma.job.fields.maxAttempts`) as filter operands, and
+ * `connect`/`increment` in writes. Raw SQL is not supported.
+ *
+ * Relations are declared per model:
+ *   createFakePrisma({
+ *     meeting: { contact: { model: 'contact', foreignKey: 'contactId' } },
+ *     contact: {
+ *       meetings: { model: 'meeting', many: true, foreignKey: 'contactId' },
+ *       sourceAccounts: { model: 'calendarAccount', many: true },
+ *     },
+ *   })
+ * A to-one relation reads `foreignKey` on its own row, a to-many relation with
+ * a `foreignKey` reads it on the other model's rows, and a many-to-many one
+ * keeps the connected ids on the row under the relation name.
+ *
+ * Column defaults other than id/createdAt/updatedAt are passed per model,
+ * e.g. { webhookDelivery: { status: 'pending', attempts: 0 } }.
+ */
+
+type Row = Record<string, any>;
+
+interface RelationSpec {
+  model: string;
+  foreignKey?: string;
+  many?: boolean;
+}
+
+export type FakeRelations = Record<string, Record<string, RelationSpec>>;
+
+export interface FakePrisma {
+  client: any;
+  tables: Record<string, Row[]>;
+  seed(model: string, rows: Row[]): Row[];
+}
+
+const FIELD_REF = Symbol('fieldRef');
+
+const SCALAR_OPERATORS = new Set(['equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte', 'contains', 'startsWith', 'endsWith', 'mode']);
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  return comparable(a ?? null) === comparable(b ?? null);
+}
+
+/** Replace column references among a filter's operands with the row's values */
+function resolveFieldRefs(row: Row, filter: unknown): unknown {
+  if (!isPlainObject(filter)) return filter;
+  return Object.fromEntries(Object.entries(filter).map(([op, operand]) => [
+    op, isPlainObject(operand) && FIELD_REF in operand ? row[(operand as any)[FIELD_REF]] : operand,
+  ]));
+}
+
+function matchScalar(value: unknown, filter: unknown): boolean {
+  if (!isPlainObject(filter) || !Object.keys(filter).every(k => SCALAR_OPERATORS.has(k))) {
+    return equals(value, filter);
+  }
+  const v = comparable(value) as any;
+  const insensitive = filter.mode === 'insensitive';
+  const text = (s: unknown) => (insensitive ? String(s).toLowerCase() : String(s));
+  return Object.entries(filter).every(([op, operand]) => {
+    const o = comparable(operand) as any;
+    switch (op) {
+      case 'equals': return equals(value, operand);
+      case 'in': return (operand as unknown[]).some(x => equals(value, x));
+      case 'notIn': return !(operand as unknown[]).some(x => equals(value, x));
+      case 'not': return !matchScalar(value, operand);
+      case 'lt': return v !== null && v !== undefined && v < o;
+      case 'lte': return v !== null && v !== undefined && v <= o;
+      case 'gt': return v !== null && v !== undefined && v > o;
+      case 'gte': return v !== null && v !== undefined && v >= o;
+      case 'contains': return typeof value === 'string' && text(value).includes(text(operand));
+      case 'startsWith': return typeof value === 'string' && text(value).startsWith(text(operand));
+      case 'endsWith': return typeof value === 'string' && text(value).endsWith(text(operand));
+      default: return true;
+    }
+  });
+}
+
+export function createFakePrisma(relations: FakeRelations = {}, defaults: Record<string, Row> = {}): FakePrisma {
+  const tables: Record<string, Row[]> = {};
+  let nextId = 1;
+
+  const table = (model: string) => (tables[model] ??= []);
+
+  function related(model: string, row: Row, name: string): Row[] {
+    const spec = relations[model]?.[name];
+    if (!spec) return [];
+    if (spec.many && spec.foreignKey) {
+      return table(spec.model).filter(r => r[spec.foreignKey!] === row.id);
+    }
+    if (spec.many) {
+      const ids: string[] = row[name] ?? [];
+      return table(spec.model).filter(r => ids.includes(r.id));
+    }
+    return table(spec.model).filter(r => r.id === row[spec.foreignKey!]);
+  }
+
+  function matches(model: string, row: Row, where: Row | undefined): boolean {
+    if (!where) return true;
+    return Object.entries(where).every(([key, filter]) => {
+      if (filter === undefined) return true;
+      if (key === 'AND') return (filter as Row[]).every(w => matches(model, row, w));
+      if (key === 'OR') return (filter as Row[]).some(w => matches(model, row, w));
+      if (key === 'NOT') return ![filter].flat().some(w => matches(model, row, w));
+
+      const spec = relations[model]?.[key];
+      if (spec) {
+        const rows = related(model, row, key);
+        if (spec.many) {
+          const f = filter as Row;
+          if (f.some && !rows.some(r => matches(spec.model, r, f.some))) return false;
+          if (f.every && !rows.every(r => matches(spec.model, r, f.every))) return false;
+          if (f.none && rows.some(r => matches(spec.model, r, f.none))) return false;
+          return true;
+        }
+        if (filter === null) return rows.length === 0;
+        return rows.length > 0 && matches(spec.model, rows[0], filter as Row);
+      }
+
+      // Compound unique keys such as userId_email: { userId, email }
+      if (!(key in row) && key.includes('_') && isPlainObject(filter)) {
+        return matches(model, row, filter);
+      }
+      return matchScalar(row[key], resolveFieldRefs(row, filter));
+    });
+  }
+
+  function project(model: string, row: Row, select?: Row, include?: Row): Row {
+    const withRelations = (base: Row, spec: Row | undefined) => {
+      for (const [name, value] of Object.entries(spec ?? {})) {
+        const relation = relations[model]?.[name];
+        if (!relation || !value) continue;
+        const rows = related(model, row, name);
+        const nested = isPlainObject(value) ? value : {};
+        const mapped = rows
+          .filter(r => matches(relation.model, r, nested.where))
+          .map(r => project(relation.model, r, nested.select, nested.include));
+        base[name] = relation.many ? mapped : mapped[0] ?? null;
+      }
+      return base;
+    };
+    if (!select) return withRelations({ ...row }, include);
+    const picked: Row = {};
+    for (const [key, value] of Object.entries(select)) {
+      if (value && !relations[model]?.[key]) picked[key] = row[key];
+    }
+    return withRelations(picked, select);
+  }
+
+  function sortRows(rows: Row[], orderBy: Row | Row[] | undefined): Row[] {
+    const terms = [orderBy ?? []].flat().flatMap(o => Object.entries(o));
+    if (terms.length === 0) return rows;
+    return [...rows].sort((a, b) => {
+      for (const [key, direction] of terms) {
+        const x = comparable(a[key]) as any;
+        const y = comparable(b[key]) as any;
+        if (x === y) continue;
+        const order = x === null || x === undefined ? 1 : y === null || y === undefined ? -1 : x < y ? -1 : 1;
+        return direction === 'desc' ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  function applyData(model: string, row: Row, data: Row): void {
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      const spec = relations[model]?.[key];
+      if (spec?.many && !spec.foreignKey && isPlainObject(value)) {
+        const ids: string[] = row[key] ?? [];
+        for (const target of [value.connect ?? []].flat()) if (!ids.includes(target.id)) ids.push(target.id);
+        const removed = [value.disconnect ?? []].flat().map((t: Row) => t.id);
+        row[key] = ids.filter(id => !removed.includes(id));
+        continue;
+      }
+      if (spec && isPlainObject(value) && value.connect) {
+        row[spec.foreignKey!] = value.connect.id;
+        continue;
+      }
+      if (isPlainObject(value) && 'increment' in value) row[key] = (row[key] ?? 0) + value.increment;
+      else if (isPlainObject(value) && 'decrement' in value) row[key] = (row[key] ?? 0) - value.decrement;
+      else if (isPlainObject(value) && 'set' in value) row[key] = value.set;
+      else row[key] = value;
+    }
+    if ('updatedAt' in row) row.updatedAt = new Date();
+  }
+
+  function insert(model: string, data: Row): Row {
+    const now = new Date();
+    const row: Row = { id: `${model}_${nextId++}`, createdAt: now, updatedAt: now, ...defaults[model] };
+    applyData(model, row, data);
+    table(model).push(row);
+    return row;
+  }
+
+  /** `_count` and `_sum` for aggregate and groupBy; a sum over no rows is null, as in Prisma */
+  function totals(rows: Row[], args: Row): Row {
+    return {
+      ...(args._count && { _count: { _all: rows.length } }),
+      ...(args._sum && {
+        _sum: Object.fromEntries(Object.keys(args._sum).map(k => [
+          k, rows.length === 0 ? null : rows.reduce((s, r) => s + (r[k] ?? 0), 0),
+        ])),
+      }),
+    };
+  }
+
+  function delegate(model: string) {
+    const findMany = (args: Row = {}) => {
+      let rows = sortRows(table(model).filter(r => matches(model, r, args.where)), args.orderBy);
+      if (args.distinct) {
+        const seen = new Set<string>();
+        rows = rows.filter(r => {
+          const key = JSON.stringify(args.distinct.map((k: string) => comparable(r[k])));
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+      if (args.skip) rows = rows.slice(args.skip);
+      if (args.take !== undefined) rows = rows.slice(0, args.take);
+      return rows.map(r => project(model, r, args.select, args.include));
+    };
+    const findFirst = (args: Row = {}) => findMany({ ...args, take: 1 })[0] ?? null;
+    const findRow = (where: Row) => table(model).find(r => matches(model, r, where));
+    const notFound = () => Object.assign(new Error(`No ${model} record found`), { code: 'P2025' });
+
+    return {
+      fields: new Proxy({}, { get: (_target, field) => ({ [FIELD_REF]: field }) }),
+      findMany: async (args?: Row) => findMany(args),
+      findFirst: async (args?: Row) => findFirst(args),
+      findUnique: async (args: Row) => findFirst(args),
+      findUniqueOrThrow: async (args: Row) => findFirst(args) ?? Promise.reject(notFound()),
+      findFirstOrThrow: async (args: Row) => findFirst(args) ?? Promise.reject(notFound()),
+      count: async (args: Row = {}) => table(model).filter(r => matches(model, r, args.where)).length,
+      create: async (args: Row) => project(model, insert(model, args.data), args.select, args.include),
+      createMany: async (args: Row) => {
+        [args.data].flat().forEach((data: Row) => insert(model, data));
+        return { count: [args.data].flat().length };
+      },
+      update: async (args: Row) => {
+        const row = findRow(args.where);
+        if (!row) throw notFound();
+        applyData(model, row, args.data);
+        return project(model, row, args.select, args.include);
+      },
+      updateMany: async (args: Row) => {
+        const rows = table(model).filter(r => matches(model, r, args.where));
+        rows.forEach(r => applyData(model, r, args.data));
+        return { count: rows.length };
+      },
+      upsert: async (args: Row) => {
+        const row = findRow(args.where);
+        if (row) applyData(model, row, args.update);
+        return project(model, row ?? insert(model, args.create), args.select, args.include);
+      },
+      delete: async (args: Row) => {
+        const row = findRow(args.where);
+        if (!row) throw notFound();
+        tables[model] = table(model).filter(r => r !== row);
+        return row;
+      },
+      deleteMany: async (args: Row = {}) => {
+        const before = table(model).length;
+        tables[model] = table(model).filter(r => !matches(model, r, args.where));
+        return { count: before - tables[model].length };
+      },
+      aggregate: async (args: Row) => totals(table(model).filter(r => matches(model, r, args.where)), args),
+      groupBy: async (args: Row) => {
+        const groups = new Map<string, Row[]>();
+        for (const row of table(model).filter(r => matches(model, r, args.where))) {
+          const key = JSON.stringify(args.by.map((k: string) => comparable(row[k])));
+          groups.set(key, [...(groups.get(key) ?? []), row]);
+        }
+        return [...groups.values()].map(rows => ({
+          ...Object.fromEntries(args.by.map((k: string) => [k, rows[0][k]])),
+          ...totals(rows, args),
+        }));
+      },
+    };
+  }
+
+  const unsupported = () => Promise.reject(new Error('Raw SQL is not supported by the fake Prisma client'));
+
+  const client: any = new Proxy({
+    $transaction: async (arg: unknown) =>
+      typeof arg === 'function' ? arg(client) : Promise.all(arg as Promise<unknown>[]),
+    $queryRaw: unsupported,
+    $executeRaw: unsupported,
+    $queryRawUnsafe: unsupported,
+    $executeRawUnsafe: unsupported,
+  } as Row, {
+    get(target, prop: string) {
+      if (prop in target) return target[prop];
+      return (target[prop] = delegate(prop));
+    },
+  });
+
+  return {
+    client,
+    tables,
+    seed(model, rows) {
+      return rows.map(r => {
+        const row = insert(model, {});
+        Object.assign(row, r);
+        return row;
+      });
+    },
+  };
+}
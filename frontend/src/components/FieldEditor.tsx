@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import type { FieldOverrides } from '../types';
+import type { FieldChanges } from '../lib/api';
+
+export interface EditableField {
+  key: string;
+  label: string;
+  value: string | number | null | undefined;
+  /** Field name in `overrides` when it differs from `key` (companyDomain → companyId) */
+  overrideKey?: string;
+  type?: 'text' | 'number' | 'url';
+  multiline?: boolean;
+}
+
+export interface FieldEditorProps {
+  fields: EditableField[];
+  overrides?: FieldOverrides;
+  onSave: (changes: FieldChanges) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Form for correcting a contact's or company's details by hand. Edited
+ * fields are marked and can be reverted to what enrichment or sync says.
+ */
+export function FieldEditor({ fields, overrides, onSave, onClose }: FieldEditorProps) {
+  const initial = Object.fromEntries(fields.map(f => [f.key, f.value == null ? '' : String(f.value)]));
+  const [values, setValues] = useState<Record<string, string>>(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (changes: FieldChanges): Promise<boolean> => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(changes);
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Failed to save');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = async () => {
+    const changes: FieldChanges = {};
+    for (const f of fields) {
+      const value = values[f.key].trim();
+      // Clearing a field isn't an edit; revert it instead
+      if (value === '' || value === initial[f.key]) continue;
+      changes[f.key] = f.type === 'number' ? Number(value) : value;
+    }
+    if (Object.keys(changes).length === 0 || await submit(changes)) onClose();
+  };
+
+  return (
+    <div className="u-field-editor" onClick={e => e.stopPropagation()}>
+      {fields.map(f => {
+        const override = overrides?.[f.overrideKey || f.key];
+        const original = override && !f.overrideKey && override.original != null ? String(override.original) : null;
+        return (
+          <label key={f.key} className="u-field-editor-row">
+            <span className="u-field-editor-label">
+              {f.label}
+              {override && (
+                <>
+                  <span className="u-field-editor-edited" title={original !== null ? `Was: ${original}` : undefined}>edited</span>
+                  <button
+                    type="button"
+                    className="u-field-editor-revert"
+                    disabled={saving}
+                    onClick={e => { e.preventDefault(); submit({ [f.key]: null }); }}
+                  >Revert</button>
+                </>
+              )}
+            </span>
+            {f.multiline ? (
+              <textarea
+                className="u-field-editor-input"
+                rows={3}
+                value={values[f.key]}
+                onChange={e => setValues(v => ({ ...v, [f.key]: e.target.value }))}
+              />
+            ) : (
+              <input
+                className="u-field-editor-input"
+                type={f.type || 'text'}
+                value={values[f.key]}
+                onChange={e => setValues(v => ({ ...v, [f.key]: e.target.value }))}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') save();
+                  if (e.key === 'Escape') onClose();
+                }}
+              />
+            )}
+          </label>
+        );
+      })}
+      {error && <p className="u-field-editor-error">{error}</p>}
+      <div className="u-field-editor-actions">
+        <button className="u-field-editor-btn" onClick={onClose} disabled={saving}>Cancel</button>
+        <button className="u-field-editor-btn u-field-editor-btn--primary" onClick={save} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 export { ErrorBoundary } from './ErrorBoundary';
 export { CompanyLogo } from './CompanyLogo';
 export { PersonAvatar } from './PersonAvatar';
+export { FieldEditor } from './FieldEditor';
+export type { EditableField } from './FieldEditor';
 export { OnboardingTour, resetOnboarding } from './OnboardingTour';
 export { OnboardingChecklist, resetChecklist } from './OnboardingChecklist';
 export type { ChecklistProgress, ChecklistActions, StepKey } from './OnboardingChecklist';
\ No newline at end of file
@@ -1,6 +1,8 @@
-import { notificationsApi } from '../../lib/api';
+import { useState } from 'react';
+import { notificationsApi, type Notification, type NotificationListItem, type NotificationView } from '../../lib/api';
 import { CompanyLogo } from '../../components';
-import type { DirectConnection, MergedCompany, PendingSpace, InlinePanel } from '../../types';
+import { useNotificationCenter, itemIds } from '../../hooks/useNotificationCenter';
+import type { DirectConnection, MergedCompany, PendingSpace, InlinePanel, Space } from '../../types';
 
 // Helper - duplicated from AIHomePage helpers for self-containment
 function getTimeAgo(dateStr: string): string {
@@ -15,44 +17,110 @@ function getTimeAgo(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString();
 }
 
-type Notification = Awaited<ReturnType<typeof notificationsApi.getAll>>[number];
+const VIEW_LABELS: Record<NotificationView, string> = {
+  inbox: 'Inbox',
+  snoozed: 'Snoozed',
+  archived: 'Archived',
+};
+
+// Type filter options, matching the categories in notification settings
+const TYPE_FILTERS: { label: string; types: string[] }[] = [
+  { label: 'All types', types: [] },
+  { label: 'Intro requests', types: ['intro_request', 'intro_review', 'intro_escalated'] },
+  { label: 'My requests', types: ['intro_approved', 'intro_declined', 'intro_offered', 'details_requested', 'intro_contact_agreed', 'intro_contact_declined', 'intro_expired'] },
+  { label: 'Connections', types: ['connection_request', 'connection_accepted'] },
+  { label: 'Spaces', types: ['space_invited', 'space_join_request', 'space_approved', 'space_member_joined', 'space_member_left', 'space_removed'] },
+];
+
+// Snooze choices, as the time the notification comes back
+const SNOOZE_OPTIONS: { label: string; until: () => Date }[] = [
+  { label: '1 hour', until: () => new Date(Date.now() + 60 * 60 * 1000) },
+  { label: 'Tomorrow morning', until: () => { const d = new Date(); d.setDate(d.getDate() + 1); d.setHours(9, 0, 0, 0); return d; } },
+  { label: 'Next week', until: () => { const d = new Date(); d.setDate(d.getDate() + ((8 - d.getDay()) % 7 || 7)); d.setHours(9, 0, 0, 0); return d; } },
+];
+
+function typeIcon(type: string): { icon: string; accentClass: string } {
+  if (type === 'intro_request') return { icon: '🤝', accentClass: 'intro' };
+  if (type === 'intro_offered') return { icon: '✨', accentClass: 'offered' };
+  if (type === 'intro_declined') return { icon: '✗', accentClass: 'declined' };
+  if (type === 'intro_review') return { icon: '📋', accentClass: 'intro' };
+  if (type === 'intro_approved') return { icon: '✅', accentClass: 'offered' };
+  if (type === 'details_requested') return { icon: '📝', accentClass: 'intro' };
+  if (type === 'intro_escalated') return { icon: '⏰', accentClass: 'intro' };
+  if (type === 'intro_expired') return { icon: '⌛', accentClass: 'declined' };
+  if (type === 'intro_contact_agreed') return { icon: '👍', accentClass: 'offered' };
+  if (type === 'intro_contact_declined') return { icon: '✗', accentClass: 'declined' };
+  if (type === 'space_invited' || type === 'space_approved') return { icon: '🎉', accentClass: 'space-positive' };
+  if (type === 'space_member_joined') return { icon: '👋', accentClass: 'space-positive' };
+  if (type === 'space_join_request') return { icon: '📩', accentClass: 'space-neutral' };
+  if (type === 'space_member_left') return { icon: '👤', accentClass: 'space-neutral' };
+  if (type === 'space_removed') return { icon: '🚫', accentClass: 'space-negative' };
+  if (type === 'connection_request') return { icon: '👋', accentClass: 'space-positive' };
+  if (type === 'connection_accepted') return { icon: '🤝', accentClass: 'space-positive' };
+  return { icon: '🔔', accentClass: '' };
+}
 
 interface NotificationsPanelProps {
-  notifications: Notification[];
   connections: DirectConnection[];
   mergedCompanies: MergedCompany[];
+  spaces: Space[];
   pendingSpaces: PendingSpace[];
   onNavigate: (panel: InlinePanel) => void;
   onAcceptConnection: (id: string) => void;
   onRejectConnection: (id: string) => void;
   onAcceptSpaceInvite: (spaceId: string) => void;
   onRejectSpaceInvite: (spaceId: string) => void;
-  onDeleteNotification: (id: string) => void;
-  onClearAllNotifications: () => void;
+  /** Called after notifications were read, moved or deleted, e.g. to refresh the unread count */
+  onNotificationsChanged: () => void;
 }
 
 export function NotificationsPanel({
-  notifications, connections, mergedCompanies, pendingSpaces,
+  connections, mergedCompanies, spaces, pendingSpaces,
   onNavigate, onAcceptConnection, onRejectConnection,
   onAcceptSpaceInvite, onRejectSpaceInvite,
-  onDeleteNotification, onClearAllNotifications,
+  onNotificationsChanged,
 }: NotificationsPanelProps) {
-  if (notifications.length === 0) {
-    return (
-      <div className="u-panel-notifs">
-        <h2>Notifications</h2>
-        <div className="u-panel-empty">
-          <span className="u-panel-empty-icon">🔔</span>
-          <p>No notifications yet</p>
-        </div>
-      </div>
-    );
-  }
+  const {
+    filters, setFilters, items, loading, hasMore, loadMore,
+    markRead, archive, unarchive, snooze, unsnooze, remove, clearAll,
+  } = useNotificationCenter(onNotificationsChanged);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
+  const toggleGroup = (key: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
 
-  const unread = notifications.filter(n => !n.isRead);
-  const read = notifications.filter(n => n.isRead);
+  // Snooze / archive controls for one entry (a single notification or a whole group)
+  const renderItemActions = (ids: string[]) => (
+    <div className="u-panel-notif-item-actions" onClick={e => e.stopPropagation()}>
+      {filters.view === 'inbox' && (
+        <select
+          className="u-panel-notif-snooze"
+          value=""
+          title="Snooze"
+          onChange={e => {
+            const option = SNOOZE_OPTIONS[Number(e.target.value)];
+            if (option) snooze(ids, option.until());
+          }}
+        >
+          <option value="" disabled>Snooze…</option>
+          {SNOOZE_OPTIONS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+        </select>
+      )}
+      {filters.view === 'snoozed' && (
+        <button className="u-panel-notif-action-btn" onClick={() => unsnooze(ids)}>Back to inbox</button>
+      )}
+      {filters.view === 'archived'
+        ? <button className="u-panel-notif-action-btn" onClick={() => unarchive(ids)}>Unarchive</button>
+        : <button className="u-panel-notif-action-btn" onClick={() => archive(ids)}>Archive</button>}
+    </div>
+  );
 
-  const renderNotif = (n: Notification) => {
+  const renderNotif = (n: Notification, withActions = true) => {
     const data = (n.data || {}) as Record<string, unknown>;
     const spaceId = data.spaceId as string | undefined;
     const spaceEmoji = data.spaceEmoji as string | undefined;
@@ -64,7 +132,7 @@ export function NotificationsPanel({
     const connPeerName = data.connectionPeerName as string | undefined;
     const requesterId = data.requesterId as string | undefined;
     const timeAgo = getTimeAgo(n.createdAt);
-    const isIntroType = ['intro_request', 'intro_offered', 'intro_declined', 'intro_review', 'intro_approved', 'details_requested'].includes(n.type);
+    const isIntroType = ['intro_request', 'intro_offered', 'intro_declined', 'intro_review', 'intro_approved', 'details_requested', 'intro_escalated', 'intro_expired', 'intro_contact_agreed', 'intro_contact_declined'].includes(n.type);
     const is1to1 = isIntroType && !spaceId && !!(connPeerId || requesterId);
 
     const notifConn = connPeerId || requesterId
@@ -76,21 +144,7 @@ export function NotificationsPanel({
       : undefined;
     const isClickable = !!(spaceId || notifConn || matchedNotifCompany);
 
-    let icon = '🔔';
-    let accentClass = '';
-    if (n.type === 'intro_request') { icon = '🤝'; accentClass = 'intro'; }
-    else if (n.type === 'intro_offered') { icon = '✨'; accentClass = 'offered'; }
-    else if (n.type === 'intro_declined') { icon = '✗'; accentClass = 'declined'; }
-    else if (n.type === 'intro_review') { icon = '📋'; accentClass = 'intro'; }
-    else if (n.type === 'intro_approved') { icon = '✅'; accentClass = 'offered'; }
-    else if (n.type === 'details_requested') { icon = '📝'; accentClass = 'intro'; }
-    else if (n.type === 'space_invited' || n.type === 'space_approved') { icon = '🎉'; accentClass = 'space-positive'; }
-    else if (n.type === 'space_member_joined') { icon = '👋'; accentClass = 'space-positive'; }
-    else if (n.type === 'space_join_request') { icon = '📩'; accentClass = 'space-neutral'; }
-    else if (n.type === 'space_member_left') { icon = '👤'; accentClass = 'space-neutral'; }
-    else if (n.type === 'space_removed') { icon = '🚫'; accentClass = 'space-negative'; }
-    else if (n.type === 'connection_request') { icon = '👋'; accentClass = 'space-positive'; }
-    else if (n.type === 'connection_accepted') { icon = '🤝'; accentClass = 'space-positive'; }
+    const { icon, accentClass } = typeIcon(n.type);
 
     const connRequestId = data.connectionId as string | undefined;
     const isConnType = n.type === 'connection_request' || n.type === 'connection_accepted';
@@ -113,7 +167,7 @@ export function NotificationsPanel({
             if (!n.isRead) notificationsApi.markAsRead(n.id);
             return;
           }
-          if ((n.type === 'intro_request' || n.type === 'intro_review' || n.type === 'intro_approved') && spaceId) {
+          if ((n.type === 'intro_request' || n.type === 'intro_review' || n.type === 'intro_approved' || n.type === 'intro_escalated') && spaceId) {
             onNavigate({ type: 'space', spaceId });
           } else if (n.type === 'intro_request' && notifConn) {
             onNavigate({ type: 'connection', connectionId: notifConn.id });
@@ -194,45 +248,139 @@ export function NotificationsPanel({
               )}
             </div>
           )}
+          {n.snoozedUntil && (
+            <div className="u-panel-notif-footer">
+              <span className="u-panel-notif-time">Back {new Date(n.snoozedUntil).toLocaleString()}</span>
+            </div>
+          )}
+          {withActions && renderItemActions([n.id])}
         </div>
         <button
           className="u-notif-delete-btn"
           title="Delete notification"
-          onClick={(e) => { e.stopPropagation(); onDeleteNotification(n.id); }}
+          onClick={(e) => { e.stopPropagation(); remove([n.id]); }}
         >×</button>
         {isClickableFinal && <span className="u-panel-notif-arrow">→</span>}
       </div>
     );
   };
 
+  const renderGroup = (group: Extract<NotificationListItem, { kind: 'group' }>) => {
+    const { icon, accentClass } = typeIcon(group.type);
+    const expanded = expandedGroups.has(group.key);
+    const first = group.notifications[0];
+    return (
+      <div key={group.key} className="u-panel-notif-group">
+        <div
+          className={`u-panel-notif-card clickable ${!group.isRead ? 'unread' : ''}`}
+          onClick={() => {
+            toggleGroup(group.key);
+            if (!group.isRead) markRead(itemIds(group));
+          }}
+        >
+          <div className={`u-panel-notif-icon ${accentClass}`}>{icon}</div>
+          <div className="u-panel-notif-body">
+            <div className="u-panel-notif-title">{group.title}</div>
+            <div className="u-panel-notif-text">Latest: {first.title}</div>
+            <div className="u-panel-notif-footer">
+              <span className="u-panel-notif-time">{getTimeAgo(group.sortAt)}</span>
+              {group.spaceName && (
+                <span className="u-panel-notif-space">{group.spaceEmoji || '🫛'} {group.spaceName}</span>
+              )}
+            </div>
+            {renderItemActions(itemIds(group))}
+          </div>
+          <span className="u-panel-notif-group-count">{expanded ? '▾' : `${group.count} ▸`}</span>
+        </div>
+        {expanded && (
+          <div className="u-panel-notif-group-members">
+            {group.notifications.map(n => renderNotif(n, false))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderItem = (item: NotificationListItem) =>
+    item.kind === 'group' ? renderGroup(item) : renderNotif(item.notification);
+
+  const isUnread = (item: NotificationListItem) =>
+    item.kind === 'group' ? !item.isRead : !item.notification.isRead;
+  // New / Earlier only makes sense for the inbox; the other views are one list
+  const unread = filters.view === 'inbox' ? items.filter(isUnread) : [];
+  const rest = filters.view === 'inbox' ? items.filter(item => !isUnread(item)) : items;
+  const typeFilterIndex = Math.max(0, TYPE_FILTERS.findIndex(f => f.types.join(',') === filters.types.join(',')));
+
   return (
     <div className="u-panel-notifs">
       <div className="u-panel-notifs-header">
         <h2>Notifications</h2>
-        {notifications.length > 0 && (
+        {items.length > 0 && (
           <button
             className="u-notif-clear-all-btn"
-            onClick={onClearAllNotifications}
+            onClick={clearAll}
             title="Clear all notifications"
           >
             Clear all
           </button>
         )}
       </div>
-      <div className="u-panel-notif-list">
-        {unread.length > 0 && (
-          <>
-            <div className="u-panel-notif-section-label">New</div>
-            {unread.map(renderNotif)}
-          </>
-        )}
-        {read.length > 0 && (
-          <>
-            <div className="u-panel-notif-section-label u-panel-notif-section-label--earlier">Earlier</div>
-            {read.map(renderNotif)}
-          </>
+      <div className="u-panel-notif-tabs">
+        {(Object.keys(VIEW_LABELS) as NotificationView[]).map(view => (
+          <button
+            key={view}
+            className={`u-panel-notif-tab ${filters.view === view ? 'active' : ''}`}
+            onClick={() => setFilters(prev => ({ ...prev, view }))}
+          >
+            {VIEW_LABELS[view]}
+          </button>
+        ))}
+      </div>
+      <div className="u-panel-notif-filters">
+        <select
+          value={typeFilterIndex}
+          onChange={e => setFilters(prev => ({ ...prev, types: TYPE_FILTERS[Number(e.target.value)].types }))}
+        >
+          {TYPE_FILTERS.map((f, i) => <option key={f.label} value={i}>{f.label}</option>)}
+        </select>
+        {spaces.length > 0 && (
+          <select
+            value={filters.spaceId || ''}
+            onChange={e => setFilters(prev => ({ ...prev, spaceId: e.target.value || null }))}
+          >
+            <option value="">All spaces</option>
+            {spaces.map(space => <option key={space.id} value={space.id}>{space.emoji} {space.name}</option>)}
+          </select>
         )}
       </div>
+      {items.length === 0 && !loading ? (
+        <div className="u-panel-empty">
+          <span className="u-panel-empty-icon">🔔</span>
+          <p>{filters.view === 'inbox' ? 'No notifications yet' : `Nothing ${filters.view}`}</p>
+        </div>
+      ) : (
+        <div className="u-panel-notif-list">
+          {unread.length > 0 && (
+            <>
+              <div className="u-panel-notif-section-label">New</div>
+              {unread.map(renderItem)}
+            </>
+          )}
+          {rest.length > 0 && (
+            <>
+              {unread.length > 0 && (
+                <div className="u-panel-notif-section-label u-panel-notif-section-label--earlier">Earlier</div>
+              )}
+              {rest.map(renderItem)}
+            </>
+          )}
+          {hasMore && (
+            <button className="u-panel-notif-more" onClick={loadMore} disabled={loading}>
+              {loading ? 'Loading…' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
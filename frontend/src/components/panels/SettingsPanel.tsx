@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { calendarApi, authApi, type CalendarAccountInfo } from '../../lib/api';
+import { useEffect, useState } from 'react';
+import { calendarApi, authApi, notificationsApi, apiTokensApi, type CalendarAccountInfo, type NotificationDelivery, type NotificationPreference, type ApiToken, type ApiTokenScope } from '../../lib/api';
 import { PersonAvatar } from '../../components';
 import { resetOnboarding } from '../../components/OnboardingTour';
 import { resetChecklist } from '../../components/OnboardingChecklist';
@@ -239,6 +239,24 @@ export function SettingsPanel({
         <TimezoneSelector currentUser={currentUser} />
       </div>
 
+      {/* Notifications */}
+      <div className="u-panel-section">
+        <h4 className="u-panel-section-h">Notifications</h4>
+        <span className="u-settings-meta" style={{ marginBottom: '0.4rem' }}>
+          Choose how you hear about each kind of update. Digest emails go out once an hour.
+        </span>
+        <NotificationPreferences />
+      </div>
+
+      {/* API Tokens */}
+      <div className="u-panel-section">
+        <h4 className="u-panel-section-h">API Tokens</h4>
+        <span className="u-settings-meta" style={{ marginBottom: '0.4rem' }}>
+          Personal tokens for scripts and internal tools. Send one as <code>Authorization: Bearer …</code>; it can only reach what its scopes allow.
+        </span>
+        <ApiTokens />
+      </div>
+
       <div className="u-settings-help">
         <span className="u-settings-help-label">Help</span>
         <a
@@ -339,3 +357,200 @@ function TimezoneSelector({ currentUser }: { currentUser: User | null }) {
     </div>
   );
 }
+
+const DELIVERY_LABELS: Record<NotificationDelivery, string> = {
+  in_app: 'In-app only',
+  email: 'Email right away',
+  digest: 'Hourly digest',
+  muted: 'Muted',
+};
+
+const CATEGORY_LABELS: Record<NotificationPreference['category'], string> = {
+  requests: 'Intro requests',
+  connections: 'Connections',
+  spaces: 'Spaces',
+};
+
+function NotificationPreferences() {
+  const [preferences, setPreferences] = useState<NotificationPreference[] | null>(null);
+  const [savingType, setSavingType] = useState<string | null>(null);
+
+  useEffect(() => {
+    notificationsApi.getPreferences().then(setPreferences).catch(() => {});
+  }, []);
+
+  const handleChange = async (type: string, delivery: NotificationDelivery) => {
+    setPreferences(prev => prev?.map(p => (p.type === type ? { ...p, delivery } : p)) || null);
+    setSavingType(type);
+    try {
+      setPreferences(await notificationsApi.updatePreferences({ [type]: delivery }));
+    } catch { /* ignore */ }
+    setSavingType(null);
+  };
+
+  if (!preferences) return <span className="u-settings-meta">Loading...</span>;
+
+  return (
+    <>
+      {(Object.keys(CATEGORY_LABELS) as NotificationPreference['category'][]).map(category => (
+        <div key={category}>
+          <span className="u-settings-row-status" style={{ display: 'block', marginTop: '0.5rem' }}>{CATEGORY_LABELS[category]}</span>
+          {preferences.filter(p => p.category === category).map(pref => (
+            <div key={pref.type} className="u-settings-row">
+              <div className="u-settings-row-info">
+                <span className="u-settings-row-label">{pref.label}</span>
+                {savingType === pref.type && <span className="u-settings-row-status">Saving...</span>}
+              </div>
+              <select
+                className="u-settings-tz-select"
+                value={pref.delivery}
+                onChange={e => handleChange(pref.type, e.target.value as NotificationDelivery)}
+              >
+                {(Object.keys(DELIVERY_LABELS) as NotificationDelivery[]).map(d => (
+                  <option key={d} value={d}>
+                    {DELIVERY_LABELS[d]}{d === pref.defaultDelivery ? ' (default)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      ))}
+    </>
+  );
+}
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'network:read': 'Read network',
+  'requests:write': 'Create intro requests',
+  'spaces:manage': 'Manage spaces',
+};
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+];
+
+function tokenStatus(token: ApiToken): string {
+  if (token.revokedAt) return `Revoked ${new Date(token.revokedAt).toLocaleDateString()}`;
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return 'Expired';
+  const used = token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleDateString()}` : 'Never used';
+  const expires = token.expiresAt ? `expires ${new Date(token.expiresAt).toLocaleDateString()}` : 'no expiry';
+  return `${used} · ${expires}`;
+}
+
+function ApiTokens() {
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['network:read']);
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiTokensApi.getAll().then(setTokens).catch(() => {});
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => (prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || scopes.length === 0) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const { token, ...created } = await apiTokensApi.create({
+        name: name.trim(),
+        scopes,
+        expiresInDays: EXPIRY_OPTIONS[expiryIndex].days,
+      });
+      setTokens(prev => [created, ...(prev || [])]);
+      setNewToken(token);
+      setName('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create token');
+    }
+    setCreating(false);
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this token? Scripts using it will stop working immediately.')) return;
+    try {
+      const revoked = await apiTokensApi.revoke(id);
+      setTokens(prev => prev?.map(t => (t.id === id ? revoked : t)) || null);
+    } catch { /* ignore */ }
+  };
+
+  if (!tokens) return <span className="u-settings-meta">Loading...</span>;
+
+  return (
+    <>
+      {newToken && (
+        <div className="u-settings-token-reveal">
+          <span className="u-settings-row-status">Copy this token now — it won't be shown again.</span>
+          <code>{newToken}</code>
+          <div style={{ display: 'flex', gap: '0.4rem' }}>
+            <button className="u-action-btn" onClick={() => navigator.clipboard?.writeText(newToken)}>Copy</button>
+            <button className="u-action-btn" onClick={() => setNewToken(null)}>Done</button>
+          </div>
+        </div>
+      )}
+
+      {tokens.map(token => (
+        <div key={token.id} className={`u-settings-row ${token.revokedAt ? 'u-settings-row-disabled' : ''}`}>
+          <div className="u-settings-row-info">
+            <span className="u-settings-row-label">
+              {token.name} <code className="u-settings-token-prefix">{token.prefix}…</code>
+            </span>
+            <span className="u-settings-row-status">{token.scopes.map(s => SCOPE_LABELS[s] || s).join(', ')}</span>
+            <span className="u-settings-row-status">{tokenStatus(token)}</span>
+          </div>
+          {!token.revokedAt && (
+            <button className="u-action-btn" onClick={() => handleRevoke(token.id)}>Revoke</button>
+          )}
+        </div>
+      ))}
+
+      <div className="u-settings-token-form">
+        <input
+          className="u-settings-token-input"
+          placeholder="Token name, e.g. CRM sync"
+          value={name}
+          maxLength={100}
+          onChange={e => setName(e.target.value)}
+        />
+        <div className="u-settings-token-scopes">
+          {(Object.keys(SCOPE_LABELS) as ApiTokenScope[]).map(scope => (
+            <label key={scope} className="u-settings-row-status">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: '0.4rem', alignItems: 'center' }}>
+          <select
+            className="u-settings-tz-select"
+            value={expiryIndex}
+            onChange={e => setExpiryIndex(Number(e.target.value))}
+          >
+            {EXPIRY_OPTIONS.map((option, i) => (
+              <option key={option.label} value={i}>Expires: {option.label}</option>
+            ))}
+          </select>
+          <button
+            className="u-action-btn"
+            onClick={handleCreate}
+            disabled={creating || !name.trim() || scopes.length === 0}
+          >
+            {creating ? 'Creating...' : 'Create token'}
+          </button>
+        </div>
+        {error && <span className="u-settings-meta" style={{ color: '#e57373' }}>{error}</span>}
+      </div>
+    </>
+  );
+}
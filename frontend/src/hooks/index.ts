@@ -2,3 +2,5 @@ export { useProfile } from './useProfile';
 export { useEnrichment } from './useEnrichment';
 export { useSpaceManagement } from './useSpaceManagement';
 export { useConnectionManagement } from './useConnectionManagement';
+export { useNotificationStream } from './useNotificationStream';
+export { useNotificationCenter } from './useNotificationCenter';
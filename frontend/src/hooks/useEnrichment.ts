@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { enrichmentApi, type EnrichmentProgress } from '../lib/api';
+import { useNotificationStream } from './useNotificationStream';
 
 interface EnrichStats {
   contacts: { total: number; enriched: number; identified?: number; notFound?: number; pending?: number };
@@ -51,9 +52,30 @@ export function useEnrichment(refreshData: () => Promise<void>, storeLoading: bo
     checkEnrichmentRunning();
   }, [checkEnrichmentRunning, refreshStats]);
 
+  // Progress arrives over the notification stream; polling is only the fallback
+  const applyProgress = useCallback((progress: { contacts: EnrichmentProgress | null; companies: EnrichmentProgress | null; contactsFree: EnrichmentProgress | null }) => {
+    setEnrichProgress(progress);
+    if (!progress.contactsFree) return;
+    sawRunning.current = true;
+    setEnriching(!progress.contactsFree.done);
+
+    if (progress.contactsFree.error) {
+      setEnrichError(progress.contactsFree.error);
+    }
+
+    if (progress.contactsFree.done) {
+      refreshStats();
+      refreshData();
+    }
+  }, [refreshData, refreshStats]);
+
+  const streamConnected = useNotificationStream(event => {
+    if (event.type === 'enrichment_progress') applyProgress(event.data);
+  });
+
   // After store loads, poll briefly to detect enrichment that may have just started.
   useEffect(() => {
-    if (storeLoading || enriching) return;
+    if (storeLoading || enriching || streamConnected) return;
     let attempts = 0;
     const interval = setInterval(async () => {
       attempts++;
@@ -64,19 +86,18 @@ export function useEnrichment(refreshData: () => Promise<void>, storeLoading: bo
       }
     }, POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [storeLoading, enriching, checkEnrichmentRunning, refreshStats]);
+  }, [storeLoading, enriching, streamConnected, checkEnrichmentRunning, refreshStats]);
 
-  // Poll progress while enrichment is running
+  // Poll progress while enrichment is running and the stream is down
   useEffect(() => {
-    if (!enriching) return;
+    if (!enriching || streamConnected) return;
     let pollCount = 0;
     const interval = setInterval(() => {
       pollCount++;
       enrichmentApi.getProgress()
         .then(progress => {
-          setEnrichProgress(progress);
-
           if (!progress.contactsFree) {
+            setEnrichProgress(progress);
             if (pollCount > DETECTION_ATTEMPTS) {
               setEnriching(false);
               setEnrichError('Enrichment process was lost. Please try again.');
@@ -85,21 +106,12 @@ export function useEnrichment(refreshData: () => Promise<void>, storeLoading: bo
             }
             return;
           }
-
-          if (progress.contactsFree.error) {
-            setEnrichError(progress.contactsFree.error);
-          }
-
-          if (progress.contactsFree.done) {
-            setEnriching(false);
-            refreshStats();
-            refreshData();
-          }
+          applyProgress(progress);
         })
         .catch(() => {});
     }, POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [enriching, refreshData, refreshStats]);
+  }, [enriching, streamConnected, applyProgress, refreshData, refreshStats]);
 
   // Start enrichment — only processes never-attempted contacts
   const startEnrichment = useCallback(async () => {
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { notificationsApi, type NotificationListItem, type NotificationView } from '../lib/api';
+import { useNotificationStream } from './useNotificationStream';
+
+const PAGE_SIZE = 30;
+
+export interface NotificationFilters {
+  view: NotificationView;
+  types: string[];
+  spaceId: string | null;
+}
+
+/** Ids of every notification behind a list entry */
+export function itemIds(item: NotificationListItem): string[] {
+  return item.kind === 'group' ? item.notifications.map(n => n.id) : [item.notification.id];
+}
+
+/**
+ * The notification list: filters, cursor paging, and the read / archive /
+ * snooze / delete actions. The first page reloads when a notification
+ * arrives live or the stream asks for a resync.
+ */
+export function useNotificationCenter(onChanged: () => void) {
+  const [filters, setFilters] = useState<NotificationFilters>({ view: 'inbox', types: [], spaceId: null });
+  const [items, setItems] = useState<NotificationListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Ignore responses for filters that have since changed
+  const requestRef = useRef(0);
+
+  const query = useCallback((cursor: string | null) => notificationsApi.list({
+    view: filters.view,
+    types: filters.types,
+    spaceId: filters.spaceId || undefined,
+    cursor,
+    limit: PAGE_SIZE,
+  }), [filters]);
+
+  const reload = useCallback(async () => {
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    try {
+      const page = await query(null);
+      if (requestId !== requestRef.current) return;
+      setItems(page.items);
+      setNextCursor(page.pagination.nextCursor);
+    } catch (e) {
+      console.error('Failed to fetch notifications:', e);
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  }, [query]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading) return;
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    try {
+      const page = await query(nextCursor);
+      if (requestId !== requestRef.current) return;
+      setItems(prev => [...prev, ...page.items]);
+      setNextCursor(page.pagination.nextCursor);
+    } catch (e) {
+      console.error('Failed to fetch notifications:', e);
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  }, [query, nextCursor, loading]);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  useNotificationStream(event => {
+    if (event.type === 'notification' || event.type === 'resync') reload();
+  });
+
+  // Entries an action moved out of the current view disappear straight away
+  const removeItems = useCallback((ids: string[]) => {
+    setItems(prev => prev.filter(item => !itemIds(item).some(id => ids.includes(id))));
+  }, []);
+
+  const markRead = useCallback(async (ids: string[]) => {
+    try {
+      await notificationsApi.markRead(ids);
+      setItems(prev => prev.map(item => {
+        if (!itemIds(item).some(id => ids.includes(id))) return item;
+        return item.kind === 'group'
+          ? { ...item, isRead: true, notifications: item.notifications.map(n => ({ ...n, isRead: true })) }
+          : { ...item, notification: { ...item.notification, isRead: true } };
+      }));
+      onChanged();
+    } catch (e) { console.error('Failed to mark notifications as read:', e); }
+  }, [onChanged]);
+
+  const runAndRemove = useCallback(async (ids: string[], action: (ids: string[]) => Promise<unknown>) => {
+    try {
+      await action(ids);
+      removeItems(ids);
+      onChanged();
+    } catch (e) { console.error('Notification update failed:', e); }
+  }, [removeItems, onChanged]);
+
+  const archive = useCallback((ids: string[]) => runAndRemove(ids, notificationsApi.archive), [runAndRemove]);
+  const unarchive = useCallback((ids: string[]) => runAndRemove(ids, notificationsApi.unarchive), [runAndRemove]);
+  const unsnooze = useCallback((ids: string[]) => runAndRemove(ids, notificationsApi.unsnooze), [runAndRemove]);
+  const snooze = useCallback(
+    (ids: string[], until: Date) => runAndRemove(ids, batch => notificationsApi.snooze(batch, until.toISOString())),
+    [runAndRemove],
+  );
+  const remove = useCallback(
+    (ids: string[]) => runAndRemove(ids, batch => Promise.all(batch.map(id => notificationsApi.deleteOne(id)))),
+    [runAndRemove],
+  );
+
+  const clearAll = useCallback(async () => {
+    try {
+      await notificationsApi.deleteAll();
+      setItems([]);
+      setNextCursor(null);
+      onChanged();
+    } catch (e) { console.error('Failed to clear notifications:', e); }
+  }, [onChanged]);
+
+  return {
+    filters, setFilters,
+    items, loading, hasMore: !!nextCursor, loadMore, reload,
+    markRead, archive, unarchive, snooze, unsnooze, remove, clearAll,
+  };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef, useState } from 'react';
+import { subscribeToNotificationStream, type NotificationStreamEvent } from '../lib/notificationStream';
+
+/**
+ * Listen to live notifications and events. Returns whether the stream is
+ * connected, so callers can fall back to polling while it isn't.
+ */
+export function useNotificationStream(onEvent: (event: NotificationStreamEvent) => void): boolean {
+  const [connected, setConnected] = useState(false);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    return subscribeToNotificationStream(event => handlerRef.current(event), setConnected);
+  }, []);
+
+  return connected;
+}
@@ -42,6 +42,10 @@ export function useSpaceManagement(
           inviteCode: s.inviteCode,
           ownerId: s.ownerId,
           introReviewMode: s.introReviewMode || 'end_to_end',
+          strengthConfig: s.strengthConfig,
+          staleReminderDays: s.staleReminderDays,
+          staleEscalationDays: s.staleEscalationDays,
+          staleExpiryDays: s.staleExpiryDays,
           members: s.members,
         }));
         setSpaces(spacesList);
@@ -3,6 +3,11 @@ import type {
   Company,
   Contact,
   Space,
+  MeetingTimelineEntry,
+  StrengthBreakdown,
+  StrengthConfig,
+  IntroRequestDetails,
+  RequestUrgency,
 } from '../types';
 
 // Re-export types for convenience
@@ -61,15 +66,45 @@ export interface CalendarAccountInfo {
   contactsCount: number;
 }
 
+/** A calendar sync runs as a background job; the sync routes return it */
+export interface CalendarSyncJob {
+  jobId: string;
+  status: 'queued' | 'running' | 'succeeded' | 'cancelled' | 'dead';
+  result: { eventsProcessed?: number; failed?: number; needsReauth?: boolean } | null;
+  lastError: string | null;
+}
+
+const SYNC_POLL_MS = 2000;
+const SYNC_WAIT_MS = 5 * 60 * 1000;
+
 export const calendarApi = {
-  sync: () => request<{ success: boolean; contactsFound: number; companiesFound: number; relationshipsCreated: number }>('/api/calendar/sync', { method: 'POST' }),
+  sync: () => request<CalendarSyncJob>('/api/calendar/sync', { method: 'POST' }),
+  getSyncJob: (jobId: string) => request<CalendarSyncJob>(`/api/calendar/sync/${jobId}`),
   getStatus: () => request<{ isConnected: boolean; lastSyncedAt: string | null; accountsCount: number }>('/api/calendar/status'),
   getAccounts: () => request<CalendarAccountInfo[]>('/api/calendar/accounts'),
-  syncAccount: (id: string) => request<{ success: boolean; contactsFound: number; companiesFound: number }>(`/api/calendar/accounts/${id}/sync`, { method: 'POST' }),
+  syncAccount: (id: string) => request<CalendarSyncJob>(`/api/calendar/accounts/${id}/sync`, { method: 'POST' }),
   deleteAccount: (id: string) => request<{ success: boolean }>(`/api/calendar/accounts/${id}`, { method: 'DELETE' }),
   getAddAccountUrl: () => `${API_BASE}/auth/google/add-account`,
 };
 
+/**
+ * Poll a sync job until it finishes. Throws like a failed request when it
+ * didn't succeed, with `needsReauth` set when a calendar has to be reconnected.
+ */
+export async function waitForCalendarSync(job: CalendarSyncJob): Promise<CalendarSyncJob> {
+  const deadline = Date.now() + SYNC_WAIT_MS;
+  while (job.status === 'queued' || job.status === 'running') {
+    if (Date.now() > deadline) throw new Error('Calendar sync is taking longer than expected');
+    await new Promise(resolve => setTimeout(resolve, SYNC_POLL_MS));
+    job = await calendarApi.getSyncJob(job.jobId);
+  }
+  if (job.result?.needsReauth) {
+    throw Object.assign(new Error('Please reconnect your calendar'), { needsReauth: true });
+  }
+  if (job.status !== 'succeeded') throw new Error(job.lastError || 'Calendar sync failed');
+  return job;
+}
+
 // Relationships
 export const relationshipsApi = {
   getCompanies: () => request<Company[]>('/api/relationships/companies'),
@@ -81,10 +116,90 @@ export const relationshipsApi = {
     const query = params.toString() ? `?${params.toString()}` : '';
     return request<{ data: Contact[]; pagination: { total: number } }>(`/api/relationships/contacts${query}`);
   },
+  getContactMeetings: (contactId: string, page = 1, limit = 20) =>
+    request<{ data: MeetingTimelineEntry[]; pagination: { page: number; total: number; hasMore: boolean } }>(`/api/relationships/contacts/${contactId}/meetings?page=${page}&limit=${limit}`),
+  getCompanyStrength: (domain: string, spaceId?: string) =>
+    request<{ company: { id: string; name: string; domain: string }; spaceId: string | null; strengthScore: number; strength: StrengthBreakdown['label']; breakdown: StrengthBreakdown }>(`/api/relationships/companies/${encodeURIComponent(domain)}/strength${spaceId ? `?spaceId=${spaceId}` : ''}`),
+  getPaths: (target: { domain?: string; email?: string }, limit?: number) => {
+    const params = new URLSearchParams();
+    if (target.domain) params.set('domain', target.domain);
+    if (target.email) params.set('email', target.email);
+    if (limit) params.set('limit', String(limit));
+    return request<{ total: number; paths: WarmPath[] }>(`/api/relationships/paths?${params}`);
+  },
+  getCompanyMeetings: (domain: string, page = 1, limit = 20) =>
+    request<{ data: MeetingTimelineEntry[]; pagination: { page: number; total: number; hasMore: boolean } }>(`/api/relationships/companies/${encodeURIComponent(domain)}/meetings?page=${page}&limit=${limit}`),
   deleteContact: (contactId: string) =>
     request<{ deleted: boolean }>(`/api/relationships/contacts/${contactId}`, { method: 'DELETE' }),
   deleteContacts: (contactIds: string[]) =>
     request<{ deleted: number }>('/api/relationships/contacts/delete-bulk', { method: 'POST', body: JSON.stringify({ contactIds }) }),
+  // Manual corrections that win over enrichment and sync; null reverts a field
+  updateContact: (contactId: string, changes: FieldChanges) =>
+    request<{ contact: Contact }>(`/api/relationships/contacts/${contactId}`, { method: 'PATCH', body: JSON.stringify(changes) }),
+  updateCompany: (domain: string, changes: FieldChanges) =>
+    request<{ company: Company }>(`/api/relationships/companies/${encodeURIComponent(domain)}`, { method: 'PATCH', body: JSON.stringify(changes) }),
+};
+
+export type FieldChanges = Record<string, string | number | null>;
+
+// Filters for the server-side searches: what /api/ai/parse-query returns, plus the sidebar's own filters
+export interface NetworkSearchFilters {
+  description?: string;
+  employeeRanges?: string[];
+  country?: string;
+  city?: string;
+  fundingRounds?: string[];
+  foundedFrom?: string;
+  foundedTo?: string;
+  revenueRanges?: string[];
+  sourceFilter?: 'all' | 'mine' | 'spaces' | 'both';
+  strengthFilter?: 'all' | 'strong' | 'medium' | 'weak';
+  fundingRecency?: 'any' | '6m' | '1y';
+  technologies?: string[];
+  spaceId?: string;
+  connectionId?: string;
+  tagInclude?: string[];
+  tagExclude?: string[];
+  connectedYears?: string[];
+  connectedMonths?: string[];
+  lastContactYears?: string[];
+  lastContactMonths?: string[];
+}
+
+export interface HybridSearchResult {
+  id: string;
+  domain: string;
+  name: string;
+  /** Reciprocal-rank fusion of the keyword and meaning rankings */
+  score: number;
+  explanation: {
+    lexical: { rank: number; score: number; fields: string[]; titles: string[] } | null;
+    semantic: { rank: number; similarity: number } | null;
+    filters: string[];
+    reasons: string[];
+  };
+}
+
+export interface PeopleSearchResult {
+  id: string;
+  /** Your own contact, rather than one your spaces or connections share */
+  mine: boolean;
+  title: string | null;
+  companyDomain: string;
+  companyName: string;
+  score: number;
+  explanation: {
+    lexical: { rank: number; score: number; fields: string[] } | null;
+    semantic: { rank: number; similarity: number } | null;
+    reasons: string[];
+  };
+}
+
+export const searchApi = {
+  hybrid: (body: { query: string; filters?: NetworkSearchFilters; keywords?: string[]; precision?: number; limit?: number }) =>
+    request<{ results: HybridSearchResult[]; semantic: boolean; threshold: number; ms: number }>('/api/search/hybrid', { method: 'POST', body: JSON.stringify(body) }),
+  people: (body: { query: string; precision?: number; limit?: number }) =>
+    request<{ results: PeopleSearchResult[]; semantic: boolean; threshold: number; ms: number }>('/api/search/people', { method: 'POST', body: JSON.stringify(body) }),
 };
 
 // Spaces
@@ -122,7 +237,7 @@ export const spacesApi = {
   removeMember: (spaceId: string, memberId: string) => request<{ success: boolean }>(`/api/spaces/${spaceId}/members/${memberId}`, {
     method: 'DELETE',
   }),
-  update: (id: string, data: { name?: string; description?: string; emoji?: string; isPrivate?: boolean; introReviewMode?: string }) =>
+  update: (id: string, data: { name?: string; description?: string; emoji?: string; isPrivate?: boolean; introReviewMode?: string; strengthConfig?: Partial<StrengthConfig> | null; staleReminderDays?: number; staleEscalationDays?: number; staleExpiryDays?: number }) =>
     request<Space>(`/api/spaces/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
 };
 
@@ -141,14 +256,29 @@ export interface EnrichmentProgress {
   error?: string | null;
 }
 
+export interface EnrichmentBudgetStatus {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+export interface EnrichmentBudget {
+  period: string;
+  resetsAt: string;
+  user: EnrichmentBudgetStatus;
+  global: EnrichmentBudgetStatus;
+  remaining: number | null;
+}
+
 export const enrichmentApi = {
   getStatus: () => request<EnrichmentStats>('/api/enrichment/status'),
+  getBudget: () => request<EnrichmentBudget>('/api/enrichment/budget'),
   getProgress: () => request<{
     contacts: EnrichmentProgress | null;
     companies: EnrichmentProgress | null;
     contactsFree: EnrichmentProgress | null;
   }>('/api/enrichment/progress'),
-  // Batch enrichment — paid Apollo endpoints (people/match + organizations/enrich)
+  // Batch enrichment — paid provider lookups (e.g. Apollo people/match + organizations/enrich)
   enrichContactsFree: (options?: { force?: boolean }) =>
     request<{ message: string; key: string }>('/api/enrichment/contacts-free', {
       method: 'POST',
@@ -159,14 +289,15 @@ export const enrichmentApi = {
       method: 'POST',
     }),
   lookupCompany: (domain: string) =>
-    request<{ company: any; source: 'db' | 'apollo' | 'none' }>(`/api/enrichment/company/${encodeURIComponent(domain)}`),
+    request<{ company: any; source: 'db' | 'provider' | 'none'; provider?: string }>(`/api/enrichment/company/${encodeURIComponent(domain)}`),
   lookupContact: (email: string) =>
     request<{
       person: { name: string | null; title: string | null; headline: string | null; linkedinUrl: string | null; photoUrl: string | null; city: string | null; country: string | null; company: string | null; companyDomain: string | null } | null;
       company: { domain: string; name: string; industry: string | null; employeeCount: number | null; city: string | null; country: string | null; description: string | null; websiteUrl: string | null; logo: string | null; [key: string]: unknown } | null;
       email: string;
       domain: string | null;
-      source: 'apollo' | 'partial' | 'none';
+      source: 'provider' | 'partial' | 'none';
+      provider: string | null;
     }>('/api/enrichment/lookup-contact', { method: 'POST', body: JSON.stringify({ email }) }),
   addContact: (data: {
     email: string; name?: string; title?: string; linkedinUrl?: string; photoUrl?: string;
@@ -176,8 +307,11 @@ export const enrichmentApi = {
 };
 
 // Intro Requests
+/** Structured fields as sent when creating a request; omit a field rather than sending null */
+export type IntroRequestDetailsInput = { [K in keyof IntroRequestDetails]?: NonNullable<IntroRequestDetails[K]> };
+
 export const requestsApi = {
-  create: (data: { rawText: string; spaceId?: string; connectionPeerId?: string; normalizedQuery?: Record<string, unknown> }) =>
+  create: (data: { rawText: string; spaceId?: string; connectionPeerId?: string; normalizedQuery?: Record<string, unknown> } & IntroRequestDetailsInput) =>
     request<IntroRequestResponse>('/api/requests', {
       method: 'POST',
       body: JSON.stringify(data),
@@ -202,6 +336,10 @@ export const requestsApi = {
       method: 'PATCH',
       body: JSON.stringify({ status }),
     }),
+  getTimeline: (id: string) =>
+    request<{ requestId: string; status: string; adminStatus: string | null; events: IntroRequestEvent[] }>(`/api/requests/${id}/timeline`),
+  getSuggestedIntroducers: (id: string, limit?: number) =>
+    request<{ requestId: string; introducers: SuggestedIntroducer[] }>(`/api/requests/${id}/suggested-introducers${limit ? `?limit=${limit}` : ''}`),
   adminReview: (id: string, action: 'approve' | 'reject', reason?: string) =>
     request<IntroRequestResponse>(`/api/requests/${id}/admin-review`, {
       method: 'PATCH',
@@ -227,21 +365,119 @@ export interface Notification {
   body: string | null;
   data: Record<string, unknown>;
   isRead: boolean;
+  snoozedUntil: string | null;
+  archivedAt: string | null;
+  /** List position: createdAt, or when a snooze ends */
+  sortAt: string;
   createdAt: string;
 }
 
+export type NotificationView = 'inbox' | 'snoozed' | 'archived';
+
+export type NotificationListItem =
+  | { kind: 'single'; notification: Notification }
+  | {
+      kind: 'group';
+      key: string;
+      type: string;
+      title: string;
+      count: number;
+      isRead: boolean;
+      sortAt: string;
+      spaceId: string | null;
+      spaceName: string | null;
+      spaceEmoji: string | null;
+      notifications: Notification[];
+    };
+
+export interface NotificationListQuery {
+  view?: NotificationView;
+  types?: string[];
+  spaceId?: string;
+  unreadOnly?: boolean;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface NotificationPage {
+  items: NotificationListItem[];
+  pagination: { limit: number; nextCursor: string | null; hasMore: boolean };
+}
+
+export type NotificationDelivery = 'in_app' | 'email' | 'digest' | 'muted';
+
+export interface NotificationPreference {
+  type: string;
+  category: 'requests' | 'connections' | 'spaces';
+  label: string;
+  urgent: boolean;
+  defaultDelivery: NotificationDelivery;
+  delivery: NotificationDelivery;
+}
+
 export const notificationsApi = {
-  getAll: (unreadOnly?: boolean) =>
-    request<Notification[]>(`/api/notifications${unreadOnly ? '?unreadOnly=true' : ''}`),
+  list: (query: NotificationListQuery = {}) => {
+    const params = new URLSearchParams();
+    if (query.view) params.set('view', query.view);
+    if (query.types?.length) params.set('type', query.types.join(','));
+    if (query.spaceId) params.set('spaceId', query.spaceId);
+    if (query.unreadOnly) params.set('unreadOnly', 'true');
+    if (query.cursor) params.set('cursor', query.cursor);
+    if (query.limit) params.set('limit', String(query.limit));
+    const qs = params.toString();
+    return request<NotificationPage>(`/api/notifications${qs ? `?${qs}` : ''}`);
+  },
   getUnreadCount: () => request<{ count: number }>('/api/notifications/unread-count'),
   markAsRead: (id: string) =>
     request<Notification>(`/api/notifications/${id}/read`, { method: 'PATCH' }),
   markAllRead: () =>
     request<{ success: boolean }>('/api/notifications/mark-all-read', { method: 'POST' }),
+  markRead: (ids: string[]) =>
+    request<{ updated: number }>('/api/notifications/read', { method: 'POST', body: JSON.stringify({ ids }) }),
+  archive: (ids: string[]) =>
+    request<{ updated: number }>('/api/notifications/archive', { method: 'POST', body: JSON.stringify({ ids }) }),
+  unarchive: (ids: string[]) =>
+    request<{ updated: number }>('/api/notifications/unarchive', { method: 'POST', body: JSON.stringify({ ids }) }),
+  snooze: (ids: string[], until: string) =>
+    request<{ updated: number }>('/api/notifications/snooze', { method: 'POST', body: JSON.stringify({ ids, until }) }),
+  unsnooze: (ids: string[]) =>
+    request<{ updated: number }>('/api/notifications/unsnooze', { method: 'POST', body: JSON.stringify({ ids }) }),
   deleteOne: (id: string) =>
     request<{ success: boolean }>(`/api/notifications/${id}`, { method: 'DELETE' }),
   deleteAll: () =>
     request<{ success: boolean }>('/api/notifications', { method: 'DELETE' }),
+  getPreferences: () => request<NotificationPreference[]>('/api/notifications/preferences'),
+  updatePreferences: (preferences: Record<string, NotificationDelivery>) =>
+    request<NotificationPreference[]>('/api/notifications/preferences', {
+      method: 'PATCH',
+      body: JSON.stringify({ preferences }),
+    }),
+};
+
+// Personal API tokens
+export type ApiTokenScope = 'network:read' | 'requests:write' | 'spaces:manage';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export const apiTokensApi = {
+  getAll: () => request<ApiToken[]>('/api/tokens'),
+  /** The returned `token` is only ever shown here */
+  create: (data: { name: string; scopes: ApiTokenScope[]; expiresInDays: number | null }) =>
+    request<ApiToken & { token: string }>('/api/tokens', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+  revoke: (id: string) =>
+    request<ApiToken>(`/api/tokens/${id}`, { method: 'DELETE' }),
 };
 
 // Tags
@@ -289,6 +525,37 @@ export const viewsApi = {
     request<{ success: boolean }>(`/api/views/${id}`, { method: 'DELETE' }),
 };
 
+// Intro request templates (personal, or shared with a space by its owner)
+export interface RequestTemplate {
+  id: string;
+  userId: string;
+  spaceId: string | null;
+  space: { id: string; name: string; emoji: string } | null;
+  name: string;
+  rawText: string | null;
+  targetRole: string | null;
+  reason: string | null;
+  context: string | null;
+  urgency: RequestUrgency | null;
+  desiredOutcome: string | null;
+  forwardableBlurb: string | null;
+  canEdit: boolean;
+  createdAt: string;
+}
+
+type RequestTemplateInput = Partial<Pick<RequestTemplate, 'rawText' | 'targetRole' | 'reason' | 'context' | 'desiredOutcome' | 'forwardableBlurb'>> & { urgency?: RequestUrgency };
+
+export const requestTemplatesApi = {
+  getAll: (spaceId?: string) =>
+    request<RequestTemplate[]>(`/api/request-templates${spaceId ? `?spaceId=${spaceId}` : ''}`),
+  create: (data: { name: string; spaceId?: string } & RequestTemplateInput) =>
+    request<RequestTemplate>('/api/request-templates', { method: 'POST', body: JSON.stringify(data) }),
+  update: (id: string, data: { name?: string } & RequestTemplateInput) =>
+    request<RequestTemplate>(`/api/request-templates/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
+  delete: (id: string) =>
+    request<{ success: boolean }>(`/api/request-templates/${id}`, { method: 'DELETE' }),
+};
+
 // Email
 export const emailApi = {
   sendIntroOffer: (data: { recipientEmail: string; recipientName: string; targetCompany: string; contactName?: string }) =>
@@ -301,8 +568,8 @@ export const emailApi = {
       method: 'POST',
       body: JSON.stringify(data),
     }),
-  sendContact: (data: { recipientEmail: string; recipientName?: string; subject: string; body: string; requestId?: string; action?: string; contactName?: string }) =>
-    request<{ success: boolean; emailId?: string }>('/api/email/contact', {
+  sendContact: (data: { recipientEmail: string; recipientName?: string; subject: string; body: string; requestId?: string; action?: string; contactName?: string; contactId?: string }) =>
+    request<{ success: boolean; emailId?: string; consentId?: string | null }>('/api/email/contact', {
       method: 'POST',
       body: JSON.stringify(data),
     }),
@@ -315,6 +582,25 @@ export const emailApi = {
     }),
 };
 
+// Intro consent (public — answered by the target contact from an emailed link)
+export interface IntroConsentView {
+  status: 'pending' | 'accepted' | 'declined' | 'expired';
+  contactName: string | null;
+  introducerName: string;
+  requesterName: string;
+  companyName: string | null;
+  blurb: string | null;
+  expiresAt: string;
+  respondedAt: string | null;
+}
+
+export const consentApi = {
+  get: (token: string) =>
+    request<IntroConsentView>(`/api/consent/${encodeURIComponent(token)}`),
+  respond: (token: string, data: { decision: 'accept' | 'decline'; note?: string }) =>
+    request<IntroConsentView>(`/api/consent/${encodeURIComponent(token)}`, { method: 'POST', body: JSON.stringify(data) }),
+};
+
 // Admin
 export interface AdminUser {
   id: string;
@@ -357,6 +643,94 @@ export interface AdminPendingInvite {
   space: { id: string; name: string; emoji: string } | null;
 }
 
+export type AdminJobStatus = 'queued' | 'running' | 'succeeded' | 'cancelled' | 'dead';
+
+/** What a batch job reports: items gone through and the ones that failed */
+export interface AdminJobRunStats {
+  processed?: number;
+  failed?: number;
+  failures?: { subject: string; error: string }[];
+  [key: string]: unknown;
+}
+
+export interface AdminJob {
+  id: string;
+  type: string;
+  userId: string | null;
+  user: { id: string; name: string; email: string } | null;
+  payload: Record<string, unknown>;
+  status: AdminJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  result: AdminJobRunStats | null;
+  progress: Record<string, unknown> | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export interface AdminJobRun {
+  id: string;
+  status: AdminJobStatus;
+  startedAt: string | null;
+  finishedAt: string | null;
+  result: AdminJobRunStats | null;
+  lastError: string | null;
+}
+
+export interface AdminJobTypeSummary {
+  type: string;
+  recurring: boolean;
+  everyMs: number | null;
+  counts: Record<AdminJobStatus, number>;
+  lastRun: AdminJobRun | null;
+  nextRun: { status: AdminJobStatus; runAt: string; startedAt: string | null } | null;
+}
+
+export interface AdminUserJobStatus {
+  id: string;
+  name: string;
+  email: string;
+  avatar: string | null;
+  calendarSyncedAt: string | null;
+  contactsCount: number;
+  enrichedContactCount: number;
+  lastContactEnrichedAt: string | null;
+  lastSyncJob: (AdminJobRun & { attempts: number }) | null;
+  lastEnrichmentJob: (AdminJobRun & { attempts: number; progress: Record<string, unknown> | null }) | null;
+}
+
+export interface AdminEnrichmentProvider {
+  name: string;
+  position: number | null;
+  configured: boolean;
+  creditsUsed: number;
+  budget: number | null;
+}
+
+export interface AdminEnrichmentSpend {
+  period: string;
+  total: number;
+  globalBudget: number | null;
+  defaultUserBudget: number | null;
+  providers: { provider: string; credits: number; lookups: number; matched: number; budget: number | null }[];
+  users: {
+    userId: string;
+    name: string | null;
+    email: string | null;
+    credits: number;
+    lookups: number;
+    limit: number | null;
+    customLimit: number | null;
+  }[];
+  chain: AdminEnrichmentProvider[];
+}
+
+type AdminPaged<T> = { data: T[]; pagination: { total: number; page: number; limit: number; pages: number } };
+
 export const adminApi = {
   getStats: () => request<AdminStats>('/api/admin/stats'),
   getUsers: (params?: { search?: string; status?: string; sort?: string; order?: string; page?: number; limit?: number }) => {
@@ -385,6 +759,39 @@ export const adminApi = {
     mau: { month: string; count: number }[];
     dau: { date: string; count: number }[];
   }>('/api/admin/activity-chart'),
+  getJobSummary: () => request<{ types: AdminJobTypeSummary[]; queueLagMs: number }>('/api/admin/jobs/summary'),
+  getJobs: (params?: { type?: string; status?: AdminJobStatus; userId?: string; page?: number; limit?: number }) => {
+    const qs = new URLSearchParams();
+    if (params?.type) qs.set('type', params.type);
+    if (params?.status) qs.set('status', params.status);
+    if (params?.userId) qs.set('userId', params.userId);
+    if (params?.page) qs.set('page', params.page.toString());
+    if (params?.limit) qs.set('limit', params.limit.toString());
+    const query = qs.toString() ? `?${qs.toString()}` : '';
+    return request<AdminPaged<AdminJob>>(`/api/admin/jobs${query}`);
+  },
+  runJob: (type: string) =>
+    request<{ job: AdminJob }>(`/api/admin/jobs/run/${encodeURIComponent(type)}`, { method: 'POST' }),
+  retryJob: (id: string) =>
+    request<{ job: AdminJob }>(`/api/admin/jobs/${id}/retry`, { method: 'POST' }),
+  cancelJob: (id: string) =>
+    request<{ job: AdminJob }>(`/api/admin/jobs/${id}/cancel`, { method: 'POST' }),
+  getUserJobStatus: (params?: { search?: string; page?: number }) => {
+    const qs = new URLSearchParams();
+    if (params?.search) qs.set('search', params.search);
+    if (params?.page) qs.set('page', params.page.toString());
+    const query = qs.toString() ? `?${qs.toString()}` : '';
+    return request<AdminPaged<AdminUserJobStatus>>(`/api/admin/jobs/users${query}`);
+  },
+  queueUserJob: (userId: string, kind: 'sync' | 'enrich') =>
+    request<{ job: AdminJob }>(`/api/admin/jobs/users/${userId}/${kind}`, { method: 'POST' }),
+  getEnrichmentSpend: (period?: string) =>
+    request<AdminEnrichmentSpend>(`/api/admin/enrichment/spend${period ? `?period=${period}` : ''}`),
+  setEnrichmentBudget: (userId: string, monthlyCredits: number | null) =>
+    request<{ userId: string; budget: EnrichmentBudgetStatus }>(`/api/admin/users/${userId}/enrichment-budget`, {
+      method: 'PATCH',
+      body: JSON.stringify({ monthlyCredits }),
+    }),
 };
 
 // History (recent searches & company views)
@@ -438,7 +845,7 @@ export const historyApi = {
     request<RecentViewItem[]>(`/api/history/recent-views?limit=${limit}`),
 };
 
-export interface IntroRequestResponse {
+export interface IntroRequestResponse extends IntroRequestDetails {
   id: string;
   requesterId: string;
   rawText: string;
@@ -464,6 +871,42 @@ export interface IntroRequestResponse {
   offers?: { id: string; status: string; createdAt: string; introducer: { id: string; name: string; avatar: string | null } }[];
 }
 
+export interface IntroRequestEvent {
+  id: string;
+  type: string;
+  fromStatus: string | null;
+  toStatus: string | null;
+  payload: Record<string, unknown>;
+  createdAt: string;
+  actor: { id: string; name: string; avatar: string | null } | null;
+}
+
+export interface WarmPathHop {
+  kind: 'contact' | 'connection' | 'space';
+  strength: number;
+  label: 'strong' | 'medium' | 'weak' | 'none';
+  evidence: string[];
+}
+
+export interface WarmPath {
+  score: number;
+  intermediary: { id: string; name: string; avatar: string | null } | null;
+  contact: { id: string; name: string; title: string | null; companyName: string | null; companyDomain: string | null };
+  hops: WarmPathHop[];
+  connectionId: string | null;
+  spaces: { id: string; name: string; emoji: string }[];
+}
+
+export interface SuggestedIntroducer {
+  userId: string;
+  userName: string;
+  userAvatar: string | null;
+  score: number;
+  factors: Record<'strength' | 'recency' | 'seniority' | 'acceptance' | 'load', number>;
+  reasons: string[];
+  contacts: { id: string; name: string | null; title: string | null; lastSeenAt: string }[];
+}
+
 // Additional types for API responses
 export interface SpaceMember {
   id: string;
@@ -0,0 +1,92 @@
+import { API_BASE, type Notification, type EnrichmentProgress } from './api';
+
+// One EventSource per tab, shared by every component that listens to
+// GET /api/notifications/stream. It's opened with the first listener and
+// closed with the last.
+
+export type NotificationStreamEvent =
+  | { type: 'notification'; data: Notification }
+  | { type: 'unread_count'; data: { count: number } }
+  | { type: 'signal_match'; data: { id: string; signalId: string; signalName: string; entityType: string; entityId: string; summary: string; matchedAt: string } }
+  | { type: 'enrichment_progress'; data: { contacts: null; companies: null; contactsFree: EnrichmentProgress | null } }
+  | { type: 'resync'; data: Record<string, never> };
+
+type StreamListener = (event: NotificationStreamEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+const EVENT_TYPES: NotificationStreamEvent['type'][] = ['notification', 'unread_count', 'signal_match', 'enrichment_progress', 'resync'];
+
+// EventSource retries dropped connections itself, but gives up for good on
+// an error response (e.g. an expired session); try again after this long.
+const REOPEN_DELAY_MS = 30000;
+
+let source: EventSource | null = null;
+let reopenTimer: ReturnType<typeof setTimeout> | null = null;
+let lastEventId: string | null = null;
+let connected = false;
+const eventListeners = new Set<StreamListener>();
+const statusListeners = new Set<StatusListener>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  statusListeners.forEach(listener => listener(value));
+}
+
+function open() {
+  const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '';
+  const es = new EventSource(`${API_BASE}/api/notifications/stream${query}`, { withCredentials: true });
+  source = es;
+
+  es.onopen = () => setConnected(true);
+  es.onerror = () => {
+    setConnected(false);
+    if (es.readyState === EventSource.CLOSED && source === es) {
+      source = null;
+      reopenTimer = setTimeout(() => {
+        reopenTimer = null;
+        if (eventListeners.size > 0) open();
+      }, REOPEN_DELAY_MS);
+    }
+  };
+
+  for (const type of EVENT_TYPES) {
+    es.addEventListener(type, (message: MessageEvent) => {
+      if (message.lastEventId) lastEventId = message.lastEventId;
+      let data: unknown;
+      try {
+        data = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      const event = { type, data } as NotificationStreamEvent;
+      eventListeners.forEach(listener => listener(event));
+    });
+  }
+}
+
+function close() {
+  if (reopenTimer) {
+    clearTimeout(reopenTimer);
+    reopenTimer = null;
+  }
+  source?.close();
+  source = null;
+  setConnected(false);
+}
+
+/** Listen to the stream; returns the unsubscribe function */
+export function subscribeToNotificationStream(onEvent: StreamListener, onStatus?: StatusListener): () => void {
+  eventListeners.add(onEvent);
+  if (onStatus) {
+    statusListeners.add(onStatus);
+    onStatus(connected);
+  }
+  if (!source && !reopenTimer) open();
+
+  return () => {
+    eventListeners.delete(onEvent);
+    if (onStatus) statusListeners.delete(onStatus);
+    if (eventListeners.size === 0) close();
+  };
+}
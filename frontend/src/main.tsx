@@ -12,6 +12,7 @@ import {
   TermsPage,
   PrivacyPage,
   DocsPage,
+  ConsentPage,
 } from './pages';
 import './styles.css';
 
@@ -26,6 +27,7 @@ function App() {
           <Route path="/terms" element={<TermsPage />} />
           <Route path="/privacy" element={<PrivacyPage />} />
           <Route path="/docs" element={<DocsPage />} />
+          <Route path="/consent/:token" element={<ConsentPage />} />
           
           {/* Onboarding */}
           <Route path="/onboarding" element={<OnboardingPage />} />
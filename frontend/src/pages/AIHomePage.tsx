@@ -1,15 +1,16 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAppState, useAppActions } from '../store';
-import { API_BASE, authApi, calendarApi, requestsApi, spacesApi, notificationsApi, offersApi, tagsApi, emailApi, viewsApi, enrichmentApi, relationshipsApi, historyApi, type CalendarAccountInfo, type IntroRequestResponse, type SearchHistoryItem, type RecentViewItem } from '../lib/api';
-import { calculateStrength, type SpaceCompany, type DisplayContact, type MergedCompany, type ViewFilters, type SavedView, type ViewSortRule, type InlinePanel } from '../types';
-import { PersonAvatar, CompanyLogo, OnboardingChecklist } from '../components';
+import { API_BASE, authApi, calendarApi, waitForCalendarSync, requestsApi, spacesApi, notificationsApi, offersApi, tagsApi, emailApi, viewsApi, enrichmentApi, relationshipsApi, historyApi, requestTemplatesApi, searchApi, type RequestTemplate, type IntroRequestDetailsInput, type CalendarAccountInfo, type SuggestedIntroducer, type WarmPath, type IntroRequestResponse, type SearchHistoryItem, type RecentViewItem } from '../lib/api';
+import { type SpaceCompany, type DisplayContact, type MergedCompany, type ViewFilters, type SavedView, type ViewSortRule, type InlinePanel, type MeetingTimelineEntry, type StrengthBreakdown, type StrengthConfig, type StrengthFactorKey, type StaleThresholds, type RequestUrgency, type Contact, REQUEST_URGENCY_LABELS, DEFAULT_STRENGTH_CONFIG, DEFAULT_STALE_THRESHOLDS, STRENGTH_FACTOR_LABELS, isActiveRequest } from '../types';
+import { PersonAvatar, CompanyLogo, OnboardingChecklist, FieldEditor } from '../components';
 import type { ChecklistProgress, ChecklistActions } from '../components';
 import { ProfilePanel, SettingsPanel, NotificationsPanel } from '../components/panels';
 import { useProfile } from '../hooks/useProfile';
 import { useEnrichment } from '../hooks/useEnrichment';
 import { useSpaceManagement } from '../hooks/useSpaceManagement';
 import { useConnectionManagement } from '../hooks/useConnectionManagement';
+import { useNotificationStream } from '../hooks/useNotificationStream';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -79,6 +80,54 @@ function abbreviateName(fullName: string): string {
 
 // ─── Sidebar section (stable identity — defined outside AIHomePage) ──────────
 
+// A contact from the API as the views and panels use it
+function toDisplayContact(c: Contact): DisplayContact {
+  return {
+    id: c.id,
+    name: c.name || c.email.split('@')[0],
+    email: c.email,
+    title: c.title || c.headline || '',
+    company: c.company?.name || '',
+    companyDomain: c.company?.domain || c.email.split('@')[1] || '',
+    lastSeenAt: c.lastSeenAt,
+    meetingsCount: c.meetingsCount,
+    firstSeenAt: c.firstSeenAt || undefined,
+    connectionStrength: c.strength ?? 'none',
+    strengthBreakdown: c.strengthBreakdown,
+    linkedinUrl: c.linkedinUrl,
+    photoUrl: c.photoUrl,
+    city: c.city,
+    state: c.state,
+    country: c.country,
+    headline: c.headline,
+    enrichedAt: c.enrichedAt,
+    sourceAccountEmails: c.sourceAccountEmails,
+    meetings: c.meetings,
+    overrides: c.overrides,
+    companyData: c.company ? {
+      id: c.company.id,
+      name: c.company.name,
+      employeeCount: c.company.employeeCount,
+      foundedYear: c.company.foundedYear,
+      annualRevenue: c.company.annualRevenue,
+      totalFunding: c.company.totalFunding,
+      lastFundingRound: c.company.lastFundingRound,
+      lastFundingDate: c.company.lastFundingDate,
+      city: c.company.city,
+      country: c.company.country,
+      industry: c.company.industry,
+      description: c.company.description,
+      websiteSummary: c.company.websiteSummary,
+      linkedinUrl: c.company.linkedinUrl,
+      websiteUrl: c.company.websiteUrl,
+      state: c.company.state,
+      enrichedAt: c.company.enrichedAt,
+      overrides: c.company.overrides,
+      strength: c.company.strength,
+    } : undefined,
+  };
+}
+
 function SidebarSection({ id, icon, title, children, openSections, toggleSection, activeSectionIds }: {
   id: string; icon: string; title: string; children: React.ReactNode;
   openSections: Record<string, boolean>;
@@ -219,6 +268,12 @@ export function AIHomePage() {
   const [expandedDomain, setExpandedDomain] = useState<string | null>(null);
   const [historyExpanded, setHistoryExpanded] = useState(false);
   const [expandedMeetingIdx, setExpandedMeetingIdx] = useState<number | null>(null);
+  const [companyStrength, setCompanyStrength] = useState<{ domain: string; breakdown: StrengthBreakdown } | null>(null);
+  const [strengthDraft, setStrengthDraft] = useState<{ spaceId: string; config: StrengthConfig } | null>(null);
+  const [companyPaths, setCompanyPaths] = useState<{ domain: string; paths: WarmPath[]; total: number } | null>(null);
+  const [suggestedIntroducers, setSuggestedIntroducers] = useState<{ requestId: string; introducers: SuggestedIntroducer[] } | null>(null);
+  const [staleDraft, setStaleDraft] = useState<{ spaceId: string; thresholds: StaleThresholds } | null>(null);
+  const [companyTimeline, setCompanyTimeline] = useState<{ domain: string; entries: MeetingTimelineEntry[]; page: number; total: number; hasMore: boolean; loading: boolean } | null>(null);
   const [contactsExpanded, setContactsExpanded] = useState(false);
   const [aboutExpanded, setAboutExpanded] = useState(false);
   const [inlinePanel, setInlinePanelRaw] = useState<InlinePanel | null>(null);
@@ -265,10 +320,12 @@ export function AIHomePage() {
   const [introRequestSending, setIntroRequestSending] = useState(false);
   const [introRequestSent, setIntroRequestSent] = useState(false);
   const [introSelectedThrough, setIntroSelectedThrough] = useState<string | null>(null);
+  const [introDetails, setIntroDetails] = useState<IntroRequestDetailsInput>({});
+  const [introDetailsOpen, setIntroDetailsOpen] = useState(false);
+  const [requestTemplates, setRequestTemplates] = useState<RequestTemplate[]>([]);
 
   const [connMenuOpen, setConnMenuOpen] = useState(false);
   const [notificationCount, setNotificationCount] = useState(0);
-  const [notifications, setNotifications] = useState<Awaited<ReturnType<typeof notificationsApi.getAll>>>([]);
   const [myIntroRequests, setMyIntroRequests] = useState<Awaited<ReturnType<typeof requestsApi.getMine>>>([]);
   const [spaceRequests, setSpaceRequests] = useState<Record<string, { id: string; rawText: string; status: string; createdAt: string; normalizedQuery: Record<string, unknown>; requester: { id: string; name: string; email?: string; avatar: string | null } }[]>>({});
   const [spaceMemberStats, setSpaceMemberStats] = useState<Record<string, Record<string, { contactCount: number; introsRequested: number; introsHelped: number }>>>({});
@@ -315,13 +372,14 @@ export function AIHomePage() {
     company: { domain: string; name: string; industry: string | null; employeeCount: number | null; city: string | null; country: string | null; description: string | null; websiteSummary: string | null; websiteUrl: string | null; logo: string | null } | null;
     email: string;
     domain: string | null;
-    source: 'apollo' | 'partial' | 'none';
+    source: 'provider' | 'partial' | 'none';
   } | null>(null);
   const [addForm, setAddForm] = useState({ name: '', title: '', linkedinUrl: '', city: '', country: '', companyDomain: '' });
 
   // Delete contact state
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [editingDetails, setEditingDetails] = useState(false);
 
   // AI search state
   const [aiExplanation, setAiExplanation] = useState<string | null>(null);
@@ -332,7 +390,6 @@ export function AIHomePage() {
 
   // Notification refresh helper (passed to hooks)
   const refreshNotifications = useCallback(() => {
-    notificationsApi.getAll().then(setNotifications).catch(() => {});
     notificationsApi.getUnreadCount().then(r => setNotificationCount(r.count)).catch(() => {});
   }, []);
 
@@ -429,9 +486,10 @@ export function AIHomePage() {
   });
   const [aiKeywordsLoading, setAiKeywordsLoading] = useState(false);
 
-  // Deep search (embeddings-based semantic search)
+  // Deep search (keyword + embeddings hybrid search)
   const [deepSearchLoading, setDeepSearchLoading] = useState(false);
-  const [deepSearchResults, setDeepSearchResults] = useState<{ domain: string; similarity: number }[] | null>(null);
+  const [deepSearchResults, setDeepSearchResults] = useState<{ domain: string; similarity: number; reasons: string[] }[] | null>(null);
+  const [peopleSearchResults, setPeopleSearchResults] = useState<{ id: string; score: number; reasons: string[] }[] | null>(null);
   const [deepSearchError, setDeepSearchError] = useState<string | null>(null);
   const [deepSearchPrecision, setDeepSearchPrecision] = useState<1 | 2 | 3>(2);
   const [committedSearch, setCommittedSearch] = useState('');
@@ -493,22 +551,24 @@ export function AIHomePage() {
     }).catch(() => {});
 
     try {
-      const res = await fetch(`${API_BASE}/api/embeddings/search`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ query: trimmed, limit: 200, precision: precision ?? deepSearchPrecision }),
-      });
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
-        throw new Error(err.error || 'Deep search failed');
-      }
-      const data = await res.json();
-      if (!data.results || data.results.length === 0) {
-        setDeepSearchError('No embeddings yet. Ask admin to generate embeddings first.');
+      const level = precision ?? deepSearchPrecision;
+      // People search is best-effort: companies still show if it fails
+      const [data, people] = await Promise.all([
+        searchApi.hybrid({ query: trimmed, limit: 200, precision: level }),
+        searchApi.people({ query: trimmed, limit: 500, precision: level }).catch(e => {
+          console.warn('People search failed:', e);
+          return null;
+        }),
+      ]);
+      const peopleResults = people?.results ?? [];
+      if (data.results.length === 0 && peopleResults.length === 0) {
+        setDeepSearchError('No matching companies or people in your network.');
         setDeepSearchResults(null);
+        setPeopleSearchResults(null);
       } else {
-        setDeepSearchResults(data.results);
+        // Ranked by fused score; `similarity` is only used for ordering
+        setDeepSearchResults(data.results.map(r => ({ domain: r.domain, similarity: r.score, reasons: r.explanation.reasons })));
+        setPeopleSearchResults(peopleResults.map(r => ({ id: r.id, score: r.score, reasons: r.explanation.reasons })));
       }
     } catch (e: any) {
       console.warn('Deep search failed:', e);
@@ -518,8 +578,19 @@ export function AIHomePage() {
     }
   }, [deepSearchPrecision]);
 
+  // Why each deep search result matched, shown on its card
+  const deepSearchReasons = useMemo(
+    () => new Map((deepSearchResults || []).filter(r => r.reasons.length > 0).map(r => [r.domain, r.reasons])),
+    [deepSearchResults],
+  );
+  const peopleSearchReasons = useMemo(
+    () => new Map((peopleSearchResults || []).filter(r => r.reasons.length > 0).map(r => [r.id, r.reasons])),
+    [peopleSearchResults],
+  );
+
   const clearDeepSearch = useCallback(() => {
     setDeepSearchResults(null);
+    setPeopleSearchResults(null);
     setDeepSearchError(null);
     setCommittedSearch('');
   }, []);
@@ -775,42 +846,7 @@ export function AIHomePage() {
   // ─── Data transforms ────────────────────────────────────────────────────────
 
   const contacts: DisplayContact[] = useMemo(() => {
-    return storeContacts.filter(c => c.isApproved).map(c => ({
-      id: c.id,
-      name: c.name || c.email.split('@')[0],
-      email: c.email,
-      title: c.title || c.headline || '',
-      company: c.company?.name || '',
-      companyDomain: c.company?.domain || c.email.split('@')[1] || '',
-      lastSeenAt: c.lastSeenAt,
-      meetingsCount: c.meetingsCount,
-      firstSeenAt: c.firstSeenAt || undefined,
-      connectionStrength: calculateStrength(c.lastSeenAt, c.meetingsCount),
-      linkedinUrl: c.linkedinUrl,
-      photoUrl: c.photoUrl,
-      city: c.city,
-      country: c.country,
-      headline: c.headline,
-      enrichedAt: c.enrichedAt,
-      sourceAccountEmails: c.sourceAccountEmails,
-      meetings: c.meetings,
-      companyData: c.company ? {
-        id: c.company.id,
-        employeeCount: c.company.employeeCount,
-        foundedYear: c.company.foundedYear,
-        annualRevenue: c.company.annualRevenue,
-        totalFunding: c.company.totalFunding,
-        lastFundingRound: c.company.lastFundingRound,
-        lastFundingDate: c.company.lastFundingDate,
-        city: c.company.city,
-        country: c.company.country,
-        industry: c.company.industry,
-        description: c.company.description,
-        websiteSummary: c.company.websiteSummary,
-        linkedinUrl: c.company.linkedinUrl,
-        enrichedAt: c.company.enrichedAt,
-      } : undefined,
-    }));
+    return storeContacts.filter(c => c.isApproved).map(toDisplayContact);
   }, [storeContacts]);
 
   // Merge my network + space network into unified view
@@ -848,7 +884,10 @@ export function AIHomePage() {
         co.description = c.companyData.description;
         co.websiteSummary = c.companyData.websiteSummary;
         co.linkedinUrl = c.companyData.linkedinUrl;
+        co.websiteUrl = c.companyData.websiteUrl;
+        co.state = c.companyData.state;
         co.enrichedAt = c.companyData.enrichedAt;
+        co.overrides = c.companyData.overrides;
       }
       co.myCount++;
       co.totalCount++;
@@ -944,33 +983,14 @@ export function AIHomePage() {
       else if (co.spaceCount > 0 && co.myCount === 0) co.source = 'space';
     });
 
-    // ── Compute smart company-level strength ──
-    // Uses the distribution of contact-level strengths, not just the best one.
-    // A company with many strong contacts is definitively "strong" even if
-    // some individual contacts are weak.
+    // ── Company-level strength ──
+    // The API scores the user's relationship with each company from all its
+    // meetings; until that has been computed, the best contact stands in.
     const companies = Array.from(map.values());
     companies.forEach(co => {
-      const my = co.myContacts;
-      if (my.length === 0) return; // space-only → keep 'none'
-
-      const strongCount = my.filter(c => c.connectionStrength === 'strong').length;
-      const mediumCount = my.filter(c => c.connectionStrength === 'medium').length;
-      const totalMeetings = my.reduce((sum, c) => sum + (c.meetingsCount || 0), 0);
-
-      // Strong company: 3+ strong contacts, OR 5+ medium+strong, OR 10+ total meetings
-      if (strongCount >= 3 || (strongCount + mediumCount) >= 5 || totalMeetings >= 15) {
-        co.bestStrength = 'strong';
-        co.hasStrongConnection = true;
-      }
-      // Medium company: any strong contact, OR 2+ medium, OR 5+ total meetings, OR 3+ contacts
-      else if (strongCount >= 1 || mediumCount >= 2 || totalMeetings >= 5 || my.length >= 3) {
-        co.bestStrength = 'medium';
-        if (strongCount > 0) co.hasStrongConnection = true;
-      }
-      // Weak: everything else (few contacts, few meetings)
-      else {
-        co.bestStrength = 'weak';
-      }
+      const relationship = co.myContacts.find(c => c.companyData?.strength && c.companyData.strength !== 'none');
+      if (relationship) co.bestStrength = relationship.companyData!.strength!;
+      if (co.bestStrength === 'strong') co.hasStrongConnection = true;
     });
 
     // Match savedViews (keywords + saved filters)
@@ -1277,10 +1297,13 @@ export function AIHomePage() {
 
     // ── Search: only applied after Enter / button click ──
     const sq = committedSearch.toLowerCase();
-    if (deepSearchResults && deepSearchResults.length > 0) {
+    if (deepSearchResults) {
       const domainScores = new Map(deepSearchResults.map(r => [r.domain, r.similarity]));
+      // Companies where a matching person works count as matches too
+      const personIds = new Set((peopleSearchResults || []).map(r => r.id));
       result = result.filter(c => {
         if (domainScores.has(c.domain)) return true;
+        if (c.myContacts.some(ct => personIds.has(ct.id)) || c.spaceContacts.some(ct => personIds.has(ct.id))) return true;
         if (sq && (c.name.toLowerCase().includes(sq) || c.domain.toLowerCase().includes(sq))) return true;
         return false;
       });
@@ -1441,7 +1464,7 @@ export function AIHomePage() {
     }
 
     return result;
-  }, [mergedCompanies, selectedView, sourceFilter, accountFilter, strengthFilter, spaceFilter, connectionFilter, sortBy, sidebarFilters, tagInclude, tagExclude, companyTags, tableSorts, groupByField, groupByDir, deepSearchResults, committedSearch]);
+  }, [mergedCompanies, selectedView, sourceFilter, accountFilter, strengthFilter, spaceFilter, connectionFilter, sortBy, sidebarFilters, tagInclude, tagExclude, companyTags, tableSorts, groupByField, groupByDir, deepSearchResults, peopleSearchResults, committedSearch]);
 
   // Flatten filteredCompanies into a deduplicated people array
   interface FlatPerson {
@@ -1459,7 +1482,7 @@ export function AIHomePage() {
 
   const flatPeople = useMemo((): FlatPerson[] => {
     const seen = new Set<string>();
-    const people: FlatPerson[] = [];
+    let people: FlatPerson[] = [];
 
     for (const co of filteredCompanies) {
       for (const c of co.myContacts) {
@@ -1526,6 +1549,10 @@ export function AIHomePage() {
       }
     };
 
+    // Deep search: only people who matched, best match first unless sorted explicitly
+    const personScores = peopleSearchResults ? new Map(peopleSearchResults.map(r => [r.id, r.score])) : null;
+    if (personScores) people = people.filter(p => personScores.has(p.id));
+
     // Build effective sort rules: legacy header-click sort, then toolbar multi-sorts
     const effectiveSorts: PeopleSortRule[] = peopleSorts.length > 0
       ? peopleSorts
@@ -1540,6 +1567,9 @@ export function AIHomePage() {
         const grouped = peopleGroupByDir === 'desc' ? -cmp : cmp;
         if (grouped !== 0) return grouped;
       }
+      if (personScores && peopleSorts.length === 0) {
+        return (personScores.get(b.id) || 0) - (personScores.get(a.id) || 0);
+      }
       for (const rule of effectiveSorts) {
         const va = getPeopleSortVal(a, rule.field);
         const vb = getPeopleSortVal(b, rule.field);
@@ -1551,7 +1581,7 @@ export function AIHomePage() {
     });
 
     return people;
-  }, [filteredCompanies, peopleSortBy, peopleSortDir, peopleSorts, peopleGroupByField, peopleGroupByDir, companyTags]);
+  }, [filteredCompanies, peopleSortBy, peopleSortDir, peopleSorts, peopleGroupByField, peopleGroupByDir, companyTags, peopleSearchResults]);
 
   const isNetworkView = useMemo(() => sourceFilter === 'spaces' || connectionFilter !== 'all' || spaceFilter !== 'all', [sourceFilter, connectionFilter, spaceFilter]);
 
@@ -1573,7 +1603,84 @@ export function AIHomePage() {
   useEffect(() => { setGridPage(0); }, [filteredCompanies.length, excludeMyContacts, entityTab]);
 
   // Reset expand / menu states when switching panels
-  useEffect(() => { setHistoryExpanded(false); setExpandedMeetingIdx(null); setContactsExpanded(false); setAboutExpanded(false); setDeleteConfirmId(null); setDeletingId(null); }, [inlinePanel]);
+  useEffect(() => { setHistoryExpanded(false); setExpandedMeetingIdx(null); setContactsExpanded(false); setAboutExpanded(false); setDeleteConfirmId(null); setDeletingId(null); setEditingDetails(false); setStrengthDraft(null); }, [inlinePanel]);
+
+  // Full meeting timeline for the open company panel (server-side, paginated)
+  const timelineDomain = inlinePanel?.type === 'company' && inlinePanel.company && inlinePanel.company.myCount > 0 ? inlinePanel.company.domain : null;
+  useEffect(() => {
+    if (!timelineDomain) { setCompanyTimeline(null); setCompanyStrength(null); return; }
+    let cancelled = false;
+    setCompanyStrength(null);
+    relationshipsApi.getCompanyStrength(timelineDomain)
+      .then(res => { if (!cancelled) setCompanyStrength({ domain: timelineDomain, breakdown: res.breakdown }); })
+      .catch(err => console.error('Failed to load strength breakdown:', err));
+    setCompanyTimeline({ domain: timelineDomain, entries: [], page: 0, total: 0, hasMore: false, loading: true });
+    relationshipsApi.getCompanyMeetings(timelineDomain, 1)
+      .then(res => {
+        if (cancelled) return;
+        setCompanyTimeline({ domain: timelineDomain, entries: res.data, page: 1, total: res.pagination.total, hasMore: res.pagination.hasMore, loading: false });
+      })
+      .catch(err => {
+        console.error('Failed to load meeting timeline:', err);
+        if (!cancelled) setCompanyTimeline(null);
+      });
+    return () => { cancelled = true; };
+  }, [timelineDomain]);
+
+  // Warm paths to the open company through the user's connections and spaces
+  const pathsDomain = inlinePanel?.type === 'company' && inlinePanel.company ? inlinePanel.company.domain : null;
+  useEffect(() => {
+    if (!pathsDomain) { setCompanyPaths(null); return; }
+    let cancelled = false;
+    relationshipsApi.getPaths({ domain: pathsDomain }, 5)
+      .then(res => { if (!cancelled) setCompanyPaths({ domain: pathsDomain, paths: res.paths, total: res.total }); })
+      .catch(err => console.error('Failed to load warm paths:', err));
+    return () => { cancelled = true; };
+  }, [pathsDomain]);
+
+  // Request templates (personal + shared by the user's spaces) for the Request Intro and space settings panels
+  const needsRequestTemplates = inlinePanel?.type === 'intro-request' || inlinePanel?.type === 'space-settings';
+  useEffect(() => {
+    if (!needsRequestTemplates) return;
+    requestTemplatesApi.getAll()
+      .then(setRequestTemplates)
+      .catch(err => console.error('Failed to load request templates:', err));
+  }, [needsRequestTemplates]);
+
+  const resetIntroRequestForm = () => {
+    setIntroRequestText('');
+    setIntroSelectedThrough(null);
+    setIntroDetails({});
+    setIntroDetailsOpen(false);
+  };
+
+  // Ranked introducers for the open intro request, while it's still waiting for one
+  const suggestionsRequestId = inlinePanel?.type === 'intro-detail' && inlinePanel.introRequest && isActiveRequest(inlinePanel.introRequest.status)
+    ? inlinePanel.introRequest.id
+    : null;
+  useEffect(() => {
+    if (!suggestionsRequestId) { setSuggestedIntroducers(null); return; }
+    let cancelled = false;
+    requestsApi.getSuggestedIntroducers(suggestionsRequestId, 5)
+      .then(res => { if (!cancelled) setSuggestedIntroducers({ requestId: suggestionsRequestId, introducers: res.introducers }); })
+      .catch(err => console.error('Failed to load suggested introducers:', err));
+    return () => { cancelled = true; };
+  }, [suggestionsRequestId]);
+
+  const loadMoreCompanyTimeline = useCallback(async () => {
+    if (!companyTimeline || companyTimeline.loading || !companyTimeline.hasMore) return;
+    const { domain, page } = companyTimeline;
+    setCompanyTimeline(prev => prev && prev.domain === domain ? { ...prev, loading: true } : prev);
+    try {
+      const res = await relationshipsApi.getCompanyMeetings(domain, page + 1);
+      setCompanyTimeline(prev => prev && prev.domain === domain
+        ? { ...prev, entries: [...prev.entries, ...res.data], page: page + 1, total: res.pagination.total, hasMore: res.pagination.hasMore, loading: false }
+        : prev);
+    } catch (err) {
+      console.error('Failed to load more meetings:', err);
+      setCompanyTimeline(prev => prev && prev.domain === domain ? { ...prev, loading: false } : prev);
+    }
+  }, [companyTimeline]);
 
   // View match counts
   // Dynamic country list from enriched data
@@ -2054,6 +2161,8 @@ export function AIHomePage() {
   const openIntroPanel = useCallback((company: MergedCompany, overrideSourceFilter?: string, overrideSpaceFilter?: string) => {
     setIntroSelectedThrough(null);
     setIntroRequestText('');
+    setIntroDetails({});
+    setIntroDetailsOpen(false);
     setIntroRequestSent(false);
     setIntroRequestSending(false);
     setInlinePanel({
@@ -2071,6 +2180,8 @@ export function AIHomePage() {
       setIntroRequestSent(false);
       setIntroRequestSending(false);
       setIntroSelectedThrough(null);
+      setIntroDetails({});
+      setIntroDetailsOpen(false);
     }
     if (inlinePanel?.type !== 'intro-detail') {
       setRejectingAdminRequestId(null);
@@ -2114,19 +2225,38 @@ export function AIHomePage() {
     }
   }, [inlinePanel]);
 
-  // Fetch notifications + my intro requests
+  // Fetch unread count + my intro requests
   const refreshIntroData = useCallback(() => {
     notificationsApi.getUnreadCount().then(r => setNotificationCount(r.count)).catch(() => {});
-    notificationsApi.getAll().then(setNotifications).catch(() => {});
     requestsApi.getMine().then(setMyIntroRequests).catch(() => {});
     requestsApi.getIncoming().then(r => setIncomingRequests(r as any)).catch(() => {});
   }, []);
 
+  const refreshIntroRequests = useCallback(() => {
+    requestsApi.getMine().then(setMyIntroRequests).catch(() => {});
+    requestsApi.getIncoming().then(r => setIncomingRequests(r as any)).catch(() => {});
+  }, []);
+
+  // Notifications arrive live (the panel keeps its own list); anything about
+  // a request also refreshes the request lists
+  const notificationStreamConnected = useNotificationStream(event => {
+    if (event.type === 'notification') {
+      setNotificationCount(prev => prev + 1);
+      if (event.data.data?.requestId) refreshIntroRequests();
+    } else if (event.type === 'unread_count') {
+      setNotificationCount(event.data.count);
+    } else if (event.type === 'resync') {
+      refreshIntroData();
+    }
+  });
+
+  // Poll only while the stream is down
   useEffect(() => {
     refreshIntroData();
+    if (notificationStreamConnected) return;
     const interval = setInterval(refreshIntroData, 30000);
     return () => clearInterval(interval);
-  }, [refreshIntroData]);
+  }, [refreshIntroData, notificationStreamConnected]);
 
   // Fetch calendar last sync time & connected accounts
   const refreshCalendarAccounts = useCallback(() => {
@@ -2178,7 +2308,7 @@ export function AIHomePage() {
     const TWO_HOURS = 2 * 60 * 60 * 1000;
     const interval = setInterval(() => {
       console.log('[auto-sync] Running periodic calendar sync');
-      calendarApi.sync().then(() => refreshCalendarAccounts()).catch(() => {});
+      calendarApi.sync().then(waitForCalendarSync).then(() => refreshCalendarAccounts()).catch(() => {});
     }, TWO_HOURS);
     return () => clearInterval(interval);
   }, [isCalendarConnected, refreshCalendarAccounts]);
@@ -2202,7 +2332,7 @@ export function AIHomePage() {
     if (syncingAccountId) return;
     setSyncingAccountId(accountId);
     try {
-      await calendarApi.syncAccount(accountId);
+      await waitForCalendarSync(await calendarApi.syncAccount(accountId));
       refreshCalendarAccounts();
     } catch (err) {
       console.error('Account sync failed:', err);
@@ -2721,7 +2851,7 @@ export function AIHomePage() {
               {deepSearchResults && (
                 <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: 6 }}>
                   <span className="sb-empty-hint" style={{ margin: 0, color: 'var(--text-secondary)' }}>
-                    {deepSearchResults.length} companies matched
+                    {deepSearchResults.length} companies{peopleSearchResults ? `, ${peopleSearchResults.length} people` : ''} matched
                   </span>
                   <button className="sb-kw-section-clear" onClick={() => { clearDeepSearch(); setSearchQuery(''); }}>Clear</button>
                 </div>
@@ -3270,7 +3400,7 @@ export function AIHomePage() {
                       {level === 1 ? 'Wide' : level === 2 ? 'Balanced' : 'Strict'}
                     </button>
                   ))}
-                  <span className="u-omni-precision-count">{deepSearchResults.length} matched</span>
+                  <span className="u-omni-precision-count">{entityTab === 'people' && peopleSearchResults ? peopleSearchResults.length : deepSearchResults.length} matched</span>
                 </div>
               )}
               {searchFocused && !searchQuery && !deepSearchResults && (
@@ -3374,8 +3504,8 @@ export function AIHomePage() {
                 </svg>
                 {!inlinePanel && 'Network & Intros'}
                 {(() => {
-                  const _openRcv = incomingRequests.filter(r => r.status === 'open' && !dismissedRequestIds.has(r.id)).length;
-                  const _needsReply = (myIntroRequests || []).filter(r => r.status === 'open' && (r as any).detailsRequestedAt).length;
+                  const _openRcv = incomingRequests.filter(r => isActiveRequest(r.status) && !dismissedRequestIds.has(r.id)).length;
+                  const _needsReply = (myIntroRequests || []).filter(r => isActiveRequest(r.status) && (r as any).detailsRequestedAt).length;
                   const _total = _openRcv + _needsReply;
                   return _total > 0 ? <span className="u-network-btn-badge">{_total}</span> : null;
                 })()}
@@ -3399,10 +3529,7 @@ export function AIHomePage() {
                     setInlinePanel(null);
                   } else {
                     setInlinePanel({ type: 'notifications' });
-                    notificationsApi.markAllRead().then(() => {
-                      setNotificationCount(0);
-                      setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
-                    }).catch(() => {});
+                    notificationsApi.markAllRead().then(() => setNotificationCount(0)).catch(() => {});
                   }
                 }}
               >
@@ -3765,6 +3892,11 @@ export function AIHomePage() {
                       </>
                     )}
                   </div>
+                  {deepSearchReasons.has(company.domain) && (
+                    <div className="u-tile-match" title={deepSearchReasons.get(company.domain)!.join('\n')}>
+                      {deepSearchReasons.get(company.domain)!.slice(0, 2).join(' · ')}
+                    </div>
+                  )}
                   {company.spaceCount > 0 && (() => {
                     // Resolve person names from connectionIds
                     const personNames: string[] = [];
@@ -3805,7 +3937,9 @@ export function AIHomePage() {
                                 <span className="u-contact-name">{c.name}</span>
                                 <span className="u-contact-title">{c.title || c.email}</span>
                               </div>
-                              <span className={`u-strength u-strength--${c.connectionStrength}`}>{c.connectionStrength}</span>
+                              {c.connectionStrength !== 'none' && (
+                                <span className={`u-strength u-strength--${c.connectionStrength}`}>{c.connectionStrength}</span>
+                              )}
                               {c.linkedinUrl && (
                                 <a className="u-contact-action u-contact-li" href={c.linkedinUrl} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} title="LinkedIn">in</a>
                               )}
@@ -4290,6 +4424,11 @@ export function AIHomePage() {
                     <div className="u-td-person-info">
                       <span className="u-td-person-name">{person.isMyContact ? person.name : abbreviateName(person.name)}</span>
                       {person.title && <span className="u-td-person-title">{person.title}</span>}
+                      {peopleSearchReasons.has(person.id) && (
+                        <span className="u-person-match" title={peopleSearchReasons.get(person.id)!.join('\n')}>
+                          {peopleSearchReasons.get(person.id)!.slice(0, 2).join(' · ')}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </td>
@@ -4355,6 +4494,11 @@ export function AIHomePage() {
                     <span className="u-person-card-badge u-person-card-badge--muted">{getTimeAgo(person.lastSeen)}</span>
                   )}
                 </div>
+                {peopleSearchReasons.has(person.id) && (
+                  <div className="u-person-match" title={peopleSearchReasons.get(person.id)!.join('\n')}>
+                    {peopleSearchReasons.get(person.id)!.slice(0, 2).join(' · ')}
+                  </div>
+                )}
                 <div className="u-person-card-source">
                   <span className={`u-td-source-badge ${person.source === 'you' ? 'u-td-source--you' : 'u-td-source--network'}`}>
                     {person.source === 'you' ? 'You' : person.source}
@@ -4558,6 +4702,12 @@ export function AIHomePage() {
                     <button className="u-panel-menu-trigger" onClick={(e) => { e.stopPropagation(); setDeleteConfirmId(deleteConfirmId === 'person' ? null : 'person'); }}>···</button>
                     {deleteConfirmId === 'person' && (
                       <div className="u-contact-menu">
+                        <button
+                          className="u-contact-menu-item"
+                          onClick={(e) => { e.stopPropagation(); setDeleteConfirmId(null); setEditingDetails(true); }}
+                        >
+                          Edit details
+                        </button>
                         <button
                           className="u-contact-menu-item u-contact-menu-item--danger"
                           disabled={deletingId === 'person'}
@@ -4604,7 +4754,7 @@ export function AIHomePage() {
 
                 {/* Badges row */}
                 <div className="u-panel-badges">
-                  {dc?.connectionStrength && (
+                  {dc && dc.connectionStrength !== 'none' && (
                     <span className={`u-panel-badge u-strength--${dc.connectionStrength}`}>
                       {dc.connectionStrength}
                     </span>
@@ -4613,8 +4763,52 @@ export function AIHomePage() {
                     <span className="u-panel-badge u-panel-badge--via">via {(c as any).userName}</span>
                   )}
                   {dc?.enrichedAt && <span className="u-panel-badge u-panel-badge--enriched">Enriched</span>}
+                  {dc?.overrides && Object.keys(dc.overrides).length > 0 && (
+                    <span className="u-panel-badge u-panel-badge--edited" title={`Edited: ${Object.keys(dc.overrides).join(', ')}`}>Edited</span>
+                  )}
                 </div>
 
+                {editingDetails && dc && (
+                  <FieldEditor
+                    fields={[
+                      { key: 'name', label: 'Name', value: dc.name },
+                      { key: 'title', label: 'Title', value: dc.title },
+                      { key: 'headline', label: 'Headline', value: dc.headline },
+                      { key: 'companyDomain', label: 'Company domain', value: dc.companyDomain, overrideKey: 'companyId' },
+                      { key: 'city', label: 'City', value: dc.city },
+                      { key: 'state', label: 'State', value: dc.state },
+                      { key: 'country', label: 'Country', value: dc.country },
+                    ]}
+                    overrides={dc.overrides}
+                    onSave={async (changes) => {
+                      const { contact } = await relationshipsApi.updateContact(c.id, changes);
+                      // Editing details doesn't touch meetings, so the strength still holds
+                      const updated = { ...toDisplayContact(contact), connectionStrength: dc.connectionStrength, strengthBreakdown: dc.strengthBreakdown };
+                      setInlinePanel({ ...inlinePanel, contact: updated, company: co?.domain === updated.companyDomain ? co : undefined });
+                      refreshData();
+                    }}
+                    onClose={() => setEditingDetails(false)}
+                  />
+                )}
+
+                {/* Strength explanation — which inputs produced the score */}
+                {dc?.strengthBreakdown && dc.strengthBreakdown.meetingsCount > 0 && (() => {
+                  const b = dc.strengthBreakdown;
+                  return (
+                    <div className="u-panel-section">
+                      <h4 className="u-panel-section-h">Strength · {Math.round(b.score)} ({b.label})</h4>
+                      <div className="u-panel-detail-grid">
+                        {b.factors.filter(f => f.value !== null).map(f => (
+                          <div key={f.key} className="u-panel-detail-cell">
+                            <span className="u-panel-detail-key">{STRENGTH_FACTOR_LABELS[f.key]} · +{f.points}</span>
+                            <span className="u-panel-detail-val">{f.detail}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })()}
+
                 {/* Source account badges (only when user has multiple accounts) */}
                 {calendarAccounts.length > 1 && dc?.sourceAccountEmails && dc.sourceAccountEmails.length > 0 && (
                   <div className="u-panel-source-accounts">
@@ -4724,6 +4918,12 @@ export function AIHomePage() {
                     <button className="u-panel-menu-trigger" onClick={(e) => { e.stopPropagation(); setDeleteConfirmId(deleteConfirmId === 'company' ? null : 'company'); }}>···</button>
                     {deleteConfirmId === 'company' && (
                       <div className="u-contact-menu">
+                        <button
+                          className="u-contact-menu-item"
+                          onClick={(e) => { e.stopPropagation(); setDeleteConfirmId(null); setEditingDetails(true); }}
+                        >
+                          Edit details
+                        </button>
                         <button
                           className="u-contact-menu-item u-contact-menu-item--danger"
                           disabled={deletingId === 'company'}
@@ -4764,9 +4964,50 @@ export function AIHomePage() {
                   <div>
                     <h2>{co.name}</h2>
                     <span className="u-panel-company-domain">{co.domain}</span>
+                    {co.overrides && Object.keys(co.overrides).length > 0 && (
+                      <span className="u-panel-badge u-panel-badge--edited" title={`Edited: ${Object.keys(co.overrides).join(', ')}`}>Edited</span>
+                    )}
                   </div>
                 </div>
 
+                {editingDetails && (
+                  <FieldEditor
+                    fields={[
+                      { key: 'name', label: 'Name', value: co.name },
+                      { key: 'industry', label: 'Industry', value: co.industry },
+                      { key: 'description', label: 'Description', value: co.description, multiline: true },
+                      { key: 'employeeCount', label: 'Employees', value: co.employeeCount, type: 'number' },
+                      { key: 'websiteUrl', label: 'Website', value: co.websiteUrl, type: 'url' },
+                      { key: 'linkedinUrl', label: 'LinkedIn', value: co.linkedinUrl, type: 'url' },
+                      { key: 'city', label: 'City', value: co.city },
+                      { key: 'state', label: 'State', value: co.state },
+                      { key: 'country', label: 'Country', value: co.country },
+                    ]}
+                    overrides={co.overrides}
+                    onSave={async (changes) => {
+                      const { company } = await relationshipsApi.updateCompany(co.domain, changes);
+                      setInlinePanel({
+                        ...inlinePanel,
+                        company: {
+                          ...co,
+                          name: company.name,
+                          industry: company.industry,
+                          description: company.description,
+                          employeeCount: company.employeeCount,
+                          websiteUrl: company.websiteUrl,
+                          linkedinUrl: company.linkedinUrl,
+                          city: company.city,
+                          state: company.state,
+                          country: company.country,
+                          overrides: company.overrides,
+                        },
+                      });
+                      refreshData();
+                    }}
+                    onClose={() => setEditingDetails(false)}
+                  />
+                )}
+
                 {/* #6 Tag tip */}
                 {showTagTip && (
                   <div className="ob-tag-tip">
@@ -4908,7 +5149,18 @@ export function AIHomePage() {
                 {/* Meeting history */}
                 {(() => {
                   const allMeetings: { title: string; date: string; duration?: number; description?: string | null; attendees: string[] }[] = [];
-                  co.myContacts.forEach(c => {
+                  const timeline = companyTimeline && companyTimeline.domain === co.domain ? companyTimeline : null;
+                  if (timeline && timeline.entries.length > 0) {
+                    timeline.entries.forEach(m => {
+                      allMeetings.push({
+                        title: m.title,
+                        date: m.date,
+                        duration: m.duration,
+                        description: m.description,
+                        attendees: m.attendees.map(a => a.name || a.email),
+                      });
+                    });
+                  } else co.myContacts.forEach(c => {
                     if (c.meetings && c.meetings.length > 0) {
                       c.meetings.forEach(m => {
                         const key = `${m.title}|${m.date}`;
@@ -4923,8 +5175,10 @@ export function AIHomePage() {
                   });
                   allMeetings.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
                   if (allMeetings.length === 0) return null;
+                  const totalMeetings = timeline && timeline.entries.length > 0 ? timeline.total : allMeetings.length;
                   const visible = historyExpanded ? allMeetings : allMeetings.slice(0, 5);
-                  const hasMore = allMeetings.length > 5;
+                  const hasMore = totalMeetings > 5;
+                  const canLoadMore = historyExpanded && !!timeline?.hasMore;
                   return (
                     <div className="u-panel-section">
                       <h4 className="u-panel-section-h">History</h4>
@@ -4973,15 +5227,38 @@ export function AIHomePage() {
                           );
                         })}
                       </div>
+                      {canLoadMore && (
+                        <button className="u-panel-history-toggle" disabled={timeline?.loading} onClick={loadMoreCompanyTimeline}>
+                          {timeline?.loading ? 'Loading…' : `Load more (${allMeetings.length} of ${totalMeetings})`}
+                        </button>
+                      )}
                       {hasMore && (
                         <button className="u-panel-history-toggle" onClick={() => setHistoryExpanded(!historyExpanded)}>
-                          {historyExpanded ? 'Show less' : `Show all ${allMeetings.length} meetings`}
+                          {historyExpanded ? 'Show less' : `Show all ${totalMeetings} meetings`}
                         </button>
                       )}
                     </div>
                   );
                 })()}
 
+                {/* Strength explanation — which inputs produced the score */}
+                {companyStrength && companyStrength.domain === co.domain && companyStrength.breakdown.meetingsCount > 0 && (() => {
+                  const b = companyStrength.breakdown;
+                  return (
+                    <div className="u-panel-section">
+                      <h4 className="u-panel-section-h">Strength · {Math.round(b.score)} ({b.label})</h4>
+                      <div className="u-panel-detail-grid">
+                        {b.factors.filter(f => f.value !== null).map(f => (
+                          <div key={f.key} className="u-panel-detail-cell">
+                            <span className="u-panel-detail-key">{STRENGTH_FACTOR_LABELS[f.key]} · +{f.points}</span>
+                            <span className="u-panel-detail-val">{f.detail}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })()}
+
                 {/* Details grid — show whatever we have */}
                 {(co.industry || co.city || co.country || co.annualRevenue || co.totalFunding || co.lastFundingRound) && (
                 <div className="u-panel-section">
@@ -5021,6 +5298,36 @@ export function AIHomePage() {
                 </div>
                 )}
 
+                {/* Warm paths — best routes in, ranked by the strength of each hop */}
+                {companyPaths && companyPaths.domain === co.domain && companyPaths.paths.some(p => p.intermediary) && (
+                  <div className="u-panel-section">
+                    <h4 className="u-panel-section-h">Warm paths ({companyPaths.total})</h4>
+                    <div className="u-panel-contact-list">
+                      {companyPaths.paths.map(p => {
+                        const pathConn = p.connectionId ? connections.find(c => c.id === p.connectionId) : undefined;
+                        return (
+                          <div
+                            key={`${p.intermediary?.id || 'me'}-${p.contact.id}`}
+                            className="u-panel-contact-row"
+                            title={p.hops.map(h => h.evidence.join(' · ')).join('\n')}
+                            onClick={pathConn ? () => setInlinePanel({ type: 'connection', connectionId: pathConn.id }) : undefined}
+                          >
+                            <div className="u-panel-contact-info">
+                              <span className="u-panel-contact-name">
+                                {p.intermediary ? `You → ${p.intermediary.name} → ${p.contact.title || 'Contact'}` : `You → ${p.contact.name}`}
+                              </span>
+                              <span className="u-panel-contact-title">
+                                {[p.hops[0].evidence[0], p.hops.length > 1 ? p.hops[1].evidence[0] : null].filter(Boolean).join(' · ')}
+                              </span>
+                            </div>
+                            <span className="u-panel-contact-via">{p.score}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {/* All contacts — space contacts shown with full detail */}
                 {co.spaceContacts.length > 0 && (
                   <div className="u-panel-section">
@@ -5058,7 +5365,9 @@ export function AIHomePage() {
                               <span className="u-panel-contact-name">{c.name}</span>
                               <span className="u-panel-contact-title">{c.title || c.email}</span>
                             </div>
-                            <span className={`u-strength u-strength--${c.connectionStrength}`}>{c.connectionStrength}</span>
+                            {c.connectionStrength !== 'none' && (
+                              <span className={`u-strength u-strength--${c.connectionStrength}`}>{c.connectionStrength}</span>
+                            )}
                           </div>
                           <div className="u-contact-menu-wrap">
                             <button className="u-contact-menu-trigger" onClick={(e) => { e.stopPropagation(); setDeleteConfirmId(deleteConfirmId === c.id ? null : c.id); }}>···</button>
@@ -5251,8 +5560,8 @@ export function AIHomePage() {
                   const received = visibleRequests.filter(r => r.requester.id !== currentUser?.id);
                   const sent = visibleRequests.filter(r => r.requester.id === currentUser?.id);
 
-                  const pendingAdminReview = isOwner ? received.filter(r => r.status === 'open' && (r as any).adminStatus === 'pending_review').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()) : [];
-                  const receivedOpen = received.filter(r => r.status === 'open' && (r as any).adminStatus !== 'pending_review').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const pendingAdminReview = isOwner ? received.filter(r => isActiveRequest(r.status) && (r as any).adminStatus === 'pending_review').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()) : [];
+                  const receivedOpen = received.filter(r => isActiveRequest(r.status) && (r as any).adminStatus !== 'pending_review').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
                   const hasMyContacts = (r: typeof receivedOpen[number]) => {
                     const nq = r.normalizedQuery || {};
                     const cid = nq.companyId as string;
@@ -5262,11 +5571,11 @@ export function AIHomePage() {
                   };
                   const receivedNeedsReview = receivedOpen.filter(r => hasMyContacts(r) && !(r as any).detailsRequestedAt && !(r as any).checkedWithContactAt && (r as any).adminStatus !== 'approved');
                   const receivedInProgress = receivedOpen.filter(r => !hasMyContacts(r) || !!(r as any).detailsRequestedAt || !!(r as any).checkedWithContactAt || (r as any).adminStatus === 'approved');
-                  const receivedPast = received.filter(r => r.status !== 'open').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const receivedPast = received.filter(r => !isActiveRequest(r.status)).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
-                  const sentNeedsReply = sent.filter(r => r.status === 'open' && (r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                  const sentOpen = sent.filter(r => r.status === 'open' && !(r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                  const sentPast = sent.filter(r => r.status !== 'open').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentNeedsReply = sent.filter(r => isActiveRequest(r.status) && (r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentOpen = sent.filter(r => isActiveRequest(r.status) && !(r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentPast = sent.filter(r => !isActiveRequest(r.status)).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
                   const renderSpaceCard = (r: typeof visibleRequests[number], direction: 'sent' | 'received') => {
                     const nq = r.normalizedQuery || {};
@@ -5280,7 +5589,7 @@ export function AIHomePage() {
                     return (
                       <div
                         key={r.id}
-                        className={`u-inbox-card ${r.status !== 'open' ? 'u-inbox-card--resolved' : ''}`}
+                        className={`u-inbox-card ${!isActiveRequest(r.status) ? 'u-inbox-card--resolved' : ''}`}
                         onClick={() => {
                           setInlinePanel({
                             type: 'intro-detail',
@@ -5304,10 +5613,10 @@ export function AIHomePage() {
                           </div>
                           {(() => {
                             const adminSt = (r as any).adminStatus;
-                            if (r.status === 'open' && adminSt === 'pending_review') {
+                            if (isActiveRequest(r.status) && adminSt === 'pending_review') {
                               return <span className="u-inbox-status u-inbox-status--awaiting">{isMe ? 'Awaiting admin review' : 'Pending review'}</span>;
                             }
-                            if (r.status === 'open' && adminSt === 'approved') {
+                            if (isActiveRequest(r.status) && adminSt === 'approved') {
                               const hasDetails = !!(r as any).detailsRequestedAt;
                               const hasChecked = !!(r as any).checkedWithContactAt;
                               if (hasDetails || hasChecked) {
@@ -5315,13 +5624,13 @@ export function AIHomePage() {
                               }
                               return <span className="u-inbox-status u-inbox-status--inprogress">Approved — with connectors</span>;
                             }
-                            if (r.status !== 'open') {
-                              const label = r.status === 'accepted' ? 'Done' : r.status === 'declined' && (r as any).adminStatus === 'rejected' ? 'Not approved' : r.status === 'declined' ? 'Declined' : r.status;
+                            if (!isActiveRequest(r.status)) {
+                              const label = r.status === 'accepted' ? 'Done' : r.status === 'declined' && (r as any).adminStatus === 'rejected' ? 'Not approved' : r.status === 'declined' ? 'Declined' : r.status === 'expired' ? 'Expired' : r.status;
                               return <span className={`u-inbox-status u-inbox-status--${r.status}`}>{label}</span>;
                             }
                             return null;
                           })()}
-                          {r.status !== 'open' && (
+                          {!isActiveRequest(r.status) && (
                             <button
                               className="u-panel-request-dismiss"
                               title="Dismiss"
@@ -5488,8 +5797,8 @@ export function AIHomePage() {
               <div className="u-panel-spaces">
                 {/* Tabs */}
                 {(() => {
-                  const openReceivedCount = incomingRequests.filter(r => r.status === 'open' && !dismissedRequestIds.has(r.id)).length;
-                  const needsReplySentCount = (myIntroRequests || []).filter(r => r.status === 'open' && (r as any).detailsRequestedAt).length;
+                  const openReceivedCount = incomingRequests.filter(r => isActiveRequest(r.status) && !dismissedRequestIds.has(r.id)).length;
+                  const needsReplySentCount = (myIntroRequests || []).filter(r => isActiveRequest(r.status) && (r as any).detailsRequestedAt).length;
                   const openIntroCount = openReceivedCount + needsReplySentCount;
                   return (
                     <div className="u-network-tabs">
@@ -5747,7 +6056,7 @@ export function AIHomePage() {
                   {!connectionsCollapsed && <>
                   <div className="u-panel-spaces-list">
                     {connections.filter(c => c.status === 'accepted').map(c => {
-                      const connReqCount = incomingRequests.filter(r => r.requester.id === c.peer.id && r.status === 'open' && !dismissedRequestIds.has(r.id)).length;
+                      const connReqCount = incomingRequests.filter(r => r.requester.id === c.peer.id && isActiveRequest(r.status) && !dismissedRequestIds.has(r.id)).length;
                       const connCompanies = connectionCompanies.filter(cc => cc.connectionId === c.id);
                       const connContactCount = connCompanies.reduce((sum, cc) => sum + cc.contactCount, 0);
                       return (
@@ -5832,15 +6141,15 @@ export function AIHomePage() {
                   const allReceived = (incomingRequests || []).filter(r => !dismissedRequestIds.has(r.id)).map(r => ({ ...r, direction: 'received' as const }));
                   const totalCount = allSent.length + allReceived.length;
 
-                  const receivedOpen = allReceived.filter(r => r.status === 'open').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const receivedOpen = allReceived.filter(r => isActiveRequest(r.status)).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
                   const receivedNeedsReview = receivedOpen.filter(r => !(r as any).detailsRequestedAt && !(r as any).checkedWithContactAt);
                   const receivedInProgress = receivedOpen.filter(r => !!(r as any).detailsRequestedAt || !!(r as any).checkedWithContactAt);
-                  const receivedPast = allReceived.filter(r => r.status !== 'open').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const receivedPast = allReceived.filter(r => !isActiveRequest(r.status)).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
-                  const sentAwaitingAdmin = allSent.filter(r => r.status === 'open' && (r as any).adminStatus === 'pending_review').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                  const sentNeedsReply = allSent.filter(r => r.status === 'open' && (r as any).adminStatus !== 'pending_review' && (r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                  const sentOpen = allSent.filter(r => r.status === 'open' && (r as any).adminStatus !== 'pending_review' && !(r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                  const sentPast = allSent.filter(r => r.status !== 'open').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentAwaitingAdmin = allSent.filter(r => isActiveRequest(r.status) && (r as any).adminStatus === 'pending_review').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentNeedsReply = allSent.filter(r => isActiveRequest(r.status) && (r as any).adminStatus !== 'pending_review' && (r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentOpen = allSent.filter(r => isActiveRequest(r.status) && (r as any).adminStatus !== 'pending_review' && !(r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentPast = allSent.filter(r => !isActiveRequest(r.status)).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
                   const renderReceivedCard = (r: typeof allReceived[number]) => {
                     const nq = (r.normalizedQuery || {}) as Record<string, unknown>;
@@ -5861,7 +6170,7 @@ export function AIHomePage() {
                     return (
                       <div
                         key={r.id}
-                        className={`u-inbox-card ${r.status !== 'open' ? 'u-inbox-card--resolved' : ''}`}
+                        className={`u-inbox-card ${!isActiveRequest(r.status) ? 'u-inbox-card--resolved' : ''}`}
                         onClick={() => {
                           setInlinePanel({
                             type: 'intro-detail',
@@ -5898,12 +6207,12 @@ export function AIHomePage() {
                           {(() => {
                             const hasDetails = !!(r as any).detailsRequestedAt;
                             const hasChecked = !!(r as any).checkedWithContactAt;
-                            if (r.status === 'open') {
+                            if (isActiveRequest(r.status)) {
                               const cls = hasDetails || hasChecked ? 'inprogress' : 'action';
                               const label = hasDetails ? 'Waiting for details' : hasChecked ? 'Checking with contact' : 'Needs your review';
                               return <span className={`u-inbox-status u-inbox-status--${cls}`}>{label}</span>;
                             }
-                            const doneLabel = r.status === 'accepted' ? 'Done' : r.status === 'declined' ? 'Declined' : r.status;
+                            const doneLabel = r.status === 'accepted' ? 'Done' : r.status === 'declined' ? 'Declined' : r.status === 'expired' ? 'Expired' : r.status;
                             return <span className={`u-inbox-status u-inbox-status--${r.status}`}>{doneLabel}</span>;
                           })()}
                         </div>
@@ -5935,7 +6244,7 @@ export function AIHomePage() {
                     return (
                       <div
                         key={r.id}
-                        className={`u-inbox-card ${r.status !== 'open' ? 'u-inbox-card--resolved' : ''}`}
+                        className={`u-inbox-card ${!isActiveRequest(r.status) ? 'u-inbox-card--resolved' : ''}`}
                         onClick={() => {
                           setInlinePanel({
                             type: 'intro-detail',
@@ -5975,12 +6284,12 @@ export function AIHomePage() {
                               return <span className="u-inbox-status u-inbox-status--awaiting">Awaiting admin review</span>;
                             }
                             const hasDetails = !!(r as any).detailsRequestedAt;
-                            if (r.status === 'open') {
+                            if (isActiveRequest(r.status)) {
                               const cls = hasDetails ? 'awaiting' : 'inprogress';
                               const label = hasDetails ? 'Awaiting your reply' : 'In progress';
                               return <span className={`u-inbox-status u-inbox-status--${cls}`}>{label}</span>;
                             }
-                            const doneLabel = r.status === 'accepted' ? 'Done' : r.status === 'declined' && adminSt === 'rejected' ? 'Not approved' : r.status === 'declined' ? 'Declined' : r.status;
+                            const doneLabel = r.status === 'accepted' ? 'Done' : r.status === 'declined' && adminSt === 'rejected' ? 'Not approved' : r.status === 'declined' ? 'Declined' : r.status === 'expired' ? 'Expired' : r.status;
                             return <span className={`u-inbox-status u-inbox-status--${r.status}`}>{doneLabel}</span>;
                           })()}
                         </div>
@@ -6168,14 +6477,14 @@ export function AIHomePage() {
                   const received = connRequests.filter(r => r.requester.id !== currentUser?.id);
                   const sent = connRequests.filter(r => r.requester.id === currentUser?.id);
 
-                  const receivedOpen = received.filter(r => r.status === 'open').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const receivedOpen = received.filter(r => isActiveRequest(r.status)).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
                   const receivedNeedsReview = receivedOpen.filter(r => !(r as any).detailsRequestedAt && !(r as any).checkedWithContactAt);
                   const receivedInProgress = receivedOpen.filter(r => !!(r as any).detailsRequestedAt || !!(r as any).checkedWithContactAt);
-                  const receivedPast = received.filter(r => r.status !== 'open').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const receivedPast = received.filter(r => !isActiveRequest(r.status)).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
-                  const sentNeedsReply = sent.filter(r => r.status === 'open' && (r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                  const sentOpen = sent.filter(r => r.status === 'open' && !(r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                  const sentPast = sent.filter(r => r.status !== 'open').sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentNeedsReply = sent.filter(r => isActiveRequest(r.status) && (r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentOpen = sent.filter(r => isActiveRequest(r.status) && !(r as any).detailsRequestedAt).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                  const sentPast = sent.filter(r => !isActiveRequest(r.status)).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
                   const openCount = receivedOpen.length + sentNeedsReply.length + sentOpen.length;
 
@@ -6191,7 +6500,7 @@ export function AIHomePage() {
                     return (
                       <div
                         key={r.id}
-                        className={`u-inbox-card ${r.status !== 'open' ? 'u-inbox-card--resolved' : ''}`}
+                        className={`u-inbox-card ${!isActiveRequest(r.status) ? 'u-inbox-card--resolved' : ''}`}
                         onClick={() => {
                           setInlinePanel({
                             type: 'intro-detail',
@@ -6226,14 +6535,14 @@ export function AIHomePage() {
                           {(() => {
                             const hasDetails = !!(r as any).detailsRequestedAt;
                             const hasChecked = !!(r as any).checkedWithContactAt;
-                            if (r.status === 'open') {
+                            if (isActiveRequest(r.status)) {
                               if (isMe && hasDetails) return <span className="u-inbox-status u-inbox-status--awaiting">Awaiting your reply</span>;
                               if (isMe) return <span className="u-inbox-status u-inbox-status--inprogress">In progress</span>;
                               const cls = hasDetails || hasChecked ? 'inprogress' : 'action';
                               const label = hasDetails ? 'Waiting for details' : hasChecked ? 'Checking with contact' : 'Needs your review';
                               return <span className={`u-inbox-status u-inbox-status--${cls}`}>{label}</span>;
                             }
-                            const doneLabel = r.status === 'accepted' ? 'Done' : r.status === 'declined' ? 'Declined' : r.status;
+                            const doneLabel = r.status === 'accepted' ? 'Done' : r.status === 'declined' ? 'Declined' : r.status === 'expired' ? 'Expired' : r.status;
                             return <span className={`u-inbox-status u-inbox-status--${r.status}`}>{doneLabel}</span>;
                           })()}
                         </div>
@@ -6285,7 +6594,7 @@ export function AIHomePage() {
 
                       {sent.length > 0 && (
                         <>
-                          {received.length > 0 && sent.some(r => r.status === 'open') && (
+                          {received.length > 0 && sent.some(r => isActiveRequest(r.status)) && (
                             <div style={{ borderTop: '1px solid rgba(255,255,255,0.06)', margin: '0.5rem 0' }} />
                           )}
                           {sentNeedsReply.length > 0 && (
@@ -6325,27 +6634,16 @@ export function AIHomePage() {
             {/* ── Notifications Panel ── */}
             {inlinePanel.type === 'notifications' && (
               <NotificationsPanel
-                notifications={notifications}
                 connections={connections}
                 mergedCompanies={mergedCompanies}
+                spaces={spaces}
                 pendingSpaces={pendingSpaces}
                 onNavigate={setInlinePanel}
                 onAcceptConnection={handleAcceptWithModal}
                 onRejectConnection={rejectConnection}
                 onAcceptSpaceInvite={acceptSpaceInvite}
                 onRejectSpaceInvite={rejectSpaceInvite}
-                onDeleteNotification={(id) => {
-                  notificationsApi.deleteOne(id).then(() => {
-                    setNotifications(prev => prev.filter(n => n.id !== id));
-                    notificationsApi.getUnreadCount().then(r => setNotificationCount(r.count)).catch(() => {});
-                  }).catch(() => {});
-                }}
-                onClearAllNotifications={() => {
-                  notificationsApi.deleteAll().then(() => {
-                    setNotifications([]);
-                    setNotificationCount(0);
-                  }).catch(() => {});
-                }}
+                onNotificationsChanged={refreshNotifications}
               />
             )}
 
@@ -6407,6 +6705,150 @@ export function AIHomePage() {
                       </div>
                     </label>
                   </div>
+
+                  {(() => {
+                    const saved: StrengthConfig = {
+                      ...DEFAULT_STRENGTH_CONFIG,
+                      ...space.strengthConfig,
+                      weights: { ...DEFAULT_STRENGTH_CONFIG.weights, ...space.strengthConfig?.weights },
+                    };
+                    const draft = strengthDraft?.spaceId === space.id ? strengthDraft.config : saved;
+                    const setWeight = (key: StrengthFactorKey, value: number) =>
+                      setStrengthDraft({ spaceId: space.id, config: { ...draft, weights: { ...draft.weights, [key]: value } } });
+                    const saveStrength = async (config: StrengthConfig | null) => {
+                      try {
+                        await spacesApi.update(space.id, { strengthConfig: config });
+                        setSpaces(prev => prev.map(s => s.id === space.id ? { ...s, strengthConfig: config } : s));
+                        setStrengthDraft(null);
+                        setIntroToast(config ? 'Strength model updated' : 'Strength model reset');
+                        setTimeout(() => setIntroToast(null), 3000);
+                      } catch { setIntroToast('Failed to update'); setTimeout(() => setIntroToast(null), 3000); }
+                    };
+                    return (
+                      <div className="u-panel-section">
+                        <h4 className="u-panel-section-h">Relationship strength</h4>
+                        <p className="u-space-settings-desc">How much each signal counts when members' connections are scored in this space.</p>
+                        <div className="u-panel-detail-grid">
+                          {(Object.keys(STRENGTH_FACTOR_LABELS) as StrengthFactorKey[]).map(key => (
+                            <label key={key} className="u-panel-detail-cell">
+                              <span className="u-panel-detail-key">{STRENGTH_FACTOR_LABELS[key]} · {Math.round(draft.weights[key] * 100)}</span>
+                              <input
+                                type="range" min={0} max={100} step={5}
+                                value={Math.round(draft.weights[key] * 100)}
+                                onChange={e => setWeight(key, Number(e.target.value) / 100)}
+                              />
+                            </label>
+                          ))}
+                          <label className="u-panel-detail-cell">
+                            <span className="u-panel-detail-key">Half-life · {draft.halfLifeDays} days</span>
+                            <input
+                              type="range" min={15} max={365} step={15}
+                              value={draft.halfLifeDays}
+                              onChange={e => setStrengthDraft({ spaceId: space.id, config: { ...draft, halfLifeDays: Number(e.target.value) } })}
+                            />
+                          </label>
+                        </div>
+                        <div className="u-panel-actions" style={{ marginTop: '0.75rem' }}>
+                          <button
+                            className="u-action-btn u-action-btn--primary"
+                            disabled={!strengthDraft || strengthDraft.spaceId !== space.id || Object.values(draft.weights).every(w => w === 0)}
+                            onClick={() => saveStrength(draft)}
+                          >
+                            Save
+                          </button>
+                          {space.strengthConfig && (
+                            <button className="u-action-btn" onClick={() => saveStrength(null)}>Reset to default</button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {(() => {
+                    const saved: StaleThresholds = {
+                      staleReminderDays: space.staleReminderDays ?? DEFAULT_STALE_THRESHOLDS.staleReminderDays,
+                      staleEscalationDays: space.staleEscalationDays ?? DEFAULT_STALE_THRESHOLDS.staleEscalationDays,
+                      staleExpiryDays: space.staleExpiryDays ?? DEFAULT_STALE_THRESHOLDS.staleExpiryDays,
+                    };
+                    const draft = staleDraft?.spaceId === space.id ? staleDraft.thresholds : saved;
+                    const increasing = draft.staleReminderDays < draft.staleEscalationDays && draft.staleEscalationDays < draft.staleExpiryDays;
+                    const sliders: { key: keyof StaleThresholds; label: string; max: number }[] = [
+                      { key: 'staleReminderDays', label: 'Remind connectors after', max: 30 },
+                      { key: 'staleEscalationDays', label: 'Escalate to you after', max: 60 },
+                      { key: 'staleExpiryDays', label: 'Expire after', max: 120 },
+                    ];
+                    const saveStale = async () => {
+                      try {
+                        await spacesApi.update(space.id, draft);
+                        setSpaces(prev => prev.map(s => s.id === space.id ? { ...s, ...draft } : s));
+                        setStaleDraft(null);
+                        setIntroToast('Follow-up settings updated');
+                        setTimeout(() => setIntroToast(null), 3000);
+                      } catch { setIntroToast('Failed to update'); setTimeout(() => setIntroToast(null), 3000); }
+                    };
+                    return (
+                      <div className="u-panel-section">
+                        <h4 className="u-panel-section-h">Stale requests</h4>
+                        <p className="u-space-settings-desc">Days without progress before an open intro request is followed up on.</p>
+                        <div className="u-panel-detail-grid">
+                          {sliders.map(({ key, label, max }) => (
+                            <label key={key} className="u-panel-detail-cell">
+                              <span className="u-panel-detail-key">{label} · {draft[key]} days</span>
+                              <input
+                                type="range" min={1} max={max} step={1}
+                                value={draft[key]}
+                                onChange={e => setStaleDraft({ spaceId: space.id, thresholds: { ...draft, [key]: Number(e.target.value) } })}
+                              />
+                            </label>
+                          ))}
+                        </div>
+                        {!increasing && (
+                          <p className="u-space-settings-desc">Each step has to come after the one before it.</p>
+                        )}
+                        <div className="u-panel-actions" style={{ marginTop: '0.75rem' }}>
+                          <button
+                            className="u-action-btn u-action-btn--primary"
+                            disabled={!staleDraft || staleDraft.spaceId !== space.id || !increasing}
+                            onClick={saveStale}
+                          >
+                            Save
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })()}
+                  {(() => {
+                    const spaceTemplates = requestTemplates.filter(t => t.spaceId === space.id);
+                    return (
+                      <div className="u-panel-section">
+                        <h4 className="u-panel-section-h">Request templates</h4>
+                        <p className="u-space-settings-desc">
+                          {spaceTemplates.length > 0
+                            ? 'Members can start an intro request from these.'
+                            : 'Save a request as a template for this space from the Request Intro panel.'}
+                        </p>
+                        {spaceTemplates.length > 0 && (
+                          <div className="u-panel-contact-list">
+                            {spaceTemplates.map(t => (
+                              <div key={t.id} className="u-panel-contact-row">
+                                <div className="u-panel-contact-info">
+                                  <span className="u-panel-contact-name">{t.name}</span>
+                                  {t.targetRole && <span className="u-panel-contact-title">{t.targetRole}</span>}
+                                </div>
+                                <button className="u-action-btn" onClick={async () => {
+                                  if (!window.confirm(`Delete template "${t.name}"?`)) return;
+                                  try {
+                                    await requestTemplatesApi.delete(t.id);
+                                    setRequestTemplates(prev => prev.filter(x => x.id !== t.id));
+                                  } catch { setIntroToast('Failed to delete template'); setTimeout(() => setIntroToast(null), 3000); }
+                                }}>Delete</button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
                 </div>
               );
             })()}
@@ -6459,7 +6901,7 @@ export function AIHomePage() {
                 : companyDomain
                   ? contacts.filter(c => c.companyDomain === companyDomain)
                   : [];
-              const isOpen = req.status === 'open';
+              const isOpen = isActiveRequest(req.status);
               const isDone = req.status === 'accepted';
               const isDeclined = req.status === 'declined';
               const isPendingReview = req.adminStatus === 'pending_review';
@@ -6474,6 +6916,7 @@ export function AIHomePage() {
 
               const getStatusBadge = (): { cls: string; label: string } => {
                 if (isOpen && isPendingReview) return { cls: 'awaiting', label: isSent ? 'Awaiting admin review' : 'Pending your review' };
+                if (isOpen && req.contactAgreedAt) return { cls: isSent ? 'inprogress' : 'action', label: isSent ? 'Contact agreed' : 'Contact agreed — make the intro' };
                 if (isOpen && hasDetailsRequested && isSent) return { cls: 'awaiting', label: 'Awaiting your reply' };
                 if (isOpen && hasDetailsRequested) return { cls: 'inprogress', label: 'Waiting for details' };
                 if (isOpen && hasCheckedWithContact && !isSent) return { cls: 'inprogress', label: 'Checking with contact' };
@@ -6519,6 +6962,40 @@ export function AIHomePage() {
                     <p className="u-intro-detail-message">{req.rawText}</p>
                   </div>
 
+                  {/* Brief */}
+                  {(req.targetName || req.targetRole || req.reason || req.context || req.urgency || req.deadline || req.desiredOutcome || req.forwardableBlurb) && (
+                    <div className="u-intro-detail-section">
+                      <h4 className="u-intro-detail-label">Brief</h4>
+                      <div className="u-panel-detail-grid">
+                        {[
+                          { key: 'Who', val: [req.targetName, req.targetRole].filter(Boolean).join(' · ') },
+                          { key: 'Why', val: req.reason },
+                          { key: `About ${isSent ? 'you' : req.requester.name}`, val: req.context },
+                          { key: 'Hoping for', val: req.desiredOutcome },
+                          { key: 'Urgency', val: req.urgency ? REQUEST_URGENCY_LABELS[req.urgency] : null },
+                          { key: 'Deadline', val: req.deadline ? new Date(req.deadline).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }) : null },
+                        ].filter(f => f.val).map(f => (
+                          <div key={f.key} className="u-panel-detail-cell">
+                            <span className="u-panel-detail-key">{f.key}</span>
+                            <span className="u-panel-detail-val">{f.val}</span>
+                          </div>
+                        ))}
+                      </div>
+                      {req.forwardableBlurb && (
+                        <>
+                          <p className="u-intro-detail-message" style={{ whiteSpace: 'pre-wrap', marginTop: '0.75rem' }}>{req.forwardableBlurb}</p>
+                          <div className="u-panel-actions">
+                            <button className="u-action-btn" onClick={() => {
+                              navigator.clipboard.writeText(req.forwardableBlurb!)
+                                .then(() => { setIntroToast('Blurb copied'); setTimeout(() => setIntroToast(null), 3000); })
+                                .catch(() => {});
+                            }}>Copy forwardable blurb</button>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+
                   {/* Timeline */}
                   <div className="u-intro-detail-section">
                     <h4 className="u-intro-detail-label">Timeline</h4>
@@ -6563,7 +7040,9 @@ export function AIHomePage() {
                               <span className="u-intro-timeline-title">Awaiting space admin approval</span>
                               <span className="u-intro-timeline-via">
                                 {isAdmin && connectors.length > 0
-                                  ? `If approved, ${connectors.length} connector${connectors.length !== 1 ? 's' : ''} will be notified`
+                                  ? connectors.length > 3
+                                    ? `If approved, the 3 best placed of ${connectors.length} connectors will be notified first`
+                                    : `If approved, ${connectors.length} connector${connectors.length !== 1 ? 's' : ''} will be notified`
                                   : isAdmin && connectors.length === 0
                                     ? 'No connectors found at this company yet'
                                     : 'Request needs to be approved before it reaches connectors'}
@@ -6689,13 +7168,32 @@ export function AIHomePage() {
                               <span className="u-intro-timeline-title">
                                 You checked with <strong>{contactName}</strong> if they're open to the intro
                               </span>
-                              <span className="u-intro-timeline-via">Waiting for their reply</span>
+                              {!req.contactAgreedAt && <span className="u-intro-timeline-via">Waiting for their reply</span>}
                               <span className="u-intro-timeline-date">{checkedDateStr}, {checkedTimeStr}</span>
                             </div>
                           </div>
                         );
                       })}
 
+                      {/* Contact agreed (double opt-in) */}
+                      {req.contactAgreedAt && (() => {
+                        const agreedDate = new Date(req.contactAgreedAt);
+                        const agreedDateStr = agreedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+                        const agreedTimeStr = agreedDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+                        return (
+                          <div className="u-intro-timeline-item u-intro-timeline-item--done">
+                            <div className="u-intro-timeline-dot u-intro-timeline-dot--done" />
+                            <div className="u-intro-timeline-content">
+                              <span className="u-intro-timeline-title">
+                                {isSent ? 'The contact agreed to the intro' : <><strong>{req.checkedWithContactName || 'Your contact'}</strong> agreed to the intro</>}
+                              </span>
+                              {isOpen && <span className="u-intro-timeline-via">{isSent ? 'Waiting for the intro' : 'Ready for you to make the intro'}</span>}
+                              <span className="u-intro-timeline-date">{agreedDateStr}, {agreedTimeStr}</span>
+                            </div>
+                          </div>
+                        );
+                      })()}
+
                       {/* Completed */}
                       {isDone && acceptedOffer && (() => {
                         const doneDate = new Date(acceptedOffer.createdAt);
@@ -6760,6 +7258,33 @@ export function AIHomePage() {
                     </div>
                   </div>
 
+                  {/* Best-placed introducers (ranked server-side) */}
+                  {isOpen && suggestedIntroducers?.requestId === req.id && suggestedIntroducers.introducers.length > 0 && (
+                    <div className="u-intro-detail-section">
+                      <h4 className="u-intro-detail-label">Best placed to help</h4>
+                      <div className="u-intro-detail-contacts">
+                        {suggestedIntroducers.introducers.map(s => {
+                          const isMe = s.userId === currentUser?.id;
+                          const topContact = s.contacts[0];
+                          return (
+                            <div key={s.userId} className="u-intro-detail-contact" title={s.reasons.join('\n')}>
+                              <PersonAvatar name={s.userName} avatarUrl={s.userAvatar} size={28} />
+                              <div className="u-intro-detail-contact-info">
+                                <span className="u-intro-detail-contact-name">{isMe ? 'You' : s.userName} · {s.score}</span>
+                                {topContact && (
+                                  <span className="u-intro-detail-contact-title">
+                                    Knows {topContact.name || 'someone'}{topContact.title ? `, ${topContact.title}` : ''}
+                                  </span>
+                                )}
+                                <span className="u-intro-detail-contact-title">{s.reasons[0]}</span>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Your contacts at this company (for received requests) */}
                   {!isSent && myContactsAtCompany.length > 0 && (
                     <div className="u-intro-detail-section">
@@ -7114,6 +7639,7 @@ export function AIHomePage() {
                                           requestId: req.id,
                                           action: 'ask-permission',
                                           contactName: contact.name,
+                                          contactId: contact.id,
                                         });
                                         const now = new Date().toISOString();
                                         const newCheck = { at: now, name: contact.name, byId: currentUser?.id || '' };
@@ -7130,7 +7656,7 @@ export function AIHomePage() {
                                       setIntroActionRequestId(null);
                                       setIntroActionType(null);
                                       setIntroSelectedContact(null);
-                                      setIntroToast('Email sent!');
+                                      setIntroToast(introActionType === 'ask-permission' ? 'Sent — you\'ll be notified when they answer' : 'Email sent!');
                                       setTimeout(() => setIntroToast(null), 3000);
                                     } catch (err) {
                                       console.error('Failed to send intro email:', err);
@@ -7302,6 +7828,103 @@ export function AIHomePage() {
                     disabled={introRequestSending || introRequestSent}
                   />
                 </div>
+                {(() => {
+                  const usableTemplates = requestTemplates.filter(t => !t.spaceId || (selected?.type === 'space' && t.spaceId === selected.id));
+                  const setDetail = (key: keyof IntroRequestDetailsInput, value: string) =>
+                    setIntroDetails(prev => ({ ...prev, [key]: value || undefined }));
+                  const applyTemplate = (t: RequestTemplate) => {
+                    if (t.rawText) setIntroRequestText(t.rawText);
+                    setIntroDetails(prev => ({
+                      targetName: prev.targetName,
+                      deadline: prev.deadline,
+                      targetRole: t.targetRole || undefined,
+                      reason: t.reason || undefined,
+                      context: t.context || undefined,
+                      urgency: t.urgency || undefined,
+                      desiredOutcome: t.desiredOutcome || undefined,
+                      forwardableBlurb: t.forwardableBlurb || undefined,
+                      templateId: t.id,
+                    }));
+                    setIntroDetailsOpen(true);
+                  };
+                  const saveTemplate = async (spaceId?: string) => {
+                    const name = window.prompt('Template name');
+                    if (!name?.trim()) return;
+                    try {
+                      const { targetRole, reason, context, urgency, desiredOutcome, forwardableBlurb } = introDetails;
+                      const created = await requestTemplatesApi.create({
+                        name: name.trim(),
+                        spaceId,
+                        rawText: introRequestText.trim() || undefined,
+                        targetRole: targetRole || undefined,
+                        reason: reason || undefined,
+                        context: context || undefined,
+                        urgency: urgency || undefined,
+                        desiredOutcome: desiredOutcome || undefined,
+                        forwardableBlurb: forwardableBlurb || undefined,
+                      });
+                      setRequestTemplates(prev => [...prev, created]);
+                      setIntroToast('Template saved');
+                      setTimeout(() => setIntroToast(null), 3000);
+                    } catch { setIntroToast('Failed to save template'); setTimeout(() => setIntroToast(null), 3000); }
+                  };
+                  const ownsSelectedSpace = selected?.type === 'space' && spaces.find(sp => sp.id === selected.id)?.ownerId === currentUser?.id;
+                  const disabled = introRequestSending || introRequestSent;
+                  return (
+                    <div className="u-panel-section">
+                      {usableTemplates.length > 0 && (
+                        <div className="u-panel-intro-spaces" style={{ marginBottom: '0.5rem' }}>
+                          {usableTemplates.map(t => (
+                            <div
+                              key={t.id}
+                              className={`u-panel-intro-space-row u-panel-intro-space-row--selectable ${introDetails.templateId === t.id ? 'u-panel-intro-space-row--selected' : ''}`}
+                              onClick={() => !disabled && applyTemplate(t)}
+                            >
+                              <span className="u-panel-intro-space-name">📄 {t.name}</span>
+                              {t.space && <span className="u-panel-intro-space-count">{t.space.emoji} {t.space.name}</span>}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <button className="u-action-btn" onClick={() => setIntroDetailsOpen(o => !o)}>
+                        {introDetailsOpen ? 'Hide details' : 'Add details'}
+                      </button>
+                      {introDetailsOpen && (
+                        <>
+                          <input className="u-panel-input" placeholder="Who? (name, if you know it)" maxLength={200}
+                            value={introDetails.targetName || ''} onChange={e => setDetail('targetName', e.target.value)} disabled={disabled} />
+                          <input className="u-panel-input" placeholder="Role (e.g. Head of Partnerships)" maxLength={200}
+                            value={introDetails.targetRole || ''} onChange={e => setDetail('targetRole', e.target.value)} disabled={disabled} />
+                          <textarea className="u-panel-textarea" rows={2} placeholder="Why this person?" maxLength={2000}
+                            value={introDetails.reason || ''} onChange={e => setDetail('reason', e.target.value)} disabled={disabled} />
+                          <textarea className="u-panel-textarea" rows={2} placeholder="About you (context for the person being introduced)" maxLength={2000}
+                            value={introDetails.context || ''} onChange={e => setDetail('context', e.target.value)} disabled={disabled} />
+                          <input className="u-panel-input" placeholder="What would a good outcome be?" maxLength={1000}
+                            value={introDetails.desiredOutcome || ''} onChange={e => setDetail('desiredOutcome', e.target.value)} disabled={disabled} />
+                          <div style={{ display: 'flex', gap: '0.5rem' }}>
+                            <select className="u-panel-input" value={introDetails.urgency || ''} onChange={e => setDetail('urgency', e.target.value)} disabled={disabled}>
+                              <option value="">Urgency</option>
+                              {(Object.keys(REQUEST_URGENCY_LABELS) as RequestUrgency[]).map(u => (
+                                <option key={u} value={u}>{REQUEST_URGENCY_LABELS[u]}</option>
+                              ))}
+                            </select>
+                            <input className="u-panel-input" type="date" title="Deadline"
+                              value={introDetails.deadline || ''} onChange={e => setDetail('deadline', e.target.value)} disabled={disabled} />
+                          </div>
+                          <textarea className="u-panel-textarea" rows={3} maxLength={5000}
+                            placeholder="Forwardable blurb — leave empty and we'll write one from the fields above"
+                            value={introDetails.forwardableBlurb || ''} onChange={e => setDetail('forwardableBlurb', e.target.value)} disabled={disabled} />
+                          <div className="u-panel-actions" style={{ marginTop: '0.5rem' }}>
+                            <button className="u-action-btn" onClick={() => saveTemplate()} disabled={disabled}>Save as template</button>
+                            {ownsSelectedSpace && selected?.type === 'space' && (
+                              <button className="u-action-btn" onClick={() => saveTemplate(selected.id)} disabled={disabled}>Save for {selected.label}</button>
+                            )}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  );
+                })()}
                 <ul className="u-intro-tips">
                   <li>Briefly explain who you are and what you do</li>
                   <li>State your goal concretely — selling services, looking for a vendor, fundraising, co-investing, hiring, etc.</li>
@@ -7317,8 +7940,7 @@ export function AIHomePage() {
                     <button className="u-action-btn" onClick={() => {
                       setInlinePanel(null);
                       setIntroRequestSent(false);
-                      setIntroRequestText('');
-                      setIntroSelectedThrough(null);
+                      resetIntroRequestForm();
                     }}>Close</button>
                   </div>
                 ) : (
@@ -7340,6 +7962,7 @@ export function AIHomePage() {
                               rawText: introRequestText.trim(),
                               spaceId: selected.id,
                               normalizedQuery,
+                              ...introDetails,
                             });
                           } else if (selected?.type === 'connection') {
                             normalizedQuery.connectionPeerId = selected.peerId;
@@ -7348,6 +7971,7 @@ export function AIHomePage() {
                               rawText: introRequestText.trim(),
                               connectionPeerId: selected.peerId,
                               normalizedQuery,
+                              ...introDetails,
                             });
                           }
                           refreshIntroData();
@@ -7358,10 +7982,7 @@ export function AIHomePage() {
                               type: 'intro-detail',
                               company: co,
                               introRequest: {
-                                id: created.id,
-                                rawText: created.rawText,
-                                status: created.status,
-                                createdAt: created.createdAt,
+                                ...created,
                                 direction: 'sent' as const,
                                 normalizedQuery: created.normalizedQuery || normalizedQuery,
                                 requester: created.requester || { id: currentUser?.id || '', name: currentUser?.name || '', avatar: currentUser?.avatar || null },
@@ -7385,8 +8006,7 @@ export function AIHomePage() {
                     </button>
                     <button className="u-action-btn" onClick={() => {
                       setInlinePanel(null);
-                      setIntroRequestText('');
-                      setIntroSelectedThrough(null);
+                      resetIntroRequestForm();
                     }}>Cancel</button>
                   </div>
                 )}
@@ -7450,7 +8070,7 @@ export function AIHomePage() {
 
                 {addContactStep === 'form' && addContactData && (
                   <>
-                    {addContactData.source === 'apollo' && (
+                    {addContactData.source === 'provider' && (
                       <p className="u-add-status u-add-status--success">Auto-filled — review and save</p>
                     )}
                     {addContactData.source === 'partial' && (
@@ -7491,7 +8111,7 @@ export function AIHomePage() {
                           companyDomain: domain,
                           lastSeenAt: c.lastSeenAt,
                           meetingsCount: c.meetingsCount || 0,
-                          connectionStrength: 'weak' as const,
+                          connectionStrength: 'none' as const,
                           linkedinUrl: c.linkedinUrl,
                           photoUrl: c.photoUrl,
                           headline: c.headline,
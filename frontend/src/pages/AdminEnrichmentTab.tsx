@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { adminApi, type AdminEnrichmentSpend } from '../lib/api';
+
+// This month and the five before it, as YYYY-MM (UTC, like the ledger)
+function recentPeriods(): string[] {
+  const now = new Date();
+  return Array.from({ length: 6 }, (_, i) =>
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)).toISOString().slice(0, 7),
+  );
+}
+
+function formatPeriod(period: string): string {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+function CreditsOf({ used, limit }: { used: number; limit: number | null }) {
+  if (limit === null) return <span>{used.toLocaleString()}</span>;
+  return (
+    <span className={used >= limit ? 'admin-jobs-failed' : ''}>
+      {used.toLocaleString()} <span className="admin-jobs-muted">/ {limit.toLocaleString()}</span>
+    </span>
+  );
+}
+
+/**
+ * The Enrichment tab of the admin dashboard: credits spent per provider and
+ * per user in a month, with each user's monthly budget editable inline.
+ */
+export function AdminEnrichmentTab() {
+  const periods = recentPeriods();
+  const [period, setPeriod] = useState(periods[0]);
+  const [report, setReport] = useState<AdminEnrichmentSpend | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ userId: string; value: string } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setReport(await adminApi.getEnrichmentSpend(period));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load enrichment spend');
+    }
+  }, [period]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const saveBudget = async (userId: string, value: string) => {
+    const monthlyCredits = value.trim() === '' ? null : parseInt(value, 10);
+    if (monthlyCredits !== null && (!Number.isFinite(monthlyCredits) || monthlyCredits < 0)) {
+      alert('Enter a number of credits, or leave it empty for the default');
+      return;
+    }
+    try {
+      await adminApi.setEnrichmentBudget(userId, monthlyCredits);
+      setEditing(null);
+      await load();
+    } catch (err: any) {
+      alert(err.message || 'Failed to save budget');
+    }
+  };
+
+  const providerNames = report
+    ? Array.from(new Set([...report.chain.map(p => p.name), ...report.providers.map(p => p.provider)]))
+    : [];
+
+  return (
+    <div className="admin-jobs">
+      {error && <div className="admin-error">{error}</div>}
+
+      <div className="admin-jobs-section">
+        <div className="admin-jobs-header">
+          <span className="admin-cohort-title">Enrichment Spend</span>
+          <select className="admin-jobs-select" value={period} onChange={e => setPeriod(e.target.value)}>
+            {periods.map(p => <option key={p} value={p}>{formatPeriod(p)}</option>)}
+          </select>
+          {report && (
+            <span className="admin-jobs-muted">
+              <CreditsOf used={report.total} limit={report.globalBudget} /> credits overall
+              {report.defaultUserBudget !== null && ` · ${report.defaultUserBudget.toLocaleString()} per user by default`}
+            </span>
+          )}
+          <button className="admin-jobs-btn" onClick={load}>Refresh</button>
+        </div>
+        <div className="admin-table-wrapper">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Provider</th>
+                <th>Chain</th>
+                <th>Credits</th>
+                <th>Lookups</th>
+                <th>Matched</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!report ? (
+                <tr><td colSpan={5} className="admin-table-empty">Loading...</td></tr>
+              ) : providerNames.length === 0 ? (
+                <tr><td colSpan={5} className="admin-table-empty">No providers</td></tr>
+              ) : providerNames.map(name => {
+                const chain = report.chain.find(p => p.name === name);
+                const spend = report.providers.find(p => p.provider === name);
+                return (
+                  <tr key={name}>
+                    <td className="admin-jobs-type">{name}</td>
+                    <td>
+                      {chain?.position
+                        ? (chain.configured ? `#${chain.position}` : <span className="admin-jobs-failed">#{chain.position}, not configured</span>)
+                        : <span className="admin-jobs-muted">Not in chain</span>}
+                    </td>
+                    <td><CreditsOf used={spend?.credits ?? 0} limit={spend?.budget ?? chain?.budget ?? null} /></td>
+                    <td>{spend?.lookups ?? 0}</td>
+                    <td>
+                      {spend && spend.lookups > 0
+                        ? `${spend.matched} (${Math.round((spend.matched / spend.lookups) * 100)}%)`
+                        : <span className="admin-jobs-muted">—</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="admin-jobs-section">
+        <div className="admin-jobs-header">
+          <span className="admin-cohort-title">Top Spenders</span>
+          <span className="admin-jobs-muted">Leave a budget empty to use the default</span>
+        </div>
+        <div className="admin-table-wrapper">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>User</th>
+                <th>Credits</th>
+                <th>Lookups</th>
+                <th>Monthly budget</th>
+                <th style={{ width: '140px' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {!report ? (
+                <tr><td colSpan={5} className="admin-table-empty">Loading...</td></tr>
+              ) : report.users.length === 0 ? (
+                <tr><td colSpan={5} className="admin-table-empty">No credits spent in {formatPeriod(period)}</td></tr>
+              ) : report.users.map(u => (
+                <tr key={u.userId}>
+                  <td>
+                    <div className="admin-jobs-run">
+                      <span>{u.name || 'Unknown user'}</span>
+                      <span className="admin-jobs-muted">{u.email}</span>
+                    </div>
+                  </td>
+                  <td><CreditsOf used={u.credits} limit={u.limit} /></td>
+                  <td>{u.lookups}</td>
+                  <td>
+                    {editing?.userId === u.userId ? (
+                      <input
+                        className="admin-jobs-select admin-budget-input"
+                        type="number"
+                        min={0}
+                        autoFocus
+                        value={editing.value}
+                        placeholder="Default"
+                        onChange={e => setEditing({ userId: u.userId, value: e.target.value })}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') saveBudget(u.userId, editing.value);
+                          if (e.key === 'Escape') setEditing(null);
+                        }}
+                      />
+                    ) : u.customLimit !== null ? (
+                      u.customLimit.toLocaleString()
+                    ) : (
+                      <span className="admin-jobs-muted">{u.limit === null ? 'Unlimited' : `Default (${u.limit.toLocaleString()})`}</span>
+                    )}
+                  </td>
+                  <td>
+                    <div className="admin-jobs-actions">
+                      {editing?.userId === u.userId ? (
+                        <>
+                          <button className="admin-jobs-btn" onClick={() => saveBudget(u.userId, editing.value)}>Save</button>
+                          <button className="admin-jobs-btn" onClick={() => setEditing(null)}>Cancel</button>
+                        </>
+                      ) : (
+                        <button
+                          className="admin-jobs-btn"
+                          onClick={() => setEditing({ userId: u.userId, value: u.customLimit?.toString() ?? '' })}
+                        >Set budget</button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
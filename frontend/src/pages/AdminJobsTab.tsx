@@ -0,0 +1,434 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  adminApi,
+  type AdminJob,
+  type AdminJobRun,
+  type AdminJobStatus,
+  type AdminJobTypeSummary,
+  type AdminUserJobStatus,
+} from '../lib/api';
+
+const JOB_STATUSES: AdminJobStatus[] = ['queued', 'running', 'succeeded', 'cancelled', 'dead'];
+
+const STATUS_COLORS: Record<AdminJobStatus, string> = {
+  queued: '#94a3b8',
+  running: '#60a5fa',
+  succeeded: '#4ade80',
+  cancelled: '#facc15',
+  dead: '#f87171',
+};
+
+function formatEvery(ms: number | null): string {
+  if (!ms) return 'On demand';
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `Every ${minutes} min`;
+  return `Every ${Math.round(minutes / 60)}h`;
+}
+
+function formatTime(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function formatDuration(run: { startedAt: string | null; finishedAt: string | null }): string {
+  if (!run.startedAt || !run.finishedAt) return '';
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function StatusBadge({ status }: { status: AdminJobStatus }) {
+  const color = STATUS_COLORS[status];
+  return (
+    <span className="admin-status-badge" style={{ '--status-color': color } as React.CSSProperties}>
+      <span className="admin-status-dot" style={{ backgroundColor: color }} />
+      {status}
+    </span>
+  );
+}
+
+// "12 processed · 1 failed", from whatever counters the job returned
+function RunCounts({ run }: { run: Pick<AdminJobRun, 'result'> }) {
+  const result = run.result;
+  if (!result) return <span className="admin-jobs-muted">—</span>;
+  if (typeof result.processed === 'number') {
+    return (
+      <span>
+        {result.processed} processed
+        {!!result.failed && <span className="admin-jobs-failed"> · {result.failed} failed</span>}
+      </span>
+    );
+  }
+  const counts = Object.entries(result).filter(([, v]) => typeof v === 'number');
+  if (counts.length === 0) return <span className="admin-jobs-muted">—</span>;
+  return <span>{counts.map(([k, v]) => `${v} ${k}`).join(' · ')}</span>;
+}
+
+/**
+ * The Jobs tab of the admin dashboard: recurring jobs with their last and
+ * next run, the run history, and per-user calendar sync / enrichment status.
+ */
+export function AdminJobsTab() {
+  const [summary, setSummary] = useState<{ types: AdminJobTypeSummary[]; queueLagMs: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      setSummary(await adminApi.getJobSummary());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load jobs');
+    }
+  }, []);
+
+  useEffect(() => { loadSummary(); }, [loadSummary]);
+
+  const runNow = async (type: string) => {
+    try {
+      await adminApi.runJob(type);
+      await loadSummary();
+    } catch (err: any) {
+      alert(err.message || 'Failed to run job');
+    }
+  };
+
+  const recurring = summary?.types.filter(t => t.recurring) || [];
+  const onDemand = summary?.types.filter(t => !t.recurring) || [];
+
+  return (
+    <div className="admin-jobs">
+      {error && <div className="admin-error">{error}</div>}
+
+      <div className="admin-jobs-section">
+        <div className="admin-jobs-header">
+          <span className="admin-cohort-title">Scheduled Jobs</span>
+          {summary && (
+            <span className="admin-jobs-muted">
+              Queue lag {Math.round(summary.queueLagMs / 1000)}s
+            </span>
+          )}
+          <button className="admin-jobs-btn" onClick={loadSummary}>Refresh</button>
+        </div>
+        <div className="admin-table-wrapper">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Job</th>
+                <th>Schedule</th>
+                <th>Last run</th>
+                <th>Result</th>
+                <th>Next run</th>
+                <th>Dead</th>
+                <th style={{ width: '90px' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {!summary ? (
+                <tr><td colSpan={7} className="admin-table-empty">Loading...</td></tr>
+              ) : recurring.map(t => (
+                <tr key={t.type}>
+                  <td className="admin-jobs-type">{t.type}</td>
+                  <td>{formatEvery(t.everyMs)}</td>
+                  <td>
+                    {t.lastRun ? (
+                      <div className="admin-jobs-run">
+                        <StatusBadge status={t.lastRun.status} />
+                        <span className="admin-jobs-muted">{formatTime(t.lastRun.startedAt)} {formatDuration(t.lastRun)}</span>
+                      </div>
+                    ) : <span className="admin-jobs-muted">Never</span>}
+                  </td>
+                  <td>
+                    {t.lastRun && <RunCounts run={t.lastRun} />}
+                    {t.lastRun?.lastError && <div className="admin-jobs-error">{t.lastRun.lastError}</div>}
+                  </td>
+                  <td>
+                    {t.nextRun?.status === 'running'
+                      ? <StatusBadge status="running" />
+                      : formatTime(t.nextRun?.runAt ?? null)}
+                  </td>
+                  <td className={t.counts.dead > 0 ? 'admin-jobs-failed' : ''}>{t.counts.dead}</td>
+                  <td>
+                    <button
+                      className="admin-jobs-btn"
+                      disabled={t.nextRun?.status === 'running'}
+                      onClick={() => runNow(t.type)}
+                    >Run now</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {onDemand.length > 0 && (
+          <div className="admin-jobs-counts">
+            {onDemand.map(t => (
+              <span key={t.type} className="admin-jobs-count">
+                <span className="admin-jobs-type">{t.type}</span>
+                {t.counts.queued} queued · {t.counts.running} running · <span className={t.counts.dead > 0 ? 'admin-jobs-failed' : ''}>{t.counts.dead} dead</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <JobHistory types={summary?.types.map(t => t.type) || []} onChanged={loadSummary} />
+      <UserJobStatus />
+    </div>
+  );
+}
+
+function JobHistory({ types, onChanged }: { types: string[]; onChanged: () => void }) {
+  const [jobs, setJobs] = useState<AdminJob[]>([]);
+  const [pagination, setPagination] = useState({ total: 0, page: 1, limit: 50, pages: 1 });
+  const [type, setType] = useState('');
+  const [status, setStatus] = useState<AdminJobStatus | ''>('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async (page = 1) => {
+    setLoading(true);
+    try {
+      const res = await adminApi.getJobs({ type: type || undefined, status: status || undefined, page });
+      setJobs(res.data);
+      setPagination(res.pagination);
+    } catch (err) {
+      console.error('Failed to load job history:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [type, status]);
+
+  useEffect(() => { load(1); }, [load]);
+
+  const act = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await load(pagination.page);
+      onChanged();
+    } catch (err: any) {
+      alert(err.message || 'Job action failed');
+    }
+  };
+
+  return (
+    <div className="admin-jobs-section">
+      <div className="admin-jobs-header">
+        <span className="admin-cohort-title">Run History</span>
+        <select className="admin-jobs-select" value={type} onChange={e => setType(e.target.value)}>
+          <option value="">All jobs</option>
+          {types.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <div className="admin-filter-pills">
+          <button className={`admin-filter-pill ${status === '' ? 'active' : ''}`} onClick={() => setStatus('')}>All</button>
+          {JOB_STATUSES.map(s => (
+            <button key={s} className={`admin-filter-pill ${status === s ? 'active' : ''}`} onClick={() => setStatus(status === s ? '' : s)}>
+              <span className="admin-filter-dot" style={{ backgroundColor: STATUS_COLORS[s] }} />
+              {s}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="admin-table-wrapper">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Job</th>
+              <th>User</th>
+              <th>Status</th>
+              <th>Started</th>
+              <th>Duration</th>
+              <th>Result</th>
+              <th style={{ width: '90px' }}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading && jobs.length === 0 ? (
+              <tr><td colSpan={7} className="admin-table-empty">Loading...</td></tr>
+            ) : jobs.length === 0 ? (
+              <tr><td colSpan={7} className="admin-table-empty">No jobs</td></tr>
+            ) : jobs.map(job => {
+              const failures = job.result?.failures || [];
+              const hasDetail = failures.length > 0 || !!job.lastError;
+              return (
+                <JobRow
+                  key={job.id}
+                  job={job}
+                  expanded={expanded === job.id}
+                  onToggle={hasDetail ? () => setExpanded(expanded === job.id ? null : job.id) : undefined}
+                  onRetry={() => act(() => adminApi.retryJob(job.id))}
+                  onCancel={() => act(() => adminApi.cancelJob(job.id))}
+                />
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {pagination.pages > 1 && (
+        <div className="admin-pagination">
+          <button disabled={pagination.page <= 1} onClick={() => load(pagination.page - 1)}>Prev</button>
+          <span>Page {pagination.page} of {pagination.pages} ({pagination.total} jobs)</span>
+          <button disabled={pagination.page >= pagination.pages} onClick={() => load(pagination.page + 1)}>Next</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function JobRow({ job, expanded, onToggle, onRetry, onCancel }: {
+  job: AdminJob;
+  expanded: boolean;
+  onToggle?: () => void;
+  onRetry: () => void;
+  onCancel: () => void;
+}) {
+  const failures = job.result?.failures || [];
+  return (
+    <>
+      <tr className={onToggle ? 'admin-user-row' : ''} onClick={onToggle}>
+        <td className="admin-jobs-type">{job.type}</td>
+        <td>{job.user ? job.user.email : <span className="admin-jobs-muted">—</span>}</td>
+        <td>
+          <StatusBadge status={job.status} />
+          {job.attempts > 1 && <span className="admin-jobs-muted"> attempt {job.attempts}/{job.maxAttempts}</span>}
+        </td>
+        <td>{formatTime(job.startedAt ?? job.runAt)}</td>
+        <td>{formatDuration(job)}</td>
+        <td>
+          <RunCounts run={job} />
+          {job.lastError && !expanded && <div className="admin-jobs-error">{job.lastError}</div>}
+        </td>
+        <td onClick={e => e.stopPropagation()}>
+          {(job.status === 'dead' || job.status === 'cancelled') && (
+            <button className="admin-jobs-btn" onClick={onRetry}>Retry</button>
+          )}
+          {(job.status === 'queued' || job.status === 'running') && (
+            <button className="admin-jobs-btn" onClick={onCancel}>Cancel</button>
+          )}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="admin-detail-row">
+          <td colSpan={7}>
+            <div className="admin-jobs-detail">
+              {job.lastError && <div className="admin-jobs-error">{job.lastError}</div>}
+              {failures.map((f, i) => (
+                <div key={i} className="admin-jobs-failure">
+                  <span className="admin-jobs-failure-subject">{f.subject}</span>
+                  <span className="admin-jobs-error">{f.error}</span>
+                </div>
+              ))}
+              {(job.result?.failed ?? 0) > failures.length && (
+                <div className="admin-jobs-muted">…and {(job.result!.failed as number) - failures.length} more</div>
+              )}
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function UserJobStatus() {
+  const [users, setUsers] = useState<AdminUserJobStatus[]>([]);
+  const [pagination, setPagination] = useState({ total: 0, page: 1, limit: 50, pages: 1 });
+  const [search, setSearch] = useState('');
+  const searchTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  const load = useCallback(async (params: { search?: string; page?: number }) => {
+    try {
+      const res = await adminApi.getUserJobStatus(params);
+      setUsers(res.data);
+      setPagination(res.pagination);
+    } catch (err) {
+      console.error('Failed to load user job status:', err);
+    }
+  }, []);
+
+  useEffect(() => { load({}); }, [load]);
+
+  const handleSearch = (val: string) => {
+    setSearch(val);
+    if (searchTimeout.current) clearTimeout(searchTimeout.current);
+    searchTimeout.current = setTimeout(() => load({ search: val, page: 1 }), 300);
+  };
+
+  const queue = async (userId: string, kind: 'sync' | 'enrich') => {
+    try {
+      await adminApi.queueUserJob(userId, kind);
+      await load({ search, page: pagination.page });
+    } catch (err: any) {
+      alert(err.message || 'Failed to queue job');
+    }
+  };
+
+  return (
+    <div className="admin-jobs-section">
+      <div className="admin-jobs-header">
+        <span className="admin-cohort-title">Per-User Sync &amp; Enrichment</span>
+        <input
+          className="admin-search"
+          type="text"
+          placeholder="Search by name or email..."
+          value={search}
+          onChange={e => handleSearch(e.target.value)}
+        />
+      </div>
+      <div className="admin-table-wrapper">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>User</th>
+              <th>Calendar synced</th>
+              <th>Last sync job</th>
+              <th>Enriched</th>
+              <th>Last enrichment job</th>
+              <th style={{ width: '150px' }}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.length === 0 ? (
+              <tr><td colSpan={6} className="admin-table-empty">No users</td></tr>
+            ) : users.map(u => (
+              <tr key={u.id}>
+                <td>
+                  <div className="admin-user-name-text">{u.name}</div>
+                  <div className="admin-user-email">{u.email}</div>
+                </td>
+                <td>{formatTime(u.calendarSyncedAt)}</td>
+                <td><UserJobCell job={u.lastSyncJob} /></td>
+                <td>
+                  {u.enrichedContactCount}/{u.contactsCount}
+                  <div className="admin-jobs-muted">{formatTime(u.lastContactEnrichedAt)}</div>
+                </td>
+                <td><UserJobCell job={u.lastEnrichmentJob} /></td>
+                <td>
+                  <div className="admin-jobs-actions">
+                    <button className="admin-jobs-btn" onClick={() => queue(u.id, 'sync')}>Sync</button>
+                    <button className="admin-jobs-btn" onClick={() => queue(u.id, 'enrich')}>Enrich</button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {pagination.pages > 1 && (
+        <div className="admin-pagination">
+          <button disabled={pagination.page <= 1} onClick={() => load({ search, page: pagination.page - 1 })}>Prev</button>
+          <span>Page {pagination.page} of {pagination.pages} ({pagination.total} users)</span>
+          <button disabled={pagination.page >= pagination.pages} onClick={() => load({ search, page: pagination.page + 1 })}>Next</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UserJobCell({ job }: { job: (AdminJobRun & { attempts: number }) | null }) {
+  if (!job) return <span className="admin-jobs-muted">Never</span>;
+  return (
+    <div className="admin-jobs-run">
+      <StatusBadge status={job.status} />
+      <span className="admin-jobs-muted">{formatTime(job.finishedAt ?? job.startedAt)}</span>
+      {job.lastError && <div className="admin-jobs-error">{job.lastError}</div>}
+    </div>
+  );
+}
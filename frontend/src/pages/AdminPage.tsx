@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAppState, useAppActions } from '../store';
 import { adminApi, type AdminUser, type AdminStats, type AdminPendingInvite } from '../lib/api';
+import { AdminJobsTab } from './AdminJobsTab';
+import { AdminEnrichmentTab } from './AdminEnrichmentTab';
 
 const COL_COUNT = 7;
 
@@ -209,6 +211,7 @@ export function AdminPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedUser, setExpandedUser] = useState<string | null>(null);
+  const [tab, setTab] = useState<'users' | 'jobs' | 'enrichment'>('users');
   const searchTimeout = useRef<ReturnType<typeof setTimeout>>();
 
   const isAdmin = currentUser?.role === 'admin';
@@ -341,262 +344,271 @@ export function AdminPage() {
 
       {error && <div className="admin-error">{error}</div>}
 
-      {/* Active Users Chart */}
-      {!loading && activityChart && (activityChart.wau.length > 0 || activityChart.mau.length > 0) && (
-        <div className="admin-au-section">
-          <div className="admin-au-header">
-            <span className="admin-au-title">Active Users</span>
-          </div>
-          <div className="admin-au-charts">
-            {activityChart.mau.length > 0 && (
-              <div className="admin-au-chart">
-                <div className="admin-au-chart-label">Monthly Active Users (MAU)</div>
-                <div className="admin-au-bars">
-                  {(() => {
-                    const max = Math.max(...activityChart.mau.map(m => m.count), 1);
-                    return activityChart.mau.map(m => (
-                      <div key={m.month} className="admin-au-bar-col">
-                        <span className="admin-au-bar-val">{m.count}</span>
-                        <div className="admin-au-bar-track">
-                          <div className="admin-au-bar-fill mau" style={{ height: `${Math.max(4, Math.round((m.count / max) * 100))}%` }} />
-                        </div>
-                        <span className="admin-au-bar-label">{m.month.slice(5)}/{m.month.slice(2, 4)}</span>
-                      </div>
-                    ));
-                  })()}
-                </div>
-              </div>
-            )}
-            {activityChart.wau.length > 0 && (
-              <div className="admin-au-chart">
-                <div className="admin-au-chart-label">Weekly Active Users (WAU)</div>
-                <div className="admin-au-bars">
-                  {(() => {
-                    const max = Math.max(...activityChart.wau.map(w => w.count), 1);
-                    const recent = activityChart.wau.slice(-12);
-                    return recent.map(w => {
-                      const d = new Date(w.week);
-                      const label = `${d.getMonth() + 1}/${d.getDate()}`;
-                      return (
-                        <div key={w.week} className="admin-au-bar-col">
-                          <span className="admin-au-bar-val">{w.count}</span>
+      <div className="admin-tabs">
+        <button className={`admin-filter-tab ${tab === 'users' ? 'active' : ''}`} onClick={() => setTab('users')}>Users</button>
+        <button className={`admin-filter-tab ${tab === 'jobs' ? 'active' : ''}`} onClick={() => setTab('jobs')}>Jobs</button>
+        <button className={`admin-filter-tab ${tab === 'enrichment' ? 'active' : ''}`} onClick={() => setTab('enrichment')}>Enrichment</button>
+      </div>
+
+      {tab === 'jobs' ? <AdminJobsTab /> : tab === 'enrichment' ? <AdminEnrichmentTab /> : (
+        <>
+        {/* Active Users Chart */}
+        {!loading && activityChart && (activityChart.wau.length > 0 || activityChart.mau.length > 0) && (
+          <div className="admin-au-section">
+            <div className="admin-au-header">
+              <span className="admin-au-title">Active Users</span>
+            </div>
+            <div className="admin-au-charts">
+              {activityChart.mau.length > 0 && (
+                <div className="admin-au-chart">
+                  <div className="admin-au-chart-label">Monthly Active Users (MAU)</div>
+                  <div className="admin-au-bars">
+                    {(() => {
+                      const max = Math.max(...activityChart.mau.map(m => m.count), 1);
+                      return activityChart.mau.map(m => (
+                        <div key={m.month} className="admin-au-bar-col">
+                          <span className="admin-au-bar-val">{m.count}</span>
                           <div className="admin-au-bar-track">
-                            <div className="admin-au-bar-fill wau" style={{ height: `${Math.max(4, Math.round((w.count / max) * 100))}%` }} />
+                            <div className="admin-au-bar-fill mau" style={{ height: `${Math.max(4, Math.round((m.count / max) * 100))}%` }} />
                           </div>
-                          <span className="admin-au-bar-label">{label}</span>
+                          <span className="admin-au-bar-label">{m.month.slice(5)}/{m.month.slice(2, 4)}</span>
                         </div>
-                      );
-                    });
-                  })()}
+                      ));
+                    })()}
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-        </div>
-      )}
-
-      {/* Cohort analysis */}
-      {!loading && users.length > 0 && (
-        <div className="admin-cohort-section">
-          <div className="admin-cohort-header">
-            <span className="admin-cohort-title">Cohort Analysis</span>
-          </div>
-          <div className="admin-cohort-scroll">
-            <table className="admin-cohort-table">
-              <thead>
-                <tr>
-                  <th className="admin-cohort-month-col">Cohort</th>
-                  {COHORT_COLS.map(col => (
-                    <th key={col.key}>{col.label}</th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {cohorts.map(row => {
-                  const isActive = monthFilter === row.month;
-                  return (
-                    <tr
-                      key={row.month}
-                      className={`admin-cohort-row ${isActive ? 'active' : ''}`}
-                      onClick={() => handleCohortClick(row.month)}
-                    >
-                      <td className="admin-cohort-month-cell">
-                        <span className="admin-cohort-month-text">{row.label}</span>
-                      </td>
-                      {COHORT_COLS.map(col => {
-                        const val = row[col.key as keyof CohortRow] as number;
-                        const base = col.rateBase ? (row[col.rateBase as keyof CohortRow] as number) : 0;
-                        const hasRate = col.rateBase !== null && base > 0;
-                        const pct = hasRate ? Math.round((val / base) * 100) : 0;
-                        const barHeight = row.invited > 0 && col.rateBase !== null
-                          ? Math.max(18, Math.round((val / row.invited) * 100))
-                          : (row.invited > 0 ? Math.max(18, Math.round((val / row.invited) * 100)) : 18);
+              )}
+              {activityChart.wau.length > 0 && (
+                <div className="admin-au-chart">
+                  <div className="admin-au-chart-label">Weekly Active Users (WAU)</div>
+                  <div className="admin-au-bars">
+                    {(() => {
+                      const max = Math.max(...activityChart.wau.map(w => w.count), 1);
+                      const recent = activityChart.wau.slice(-12);
+                      return recent.map(w => {
+                        const d = new Date(w.week);
+                        const label = `${d.getMonth() + 1}/${d.getDate()}`;
                         return (
-                          <td key={col.key} className="admin-cohort-cell">
-                            <div className="admin-cohort-bar-wrap">
-                              <div
-                                className="admin-cohort-bar"
-                                style={{
-                                  height: `${barHeight}%`,
-                                  backgroundColor: `${col.color}30`,
-                                  borderColor: `${col.color}60`,
-                                }}
-                              >
-                                <span className="admin-cohort-val">{val}</span>
-                                {hasRate && (
-                                  <span className="admin-cohort-pct" style={{ color: col.color }}>{pct}%</span>
-                                )}
-                              </div>
+                          <div key={w.week} className="admin-au-bar-col">
+                            <span className="admin-au-bar-val">{w.count}</span>
+                            <div className="admin-au-bar-track">
+                              <div className="admin-au-bar-fill wau" style={{ height: `${Math.max(4, Math.round((w.count / max) * 100))}%` }} />
                             </div>
-                          </td>
+                            <span className="admin-au-bar-label">{label}</span>
+                          </div>
                         );
-                      })}
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
+                      });
+                    })()}
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Intro activity by month */}
-      {!loading && cohorts.length > 0 && (
-        <div className="admin-intro-activity">
-          <div className="admin-intro-activity-header">
-            <span className="admin-intro-activity-title">Intro Requests by Month</span>
-            {stats && (
-              <span className="admin-intro-activity-total">
-                {stats.totalIntroRequests} total &middot; {stats.successfulIntroRequests} successful &middot; {stats.totalIntroOffers} offers
-              </span>
-            )}
+        {/* Cohort analysis */}
+        {!loading && users.length > 0 && (
+          <div className="admin-cohort-section">
+            <div className="admin-cohort-header">
+              <span className="admin-cohort-title">Cohort Analysis</span>
+            </div>
+            <div className="admin-cohort-scroll">
+              <table className="admin-cohort-table">
+                <thead>
+                  <tr>
+                    <th className="admin-cohort-month-col">Cohort</th>
+                    {COHORT_COLS.map(col => (
+                      <th key={col.key}>{col.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {cohorts.map(row => {
+                    const isActive = monthFilter === row.month;
+                    return (
+                      <tr
+                        key={row.month}
+                        className={`admin-cohort-row ${isActive ? 'active' : ''}`}
+                        onClick={() => handleCohortClick(row.month)}
+                      >
+                        <td className="admin-cohort-month-cell">
+                          <span className="admin-cohort-month-text">{row.label}</span>
+                        </td>
+                        {COHORT_COLS.map(col => {
+                          const val = row[col.key as keyof CohortRow] as number;
+                          const base = col.rateBase ? (row[col.rateBase as keyof CohortRow] as number) : 0;
+                          const hasRate = col.rateBase !== null && base > 0;
+                          const pct = hasRate ? Math.round((val / base) * 100) : 0;
+                          const barHeight = row.invited > 0 && col.rateBase !== null
+                            ? Math.max(18, Math.round((val / row.invited) * 100))
+                            : (row.invited > 0 ? Math.max(18, Math.round((val / row.invited) * 100)) : 18);
+                          return (
+                            <td key={col.key} className="admin-cohort-cell">
+                              <div className="admin-cohort-bar-wrap">
+                                <div
+                                  className="admin-cohort-bar"
+                                  style={{
+                                    height: `${barHeight}%`,
+                                    backgroundColor: `${col.color}30`,
+                                    borderColor: `${col.color}60`,
+                                  }}
+                                >
+                                  <span className="admin-cohort-val">{val}</span>
+                                  {hasRate && (
+                                    <span className="admin-cohort-pct" style={{ color: col.color }}>{pct}%</span>
+                                  )}
+                                </div>
+                              </div>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
           </div>
-          <div className="admin-intro-activity-bars">
-            {cohorts.filter(r => r.introsSent > 0 || r.introsOK > 0).length === 0 ? (
-              <span className="admin-intro-activity-empty">No intro requests yet</span>
-            ) : cohorts.map(row => {
-              const maxSent = Math.max(...cohorts.map(r => r.introsSent), 1);
-              const sentWidth = Math.round((row.introsSent / maxSent) * 100);
-              const okWidth = row.introsSent > 0 ? Math.round((row.introsOK / row.introsSent) * 100) : 0;
-              return (
-                <div key={row.month} className="admin-intro-activity-row">
-                  <span className="admin-intro-activity-month">{row.label}</span>
-                  <div className="admin-intro-activity-track">
-                    <div className="admin-intro-activity-bar sent" style={{ width: `${sentWidth}%` }}>
-                      <div className="admin-intro-activity-bar ok" style={{ width: `${okWidth}%` }} />
+        )}
+
+        {/* Intro activity by month */}
+        {!loading && cohorts.length > 0 && (
+          <div className="admin-intro-activity">
+            <div className="admin-intro-activity-header">
+              <span className="admin-intro-activity-title">Intro Requests by Month</span>
+              {stats && (
+                <span className="admin-intro-activity-total">
+                  {stats.totalIntroRequests} total &middot; {stats.successfulIntroRequests} successful &middot; {stats.totalIntroOffers} offers
+                </span>
+              )}
+            </div>
+            <div className="admin-intro-activity-bars">
+              {cohorts.filter(r => r.introsSent > 0 || r.introsOK > 0).length === 0 ? (
+                <span className="admin-intro-activity-empty">No intro requests yet</span>
+              ) : cohorts.map(row => {
+                const maxSent = Math.max(...cohorts.map(r => r.introsSent), 1);
+                const sentWidth = Math.round((row.introsSent / maxSent) * 100);
+                const okWidth = row.introsSent > 0 ? Math.round((row.introsOK / row.introsSent) * 100) : 0;
+                return (
+                  <div key={row.month} className="admin-intro-activity-row">
+                    <span className="admin-intro-activity-month">{row.label}</span>
+                    <div className="admin-intro-activity-track">
+                      <div className="admin-intro-activity-bar sent" style={{ width: `${sentWidth}%` }}>
+                        <div className="admin-intro-activity-bar ok" style={{ width: `${okWidth}%` }} />
+                      </div>
                     </div>
+                    <span className="admin-intro-activity-nums">
+                      <span className="admin-intro-activity-ok">{row.introsOK}</span>
+                      <span className="admin-intro-activity-sep">/</span>
+                      <span>{row.introsSent}</span>
+                    </span>
                   </div>
-                  <span className="admin-intro-activity-nums">
-                    <span className="admin-intro-activity-ok">{row.introsOK}</span>
-                    <span className="admin-intro-activity-sep">/</span>
-                    <span>{row.introsSent}</span>
-                  </span>
-                </div>
-              );
-            })}
-          </div>
-          <div className="admin-intro-activity-legend">
-            <span className="admin-intro-activity-legend-item"><span className="admin-intro-legend-swatch sent" /> Requested</span>
-            <span className="admin-intro-activity-legend-item"><span className="admin-intro-legend-swatch ok" /> Successful</span>
+                );
+              })}
+            </div>
+            <div className="admin-intro-activity-legend">
+              <span className="admin-intro-activity-legend-item"><span className="admin-intro-legend-swatch sent" /> Requested</span>
+              <span className="admin-intro-activity-legend-item"><span className="admin-intro-legend-swatch ok" /> Successful</span>
+            </div>
           </div>
-        </div>
-      )}
-
-      {/* Controls */}
-      <div className="admin-controls">
-        <input
-          className="admin-search"
-          type="text"
-          placeholder="Search by name or email..."
-          value={search}
-          onChange={e => handleSearch(e.target.value)}
-        />
+        )}
 
-        <div className="admin-filter-group">
-          <span className="admin-filter-label">Status</span>
-          <div className="admin-filter-pills">
-            <button
-              className={`admin-filter-pill ${statusFilter === null ? 'active' : ''}`}
-              onClick={() => setStatusFilter(null)}
-            >All</button>
-            {STATUS_FILTER_OPTIONS.map(opt => (
+        {/* Controls */}
+        <div className="admin-controls">
+          <input
+            className="admin-search"
+            type="text"
+            placeholder="Search by name or email..."
+            value={search}
+            onChange={e => handleSearch(e.target.value)}
+          />
+
+          <div className="admin-filter-group">
+            <span className="admin-filter-label">Status</span>
+            <div className="admin-filter-pills">
               <button
-                key={opt.key}
-                className={`admin-filter-pill ${statusFilter === opt.key ? 'active' : ''}`}
-                onClick={() => setStatusFilter(statusFilter === opt.key ? null : opt.key)}
-              >
-                <span className="admin-filter-dot" style={{ backgroundColor: opt.color }} />
-                {opt.label}
-              </button>
-            ))}
+                className={`admin-filter-pill ${statusFilter === null ? 'active' : ''}`}
+                onClick={() => setStatusFilter(null)}
+              >All</button>
+              {STATUS_FILTER_OPTIONS.map(opt => (
+                <button
+                  key={opt.key}
+                  className={`admin-filter-pill ${statusFilter === opt.key ? 'active' : ''}`}
+                  onClick={() => setStatusFilter(statusFilter === opt.key ? null : opt.key)}
+                >
+                  <span className="admin-filter-dot" style={{ backgroundColor: opt.color }} />
+                  {opt.label}
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
 
-        <div className="admin-filter-group">
-          <span className="admin-filter-label">Created</span>
-          <div className="admin-filter-dates">
-            <input type="date" className="admin-date-input" value={dateFrom} onChange={e => setDateFrom(e.target.value)} />
-            <span className="admin-date-sep">—</span>
-            <input type="date" className="admin-date-input" value={dateTo} onChange={e => setDateTo(e.target.value)} />
-            {(dateFrom || dateTo) && (
-              <button className="admin-filter-clear" onClick={() => { setDateFrom(''); setDateTo(''); }}>&times;</button>
-            )}
+          <div className="admin-filter-group">
+            <span className="admin-filter-label">Created</span>
+            <div className="admin-filter-dates">
+              <input type="date" className="admin-date-input" value={dateFrom} onChange={e => setDateFrom(e.target.value)} />
+              <span className="admin-date-sep">—</span>
+              <input type="date" className="admin-date-input" value={dateTo} onChange={e => setDateTo(e.target.value)} />
+              {(dateFrom || dateTo) && (
+                <button className="admin-filter-clear" onClick={() => { setDateFrom(''); setDateTo(''); }}>&times;</button>
+              )}
+            </div>
           </div>
-        </div>
-
-        {monthFilter && (
-          <button className="admin-filter-tab active" onClick={() => setMonthFilter(null)}>
-            {formatMonthShort(monthFilter)}
-            <span style={{ marginLeft: 4, opacity: 0.6 }}>&times;</span>
-          </button>
-        )}
-      </div>
 
-      {/* Users table */}
-      <div className="admin-table-wrapper">
-        <table className="admin-table">
-          <thead>
-            <tr>
-              <th style={{ width: '220px' }}>User</th>
-              <th style={{ width: '120px' }}>Status</th>
-              <th style={{ width: '400px' }}>Activation</th>
-              <th style={{ width: '180px' }}>Intros</th>
-              <th style={{ width: '150px' }}>Activity</th>
-              <th style={{ width: '80px' }}>Role</th>
-              <th style={{ width: '50px' }}></th>
-            </tr>
-          </thead>
-          <tbody>
-            {loading && filteredUsers.length === 0 ? (
-              <tr><td colSpan={COL_COUNT} className="admin-table-empty">Loading...</td></tr>
-            ) : filteredUsers.length === 0 ? (
-              <tr><td colSpan={COL_COUNT} className="admin-table-empty">No users found</td></tr>
-            ) : groupUsersByMonth(filteredUsers).map(group => (
-              <MonthGroup
-                key={group.key}
-                label={group.label}
-                count={group.users.length}
-                users={group.users}
-                expandedUser={expandedUser}
-                onToggleExpand={(id) => setExpandedUser(expandedUser === id ? null : id)}
-                onRoleToggle={handleRoleToggle}
-                onDeleteUser={handleDeleteUser}
-                currentUserId={currentUser?.id}
-              />
-            ))}
-          </tbody>
-        </table>
-      </div>
+          {monthFilter && (
+            <button className="admin-filter-tab active" onClick={() => setMonthFilter(null)}>
+              {formatMonthShort(monthFilter)}
+              <span style={{ marginLeft: 4, opacity: 0.6 }}>&times;</span>
+            </button>
+          )}
+        </div>
 
-      {/* Pagination */}
-      {pagination.pages > 1 && (
-        <div className="admin-pagination">
-          <button disabled={pagination.page <= 1} onClick={() => handlePageChange(pagination.page - 1)}>Prev</button>
-          <span>Page {pagination.page} of {pagination.pages} ({pagination.total} users)</span>
-          <button disabled={pagination.page >= pagination.pages} onClick={() => handlePageChange(pagination.page + 1)}>Next</button>
+        {/* Users table */}
+        <div className="admin-table-wrapper">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th style={{ width: '220px' }}>User</th>
+                <th style={{ width: '120px' }}>Status</th>
+                <th style={{ width: '400px' }}>Activation</th>
+                <th style={{ width: '180px' }}>Intros</th>
+                <th style={{ width: '150px' }}>Activity</th>
+                <th style={{ width: '80px' }}>Role</th>
+                <th style={{ width: '50px' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading && filteredUsers.length === 0 ? (
+                <tr><td colSpan={COL_COUNT} className="admin-table-empty">Loading...</td></tr>
+              ) : filteredUsers.length === 0 ? (
+                <tr><td colSpan={COL_COUNT} className="admin-table-empty">No users found</td></tr>
+              ) : groupUsersByMonth(filteredUsers).map(group => (
+                <MonthGroup
+                  key={group.key}
+                  label={group.label}
+                  count={group.users.length}
+                  users={group.users}
+                  expandedUser={expandedUser}
+                  onToggleExpand={(id) => setExpandedUser(expandedUser === id ? null : id)}
+                  onRoleToggle={handleRoleToggle}
+                  onDeleteUser={handleDeleteUser}
+                  currentUserId={currentUser?.id}
+                />
+              ))}
+            </tbody>
+          </table>
         </div>
-      )}
 
+        {/* Pagination */}
+        {pagination.pages > 1 && (
+          <div className="admin-pagination">
+            <button disabled={pagination.page <= 1} onClick={() => handlePageChange(pagination.page - 1)}>Prev</button>
+            <span>Page {pagination.page} of {pagination.pages} ({pagination.total} users)</span>
+            <button disabled={pagination.page >= pagination.pages} onClick={() => handlePageChange(pagination.page + 1)}>Next</button>
+          </div>
+        )}
+        </>
+      )}
     </div>
   );
 }
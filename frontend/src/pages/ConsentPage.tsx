@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { consentApi, type IntroConsentView } from '../lib/api';
+
+// Answered by the target contact from the emailed link — no account needed.
+// The answer in the link only preselects a choice; email scanners that follow
+// links shouldn't be able to accept on someone's behalf.
+export function ConsentPage() {
+  const { token = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const preselected = searchParams.get('answer') === 'decline' ? 'decline' : searchParams.get('answer') === 'accept' ? 'accept' : null;
+
+  const [consent, setConsent] = useState<IntroConsentView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [decision, setDecision] = useState<'accept' | 'decline' | null>(preselected);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    consentApi.get(token)
+      .then(setConsent)
+      .catch(err => setError(err.message || 'This link is not valid'));
+  }, [token]);
+
+  const submit = async () => {
+    if (!decision || submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      setConsent(await consentApi.respond(token, { decision, note: note.trim() || undefined }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your answer');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const introducerFirst = consent?.introducerName.split(' ')[0] || '';
+
+  return (
+    <div className="login-page">
+      <div className="login-card consent-card">
+        <div className="login-logo">
+          <span className="logo-icon">🔗</span>
+          <h1>Introo</h1>
+        </div>
+
+        {!consent && !error && <div className="loading-spinner"></div>}
+
+        {!consent && error && <div className="login-error">{error}</div>}
+
+        {consent && consent.status === 'pending' && (
+          <>
+            <p className="login-tagline">
+              {consent.introducerName} would like to introduce you to <strong>{consent.requesterName}</strong>
+              {consent.companyName ? <> about {consent.companyName}</> : null}.
+            </p>
+            {consent.blurb && <p className="consent-blurb">{consent.blurb}</p>}
+
+            <div className="consent-choices">
+              <button
+                className={`consent-choice ${decision === 'accept' ? 'consent-choice--selected' : ''}`}
+                onClick={() => setDecision('accept')}
+              >
+                Yes, introduce us
+              </button>
+              <button
+                className={`consent-choice ${decision === 'decline' ? 'consent-choice--selected' : ''}`}
+                onClick={() => setDecision('decline')}
+              >
+                Not right now
+              </button>
+            </div>
+
+            <textarea
+              className="consent-note"
+              rows={3}
+              maxLength={1000}
+              placeholder={`Anything to add for ${introducerFirst}? (optional)`}
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+
+            {error && <div className="login-error">{error}</div>}
+
+            <button className="google-login-btn" disabled={!decision || submitting} onClick={submit}>
+              {submitting ? 'Sending...' : `Send answer to ${introducerFirst}`}
+            </button>
+            <p className="login-note">Only {introducerFirst} sees your note. {consent.requesterName} is just told whether you said yes.</p>
+          </>
+        )}
+
+        {consent && consent.status === 'accepted' && (
+          <p className="login-tagline">Thanks! {introducerFirst} will introduce you to {consent.requesterName} shortly.</p>
+        )}
+        {consent && consent.status === 'declined' && (
+          <p className="login-tagline">Thanks for letting {introducerFirst} know. No intro will be made.</p>
+        )}
+        {consent && consent.status === 'expired' && (
+          <p className="login-tagline">This link has expired. Reply to {introducerFirst}'s email if you'd still like the intro.</p>
+        )}
+
+        <div className="login-legal">
+          <Link to="/terms">Terms of Use</Link>
+          <span>·</span>
+          <Link to="/privacy">Privacy Policy</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
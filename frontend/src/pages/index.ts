@@ -5,4 +5,5 @@ export { OnboardingPage } from './OnboardingPage';
 export { LandingPage } from './LandingPage';
 export { TermsPage } from './TermsPage';
 export { PrivacyPage } from './PrivacyPage';
-export { DocsPage } from './DocsPage';
\ No newline at end of file
+export { DocsPage } from './DocsPage';
+export { ConsentPage } from './ConsentPage';
\ No newline at end of file
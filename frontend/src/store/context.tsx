@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useReducer, useEffect, useCallback, type ReactNode } from 'react';
 import type { AppState, AppAction } from './types';
 import { appReducer } from './reducer';
-import { authApi, relationshipsApi, calendarApi } from '../lib/api';
+import { authApi, relationshipsApi, calendarApi, waitForCalendarSync } from '../lib/api';
 
 const initialState: AppState = {
   isAuthenticated: false,
@@ -126,7 +126,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
             try {
               dispatch({ type: 'SET_LOADING_PHASE', payload: 'syncing' });
-              await calendarApi.sync();
+              await waitForCalendarSync(await calendarApi.sync());
               dispatch({ type: 'SET_CALENDAR_CONNECTED', payload: true });
 
               const [freshContacts, freshCompanies] = await Promise.all([
@@ -184,7 +184,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   const syncCalendar = useCallback(async () => {
     try {
-      await calendarApi.sync();
+      await waitForCalendarSync(await calendarApi.sync());
       dispatch({ type: 'SET_CALENDAR_CONNECTED', payload: true });
       
       // Refresh contacts & companies after sync
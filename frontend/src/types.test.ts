@@ -1,31 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { calculateStrength, timeAgo } from './types';
-
-describe('calculateStrength', () => {
-  it('returns strong for recent frequent contacts', () => {
-    const recentDate = new Date();
-    recentDate.setDate(recentDate.getDate() - 3); // 3 days ago
-    expect(calculateStrength(recentDate.toISOString(), 5)).toBe('strong');
-  });
-
-  it('returns medium for moderately recent contacts', () => {
-    const mediumDate = new Date();
-    mediumDate.setDate(mediumDate.getDate() - 14); // 14 days ago
-    expect(calculateStrength(mediumDate.toISOString(), 2)).toBe('medium');
-  });
-
-  it('returns weak for old or infrequent contacts', () => {
-    const oldDate = new Date();
-    oldDate.setDate(oldDate.getDate() - 60); // 60 days ago
-    expect(calculateStrength(oldDate.toISOString(), 1)).toBe('weak');
-  });
-
-  it('returns weak for recent but only 1 meeting', () => {
-    const recentDate = new Date();
-    recentDate.setDate(recentDate.getDate() - 5); // 5 days ago
-    expect(calculateStrength(recentDate.toISOString(), 1)).toBe('weak');
-  });
-});
+import { timeAgo, isActiveRequest } from './types';
 
 describe('timeAgo', () => {
   it('returns "just now" for very recent dates', () => {
@@ -53,3 +27,19 @@ describe('timeAgo', () => {
     expect(timeAgo(twoWeeksAgo)).toBe('2w ago');
   });
 });
+
+describe('isActiveRequest', () => {
+  it('treats in-progress statuses as active', () => {
+    expect(isActiveRequest('open')).toBe(true);
+    expect(isActiveRequest('details_requested')).toBe(true);
+    expect(isActiveRequest('checked_with_contact')).toBe(true);
+    expect(isActiveRequest('contact_agreed')).toBe(true);
+  });
+
+  it('treats final statuses as resolved', () => {
+    expect(isActiveRequest('accepted')).toBe(false);
+    expect(isActiveRequest('completed')).toBe(false);
+    expect(isActiveRequest('declined')).toBe(false);
+    expect(isActiveRequest('expired')).toBe(false);
+  });
+});
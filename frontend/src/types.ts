@@ -20,6 +20,9 @@ export interface User {
   onboardingChecklistDismissedAt?: string | null;
 }
 
+// Fields the user corrected by hand, with the provider/synced value underneath
+export type FieldOverrides = Record<string, { original: unknown; updatedAt: string }>;
+
 export interface Company {
   id: string;
   domain: string;
@@ -44,6 +47,10 @@ export interface Company {
   websiteSummary?: string | null;
   technologies?: string[] | null;
   enrichedAt?: string | null;
+  overrides?: FieldOverrides;
+  // The user's relationship with the company (on contacts from /api/relationships/contacts)
+  strengthScore?: number | null;
+  strength?: StrengthBreakdown['label'];
 }
 
 export interface Meeting {
@@ -54,6 +61,21 @@ export interface Meeting {
   description?: string | null;
 }
 
+export interface MeetingAttendee {
+  contactId: string;
+  name: string | null;
+  email: string;
+  title: string | null;
+  companyName: string | null;
+  companyDomain: string | null;
+}
+
+// One calendar event, with every contact of yours who attended it
+export interface MeetingTimelineEntry extends Meeting {
+  googleEventId?: string | null;
+  attendees: MeetingAttendee[];
+}
+
 // =============================================================================
 // Contact Types
 // =============================================================================
@@ -82,6 +104,11 @@ export interface Contact {
   enrichedAt?: string | null;
   createdAt?: string;
   firstSeenAt?: string;
+  overrides?: FieldOverrides;
+  // Scored by the API from this contact's past meetings
+  strengthScore?: number;
+  strength?: StrengthBreakdown['label'];
+  strengthBreakdown?: StrengthBreakdown;
 }
 
 // =============================================================================
@@ -119,6 +146,10 @@ export interface Space {
   emoji: string;
   isPrivate?: boolean;
   introReviewMode?: string;
+  strengthConfig?: Partial<StrengthConfig> | null;
+  staleReminderDays?: number;
+  staleEscalationDays?: number;
+  staleExpiryDays?: number;
   memberCount?: number;
   openRequestCount?: number;
   pendingCount?: number;
@@ -183,7 +214,8 @@ export interface DisplayContact {
   company: string; companyDomain: string;
   lastSeenAt: string; meetingsCount: number;
   firstSeenAt?: string;
-  connectionStrength: 'strong' | 'medium' | 'weak';
+  connectionStrength: StrengthBreakdown['label'];
+  strengthBreakdown?: StrengthBreakdown;
   linkedinUrl?: string | null;
   photoUrl?: string | null;
   city?: string | null;
@@ -192,8 +224,14 @@ export interface DisplayContact {
   enrichedAt?: string | null;
   sourceAccountEmails?: string[];
   meetings?: Meeting[];
+  state?: string | null;
+  overrides?: FieldOverrides;
   companyData?: {
     id?: string;
+    name?: string;
+    state?: string | null;
+    websiteUrl?: string | null;
+    overrides?: FieldOverrides;
     employeeCount?: number | null;
     foundedYear?: number | null;
     annualRevenue?: string | null;
@@ -207,6 +245,8 @@ export interface DisplayContact {
     websiteSummary?: string | null;
     linkedinUrl?: string | null;
     enrichedAt?: string | null;
+    // The user's relationship with the company, as scored by the API
+    strength?: StrengthBreakdown['label'];
   };
 }
 
@@ -238,6 +278,9 @@ export interface MergedCompany {
   websiteSummary?: string | null;
   linkedinUrl?: string | null;
   enrichedAt?: string | null;
+  state?: string | null;
+  websiteUrl?: string | null;
+  overrides?: FieldOverrides;
 }
 
 export interface ViewFilters {
@@ -305,24 +348,94 @@ export interface InlinePanel {
   introSourceFilter?: string;
   introSpaceFilter?: string;
   introConnectionFilter?: string;
-  introRequest?: { id: string; rawText: string; status: string; createdAt: string; direction: 'sent' | 'received'; normalizedQuery: Record<string, unknown>; requester: { id: string; name: string; email?: string; avatar: string | null }; space?: { id: string; name: string; emoji: string } | null; connectionPeerName?: string; declineReason?: string | null; declinedByName?: string; detailsRequestedAt?: string | null; detailsRequestedById?: string; detailsRequestedByName?: string; checkedWithContactAt?: string | null; checkedWithContactName?: string; checkedWithContactById?: string; checkedWithContacts?: { at: string; name: string | null; byId: string }[]; adminStatus?: string | null; adminReviewedAt?: string | null; adminRejectReason?: string | null; offers?: { id: string; status: string; createdAt: string; introducer: { id: string; name: string; avatar: string | null } }[] };
+  introRequest?: IntroRequestDetails & { id: string; rawText: string; status: string; createdAt: string; direction: 'sent' | 'received'; normalizedQuery: Record<string, unknown>; requester: { id: string; name: string; email?: string; avatar: string | null }; space?: { id: string; name: string; emoji: string } | null; connectionPeerName?: string; declineReason?: string | null; declinedByName?: string; detailsRequestedAt?: string | null; detailsRequestedById?: string; detailsRequestedByName?: string; checkedWithContactAt?: string | null; checkedWithContactName?: string; checkedWithContactById?: string; checkedWithContacts?: { at: string; name: string | null; byId: string }[]; contactAgreedAt?: string | null; adminStatus?: string | null; adminReviewedAt?: string | null; adminRejectReason?: string | null; offers?: { id: string; status: string; createdAt: string; introducer: { id: string; name: string; avatar: string | null } }[] };
 }
 
+export type RequestUrgency = 'low' | 'normal' | 'high';
+
+/** Structured parts of an intro request, alongside its free-form rawText */
+export interface IntroRequestDetails {
+  targetName?: string | null;
+  targetRole?: string | null;
+  reason?: string | null;
+  context?: string | null;
+  urgency?: RequestUrgency | null;
+  deadline?: string | null;
+  desiredOutcome?: string | null;
+  forwardableBlurb?: string | null;
+  templateId?: string | null;
+}
+
+export const REQUEST_URGENCY_LABELS: Record<RequestUrgency, string> = {
+  low: 'No rush',
+  normal: 'Normal',
+  high: 'Urgent',
+};
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
 
-export function calculateStrength(lastSeenAt: string, meetingsCount: number): 'strong' | 'medium' | 'weak' {
-  const daysSince = Math.floor((Date.now() - new Date(lastSeenAt).getTime()) / (1000 * 60 * 60 * 24));
-  // Strong: frequent recent contact
-  if (meetingsCount >= 5) return 'strong';
-  if (daysSince <= 30 && meetingsCount >= 3) return 'strong';
-  if (daysSince <= 14 && meetingsCount >= 2) return 'strong';
-  // Medium: any meaningful contact
-  if (meetingsCount >= 2) return 'medium';
-  if (daysSince <= 90) return 'medium';
-  // Weak: only 1 meeting and it was 90+ days ago
-  return 'weak';
+export type StrengthFactorKey = 'recency' | 'frequency' | 'duration' | 'intimacy' | 'reciprocity';
+
+export interface StrengthConfig {
+  weights: Record<StrengthFactorKey, number>;
+  halfLifeDays: number;
+  decay: 'exponential' | 'linear';
+}
+
+export interface StrengthFactor {
+  key: StrengthFactorKey;
+  value: number | null;
+  weight: number;
+  points: number;
+  detail: string;
+}
+
+// Explanation of a relationship strength score, as returned by the API
+export interface StrengthBreakdown {
+  score: number;
+  label: 'strong' | 'medium' | 'weak' | 'none';
+  meetingsCount: number;
+  lastSeenAt: string | null;
+  factors: StrengthFactor[];
+  config: StrengthConfig;
+}
+
+// Mirrors DEFAULT_STRENGTH_CONFIG in backend/src/services/strength.ts
+export const DEFAULT_STRENGTH_CONFIG: StrengthConfig = {
+  weights: { recency: 0.35, frequency: 0.3, duration: 0.1, intimacy: 0.15, reciprocity: 0.1 },
+  halfLifeDays: 90,
+  decay: 'exponential',
+};
+
+export interface StaleThresholds {
+  staleReminderDays: number;
+  staleEscalationDays: number;
+  staleExpiryDays: number;
+}
+
+// Mirrors DEFAULT_STALE_THRESHOLDS in backend/src/services/staleRequests.ts
+export const DEFAULT_STALE_THRESHOLDS: StaleThresholds = {
+  staleReminderDays: 3,
+  staleEscalationDays: 7,
+  staleExpiryDays: 14,
+};
+
+export const STRENGTH_FACTOR_LABELS: Record<StrengthFactorKey, string> = {
+  recency: 'Recency',
+  frequency: 'Frequency',
+  duration: 'Meeting length',
+  intimacy: '1:1 vs group',
+  reciprocity: 'Reciprocity',
+};
+
+// Intro request statuses in which the request still needs an intro
+// (mirrors ACTIVE_REQUEST_STATUSES in backend/src/services/introRequestLifecycle.ts)
+export const ACTIVE_REQUEST_STATUSES = ['open', 'details_requested', 'checked_with_contact', 'contact_agreed'];
+
+export function isActiveRequest(status: string): boolean {
+  return ACTIVE_REQUEST_STATUSES.includes(status);
 }
 
 export function timeAgo(date: Date): string {